@@ -10,12 +10,19 @@ import itemsRouter from './routes/items.js'
 import llmRouter from './routes/llm.js'
 import scenesRouter from './routes/scenes.js'
 import localFilesRouter from './routes/localFiles.js'
+import s3FilesRouter from './routes/s3Files.js'
 import configRouter from './routes/config.js'
 import embedRouter from './routes/embed.js'
 import workspacesRouter from './routes/workspaces.js'
+import eventsRouter from './routes/events.js'
+import collabRouter from './routes/collab.js'
+import searchRouter from './routes/search.js'
+import uploadsRouter from './routes/uploads.js'
+import jobsRouter from './routes/jobs.js'
 import { getStorageMode } from './services/storage.js'
 import { initializeStorage } from './services/diskStorage.js'
 import { getS3ConfigStatus } from './services/s3.js'
+import { startUploadCleanup } from './services/resumableUploads.js'
 
 dotenv.config()
 
@@ -153,6 +160,25 @@ const workspaceCreateLimiter = rateLimit({
   message: { error: 'Too many workspace creation requests. Please try again later.' },
 })
 
+// Live co-editing sends cursor moves and edits as they happen, far more often than
+// other requests, so it has its own limit instead of the general one
+const collabLimiter = rateLimit({
+  windowMs: RATE_WINDOW,
+  max: parseInt(process.env.RATE_LIMIT_COLLAB || '20000'),
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: 'Too many collaboration requests. Please try again later.' },
+})
+
+// Clients poll background job status about once a second for as long as a job runs
+const jobsLimiter = rateLimit({
+  windowMs: RATE_WINDOW,
+  max: parseInt(process.env.RATE_LIMIT_JOBS || '5000'),
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: 'Too many job status requests. Please try again later.' },
+})
+
 // Workspace param validation middleware
 const WORKSPACE_RE = /^[a-zA-Z0-9_-]{1,64}$/
 app.param('workspace', (req, res, next, value) => {
@@ -162,24 +188,34 @@ app.param('workspace', (req, res, next, value) => {
   next()
 })
 
+// Mounted ahead of the general limiter so collaboration traffic and job polling only count against their own
+app.use('/api/w/:workspace/collab', collabLimiter, collabRouter)
+app.use('/api/w/:workspace/jobs', jobsLimiter, jobsRouter)
+
 // Rate limiters on workspace-prefixed paths
 app.use('/api/w/:workspace/', generalLimiter)
 app.use('/api/w/:workspace/llm/generate-claude-code', claudeCodeLimiter)
 app.use('/api/w/:workspace/llm', llmLimiter)
 app.use('/api/w/:workspace/items/upload-image', uploadLimiter)
 app.use('/api/w/:workspace/items/upload-video', uploadLimiter)
+app.post('/api/w/:workspace/uploads', uploadLimiter)
 
 // App routers mounted under workspace prefix
 app.use('/api/w/:workspace/items', itemsRouter)
 app.use('/api/w/:workspace/llm', llmRouter)
 app.use('/api/w/:workspace/scenes', scenesRouter)
 app.use('/api/w/:workspace/embed', embedRouter)
+app.use('/api/w/:workspace/events', eventsRouter)
+app.use('/api/w/:workspace/search', searchRouter)
+app.use('/api/w/:workspace/uploads', uploadsRouter)
 
 // Non-workspace routes
 app.use('/api/local-files', localFilesRouter)
+app.use('/api/s3-files', s3FilesRouter)
 app.use('/api/config', configRouter)
 app.use('/api/workspaces', generalLimiter)
 app.post('/api/workspaces', workspaceCreateLimiter)
+app.post('/api/workspaces/import', workspaceCreateLimiter)
 app.use('/api/workspaces', workspacesRouter)
 
 // Serve frontend static files when running as a standalone app
@@ -230,6 +266,9 @@ async function start() {
     await initializeStorage()
   }
 
+  // Clean up uploads abandoned before this start, then periodically
+  startUploadCleanup()
+
   function tryListen() {
     const server = app.listen(PORT, () => {
       console.log(`Server running on http://localhost:${PORT}`)
@@ -0,0 +1,98 @@
+import { Router } from 'express'
+import { validate as uuidValidate } from 'uuid'
+import { publishWorkspaceEvent, SceneOp } from '../services/workspaceEvents.js'
+
+// Relay for live co-editing. Nothing here is stored: clients apply each other's
+// operations as they arrive and keep saving the full scene as usual.
+const router = Router({ mergeParams: true })
+
+const MAX_OPS_PER_REQUEST = 100
+const MAX_NAME_LENGTH = 64
+const COLOR_RE = /^#[0-9a-fA-F]{6}$/
+
+router.param('sceneId', (req, res, next, sceneId) => {
+  if (!uuidValidate(sceneId)) {
+    return res.status(400).json({ error: 'Invalid scene ID format' })
+  }
+  next()
+})
+
+// Collaboration requests must identify the sending tab so it can skip its own events
+router.use((req, res, next) => {
+  const clientId = req.get('X-Client-Id')
+  if (!clientId || !uuidValidate(clientId)) {
+    return res.status(400).json({ error: 'X-Client-Id header required' })
+  }
+  next()
+})
+
+function isSceneOp(value: unknown): value is SceneOp {
+  if (!value || typeof value !== 'object') return false
+  const op = value as Record<string, unknown>
+  if (op.direction !== 'apply' && op.direction !== 'reverse') return false
+  const record = op.record as Record<string, unknown> | null
+  return !!record
+    && typeof record === 'object'
+    && typeof record.type === 'string'
+    && typeof record.objectId === 'string'
+    && typeof record.timestamp === 'number'
+    && !!record.data
+    && typeof record.data === 'object'
+}
+
+function isPoint(value: unknown): value is { x: number; y: number } {
+  if (!value || typeof value !== 'object') return false
+  const point = value as Record<string, unknown>
+  return Number.isFinite(point.x) && Number.isFinite(point.y)
+}
+
+// Broadcast item-level operations to everyone else viewing the workspace
+router.post('/:sceneId/ops', (req, res) => {
+  const workspace = (req.params as Record<string, string>).workspace
+  const { sceneId } = req.params
+  const { ops } = req.body ?? {}
+
+  if (!Array.isArray(ops) || ops.length === 0 || ops.length > MAX_OPS_PER_REQUEST) {
+    return res.status(400).json({ error: `ops must be an array of 1-${MAX_OPS_PER_REQUEST} operations` })
+  }
+  if (!ops.every(isSceneOp)) {
+    return res.status(400).json({ error: 'Invalid operation' })
+  }
+
+  publishWorkspaceEvent(workspace, { type: 'scene-ops', sceneId, ops }, req.get('X-Client-Id'))
+  res.json({ success: true })
+})
+
+// Broadcast this client's cursor and selection in a scene
+router.post('/:sceneId/presence', (req, res) => {
+  const workspace = (req.params as Record<string, string>).workspace
+  const { sceneId } = req.params
+  const clientId = req.get('X-Client-Id')!
+  const { name, color, cursor, selectedIds } = req.body ?? {}
+
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+    return res.status(400).json({ error: `name must be 1-${MAX_NAME_LENGTH} characters` })
+  }
+  if (typeof color !== 'string' || !COLOR_RE.test(color)) {
+    return res.status(400).json({ error: 'color must be a hex color like #1976d2' })
+  }
+  if (cursor !== null && !isPoint(cursor)) {
+    return res.status(400).json({ error: 'cursor must be { x, y } or null' })
+  }
+  if (!Array.isArray(selectedIds) || !selectedIds.every((id) => typeof id === 'string')) {
+    return res.status(400).json({ error: 'selectedIds must be an array of item IDs' })
+  }
+
+  publishWorkspaceEvent(
+    workspace,
+    {
+      type: 'presence',
+      sceneId,
+      presence: { clientId, name: name.trim(), color, cursor: cursor && { x: cursor.x, y: cursor.y }, selectedIds },
+    },
+    clientId
+  )
+  res.json({ success: true })
+})
+
+export default router
@@ -0,0 +1,45 @@
+import { Router } from 'express'
+import { validate as uuidValidate } from 'uuid'
+import { subscribeToWorkspace, publishWorkspaceEvent } from '../services/workspaceEvents.js'
+
+const router = Router({ mergeParams: true })
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000
+// How long the browser's EventSource waits before reconnecting after a drop
+const CLIENT_RETRY_MS = 5000
+
+// Server-sent events stream of changes in the workspace. Clients pass their client ID
+// as ?clientId= so collaborators can be told when they disconnect.
+router.get('/', (req, res) => {
+  const workspace = (req.params as Record<string, string>).workspace
+  const clientId = typeof req.query.clientId === 'string' && uuidValidate(req.query.clientId)
+    ? req.query.clientId
+    : null
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable nginx response buffering
+  })
+  res.write(`retry: ${CLIENT_RETRY_MS}\n\n`)
+
+  const unsubscribe = subscribeToWorkspace(workspace, (event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+  })
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n')
+  }, HEARTBEAT_INTERVAL_MS)
+
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+    if (clientId) {
+      publishWorkspaceEvent(workspace, { type: 'presence-left', clientId }, clientId)
+    }
+  })
+})
+
+export default router
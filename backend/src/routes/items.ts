@@ -1,22 +1,54 @@
 import { Router } from 'express'
-import { save, loadAsBuffer, getPublicUrl } from '../services/storage.js'
+import { save, loadAsBuffer, exists, del, getPublicUrl } from '../services/storage.js'
 import { v4 as uuidv4, validate as uuidValidate } from 'uuid'
-import sharp from 'sharp'
 import ffmpeg from 'fluent-ffmpeg'
-import ffmpegStatic from 'ffmpeg-static'
-import ffprobeStatic from 'ffprobe-static'
 import multer from 'multer'
 import * as fs from 'fs'
 import * as path from 'path'
 import * as os from 'os'
-
-// Configure ffmpeg/ffprobe to use the bundled binaries
-if (ffmpegStatic) {
-  ffmpeg.setFfmpegPath(ffmpegStatic)
-}
-if (ffprobeStatic?.path) {
-  ffmpeg.setFfprobePath(ffprobeStatic.path)
-}
+import {
+  BROWSER_NATIVE_EXTENSIONS,
+  MODEL3D_MIME_TYPES,
+  SPLAT_MIME_TYPES,
+  isAudioFormat,
+  transcodeToMp4,
+} from '../services/mediaFiles.js'
+import { submitMediaJob } from '../services/mediaJobs.js'
+import {
+  renderImageEdits,
+  isValidImageEditList,
+  isImageEditFormat,
+  IMAGE_EDIT_FORMAT_EXTENSIONS,
+  MAX_IMAGE_EDITS,
+} from '../services/imageEdits.js'
+import {
+  bakeImageAnnotations,
+  isValidImageAnnotationList,
+  isValidAnnotationSpace,
+  MAX_IMAGE_ANNOTATIONS,
+} from '../services/imageAnnotations.js'
+import { loadImageBuffer } from '../services/llmTypes.js'
+import {
+  convertImage,
+  getOriginalImageFilename,
+  getSvgSize,
+  needsImageConversion,
+  ImageFormatError,
+  IMAGE_MIME_TYPES,
+  WEB_IMAGE_EXTENSIONS,
+} from '../services/imageFormats.js'
+import { composeImages, isCompositeLayout, CompositeTile, MAX_COMPOSITE_TILES } from '../services/imageComposite.js'
+import {
+  editVideo,
+  convertMedia,
+  combineVideos,
+  captureFrame,
+  trimAudio,
+  convertAudio,
+  extractAudio,
+  CombineClip,
+  FrameCaptureError,
+} from '../services/videoProcessing.js'
 
 // MIME types for text file formats
 const TEXT_FILE_MIME_TYPES: Record<string, string> = {
@@ -26,33 +58,65 @@ const TEXT_FILE_MIME_TYPES: Record<string, string> = {
   md: 'text/markdown', sh: 'text/x-shellscript', log: 'text/plain', ini: 'text/plain',
 }
 
-// Browser-native video formats that don't need transcoding
-const BROWSER_NATIVE_EXTENSIONS = new Set(['mp4', 'webm', 'ogg', 'ogv'])
-
-/**
- * Transcode a video file to MP4 (H.264/AAC) with faststart for streaming.
- */
-function transcodeToMp4(inputPath: string, outputPath: string): Promise<void> {
-  return new Promise<void>((resolve, reject) => {
-    ffmpeg(inputPath)
-      .outputOptions([
-        '-c:v', 'libx264', '-preset', 'fast', '-crf', '23',
-        '-c:a', 'aac', '-b:a', '128k',
-        '-movflags', '+faststart',
-      ])
-      .output(outputPath)
-      .on('end', () => resolve())
-      .on('error', (err) => reject(err))
-      .run()
-  })
-}
-
 // Configure multer for multipart file uploads (500MB limit)
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 500 * 1024 * 1024 }
 })
 
+// Cut lists are joined in one ffmpeg filter graph, which grows with every segment
+const MAX_VIDEO_SEGMENTS = 200
+// Each combined clip is a separate ffmpeg input, downloaded to a temp file first
+const MAX_COMBINE_CLIPS = 50
+
+function isValidSegmentList(segments: unknown): boolean {
+  if (!Array.isArray(segments) || segments.length === 0 || segments.length > MAX_VIDEO_SEGMENTS) {
+    return false
+  }
+  return segments.every((segment) => {
+    const { start, end, speed } = (segment ?? {}) as Record<string, unknown>
+    return typeof start === 'number' && typeof end === 'number' &&
+      Number.isFinite(start) && Number.isFinite(end) && start >= 0 && end > start &&
+      (speed === undefined || (typeof speed === 'number' && speed >= 0.1 && speed <= 100))
+  })
+}
+
+// Each caption or callout is rendered to an image and overlaid as its own ffmpeg input
+const MAX_VIDEO_ANNOTATIONS = 100
+
+function isTimedRange(value: Record<string, unknown>): boolean {
+  const { start, end } = value
+  return typeof start === 'number' && typeof end === 'number' &&
+    Number.isFinite(start) && Number.isFinite(end) && start >= 0 && end > start
+}
+
+function isValidCaptionList(captions: unknown): boolean {
+  return Array.isArray(captions) && captions.every((caption) => {
+    const c = (caption ?? {}) as Record<string, unknown>
+    return isTimedRange(c) && typeof c.text === 'string' && c.text.length > 0 && c.text.length <= 500 &&
+      (c.position === undefined || c.position === 'top' || c.position === 'bottom')
+  })
+}
+
+function isValidCalloutList(callouts: unknown): boolean {
+  return Array.isArray(callouts) && callouts.every((callout) => {
+    const c = (callout ?? {}) as Record<string, unknown>
+    return isTimedRange(c) && (c.shape === 'arrow' || c.shape === 'box') &&
+      [c.x1, c.y1, c.x2, c.y2].every((n) => typeof n === 'number' && Number.isFinite(n)) &&
+      (c.color === undefined || (typeof c.color === 'string' && /^#[0-9a-fA-F]{6}$/.test(c.color)))
+  })
+}
+
+function isValidCompositeTile(tile: unknown): boolean {
+  const t = (tile ?? {}) as Record<string, unknown>
+  return typeof t.imageId === 'string' && uuidValidate(t.imageId) &&
+    [t.x, t.y].every((n) => typeof n === 'number' && Number.isFinite(n)) &&
+    [t.width, t.height].every((n) => typeof n === 'number' && Number.isFinite(n) && n > 0) &&
+    (t.rotation === undefined || (typeof t.rotation === 'number' && Number.isFinite(t.rotation))) &&
+    (t.label === undefined || (typeof t.label === 'string' && t.label.length <= 200)) &&
+    (t.annotations === undefined || (isValidImageAnnotationList(t.annotations) && isValidAnnotationSpace(t.annotationSpace)))
+}
+
 const router = Router({ mergeParams: true })
 
 // Upload image
@@ -77,17 +141,41 @@ router.post('/upload-image', async (req, res) => {
 
     // Save directly to scene folder with itemId
     const sceneFolder = `${(req.params as Record<string, string>).workspace}/${sceneId}`
-    const key = `${sceneFolder}/${itemId}.${ext}`
 
     // imageData is base64, convert to buffer
-    const base64Data = imageData.replace(/^data:image\/\w+;base64,/, '')
-    await save(key, Buffer.from(base64Data, 'base64'), `image/${ext}`)
+    const base64Data = imageData.replace(/^data:[^;,]+;base64,/, '')
+    const buffer = Buffer.from(base64Data, 'base64')
+
+    // Formats browsers can't show are converted, keeping the upload as the original
+    if (needsImageConversion(ext)) {
+      const converted = await convertImage(buffer, ext)
+      const originalKey = `${sceneFolder}/${getOriginalImageFilename(itemId, ext)}`
+      const key = `${sceneFolder}/${itemId}.${converted.extension}`
+      await save(originalKey, buffer, IMAGE_MIME_TYPES[ext])
+      await save(key, converted.buffer, converted.contentType)
+      return res.json({
+        success: true,
+        url: getPublicUrl(key),
+        originalUrl: getPublicUrl(originalKey),
+        width: converted.width,
+        height: converted.height,
+        fileSize: converted.buffer.length,
+      })
+    }
+
+    const key = `${sceneFolder}/${itemId}.${ext}`
+    await save(key, buffer, IMAGE_MIME_TYPES[ext] || `image/${ext}`)
 
     // Return the appropriate URL based on storage mode
     const url = getPublicUrl(key)
 
-    res.json({ success: true, url })
+    // SVGs may have no intrinsic size the browser reports, so send the one they declare
+    const size = ext === 'svg' ? await getSvgSize(buffer) : null
+    res.json({ success: true, url, ...size })
   } catch (error) {
+    if (error instanceof ImageFormatError) {
+      return res.status(error.status).json({ error: error.message })
+    }
     console.error('Error uploading image:', error)
     res.status(500).json({ error: 'Failed to upload image' })
   }
@@ -249,15 +337,6 @@ router.post('/upload-video', upload.single('video'), async (req, res) => {
   }
 })
 
-// MIME types for 3D model formats
-const MODEL3D_MIME_TYPES: Record<string, string> = {
-  glb: 'model/gltf-binary',
-  gltf: 'model/gltf+json',
-  obj: 'text/plain',
-  stl: 'model/stl',
-  fbx: 'application/octet-stream',
-}
-
 // Upload 3D model (multipart/form-data) — stored as-is, no transcoding
 router.post('/upload-model3d', upload.single('model'), async (req, res) => {
   try {
@@ -301,13 +380,6 @@ router.post('/upload-model3d', upload.single('model'), async (req, res) => {
   }
 })
 
-// MIME types for Gaussian splat formats
-const SPLAT_MIME_TYPES: Record<string, string> = {
-  splat: 'application/octet-stream',
-  ksplat: 'application/octet-stream',
-  ply: 'application/octet-stream',
-}
-
 // Upload Gaussian splat (multipart/form-data) — stored as-is
 router.post('/upload-splat', upload.single('splat'), async (req, res) => {
   try {
@@ -350,28 +422,36 @@ router.post('/upload-splat', upload.single('splat'), async (req, res) => {
   }
 })
 
-// Crop an image and save the cropped version
+// Render an image's edits (crop, then the edit stack, then the output format) and save
+// them as its edited version
 router.post('/crop-image', async (req, res) => {
   try {
-    const { sceneId, imageId, cropRect } = req.body
+    const { sceneId, imageId, cropRect, edits, format, quality } = req.body
     if (!sceneId || !imageId) {
       return res.status(400).json({ error: 'sceneId and imageId are required' })
     }
-    if (!cropRect) {
-      return res.status(400).json({ error: 'cropRect is required' })
+    if (edits !== undefined && !isValidImageEditList(edits)) {
+      return res.status(400).json({ error: `edits must be a list of at most ${MAX_IMAGE_EDITS} image edit steps` })
+    }
+    if (format !== undefined && !isImageEditFormat(format)) {
+      return res.status(400).json({ error: 'format must be png, jpeg or webp' })
+    }
+    if (quality !== undefined && !(Number.isInteger(quality) && quality >= 1 && quality <= 100)) {
+      return res.status(400).json({ error: 'quality must be an integer from 1 to 100' })
+    }
+    const hasEdits = edits?.length > 0 || format !== undefined
+    if (!cropRect && !hasEdits) {
+      return res.status(400).json({ error: 'cropRect, edits or format is required' })
     }
-
-    const { x, y, width, height } = cropRect
 
     // Construct the source image key from scene and image IDs
     const sceneFolder = `${(req.params as Record<string, string>).workspace}/${sceneId}`
 
     // Try common image extensions, track which one matched
-    const extensions = ['png', 'jpg', 'jpeg', 'gif', 'webp']
     let buffer: Buffer | null = null
     let matchedExt = ''
 
-    for (const ext of extensions) {
+    for (const ext of WEB_IMAGE_EXTENSIONS) {
       const sourceKey = `${sceneFolder}/${imageId}.${ext}`
       buffer = await loadAsBuffer(sourceKey)
       if (buffer) {
@@ -384,11 +464,18 @@ router.post('/crop-image', async (req, res) => {
       return res.status(404).json({ error: 'Source image not found' })
     }
 
+    if (matchedExt === 'gif' && hasEdits) {
+      return res.status(400).json({ error: 'GIFs can only be cropped' })
+    }
+
     let outputKey: string
     let contentType: string
     let outputSize: number = 0
+    let outputWidth: number
+    let outputHeight: number
 
     if (matchedExt === 'gif') {
+      const { x, y, width, height } = cropRect
       // Use ffmpeg with palette-preserving crop to keep animation
       const tempDir = os.tmpdir()
       const tempId = uuidv4()
@@ -423,6 +510,8 @@ router.post('/crop-image', async (req, res) => {
 
         const croppedGifBuffer = fs.readFileSync(gifOutputPath)
         outputKey = `${sceneFolder}/${imageId}.crop.gif`
+        outputWidth = cropW
+        outputHeight = cropH
         contentType = 'image/gif'
         outputSize = croppedGifBuffer.length
         await save(outputKey, croppedGifBuffer, contentType)
@@ -432,259 +521,188 @@ router.post('/crop-image', async (req, res) => {
         throw err
       }
     } else {
-      // Non-GIF: crop with sharp as before
-      const croppedBuffer = await sharp(buffer)
-        .extract({ left: Math.round(x), top: Math.round(y), width: Math.round(width), height: Math.round(height) })
-        .png()
-        .toBuffer()
-
-      outputKey = `${sceneFolder}/${imageId}.crop.png`
-      contentType = 'image/png'
-      outputSize = croppedBuffer.length
-      await save(outputKey, croppedBuffer, contentType)
+      const rendered = await renderImageEdits(buffer, { cropRect, edits, format, quality })
+      outputKey = `${sceneFolder}/${imageId}.crop.${rendered.extension}`
+      contentType = rendered.contentType
+      outputSize = rendered.buffer.length
+      outputWidth = rendered.width
+      outputHeight = rendered.height
+      await save(outputKey, rendered.buffer, contentType)
+
+      // Edited files are looked up by trying extensions in turn, so drop any left over
+      // from an earlier output format
+      for (const ext of Object.values(IMAGE_EDIT_FORMAT_EXTENSIONS)) {
+        const staleKey = `${sceneFolder}/${imageId}.crop.${ext}`
+        if (staleKey !== outputKey && await exists(staleKey)) {
+          await del(staleKey)
+        }
+      }
     }
 
     const url = getPublicUrl(outputKey)
-    res.json({ success: true, url, fileSize: outputSize })
+    res.json({ success: true, url, fileSize: outputSize, width: outputWidth, height: outputHeight })
   } catch (error) {
-    console.error('Error cropping image:', error)
-    res.status(500).json({ error: 'Failed to crop image' })
+    console.error('Error editing image:', error)
+    res.status(500).json({ error: 'Failed to edit image' })
   }
 })
 
-// Process a video (crop, speed change, trim) and save
-router.post('/crop-video', async (req, res) => {
-  const tempDir = os.tmpdir()
-  const inputPath = path.join(tempDir, `video-input-${uuidv4()}.mp4`)
-  const intermediatePath = path.join(tempDir, `video-intermediate-${uuidv4()}.mp4`)
-  const outputPath = path.join(tempDir, `video-output-${uuidv4()}.mp4`)
-
-  // Helper to clean up temp files
-  const cleanup = () => {
-    try { if (fs.existsSync(inputPath)) fs.unlinkSync(inputPath) } catch { /* ignore */ }
-    try { if (fs.existsSync(intermediatePath)) fs.unlinkSync(intermediatePath) } catch { /* ignore */ }
-    try { if (fs.existsSync(outputPath)) fs.unlinkSync(outputPath) } catch { /* ignore */ }
-  }
-
+// Bake an image's annotations into it (its edited version when useEdited) and return
+// the PNG. Nothing is saved; this is called when the annotated image is exported.
+router.post('/annotate-image', async (req, res) => {
   try {
-    const { sceneId, videoId, cropRect, speed, removeAudio, trim, extension } = req.body
-    console.log('crop-video request:', { sceneId, videoId, cropRect, speed, removeAudio, trim, extension })
-    if (!sceneId || !videoId) {
-      return res.status(400).json({ error: 'sceneId and videoId are required' })
+    const { sceneId, imageId, useEdited, annotations, annotationSpace } = req.body
+    if (!sceneId || !imageId) {
+      return res.status(400).json({ error: 'sceneId and imageId are required' })
     }
-    const hasTrim = trim && (trim.start > 0 || trim.end > 0)
-    if (!cropRect && (!speed || speed === 1) && !removeAudio && !hasTrim) {
-      console.log('crop-video rejected: no cropRect, speed is 1 or undefined, removeAudio is false, and no trim')
-      return res.status(400).json({ error: 'cropRect, speed change, removeAudio, or trim is required' })
+    if (!uuidValidate(sceneId) || !uuidValidate(imageId)) {
+      return res.status(400).json({ error: 'Invalid scene ID or image ID format' })
     }
-
-    // Construct the source video URL from scene and video IDs
-    // Use provided extension or default to mp4
-    const sourceExt = extension || 'mp4'
-    const sceneFolder = `${(req.params as Record<string, string>).workspace}/${sceneId}`
-    const sourceKey = `${sceneFolder}/${videoId}.${sourceExt}`
-    let sourceUrl = getPublicUrl(sourceKey)
-
-    // For local URLs, convert to absolute URLs for fetching
-    if (sourceUrl.startsWith('/api/local-files/')) {
-      sourceUrl = `http://localhost:${process.env.PORT || 4000}${sourceUrl}`
+    if (!isValidImageAnnotationList(annotations)) {
+      return res.status(400).json({ error: `annotations must be a list of at most ${MAX_IMAGE_ANNOTATIONS} image annotations` })
     }
-
-    // Download video to temp file
-    const response = await fetch(sourceUrl)
-    if (!response.ok) {
-      return res.status(400).json({ error: `Failed to fetch source video: ${sourceUrl}` })
+    if (!isValidAnnotationSpace(annotationSpace)) {
+      return res.status(400).json({ error: 'annotationSpace must be { width, height }' })
     }
-    const arrayBuffer = await response.arrayBuffer()
-    fs.writeFileSync(inputPath, Buffer.from(arrayBuffer))
-
-    const effectiveSpeed = speed && speed !== 1 ? speed : null
 
-    // Use multi-pass approach when we have trim combined with crop or speed
-    // This avoids synchronization issues between input seeking and video filters
-    // Pass 1: crop + trim -> intermediate file (or output if no speed)
-    // Pass 2: speed change -> output file (only if speed is needed)
-    const needsTrimPass = hasTrim && (effectiveSpeed || cropRect)
-    const needsSpeedPass = hasTrim && effectiveSpeed
-
-    if (needsTrimPass) {
-      // PASS 1: Crop and trim
-      // Output to intermediate if we need speed pass, otherwise directly to output
-      const pass1Output = needsSpeedPass ? intermediatePath : outputPath
-
-      await new Promise<void>((resolve, reject) => {
-        const cmd = ffmpeg(inputPath)
-
-        // Apply trim as input options
-        if (trim.start > 0) {
-          cmd.inputOptions(['-ss', String(trim.start)])
-        }
-        if (trim.end > 0) {
-          const duration = trim.end - (trim.start || 0)
-          if (duration > 0) {
-            cmd.inputOptions(['-t', String(duration)])
-          }
-        }
-
-        // Apply crop filter
-        if (cropRect) {
-          let { x, y, width, height } = cropRect
-          x = Math.round(x)
-          y = Math.round(y)
-          width = Math.round(width / 2) * 2
-          height = Math.round(height / 2) * 2
-          cmd.videoFilter([`crop=${width}:${height}:${x}:${y}`])
-        }
-
-        cmd.outputOptions(['-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-movflags', '+faststart'])
-
-        if (removeAudio) {
-          cmd.noAudio()
-        } else {
-          cmd.outputOptions(['-c:a', 'aac', '-b:a', '128k'])
-        }
-
-        cmd.output(pass1Output)
-          .on('end', () => resolve())
-          .on('error', (err) => reject(err))
-          .run()
-      })
+    const workspace = (req.params as Record<string, string>).workspace
+    const image = await loadImageBuffer(workspace, sceneId, imageId, !!useEdited)
+    if (!image) {
+      return res.status(404).json({ error: 'Source image not found' })
+    }
+    if (image.mimeType === 'image/gif') {
+      return res.status(400).json({ error: 'GIFs cannot be annotated' })
+    }
 
-      // PASS 2: Apply speed change (only if needed)
-      if (needsSpeedPass) {
-        await new Promise<void>((resolve, reject) => {
-          const cmd = ffmpeg(intermediatePath)
-
-          // Video speed filter
-          cmd.videoFilter([`setpts=PTS/${effectiveSpeed}`])
-
-          // Audio speed filter (atempo only supports 0.5-2.0, chain for extreme values)
-          if (!removeAudio) {
-            const audioFilters: string[] = []
-            let remainingSpeed = effectiveSpeed
-            while (remainingSpeed > 2.0) {
-              audioFilters.push('atempo=2.0')
-              remainingSpeed /= 2.0
-            }
-            while (remainingSpeed < 0.5) {
-              audioFilters.push('atempo=0.5')
-              remainingSpeed /= 0.5
-            }
-            audioFilters.push(`atempo=${remainingSpeed}`)
-            cmd.audioFilter(audioFilters)
-            cmd.outputOptions(['-c:a', 'aac', '-b:a', '128k'])
-          } else {
-            cmd.noAudio()
-          }
-
-          cmd.outputOptions(['-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-movflags', '+faststart'])
-          cmd.output(outputPath)
-            .on('end', () => resolve())
-            .on('error', (err) => reject(err))
-            .run()
-        })
-      }
-    } else {
-      // Single pass: no trim, or no speed change
-      const videoFilters: string[] = []
-      const audioFilters: string[] = []
-
-      // Add crop filter if cropRect provided
-      if (cropRect) {
-        let { x, y, width, height } = cropRect
-        x = Math.round(x)
-        y = Math.round(y)
-        width = Math.round(width / 2) * 2
-        height = Math.round(height / 2) * 2
-        videoFilters.push(`crop=${width}:${height}:${x}:${y}`)
-      }
+    const baked = await bakeImageAnnotations(image.buffer, annotations, annotationSpace)
+    res.set('Content-Type', 'image/png')
+    res.send(baked)
+  } catch (error) {
+    console.error('Error annotating image:', error)
+    res.status(500).json({ error: 'Failed to annotate image' })
+  }
+})
 
-      // Add speed filter if speed provided and not 1
-      if (effectiveSpeed) {
-        videoFilters.push(`setpts=PTS/${effectiveSpeed}`)
+// Composite several images into a new PNG image in the scene folder
+router.post('/combine-images', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    const { sceneId, tiles, layout, gutter, background, labels, columns } = req.body
+    if (!sceneId || !uuidValidate(sceneId)) {
+      return res.status(400).json({ error: 'A valid sceneId is required' })
+    }
+    if (!Array.isArray(tiles) || tiles.length < 2 || tiles.length > MAX_COMPOSITE_TILES || !tiles.every(isValidCompositeTile)) {
+      return res.status(400).json({ error: `tiles must list 2-${MAX_COMPOSITE_TILES} images with their size and position` })
+    }
+    if (!isCompositeLayout(layout)) {
+      return res.status(400).json({ error: 'layout must be horizontal, vertical, grid or canvas' })
+    }
+    if (typeof gutter !== 'number' || !Number.isFinite(gutter) || gutter < 0 || gutter > 1000) {
+      return res.status(400).json({ error: 'gutter must be 0-1000' })
+    }
+    if (background !== null && (typeof background !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(background))) {
+      return res.status(400).json({ error: 'background must be a #rrggbb colour or null for transparent' })
+    }
+    if (columns !== undefined && (!Number.isInteger(columns) || columns < 1 || columns > MAX_COMPOSITE_TILES)) {
+      return res.status(400).json({ error: 'columns must be a positive whole number' })
+    }
 
-        let remainingSpeed = effectiveSpeed
-        while (remainingSpeed > 2.0) {
-          audioFilters.push('atempo=2.0')
-          remainingSpeed /= 2.0
-        }
-        while (remainingSpeed < 0.5) {
-          audioFilters.push('atempo=0.5')
-          remainingSpeed /= 0.5
-        }
-        audioFilters.push(`atempo=${remainingSpeed}`)
+    const compositeTiles: CompositeTile[] = []
+    for (const tile of tiles) {
+      const image = await loadImageBuffer(workspace, sceneId, tile.imageId, !!tile.useEdited)
+      if (!image) {
+        return res.status(404).json({ error: `Source image not found: ${tile.imageId}` })
       }
+      compositeTiles.push({
+        image: tile.annotations?.length
+          ? await bakeImageAnnotations(image.buffer, tile.annotations, tile.annotationSpace)
+          : image.buffer,
+        x: tile.x,
+        y: tile.y,
+        width: tile.width,
+        height: tile.height,
+        rotation: tile.rotation ?? 0,
+        label: tile.label,
+      })
+    }
 
-      await new Promise<void>((resolve, reject) => {
-        const cmd = ffmpeg(inputPath)
-
-        // Apply trim as input options for efficiency (seeks before decoding)
-        if (hasTrim) {
-          if (trim.start > 0) {
-            cmd.inputOptions(['-ss', String(trim.start)])
-          }
-          if (trim.end > 0) {
-            const duration = trim.end - (trim.start || 0)
-            if (duration > 0) {
-              cmd.inputOptions(['-t', String(duration)])
-            }
-          }
-        }
-
-        if (videoFilters.length > 0) {
-          cmd.videoFilter(videoFilters)
-        }
-
-        cmd.outputOptions(['-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-movflags', '+faststart'])
-
-        // Handle audio: remove, re-encode for speed change, or copy
-        if (removeAudio) {
-          cmd.noAudio()
-        } else if (audioFilters.length > 0 || hasTrim) {
-          if (audioFilters.length > 0) {
-            cmd.audioFilter(audioFilters)
-          }
-          cmd.outputOptions(['-c:a', 'aac', '-b:a', '128k'])
-        } else {
-          cmd.outputOptions(['-c:a', 'copy'])
-        }
+    const result = await composeImages(compositeTiles, { layout, gutter, background, labels: !!labels, columns })
+    const newItemId = uuidv4()
+    const key = `${workspace}/${sceneId}/${newItemId}.png`
+    await save(key, result.buffer, 'image/png')
+
+    res.json({
+      success: true,
+      url: getPublicUrl(key),
+      newItemId,
+      width: result.width,
+      height: result.height,
+      fileSize: result.buffer.length,
+      scale: result.scale,
+    })
+  } catch (error) {
+    console.error('Error combining images:', error)
+    res.status(500).json({ error: 'Failed to combine images' })
+  }
+})
 
-        cmd.output(outputPath)
-          .on('end', () => resolve())
-          .on('error', (err) => reject(err))
-          .run()
+// Queue a video edit (crop, speed change, trim); poll the returned job for the result
+router.post('/crop-video', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    const { sceneId, videoId, cropRect, speed, removeAudio, trim, segments, captions, callouts, extension } = req.body
+    console.log('crop-video request:', {
+      sceneId, videoId, cropRect, speed, removeAudio, trim, segments,
+      captions: captions?.length, callouts: callouts?.length, extension,
+    })
+    if (!sceneId || !videoId) {
+      return res.status(400).json({ error: 'sceneId and videoId are required' })
+    }
+    if (!uuidValidate(sceneId) || !uuidValidate(videoId)) {
+      return res.status(400).json({ error: 'Invalid scene ID or video ID format' })
+    }
+    if (segments !== undefined && !isValidSegmentList(segments)) {
+      return res.status(400).json({
+        error: `segments must be a list of 1-${MAX_VIDEO_SEGMENTS} { start, end, speed? } ranges with end > start`,
       })
     }
+    if (captions !== undefined && !isValidCaptionList(captions)) {
+      return res.status(400).json({ error: 'captions must be a list of { start, end, text, position? } with end > start' })
+    }
+    if (callouts !== undefined && !isValidCalloutList(callouts)) {
+      return res.status(400).json({ error: 'callouts must be a list of { start, end, shape, x1, y1, x2, y2, color? } with end > start' })
+    }
+    if ((captions?.length ?? 0) + (callouts?.length ?? 0) > MAX_VIDEO_ANNOTATIONS) {
+      return res.status(400).json({ error: `At most ${MAX_VIDEO_ANNOTATIONS} captions and callouts are supported` })
+    }
+    const hasTrim = trim && (trim.start > 0 || trim.end > 0)
+    const hasAnnotations = captions?.length > 0 || callouts?.length > 0
+    if (!cropRect && (!speed || speed === 1) && !removeAudio && !hasTrim && !segments && !hasAnnotations) {
+      console.log('crop-video rejected: no cropRect, speed is 1 or undefined, removeAudio is false, and no trim, segments or annotations')
+      return res.status(400).json({ error: 'cropRect, speed change, removeAudio, trim, segments, captions, or callouts is required' })
+    }
 
-    // Read processed video
-    const processedBuffer = fs.readFileSync(outputPath)
-
-    // Save to storage with .crop suffix
-    const outputKey = `${sceneFolder}/${videoId}.crop.mp4`
-    await save(outputKey, processedBuffer, 'video/mp4')
+    // Use provided extension or default to mp4
+    const sourceExt = extension || 'mp4'
+    const sceneFolder = `${workspace}/${sceneId}`
+    if (!await exists(`${sceneFolder}/${videoId}.${sourceExt}`)) {
+      return res.status(400).json({ error: `Source video not found: ${sceneFolder}/${videoId}.${sourceExt}` })
+    }
 
-    cleanup()
-    res.json({ success: true, fileSize: processedBuffer.length })
+    const job = submitMediaJob(workspace, { type: 'crop-video', sceneId, itemId: videoId }, (context) =>
+      editVideo(sceneFolder, videoId, { cropRect, speed, removeAudio, trim, segments, captions, callouts, extension: sourceExt }, context)
+    )
+    res.status(202).json({ success: true, jobId: job.id, job })
   } catch (error) {
-    cleanup()
     console.error('Error processing video:', error)
     res.status(500).json({ error: 'Failed to process video' })
   }
 })
 
-// Convert media between video and GIF formats
+// Queue a conversion between video and GIF formats; poll the returned job for the result
 router.post('/convert-media', async (req, res) => {
-  const tempDir = os.tmpdir()
-  const tempId = uuidv4()
-  const inputPath = path.join(tempDir, `convert-input-${tempId}`)
-  const outputPath = path.join(tempDir, `convert-output-${tempId}`)
-
-  const cleanup = () => {
-    try { if (fs.existsSync(inputPath)) fs.unlinkSync(inputPath) } catch { /* ignore */ }
-    try { if (fs.existsSync(outputPath)) fs.unlinkSync(outputPath) } catch { /* ignore */ }
-  }
-
   try {
+    const workspace = (req.params as Record<string, string>).workspace
     const { sceneId, itemId, targetFormat, isEdit, extension } = req.body
     if (!sceneId || !itemId) {
       return res.status(400).json({ error: 'sceneId and itemId are required' })
@@ -692,92 +710,170 @@ router.post('/convert-media', async (req, res) => {
     if (!uuidValidate(sceneId) || !uuidValidate(itemId)) {
       return res.status(400).json({ error: 'Invalid scene ID or item ID format' })
     }
-    if (targetFormat !== 'gif' && targetFormat !== 'mp4') {
-      return res.status(400).json({ error: 'targetFormat must be "gif" or "mp4"' })
+    if (targetFormat !== 'gif' && targetFormat !== 'mp4' && !isAudioFormat(targetFormat)) {
+      return res.status(400).json({ error: 'targetFormat must be "gif", "mp4", "mp3", "wav", "ogg" or "m4a"' })
     }
     if (!extension) {
       return res.status(400).json({ error: 'extension is required' })
     }
 
-    const sceneFolder = `${(req.params as Record<string, string>).workspace}/${sceneId}`
-    const sourceKey = `${sceneFolder}/${itemId}${isEdit ? '.crop' : ''}.${extension}`
-
-    // Load source file from storage
-    const sourceBuffer = await loadAsBuffer(sourceKey)
-    if (!sourceBuffer) {
+    const sceneFolder = `${workspace}/${sceneId}`
+    if (!await exists(`${sceneFolder}/${itemId}${isEdit ? '.crop' : ''}.${extension}`)) {
       return res.status(404).json({ error: 'Source file not found' })
     }
 
-    // Write source to temp file
-    const inputExt = extension
-    const inputFile = `${inputPath}.${inputExt}`
-    const outputExt = targetFormat === 'gif' ? 'gif' : 'mp4'
-    const outputFile = `${outputPath}.${outputExt}`
-    fs.writeFileSync(inputFile, sourceBuffer)
-
-    if (targetFormat === 'gif') {
-      // Video → GIF: palette-preserving conversion
-      await new Promise<void>((resolve, reject) => {
-        ffmpeg(inputFile)
-          .complexFilter([
-            '[0:v]split[s0][s1]',
-            '[s0]palettegen[p]',
-            '[s1][p]paletteuse',
-          ])
-          .output(outputFile)
-          .on('end', () => resolve())
-          .on('error', (err) => reject(err))
-          .run()
-      })
-    } else {
-      // GIF → MP4: H.264 encode
-      await new Promise<void>((resolve, reject) => {
-        ffmpeg(inputFile)
-          .outputOptions([
-            '-c:v', 'libx264', '-preset', 'fast', '-crf', '23',
-            '-movflags', '+faststart',
-            '-pix_fmt', 'yuv420p',
-          ])
-          .noAudio()
-          .output(outputFile)
-          .on('end', () => resolve())
-          .on('error', (err) => reject(err))
-          .run()
-      })
+    // Audio targets convert an audio item to another audio format
+    const job = submitMediaJob(workspace, { type: 'convert-media', sceneId, itemId }, (context) =>
+      isAudioFormat(targetFormat)
+        ? convertAudio(sceneFolder, itemId, { targetFormat, isEdit: !!isEdit, extension }, context)
+        : convertMedia(sceneFolder, itemId, { targetFormat, isEdit: !!isEdit, extension }, context)
+    )
+    res.status(202).json({ success: true, jobId: job.id, job })
+  } catch (error) {
+    console.error('Error converting media:', error)
+    res.status(500).json({ error: 'Failed to convert media' })
+  }
+})
+
+// Queue joining several videos end to end into a new video; poll the returned job for the result
+router.post('/combine-videos', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    const { sceneId, clips } = req.body
+    if (!sceneId || !uuidValidate(sceneId)) {
+      return res.status(400).json({ error: 'A valid sceneId is required' })
+    }
+    if (!Array.isArray(clips) || clips.length < 2 || clips.length > MAX_COMBINE_CLIPS) {
+      return res.status(400).json({ error: `clips must list 2-${MAX_COMBINE_CLIPS} videos` })
+    }
+    for (const clip of clips) {
+      if (!clip || typeof clip.videoId !== 'string' || !uuidValidate(clip.videoId)) {
+        return res.status(400).json({ error: 'Invalid video ID format' })
+      }
+      if (clip.extension !== undefined && (typeof clip.extension !== 'string' || !/^[a-zA-Z0-9]{1,8}$/.test(clip.extension))) {
+        return res.status(400).json({ error: 'Invalid extension' })
+      }
     }
 
-    // Get output dimensions using ffprobe
-    const { width, height } = await new Promise<{ width: number; height: number }>((resolve, reject) => {
-      ffmpeg.ffprobe(outputFile, (err, metadata) => {
-        if (err) return reject(err)
-        const videoStream = metadata.streams.find(s => s.codec_type === 'video')
-        if (!videoStream?.width || !videoStream?.height) {
-          return reject(new Error('Could not determine output dimensions'))
-        }
-        resolve({ width: videoStream.width, height: videoStream.height })
-      })
-    })
+    const sceneFolder = `${workspace}/${sceneId}`
+    const combineClips: CombineClip[] = clips.map((clip: CombineClip) => ({
+      videoId: clip.videoId,
+      isEdit: !!clip.isEdit,
+      extension: clip.extension,
+    }))
+    for (const clip of combineClips) {
+      const sourceKey = clip.isEdit
+        ? `${sceneFolder}/${clip.videoId}.crop.mp4`
+        : `${sceneFolder}/${clip.videoId}.${clip.extension || 'mp4'}`
+      if (!await exists(sourceKey)) {
+        return res.status(404).json({ error: `Source video not found: ${clip.videoId}` })
+      }
+    }
 
-    // Save converted file with new item ID
-    const newItemId = uuidv4()
-    const outputKey = `${sceneFolder}/${newItemId}.${outputExt}`
-    const outputBuffer = fs.readFileSync(outputFile)
-    const contentType = targetFormat === 'gif' ? 'image/gif' : 'video/mp4'
-    await save(outputKey, outputBuffer, contentType)
+    const job = submitMediaJob(workspace, { type: 'combine-videos', sceneId, itemId: combineClips[0].videoId }, (context) =>
+      combineVideos(sceneFolder, combineClips, context)
+    )
+    res.status(202).json({ success: true, jobId: job.id, job })
+  } catch (error) {
+    console.error('Error combining videos:', error)
+    res.status(500).json({ error: 'Failed to combine videos' })
+  }
+})
 
-    const url = getPublicUrl(outputKey)
+// Capture one frame of a video (original resolution, cropped to cropRect) as a new PNG image
+router.post('/capture-frame', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    const { sceneId, videoId, time, cropRect, extension } = req.body
+    if (!sceneId || !videoId) {
+      return res.status(400).json({ error: 'sceneId and videoId are required' })
+    }
+    if (!uuidValidate(sceneId) || !uuidValidate(videoId)) {
+      return res.status(400).json({ error: 'Invalid scene ID or video ID format' })
+    }
+    if (typeof time !== 'number' || !Number.isFinite(time) || time < 0) {
+      return res.status(400).json({ error: 'time must be a non-negative number of seconds' })
+    }
+    if (extension !== undefined && (typeof extension !== 'string' || !/^[a-zA-Z0-9]{1,8}$/.test(extension))) {
+      return res.status(400).json({ error: 'Invalid extension' })
+    }
 
-    // Clean up temp files (with extensions)
-    try { if (fs.existsSync(inputFile)) fs.unlinkSync(inputFile) } catch { /* ignore */ }
-    try { if (fs.existsSync(outputFile)) fs.unlinkSync(outputFile) } catch { /* ignore */ }
+    const result = await captureFrame(`${workspace}/${sceneId}`, videoId, { time, cropRect, extension })
+    res.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof FrameCaptureError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Error capturing video frame:', error)
+    res.status(500).json({ error: 'Failed to capture frame' })
+  }
+})
 
-    res.json({ success: true, url, newItemId, width, height, fileSize: outputBuffer.length })
+// Queue trimming an audio item to [start, end]; poll the returned job for the result
+router.post('/trim-audio', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    const { sceneId, audioId, start, end, extension } = req.body
+    if (!sceneId || !audioId) {
+      return res.status(400).json({ error: 'sceneId and audioId are required' })
+    }
+    if (!uuidValidate(sceneId) || !uuidValidate(audioId)) {
+      return res.status(400).json({ error: 'Invalid scene ID or audio ID format' })
+    }
+    if (typeof start !== 'number' || typeof end !== 'number' || !Number.isFinite(start) || !Number.isFinite(end) ||
+      start < 0 || end <= start) {
+      return res.status(400).json({ error: 'start and end must be seconds with end > start >= 0' })
+    }
+    if (!isAudioFormat(extension)) {
+      return res.status(400).json({ error: 'extension must be mp3, wav, ogg or m4a' })
+    }
+
+    const sceneFolder = `${workspace}/${sceneId}`
+    if (!await exists(`${sceneFolder}/${audioId}.${extension}`)) {
+      return res.status(404).json({ error: 'Source audio not found' })
+    }
+
+    const job = submitMediaJob(workspace, { type: 'trim-audio', sceneId, itemId: audioId }, (context) =>
+      trimAudio(sceneFolder, audioId, { start, end, extension }, context)
+    )
+    res.status(202).json({ success: true, jobId: job.id, job })
   } catch (error) {
-    cleanup()
-    // Also try cleaning up files with extensions
-    try { fs.readdirSync(os.tmpdir()).filter(f => f.includes(tempId)).forEach(f => fs.unlinkSync(path.join(os.tmpdir(), f))) } catch { /* ignore */ }
-    console.error('Error converting media:', error)
-    res.status(500).json({ error: 'Failed to convert media' })
+    console.error('Error trimming audio:', error)
+    res.status(500).json({ error: 'Failed to trim audio' })
+  }
+})
+
+// Queue saving a video's sound as a new audio item; poll the returned job for the result
+router.post('/extract-audio', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    const { sceneId, videoId, isEdit, extension, targetFormat = 'm4a' } = req.body
+    if (!sceneId || !videoId) {
+      return res.status(400).json({ error: 'sceneId and videoId are required' })
+    }
+    if (!uuidValidate(sceneId) || !uuidValidate(videoId)) {
+      return res.status(400).json({ error: 'Invalid scene ID or video ID format' })
+    }
+    if (!isAudioFormat(targetFormat)) {
+      return res.status(400).json({ error: 'targetFormat must be mp3, wav, ogg or m4a' })
+    }
+    if (!isEdit && (typeof extension !== 'string' || !/^[a-zA-Z0-9]{1,8}$/.test(extension))) {
+      return res.status(400).json({ error: 'extension is required for the original video' })
+    }
+
+    const sceneFolder = `${workspace}/${sceneId}`
+    const sourceKey = isEdit ? `${sceneFolder}/${videoId}.crop.mp4` : `${sceneFolder}/${videoId}.${extension}`
+    if (!await exists(sourceKey)) {
+      return res.status(404).json({ error: 'Source video not found' })
+    }
+
+    const job = submitMediaJob(workspace, { type: 'extract-audio', sceneId, itemId: videoId }, (context) =>
+      extractAudio(sceneFolder, videoId, { targetFormat, isEdit: !!isEdit, extension }, context)
+    )
+    res.status(202).json({ success: true, jobId: job.id, job })
+  } catch (error) {
+    console.error('Error extracting audio:', error)
+    res.status(500).json({ error: 'Failed to extract audio' })
   }
 })
 
@@ -0,0 +1,58 @@
+import { Router, Response } from 'express'
+import { validate as uuidValidate } from 'uuid'
+import {
+  MediaJobError,
+  getMediaJob,
+  listMediaJobs,
+  cancelMediaJob,
+} from '../services/mediaJobs.js'
+
+const router = Router({ mergeParams: true })
+
+function handleJobError(res: Response, error: unknown, action: string) {
+  if (error instanceof MediaJobError) {
+    return res.status(error.status).json({ error: error.message })
+  }
+  console.error(`Error ${action}:`, error)
+  res.status(500).json({ error: `Failed to ${action}` })
+}
+
+// Validate job ID format on all routes with :id param
+router.param('id', (req, res, next, id) => {
+  if (!uuidValidate(id)) {
+    return res.status(400).json({ error: 'Invalid job ID format' })
+  }
+  next()
+})
+
+// List the workspace's queued, running and recently finished jobs
+router.get('/', (req, res) => {
+  const workspace = (req.params as Record<string, string>).workspace
+  try {
+    res.json({ jobs: listMediaJobs(workspace) })
+  } catch (error) {
+    handleJobError(res, error, 'list jobs')
+  }
+})
+
+// Status, progress and (once done) result of one job
+router.get('/:id', (req, res) => {
+  const { workspace, id } = req.params as Record<string, string>
+  try {
+    res.json(getMediaJob(workspace, id))
+  } catch (error) {
+    handleJobError(res, error, 'get job')
+  }
+})
+
+// Cancel a queued or running job
+router.post('/:id/cancel', (req, res) => {
+  const { workspace, id } = req.params as Record<string, string>
+  try {
+    res.json(cancelMediaJob(workspace, id))
+  } catch (error) {
+    handleJobError(res, error, 'cancel job')
+  }
+})
+
+export default router
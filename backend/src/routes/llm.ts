@@ -6,6 +6,7 @@ import { generateText, generateHtmlWithClaude, ClaudeModel } from '../services/c
 import { generateTextWithGemini, generateHtmlWithGemini, generateImageWithGemini, GeminiModel, ImageGenModel } from '../services/gemini.js'
 import { generateWithClaudeCode, interruptQuery } from '../services/claudeCode.js'
 import { LLMRequestItem, ResolvedContentItem, resolveImageData, resolvePdfData, resolveTextFileData } from '../services/llmTypes.js'
+import { isValidImageAnnotationList, isValidAnnotationSpace } from '../services/imageAnnotations.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
@@ -107,7 +108,12 @@ async function resolveItems(workspace: string, items: LLMRequestItem[]): Promise
     if (item.type === 'text') {
       resolved.push({ type: 'text', text: item.text })
     } else if (item.type === 'image' && item.id && item.sceneId) {
-      const imageData = await resolveImageData(workspace, item.sceneId, item.id, !!item.useEdited)
+      if (item.annotations !== undefined && (!isValidImageAnnotationList(item.annotations) || !isValidAnnotationSpace(item.annotationSpace))) {
+        throw new Error(`Invalid annotations for image ${item.id}`)
+      }
+      const imageData = await resolveImageData(
+        workspace, item.sceneId, item.id, !!item.useEdited, item.annotations, item.annotationSpace
+      )
       if (imageData) {
         resolved.push({ type: 'image', imageData })
       } else {
@@ -201,11 +207,16 @@ interface SpatialBlock {
   bounds: SpatialBounds
 }
 
-interface SpatialData {
-  page: { bounds: SpatialBounds }
+interface SpatialPage {
+  title?: string
+  bounds: SpatialBounds
   items: SpatialBlock[]
 }
 
+type SpatialData =
+  | { page: { bounds: SpatialBounds; title?: string }; items: SpatialBlock[] }
+  | { pages: SpatialPage[] }
+
 router.post('/generate-html', async (req, res) => {
   try {
     const { spatialData, userPrompt, model } = req.body as {
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express'
 import { resolveFilePath, getContentTypeFromKey } from '../services/diskStorage.js'
+import { getFileSecurityHeaders } from '../services/imageFormats.js'
 import * as path from 'path'
 import * as fs from 'fs'
 
@@ -46,6 +47,7 @@ router.get('/*', async (req: Request, res: Response) => {
     if (contentType.startsWith('image/') || contentType.startsWith('video/')) {
       res.setHeader('Cache-Control', 'public, max-age=31536000') // 1 year
     }
+    res.set(getFileSecurityHeaders(contentType))
 
     // Handle Range requests (required for video seeking)
     const range = req.headers.range
@@ -0,0 +1,81 @@
+import { Router, Request, Response } from 'express'
+import {
+  getS3ConfigStatus,
+  getS3UrlMode,
+  getPublicUrl,
+  getPresignedUrl,
+  getPresignedUrlExpiry,
+  getS3ObjectStream,
+} from '../services/s3.js'
+import { getContentTypeFromKey } from '../services/diskStorage.js'
+import { getFileSecurityHeaders } from '../services/imageFormats.js'
+
+const router = Router()
+
+// Serve objects from a private S3 bucket: redirect to a presigned URL, or stream
+// through the backend in proxy mode (with Range passthrough for video seeking)
+// GET /api/s3-files/*
+router.get('/*', async (req: Request, res: Response) => {
+  try {
+    const key = (req.params as Record<string, string>)[0]
+
+    if (!key) {
+      return res.status(400).json({ error: 'File path is required' })
+    }
+    if (key.split('/').some((part) => part === '' || part === '.' || part === '..')) {
+      return res.status(403).json({ error: 'Invalid file path' })
+    }
+
+    const s3Status = getS3ConfigStatus()
+    if (!s3Status.configured) {
+      return res.status(503).json({ error: `S3 is not configured: ${s3Status.message}` })
+    }
+
+    const mode = getS3UrlMode()
+    if (mode !== 'proxy') {
+      // Let the browser cache the redirect for a while, but not past the signature's expiry
+      const url = mode === 'presigned' ? await getPresignedUrl(key) : getPublicUrl(key)
+      const maxAge = mode === 'presigned' ? Math.floor(getPresignedUrlExpiry() / 2) : 3600
+      res.setHeader('Cache-Control', `private, max-age=${maxAge}`)
+      return res.redirect(302, url)
+    }
+
+    const range = req.headers.range
+    let object
+    try {
+      object = await getS3ObjectStream(key, range)
+    } catch (error) {
+      if ((error as { name?: string }).name === 'InvalidRange') {
+        return res.status(416).json({ error: 'Requested range not satisfiable' })
+      }
+      throw error
+    }
+    if (!object) {
+      return res.status(404).json({ error: 'File not found' })
+    }
+
+    const contentType = object.contentType || getContentTypeFromKey(key)
+    if (contentType.startsWith('image/') || contentType.startsWith('video/')) {
+      res.setHeader('Cache-Control', 'private, max-age=31536000') // 1 year
+    }
+    res.status(object.contentRange ? 206 : 200)
+    res.setHeader('Accept-Ranges', 'bytes')
+    res.setHeader('Content-Type', contentType)
+    res.set(getFileSecurityHeaders(contentType))
+    if (object.contentLength !== undefined) res.setHeader('Content-Length', object.contentLength)
+    if (object.contentRange) res.setHeader('Content-Range', object.contentRange)
+    if (object.etag) res.setHeader('ETag', object.etag)
+    if (object.lastModified) res.setHeader('Last-Modified', object.lastModified.toUTCString())
+
+    object.body.on('error', (error) => {
+      console.error('Error streaming S3 file:', error)
+      res.destroy(error)
+    })
+    object.body.pipe(res)
+  } catch (error) {
+    console.error('Error serving S3 file:', error)
+    res.status(500).json({ error: 'Failed to serve file' })
+  }
+})
+
+export default router
@@ -4,17 +4,46 @@ import {
   save,
   load,
   loadAsBuffer,
-  list,
+  listWithModified,
   del,
   exists,
   getPublicUrl,
   getStorageMode,
 } from '../services/storage.js'
+import { getKeyFromS3Url, loadObjectFromS3 } from '../services/s3.js'
+import { collectSceneGarbage, isGcOnSaveEnabled } from '../services/sceneGc.js'
+import {
+  listTrash,
+  moveSceneToTrash,
+  restoreSceneFromTrash,
+  purgeTrashedScene,
+  isSceneInTrash,
+} from '../services/sceneTrash.js'
+import {
+  createSnapshot,
+  listSnapshots,
+  loadSnapshotInfo,
+  restoreSnapshot,
+  branchSnapshot,
+  deleteSnapshot,
+  getSnapshotFolder,
+} from '../services/sceneSnapshots.js'
+import { THUMBNAIL_FILENAME, getThumbnailUrl, scheduleSceneThumbnail } from '../services/sceneThumbnails.js'
+import { publishWorkspaceEvent } from '../services/workspaceEvents.js'
+import { forgetSceneIndex } from '../services/workspaceSearch.js'
+import type { ImageEdit, ImageEditFormat } from '../services/imageEdits.js'
+import type { ImageAnnotation } from '../services/imageAnnotations.js'
+import { IMAGE_MIME_TYPES, WEB_IMAGE_EXTENSIONS, getOriginalImageFilename } from '../services/imageFormats.js'
+import {
+  SCENE_FILE_VERSION,
+  SceneDocument,
+  SceneMigrationError,
+  migrateScene,
+  migrateWorkspaceScenes,
+} from '../services/sceneMigrations.js'
 
 const router = Router({ mergeParams: true })
 
-const SCENE_FILE_VERSION = '1'
-
 const TEXT_FILE_MIME_TYPES: Record<string, string> = {
   txt: 'text/plain', csv: 'text/csv', js: 'text/javascript', ts: 'text/typescript',
   tsx: 'text/typescript', cs: 'text/plain', cpp: 'text/plain', h: 'text/plain',
@@ -30,6 +59,13 @@ router.param('id', (req, res, next, id) => {
   next()
 })
 
+router.param('snapshotId', (req, res, next, snapshotId) => {
+  if (!uuidValidate(snapshotId)) {
+    return res.status(400).json({ error: 'Invalid snapshot ID format' })
+  }
+  next()
+})
+
 /**
  * Validate that a URL is safe to fetch from.
  * Only allows: data URLs, our S3 bucket URLs, and local storage URLs.
@@ -51,14 +87,9 @@ function validateItemSrcUrl(url: string): { valid: boolean; reason?: string; typ
     return { valid: true, type: 'local' }
   }
 
-  // Allow S3 URLs from our bucket only
-  const bucketName = process.env.S3_BUCKET_NAME
-  const region = process.env.AWS_REGION || 'us-east-1'
-  if (bucketName) {
-    const s3Prefix = `https://${bucketName}.s3.${region}.amazonaws.com/`
-    if (url.startsWith(s3Prefix)) {
-      return { valid: true, type: 's3' }
-    }
+  // Allow S3 URLs from our bucket only (direct, public-base or /api/s3-files/ form)
+  if (getKeyFromS3Url(url)) {
+    return { valid: true, type: 's3' }
   }
 
   // Reject all other URLs (external HTTP URLs)
@@ -78,14 +109,79 @@ function getKeyFromUrl(url: string): string | null {
   }
 
   // Check for S3 URLs
-  const bucketName = process.env.S3_BUCKET_NAME
-  const region = process.env.AWS_REGION || 'us-east-1'
-  const s3Prefix = `https://${bucketName}.s3.${region}.amazonaws.com/`
-  if (urlWithoutQuery.startsWith(s3Prefix)) {
-    return urlWithoutQuery.slice(s3Prefix.length)
+  return getKeyFromS3Url(urlWithoutQuery)
+}
+
+// Read an S3 item source through the SDK rather than fetching its URL, which may point at
+// a private bucket or at this server's /api/s3-files/ route
+async function loadS3Source(url: string): Promise<{ data: Buffer; contentType?: string } | null> {
+  const key = getKeyFromS3Url(url)
+  return key ? loadObjectFromS3(key) : null
+}
+
+// Store an image item's uploaded original in the scene folder and return its filename.
+// Pasted or moved items still point at the original in the scene they came from, so it's
+// copied like the item's own file; if it can't be read the item is saved without it.
+async function saveOriginalImageFile(originalSrc: string, itemId: string, sceneFolder: string): Promise<string | undefined> {
+  const key = getKeyFromUrl(originalSrc)
+  if (!key) return undefined
+  const filename = key.split('/').pop()!
+  if (key === `${sceneFolder}/${filename}`) return filename
+
+  const ext = filename.split('.').pop()?.toLowerCase() || ''
+  const originalFile = getOriginalImageFilename(itemId, ext)
+  const originalKey = `${sceneFolder}/${originalFile}`
+  if (await exists(originalKey)) return originalFile
+  try {
+    let buffer: Buffer | null = null
+    if (originalSrc.startsWith('/api/local-files/')) {
+      buffer = await loadAsBuffer(key)
+    } else {
+      buffer = (await loadS3Source(originalSrc))?.data ?? null
+    }
+    if (!buffer) return undefined
+    await save(originalKey, buffer, IMAGE_MIME_TYPES[ext] || 'application/octet-stream')
+    return originalFile
+  } catch (err) {
+    console.error(`Failed to copy original image from ${originalSrc}:`, err)
+    return undefined
   }
+}
+
+// Serialize the precondition check + scene.json write per scene, so two saves based on the
+// same modifiedAt can't both pass the check before either has written
+const sceneWriteLocks = new Map<string, Promise<unknown>>()
+
+async function withSceneWriteLock<T>(sceneFolder: string, fn: () => Promise<T>): Promise<T> {
+  const previous = sceneWriteLocks.get(sceneFolder) ?? Promise.resolve()
+  const current = previous.catch(() => {}).then(fn)
+  sceneWriteLocks.set(sceneFolder, current)
+  try {
+    return await current
+  } finally {
+    if (sceneWriteLocks.get(sceneFolder) === current) {
+      sceneWriteLocks.delete(sceneFolder)
+    }
+  }
+}
+
+// Parse an If-Match header carrying the modifiedAt a save was based on.
+// Returns null when the header is absent or '*' (unconditional save).
+function parseIfMatch(header: string | undefined): string | null {
+  if (!header) return null
+  const value = header.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1')
+  return value && value !== '*' ? value : null
+}
 
-  return null
+// Current modifiedAt of a saved scene, or null if the scene doesn't exist (or is unreadable)
+async function getStoredModifiedAt(sceneFolder: string): Promise<string | null> {
+  const sceneJson = await load(`${sceneFolder}/scene.json`)
+  if (!sceneJson) return null
+  try {
+    return (JSON.parse(sceneJson) as StoredScene).modifiedAt ?? null
+  } catch {
+    return null
+  }
 }
 
 // Types for stored scene format
@@ -115,6 +211,11 @@ interface StoredImageItem extends StoredItemBase {
   rotation?: number
   cropRect?: { x: number; y: number; width: number; height: number }
   cropSrc?: string
+  edits?: ImageEdit[]  // edit stack baked into cropSrc after the crop
+  editFormat?: ImageEditFormat
+  editQuality?: number
+  annotations?: ImageAnnotation[]  // vector markup, baked in only on export and for LLMs
+  originalFile?: string  // the file as uploaded, when `file` is a conversion of it (e.g. HEIC)
 }
 
 interface StoredVideoItem extends StoredItemBase {
@@ -137,6 +238,9 @@ interface StoredVideoItem extends StoredItemBase {
   trim?: boolean
   trimStart?: number
   trimEnd?: number
+  segments?: { start: number; end: number; speed?: number }[]  // cut list, replaces trim when set
+  captions?: { start: number; end: number; text: string; position?: 'top' | 'bottom' }[]
+  callouts?: { start: number; end: number; shape: 'arrow' | 'box'; x1: number; y1: number; x2: number; y2: number; color?: string }[]
 }
 
 interface StoredPromptItem extends StoredItemBase {
@@ -236,7 +340,26 @@ interface StoredSplatItem extends StoredItemBase {
   orthographic?: boolean
 }
 
-type StoredItem = StoredTextItem | StoredImageItem | StoredVideoItem | StoredPromptItem | StoredImageGenPromptItem | StoredHtmlItem | StoredHtmlGenPromptItem | StoredCodingRobotItem | StoredPdfItem | StoredTextFileItem | StoredEmbedVideoItem | StoredModel3DItem | StoredSplatItem
+interface StoredAudioItem extends StoredItemBase {
+  type: 'audio'
+  file: string
+  name?: string
+  fileSize?: number
+  format: string
+  duration?: number
+  loop?: boolean
+  trimStart?: number
+  trimEnd?: number
+  cropSrc?: string  // trimmed file
+}
+
+interface StoredFrameItem extends StoredItemBase {
+  type: 'frame'
+  name: string
+  order: number  // page position among the scene's frames
+}
+
+type StoredItem = StoredTextItem | StoredImageItem | StoredVideoItem | StoredPromptItem | StoredImageGenPromptItem | StoredHtmlItem | StoredHtmlGenPromptItem | StoredCodingRobotItem | StoredPdfItem | StoredTextFileItem | StoredEmbedVideoItem | StoredModel3DItem | StoredSplatItem | StoredAudioItem | StoredFrameItem
 
 interface StoredScene {
   id: string
@@ -247,6 +370,429 @@ interface StoredScene {
   version?: string
 }
 
+// Parse a stored scene.json, upgrading it from older file versions in memory
+function parseStoredScene(sceneJson: string): StoredScene {
+  return migrateScene(JSON.parse(sceneJson) as SceneDocument).scene as unknown as StoredScene
+}
+
+// Reconstruct full items (public URLs, inline HTML and chat history) from stored items.
+// `sceneFolder` is the folder holding the item files: the scene itself, or one of its snapshots.
+async function reconstructItems(storedScene: StoredScene, sceneFolder: string) {
+  return Promise.all(
+    storedScene.items.map(async (item) => {
+      if (item.type === 'text') {
+        return {
+          id: item.id,
+          type: 'text' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          fontSize: item.fontSize,
+          text: item.text,
+        }
+      } else if (item.type === 'image') {
+        // For images, return the public URL
+        const imageUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
+        // Reconstruct cropSrc URL from filename if present
+        const cropSrcUrl = item.cropSrc ? getPublicUrl(`${sceneFolder}/${item.cropSrc}`) : undefined
+        return {
+          id: item.id,
+          type: 'image' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          src: imageUrl,
+          name: item.name,
+          originalWidth: item.originalWidth,
+          originalHeight: item.originalHeight,
+          fileSize: item.fileSize,
+          scaleX: item.scaleX,
+          scaleY: item.scaleY,
+          rotation: item.rotation,
+          cropRect: item.cropRect,
+          cropSrc: cropSrcUrl,
+          edits: item.edits,
+          editFormat: item.editFormat,
+          editQuality: item.editQuality,
+          annotations: item.annotations,
+          originalSrc: item.originalFile ? getPublicUrl(`${sceneFolder}/${item.originalFile}`) : undefined,
+        }
+      } else if (item.type === 'video') {
+        // For videos, return the public URL
+        const videoUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
+        // Reconstruct cropSrc URL from filename if present
+        const cropSrcUrl = item.cropSrc ? getPublicUrl(`${sceneFolder}/${item.cropSrc}`) : undefined
+        return {
+          id: item.id,
+          type: 'video' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          src: videoUrl,
+          name: item.name,
+          originalWidth: item.originalWidth,
+          originalHeight: item.originalHeight,
+          fileSize: item.fileSize,
+          scaleX: item.scaleX,
+          scaleY: item.scaleY,
+          rotation: item.rotation,
+          loop: item.loop,
+          muted: item.muted,
+          playbackRate: item.playbackRate,
+          speedFactor: item.speedFactor,
+          removeAudio: item.removeAudio,
+          cropRect: item.cropRect,
+          cropSrc: cropSrcUrl,
+          trim: item.trim,
+          trimStart: item.trimStart,
+          trimEnd: item.trimEnd,
+          segments: item.segments,
+          captions: item.captions,
+          callouts: item.callouts,
+        }
+      } else if (item.type === 'prompt') {
+        return {
+          id: item.id,
+          type: 'prompt' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          fontSize: item.fontSize,
+          label: item.label,
+          text: item.text,
+          model: item.model || 'claude-sonnet',
+        }
+      } else if (item.type === 'image-gen-prompt') {
+        return {
+          id: item.id,
+          type: 'image-gen-prompt' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          fontSize: item.fontSize,
+          label: item.label,
+          text: item.text,
+          model: item.model || 'gemini-imagen',
+        }
+      } else if (item.type === 'html-gen-prompt') {
+        return {
+          id: item.id,
+          type: 'html-gen-prompt' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          fontSize: item.fontSize,
+          label: item.label,
+          text: item.text,
+          model: item.model || 'claude-sonnet',
+        }
+      } else if (item.type === 'coding-robot') {
+        // Load chat history from file if it exists
+        let chatHistory: Array<{ role: string; content: string; timestamp?: string }> = []
+        if (item.chatHistoryFile) {
+          const chatJson = await load(`${sceneFolder}/${item.chatHistoryFile}`)
+          if (chatJson) {
+            try {
+              chatHistory = JSON.parse(chatJson)
+            } catch {
+              console.error(`Failed to parse chat history for ${item.id}`)
+            }
+          }
+        }
+        return {
+          id: item.id,
+          type: 'coding-robot' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          fontSize: item.fontSize,
+          label: item.label,
+          text: item.text,
+          chatHistory,
+          sessionId: item.sessionId ?? null,
+          rootDirectory: item.rootDirectory,
+          showActivity: item.showActivity,
+          activityPanelWidth: item.activityPanelWidth,
+          activeRequestId: item.activeRequestId,
+        }
+      } else if (item.type === 'pdf') {
+        const pdfUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
+        const thumbnailSrc = item.thumbFile ? getPublicUrl(`${sceneFolder}/${item.thumbFile}`) : undefined
+        return {
+          id: item.id,
+          type: 'pdf' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          src: pdfUrl,
+          name: item.name,
+          fileSize: item.fileSize,
+          minimized: item.minimized,
+          thumbnailSrc,
+        }
+      } else if (item.type === 'text-file') {
+        const textFileUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
+        return {
+          id: item.id,
+          type: 'text-file' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          src: textFileUrl,
+          name: item.name,
+          fileSize: item.fileSize,
+          minimized: item.minimized,
+          fileFormat: item.fileFormat,
+          fontMono: item.fontMono,
+          fontSize: item.fontSize,
+          viewType: item.viewType,
+        }
+      } else if (item.type === 'embed-video') {
+        return {
+          id: item.id,
+          type: 'embed-video' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          videoId: item.videoId,
+          provider: item.provider,
+          label: item.label,
+          ...(item.startTime != null && { startTime: item.startTime }),
+        }
+      } else if (item.type === 'frame') {
+        return {
+          id: item.id,
+          type: 'frame' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          name: item.name,
+          order: item.order,
+        }
+      } else if (item.type === 'model3d') {
+        const modelUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
+        return {
+          id: item.id,
+          type: 'model3d' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          src: modelUrl,
+          name: item.name,
+          fileSize: item.fileSize,
+          format: item.format,
+          minimized: item.minimized,
+          ...(item.cameraPosition && { cameraPosition: item.cameraPosition }),
+          ...(item.cameraTarget && { cameraTarget: item.cameraTarget }),
+        }
+      } else if (item.type === 'audio') {
+        const audioUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
+        const cropSrcUrl = item.cropSrc ? getPublicUrl(`${sceneFolder}/${item.cropSrc}`) : undefined
+        return {
+          id: item.id,
+          type: 'audio' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          src: audioUrl,
+          name: item.name,
+          fileSize: item.fileSize,
+          format: item.format,
+          duration: item.duration,
+          loop: item.loop,
+          trimStart: item.trimStart,
+          trimEnd: item.trimEnd,
+          cropSrc: cropSrcUrl,
+        }
+      } else if (item.type === 'splat') {
+        const splatUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
+        return {
+          id: item.id,
+          type: 'splat' as const,
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          src: splatUrl,
+          name: item.name,
+          fileSize: item.fileSize,
+          format: item.format,
+          minimized: item.minimized,
+          ...(item.cameraPosition && { cameraPosition: item.cameraPosition }),
+          ...(item.cameraTarget && { cameraTarget: item.cameraTarget }),
+          ...(item.cameraUp && { cameraUp: item.cameraUp }),
+          ...(item.orthographic && { orthographic: item.orthographic }),
+        }
+      } else {
+        // For HTML items, load the HTML file
+        const html = await load(`${sceneFolder}/${item.file}`)
+        return {
+          id: item.id,
+          type: 'html' as const,
+          label: item.label || 'HTML',
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          html: html || '',
+          zoom: item.zoom,
+        }
+      }
+    })
+  )
+}
+
+// Orphaned media report for the whole workspace (dry run, nothing is deleted)
+// Registered before the /:id routes so "gc" is not parsed as a scene ID
+router.get('/gc', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    res.json(await collectSceneGarbage(workspace, { dryRun: true }))
+  } catch (error) {
+    console.error('Error building orphaned media report:', error)
+    res.status(500).json({ error: 'Failed to build orphaned media report' })
+  }
+})
+
+// Delete orphaned media across the whole workspace
+router.post('/gc', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    res.json(await collectSceneGarbage(workspace, { dryRun: false }))
+  } catch (error) {
+    console.error('Error collecting orphaned media:', error)
+    res.status(500).json({ error: 'Failed to collect orphaned media' })
+  }
+})
+
+// Report which scene.json files in the workspace need upgrading to the current file version (dry run)
+router.get('/migrate', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    res.json(await migrateWorkspaceScenes(workspace, { dryRun: true }))
+  } catch (error) {
+    console.error('Error building scene migration report:', error)
+    res.status(500).json({ error: 'Failed to build scene migration report' })
+  }
+})
+
+// Upgrade every scene.json in the workspace to the current file version, in place
+router.post('/migrate', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    res.json(await migrateWorkspaceScenes(workspace, { dryRun: false, withSceneLock: withSceneWriteLock }))
+  } catch (error) {
+    console.error('Error migrating scenes:', error)
+    res.status(500).json({ error: 'Failed to migrate scenes' })
+  }
+})
+
+// Orphaned media report for a single scene (dry run)
+router.get('/:id/gc', async (req, res) => {
+  try {
+    const { id } = req.params
+    const workspace = (req.params as Record<string, string>).workspace
+    res.json(await collectSceneGarbage(workspace, { dryRun: true, sceneId: id }))
+  } catch (error) {
+    console.error('Error building orphaned media report:', error)
+    res.status(500).json({ error: 'Failed to build orphaned media report' })
+  }
+})
+
+// Delete orphaned media in a single scene folder
+router.post('/:id/gc', async (req, res) => {
+  try {
+    const { id } = req.params
+    const workspace = (req.params as Record<string, string>).workspace
+    res.json(await collectSceneGarbage(workspace, { dryRun: false, sceneId: id }))
+  } catch (error) {
+    console.error('Error collecting orphaned media:', error)
+    res.status(500).json({ error: 'Failed to collect orphaned media' })
+  }
+})
+
+// List recently deleted scenes (expired entries are purged while listing)
+router.get('/trash', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    res.json(await listTrash(workspace))
+  } catch (error) {
+    console.error('Error listing trash:', error)
+    res.status(500).json({ error: 'Failed to list trash' })
+  }
+})
+
+// Permanently delete every scene in the trash
+router.delete('/trash', async (req, res) => {
+  try {
+    const workspace = (req.params as Record<string, string>).workspace
+    const trashed = await listTrash(workspace)
+    for (const scene of trashed) {
+      await purgeTrashedScene(workspace, scene.id)
+    }
+    res.json({ success: true, purgedCount: trashed.length })
+  } catch (error) {
+    console.error('Error emptying trash:', error)
+    res.status(500).json({ error: 'Failed to empty trash' })
+  }
+})
+
+// Restore a scene from the trash
+router.post('/trash/:id/restore', async (req, res) => {
+  try {
+    const { id } = req.params
+    const workspace = (req.params as Record<string, string>).workspace
+
+    if (!(await isSceneInTrash(workspace, id))) {
+      return res.status(404).json({ error: 'Scene not found in trash' })
+    }
+    if (await exists(`${workspace}/${id}/scene.json`)) {
+      return res.status(409).json({ error: 'A scene with this ID already exists' })
+    }
+
+    await restoreSceneFromTrash(workspace, id)
+
+    const modifiedAt = await getStoredModifiedAt(`${workspace}/${id}`)
+    publishWorkspaceEvent(workspace, { type: 'scene-saved', sceneId: id, modifiedAt: modifiedAt ?? '' }, req.get('X-Client-Id'))
+
+    res.json({ success: true, id })
+  } catch (error) {
+    console.error('Error restoring scene:', error)
+    res.status(500).json({ error: 'Failed to restore scene' })
+  }
+})
+
+// Permanently delete a single scene from the trash
+router.delete('/trash/:id', async (req, res) => {
+  try {
+    const { id } = req.params
+    const workspace = (req.params as Record<string, string>).workspace
+
+    if (!(await isSceneInTrash(workspace, id))) {
+      return res.status(404).json({ error: 'Scene not found in trash' })
+    }
+
+    await purgeTrashedScene(workspace, id)
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error purging scene:', error)
+    res.status(500).json({ error: 'Failed to purge scene' })
+  }
+})
+
 // Get scene timestamp only (lightweight check for conflict detection)
 router.get('/:id/timestamp', async (req, res) => {
   try {
@@ -275,6 +821,27 @@ router.get('/:id/timestamp', async (req, res) => {
   }
 })
 
+// Get the scene's preview image (built in the background after each save)
+router.get('/:id/thumbnail', async (req, res) => {
+  try {
+    const { id } = req.params
+    const sceneFolder = `${(req.params as Record<string, string>).workspace}/${id}`
+
+    const buffer = await loadAsBuffer(`${sceneFolder}/${THUMBNAIL_FILENAME}`)
+    if (!buffer) {
+      return res.status(404).json({ error: 'Thumbnail not found' })
+    }
+
+    // Listings link with ?v=<thumbnail mtime>, so a cached copy is replaced once it is rebuilt
+    res.set('Content-Type', 'image/png')
+    res.set('Cache-Control', 'private, max-age=86400')
+    res.send(buffer)
+  } catch (error) {
+    console.error('Error loading scene thumbnail:', error)
+    res.status(500).json({ error: 'Failed to load scene thumbnail' })
+  }
+})
+
 // Get content URL for a scene item
 // Constructs the S3 URL for videos, images, or html content
 router.get('/:id/content-url', (req, res) => {
@@ -324,8 +891,9 @@ router.get('/:id/content-data', async (req, res) => {
 
     // Define possible extensions for each content type
     const extensions: Record<string, string[]> = {
-      image: ['png', 'jpg', 'jpeg', 'gif', 'webp'],
+      image: WEB_IMAGE_EXTENSIONS,
       video: ['mp4', 'webm', 'mov', 'avi'],
+      audio: ['mp3', 'wav', 'ogg', 'm4a'],
       html: ['html'],
       pdf: ['pdf'],
       'text-file': ['txt', 'csv', 'js', 'ts', 'tsx', 'cs', 'cpp', 'h', 'c', 'json', 'py', 'md', 'sh', 'log', 'ini'],
@@ -364,10 +932,15 @@ router.get('/:id/content-data', async (req, res) => {
       jpeg: 'image/jpeg',
       gif: 'image/gif',
       webp: 'image/webp',
+      svg: 'image/svg+xml',
       mp4: 'video/mp4',
       webm: 'video/webm',
       mov: 'video/quicktime',
       avi: 'video/x-msvideo',
+      mp3: 'audio/mpeg',
+      wav: 'audio/wav',
+      ogg: 'audio/ogg',
+      m4a: 'audio/mp4',
       html: 'text/html',
       pdf: 'application/pdf',
       txt: 'text/plain',
@@ -403,6 +976,17 @@ router.post('/:id', async (req, res) => {
     const { name, createdAt, modifiedAt, items } = req.body
 
     const sceneFolder = `${(req.params as Record<string, string>).workspace}/${id}`
+
+    // Optimistic concurrency: reject the save if the scene changed since the client loaded it.
+    // Checked here to fail fast, and again under the write lock right before scene.json is written.
+    const baseModifiedAt = parseIfMatch(req.get('If-Match'))
+    if (baseModifiedAt) {
+      const serverModifiedAt = await getStoredModifiedAt(sceneFolder)
+      if (serverModifiedAt && serverModifiedAt !== baseModifiedAt) {
+        return res.status(409).json({ error: 'Scene was modified on the server', modifiedAt: serverModifiedAt })
+      }
+    }
+
     const storedItems: StoredItem[] = []
     const stagingKeysToDelete: string[] = [] // Track staging files to clean up
 
@@ -423,7 +1007,7 @@ router.post('/:id', async (req, res) => {
         // Determine file extension from source URL or default to png
         let imageExt = 'png'
         if (item.src.startsWith('data:image/')) {
-          const match = item.src.match(/^data:image\/(\w+);/)
+          const match = item.src.match(/^data:image\/(\w+)[;+]/)
           if (match) imageExt = match[1]
         } else if (item.src.includes('.')) {
           const urlExt = item.src.split('.').pop()?.split('?')[0]
@@ -477,12 +1061,10 @@ router.post('/:id', async (req, res) => {
                     const localKey = item.src.slice('/api/local-files/'.length)
                     buffer = await loadAsBuffer(localKey)
                   } else if (validation.type === 's3') {
-                    // Fetch from our S3 bucket URL
-                    const response = await fetch(item.src)
-                    if (response.ok) {
-                      const arrayBuffer = await response.arrayBuffer()
-                      contentType = response.headers.get('content-type') || 'image/png'
-                      buffer = Buffer.from(arrayBuffer)
+                    const object = await loadS3Source(item.src)
+                    if (object) {
+                      contentType = object.contentType || 'image/png'
+                      buffer = object.data
                     }
                   }
 
@@ -530,6 +1112,11 @@ router.post('/:id', async (req, res) => {
             rotation: item.rotation,
             cropRect: item.cropRect,
             cropSrc: cropFile,
+            edits: item.edits,
+            editFormat: item.editFormat,
+            editQuality: item.editQuality,
+            annotations: item.annotations,
+            originalFile: item.originalSrc ? await saveOriginalImageFile(item.originalSrc, item.id, sceneFolder) : undefined,
           })
         } else {
           console.error(`Failed to save image ${item.id}, skipping from scene`)
@@ -592,14 +1179,12 @@ router.post('/:id', async (req, res) => {
                     const localKey = item.src.slice('/api/local-files/'.length)
                     buffer = await loadAsBuffer(localKey)
                   } else if (validation.type === 's3') {
-                    // Fetch from our S3 bucket URL
-                    const response = await fetch(item.src)
-                    if (response.ok) {
-                      const arrayBuffer = await response.arrayBuffer()
-                      contentType = response.headers.get('content-type') || 'video/mp4'
-                      buffer = Buffer.from(arrayBuffer)
+                    const object = await loadS3Source(item.src)
+                    if (object) {
+                      contentType = object.contentType || 'video/mp4'
+                      buffer = object.data
                     } else {
-                      console.error(`Failed to fetch video ${item.id}: HTTP ${response.status} ${response.statusText}`)
+                      console.error(`Failed to load video ${item.id}: not found in S3`)
                     }
                   }
 
@@ -658,6 +1243,9 @@ router.post('/:id', async (req, res) => {
             trim: item.trim,
             trimStart: item.trimStart,
             trimEnd: item.trimEnd,
+            segments: item.segments,
+            captions: item.captions,
+            callouts: item.callouts,
           })
         } else {
           console.error(`Failed to save video ${item.id}, skipping from scene`)
@@ -775,11 +1363,7 @@ router.post('/:id', async (req, res) => {
                     const localKey = item.src.slice('/api/local-files/'.length)
                     buffer = await loadAsBuffer(localKey)
                   } else if (validation.type === 's3') {
-                    const response = await fetch(item.src)
-                    if (response.ok) {
-                      const arrayBuffer = await response.arrayBuffer()
-                      buffer = Buffer.from(arrayBuffer)
-                    }
+                    buffer = (await loadS3Source(item.src))?.data ?? null
                   }
 
                   if (buffer) {
@@ -827,10 +1411,7 @@ router.post('/:id', async (req, res) => {
                     } else {
                       const validation = validateItemSrcUrl(item.thumbnailSrc)
                       if (validation.valid && validation.type === 's3') {
-                        const response = await fetch(item.thumbnailSrc)
-                        if (response.ok) {
-                          buffer = Buffer.from(await response.arrayBuffer())
-                        }
+                        buffer = (await loadS3Source(item.thumbnailSrc))?.data ?? null
                       }
                     }
                     if (buffer) {
@@ -899,11 +1480,7 @@ router.post('/:id', async (req, res) => {
                     const localKey = item.src.slice('/api/local-files/'.length)
                     buffer = await loadAsBuffer(localKey)
                   } else if (validation.type === 's3') {
-                    const response = await fetch(item.src)
-                    if (response.ok) {
-                      const arrayBuffer = await response.arrayBuffer()
-                      buffer = Buffer.from(arrayBuffer)
-                    }
+                    buffer = (await loadS3Source(item.src))?.data ?? null
                   }
 
                   if (buffer) {
@@ -951,6 +1528,17 @@ router.post('/:id', async (req, res) => {
           label: item.label,
           ...(item.startTime != null && { startTime: item.startTime }),
         })
+      } else if (item.type === 'frame') {
+        storedItems.push({
+          id: item.id,
+          type: 'frame',
+          x: item.x,
+          y: item.y,
+          width: item.width,
+          height: item.height,
+          name: item.name ?? '',
+          order: item.order ?? 0,
+        })
       } else if (item.type === 'model3d') {
         // 3D models are already uploaded via /upload-model3d, just store the reference
         const format = item.format || 'glb'
@@ -976,10 +1564,7 @@ router.post('/:id', async (req, res) => {
                     const localKey = item.src.slice('/api/local-files/'.length)
                     buffer = await loadAsBuffer(localKey)
                   } else if (validation.type === 's3') {
-                    const response = await fetch(item.src)
-                    if (response.ok) {
-                      buffer = Buffer.from(await response.arrayBuffer())
-                    }
+                    buffer = (await loadS3Source(item.src))?.data ?? null
                   }
                   if (buffer) {
                     await save(`${sceneFolder}/${modelFile}`, buffer, 'application/octet-stream')
@@ -1037,10 +1622,7 @@ router.post('/:id', async (req, res) => {
                     const localKey = item.src.slice('/api/local-files/'.length)
                     buffer = await loadAsBuffer(localKey)
                   } else if (validation.type === 's3') {
-                    const response = await fetch(item.src)
-                    if (response.ok) {
-                      buffer = Buffer.from(await response.arrayBuffer())
-                    }
+                    buffer = (await loadS3Source(item.src))?.data ?? null
                   }
                   if (buffer) {
                     await save(`${sceneFolder}/${splatFile}`, buffer, 'application/octet-stream')
@@ -1075,6 +1657,72 @@ router.post('/:id', async (req, res) => {
         } else {
           console.error(`Failed to save splat ${item.id}, skipping from scene`)
         }
+      } else if (item.type === 'audio') {
+        // Audio is already uploaded to the scene folder, just store the reference
+        const format = item.format || 'mp3'
+        const audioFile = `${item.id}.${format}`
+        let audioSaved = false
+
+        if (item.src) {
+          const validation = validateItemSrcUrl(item.src)
+          if (!validation.valid) {
+            console.error(`Rejected audio URL for item ${item.id}: ${validation.reason}`)
+          } else if (item.src.includes(`/${sceneFolder}/`)) {
+            audioSaved = true
+          } else {
+            const audioKey = `${sceneFolder}/${audioFile}`
+            if (await exists(audioKey)) {
+              audioSaved = true
+            } else {
+              try {
+                let buffer: Buffer | null = null
+                let contentType = 'application/octet-stream'
+                if (item.src.startsWith('/api/local-files/')) {
+                  buffer = await loadAsBuffer(item.src.slice('/api/local-files/'.length))
+                } else if (validation.type === 's3') {
+                  const object = await loadS3Source(item.src)
+                  if (object) {
+                    contentType = object.contentType || contentType
+                    buffer = object.data
+                  }
+                }
+                if (buffer) {
+                  await save(audioKey, buffer, contentType)
+                  audioSaved = true
+                }
+              } catch (err) {
+                console.error(`Failed to fetch audio from ${item.src}:`, err)
+              }
+            }
+          }
+        }
+
+        if (audioSaved) {
+          // Extract just the filename from the trimmed file's URL if present
+          let cropFile: string | undefined = undefined
+          if (item.cropSrc) {
+            cropFile = getKeyFromUrl(item.cropSrc)?.split('/').pop()
+          }
+          storedItems.push({
+            id: item.id,
+            type: 'audio',
+            x: item.x,
+            y: item.y,
+            width: item.width,
+            height: item.height,
+            file: audioFile,
+            name: item.name,
+            fileSize: item.fileSize,
+            format,
+            duration: item.duration,
+            loop: item.loop,
+            trimStart: item.trimStart,
+            trimEnd: item.trimEnd,
+            cropSrc: cropFile,
+          })
+        } else {
+          console.error(`Failed to save audio ${item.id}, skipping from scene`)
+        }
       }
     }
 
@@ -1087,7 +1735,20 @@ router.post('/:id', async (req, res) => {
       items: storedItems,
       version: SCENE_FILE_VERSION,
     }
-    await save(`${sceneFolder}/scene.json`, JSON.stringify(storedScene, null, 2))
+    const conflictModifiedAt = await withSceneWriteLock(sceneFolder, async () => {
+      if (baseModifiedAt) {
+        const serverModifiedAt = await getStoredModifiedAt(sceneFolder)
+        if (serverModifiedAt && serverModifiedAt !== baseModifiedAt) {
+          return serverModifiedAt
+        }
+      }
+      await save(`${sceneFolder}/scene.json`, JSON.stringify(storedScene, null, 2))
+      return null
+    })
+    if (conflictModifiedAt) {
+      // Media written above stays in the folder unreferenced; the orphan GC cleans it up
+      return res.status(409).json({ error: 'Scene was modified on the server', modifiedAt: conflictModifiedAt })
+    }
 
     // Clean up staging files (images/ and videos/ folders) after successful save
     if (stagingKeysToDelete.length > 0) {
@@ -1100,7 +1761,27 @@ router.post('/:id', async (req, res) => {
       )
     }
 
-    res.json({ success: true, id })
+    scheduleSceneThumbnail(sceneFolder)
+
+    // Optionally collect orphaned media in the background (SCENE_GC_ON_SAVE=true)
+    if (isGcOnSaveEnabled()) {
+      const workspace = (req.params as Record<string, string>).workspace
+      collectSceneGarbage(workspace, { dryRun: false, sceneId: id })
+        .then((report) => {
+          if (report.deletedCount > 0) {
+            console.log(`GC on save: deleted ${report.deletedCount} orphaned file(s) from ${sceneFolder}`)
+          }
+        })
+        .catch((err) => console.error(`GC on save failed for ${sceneFolder}:`, err))
+    }
+
+    publishWorkspaceEvent(
+      (req.params as Record<string, string>).workspace,
+      { type: 'scene-saved', sceneId: id, modifiedAt },
+      req.get('X-Client-Id')
+    )
+
+    res.json({ success: true, id, modifiedAt })
   } catch (error) {
     console.error('Error saving scene:', error)
     res.status(500).json({ error: 'Failed to save scene' })
@@ -1139,248 +1820,13 @@ router.get('/:id', async (req, res) => {
 
     let storedScene: StoredScene
     try {
-      storedScene = JSON.parse(sceneJson)
-    } catch {
-      return res.status(500).json({ error: 'Corrupted scene data' })
+      storedScene = parseStoredScene(sceneJson)
+    } catch (error) {
+      const message = error instanceof SceneMigrationError ? error.message : 'Corrupted scene data'
+      return res.status(500).json({ error: message })
     }
 
-    // Reconstruct items with full data
-    const items = await Promise.all(
-      storedScene.items.map(async (item) => {
-        if (item.type === 'text') {
-          return {
-            id: item.id,
-            type: 'text' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            fontSize: item.fontSize,
-            text: item.text,
-          }
-        } else if (item.type === 'image') {
-          // For images, return the public URL
-          const imageUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
-          // Reconstruct cropSrc URL from filename if present
-          const cropSrcUrl = item.cropSrc ? getPublicUrl(`${sceneFolder}/${item.cropSrc}`) : undefined
-          return {
-            id: item.id,
-            type: 'image' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            src: imageUrl,
-            name: item.name,
-            originalWidth: item.originalWidth,
-            originalHeight: item.originalHeight,
-            fileSize: item.fileSize,
-            scaleX: item.scaleX,
-            scaleY: item.scaleY,
-            rotation: item.rotation,
-            cropRect: item.cropRect,
-            cropSrc: cropSrcUrl,
-          }
-        } else if (item.type === 'video') {
-          // For videos, return the public URL
-          const videoUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
-          // Reconstruct cropSrc URL from filename if present
-          const cropSrcUrl = item.cropSrc ? getPublicUrl(`${sceneFolder}/${item.cropSrc}`) : undefined
-          return {
-            id: item.id,
-            type: 'video' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            src: videoUrl,
-            name: item.name,
-            originalWidth: item.originalWidth,
-            originalHeight: item.originalHeight,
-            fileSize: item.fileSize,
-            scaleX: item.scaleX,
-            scaleY: item.scaleY,
-            rotation: item.rotation,
-            loop: item.loop,
-            muted: item.muted,
-            playbackRate: item.playbackRate,
-            speedFactor: item.speedFactor,
-            removeAudio: item.removeAudio,
-            cropRect: item.cropRect,
-            cropSrc: cropSrcUrl,
-            trim: item.trim,
-            trimStart: item.trimStart,
-            trimEnd: item.trimEnd,
-          }
-        } else if (item.type === 'prompt') {
-          return {
-            id: item.id,
-            type: 'prompt' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            fontSize: item.fontSize,
-            label: item.label,
-            text: item.text,
-            model: item.model || 'claude-sonnet',
-          }
-        } else if (item.type === 'image-gen-prompt') {
-          return {
-            id: item.id,
-            type: 'image-gen-prompt' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            fontSize: item.fontSize,
-            label: item.label,
-            text: item.text,
-            model: item.model || 'gemini-imagen',
-          }
-        } else if (item.type === 'html-gen-prompt') {
-          return {
-            id: item.id,
-            type: 'html-gen-prompt' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            fontSize: item.fontSize,
-            label: item.label,
-            text: item.text,
-            model: item.model || 'claude-sonnet',
-          }
-        } else if (item.type === 'coding-robot') {
-          // Load chat history from file if it exists
-          let chatHistory: Array<{ role: string; content: string; timestamp?: string }> = []
-          if (item.chatHistoryFile) {
-            const chatJson = await load(`${sceneFolder}/${item.chatHistoryFile}`)
-            if (chatJson) {
-              try {
-                chatHistory = JSON.parse(chatJson)
-              } catch {
-                console.error(`Failed to parse chat history for ${item.id}`)
-              }
-            }
-          }
-          return {
-            id: item.id,
-            type: 'coding-robot' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            fontSize: item.fontSize,
-            label: item.label,
-            text: item.text,
-            chatHistory,
-            sessionId: item.sessionId ?? null,
-            rootDirectory: item.rootDirectory,
-            showActivity: item.showActivity,
-            activityPanelWidth: item.activityPanelWidth,
-            activeRequestId: item.activeRequestId,
-          }
-        } else if (item.type === 'pdf') {
-          const pdfUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
-          const thumbnailSrc = item.thumbFile ? getPublicUrl(`${sceneFolder}/${item.thumbFile}`) : undefined
-          return {
-            id: item.id,
-            type: 'pdf' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            src: pdfUrl,
-            name: item.name,
-            fileSize: item.fileSize,
-            minimized: item.minimized,
-            thumbnailSrc,
-          }
-        } else if (item.type === 'text-file') {
-          const textFileUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
-          return {
-            id: item.id,
-            type: 'text-file' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            src: textFileUrl,
-            name: item.name,
-            fileSize: item.fileSize,
-            minimized: item.minimized,
-            fileFormat: item.fileFormat,
-            fontMono: item.fontMono,
-            fontSize: item.fontSize,
-            viewType: item.viewType,
-          }
-        } else if (item.type === 'embed-video') {
-          return {
-            id: item.id,
-            type: 'embed-video' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            videoId: item.videoId,
-            provider: item.provider,
-            label: item.label,
-            ...(item.startTime != null && { startTime: item.startTime }),
-          }
-        } else if (item.type === 'model3d') {
-          const modelUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
-          return {
-            id: item.id,
-            type: 'model3d' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            src: modelUrl,
-            name: item.name,
-            fileSize: item.fileSize,
-            format: item.format,
-            minimized: item.minimized,
-            ...(item.cameraPosition && { cameraPosition: item.cameraPosition }),
-            ...(item.cameraTarget && { cameraTarget: item.cameraTarget }),
-          }
-        } else if (item.type === 'splat') {
-          const splatUrl = getPublicUrl(`${sceneFolder}/${item.file}`)
-          return {
-            id: item.id,
-            type: 'splat' as const,
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            src: splatUrl,
-            name: item.name,
-            fileSize: item.fileSize,
-            format: item.format,
-            minimized: item.minimized,
-            ...(item.cameraPosition && { cameraPosition: item.cameraPosition }),
-            ...(item.cameraTarget && { cameraTarget: item.cameraTarget }),
-            ...(item.cameraUp && { cameraUp: item.cameraUp }),
-            ...(item.orthographic && { orthographic: item.orthographic }),
-          }
-        } else {
-          // For HTML items, load the HTML file
-          const html = await load(`${sceneFolder}/${item.file}`)
-          return {
-            id: item.id,
-            type: 'html' as const,
-            label: item.label || 'HTML',
-            x: item.x,
-            y: item.y,
-            width: item.width,
-            height: item.height,
-            html: html || '',
-            zoom: item.zoom,
-          }
-        }
-      })
-    )
+    const items = await reconstructItems(storedScene, sceneFolder)
 
     res.json({
       id: storedScene.id,
@@ -1399,9 +1845,19 @@ router.get('/:id', async (req, res) => {
 // List all scenes (returns metadata only)
 router.get('/', async (req, res) => {
   try {
-    // List all scene.json files
-    const allKeys = await list(`${(req.params as Record<string, string>).workspace}/`)
-    const sceneJsonKeys = allKeys.filter((key) => key.endsWith('/scene.json'))
+    // List all scene.json files directly inside a scene folder (skips the trash and other nested folders)
+    const workspace = (req.params as Record<string, string>).workspace
+    const prefix = `${workspace}/`
+    const objects = await listWithModified(prefix)
+    const sceneJsonKeys = objects.map((o) => o.key).filter((key) => {
+      const parts = key.slice(prefix.length).split('/')
+      return parts.length === 2 && parts[1] === 'scene.json'
+    })
+    // Thumbnail times come with the listing, so no per-scene lookup is needed
+    const thumbnailTimes = new Map<string, Date>()
+    for (const { key, lastModified } of objects) {
+      if (lastModified && key.endsWith(`/${THUMBNAIL_FILENAME}`)) thumbnailTimes.set(key, lastModified)
+    }
 
     // Load metadata for each scene
     const scenes = await Promise.all(
@@ -1414,12 +1870,22 @@ router.get('/', async (req, res) => {
         } catch {
           return null
         }
+        // Missing or out-of-date thumbnails (e.g. scenes saved before thumbnails existed)
+        // are rebuilt in the background for next time
+        const sceneFolder = key.slice(0, -'/scene.json'.length)
+        const thumbnailModified = thumbnailTimes.get(`${sceneFolder}/${THUMBNAIL_FILENAME}`)
+        if (!thumbnailModified || thumbnailModified < new Date(scene.modifiedAt)) {
+          scheduleSceneThumbnail(sceneFolder)
+        }
         return {
           id: scene.id,
           name: scene.name,
           createdAt: scene.createdAt,
           modifiedAt: scene.modifiedAt,
           itemCount: scene.items.length,
+          thumbnailUrl: thumbnailModified
+            ? getThumbnailUrl(workspace, scene.id, thumbnailModified.toISOString())
+            : undefined,
         }
       })
     )
@@ -1431,17 +1897,19 @@ router.get('/', async (req, res) => {
   }
 })
 
-// Delete a scene
+// Delete a scene (moves it to the workspace trash, see /trash routes)
 router.delete('/:id', async (req, res) => {
   try {
     const { id } = req.params
-    const sceneFolder = `${(req.params as Record<string, string>).workspace}/${id}`
+    const workspace = (req.params as Record<string, string>).workspace
+
+    await moveSceneToTrash(workspace, id)
 
-    // List all files in the scene folder
-    const allKeys = await list(`${sceneFolder}/`)
+    // Expire old trash entries while we're here
+    listTrash(workspace).catch((err) => console.error('Error expiring trash:', err))
 
-    // Delete all files in the scene folder
-    await Promise.all(allKeys.map((key) => del(key)))
+    forgetSceneIndex(workspace, id)
+    publishWorkspaceEvent(workspace, { type: 'scene-deleted', sceneId: id }, req.get('X-Client-Id'))
 
     res.json({ success: true })
   } catch (error) {
@@ -1487,6 +1955,12 @@ router.post('/:id/history', async (req, res) => {
       JSON.stringify({ records, currentIndex }, null, 2)
     )
 
+    publishWorkspaceEvent(
+      (req.params as Record<string, string>).workspace,
+      { type: 'history-updated', sceneId: id },
+      req.get('X-Client-Id')
+    )
+
     res.json({ success: true })
   } catch (error) {
     console.error('Error saving history:', error)
@@ -1494,4 +1968,170 @@ router.post('/:id/history', async (req, res) => {
   }
 })
 
+// List snapshots of a scene
+router.get('/:id/snapshots', async (req, res) => {
+  try {
+    const { id } = req.params
+    const workspace = (req.params as Record<string, string>).workspace
+    res.json(await listSnapshots(workspace, id))
+  } catch (error) {
+    console.error('Error listing snapshots:', error)
+    res.status(500).json({ error: 'Failed to list snapshots' })
+  }
+})
+
+// Take a named snapshot of the scene's saved state
+router.post('/:id/snapshots', async (req, res) => {
+  try {
+    const { id } = req.params
+    const workspace = (req.params as Record<string, string>).workspace
+    const { name } = req.body
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Snapshot name is required' })
+    }
+
+    const snapshot = await createSnapshot(workspace, id, name.trim())
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Scene not found' })
+    }
+
+    res.json(snapshot)
+  } catch (error) {
+    console.error('Error creating snapshot:', error)
+    res.status(500).json({ error: 'Failed to create snapshot' })
+  }
+})
+
+// Preview a snapshot (same shape as loading a scene, with URLs into the snapshot folder)
+router.get('/:id/snapshots/:snapshotId', async (req, res) => {
+  try {
+    const { id, snapshotId } = req.params
+    const workspace = (req.params as Record<string, string>).workspace
+    const snapshotFolder = getSnapshotFolder(workspace, id, snapshotId)
+
+    const info = await loadSnapshotInfo(workspace, id, snapshotId)
+    const sceneJson = await load(`${snapshotFolder}/scene.json`)
+    if (!info || !sceneJson) {
+      return res.status(404).json({ error: 'Snapshot not found' })
+    }
+
+    let storedScene: StoredScene
+    try {
+      storedScene = parseStoredScene(sceneJson)
+    } catch (error) {
+      const message = error instanceof SceneMigrationError ? error.message : 'Corrupted snapshot data'
+      return res.status(500).json({ error: message })
+    }
+
+    const items = await reconstructItems(storedScene, snapshotFolder)
+
+    res.json({
+      snapshot: info,
+      scene: {
+        id: storedScene.id,
+        name: storedScene.name,
+        createdAt: storedScene.createdAt,
+        modifiedAt: storedScene.modifiedAt,
+        items,
+        version: storedScene.version,
+      },
+    })
+  } catch (error) {
+    console.error('Error loading snapshot:', error)
+    res.status(500).json({ error: 'Failed to load snapshot' })
+  }
+})
+
+// Restore the scene from a snapshot (the current state is snapshotted first)
+router.post('/:id/snapshots/:snapshotId/restore', async (req, res) => {
+  try {
+    const { id, snapshotId } = req.params
+    const workspace = (req.params as Record<string, string>).workspace
+
+    const info = await loadSnapshotInfo(workspace, id, snapshotId)
+    if (!info) {
+      return res.status(404).json({ error: 'Snapshot not found' })
+    }
+
+    // Like a save: optionally conditional on the scene not having changed, and under the
+    // write lock so a concurrent save can't interleave with the backup and restore
+    const sceneFolder = `${workspace}/${id}`
+    const baseModifiedAt = parseIfMatch(req.get('If-Match'))
+    const result = await withSceneWriteLock(sceneFolder, async () => {
+      if (baseModifiedAt) {
+        const serverModifiedAt = await getStoredModifiedAt(sceneFolder)
+        if (serverModifiedAt && serverModifiedAt !== baseModifiedAt) {
+          return { conflictModifiedAt: serverModifiedAt }
+        }
+      }
+      const backup = await createSnapshot(workspace, id, `Before restoring "${info.name}"`)
+      const modifiedAt = await restoreSnapshot(workspace, id, snapshotId)
+      return { backup, modifiedAt }
+    })
+    if ('conflictModifiedAt' in result) {
+      return res.status(409).json({ error: 'Scene was modified on the server', modifiedAt: result.conflictModifiedAt })
+    }
+    const { backup, modifiedAt } = result
+    if (!modifiedAt) {
+      return res.status(404).json({ error: 'Snapshot not found' })
+    }
+
+    scheduleSceneThumbnail(sceneFolder)
+    publishWorkspaceEvent(workspace, { type: 'scene-saved', sceneId: id, modifiedAt }, req.get('X-Client-Id'))
+
+    res.json({ success: true, id, modifiedAt, backupSnapshotId: backup?.id ?? null })
+  } catch (error) {
+    console.error('Error restoring snapshot:', error)
+    res.status(500).json({ error: 'Failed to restore snapshot' })
+  }
+})
+
+// Create a new scene from a snapshot
+router.post('/:id/snapshots/:snapshotId/branch', async (req, res) => {
+  try {
+    const { id, snapshotId } = req.params
+    const workspace = (req.params as Record<string, string>).workspace
+    const { name } = req.body
+
+    const info = await loadSnapshotInfo(workspace, id, snapshotId)
+    if (!info) {
+      return res.status(404).json({ error: 'Snapshot not found' })
+    }
+
+    const sceneName = typeof name === 'string' && name.trim() ? name.trim() : info.name
+    const newSceneId = await branchSnapshot(workspace, id, snapshotId, sceneName)
+    if (!newSceneId) {
+      return res.status(404).json({ error: 'Snapshot not found' })
+    }
+
+    const modifiedAt = await getStoredModifiedAt(`${workspace}/${newSceneId}`)
+    scheduleSceneThumbnail(`${workspace}/${newSceneId}`)
+    publishWorkspaceEvent(workspace, { type: 'scene-saved', sceneId: newSceneId, modifiedAt: modifiedAt ?? '' }, req.get('X-Client-Id'))
+
+    res.json({ success: true, id: newSceneId })
+  } catch (error) {
+    console.error('Error branching snapshot:', error)
+    res.status(500).json({ error: 'Failed to branch snapshot' })
+  }
+})
+
+// Delete a snapshot
+router.delete('/:id/snapshots/:snapshotId', async (req, res) => {
+  try {
+    const { id, snapshotId } = req.params
+    const workspace = (req.params as Record<string, string>).workspace
+
+    if (!(await loadSnapshotInfo(workspace, id, snapshotId))) {
+      return res.status(404).json({ error: 'Snapshot not found' })
+    }
+
+    await deleteSnapshot(workspace, id, snapshotId)
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting snapshot:', error)
+    res.status(500).json({ error: 'Failed to delete snapshot' })
+  }
+})
+
 export default router
@@ -0,0 +1,27 @@
+import { Router } from 'express'
+import { searchWorkspace } from '../services/workspaceSearch.js'
+
+const router = Router({ mergeParams: true })
+
+const MAX_QUERY_LENGTH = 200
+
+// Search the text of every scene in the workspace
+router.get('/', async (req, res) => {
+  const workspace = (req.params as Record<string, string>).workspace
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+  if (!q) {
+    return res.status(400).json({ error: 'Query parameter q is required' })
+  }
+  if (q.length > MAX_QUERY_LENGTH) {
+    return res.status(400).json({ error: `Query must be at most ${MAX_QUERY_LENGTH} characters` })
+  }
+
+  try {
+    res.json(await searchWorkspace(workspace, q))
+  } catch (error) {
+    console.error('Error searching workspace:', error)
+    res.status(500).json({ error: 'Failed to search workspace' })
+  }
+})
+
+export default router
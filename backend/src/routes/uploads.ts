@@ -0,0 +1,126 @@
+import express, { Router, Response } from 'express'
+import { validate as uuidValidate } from 'uuid'
+import {
+  UPLOAD_KINDS,
+  UploadError,
+  UploadKind,
+  createUpload,
+  getUploadStatus,
+  writeUploadChunk,
+  getUploadPartUrls,
+  completeUpload,
+  abortUpload,
+  getMaxChunkSize,
+} from '../services/resumableUploads.js'
+
+const router = Router({ mergeParams: true })
+
+// Chunks arrive as raw bytes, whatever Content-Type the browser sends
+const rawChunk = express.raw({ type: () => true, limit: getMaxChunkSize() + 1024 })
+
+function handleUploadError(res: Response, error: unknown, action: string) {
+  if (error instanceof UploadError) {
+    return res.status(error.status).json({ error: error.message })
+  }
+  console.error(`Error ${action}:`, error)
+  res.status(500).json({ error: `Failed to ${action}` })
+}
+
+// Validate upload ID format on all routes with :id param
+router.param('id', (req, res, next, id) => {
+  if (!uuidValidate(id)) {
+    return res.status(400).json({ error: 'Invalid upload ID format' })
+  }
+  next()
+})
+
+// Start a resumable upload
+router.post('/', async (req, res) => {
+  const workspace = (req.params as Record<string, string>).workspace
+  const { sceneId, itemId, kind, filename, size, contentType } = req.body
+  if (!sceneId || !itemId) {
+    return res.status(400).json({ error: 'sceneId and itemId are required' })
+  }
+  if (!uuidValidate(sceneId) || !uuidValidate(itemId)) {
+    return res.status(400).json({ error: 'Invalid scene ID or item ID format' })
+  }
+  if (!UPLOAD_KINDS.includes(kind)) {
+    return res.status(400).json({ error: `kind must be one of: ${UPLOAD_KINDS.join(', ')}` })
+  }
+
+  try {
+    const session = await createUpload(workspace, {
+      sceneId,
+      itemId,
+      kind: kind as UploadKind,
+      filename: typeof filename === 'string' ? filename : undefined,
+      size,
+      contentType: typeof contentType === 'string' ? contentType : undefined,
+    })
+    res.json(session)
+  } catch (error) {
+    handleUploadError(res, error, 'start upload')
+  }
+})
+
+// Which chunks the server already has (used to resume after a failure)
+router.get('/:id', async (req, res) => {
+  const { workspace, id } = req.params as Record<string, string>
+  try {
+    res.json(await getUploadStatus(workspace, id))
+  } catch (error) {
+    handleUploadError(res, error, 'get upload status')
+  }
+})
+
+// Upload one chunk through the server
+router.put('/:id/chunks/:index', rawChunk, async (req, res) => {
+  const { workspace, id, index } = req.params as Record<string, string>
+  if (!Buffer.isBuffer(req.body)) {
+    return res.status(400).json({ error: 'Chunk body is required' })
+  }
+  try {
+    await writeUploadChunk(workspace, id, Number(index), req.body)
+    res.json({ success: true })
+  } catch (error) {
+    handleUploadError(res, error, 'upload chunk')
+  }
+})
+
+// Presigned URLs for uploading chunks directly to S3
+router.post('/:id/part-urls', async (req, res) => {
+  const { workspace, id } = req.params as Record<string, string>
+  const { chunks } = req.body
+  if (!Array.isArray(chunks) || chunks.length === 0 || chunks.length > 1000) {
+    return res.status(400).json({ error: 'chunks must be an array of 1 to 1000 chunk indexes' })
+  }
+  try {
+    res.json({ urls: await getUploadPartUrls(workspace, id, chunks) })
+  } catch (error) {
+    handleUploadError(res, error, 'sign upload parts')
+  }
+})
+
+// Assemble the chunks into the item file
+router.post('/:id/complete', async (req, res) => {
+  const { workspace, id } = req.params as Record<string, string>
+  try {
+    const result = await completeUpload(workspace, id)
+    res.json({ success: true, ...result })
+  } catch (error) {
+    handleUploadError(res, error, 'complete upload')
+  }
+})
+
+// Abandon an upload and delete its partial data
+router.delete('/:id', async (req, res) => {
+  const { workspace, id } = req.params as Record<string, string>
+  try {
+    await abortUpload(workspace, id)
+    res.json({ success: true })
+  } catch (error) {
+    handleUploadError(res, error, 'abort upload')
+  }
+})
+
+export default router
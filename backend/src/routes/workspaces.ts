@@ -1,18 +1,50 @@
 import { Router } from 'express'
-import { save, exists, list, load } from '../services/storage.js'
+import multer from 'multer'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { save, exists, list, listWithModified, load, getStorageMode, StorageMode } from '../services/storage.js'
+import {
+  WorkspaceTransferError,
+  loadWorkspaceMeta,
+  saveWorkspaceMeta,
+  renameWorkspace,
+  exportWorkspaceZip,
+  importWorkspaceZip,
+} from '../services/workspaceTransfer.js'
+import { publishWorkspaceEvent } from '../services/workspaceEvents.js'
+import { getWorkspaceThumbnailUrls } from '../services/sceneThumbnails.js'
+import { migrateWorkspaceStorage, StorageMigrationError } from '../services/storageMigration.js'
+import { forgetWorkspaceIndex } from '../services/workspaceSearch.js'
 
 const WORKSPACE_RE = /^[a-zA-Z0-9_-]{1,64}$/
+const MAX_WORKSPACES = 50
+const STORAGE_MODES: StorageMode[] = ['online', 'local']
+
+// Workspace zips are written to a temp file while importing (1GB limit)
+const upload = multer({
+  dest: path.join(os.tmpdir(), 'gsworkspace-imports'),
+  limits: { fileSize: 1024 * 1024 * 1024 }
+})
 
 const router = Router()
 
-// List all non-hidden workspaces
-router.get('/', async (_req, res) => {
+async function countWorkspaces(): Promise<number> {
+  const allKeys = await list('')
+  return allKeys.filter((k: string) => k.endsWith('/workspace.json')).length
+}
+
+// List all non-hidden workspaces (or only soft-deleted ones with ?deleted=true)
+router.get('/', async (req, res) => {
   try {
-    const keys = await list('')
+    const showDeleted = req.query.deleted === 'true'
+    const objects = await listWithModified('')
+    const keys = objects.map((o) => o.key)
 
     // Collect workspaces that have a workspace.json
     const seen = new Set<string>()
-    const workspaces: Array<{ name: string; createdAt: string }> = []
+    const workspaces: Array<{ name: string; createdAt: string; deletedAt?: string; thumbnailUrl?: string }> = []
     const workspaceKeys = keys.filter((k: string) => k.endsWith('/workspace.json'))
 
     for (const key of workspaceKeys) {
@@ -21,29 +53,42 @@ router.get('/', async (_req, res) => {
         if (!raw) continue
         const meta = JSON.parse(raw)
         seen.add(meta.name)
-        if (meta.hidden) continue
+        if (showDeleted) {
+          if (meta.deletedAt) {
+            workspaces.push({ name: meta.name, createdAt: meta.createdAt, deletedAt: meta.deletedAt })
+          }
+          continue
+        }
+        if (meta.hidden || meta.deletedAt) continue
         workspaces.push({ name: meta.name, createdAt: meta.createdAt })
       } catch {
         // Skip malformed workspace metadata
       }
     }
 
+    if (showDeleted) {
+      return res.json(workspaces)
+    }
+
     // Also discover workspace folders that have scene content but no workspace.json
     // (e.g. the original default workspace that predates the workspace feature)
-    const folderNames = new Set<string>()
+    // Folders with at least one scene.json (real workspace content), found in one pass
+    const foldersWithScenes = new Set<string>()
     for (const key of keys) {
       const slashIdx = key.indexOf('/')
-      if (slashIdx > 0) {
-        folderNames.add(key.substring(0, slashIdx))
+      if (slashIdx > 0 && key.endsWith('/scene.json')) {
+        foldersWithScenes.add(key.substring(0, slashIdx))
       }
     }
-    for (const folder of folderNames) {
+    for (const folder of foldersWithScenes) {
       if (seen.has(folder)) continue
-      // Check that it has at least one scene.json (real workspace content)
-      const hasScene = keys.some((k: string) => k.startsWith(`${folder}/`) && k.endsWith('/scene.json'))
-      if (hasScene) {
-        workspaces.push({ name: folder, createdAt: '' })
-      }
+      workspaces.push({ name: folder, createdAt: '' })
+    }
+
+    // Preview each workspace with its most recently updated scene
+    const thumbnailUrls = getWorkspaceThumbnailUrls(objects)
+    for (const workspace of workspaces) {
+      workspace.thumbnailUrl = thumbnailUrls.get(workspace.name)
     }
 
     res.json(workspaces)
@@ -68,6 +113,9 @@ router.get('/:name', async (req, res) => {
       try {
         const raw = await load(workspaceKey)
         const meta = raw ? JSON.parse(raw) : {}
+        if (meta.deletedAt) {
+          return res.json({ exists: false, deleted: true, hidden: !!meta.hidden, pinnedSceneIds: [] })
+        }
         return res.json({ exists: true, hidden: !!meta.hidden, pinnedSceneIds: meta.pinnedSceneIds ?? [] })
       } catch {
         return res.json({ exists: true, hidden: false, pinnedSceneIds: [] })
@@ -103,10 +151,7 @@ router.post('/', async (req, res) => {
     }
 
     // Enforce maximum workspace count
-    const MAX_WORKSPACES = 50
-    const allKeys = await list('')
-    const workspaceCount = allKeys.filter((k: string) => k.endsWith('/workspace.json')).length
-    if (workspaceCount >= MAX_WORKSPACES) {
+    if (await countWorkspaces() >= MAX_WORKSPACES) {
       return res.status(409).json({ error: `Maximum number of workspaces (${MAX_WORKSPACES}) reached` })
     }
 
@@ -158,6 +203,8 @@ router.put('/:name/pinned-scenes', async (req, res) => {
     meta.pinnedSceneIds = sceneIds
     await save(workspaceKey, Buffer.from(JSON.stringify(meta, null, 2)), 'application/json')
 
+    publishWorkspaceEvent(name, { type: 'pinned-scenes-changed', pinnedSceneIds: sceneIds }, req.get('X-Client-Id'))
+
     res.json({ success: true })
   } catch (error) {
     console.error('Error updating pinned scenes:', error)
@@ -165,4 +212,202 @@ router.put('/:name/pinned-scenes', async (req, res) => {
   }
 })
 
+// Import a workspace from a zip produced by the export endpoint
+router.post('/import', upload.single('file'), async (req, res) => {
+  let zipPath: string | undefined
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No zip file provided' })
+    }
+    zipPath = req.file.path
+
+    const { name } = req.body as { name?: string }
+    if (name && !WORKSPACE_RE.test(name)) {
+      return res.status(400).json({ error: 'Invalid workspace name. Must be 1-64 alphanumeric, hyphen, or underscore characters.' })
+    }
+
+    if (await countWorkspaces() >= MAX_WORKSPACES) {
+      return res.status(409).json({ error: `Maximum number of workspaces (${MAX_WORKSPACES}) reached` })
+    }
+
+    const result = await importWorkspaceZip(zipPath, name || undefined, (n) => WORKSPACE_RE.test(n))
+    res.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof WorkspaceTransferError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Error importing workspace:', error)
+    res.status(500).json({ error: 'Failed to import workspace' })
+  } finally {
+    if (zipPath) await fs.promises.rm(zipPath, { force: true })
+  }
+})
+
+// Export a whole workspace (workspace.json plus every scene folder) as a zip
+router.get('/:name/export', async (req, res) => {
+  try {
+    const { name } = req.params
+
+    if (!WORKSPACE_RE.test(name)) {
+      return res.status(400).json({ error: 'Invalid workspace name' })
+    }
+
+    // Built on disk first, so a failure part-way is still reported as an error response
+    const zipPath = path.join(os.tmpdir(), `workspace-export-${uuidv4()}.zip`)
+    try {
+      await exportWorkspaceZip(name, zipPath)
+    } catch (error) {
+      await fs.promises.rm(zipPath, { force: true })
+      throw error
+    }
+    res.download(zipPath, `${name}.zip`, (error) => {
+      if (error) console.error('Error sending workspace export:', error)
+      fs.promises.rm(zipPath, { force: true }).catch(() => {})
+    })
+  } catch (error) {
+    if (error instanceof WorkspaceTransferError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Error exporting workspace:', error)
+    res.status(500).json({ error: 'Failed to export workspace' })
+  }
+})
+
+// Rename a workspace by moving every key under its prefix
+router.post('/:name/rename', async (req, res) => {
+  try {
+    const { name } = req.params
+    const { newName } = req.body
+
+    if (!WORKSPACE_RE.test(name)) {
+      return res.status(400).json({ error: 'Invalid workspace name' })
+    }
+
+    if (!newName || typeof newName !== 'string' || !WORKSPACE_RE.test(newName)) {
+      return res.status(400).json({ error: 'Invalid new workspace name. Must be 1-64 alphanumeric, hyphen, or underscore characters.' })
+    }
+
+    if (newName === name) {
+      return res.status(400).json({ error: 'New name is the same as the current name' })
+    }
+
+    const result = await renameWorkspace(name, newName)
+    forgetWorkspaceIndex(name)
+    res.json({ success: true, name: newName, ...result })
+  } catch (error) {
+    if (error instanceof WorkspaceTransferError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Error renaming workspace:', error)
+    res.status(500).json({ error: 'Failed to rename workspace' })
+  }
+})
+
+// Copy a workspace between local-disk and S3 storage. Progress is streamed as server-sent
+// events once copying starts; the copy keeps going if the client disconnects.
+router.post('/:name/migrate-storage', async (req, res) => {
+  try {
+    const { name } = req.params
+    const { to } = req.body
+    const from = req.body.from ?? getStorageMode()
+
+    if (!WORKSPACE_RE.test(name)) {
+      return res.status(400).json({ error: 'Invalid workspace name' })
+    }
+    if (!STORAGE_MODES.includes(to) || !STORAGE_MODES.includes(from)) {
+      return res.status(400).json({ error: 'Invalid storage mode. Must be "online" or "local"' })
+    }
+
+    let clientDisconnected = false
+    res.on('close', () => {
+      clientDisconnected = true
+    })
+    const send = (data: unknown) => {
+      if (clientDisconnected) return
+      if (!res.headersSent) {
+        res.setHeader('Content-Type', 'text/event-stream')
+        res.setHeader('Cache-Control', 'no-cache')
+        res.setHeader('Connection', 'keep-alive')
+        res.setHeader('X-Accel-Buffering', 'no')
+        res.flushHeaders()
+      }
+      try {
+        res.write(`data: ${JSON.stringify(data)}\n\n`)
+      } catch {
+        clientDisconnected = true
+      }
+    }
+
+    const report = await migrateWorkspaceStorage(name, from, to, (progress) => {
+      send({ event: 'progress', ...progress })
+    })
+    console.log(
+      `Storage migration of "${name}" (${from} -> ${to}): ${report.copied} copied, ` +
+      `${report.unchanged} unchanged, ${report.failed.length} failed`
+    )
+    send({ event: 'result', report })
+    if (!clientDisconnected) res.end()
+  } catch (error) {
+    if (error instanceof StorageMigrationError && !res.headersSent) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Error migrating workspace storage:', error)
+    if (res.headersSent) {
+      try { res.write(`data: ${JSON.stringify({ event: 'error', error: 'Failed to migrate workspace storage' })}\n\n`) } catch { /* client gone */ }
+      try { res.end() } catch { /* client gone */ }
+    } else {
+      res.status(500).json({ error: 'Failed to migrate workspace storage' })
+    }
+  }
+})
+
+// Soft-delete a workspace (content is kept and can be restored)
+router.delete('/:name', async (req, res) => {
+  try {
+    const { name } = req.params
+
+    if (!WORKSPACE_RE.test(name)) {
+      return res.status(400).json({ error: 'Invalid workspace name' })
+    }
+
+    const meta = await loadWorkspaceMeta(name)
+    if (!meta) {
+      return res.status(404).json({ error: 'Workspace not found' })
+    }
+
+    meta.deletedAt = new Date().toISOString()
+    await saveWorkspaceMeta(name, meta)
+    forgetWorkspaceIndex(name)
+
+    res.json({ success: true, deletedAt: meta.deletedAt })
+  } catch (error) {
+    console.error('Error deleting workspace:', error)
+    res.status(500).json({ error: 'Failed to delete workspace' })
+  }
+})
+
+// Restore a soft-deleted workspace
+router.post('/:name/restore', async (req, res) => {
+  try {
+    const { name } = req.params
+
+    if (!WORKSPACE_RE.test(name)) {
+      return res.status(400).json({ error: 'Invalid workspace name' })
+    }
+
+    const meta = await loadWorkspaceMeta(name)
+    if (!meta) {
+      return res.status(404).json({ error: 'Workspace not found' })
+    }
+
+    delete meta.deletedAt
+    await saveWorkspaceMeta(name, meta)
+
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error restoring workspace:', error)
+    res.status(500).json({ error: 'Failed to restore workspace' })
+  }
+})
+
 export default router
@@ -0,0 +1,45 @@
+// Copy a workspace between local-disk and S3 storage from the command line:
+//   npm run migrate-storage -- <workspace> --to <local|online> [--from <local|online>]
+// --from defaults to the server's current storage mode. Uses the same .env as the server.
+import { getStorageMode, StorageMode } from '../services/storage.js'
+import { migrateWorkspaceStorage, StorageMigrationError } from '../services/storageMigration.js'
+
+const STORAGE_MODES: StorageMode[] = ['online', 'local']
+const USAGE = 'Usage: npm run migrate-storage -- <workspace> --to <local|online> [--from <local|online>]'
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2)
+  const workspace = args[0]
+  const to = getOption(args, '--to') as StorageMode | undefined
+  const from = (getOption(args, '--from') ?? getStorageMode()) as StorageMode
+  if (!workspace || workspace.startsWith('--') || !to || !STORAGE_MODES.includes(to) || !STORAGE_MODES.includes(from)) {
+    console.error(USAGE)
+    return 2
+  }
+
+  console.log(`Migrating workspace "${workspace}" from ${from} to ${to} storage...`)
+  try {
+    const report = await migrateWorkspaceStorage(workspace, from, to, ({ done, total, key }) => {
+      console.log(`[${done}/${total}] ${key}`)
+    })
+    console.log(
+      `Done: ${report.copied} copied (${(report.bytes / 1024 / 1024).toFixed(1)} MB), ` +
+      `${report.unchanged} already up to date, ${report.rewritten} with rewritten URLs, ` +
+      `${report.failed.length} failed`
+    )
+    for (const { key, error } of report.failed) {
+      console.error(`  FAILED ${key}: ${error}`)
+    }
+    return report.failed.length > 0 ? 1 : 0
+  } catch (error) {
+    console.error(error instanceof StorageMigrationError ? error.message : error)
+    return 1
+  }
+}
+
+process.exit(await main())
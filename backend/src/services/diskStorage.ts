@@ -49,6 +49,14 @@ export async function saveToDisk(
   await fs.writeFile(filePath, data)
 }
 
+// Copy a file on disk into storage without reading it into memory
+export async function saveFileToDisk(key: string, sourcePath: string): Promise<void> {
+  const filePath = resolvePath(key)
+  validatePath(filePath)
+  await ensureDir(filePath)
+  await fs.copyFile(sourcePath, filePath)
+}
+
 export async function loadFromDisk(key: string): Promise<string | null> {
   const filePath = resolvePath(key)
   validatePath(filePath)
@@ -79,6 +87,22 @@ export async function loadFromDiskAsBuffer(key: string): Promise<Buffer | null>
   }
 }
 
+// Copy a stored file to a path outside storage; returns false if it does not exist
+export async function loadFromDiskToFile(key: string, targetPath: string): Promise<boolean> {
+  const filePath = resolvePath(key)
+  validatePath(filePath)
+
+  try {
+    await fs.copyFile(filePath, targetPath)
+    return true
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false
+    }
+    throw error
+  }
+}
+
 export async function listFromDisk(prefix: string): Promise<string[]> {
   const storagePath = getStoragePath()
   const prefixPath = resolvePath(prefix)
@@ -155,6 +179,26 @@ export async function existsOnDisk(key: string): Promise<boolean> {
   }
 }
 
+export async function listWithModifiedFromDisk(prefix: string): Promise<Array<{ key: string; lastModified: Date | null }>> {
+  const keys = await listFromDisk(prefix)
+  return Promise.all(keys.map(async (key) => ({ key, lastModified: await getLastModifiedOnDisk(key) })))
+}
+
+export async function getLastModifiedOnDisk(key: string): Promise<Date | null> {
+  const filePath = resolvePath(key)
+  validatePath(filePath)
+
+  try {
+    const stat = await fs.stat(filePath)
+    return stat.mtime
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
 export function getLocalUrl(key: string): string {
   // Return a URL that will be served by the local files endpoint
   return `/api/local-files/${key}`
@@ -171,6 +215,13 @@ export function getContentTypeFromKey(key: string): string {
     '.jpeg': 'image/jpeg',
     '.gif': 'image/gif',
     '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.avif': 'image/avif',
+    '.heic': 'image/heic',
+    '.heif': 'image/heif',
+    '.tif': 'image/tiff',
+    '.tiff': 'image/tiff',
+    '.bmp': 'image/bmp',
     '.mp4': 'video/mp4',
     '.webm': 'video/webm',
     '.ogg': 'video/ogg',
@@ -0,0 +1,168 @@
+import sharp from 'sharp'
+import { escapeXml, getArrowSvgElement } from './svgOverlays.js'
+
+/**
+ * Markup drawn over an image item. Coordinates and sizes are in the item's own units
+ * (its width × height on the canvas, before scaleX/scaleY), so they're scaled to the
+ * image's pixels when baked.
+ */
+export type ImageAnnotation =
+  | { type: 'arrow'; x1: number; y1: number; x2: number; y2: number; color: string; strokeWidth: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; color: string; strokeWidth: number }
+  | { type: 'ellipse'; x: number; y: number; width: number; height: number; color: string; strokeWidth: number }
+  | { type: 'pen'; points: number[]; color: string; strokeWidth: number }  // flat x, y list
+  | { type: 'text'; x: number; y: number; text: string; color: string; fontSize: number }
+  | { type: 'step'; x: number; y: number; color: string; radius: number }  // numbered in list order
+  | { type: 'redact'; x: number; y: number; width: number; height: number; style: 'blur' | 'pixelate' }
+
+// The item size the annotations were drawn at
+export type AnnotationSpace = { width: number; height: number }
+
+// Every annotation is one SVG element, and each redaction a separate composite
+export const MAX_IMAGE_ANNOTATIONS = 200
+const MAX_PEN_POINTS = 5000
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isSize(value: unknown, min: number, max: number): boolean {
+  return isNumber(value) && value >= min && value <= max
+}
+
+function isColor(value: unknown): boolean {
+  return typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value)
+}
+
+function isValidImageAnnotation(annotation: unknown): boolean {
+  const a = (annotation ?? {}) as Record<string, unknown>
+  switch (a.type) {
+    case 'arrow':
+      return [a.x1, a.y1, a.x2, a.y2].every(isNumber) && isColor(a.color) && isSize(a.strokeWidth, 0.5, 100)
+    case 'rect':
+    case 'ellipse':
+      return [a.x, a.y, a.width, a.height].every(isNumber) && isColor(a.color) && isSize(a.strokeWidth, 0.5, 100)
+    case 'pen':
+      return Array.isArray(a.points) && a.points.length >= 4 && a.points.length % 2 === 0 &&
+        a.points.length <= MAX_PEN_POINTS * 2 && a.points.every(isNumber) &&
+        isColor(a.color) && isSize(a.strokeWidth, 0.5, 100)
+    case 'text':
+      return isNumber(a.x) && isNumber(a.y) && typeof a.text === 'string' && a.text.length > 0 &&
+        a.text.length <= 500 && isColor(a.color) && isSize(a.fontSize, 4, 400)
+    case 'step':
+      return isNumber(a.x) && isNumber(a.y) && isColor(a.color) && isSize(a.radius, 4, 200)
+    case 'redact':
+      return [a.x, a.y, a.width, a.height].every(isNumber) && (a.style === 'blur' || a.style === 'pixelate')
+    default:
+      return false
+  }
+}
+
+export function isValidImageAnnotationList(annotations: unknown): annotations is ImageAnnotation[] {
+  return Array.isArray(annotations) && annotations.length <= MAX_IMAGE_ANNOTATIONS &&
+    annotations.every(isValidImageAnnotation)
+}
+
+export function isValidAnnotationSpace(space: unknown): space is AnnotationSpace {
+  const s = (space ?? {}) as Record<string, unknown>
+  return isSize(s.width, 1, 1e6) && isSize(s.height, 1, 1e6)
+}
+
+function getAnnotationSvgElement(annotation: ImageAnnotation, stepNumber: number): string {
+  switch (annotation.type) {
+    case 'arrow': {
+      const { x1, y1, x2, y2, color, strokeWidth } = annotation
+      return getArrowSvgElement(x1, y1, x2, y2, color, strokeWidth)
+    }
+    case 'rect':
+      return `<rect x="${annotation.x}" y="${annotation.y}" width="${annotation.width}" height="${annotation.height}" ` +
+        `fill="none" stroke="${annotation.color}" stroke-width="${annotation.strokeWidth}"/>`
+    case 'ellipse':
+      return `<ellipse cx="${annotation.x + annotation.width / 2}" cy="${annotation.y + annotation.height / 2}" ` +
+        `rx="${annotation.width / 2}" ry="${annotation.height / 2}" ` +
+        `fill="none" stroke="${annotation.color}" stroke-width="${annotation.strokeWidth}"/>`
+    case 'pen': {
+      const points = []
+      for (let i = 0; i < annotation.points.length; i += 2) {
+        points.push(`${annotation.points[i]},${annotation.points[i + 1]}`)
+      }
+      return `<polyline points="${points.join(' ')}" fill="none" stroke="${annotation.color}" ` +
+        `stroke-width="${annotation.strokeWidth}" stroke-linecap="round" stroke-linejoin="round"/>`
+    }
+    case 'text': {
+      // (x, y) is the top-left of the first line, like the canvas's Konva text
+      const { x, y, fontSize, color } = annotation
+      const tspans = annotation.text.split('\n')
+        .map((line, i) => `<tspan x="${x}" y="${y + fontSize + i * fontSize * 1.25}">${escapeXml(line)}</tspan>`)
+        .join('')
+      return `<text font-family="sans-serif" font-size="${fontSize}" font-weight="bold" fill="${color}" ` +
+        `stroke="white" stroke-width="${fontSize / 8}" paint-order="stroke">${tspans}</text>`
+    }
+    case 'step': {
+      const { x, y, radius, color } = annotation
+      return `<circle cx="${x}" cy="${y}" r="${radius}" fill="${color}" stroke="white" stroke-width="${radius * 0.12}"/>` +
+        `<text x="${x}" y="${y + radius * 0.42}" font-family="sans-serif" font-size="${radius * 1.2}" ` +
+        `font-weight="bold" text-anchor="middle" fill="white">${stepNumber}</text>`
+    }
+    case 'redact':
+      return ''
+  }
+}
+
+// Blurred or pixelated copy of one redaction's region, in image pixels
+async function renderRedaction(
+  source: Buffer,
+  region: { left: number; top: number; width: number; height: number },
+  style: 'blur' | 'pixelate'
+): Promise<Buffer> {
+  const extracted = await sharp(source).extract(region).toBuffer()
+  if (style === 'blur') {
+    return sharp(extracted).blur(Math.max(4, Math.min(region.width, region.height) / 6)).toBuffer()
+  }
+  // Shrink, then scale back up without smoothing so each block is a single colour
+  const blockSize = Math.max(6, Math.round(Math.min(region.width, region.height) / 8))
+  const blocks = await sharp(extracted)
+    .resize(Math.max(1, Math.ceil(region.width / blockSize)), Math.max(1, Math.ceil(region.height / blockSize)), { fit: 'fill' })
+    .toBuffer()
+  return sharp(blocks).resize(region.width, region.height, { fit: 'fill', kernel: 'nearest' }).toBuffer()
+}
+
+/**
+ * Draw annotations onto an image and return it as a PNG. Redactions are applied first,
+ * so shapes drawn over a redacted area stay visible.
+ */
+export async function bakeImageAnnotations(
+  source: Buffer,
+  annotations: ImageAnnotation[],
+  space: AnnotationSpace
+): Promise<Buffer> {
+  const { width = 0, height = 0 } = await sharp(source).metadata()
+  const scaleX = width / space.width
+  const scaleY = height / space.height
+
+  const composites: sharp.OverlayOptions[] = []
+  for (const annotation of annotations) {
+    if (annotation.type !== 'redact') continue
+    // Normalize boxes drawn right-to-left or bottom-to-top, and keep them inside the image
+    const left = Math.max(0, Math.round(Math.min(annotation.x, annotation.x + annotation.width) * scaleX))
+    const top = Math.max(0, Math.round(Math.min(annotation.y, annotation.y + annotation.height) * scaleY))
+    const right = Math.min(width, Math.round(Math.max(annotation.x, annotation.x + annotation.width) * scaleX))
+    const bottom = Math.min(height, Math.round(Math.max(annotation.y, annotation.y + annotation.height) * scaleY))
+    if (right - left < 1 || bottom - top < 1) continue
+    const region = { left, top, width: right - left, height: bottom - top }
+    composites.push({ input: await renderRedaction(source, region, annotation.style), left, top })
+  }
+
+  let stepNumber = 0
+  const elements = annotations
+    .map((annotation) => getAnnotationSvgElement(annotation, annotation.type === 'step' ? ++stepNumber : 0))
+    .join('')
+  if (elements) {
+    // The viewBox maps item units onto the image's pixels
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+      `viewBox="0 0 ${space.width} ${space.height}" preserveAspectRatio="none">${elements}</svg>`
+    composites.push({ input: Buffer.from(svg), left: 0, top: 0 })
+  }
+
+  return sharp(source).composite(composites).png().toBuffer()
+}
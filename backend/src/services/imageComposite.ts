@@ -0,0 +1,188 @@
+import sharp from 'sharp'
+import { escapeXml } from './svgOverlays.js'
+
+// How tiles are arranged: in a row, a column, a grid, or where they sit on the canvas
+export type CompositeLayout = 'horizontal' | 'vertical' | 'grid' | 'canvas'
+
+export interface CompositeTile {
+  image: Buffer
+  // Size and position on the canvas (item size times its scale), in canvas units
+  x: number
+  y: number
+  width: number
+  height: number
+  rotation: number  // degrees clockwise about the top-left corner, used by the 'canvas' layout
+  label?: string
+}
+
+export interface CompositeOptions {
+  layout: CompositeLayout
+  gutter: number             // canvas units between tiles and around the edge
+  background: string | null  // #rrggbb, or null for transparent
+  labels: boolean            // write each tile's label under it
+  columns?: number           // for the 'grid' layout; defaults to a roughly square grid
+}
+
+export type CompositeResult = {
+  buffer: Buffer
+  width: number
+  height: number
+  scale: number  // output pixels per canvas unit
+}
+
+// Each tile is decoded and resized in memory before being composited
+export const MAX_COMPOSITE_TILES = 100
+const MAX_OUTPUT_DIMENSION = 16384
+const MAX_OUTPUT_PIXELS = 64_000_000
+
+export function isCompositeLayout(value: unknown): value is CompositeLayout {
+  return value === 'horizontal' || value === 'vertical' || value === 'grid' || value === 'canvas'
+}
+
+type Box = { left: number; top: number; width: number; height: number }
+
+// Bounding box of a tile rotated about its top-left corner, in canvas units
+function getRotatedBounds(tile: CompositeTile): Box {
+  const radians = (tile.rotation * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  const corners = [[0, 0], [tile.width, 0], [0, tile.height], [tile.width, tile.height]]
+    .map(([x, y]) => [tile.x + x * cos - y * sin, tile.y + x * sin + y * cos])
+  const xs = corners.map(([x]) => x)
+  const ys = corners.map(([, y]) => y)
+  const left = Math.min(...xs)
+  const top = Math.min(...ys)
+  return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top }
+}
+
+/**
+ * Where each tile goes, in canvas units, plus the size of the whole composite. Tiles are
+ * centred in their slot; the label band sits under each tile.
+ */
+function layoutTiles(tiles: CompositeTile[], options: CompositeOptions, labelBand: number) {
+  const { gutter } = options
+  const boxes: Box[] = []
+
+  if (options.layout === 'canvas') {
+    const bounds = tiles.map(getRotatedBounds)
+    const minX = Math.min(...bounds.map((b) => b.left))
+    const minY = Math.min(...bounds.map((b) => b.top))
+    const maxX = Math.max(...bounds.map((b) => b.left + b.width))
+    const maxY = Math.max(...bounds.map((b) => b.top + b.height + labelBand))
+    for (const b of bounds) {
+      boxes.push({ left: b.left - minX + gutter, top: b.top - minY + gutter, width: b.width, height: b.height })
+    }
+    return { boxes, width: maxX - minX + gutter * 2, height: maxY - minY + gutter * 2 }
+  }
+
+  const columns = options.layout === 'horizontal'
+    ? tiles.length
+    : options.layout === 'vertical'
+      ? 1
+      : Math.min(tiles.length, options.columns ?? Math.ceil(Math.sqrt(tiles.length)))
+  const rows = Math.ceil(tiles.length / columns)
+  const columnWidths = new Array<number>(columns).fill(0)
+  const rowHeights = new Array<number>(rows).fill(0)
+  tiles.forEach((tile, i) => {
+    const column = i % columns
+    const row = Math.floor(i / columns)
+    columnWidths[column] = Math.max(columnWidths[column], tile.width)
+    rowHeights[row] = Math.max(rowHeights[row], tile.height + labelBand)
+  })
+
+  tiles.forEach((tile, i) => {
+    const column = i % columns
+    const row = Math.floor(i / columns)
+    const cellLeft = gutter + columnWidths.slice(0, column).reduce((sum, w) => sum + w + gutter, 0)
+    const cellTop = gutter + rowHeights.slice(0, row).reduce((sum, h) => sum + h + gutter, 0)
+    boxes.push({
+      left: cellLeft + (columnWidths[column] - tile.width) / 2,
+      top: cellTop + (rowHeights[row] - labelBand - tile.height) / 2,
+      width: tile.width,
+      height: tile.height,
+    })
+  })
+  const width = columnWidths.reduce((sum, w) => sum + w, 0) + gutter * (columns + 1)
+  const height = rowHeights.reduce((sum, h) => sum + h, 0) + gutter * (rows + 1)
+  return { boxes, width, height }
+}
+
+/**
+ * Composite images into one PNG. The output resolution follows the sharpest tile, so no
+ * tile is scaled down more than its size on the canvas requires, up to a size limit.
+ */
+export async function composeImages(tiles: CompositeTile[], options: CompositeOptions): Promise<CompositeResult> {
+  const sources = await Promise.all(tiles.map((tile) => sharp(tile.image).metadata()))
+  const averageHeight = tiles.reduce((sum, tile) => sum + tile.height, 0) / tiles.length
+  const fontSize = Math.max(12, Math.round(averageHeight * 0.06))
+  const labelBand = options.labels ? fontSize * 1.8 : 0
+  const layout = layoutTiles(tiles, options, labelBand)
+
+  const density = Math.max(...sources.map((meta, i) => (meta.width ?? 0) / tiles[i].width))
+  const scale = Math.min(
+    density > 0 ? density : 1,
+    MAX_OUTPUT_DIMENSION / Math.max(layout.width, layout.height),
+    Math.sqrt(MAX_OUTPUT_PIXELS / (layout.width * layout.height))
+  )
+  const outputWidth = Math.max(1, Math.ceil(layout.width * scale))
+  const outputHeight = Math.max(1, Math.ceil(layout.height * scale))
+
+  const composites: sharp.OverlayOptions[] = []
+  for (let i = 0; i < tiles.length; i++) {
+    const tile = tiles[i]
+    const box = layout.boxes[i]
+    let image = sharp(tile.image).resize(
+      Math.max(1, Math.round(tile.width * scale)),
+      Math.max(1, Math.round(tile.height * scale)),
+      { fit: 'fill' }
+    )
+    if (options.layout === 'canvas' && tile.rotation % 360 !== 0) {
+      // Rotating expands the image to its bounding box, which is what the box is
+      image = sharp(await image.png().toBuffer()).rotate(tile.rotation, { background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    }
+    composites.push({
+      input: await image.png().toBuffer(),
+      left: Math.round(box.left * scale),
+      top: Math.round(box.top * scale),
+    })
+  }
+
+  if (options.labels) {
+    // Dark text unless the background is dark
+    const [r, g, b] = options.background
+      ? [1, 3, 5].map((i) => parseInt(options.background!.slice(i, i + 2), 16))
+      : [255, 255, 255]
+    const textColor = 0.299 * r + 0.587 * g + 0.114 * b < 128 ? '#ffffff' : '#222222'
+    const labels = tiles
+      .map((tile, i) => {
+        if (!tile.label) return ''
+        const box = layout.boxes[i]
+        return `<text x="${box.left + box.width / 2}" y="${box.top + box.height + fontSize * 1.3}" ` +
+          `text-anchor="middle">${escapeXml(tile.label)}</text>`
+      })
+      .join('')
+    // The viewBox maps canvas units onto output pixels, like the tile positions
+    composites.push({
+      input: Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${outputWidth}" height="${outputHeight}" ` +
+        `viewBox="0 0 ${outputWidth / scale} ${outputHeight / scale}">` +
+        `<g font-family="sans-serif" font-size="${fontSize}" fill="${textColor}">${labels}</g></svg>`
+      ),
+      left: 0,
+      top: 0,
+    })
+  }
+
+  const buffer = await sharp({
+    create: {
+      width: outputWidth,
+      height: outputHeight,
+      channels: 4,
+      background: options.background ?? { r: 0, g: 0, b: 0, alpha: 0 },
+    },
+  })
+    .composite(composites)
+    .png()
+    .toBuffer()
+  return { buffer, width: outputWidth, height: outputHeight, scale }
+}
@@ -0,0 +1,138 @@
+import sharp from 'sharp'
+
+// One step of an image item's edit stack. Steps apply in order, after the crop.
+export type ImageEdit =
+  | { type: 'rotate'; degrees: 90 | 180 | 270 }     // clockwise
+  | { type: 'flip'; direction: 'horizontal' | 'vertical' }
+  | { type: 'resize'; width: number; height: number } // output pixels
+  | { type: 'brightness'; amount: number }           // multiplier, 1 = unchanged
+  | { type: 'contrast'; amount: number }             // multiplier, 1 = unchanged
+  | { type: 'saturation'; amount: number }           // multiplier, 0 = no colour
+  | { type: 'grayscale' }
+  | { type: 'sharpen'; sigma: number }
+
+// Output format of the edited file; the original's format is never changed
+export type ImageEditFormat = 'png' | 'jpeg' | 'webp'
+
+export const IMAGE_EDIT_FORMAT_EXTENSIONS: Record<ImageEditFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+}
+
+const IMAGE_EDIT_FORMAT_MIME_TYPES: Record<ImageEditFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+}
+
+// Each step is a separate sharp pass, so keep stacks from growing without bound
+export const MAX_IMAGE_EDITS = 50
+// Larger than any camera sensor; guards resize against accidental huge outputs
+export const MAX_IMAGE_EDIT_DIMENSION = 16384
+
+function isAmount(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+}
+
+function isValidImageEdit(edit: unknown): boolean {
+  const e = (edit ?? {}) as Record<string, unknown>
+  switch (e.type) {
+    case 'rotate':
+      return e.degrees === 90 || e.degrees === 180 || e.degrees === 270
+    case 'flip':
+      return e.direction === 'horizontal' || e.direction === 'vertical'
+    case 'resize':
+      return Number.isInteger(e.width) && Number.isInteger(e.height) &&
+        isAmount(e.width, 1, MAX_IMAGE_EDIT_DIMENSION) && isAmount(e.height, 1, MAX_IMAGE_EDIT_DIMENSION)
+    case 'brightness':
+    case 'contrast':
+    case 'saturation':
+      return isAmount(e.amount, 0, 4)
+    case 'grayscale':
+      return true
+    case 'sharpen':
+      return isAmount(e.sigma, 0.3, 10)
+    default:
+      return false
+  }
+}
+
+export function isValidImageEditList(edits: unknown): edits is ImageEdit[] {
+  return Array.isArray(edits) && edits.length <= MAX_IMAGE_EDITS && edits.every(isValidImageEdit)
+}
+
+export function isImageEditFormat(value: unknown): value is ImageEditFormat {
+  return value === 'png' || value === 'jpeg' || value === 'webp'
+}
+
+export interface RenderImageEditsOptions {
+  cropRect?: { x: number; y: number; width: number; height: number }
+  edits?: ImageEdit[]
+  format?: ImageEditFormat
+  quality?: number  // 1-100, for jpeg and webp
+}
+
+export type RenderedImageEdits = {
+  buffer: Buffer
+  contentType: string
+  extension: string
+  width: number
+  height: number
+}
+
+function applyEdit(image: sharp.Sharp, edit: ImageEdit): sharp.Sharp {
+  switch (edit.type) {
+    case 'rotate':
+      return image.rotate(edit.degrees)
+    case 'flip':
+      // sharp's flip() mirrors top to bottom and flop() left to right
+      return edit.direction === 'vertical' ? image.flip() : image.flop()
+    case 'resize':
+      return image.resize(edit.width, edit.height, { fit: 'fill' })
+    case 'brightness':
+      return image.modulate({ brightness: edit.amount })
+    case 'contrast':
+      // Scale around mid-grey so the image doesn't also get brighter or darker
+      return image.linear(edit.amount, 128 * (1 - edit.amount))
+    case 'saturation':
+      return image.modulate({ saturation: edit.amount })
+    case 'grayscale':
+      return image.grayscale()
+    case 'sharpen':
+      return image.sharpen({ sigma: edit.sigma })
+  }
+}
+
+/**
+ * Render an image's crop and edit stack into a new file. Every step is run as its own
+ * pass because sharp applies one pipeline's operations in a fixed order of its own, not
+ * the order they were called in.
+ */
+export async function renderImageEdits(source: Buffer, options: RenderImageEditsOptions): Promise<RenderedImageEdits> {
+  let buffer = source
+  if (options.cropRect) {
+    const { x, y, width, height } = options.cropRect
+    buffer = await sharp(buffer)
+      .extract({ left: Math.round(x), top: Math.round(y), width: Math.round(width), height: Math.round(height) })
+      .png()
+      .toBuffer()
+  }
+  for (const edit of options.edits ?? []) {
+    buffer = await applyEdit(sharp(buffer), edit).png().toBuffer()
+  }
+
+  const format = options.format ?? 'png'
+  const output = sharp(buffer)
+  const encoded = format === 'png'
+    ? output.png()
+    : output.toFormat(format, { quality: options.quality ?? 85 })
+  const { data, info } = await encoded.toBuffer({ resolveWithObject: true })
+  return {
+    buffer: data,
+    contentType: IMAGE_EDIT_FORMAT_MIME_TYPES[format],
+    extension: IMAGE_EDIT_FORMAT_EXTENSIONS[format],
+    width: info.width,
+    height: info.height,
+  }
+}
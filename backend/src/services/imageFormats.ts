@@ -0,0 +1,217 @@
+import sharp from 'sharp'
+import decodeHeic from 'heic-decode'
+
+// Formats image items are stored and shown in as uploaded. SVG stays vector: the browser
+// draws it at whatever size the canvas needs, and it's rasterized only for processing.
+export const WEB_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg']
+
+// Formats converted to PNG or JPEG on upload; the uploaded file is kept next to the result
+export const CONVERTED_IMAGE_EXTENSIONS = ['heic', 'heif', 'avif', 'tif', 'tiff', 'bmp']
+
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  avif: 'image/avif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+}
+
+/**
+ * Headers for serving a stored file of this type. Uploaded SVGs can carry scripts, so they
+ * never run if the file is opened directly, and are downloaded rather than shown. Canvas
+ * images load them as <img>, which ignores both.
+ */
+export function getFileSecurityHeaders(contentType: string): Record<string, string> {
+  if (contentType !== 'image/svg+xml') return {}
+  return {
+    'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+    'Content-Disposition': 'attachment',
+  }
+}
+
+// Rasterized SVGs are drawn at least this large on their longer side, and at most 8x their size
+const SVG_RASTER_MIN_SIZE = 1024
+const SVG_MAX_DENSITY = 72 * 8
+
+export class ImageFormatError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+export type ConvertedImage = {
+  buffer: Buffer
+  extension: 'png' | 'jpg'
+  contentType: string
+  width: number
+  height: number
+}
+
+export function needsImageConversion(ext: string): boolean {
+  return CONVERTED_IMAGE_EXTENSIONS.includes(ext)
+}
+
+/**
+ * Name of the file an image was uploaded as, kept alongside the converted `{itemId}.png`
+ * or `.jpg` the item shows.
+ */
+export function getOriginalImageFilename(itemId: string, ext: string): string {
+  return `${itemId}.original.${ext}`
+}
+
+/**
+ * Decode an uncompressed (or bitfield) BMP into RGBA. The prebuilt libvips that ships with
+ * sharp has no BMP loader, and these are the variants real-world files use.
+ */
+function decodeBmp(buffer: Buffer): sharp.Sharp {
+  if (buffer.length < 54 || buffer.toString('latin1', 0, 2) !== 'BM') {
+    throw new ImageFormatError('Not a BMP file', 400)
+  }
+  const dataOffset = buffer.readUInt32LE(10)
+  const headerSize = buffer.readUInt32LE(14)
+  const width = buffer.readInt32LE(18)
+  const rawHeight = buffer.readInt32LE(22)
+  const bitsPerPixel = buffer.readUInt16LE(28)
+  const compression = buffer.readUInt32LE(30)
+  const colorsUsed = buffer.readUInt32LE(46)
+  const height = Math.abs(rawHeight)
+  const topDown = rawHeight < 0
+
+  const usesBitfields = compression === 3 || compression === 6
+  if (headerSize < 40 || width <= 0 || height === 0 || !(compression === 0 || usesBitfields) ||
+      ![1, 4, 8, 16, 24, 32].includes(bitsPerPixel)) {
+    throw new ImageFormatError('Only uncompressed BMP files are supported', 415)
+  }
+
+  // Channel masks: from the header (V4/V5) or just after it, else the defaults for the depth
+  let masks = bitsPerPixel === 16
+    ? [0x7c00, 0x03e0, 0x001f, 0]
+    : [0x00ff0000, 0x0000ff00, 0x000000ff, 0]
+  if (usesBitfields) {
+    masks = [0, 1, 2, 3].map((i) => (i < 3 || headerSize >= 56 || compression === 6 ? buffer.readUInt32LE(54 + i * 4) : 0))
+  }
+  const channels = masks.map((mask) => {
+    let shift = 0
+    while (mask && !((mask >>> shift) & 1)) shift++
+    return { mask, shift, max: mask ? mask >>> shift : 0 }
+  })
+
+  const paletteOffset = 14 + headerSize + (compression === 3 && headerSize === 40 ? 12 : 0)
+  const paletteSize = bitsPerPixel <= 8 ? colorsUsed || 1 << bitsPerPixel : 0
+  const stride = Math.floor((bitsPerPixel * width + 31) / 32) * 4
+  if (dataOffset + stride * height > buffer.length || paletteOffset + paletteSize * 4 > buffer.length) {
+    throw new ImageFormatError('BMP file is truncated', 400)
+  }
+
+  const pixels = Buffer.alloc(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const row = dataOffset + (topDown ? y : height - 1 - y) * stride
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4
+      if (bitsPerPixel <= 8) {
+        const bit = x * bitsPerPixel
+        const index = (buffer[row + (bit >> 3)] >> (8 - bitsPerPixel - (bit & 7))) & ((1 << bitsPerPixel) - 1)
+        const entry = paletteOffset + Math.min(index, paletteSize - 1) * 4
+        pixels[out] = buffer[entry + 2]
+        pixels[out + 1] = buffer[entry + 1]
+        pixels[out + 2] = buffer[entry]
+        pixels[out + 3] = 255
+      } else if (bitsPerPixel === 24) {
+        const offset = row + x * 3
+        pixels[out] = buffer[offset + 2]
+        pixels[out + 1] = buffer[offset + 1]
+        pixels[out + 2] = buffer[offset]
+        pixels[out + 3] = 255
+      } else {
+        const value = bitsPerPixel === 16 ? buffer.readUInt16LE(row + x * 2) : buffer.readUInt32LE(row + x * 4)
+        channels.forEach(({ mask, shift, max }, c) => {
+          // No alpha mask means opaque
+          pixels[out + c] = max ? Math.round((((value & mask) >>> shift) * 255) / max) : 255
+        })
+      }
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 4 } })
+}
+
+/**
+ * Convert an uploaded image the browser (or the LLM APIs) can't use into PNG or JPEG.
+ * Photos without transparency become JPEG; TIFF, BMP and anything with alpha become PNG.
+ * EXIF orientation is applied, and only the first page of a multi-page TIFF is kept.
+ */
+/**
+ * Decode a HEIC/HEIF image with libheif compiled to WebAssembly. The libvips that ships
+ * with sharp can't decode HEVC (only AVIF), so this is how HEIC photos are read unless
+ * sharp uses a system libvips that can. libheif applies the image's rotation and mirroring.
+ */
+async function decodeHeicImage(buffer: Buffer): Promise<sharp.Sharp> {
+  const { width, height, data } = await decodeHeic({ buffer })
+  return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 } })
+}
+
+async function encodeConverted(image: sharp.Sharp, lossless: boolean): Promise<ConvertedImage> {
+  const output = lossless ? image.png() : image.jpeg({ quality: 90 })
+  const { data, info } = await output.toBuffer({ resolveWithObject: true })
+  return {
+    buffer: data,
+    extension: lossless ? 'png' : 'jpg',
+    contentType: lossless ? 'image/png' : 'image/jpeg',
+    width: info.width,
+    height: info.height,
+  }
+}
+
+export async function convertImage(buffer: Buffer, ext: string): Promise<ConvertedImage> {
+  const isHeic = ext === 'heic' || ext === 'heif'
+  try {
+    const image = ext === 'bmp' ? decodeBmp(buffer) : sharp(buffer)
+    const metadata = await image.metadata()
+    const lossless = ext === 'bmp' || ext === 'tif' || ext === 'tiff' || !!metadata.hasAlpha
+    return await encodeConverted(image.rotate(), lossless)
+  } catch (error) {
+    if (error instanceof ImageFormatError) throw error
+    if (!isHeic) {
+      console.error(`Error converting ${ext} image:`, error)
+      throw new ImageFormatError(`Could not read the ${ext.toUpperCase()} image.`, 415)
+    }
+  }
+
+  try {
+    const image = await decodeHeicImage(buffer)
+    const { isOpaque } = await image.clone().stats()
+    return await encodeConverted(image, !isOpaque)
+  } catch (error) {
+    console.error(`Error converting ${ext} image:`, error)
+    throw new ImageFormatError(`Could not read the ${ext.toUpperCase()} image.`, 415)
+  }
+}
+
+/**
+ * Pixel size of an SVG at its own width and height (or viewBox), as browsers show it.
+ */
+export async function getSvgSize(buffer: Buffer): Promise<{ width: number; height: number } | null> {
+  try {
+    const { width, height } = await sharp(buffer).metadata()
+    return width && height ? { width, height } : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Render an SVG to PNG for processing that needs pixels, such as sending it to an LLM.
+ * Small drawings are rendered larger so detail survives.
+ */
+export async function rasterizeSvg(buffer: Buffer): Promise<Buffer> {
+  const size = await getSvgSize(buffer)
+  const longerSide = size ? Math.max(size.width, size.height) : SVG_RASTER_MIN_SIZE
+  const density = Math.min(SVG_MAX_DENSITY, Math.max(72, (72 * SVG_RASTER_MIN_SIZE) / longerSide))
+  return sharp(buffer, { density }).png().toBuffer()
+}
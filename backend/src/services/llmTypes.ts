@@ -1,14 +1,6 @@
 import { loadAsBuffer } from './storage.js'
-
-const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp']
-
-const MIME_TYPES: Record<string, string> = {
-  png: 'image/png',
-  jpg: 'image/jpeg',
-  jpeg: 'image/jpeg',
-  gif: 'image/gif',
-  webp: 'image/webp',
-}
+import { bakeImageAnnotations, ImageAnnotation, AnnotationSpace } from './imageAnnotations.js'
+import { WEB_IMAGE_EXTENSIONS, IMAGE_MIME_TYPES, rasterizeSvg } from './imageFormats.js'
 
 /** What the frontend sends in online mode */
 export interface LLMRequestItem {
@@ -18,6 +10,8 @@ export interface LLMRequestItem {
   sceneId?: string
   useEdited?: boolean
   fileFormat?: string
+  annotations?: ImageAnnotation[]  // baked into the image before it's sent
+  annotationSpace?: AnnotationSpace
 }
 
 /** What LLM services receive (images/PDFs already resolved to base64) */
@@ -30,47 +24,65 @@ export interface ResolvedContentItem {
 }
 
 /**
- * Load an image from storage and return its base64 data + mimeType.
+ * Load an image item's file from storage.
  * Tries multiple extensions (png, jpg, webp, etc.).
  * When useEdited is true, looks for the .crop.{ext} version first.
+ * SVGs are returned rasterized to PNG, since the models only take bitmaps.
  */
-export async function resolveImageData(
+export async function loadImageBuffer(
   workspace: string,
   sceneId: string,
   itemId: string,
   useEdited: boolean
-): Promise<{ base64: string; mimeType: string } | null> {
+): Promise<{ buffer: Buffer; mimeType: string } | null> {
   const sceneFolder = `${workspace}/${sceneId}`
 
   // If useEdited, try cropped versions first
   if (useEdited) {
-    for (const ext of IMAGE_EXTENSIONS) {
-      const key = `${sceneFolder}/${itemId}.crop.${ext}`
-      const buffer = await loadAsBuffer(key)
+    for (const ext of WEB_IMAGE_EXTENSIONS) {
+      const buffer = await loadAsBuffer(`${sceneFolder}/${itemId}.crop.${ext}`)
       if (buffer) {
-        return {
-          base64: buffer.toString('base64'),
-          mimeType: MIME_TYPES[ext] || 'image/png',
-        }
+        return { buffer, mimeType: IMAGE_MIME_TYPES[ext] }
       }
     }
   }
 
   // Try original versions
-  for (const ext of IMAGE_EXTENSIONS) {
-    const key = `${sceneFolder}/${itemId}.${ext}`
-    const buffer = await loadAsBuffer(key)
+  for (const ext of WEB_IMAGE_EXTENSIONS) {
+    const buffer = await loadAsBuffer(`${sceneFolder}/${itemId}.${ext}`)
     if (buffer) {
-      return {
-        base64: buffer.toString('base64'),
-        mimeType: MIME_TYPES[ext] || 'image/png',
+      if (ext === 'svg') {
+        return { buffer: await rasterizeSvg(buffer), mimeType: 'image/png' }
       }
+      return { buffer, mimeType: IMAGE_MIME_TYPES[ext] }
     }
   }
 
   return null
 }
 
+/**
+ * Load an image from storage and return its base64 data + mimeType, with its
+ * annotations baked in when there are any.
+ */
+export async function resolveImageData(
+  workspace: string,
+  sceneId: string,
+  itemId: string,
+  useEdited: boolean,
+  annotations?: ImageAnnotation[],
+  annotationSpace?: AnnotationSpace
+): Promise<{ base64: string; mimeType: string } | null> {
+  const image = await loadImageBuffer(workspace, sceneId, itemId, useEdited)
+  if (!image) return null
+
+  if (annotations?.length && annotationSpace) {
+    const baked = await bakeImageAnnotations(image.buffer, annotations, annotationSpace)
+    return { base64: baked.toString('base64'), mimeType: 'image/png' }
+  }
+  return { base64: image.buffer.toString('base64'), mimeType: image.mimeType }
+}
+
 /**
  * Load a PDF from storage and return its base64 data.
  */
@@ -0,0 +1,73 @@
+import ffmpeg from 'fluent-ffmpeg'
+import ffmpegStatic from 'ffmpeg-static'
+import ffprobeStatic from 'ffprobe-static'
+
+// Configure ffmpeg/ffprobe to use the bundled binaries
+if (ffmpegStatic) {
+  ffmpeg.setFfmpegPath(ffmpegStatic)
+}
+if (ffprobeStatic?.path) {
+  ffmpeg.setFfprobePath(ffprobeStatic.path)
+}
+
+// Browser-native video formats that don't need transcoding
+export const BROWSER_NATIVE_EXTENSIONS = new Set(['mp4', 'webm', 'ogg', 'ogv'])
+
+// MIME types for 3D model formats
+export const MODEL3D_MIME_TYPES: Record<string, string> = {
+  glb: 'model/gltf-binary',
+  gltf: 'model/gltf+json',
+  obj: 'text/plain',
+  stl: 'model/stl',
+  fbx: 'application/octet-stream',
+}
+
+// MIME types for Gaussian splat formats
+export const SPLAT_MIME_TYPES: Record<string, string> = {
+  splat: 'application/octet-stream',
+  ksplat: 'application/octet-stream',
+  ply: 'application/octet-stream',
+}
+
+// Audio item formats, all playable in browsers, and their MIME types
+export type AudioFormat = 'mp3' | 'wav' | 'ogg' | 'm4a'
+export const AUDIO_MIME_TYPES: Record<AudioFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+}
+
+export function isAudioFormat(ext: unknown): ext is AudioFormat {
+  return typeof ext === 'string' && Object.prototype.hasOwnProperty.call(AUDIO_MIME_TYPES, ext)
+}
+
+/**
+ * Lower-cased extension of an uploaded file name, with path separators stripped.
+ */
+export function getUploadExtension(filename: string | undefined, fallback: string): string {
+  let ext = fallback
+  if (filename) {
+    const dotIndex = filename.lastIndexOf('.')
+    if (dotIndex >= 0) ext = filename.slice(dotIndex + 1).toLowerCase()
+  }
+  return ext.replace(/[/\\]/g, '')
+}
+
+/**
+ * Transcode a video file to MP4 (H.264/AAC) with faststart for streaming.
+ */
+export function transcodeToMp4(inputPath: string, outputPath: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    ffmpeg(inputPath)
+      .outputOptions([
+        '-c:v', 'libx264', '-preset', 'fast', '-crf', '23',
+        '-c:a', 'aac', '-b:a', '128k',
+        '-movflags', '+faststart',
+      ])
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err) => reject(err))
+      .run()
+  })
+}
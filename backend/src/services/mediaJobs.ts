@@ -0,0 +1,235 @@
+import type { FfmpegCommand } from 'fluent-ffmpeg'
+import { v4 as uuidv4 } from 'uuid'
+
+// Background queue for long-running media work (ffmpeg encodes). Submitting returns a job
+// at once; clients poll it for progress and the result. Jobs live in memory: they survive
+// page reloads but not a server restart.
+
+export type MediaJobType = 'crop-video' | 'convert-media' | 'combine-videos' | 'trim-audio' | 'extract-audio'
+export type MediaJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled'
+
+export interface MediaJob {
+  id: string
+  type: MediaJobType
+  status: MediaJobStatus
+  progress: number | null  // 0..1 while running, null until ffmpeg reports any
+  sceneId: string
+  itemId: string
+  createdAt: string
+  updatedAt: string
+  result?: Record<string, unknown>
+  error?: string
+}
+
+export interface MediaJobContext {
+  signal: AbortSignal
+  setProgress(progress: number): void
+}
+
+type JobRunner = (context: MediaJobContext) => Promise<Record<string, unknown>>
+
+interface JobEntry {
+  workspace: string
+  job: MediaJob
+  run: JobRunner
+  controller: AbortController
+}
+
+export class MediaJobError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled')
+  }
+}
+
+// Reported to clients on failure unless the job threw a MediaJobError; the underlying error
+// (paths, ffmpeg output) is only logged
+const FAILURE_MESSAGES: Record<MediaJobType, string> = {
+  'crop-video': 'Failed to process video',
+  'convert-media': 'Failed to convert media',
+  'combine-videos': 'Failed to combine videos',
+  'trim-audio': 'Failed to trim audio',
+  'extract-audio': 'Failed to extract audio',
+}
+
+// ffmpeg saturates the CPU on its own, so by default jobs run one at a time
+const CONCURRENCY = Math.max(1, parseInt(process.env.MEDIA_JOB_CONCURRENCY || '1', 10) || 1)
+// Finished jobs are kept this long so a reloaded page can still pick up the result
+const RETENTION_MS = 24 * 60 * 60 * 1000
+
+const jobs = new Map<string, JobEntry>()
+const queue: JobEntry[] = []
+let running = 0
+
+function touch(entry: JobEntry, changes: Partial<MediaJob>): void {
+  Object.assign(entry.job, changes, { updatedAt: new Date().toISOString() })
+}
+
+function pruneFinishedJobs(): void {
+  const cutoff = Date.now() - RETENTION_MS
+  for (const [id, entry] of jobs) {
+    const finished = entry.job.status !== 'queued' && entry.job.status !== 'running'
+    if (finished && Date.parse(entry.job.updatedAt) < cutoff) {
+      jobs.delete(id)
+    }
+  }
+}
+
+async function runEntry(entry: JobEntry): Promise<void> {
+  touch(entry, { status: 'running' })
+  const context: MediaJobContext = {
+    signal: entry.controller.signal,
+    setProgress: (progress) => {
+      if (entry.job.status !== 'running') return
+      touch(entry, { progress: Math.min(1, Math.max(0, progress)) })
+    },
+  }
+  try {
+    const result = await entry.run(context)
+    if (entry.controller.signal.aborted) throw new JobCancelledError()
+    touch(entry, { status: 'done', progress: 1, result })
+  } catch (error) {
+    if (entry.controller.signal.aborted || error instanceof JobCancelledError) {
+      touch(entry, { status: 'cancelled' })
+    } else {
+      console.error(`Media job ${entry.job.id} (${entry.job.type}) failed:`, error)
+      const message = error instanceof MediaJobError ? error.message : FAILURE_MESSAGES[entry.job.type]
+      touch(entry, { status: 'failed', error: message })
+    }
+  }
+}
+
+function pump(): void {
+  while (running < CONCURRENCY && queue.length > 0) {
+    const entry = queue.shift()!
+    running++
+    runEntry(entry).finally(() => {
+      running--
+      pump()
+    })
+  }
+}
+
+/**
+ * Queue a job. `run` does the work, reporting progress through its context and
+ * stopping when the context's signal is aborted; what it returns becomes the job result.
+ */
+export function submitMediaJob(
+  workspace: string,
+  options: { type: MediaJobType; sceneId: string; itemId: string },
+  run: JobRunner
+): MediaJob {
+  pruneFinishedJobs()
+  const now = new Date().toISOString()
+  const entry: JobEntry = {
+    workspace,
+    job: {
+      id: uuidv4(),
+      type: options.type,
+      status: 'queued',
+      progress: null,
+      sceneId: options.sceneId,
+      itemId: options.itemId,
+      createdAt: now,
+      updatedAt: now,
+    },
+    run,
+    controller: new AbortController(),
+  }
+  jobs.set(entry.job.id, entry)
+  queue.push(entry)
+  pump()
+  return entry.job
+}
+
+export function getMediaJob(workspace: string, id: string): MediaJob {
+  const entry = jobs.get(id)
+  if (!entry || entry.workspace !== workspace) {
+    throw new MediaJobError('Job not found', 404)
+  }
+  return entry.job
+}
+
+export function listMediaJobs(workspace: string): MediaJob[] {
+  return [...jobs.values()]
+    .filter((entry) => entry.workspace === workspace)
+    .map((entry) => entry.job)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export function cancelMediaJob(workspace: string, id: string): MediaJob {
+  const job = getMediaJob(workspace, id)
+  const entry = jobs.get(id)!
+  if (job.status === 'queued') {
+    queue.splice(queue.indexOf(entry), 1)
+    touch(entry, { status: 'cancelled' })
+  } else if (job.status === 'running') {
+    entry.controller.abort()
+  } else {
+    throw new MediaJobError(`Job is already ${job.status}`, 409)
+  }
+  return job
+}
+
+function parseTimemark(timemark: string): number {
+  const [h, m, s] = timemark.split(':').map(Number)
+  return (h || 0) * 3600 + (m || 0) * 60 + (s || 0)
+}
+
+/**
+ * Run an ffmpeg command as (part of) a job: its progress is mapped into [from, to] of the
+ * job's progress, and cancelling the job kills ffmpeg. `outputDuration` (seconds) gives
+ * accurate progress when the output is shorter or longer than the input, e.g. after a
+ * trim or speed change; otherwise ffmpeg's own estimate is used.
+ */
+export function runFfmpegJobStep(
+  command: FfmpegCommand,
+  context: MediaJobContext,
+  options: { outputDuration?: number; from?: number; to?: number } = {}
+): Promise<void> {
+  const { outputDuration, from = 0, to = 1 } = options
+  return new Promise<void>((resolve, reject) => {
+    if (context.signal.aborted) return reject(new JobCancelledError())
+    const onAbort = () => command.kill('SIGKILL')
+    context.signal.addEventListener('abort', onAbort, { once: true })
+
+    command
+      .on('progress', (progress: { percent?: number; timemark?: string }) => {
+        let fraction: number | undefined
+        if (outputDuration && progress.timemark) {
+          fraction = parseTimemark(progress.timemark) / outputDuration
+        } else if (typeof progress.percent === 'number') {
+          fraction = progress.percent / 100
+        }
+        if (fraction !== undefined && Number.isFinite(fraction)) {
+          context.setProgress(from + (to - from) * Math.min(1, Math.max(0, fraction)))
+        }
+      })
+      .on('end', () => {
+        context.signal.removeEventListener('abort', onAbort)
+        context.setProgress(to)
+        resolve()
+      })
+      .on('error', (err) => {
+        context.signal.removeEventListener('abort', onAbort)
+        reject(context.signal.aborted ? new JobCancelledError() : err)
+      })
+      .run()
+  })
+}
+
+/**
+ * A view of a job context whose progress covers only [from, to] of the job, for
+ * multi-step work where each step reports its own 0..1 progress.
+ */
+export function withProgressRange(context: MediaJobContext, from: number, to: number): MediaJobContext {
+  return {
+    signal: context.signal,
+    setProgress: (progress) => context.setProgress(from + (to - from) * progress),
+  }
+}
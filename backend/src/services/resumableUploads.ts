@@ -0,0 +1,470 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import { v4 as uuidv4 } from 'uuid'
+import { getStorageMode, getStorageService, getStorageServiceForMode, StorageMode } from './storage.js'
+import * as s3 from './s3.js'
+import { getS3ConfigStatus } from './s3.js'
+import {
+  AUDIO_MIME_TYPES,
+  BROWSER_NATIVE_EXTENSIONS,
+  MODEL3D_MIME_TYPES,
+  SPLAT_MIME_TYPES,
+  getUploadExtension,
+  isAudioFormat,
+  transcodeToMp4,
+} from './mediaFiles.js'
+import {
+  IMAGE_MIME_TYPES,
+  ImageFormatError,
+  convertImage,
+  getOriginalImageFilename,
+  needsImageConversion,
+} from './imageFormats.js'
+
+export type UploadKind = 'image' | 'video' | 'model3d' | 'splat' | 'audio'
+export const UPLOAD_KINDS: UploadKind[] = ['image', 'video', 'model3d', 'splat', 'audio']
+
+const DEFAULT_EXTENSIONS: Record<UploadKind, string> = {
+  image: 'png',
+  video: 'mp4',
+  model3d: 'glb',
+  splat: 'splat',
+  audio: 'mp3',
+}
+
+// Chunks double as S3 multipart parts, which must be at least 5MB (except the last)
+// and number at most 10000
+const CHUNK_SIZE = 16 * 1024 * 1024
+const MAX_CHUNKS = 10000
+const MAX_UPLOAD_BYTES = (parseInt(process.env.UPLOAD_MAX_SIZE_MB || '', 10) || 20480) * 1024 * 1024
+
+// Sessions untouched for this long are aborted and their partial data deleted
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+// How often expired sessions (and multipart uploads and temp files left without one) are cleaned up
+const PURGE_INTERVAL_MS = 60 * 60 * 1000
+const PART_URL_EXPIRES = 6 * 60 * 60
+
+// Let browsers PUT parts straight to the bucket (needs a bucket CORS rule allowing PUT)
+const DIRECT_UPLOADS = process.env.S3_DIRECT_UPLOADS === 'true'
+
+const TEMP_DIR = path.join(os.tmpdir(), 'gsworkspace-uploads')
+
+// Session records are kept in storage, so uploads can be resumed after a server restart
+const SESSIONS_PREFIX = 'temp/uploads/'
+
+export class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+export interface UploadResult {
+  url: string
+  transcoded?: boolean
+  // Set when an image was converted to a web format; the upload is kept at originalUrl
+  originalUrl?: string
+  width?: number
+  height?: number
+  fileSize?: number
+}
+
+export interface UploadSessionInfo {
+  uploadId: string
+  size: number
+  chunkSize: number
+  chunkCount: number
+  direct: boolean  // parts go to presigned S3 URLs instead of the chunk endpoint
+  receivedChunks: number[]
+}
+
+interface UploadSession {
+  id: string
+  workspace: string
+  key: string
+  contentType: string
+  size: number
+  chunkSize: number
+  chunkCount: number
+  storageMode: StorageMode
+  transcode: boolean
+  convertImage: boolean
+  // Chunks go either into an S3 multipart upload or into a temp file assembled on this server
+  s3UploadId?: string
+  tempPath?: string
+  receivedChunks: Set<number>  // temp file sessions only; S3 is asked via ListParts
+  updatedAt: number
+  completing?: Promise<UploadResult>
+  result?: UploadResult
+}
+
+// The stored form of a session: everything but the in-progress completion
+type StoredUploadSession = Omit<UploadSession, 'receivedChunks' | 'completing'> & { receivedChunks: number[] }
+
+// Sessions used since this server started; others are loaded from storage on first use
+const sessions = new Map<string, UploadSession>()
+
+export function getMaxChunkSize(): number {
+  return Math.max(CHUNK_SIZE, Math.ceil(MAX_UPLOAD_BYTES / MAX_CHUNKS))
+}
+
+function getContentType(kind: UploadKind, ext: string, clientType: string | undefined): string {
+  switch (kind) {
+    case 'image':
+      return IMAGE_MIME_TYPES[ext] || `image/${ext}`
+    case 'video':
+      return clientType?.startsWith('video/') ? clientType : 'video/mp4'
+    case 'model3d':
+      return MODEL3D_MIME_TYPES[ext] || 'application/octet-stream'
+    case 'splat':
+      return SPLAT_MIME_TYPES[ext] || 'application/octet-stream'
+    case 'audio':
+      return isAudioFormat(ext) ? AUDIO_MIME_TYPES[ext] : 'application/octet-stream'
+  }
+}
+
+function getChunkLength(session: UploadSession, index: number): number {
+  return Math.min(session.chunkSize, session.size - index * session.chunkSize)
+}
+
+function getSessionKey(id: string): string {
+  return `${SESSIONS_PREFIX}${id}.json`
+}
+
+async function persistSession(session: UploadSession): Promise<void> {
+  const { completing: _completing, receivedChunks, ...rest } = session
+  const stored: StoredUploadSession = { ...rest, receivedChunks: [...receivedChunks] }
+  await getStorageServiceForMode(session.storageMode).save(getSessionKey(session.id), JSON.stringify(stored), 'application/json')
+}
+
+async function loadSession(id: string): Promise<UploadSession | null> {
+  const cached = sessions.get(id)
+  if (cached) return cached
+  const raw = await getStorageService().load(getSessionKey(id))
+  if (!raw) return null
+  const stored: StoredUploadSession = JSON.parse(raw)
+  // Another request may have loaded it while this one was reading
+  const session = sessions.get(id) ?? { ...stored, receivedChunks: new Set(stored.receivedChunks) }
+  sessions.set(id, session)
+  return session
+}
+
+async function getSession(workspace: string, id: string): Promise<UploadSession> {
+  let session: UploadSession | null = null
+  try {
+    session = await loadSession(id)
+  } catch (error) {
+    console.error(`Failed to load upload session ${id}:`, error)
+  }
+  if (!session || session.workspace !== workspace) {
+    throw new UploadError('Upload not found', 404)
+  }
+  session.updatedAt = Date.now()
+  return session
+}
+
+async function discardSession(session: UploadSession): Promise<void> {
+  sessions.delete(session.id)
+  await getStorageServiceForMode(session.storageMode).delete(getSessionKey(session.id)).catch((error) =>
+    console.error(`Failed to delete upload session ${session.id}:`, error)
+  )
+  if (session.s3UploadId && !session.result) {
+    await s3.abortMultipartUpload(session.key, session.s3UploadId).catch((error) =>
+      console.error(`Failed to abort multipart upload for ${session.key}:`, error)
+    )
+  }
+  if (session.tempPath) {
+    await fs.promises.rm(session.tempPath, { force: true })
+  }
+}
+
+/**
+ * Discard expired sessions, then abort S3 multipart uploads and delete temp files that
+ * have been left without a session (e.g. by a crash) for longer than a session lives.
+ */
+async function purgeExpiredUploads(): Promise<void> {
+  const cutoff = Date.now() - SESSION_TTL_MS
+  const storage = getStorageService()
+
+  const liveIds = new Set<string>()
+  const liveS3UploadIds = new Set<string>()
+  for (const key of await storage.list(SESSIONS_PREFIX)) {
+    const id = path.posix.basename(key, '.json')
+    let session: UploadSession | null = null
+    try {
+      session = await loadSession(id)
+    } catch (error) {
+      console.error(`Discarding unreadable upload session ${key}:`, error)
+      await storage.delete(key)
+      continue
+    }
+    if (!session) continue
+    if (session.updatedAt < cutoff && !session.completing) {
+      await discardSession(session)
+      continue
+    }
+    liveIds.add(session.id)
+    if (session.s3UploadId) liveS3UploadIds.add(session.s3UploadId)
+  }
+  // Sessions kept in the other storage mode's store
+  for (const session of sessions.values()) {
+    liveIds.add(session.id)
+    if (session.s3UploadId) liveS3UploadIds.add(session.s3UploadId)
+  }
+
+  if (getS3ConfigStatus().configured) {
+    for (const upload of await s3.listMultipartUploads()) {
+      // Other multipart uploads (large saves) are short-lived, so anything this old is abandoned
+      if (liveS3UploadIds.has(upload.uploadId) || !upload.initiated || upload.initiated.getTime() >= cutoff) continue
+      console.log(`Aborting abandoned multipart upload for ${upload.key}`)
+      await s3.abortMultipartUpload(upload.key, upload.uploadId).catch((error) =>
+        console.error(`Failed to abort multipart upload for ${upload.key}:`, error)
+      )
+    }
+  }
+
+  let tempFiles: string[] = []
+  try {
+    tempFiles = await fs.promises.readdir(TEMP_DIR)
+  } catch {
+    // No uploads have used the temp folder yet
+  }
+  for (const file of tempFiles) {
+    if (liveIds.has(file.replace(/\..*$/, ''))) continue
+    const filePath = path.join(TEMP_DIR, file)
+    const stat = await fs.promises.stat(filePath).catch(() => null)
+    if (stat && stat.mtimeMs < cutoff) {
+      await fs.promises.rm(filePath, { force: true })
+    }
+  }
+}
+
+/**
+ * Clean up expired and abandoned uploads now and then periodically, for the life of the server.
+ */
+export function startUploadCleanup(): void {
+  const run = () => purgeExpiredUploads().catch((error) => console.error('Failed to clean up uploads:', error))
+  run()
+  setInterval(run, PURGE_INTERVAL_MS).unref()
+}
+
+async function getReceivedChunks(session: UploadSession): Promise<number[]> {
+  if (!session.s3UploadId) {
+    return [...session.receivedChunks].sort((a, b) => a - b)
+  }
+  const parts = await s3.listUploadedParts(session.key, session.s3UploadId)
+  // A part with the wrong size (e.g. a truncated retry) counts as missing
+  return parts
+    .map((part) => ({ index: part.partNumber - 1, size: part.size }))
+    .filter(({ index, size }) => index < session.chunkCount && size === getChunkLength(session, index))
+    .map(({ index }) => index)
+    .sort((a, b) => a - b)
+}
+
+async function toInfo(session: UploadSession): Promise<UploadSessionInfo> {
+  return {
+    uploadId: session.id,
+    size: session.size,
+    chunkSize: session.chunkSize,
+    chunkCount: session.chunkCount,
+    direct: !!session.s3UploadId && DIRECT_UPLOADS,
+    receivedChunks: await getReceivedChunks(session),
+  }
+}
+
+/**
+ * Start a chunked upload of one item file into a scene folder. In online mode chunks become
+ * parts of an S3 multipart upload; in local mode (and for videos and images that need
+ * converting) they are written into a temp file on this server.
+ */
+export async function createUpload(
+  workspace: string,
+  options: { sceneId: string; itemId: string; kind: UploadKind; filename?: string; size: number; contentType?: string }
+): Promise<UploadSessionInfo> {
+  const { sceneId, itemId, kind, filename, size } = options
+  if (!Number.isSafeInteger(size) || size <= 0) {
+    throw new UploadError('size must be a positive integer', 400)
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(`File exceeds the ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)}MB upload limit`, 413)
+  }
+  const ext = getUploadExtension(filename, DEFAULT_EXTENSIONS[kind])
+  if (kind === 'audio' && !isAudioFormat(ext)) {
+    throw new UploadError('Audio must be mp3, wav, ogg or m4a', 400)
+  }
+  const chunkSize = Math.max(CHUNK_SIZE, Math.ceil(size / MAX_CHUNKS))
+  const session: UploadSession = {
+    id: uuidv4(),
+    workspace,
+    key: `${workspace}/${sceneId}/${itemId}.${ext}`,
+    contentType: getContentType(kind, ext, options.contentType),
+    size,
+    chunkSize,
+    chunkCount: Math.ceil(size / chunkSize),
+    storageMode: getStorageMode(),
+    transcode: kind === 'video' && !BROWSER_NATIVE_EXTENSIONS.has(ext),
+    convertImage: kind === 'image' && needsImageConversion(ext),
+    receivedChunks: new Set(),
+    updatedAt: Date.now(),
+  }
+
+  if (session.storageMode === 'online' && !session.transcode && !session.convertImage) {
+    session.s3UploadId = await s3.createMultipartUpload(session.key, session.contentType)
+  } else {
+    await fs.promises.mkdir(TEMP_DIR, { recursive: true })
+    session.tempPath = path.join(TEMP_DIR, `${session.id}.part`)
+    await fs.promises.writeFile(session.tempPath, '')
+  }
+
+  sessions.set(session.id, session)
+  await persistSession(session)
+  return toInfo(session)
+}
+
+export async function getUploadStatus(workspace: string, id: string): Promise<UploadSessionInfo> {
+  return toInfo(await getSession(workspace, id))
+}
+
+/**
+ * Store one chunk. Chunks may arrive in any order and be re-sent; a repeated chunk
+ * simply overwrites the earlier copy.
+ */
+export async function writeUploadChunk(workspace: string, id: string, index: number, data: Buffer): Promise<void> {
+  const session = await getSession(workspace, id)
+  if (session.result || session.completing) {
+    throw new UploadError('Upload is already complete', 409)
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= session.chunkCount) {
+    throw new UploadError('Chunk index out of range', 400)
+  }
+  const expected = getChunkLength(session, index)
+  if (data.length !== expected) {
+    throw new UploadError(`Chunk ${index} must be ${expected} bytes, got ${data.length}`, 400)
+  }
+
+  if (session.s3UploadId) {
+    await s3.uploadPartToS3(session.key, session.s3UploadId, index + 1, data)
+  } else {
+    const handle = await fs.promises.open(session.tempPath!, 'r+')
+    try {
+      await handle.write(data, 0, data.length, index * session.chunkSize)
+    } finally {
+      await handle.close()
+    }
+    session.receivedChunks.add(index)
+  }
+  // Records the chunk (temp file sessions) and keeps the session from expiring. Saves can
+  // land out of order when chunks arrive in parallel; a chunk missing from the record is
+  // just asked for again after a restart.
+  await persistSession(session)
+}
+
+/**
+ * Presigned URLs for uploading chunks straight to S3, keyed by chunk index.
+ */
+export async function getUploadPartUrls(
+  workspace: string,
+  id: string,
+  indexes: number[]
+): Promise<Record<number, string>> {
+  const session = await getSession(workspace, id)
+  if (!session.s3UploadId || !DIRECT_UPLOADS) {
+    throw new UploadError('This upload does not accept direct part uploads', 400)
+  }
+  const urls: Record<number, string> = {}
+  for (const index of indexes) {
+    if (!Number.isInteger(index) || index < 0 || index >= session.chunkCount) {
+      throw new UploadError('Chunk index out of range', 400)
+    }
+    urls[index] = await s3.getPresignedPartUrl(session.key, session.s3UploadId, index + 1, PART_URL_EXPIRES)
+  }
+  // Direct parts bypass this server, so this is what keeps the session from expiring
+  await persistSession(session)
+  return urls
+}
+
+async function finishUpload(session: UploadSession): Promise<UploadResult> {
+  const received = await getReceivedChunks(session)
+  if (received.length !== session.chunkCount) {
+    throw new UploadError(`Upload is missing ${session.chunkCount - received.length} chunk(s)`, 409)
+  }
+
+  const storage = getStorageServiceForMode(session.storageMode)
+  if (session.s3UploadId) {
+    await s3.completeMultipartUpload(session.key, session.s3UploadId)
+    return { url: storage.getPublicUrl(session.key) }
+  }
+
+  if (session.transcode) {
+    const outputPath = path.join(TEMP_DIR, `${session.id}.mp4`)
+    try {
+      console.log(`Transcoding uploaded video: ${session.key}, size: ${session.size} bytes`)
+      await transcodeToMp4(session.tempPath!, outputPath)
+      const key = session.key.replace(/\.[^./]+$/, '.mp4')
+      await storage.saveFile(key, outputPath, 'video/mp4')
+      return { url: storage.getPublicUrl(key), transcoded: true }
+    } finally {
+      await fs.promises.rm(outputPath, { force: true })
+    }
+  }
+
+  if (session.convertImage) {
+    const ext = path.extname(session.key).slice(1)
+    let converted
+    try {
+      converted = await convertImage(await fs.promises.readFile(session.tempPath!), ext)
+    } catch (error) {
+      if (error instanceof ImageFormatError) throw new UploadError(error.message, error.status)
+      throw error
+    }
+    const folder = path.posix.dirname(session.key)
+    const itemId = path.posix.basename(session.key, `.${ext}`)
+    const originalKey = `${folder}/${getOriginalImageFilename(itemId, ext)}`
+    const key = `${folder}/${itemId}.${converted.extension}`
+    await storage.saveFile(originalKey, session.tempPath!, session.contentType)
+    await storage.save(key, converted.buffer, converted.contentType)
+    return {
+      url: storage.getPublicUrl(key),
+      originalUrl: storage.getPublicUrl(originalKey),
+      width: converted.width,
+      height: converted.height,
+      fileSize: converted.buffer.length,
+    }
+  }
+
+  await storage.saveFile(session.key, session.tempPath!, session.contentType)
+  return { url: storage.getPublicUrl(session.key) }
+}
+
+/**
+ * Assemble the uploaded chunks into the item file. Safe to call again after a lost
+ * response: the result is kept until the session expires.
+ */
+export async function completeUpload(workspace: string, id: string): Promise<UploadResult> {
+  const session = await getSession(workspace, id)
+  if (session.result) return session.result
+  if (!session.completing) {
+    session.completing = finishUpload(session)
+      .then(async (result) => {
+        session.result = result
+        if (session.tempPath) {
+          await fs.promises.rm(session.tempPath, { force: true })
+        }
+        await persistSession(session)
+        console.log(`Upload complete: ${session.key}`)
+        return result
+      })
+      .finally(() => {
+        session.completing = undefined
+      })
+  }
+  return session.completing
+}
+
+export async function abortUpload(workspace: string, id: string): Promise<void> {
+  const session = await getSession(workspace, id)
+  if (session.completing) {
+    throw new UploadError('Upload is being completed', 409)
+  }
+  await discardSession(session)
+}
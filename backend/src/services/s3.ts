@@ -5,7 +5,17 @@ import {
   ListObjectsV2Command,
   DeleteObjectCommand,
   HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListMultipartUploadsCommand,
 } from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import * as fs from 'fs'
 import dotenv from 'dotenv'
 
 // Ensure env is loaded (may be called before index.ts loads it)
@@ -14,6 +24,34 @@ dotenv.config()
 const BUCKET_NAME = process.env.S3_BUCKET_NAME || ''
 const REGION = process.env.AWS_REGION || 'us-east-1'
 
+// S3-compatible services (MinIO, R2, ...) are reached through a custom endpoint,
+// usually with path-style addressing (http://host:9000/bucket/key)
+const ENDPOINT = (process.env.S3_ENDPOINT || '').replace(/\/+$/, '')
+const FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE === 'true'
+
+// Optional browser-facing base URL for objects (CDN, reverse proxy); used in 'public' URL mode
+const PUBLIC_BASE_URL = (process.env.S3_PUBLIC_URL || '').replace(/\/+$/, '')
+
+// How media URLs handed to the browser reach the bucket:
+//   public    - direct bucket (or S3_PUBLIC_URL) URLs; the bucket must allow public reads
+//   presigned - a backend URL that redirects to a short-lived presigned GET URL
+//   proxy     - a backend URL that streams the object through the server
+export type S3UrlMode = 'public' | 'presigned' | 'proxy'
+const S3_URL_MODES: S3UrlMode[] = ['public', 'presigned', 'proxy']
+
+function parseUrlMode(value: string | undefined): S3UrlMode {
+  if (!value) return 'public'
+  if ((S3_URL_MODES as string[]).includes(value)) return value as S3UrlMode
+  console.warn(`Unknown S3_URL_MODE "${value}", falling back to "public"`)
+  return 'public'
+}
+
+const URL_MODE = parseUrlMode(process.env.S3_URL_MODE)
+const PRESIGNED_URL_EXPIRES = parseInt(process.env.S3_PRESIGNED_URL_EXPIRES || '', 10) || 3600
+
+// App route that serves objects in 'presigned' and 'proxy' URL modes
+export const S3_FILES_PREFIX = '/api/s3-files/'
+
 const hasCredentials =
   process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY
 
@@ -37,13 +75,22 @@ export function getS3ConfigStatus(): { configured: boolean; message?: string } {
   if (!process.env.AWS_SECRET_ACCESS_KEY || isPlaceholder(process.env.AWS_SECRET_ACCESS_KEY)) {
     return { configured: false, message: 'AWS_SECRET_ACCESS_KEY not configured' }
   }
+  if (ENDPOINT && !/^https?:\/\//.test(ENDPOINT)) {
+    return { configured: false, message: 'S3_ENDPOINT must start with http:// or https://' }
+  }
   return { configured: true }
 }
 
+export function getS3UrlMode(): S3UrlMode {
+  return URL_MODE
+}
+
 // For authenticated requests, use the SDK
 const s3Client = hasCredentials
   ? new S3Client({
       region: REGION,
+      ...(ENDPOINT ? { endpoint: ENDPOINT } : {}),
+      forcePathStyle: FORCE_PATH_STYLE,
       credentials: {
         accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
         secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
@@ -51,14 +98,71 @@ const s3Client = hasCredentials
     })
   : null
 
+// Base URL of the bucket itself, in virtual-hosted or path-style form
+function getBucketUrl(): string {
+  if (ENDPOINT) {
+    if (FORCE_PATH_STYLE) return `${ENDPOINT}/${BUCKET_NAME}`
+    const endpoint = new URL(ENDPOINT)
+    return `${endpoint.protocol}//${BUCKET_NAME}.${endpoint.host}${endpoint.pathname.replace(/\/+$/, '')}`
+  }
+  return FORCE_PATH_STYLE
+    ? `https://s3.${REGION}.amazonaws.com/${BUCKET_NAME}`
+    : `https://${BUCKET_NAME}.s3.${REGION}.amazonaws.com`
+}
+
+const BUCKET_URL = BUCKET_NAME ? getBucketUrl() : ''
+
 // Build the S3 URL for direct HTTP access
 function getS3Url(key: string): string {
-  return `https://${BUCKET_NAME}.s3.${REGION}.amazonaws.com/${key}`
+  return `${BUCKET_URL}/${key}`
 }
 
-// Get public URL for an object
+// Get the URL the browser should use for an object
 export function getPublicUrl(key: string): string {
-  return getS3Url(key)
+  if (URL_MODE !== 'public') {
+    return `${S3_FILES_PREFIX}${key}`
+  }
+  return `${PUBLIC_BASE_URL || BUCKET_URL}/${key}`
+}
+
+/**
+ * Storage key of an object URL handed out by this server, or null if the URL is not ours.
+ * Recognizes every form getPublicUrl may have produced, including the plain AWS URLs
+ * written before custom endpoints and URL modes existed.
+ */
+export function getKeyFromS3Url(url: string): string | null {
+  const path = url.split(/[?#]/)[0]
+  if (path.startsWith(S3_FILES_PREFIX)) {
+    return path.slice(S3_FILES_PREFIX.length) || null
+  }
+  if (!BUCKET_NAME) return null
+  const prefixes = [
+    PUBLIC_BASE_URL,
+    BUCKET_URL,
+    `https://${BUCKET_NAME}.s3.${REGION}.amazonaws.com`,
+  ].filter(Boolean)
+  for (const prefix of prefixes) {
+    if (path.startsWith(`${prefix}/`)) {
+      return path.slice(prefix.length + 1) || null
+    }
+  }
+  return null
+}
+
+/**
+ * Short-lived GET URL for an object in a private bucket.
+ */
+export async function getPresignedUrl(key: string): Promise<string> {
+  if (!s3Client) {
+    return getS3Url(key)
+  }
+  return getSignedUrl(s3Client, new GetObjectCommand({ Bucket: BUCKET_NAME, Key: key }), {
+    expiresIn: PRESIGNED_URL_EXPIRES,
+  })
+}
+
+export function getPresignedUrlExpiry(): number {
+  return PRESIGNED_URL_EXPIRES
 }
 
 export async function saveToS3(
@@ -90,6 +194,54 @@ export async function saveToS3(
   }
 }
 
+// Files up to this size are sent with a single PUT; larger ones as a multipart upload
+const SINGLE_PUT_MAX_BYTES = 100 * 1024 * 1024
+const MIN_PART_SIZE = 64 * 1024 * 1024
+const MAX_PARTS = 10000
+
+/**
+ * Upload a file from disk without holding all of it in memory.
+ */
+export async function saveFileToS3(
+  key: string,
+  filePath: string,
+  contentType = 'application/octet-stream'
+): Promise<void> {
+  const { size } = await fs.promises.stat(filePath)
+  if (!s3Client) {
+    return saveToS3(key, await fs.promises.readFile(filePath), contentType)
+  }
+  if (size <= SINGLE_PUT_MAX_BYTES) {
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        Body: fs.createReadStream(filePath),
+        ContentLength: size,
+        ContentType: contentType,
+      })
+    )
+    return
+  }
+
+  const partSize = Math.max(MIN_PART_SIZE, Math.ceil(size / MAX_PARTS))
+  const uploadId = await createMultipartUpload(key, contentType)
+  const handle = await fs.promises.open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(partSize)
+    for (let partNumber = 1, offset = 0; offset < size; partNumber++, offset += partSize) {
+      const { bytesRead } = await handle.read(buffer, 0, Math.min(partSize, size - offset), offset)
+      await uploadPartToS3(key, uploadId, partNumber, buffer.subarray(0, bytesRead))
+    }
+    await completeMultipartUpload(key, uploadId)
+  } catch (error) {
+    await abortMultipartUpload(key, uploadId).catch(() => {})
+    throw error
+  } finally {
+    await handle.close()
+  }
+}
+
 export async function loadFromS3(key: string): Promise<string | null> {
   if (s3Client) {
     try {
@@ -119,32 +271,263 @@ export async function loadFromS3(key: string): Promise<string | null> {
   }
 }
 
-export async function listFromS3(prefix: string): Promise<string[]> {
+export async function loadBufferFromS3(key: string): Promise<Buffer | null> {
+  const object = await loadObjectFromS3(key)
+  return object?.data ?? null
+}
+
+/**
+ * Load an object together with its stored content type.
+ */
+export async function loadObjectFromS3(key: string): Promise<{ data: Buffer; contentType?: string } | null> {
   if (s3Client) {
+    try {
+      const response = await s3Client.send(
+        new GetObjectCommand({
+          Bucket: BUCKET_NAME,
+          Key: key,
+        })
+      )
+      if (!response.Body) return null
+      return {
+        data: Buffer.from(await response.Body.transformToByteArray()),
+        contentType: response.ContentType,
+      }
+    } catch (error: unknown) {
+      if ((error as { name?: string }).name === 'NoSuchKey') {
+        return null
+      }
+      throw error
+    }
+  } else {
+    // Use direct HTTP GET for public bucket
+    const response = await fetch(getS3Url(key))
+    if (response.status === 404 || response.status === 403) {
+      return null
+    }
+    if (!response.ok) {
+      throw new Error(`S3 GET failed: ${response.status} ${response.statusText}`)
+    }
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') ?? undefined,
+    }
+  }
+}
+
+export interface S3ObjectStream {
+  body: Readable
+  contentType?: string
+  contentLength?: number
+  contentRange?: string
+  etag?: string
+  lastModified?: Date
+}
+
+/**
+ * Open an object (or a byte range of it) as a stream, for proxying to the browser.
+ * Returns null if the object does not exist.
+ */
+export async function getS3ObjectStream(key: string, range?: string): Promise<S3ObjectStream | null> {
+  if (!s3Client) {
+    throw new Error('S3 credentials are not configured')
+  }
+  try {
     const response = await s3Client.send(
-      new ListObjectsV2Command({
+      new GetObjectCommand({
         Bucket: BUCKET_NAME,
-        Prefix: prefix,
+        Key: key,
+        Range: range,
       })
     )
-    return response.Contents?.map((item) => item.Key || '').filter(Boolean) || []
-  } else {
-    // Use S3 REST API for listing (public bucket)
-    const url = `https://${BUCKET_NAME}.s3.${REGION}.amazonaws.com/?list-type=2&prefix=${encodeURIComponent(prefix)}`
-    const response = await fetch(url)
-    if (!response.ok) {
-      throw new Error(`S3 LIST failed: ${response.status} ${response.statusText}`)
+    if (!response.Body) return null
+    return {
+      body: response.Body as Readable,
+      contentType: response.ContentType,
+      contentLength: response.ContentLength,
+      contentRange: response.ContentRange,
+      etag: response.ETag,
+      lastModified: response.LastModified,
     }
-    const xml = await response.text()
-    // Parse keys from XML response
-    const keys: string[] = []
-    const keyRegex = /<Key>([^<]+)<\/Key>/g
-    let match
-    while ((match = keyRegex.exec(xml)) !== null) {
-      keys.push(match[1])
+  } catch (error: unknown) {
+    if ((error as { name?: string }).name === 'NoSuchKey') {
+      return null
     }
-    return keys
+    throw error
+  }
+}
+
+/**
+ * Download an object to a file on disk. Returns false if the object does not exist.
+ */
+export async function loadFromS3ToFile(key: string, filePath: string): Promise<boolean> {
+  if (s3Client) {
+    const object = await getS3ObjectStream(key)
+    if (!object) return false
+    await pipeline(object.body, fs.createWriteStream(filePath))
+    return true
   }
+  const data = await loadBufferFromS3(key)
+  if (!data) return false
+  await fs.promises.writeFile(filePath, data)
+  return true
+}
+
+// --- Multipart uploads (used for large and resumable uploads) ---
+
+function requireClient(): S3Client {
+  if (!s3Client) {
+    throw new Error('S3 credentials are not configured')
+  }
+  return s3Client
+}
+
+export async function createMultipartUpload(key: string, contentType: string): Promise<string> {
+  const response = await requireClient().send(
+    new CreateMultipartUploadCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      ContentType: contentType,
+    })
+  )
+  if (!response.UploadId) {
+    throw new Error('S3 did not return an upload ID')
+  }
+  return response.UploadId
+}
+
+export async function uploadPartToS3(
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  data: Buffer
+): Promise<void> {
+  await requireClient().send(
+    new UploadPartCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: data,
+      ContentLength: data.length,
+    })
+  )
+}
+
+/**
+ * Presigned PUT URL the browser can upload one part to directly.
+ */
+export async function getPresignedPartUrl(
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  expiresIn: number
+): Promise<string> {
+  return getSignedUrl(
+    requireClient(),
+    new UploadPartCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    }),
+    { expiresIn }
+  )
+}
+
+export interface UploadedPart {
+  partNumber: number
+  etag: string
+  size: number
+}
+
+export async function listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+  const client = requireClient()
+  const parts: UploadedPart[] = []
+  let marker: string | undefined
+  do {
+    const response = await client.send(
+      new ListPartsCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        UploadId: uploadId,
+        PartNumberMarker: marker,
+      })
+    )
+    for (const part of response.Parts ?? []) {
+      if (part.PartNumber && part.ETag) {
+        parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size ?? 0 })
+      }
+    }
+    marker = response.IsTruncated ? response.NextPartNumberMarker : undefined
+  } while (marker)
+  return parts
+}
+
+/**
+ * Assemble all uploaded parts into the final object.
+ */
+export async function completeMultipartUpload(key: string, uploadId: string): Promise<void> {
+  const parts = await listUploadedParts(key, uploadId)
+  await requireClient().send(
+    new CompleteMultipartUploadCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: parts
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    })
+  )
+}
+
+export async function abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+  await requireClient().send(
+    new AbortMultipartUploadCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+    })
+  )
+}
+
+export interface MultipartUploadInfo {
+  key: string
+  uploadId: string
+  initiated: Date | null
+}
+
+/**
+ * Multipart uploads in the bucket that were started but neither completed nor aborted.
+ */
+export async function listMultipartUploads(): Promise<MultipartUploadInfo[]> {
+  const client = requireClient()
+  const uploads: MultipartUploadInfo[] = []
+  let keyMarker: string | undefined
+  let uploadIdMarker: string | undefined
+  do {
+    const response = await client.send(
+      new ListMultipartUploadsCommand({
+        Bucket: BUCKET_NAME,
+        KeyMarker: keyMarker,
+        UploadIdMarker: uploadIdMarker,
+      })
+    )
+    for (const upload of response.Uploads ?? []) {
+      if (upload.Key && upload.UploadId) {
+        uploads.push({ key: upload.Key, uploadId: upload.UploadId, initiated: upload.Initiated ?? null })
+      }
+    }
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined
+    uploadIdMarker = response.IsTruncated ? response.NextUploadIdMarker : undefined
+  } while (keyMarker)
+  return uploads
+}
+
+export async function listFromS3(prefix: string): Promise<string[]> {
+  return (await listWithModifiedFromS3(prefix)).map((object) => object.key)
 }
 
 export async function deleteFromS3(key: string): Promise<void> {
@@ -190,3 +573,81 @@ export async function existsInS3(key: string): Promise<boolean> {
     return response.ok
   }
 }
+
+/**
+ * List keys under a prefix with their last-modified times, which the listing already
+ * carries, so callers don't need a HEAD request per object.
+ */
+export async function listWithModifiedFromS3(prefix: string): Promise<Array<{ key: string; lastModified: Date | null }>> {
+  if (s3Client) {
+    const objects: Array<{ key: string; lastModified: Date | null }> = []
+    let continuationToken: string | undefined
+    do {
+      const response = await s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: BUCKET_NAME,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      )
+      for (const item of response.Contents ?? []) {
+        if (item.Key) objects.push({ key: item.Key, lastModified: item.LastModified ?? null })
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined
+    } while (continuationToken)
+    return objects
+  } else {
+    // Use S3 REST API for listing (public bucket), 1000 keys per page
+    const objects: Array<{ key: string; lastModified: Date | null }> = []
+    let continuationToken: string | undefined
+    do {
+      let url = `${BUCKET_URL}/?list-type=2&prefix=${encodeURIComponent(prefix)}`
+      if (continuationToken) url += `&continuation-token=${encodeURIComponent(continuationToken)}`
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`S3 LIST failed: ${response.status} ${response.statusText}`)
+      }
+      const xml = await response.text()
+      const contentsRegex = /<Contents>([\s\S]*?)<\/Contents>/g
+      let match
+      while ((match = contentsRegex.exec(xml)) !== null) {
+        const key = match[1].match(/<Key>([^<]+)<\/Key>/)?.[1]
+        const lastModified = match[1].match(/<LastModified>([^<]+)<\/LastModified>/)?.[1]
+        if (key) objects.push({ key, lastModified: lastModified ? new Date(lastModified) : null })
+      }
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+        ? xml.match(/<NextContinuationToken>([^<]+)<\/NextContinuationToken>/)?.[1]
+        : undefined
+    } while (continuationToken)
+    return objects
+  }
+}
+
+export async function getLastModifiedInS3(key: string): Promise<Date | null> {
+  if (s3Client) {
+    try {
+      const response = await s3Client.send(
+        new HeadObjectCommand({
+          Bucket: BUCKET_NAME,
+          Key: key,
+        })
+      )
+      return response.LastModified ?? null
+    } catch (error: unknown) {
+      if ((error as { name?: string }).name === 'NotFound') {
+        return null
+      }
+      throw error
+    }
+  } else {
+    // Use direct HTTP HEAD for public bucket
+    const response = await fetch(getS3Url(key), {
+      method: 'HEAD',
+    })
+    if (!response.ok) {
+      return null
+    }
+    const lastModified = response.headers.get('last-modified')
+    return lastModified ? new Date(lastModified) : null
+  }
+}
@@ -0,0 +1,187 @@
+import { list, load, del, getLastModified } from './storage.js'
+import { THUMBNAIL_FILENAME } from './sceneThumbnails.js'
+
+// Files in a scene folder that are never collected, regardless of references
+const RESERVED_SCENE_FILES = new Set(['scene.json', 'history.json', THUMBNAIL_FILENAME])
+
+// scene.json item fields that hold a filename relative to the scene folder
+const STORED_FILE_FIELDS = ['file', 'cropSrc', 'originalFile', 'thumbFile', 'chatHistoryFile']
+
+// Scene folders are named by scene UUID
+const SCENE_FOLDER_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Default grace period before an unreferenced file may be deleted.
+// Media is uploaded to the scene folder as soon as it is dropped, before the
+// (debounced) scene save references it, so fresh files must not be collected.
+const DEFAULT_MIN_AGE_MINUTES = 10
+
+export interface OrphanedFile {
+  key: string
+  lastModified: string | null
+  tooRecent: boolean  // within the grace period, left alone even when not a dry run
+}
+
+export interface SceneGcReport {
+  sceneId: string
+  hasSceneJson: boolean
+  totalFiles: number
+  orphans: OrphanedFile[]
+  deleted: string[]
+}
+
+export interface WorkspaceGcReport {
+  workspace: string
+  dryRun: boolean
+  minAgeMinutes: number
+  scenes: SceneGcReport[]
+  orphanCount: number
+  deletedCount: number
+}
+
+export interface GcOptions {
+  dryRun: boolean
+  sceneId?: string  // limit collection to one scene folder (references are still workspace-wide)
+}
+
+export function getGcMinAgeMinutes(): number {
+  const value = parseFloat(process.env.SCENE_GC_MIN_AGE_MINUTES || '')
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_MIN_AGE_MINUTES
+}
+
+export function isGcOnSaveEnabled(): boolean {
+  return process.env.SCENE_GC_ON_SAVE === 'true'
+}
+
+/**
+ * Filenames (relative to the scene folder) that a scene.json's items store media under.
+ */
+export function getReferencedFilenames(items: Array<Record<string, unknown>>): string[] {
+  const filenames: string[] = []
+  for (const item of items) {
+    for (const field of STORED_FILE_FIELDS) {
+      const value = item[field]
+      if (typeof value === 'string' && value && !value.includes('/')) {
+        filenames.push(value)
+      }
+    }
+  }
+  return filenames
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Collect every storage key referenced from the workspace's scene.json and history.json files.
+ * References are gathered across all scenes, since undo history in one scene can still point
+ * at media in another scene's folder (e.g. items pasted between scenes).
+ */
+async function collectReferencedKeys(workspace: string, sceneIds: string[]): Promise<Set<string>> {
+  const referenced = new Set<string>()
+  // History records store full item URLs (S3 or /api/local-files/), so match on the key inside them
+  const keyInUrlRe = new RegExp(`(?:^|/)${escapeRegExp(workspace)}/([0-9a-fA-F-]{36})/([^"?#\\s\\\\]+)`, 'g')
+
+  const addKeysFromText = (text: string) => {
+    for (const match of text.matchAll(keyInUrlRe)) {
+      referenced.add(`${workspace}/${match[1]}/${match[2]}`)
+    }
+  }
+
+  for (const sceneId of sceneIds) {
+    const sceneFolder = `${workspace}/${sceneId}`
+
+    const sceneJson = await load(`${sceneFolder}/scene.json`)
+    if (sceneJson) {
+      try {
+        const scene = JSON.parse(sceneJson) as { items?: Array<Record<string, unknown>> }
+        for (const filename of getReferencedFilenames(scene.items ?? [])) {
+          referenced.add(`${sceneFolder}/${filename}`)
+        }
+      } catch {
+        console.error(`GC: corrupted scene.json in ${sceneFolder}, treating all of its files as referenced`)
+        referenced.add(`${sceneFolder}/*`)
+      }
+      addKeysFromText(sceneJson)
+    }
+
+    const historyJson = await load(`${sceneFolder}/history.json`)
+    if (historyJson) {
+      addKeysFromText(historyJson)
+    }
+  }
+
+  return referenced
+}
+
+/**
+ * Find (and unless dryRun, delete) files in scene folders that are no longer referenced
+ * by any scene.json or history.json in the workspace. Nested subfolders are never touched.
+ */
+export async function collectSceneGarbage(workspace: string, options: GcOptions): Promise<WorkspaceGcReport> {
+  const minAgeMinutes = getGcMinAgeMinutes()
+  const cutoff = Date.now() - minAgeMinutes * 60 * 1000
+
+  // Group the workspace's keys by scene folder, keeping only files directly inside each folder
+  const allKeys = await list(`${workspace}/`)
+  const filesByScene = new Map<string, string[]>()
+  for (const key of allKeys) {
+    const parts = key.slice(workspace.length + 1).split('/')
+    if (parts.length !== 2 || !SCENE_FOLDER_RE.test(parts[0])) continue
+    const files = filesByScene.get(parts[0]) ?? []
+    files.push(key)
+    filesByScene.set(parts[0], files)
+  }
+
+  const referenced = await collectReferencedKeys(workspace, Array.from(filesByScene.keys()))
+
+  const scenes: SceneGcReport[] = []
+  for (const [sceneId, keys] of filesByScene) {
+    if (options.sceneId && sceneId !== options.sceneId) continue
+    const sceneFolder = `${workspace}/${sceneId}`
+    const report: SceneGcReport = {
+      sceneId,
+      hasSceneJson: keys.includes(`${sceneFolder}/scene.json`),
+      totalFiles: keys.length,
+      orphans: [],
+      deleted: [],
+    }
+
+    if (!referenced.has(`${sceneFolder}/*`)) {
+      for (const key of keys) {
+        const filename = key.slice(sceneFolder.length + 1)
+        if (RESERVED_SCENE_FILES.has(filename) || referenced.has(key)) continue
+
+        const lastModified = await getLastModified(key)
+        // Files with an unknown modification time are treated as recent (never deleted)
+        const tooRecent = !lastModified || lastModified.getTime() > cutoff
+        report.orphans.push({ key, lastModified: lastModified?.toISOString() ?? null, tooRecent })
+      }
+    }
+
+    if (!options.dryRun) {
+      for (const orphan of report.orphans) {
+        if (orphan.tooRecent) continue
+        try {
+          await del(orphan.key)
+          report.deleted.push(orphan.key)
+        } catch (err) {
+          console.error(`GC: failed to delete ${orphan.key}:`, err)
+        }
+      }
+    }
+
+    if (report.orphans.length > 0 || options.sceneId) {
+      scenes.push(report)
+    }
+  }
+
+  return {
+    workspace,
+    dryRun: options.dryRun,
+    minAgeMinutes,
+    scenes,
+    orphanCount: scenes.reduce((sum, s) => sum + s.orphans.length, 0),
+    deletedCount: scenes.reduce((sum, s) => sum + s.deleted.length, 0),
+  }
+}
@@ -0,0 +1,173 @@
+import { list, load, save } from './storage.js'
+
+// Version stamped on every scene.json this server writes. Changing the stored item format
+// means bumping this and adding a migration from the previous version to MIGRATIONS.
+export const SCENE_FILE_VERSION = '1'
+
+// A scene.json as read from storage. Older versions may not match the current stored item
+// shapes, so migrations work on loosely typed documents.
+export interface SceneDocument {
+  version?: string
+  items: SceneDocumentItem[]
+  [key: string]: unknown
+}
+
+export interface SceneDocumentItem {
+  id: string
+  type: string
+  [key: string]: unknown
+}
+
+interface SceneMigration {
+  from: number  // upgrades documents at this version to version from + 1
+  description: string
+  migrate: (scene: SceneDocument) => SceneDocument
+}
+
+// Fields that scenes saved before versioning could leave out, and that readers filled in
+const V0_ITEM_DEFAULTS: Record<string, Record<string, unknown>> = {
+  'prompt': { model: 'claude-sonnet' },
+  'image-gen-prompt': { model: 'gemini-imagen' },
+  'html-gen-prompt': { model: 'claude-sonnet' },
+  'html': { label: 'HTML' },
+  'text-file': { fileFormat: 'txt' },
+  'model3d': { format: 'glb' },
+  'splat': { format: 'splat' },
+}
+
+const MIGRATIONS: SceneMigration[] = [
+  {
+    from: 0,
+    description: 'Fill in defaults for item fields that unversioned scenes may omit',
+    migrate: (scene) => ({
+      ...scene,
+      items: scene.items.map((item) => {
+        const defaults = V0_ITEM_DEFAULTS[item.type]
+        if (!defaults) return item
+        const filled = { ...item }
+        for (const [field, value] of Object.entries(defaults)) {
+          if (!filled[field]) filled[field] = value
+        }
+        return filled
+      }),
+    }),
+  },
+]
+
+export class SceneMigrationError extends Error {}
+
+/**
+ * Numeric version of a scene document. Documents without a version predate versioning (0).
+ */
+export function getSceneVersion(scene: { version?: unknown }): number {
+  if (scene.version === undefined || scene.version === null) return 0
+  const version = Number(scene.version)
+  if (!Number.isInteger(version) || version < 0) {
+    throw new SceneMigrationError(`Invalid scene version: ${String(scene.version)}`)
+  }
+  return version
+}
+
+export interface SceneMigrationResult {
+  scene: SceneDocument
+  fromVersion: number
+  applied: string[]  // descriptions of the migrations that ran, oldest first
+}
+
+/**
+ * Upgrade a scene document to SCENE_FILE_VERSION. Returns the document unchanged
+ * (and no applied migrations) when it is already current.
+ */
+export function migrateScene(scene: SceneDocument): SceneMigrationResult {
+  const currentVersion = Number(SCENE_FILE_VERSION)
+  const fromVersion = getSceneVersion(scene)
+  if (fromVersion > currentVersion) {
+    throw new SceneMigrationError(
+      `Scene version ${fromVersion} is newer than this server supports (${SCENE_FILE_VERSION})`
+    )
+  }
+
+  let migrated: SceneDocument = { ...scene, items: Array.isArray(scene.items) ? scene.items : [] }
+  const applied: string[] = []
+  for (let version = fromVersion; version < currentVersion; version++) {
+    const migration = MIGRATIONS.find((m) => m.from === version)
+    if (!migration) {
+      throw new SceneMigrationError(`No migration registered from scene version ${version}`)
+    }
+    migrated = migration.migrate(migrated)
+    applied.push(`v${version} -> v${version + 1}: ${migration.description}`)
+  }
+  if (applied.length > 0) {
+    migrated.version = SCENE_FILE_VERSION
+  }
+  return { scene: migrated, fromVersion, applied }
+}
+
+export interface SceneFileMigration {
+  key: string
+  fromVersion: number | null  // null when the file couldn't be read
+  applied: string[]
+  error?: string
+}
+
+export interface WorkspaceMigrationReport {
+  workspace: string
+  dryRun: boolean
+  targetVersion: string
+  scanned: number
+  upToDate: number
+  migrated: SceneFileMigration[]
+  failed: SceneFileMigration[]
+}
+
+export interface MigrationOptions {
+  dryRun: boolean
+  // Runs each read-migrate-write under the caller's per-scene write lock
+  withSceneLock?: <T>(sceneFolder: string, fn: () => Promise<T>) => Promise<T>
+}
+
+/**
+ * Upgrade every scene.json in the workspace (including snapshots and the trash) in place.
+ * modifiedAt is left alone, so open clients can keep saving without a conflict.
+ */
+export async function migrateWorkspaceScenes(
+  workspace: string,
+  { dryRun, withSceneLock }: MigrationOptions
+): Promise<WorkspaceMigrationReport> {
+  const keys = (await list(`${workspace}/`)).filter((key) => key.endsWith('/scene.json'))
+  const report: WorkspaceMigrationReport = {
+    workspace,
+    dryRun,
+    targetVersion: SCENE_FILE_VERSION,
+    scanned: keys.length,
+    upToDate: 0,
+    migrated: [],
+    failed: [],
+  }
+
+  for (const key of keys) {
+    const sceneFolder = key.slice(0, -'/scene.json'.length)
+    const run = async () => {
+      const sceneJson = await load(key)
+      if (!sceneJson) return
+      let result: SceneMigrationResult
+      try {
+        result = migrateScene(JSON.parse(sceneJson))
+      } catch (error) {
+        report.failed.push({ key, fromVersion: null, applied: [], error: (error as Error).message })
+        return
+      }
+      if (result.applied.length === 0) {
+        report.upToDate++
+        return
+      }
+      if (!dryRun) {
+        await save(key, JSON.stringify(result.scene, null, 2), 'application/json')
+      }
+      report.migrated.push({ key, fromVersion: result.fromVersion, applied: result.applied })
+    }
+    await (withSceneLock ? withSceneLock(sceneFolder, run) : run())
+  }
+
+  return report
+}
@@ -0,0 +1,160 @@
+import { v4 as uuidv4 } from 'uuid'
+import { list, load, loadAsBuffer, save, del } from './storage.js'
+import { getReferencedFilenames } from './sceneGc.js'
+import { contentTypeForKey } from './workspaceTransfer.js'
+import { migrateScene, SceneDocument } from './sceneMigrations.js'
+
+// Snapshots live in {workspace}/{sceneId}/snapshots/{snapshotId}/ with their own copy of
+// scene.json and every media file it references, so later edits can't change them
+const SNAPSHOTS_FOLDER = 'snapshots'
+const SNAPSHOT_RECORD_FILE = 'snapshot.json'
+
+export interface SnapshotInfo {
+  id: string
+  name: string
+  createdAt: string
+  sceneModifiedAt: string
+  itemCount: number
+  fileCount: number
+}
+
+export function getSnapshotFolder(workspace: string, sceneId: string, snapshotId: string): string {
+  return `${workspace}/${sceneId}/${SNAPSHOTS_FOLDER}/${snapshotId}`
+}
+
+async function copyFiles(fromFolder: string, toFolder: string, filenames: string[]): Promise<number> {
+  let copied = 0
+  for (const filename of new Set(filenames)) {
+    const data = await loadAsBuffer(`${fromFolder}/${filename}`)
+    if (!data) {
+      console.warn(`Snapshot: ${fromFolder}/${filename} is missing, skipping`)
+      continue
+    }
+    const key = `${toFolder}/${filename}`
+    await save(key, data, contentTypeForKey(key))
+    copied++
+  }
+  return copied
+}
+
+// Parse a scene.json and upgrade it to the current file version, the same step loading
+// a scene goes through, so a restored or branched snapshot matches its preview
+function parseScene(sceneJson: string): SceneDocument {
+  return migrateScene(JSON.parse(sceneJson) as SceneDocument).scene
+}
+
+/**
+ * Snapshot the scene's saved state. Returns null if the scene has no scene.json.
+ */
+export async function createSnapshot(workspace: string, sceneId: string, name: string): Promise<SnapshotInfo | null> {
+  const sceneFolder = `${workspace}/${sceneId}`
+  const sceneJson = await load(`${sceneFolder}/scene.json`)
+  if (!sceneJson) return null
+
+  const scene = parseScene(sceneJson)
+  const snapshotId = uuidv4()
+  const snapshotFolder = getSnapshotFolder(workspace, sceneId, snapshotId)
+
+  const fileCount = await copyFiles(sceneFolder, snapshotFolder, getReferencedFilenames(scene.items))
+  await save(`${snapshotFolder}/scene.json`, sceneJson, 'application/json')
+
+  const info: SnapshotInfo = {
+    id: snapshotId,
+    name,
+    createdAt: new Date().toISOString(),
+    sceneModifiedAt: typeof scene.modifiedAt === 'string' ? scene.modifiedAt : '',
+    itemCount: scene.items.length,
+    fileCount,
+  }
+  await save(`${snapshotFolder}/${SNAPSHOT_RECORD_FILE}`, JSON.stringify(info, null, 2), 'application/json')
+  return info
+}
+
+/**
+ * List a scene's snapshots, newest first.
+ */
+export async function listSnapshots(workspace: string, sceneId: string): Promise<SnapshotInfo[]> {
+  const keys = await list(`${workspace}/${sceneId}/${SNAPSHOTS_FOLDER}/`)
+  const snapshots: SnapshotInfo[] = []
+  for (const key of keys.filter((k) => k.endsWith(`/${SNAPSHOT_RECORD_FILE}`))) {
+    const raw = await load(key)
+    if (!raw) continue
+    try {
+      snapshots.push(JSON.parse(raw))
+    } catch {
+      console.error(`Snapshot: corrupted record ${key}`)
+    }
+  }
+  return snapshots.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+}
+
+export async function loadSnapshotInfo(workspace: string, sceneId: string, snapshotId: string): Promise<SnapshotInfo | null> {
+  const raw = await load(`${getSnapshotFolder(workspace, sceneId, snapshotId)}/${SNAPSHOT_RECORD_FILE}`)
+  if (!raw) return null
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Copy a snapshot's media into `targetSceneId`'s folder and write its scene.json there
+ * with the given overrides. Used both to restore in place and to branch into a new scene.
+ */
+async function materializeSnapshot(
+  workspace: string,
+  sceneId: string,
+  snapshotId: string,
+  targetSceneId: string,
+  overrides: Record<string, unknown>
+): Promise<Record<string, unknown> | null> {
+  const snapshotFolder = getSnapshotFolder(workspace, sceneId, snapshotId)
+  const sceneJson = await load(`${snapshotFolder}/scene.json`)
+  if (!sceneJson) return null
+
+  const scene = parseScene(sceneJson)
+  const targetFolder = `${workspace}/${targetSceneId}`
+  await copyFiles(snapshotFolder, targetFolder, getReferencedFilenames(scene.items))
+
+  const restored = { ...scene, ...overrides }
+  await save(`${targetFolder}/scene.json`, JSON.stringify(restored, null, 2), 'application/json')
+  return restored
+}
+
+/**
+ * Replace the scene's saved state with a snapshot. The undo history no longer matches
+ * the scene afterwards, so it is cleared. Callers hold the scene's write lock.
+ */
+export async function restoreSnapshot(workspace: string, sceneId: string, snapshotId: string): Promise<string | null> {
+  const modifiedAt = new Date().toISOString()
+  const restored = await materializeSnapshot(workspace, sceneId, snapshotId, sceneId, { id: sceneId, modifiedAt })
+  if (!restored) return null
+  await del(`${workspace}/${sceneId}/history.json`)
+  return modifiedAt
+}
+
+/**
+ * Create a new scene from a snapshot. Returns the new scene's ID.
+ */
+export async function branchSnapshot(
+  workspace: string,
+  sceneId: string,
+  snapshotId: string,
+  name: string
+): Promise<string | null> {
+  const newSceneId = uuidv4()
+  const now = new Date().toISOString()
+  const branched = await materializeSnapshot(workspace, sceneId, snapshotId, newSceneId, {
+    id: newSceneId,
+    name,
+    createdAt: now,
+    modifiedAt: now,
+  })
+  return branched ? newSceneId : null
+}
+
+export async function deleteSnapshot(workspace: string, sceneId: string, snapshotId: string): Promise<void> {
+  const keys = await list(`${getSnapshotFolder(workspace, sceneId, snapshotId)}/`)
+  await Promise.all(keys.map((key) => del(key)))
+}
@@ -0,0 +1,183 @@
+import sharp from 'sharp'
+import { load, loadAsBuffer, save, exists, ListedObject } from './storage.js'
+
+export const THUMBNAIL_FILENAME = 'thumbnail.png'
+
+const THUMBNAIL_WIDTH = 320
+const THUMBNAIL_HEIGHT = 200
+const PADDING = 8
+const BACKGROUND = '#f5f5f5'
+const MAX_DRAWN_ITEMS = 200  // later items beyond this are left out of the preview
+
+// Saves are frequent while editing, so the thumbnail is rebuilt once the scene has been quiet this long
+const REBUILD_DELAY_MS = 5000
+
+// Box colors for items drawn as placeholders rather than rendered content
+const ITEM_COLORS: Record<string, { fill: string; stroke: string }> = {
+  'text': { fill: '#ffffff', stroke: '#bdbdbd' },
+  'prompt': { fill: '#e3f2fd', stroke: '#1976d2' },
+  'image-gen-prompt': { fill: '#f3e5f5', stroke: '#8e24aa' },
+  'html-gen-prompt': { fill: '#e8f5e9', stroke: '#43a047' },
+  'coding-robot': { fill: '#fff3e0', stroke: '#fb8c00' },
+  'html': { fill: '#ffffff', stroke: '#9e9e9e' },
+  'video': { fill: '#212121', stroke: '#212121' },
+  'embed-video': { fill: '#212121', stroke: '#212121' },
+  'audio': { fill: '#2a2a4e', stroke: '#2a2a4e' },
+  'frame': { fill: 'none', stroke: '#78909c' },
+}
+const DEFAULT_COLORS = { fill: '#eeeeee', stroke: '#9e9e9e' }
+
+interface ThumbnailItem {
+  type: string
+  x: number
+  y: number
+  width: number
+  height: number
+  scaleX?: number
+  scaleY?: number
+  file?: string
+  cropSrc?: string
+  thumbFile?: string
+}
+
+const pendingRebuilds = new Map<string, ReturnType<typeof setTimeout>>()
+
+/**
+ * App URL that serves a scene's thumbnail. `version` changes whenever the thumbnail may have,
+ * so browsers don't show a stale cached copy.
+ */
+export function getThumbnailUrl(workspace: string, sceneId: string, version: string): string {
+  return `/api/w/${workspace}/scenes/${sceneId}/thumbnail?v=${encodeURIComponent(version)}`
+}
+
+/**
+ * Thumbnail URL of each workspace's most recently updated scene, keyed by workspace name,
+ * from a listing of the whole store. Modification times come from the listing.
+ */
+export function getWorkspaceThumbnailUrls(objects: ListedObject[]): Map<string, string> {
+  const latest = new Map<string, { sceneId: string; modified: Date }>()
+  for (const { key, lastModified } of objects) {
+    const parts = key.split('/')
+    if (parts.length !== 3 || parts[2] !== THUMBNAIL_FILENAME || !lastModified) continue
+    const [workspace, sceneId] = parts
+    const current = latest.get(workspace)
+    if (!current || lastModified > current.modified) {
+      latest.set(workspace, { sceneId, modified: lastModified })
+    }
+  }
+  const urls = new Map<string, string>()
+  for (const [workspace, { sceneId, modified }] of latest) {
+    urls.set(workspace, getThumbnailUrl(workspace, sceneId, modified.toISOString()))
+  }
+  return urls
+}
+
+function placeholderSvg(type: string, width: number, height: number): Buffer {
+  const { fill, stroke } = ITEM_COLORS[type] ?? DEFAULT_COLORS
+  // A few grey bars stand in for the text of text-like items
+  let lines = ''
+  if (type === 'text' || type.endsWith('prompt') || type === 'coding-robot' || type === 'text-file') {
+    for (let y = 4; y + 2 <= height - 3 && y < 4 + 5 * 4; y += 4) {
+      lines += `<rect x="3" y="${y}" width="${Math.max(0, width - 6)}" height="1.5" fill="#cfcfcf"/>`
+    }
+  }
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect x="0.5" y="0.5" width="${Math.max(0, width - 1)}" height="${Math.max(0, height - 1)}" fill="${fill}" stroke="${stroke}"/>` +
+    lines +
+    '</svg>'
+  )
+}
+
+// Image file to draw for an item, relative to the scene folder
+function getPreviewFile(item: ThumbnailItem): string | undefined {
+  if (item.type === 'image') return item.cropSrc || item.file
+  if (item.type === 'pdf') return item.thumbFile
+  return undefined
+}
+
+/**
+ * Render a small PNG preview of a scene: image items (and PDF first pages) are drawn
+ * scaled down, everything else as a colored box at its bounding box.
+ */
+export async function renderSceneThumbnail(sceneFolder: string, items: ThumbnailItem[]): Promise<Buffer> {
+  const drawn = items
+    .filter((item) => [item.x, item.y, item.width, item.height].every(Number.isFinite))
+    .slice(0, MAX_DRAWN_ITEMS)
+  const base = sharp({
+    create: { width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT, channels: 4, background: BACKGROUND },
+  })
+  if (drawn.length === 0) return base.png().toBuffer()
+
+  // Fit the bounding box of all items into the thumbnail
+  const boxes = drawn.map((item) => ({
+    item,
+    width: item.width * (item.scaleX ?? 1),
+    height: item.height * (item.scaleY ?? 1),
+  }))
+  const minX = Math.min(...boxes.map((b) => b.item.x))
+  const minY = Math.min(...boxes.map((b) => b.item.y))
+  const maxX = Math.max(...boxes.map((b) => b.item.x + b.width))
+  const maxY = Math.max(...boxes.map((b) => b.item.y + b.height))
+  const scale = Math.min(
+    (THUMBNAIL_WIDTH - PADDING * 2) / Math.max(1, maxX - minX),
+    (THUMBNAIL_HEIGHT - PADDING * 2) / Math.max(1, maxY - minY),
+    1
+  )
+  const offsetX = (THUMBNAIL_WIDTH - (maxX - minX) * scale) / 2
+  const offsetY = (THUMBNAIL_HEIGHT - (maxY - minY) * scale) / 2
+
+  const layers: sharp.OverlayOptions[] = []
+  for (const { item, width, height } of boxes) {
+    const left = Math.max(0, Math.round(offsetX + (item.x - minX) * scale))
+    const top = Math.max(0, Math.round(offsetY + (item.y - minY) * scale))
+    const w = Math.min(THUMBNAIL_WIDTH - left, Math.max(1, Math.round(width * scale)))
+    const h = Math.min(THUMBNAIL_HEIGHT - top, Math.max(1, Math.round(height * scale)))
+    if (w < 1 || h < 1) continue
+
+    const previewFile = getPreviewFile(item)
+    if (previewFile) {
+      try {
+        const buffer = await loadAsBuffer(`${sceneFolder}/${previewFile}`)
+        if (buffer) {
+          const input = await sharp(buffer).resize(w, h, { fit: 'fill' }).png().toBuffer()
+          layers.push({ input, left, top })
+          continue
+        }
+      } catch (error) {
+        console.error(`Failed to draw ${previewFile} into thumbnail:`, error)
+      }
+    }
+    layers.push({ input: placeholderSvg(item.type, w, h), left, top })
+  }
+
+  return base.composite(layers).png().toBuffer()
+}
+
+/**
+ * Rebuild thumbnail.png from the scene's saved scene.json. Does nothing if the scene is gone.
+ */
+export async function updateSceneThumbnail(sceneFolder: string): Promise<void> {
+  const sceneJson = await load(`${sceneFolder}/scene.json`)
+  if (!sceneJson) return
+  const scene = JSON.parse(sceneJson) as { items?: ThumbnailItem[] }
+  const png = await renderSceneThumbnail(sceneFolder, Array.isArray(scene.items) ? scene.items : [])
+  // The scene may have been trashed while rendering; don't recreate its folder
+  if (!(await exists(`${sceneFolder}/scene.json`))) return
+  await save(`${sceneFolder}/${THUMBNAIL_FILENAME}`, png, 'image/png')
+}
+
+/**
+ * Rebuild the scene's thumbnail in the background after REBUILD_DELAY_MS,
+ * restarting the wait if called again for the same scene.
+ */
+export function scheduleSceneThumbnail(sceneFolder: string): void {
+  const pending = pendingRebuilds.get(sceneFolder)
+  if (pending) clearTimeout(pending)
+  pendingRebuilds.set(sceneFolder, setTimeout(() => {
+    pendingRebuilds.delete(sceneFolder)
+    updateSceneThumbnail(sceneFolder).catch((err) =>
+      console.error(`Failed to update thumbnail for ${sceneFolder}:`, err)
+    )
+  }, REBUILD_DELAY_MS))
+}
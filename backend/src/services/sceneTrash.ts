@@ -0,0 +1,138 @@
+import { list, load, loadAsBuffer, save, del, exists } from './storage.js'
+import { contentTypeForKey } from './workspaceTransfer.js'
+
+// Deleted scenes are moved to {workspace}/.trash/{sceneId}/ alongside a trash.json record
+export const TRASH_FOLDER = '.trash'
+const TRASH_RECORD_FILE = 'trash.json'
+
+const DEFAULT_RETENTION_DAYS = 30
+
+export interface TrashedScene {
+  id: string
+  name: string
+  deletedAt: string
+  expiresAt: string
+  itemCount: number
+}
+
+interface TrashRecord {
+  id: string
+  name: string
+  deletedAt: string
+  itemCount: number
+}
+
+export function getTrashRetentionDays(): number {
+  const value = parseFloat(process.env.SCENE_TRASH_RETENTION_DAYS || '')
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_RETENTION_DAYS
+}
+
+export function getTrashFolder(workspace: string, sceneId: string): string {
+  return `${workspace}/${TRASH_FOLDER}/${sceneId}`
+}
+
+function toTrashedScene(record: TrashRecord): TrashedScene {
+  const expiresAt = new Date(new Date(record.deletedAt).getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000)
+  return { ...record, expiresAt: expiresAt.toISOString() }
+}
+
+// Copy every key under one folder to another, then delete the originals
+async function moveFolder(fromFolder: string, toFolder: string, skip: Set<string> = new Set()): Promise<void> {
+  const keys = await list(`${fromFolder}/`)
+  for (const key of keys) {
+    const relativePath = key.slice(fromFolder.length + 1)
+    if (skip.has(relativePath)) continue
+    const data = await loadAsBuffer(key)
+    if (!data) {
+      throw new Error(`Failed to read ${key}`)
+    }
+    const newKey = `${toFolder}/${relativePath}`
+    await save(newKey, data, contentTypeForKey(newKey))
+  }
+  await Promise.all(keys.map((key) => del(key)))
+}
+
+export async function isSceneInTrash(workspace: string, sceneId: string): Promise<boolean> {
+  return exists(`${getTrashFolder(workspace, sceneId)}/${TRASH_RECORD_FILE}`)
+}
+
+/**
+ * Move a scene folder into the workspace trash. Returns false if the scene has no files.
+ */
+export async function moveSceneToTrash(workspace: string, sceneId: string): Promise<boolean> {
+  const sceneFolder = `${workspace}/${sceneId}`
+  const trashFolder = getTrashFolder(workspace, sceneId)
+
+  const keys = await list(`${sceneFolder}/`)
+  if (keys.length === 0) return false
+
+  let name = 'Untitled'
+  let itemCount = 0
+  const sceneJson = await load(`${sceneFolder}/scene.json`)
+  if (sceneJson) {
+    try {
+      const scene = JSON.parse(sceneJson)
+      name = scene.name ?? name
+      itemCount = Array.isArray(scene.items) ? scene.items.length : 0
+    } catch {
+      // Keep defaults for a corrupted scene.json; its files are still trashed
+    }
+  }
+
+  // A scene with the same ID may already be in the trash (deleted, recreated by a stale tab, deleted again)
+  await purgeTrashedScene(workspace, sceneId)
+
+  await moveFolder(sceneFolder, trashFolder)
+
+  const record: TrashRecord = { id: sceneId, name, deletedAt: new Date().toISOString(), itemCount }
+  await save(`${trashFolder}/${TRASH_RECORD_FILE}`, JSON.stringify(record, null, 2), 'application/json')
+  return true
+}
+
+/**
+ * Move a trashed scene back to its original folder.
+ */
+export async function restoreSceneFromTrash(workspace: string, sceneId: string): Promise<void> {
+  const trashFolder = getTrashFolder(workspace, sceneId)
+  await moveFolder(trashFolder, `${workspace}/${sceneId}`, new Set([TRASH_RECORD_FILE]))
+}
+
+/**
+ * Permanently delete a trashed scene and its media.
+ */
+export async function purgeTrashedScene(workspace: string, sceneId: string): Promise<number> {
+  const keys = await list(`${getTrashFolder(workspace, sceneId)}/`)
+  await Promise.all(keys.map((key) => del(key)))
+  return keys.length
+}
+
+/**
+ * List the workspace trash, newest first. Entries past the retention period are purged
+ * as a side effect, so expiry needs no background scheduler.
+ */
+export async function listTrash(workspace: string): Promise<TrashedScene[]> {
+  const trashPrefix = `${workspace}/${TRASH_FOLDER}/`
+  const keys = await list(trashPrefix)
+  const recordKeys = keys.filter((key) => key.endsWith(`/${TRASH_RECORD_FILE}`))
+  const now = Date.now()
+
+  const scenes: TrashedScene[] = []
+  for (const key of recordKeys) {
+    const raw = await load(key)
+    if (!raw) continue
+    let record: TrashRecord
+    try {
+      record = JSON.parse(raw)
+    } catch {
+      continue
+    }
+    const trashed = toTrashedScene(record)
+    if (new Date(trashed.expiresAt).getTime() <= now) {
+      await purgeTrashedScene(workspace, record.id)
+      continue
+    }
+    scenes.push(trashed)
+  }
+
+  return scenes.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime())
+}
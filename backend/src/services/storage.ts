@@ -9,13 +9,25 @@ dotenv.config()
 
 export type StorageMode = 'online' | 'local'
 
+export interface ListedObject {
+  key: string
+  lastModified: Date | null
+}
+
 export interface StorageService {
   save(key: string, data: string | Buffer, contentType?: string): Promise<void>
+  // Stream a file from disk into storage, for media too large to buffer
+  saveFile(key: string, filePath: string, contentType?: string): Promise<void>
   load(key: string): Promise<string | null>
   loadAsBuffer(key: string): Promise<Buffer | null>
+  // Stream a stored file to disk; returns false if it does not exist
+  loadToFile(key: string, filePath: string): Promise<boolean>
   list(prefix: string): Promise<string[]>
+  // Like list, with each object's last-modified time taken from the listing itself
+  listWithModified(prefix: string): Promise<ListedObject[]>
   delete(key: string): Promise<void>
   exists(key: string): Promise<boolean>
+  getLastModified(key: string): Promise<Date | null>
   getPublicUrl(key: string): string
 }
 
@@ -97,36 +109,37 @@ const s3Storage: StorageService = {
   async save(key: string, data: string | Buffer, contentType?: string): Promise<void> {
     return s3.saveToS3(key, data, contentType)
   },
+  async saveFile(key: string, filePath: string, contentType?: string): Promise<void> {
+    return s3.saveFileToS3(key, filePath, contentType)
+  },
   async load(key: string): Promise<string | null> {
     return s3.loadFromS3(key)
   },
   async loadAsBuffer(key: string): Promise<Buffer | null> {
-    // S3 doesn't have a native loadAsBuffer, so load as string and convert
-    // For binary files, we need to fetch directly
-    const url = s3.getPublicUrl(key)
     try {
-      const response = await fetch(url)
-      if (!response.ok) {
-        if (response.status === 404 || response.status === 403) {
-          return null
-        }
-        throw new Error(`S3 fetch failed: ${response.status}`)
-      }
-      const arrayBuffer = await response.arrayBuffer()
-      return Buffer.from(arrayBuffer)
+      return await s3.loadBufferFromS3(key)
     } catch {
       return null
     }
   },
+  async loadToFile(key: string, filePath: string): Promise<boolean> {
+    return s3.loadFromS3ToFile(key, filePath)
+  },
   async list(prefix: string): Promise<string[]> {
     return s3.listFromS3(prefix)
   },
+  async listWithModified(prefix: string): Promise<ListedObject[]> {
+    return s3.listWithModifiedFromS3(prefix)
+  },
   async delete(key: string): Promise<void> {
     return s3.deleteFromS3(key)
   },
   async exists(key: string): Promise<boolean> {
     return s3.existsInS3(key)
   },
+  async getLastModified(key: string): Promise<Date | null> {
+    return s3.getLastModifiedInS3(key)
+  },
   getPublicUrl(key: string): string {
     return s3.getPublicUrl(key)
   },
@@ -137,31 +150,46 @@ const diskStorage: StorageService = {
   async save(key: string, data: string | Buffer, contentType?: string): Promise<void> {
     return disk.saveToDisk(key, data, contentType)
   },
+  async saveFile(key: string, filePath: string): Promise<void> {
+    return disk.saveFileToDisk(key, filePath)
+  },
   async load(key: string): Promise<string | null> {
     return disk.loadFromDisk(key)
   },
   async loadAsBuffer(key: string): Promise<Buffer | null> {
     return disk.loadFromDiskAsBuffer(key)
   },
+  async loadToFile(key: string, filePath: string): Promise<boolean> {
+    return disk.loadFromDiskToFile(key, filePath)
+  },
   async list(prefix: string): Promise<string[]> {
     return disk.listFromDisk(prefix)
   },
+  async listWithModified(prefix: string): Promise<ListedObject[]> {
+    return disk.listWithModifiedFromDisk(prefix)
+  },
   async delete(key: string): Promise<void> {
     return disk.deleteFromDisk(key)
   },
   async exists(key: string): Promise<boolean> {
     return disk.existsOnDisk(key)
   },
+  async getLastModified(key: string): Promise<Date | null> {
+    return disk.getLastModifiedOnDisk(key)
+  },
   getPublicUrl(key: string): string {
     return disk.getLocalUrl(key)
   },
 }
 
-export function getStorageService(): StorageService {
-  const mode = getStorageMode()
+export function getStorageServiceForMode(mode: StorageMode): StorageService {
   return mode === 'local' ? diskStorage : s3Storage
 }
 
+export function getStorageService(): StorageService {
+  return getStorageServiceForMode(getStorageMode())
+}
+
 // Convenience functions that use the current storage service
 export async function save(
   key: string,
@@ -179,10 +207,22 @@ export async function loadAsBuffer(key: string): Promise<Buffer | null> {
   return getStorageService().loadAsBuffer(key)
 }
 
+export async function saveFile(key: string, filePath: string, contentType?: string): Promise<void> {
+  return getStorageService().saveFile(key, filePath, contentType)
+}
+
+export async function loadToFile(key: string, filePath: string): Promise<boolean> {
+  return getStorageService().loadToFile(key, filePath)
+}
+
 export async function list(prefix: string): Promise<string[]> {
   return getStorageService().list(prefix)
 }
 
+export async function listWithModified(prefix: string): Promise<ListedObject[]> {
+  return getStorageService().listWithModified(prefix)
+}
+
 export async function del(key: string): Promise<void> {
   return getStorageService().delete(key)
 }
@@ -191,6 +231,10 @@ export async function exists(key: string): Promise<boolean> {
   return getStorageService().exists(key)
 }
 
+export async function getLastModified(key: string): Promise<Date | null> {
+  return getStorageService().getLastModified(key)
+}
+
 export function getPublicUrl(key: string): string {
   return getStorageService().getPublicUrl(key)
 }
@@ -0,0 +1,32 @@
+// SVG building blocks shared by the overlays that sharp renders onto images and video frames
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * An arrow from (x1, y1) to (x2, y2): a shaft ending at the base of a triangular head
+ * whose tip is (x2, y2). The head grows with the stroke width.
+ */
+export function getArrowSvgElement(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  color: string,
+  strokeWidth: number
+): string {
+  const angle = Math.atan2(y2 - y1, x2 - x1)
+  const headLength = strokeWidth * 4
+  const baseX = x2 - headLength * Math.cos(angle)
+  const baseY = y2 - headLength * Math.sin(angle)
+  const spreadX = headLength * 0.6 * Math.sin(angle)
+  const spreadY = headLength * 0.6 * Math.cos(angle)
+  return `<line x1="${x1}" y1="${y1}" x2="${baseX}" y2="${baseY}" stroke="${color}" ` +
+    `stroke-width="${strokeWidth}" stroke-linecap="round"/>` +
+    `<polygon points="${x2},${y2} ${baseX + spreadX},${baseY - spreadY} ${baseX - spreadX},${baseY + spreadY}" fill="${color}"/>`
+}
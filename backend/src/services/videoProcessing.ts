@@ -0,0 +1,789 @@
+import ffmpeg from 'fluent-ffmpeg'
+import sharp from 'sharp'
+import { v4 as uuidv4 } from 'uuid'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import { saveFile, loadToFile, getPublicUrl } from './storage.js'
+import { MediaJobContext, MediaJobError, JobCancelledError, runFfmpegJobStep, withProgressRange } from './mediaJobs.js'
+// Also configures the bundled ffmpeg/ffprobe binaries
+import { AudioFormat, AUDIO_MIME_TYPES } from './mediaFiles.js'
+import { escapeXml, getArrowSvgElement } from './svgOverlays.js'
+
+// A kept range of the source video, in source seconds, with an optional speed of its own
+export interface VideoSegment {
+  start: number
+  end: number
+  speed?: number
+}
+
+// Text over the video between start and end (source seconds)
+export interface VideoCaption {
+  start: number
+  end: number
+  text: string
+  position?: 'top' | 'bottom'
+}
+
+// An arrow from (x1, y1) to (x2, y2), or a box with those corners, in source pixels
+export interface VideoCallout {
+  start: number
+  end: number
+  shape: 'arrow' | 'box'
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  color?: string
+}
+
+export interface VideoEditOptions {
+  cropRect?: { x: number; y: number; width: number; height: number }
+  speed?: number
+  removeAudio?: boolean
+  trim?: { start: number; end: number }
+  // Cut list; when given it replaces trim, and `speed` is the default for segments without one
+  segments?: VideoSegment[]
+  // Burned in on the source timeline and frame, before any other edit
+  captions?: VideoCaption[]
+  callouts?: VideoCallout[]
+  extension?: string
+}
+
+export interface MediaConversionOptions {
+  targetFormat: 'gif' | 'mp4'
+  isEdit?: boolean
+  extension: string
+}
+
+// One clip of a combine, read from its edited (.crop.mp4) file when `isEdit` is set
+export interface CombineClip {
+  videoId: string
+  isEdit?: boolean
+  extension?: string
+}
+
+export interface AudioTrimOptions {
+  start: number  // seconds
+  end: number
+  extension: AudioFormat  // the source file's, kept for the trimmed file
+}
+
+export interface AudioConversionOptions {
+  targetFormat: AudioFormat
+  isEdit?: boolean  // read the trimmed (.crop) file
+  extension: string
+}
+
+// A new audio item file made from another item
+export type AudioItemResult = {
+  url: string
+  newItemId: string
+  format: AudioFormat
+  fileSize: number
+  duration?: number
+}
+
+export interface FrameCaptureOptions {
+  time: number  // seconds into the original (unedited) video
+  cropRect?: VideoEditOptions['cropRect']
+  extension?: string
+}
+
+export class FrameCaptureError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+const VIDEO_OUTPUT_OPTIONS = ['-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-movflags', '+faststart']
+
+const AUDIO_OUTPUT_OPTIONS: Record<AudioFormat, string[]> = {
+  mp3: ['-c:a', 'libmp3lame', '-b:a', '192k'],
+  wav: ['-c:a', 'pcm_s16le'],
+  ogg: ['-c:a', 'libvorbis', '-q:a', '5'],
+  m4a: ['-c:a', 'aac', '-b:a', '192k', '-movflags', '+faststart'],
+}
+
+function removeTempFiles(...files: string[]): void {
+  for (const file of files) {
+    try { if (fs.existsSync(file)) fs.unlinkSync(file) } catch { /* ignore */ }
+  }
+}
+
+/**
+ * Duration of a media file in seconds, or undefined when ffprobe can't tell.
+ */
+function probeDuration(filePath: string): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      const duration = err ? undefined : Number(metadata.format.duration)
+      resolve(duration && Number.isFinite(duration) ? duration : undefined)
+    })
+  })
+}
+
+function probeDimensions(filePath: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) return reject(err)
+      const videoStream = metadata.streams.find(s => s.codec_type === 'video')
+      if (!videoStream?.width || !videoStream?.height) {
+        return reject(new Error('Could not determine output dimensions'))
+      }
+      resolve({ width: videoStream.width, height: videoStream.height })
+    })
+  })
+}
+
+function probeHasAudio(filePath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      resolve(!err && metadata.streams.some(s => s.codec_type === 'audio'))
+    })
+  })
+}
+
+interface ClipInfo {
+  width: number
+  height: number
+  duration?: number
+  frameRate?: number
+  hasAudio: boolean
+}
+
+function probeClip(filePath: string): Promise<ClipInfo> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) return reject(err)
+      const videoStream = metadata.streams.find(s => s.codec_type === 'video')
+      if (!videoStream?.width || !videoStream?.height) {
+        return reject(new Error(`No video stream in ${filePath}`))
+      }
+      // r_frame_rate is a fraction such as "30000/1001"
+      const [num, den] = (videoStream.r_frame_rate || '').split('/').map(Number)
+      const frameRate = num > 0 && den > 0 ? num / den : undefined
+      const duration = Number(metadata.format.duration)
+      resolve({
+        width: videoStream.width,
+        height: videoStream.height,
+        duration: Number.isFinite(duration) && duration > 0 ? duration : undefined,
+        frameRate,
+        hasAudio: metadata.streams.some(s => s.codec_type === 'audio'),
+      })
+    })
+  })
+}
+
+function getCropFilter(cropRect: NonNullable<VideoEditOptions['cropRect']>): string {
+  const x = Math.round(cropRect.x)
+  const y = Math.round(cropRect.y)
+  const width = Math.round(cropRect.width / 2) * 2
+  const height = Math.round(cropRect.height / 2) * 2
+  return `crop=${width}:${height}:${x}:${y}`
+}
+
+// atempo only supports 0.5-2.0, so extreme speeds are chained
+function getAtempoFilters(speed: number): string[] {
+  const filters: string[] = []
+  let remainingSpeed = speed
+  while (remainingSpeed > 2.0) {
+    filters.push('atempo=2.0')
+    remainingSpeed /= 2.0
+  }
+  while (remainingSpeed < 0.5) {
+    filters.push('atempo=0.5')
+    remainingSpeed /= 0.5
+  }
+  filters.push(`atempo=${remainingSpeed}`)
+  return filters
+}
+
+const DEFAULT_CALLOUT_COLOR = '#ff3b30'
+
+/**
+ * A caption as outlined white text, centred at the top or bottom of `region`
+ * (the crop region, so it stays in view), sized to the region's height.
+ */
+function getCaptionSvgElement(caption: VideoCaption, region: { x: number; y: number; width: number; height: number }): string {
+  const fontSize = Math.max(14, Math.round(region.height * 0.06))
+  const lineHeight = Math.round(fontSize * 1.25)
+  const margin = Math.round(region.height * 0.05)
+  const lines = caption.text.split('\n')
+  const top = caption.position === 'top'
+    ? region.y + margin
+    : region.y + region.height - margin - lines.length * lineHeight
+  const centerX = region.x + region.width / 2
+  const tspans = lines
+    .map((line, i) => `<tspan x="${centerX}" y="${top + fontSize + i * lineHeight}">${escapeXml(line)}</tspan>`)
+    .join('')
+  return `<text font-family="sans-serif" font-size="${fontSize}" font-weight="bold" text-anchor="middle" ` +
+    `fill="white" stroke="black" stroke-width="${Math.max(2, fontSize / 8)}" paint-order="stroke">${tspans}</text>`
+}
+
+function getCalloutSvgElement(callout: VideoCallout, frameWidth: number, frameHeight: number): string {
+  const color = callout.color || DEFAULT_CALLOUT_COLOR
+  const strokeWidth = Math.max(3, Math.round(Math.min(frameWidth, frameHeight) * 0.006))
+  const { x1, y1, x2, y2 } = callout
+  if (callout.shape === 'box') {
+    return `<rect x="${Math.min(x1, x2)}" y="${Math.min(y1, y2)}" width="${Math.abs(x2 - x1)}" ` +
+      `height="${Math.abs(y2 - y1)}" fill="none" stroke="${color}" stroke-width="${strokeWidth}"/>`
+  }
+  return getArrowSvgElement(x1, y1, x2, y2, color, strokeWidth)
+}
+
+/**
+ * Burn captions and callouts into the full-length source. Each one is rendered to a
+ * transparent frame-sized PNG and overlaid only between its start and end times.
+ */
+async function burnInAnnotations(
+  inputPath: string,
+  outputPath: string,
+  options: VideoEditOptions,
+  context: MediaJobContext
+): Promise<void> {
+  const { width, height } = await probeDimensions(inputPath)
+  const region = options.cropRect ?? { x: 0, y: 0, width, height }
+  const annotations = [
+    ...(options.captions ?? []).map(c => ({ start: c.start, end: c.end, svg: getCaptionSvgElement(c, region) })),
+    ...(options.callouts ?? []).map(c => ({ start: c.start, end: c.end, svg: getCalloutSvgElement(c, width, height) })),
+  ]
+  const tempId = uuidv4()
+  const imagePaths = annotations.map((_, i) => path.join(os.tmpdir(), `annotation-${tempId}-${i}.png`))
+
+  try {
+    for (let i = 0; i < annotations.length; i++) {
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${annotations[i].svg}</svg>`
+      await sharp(Buffer.from(svg)).png().toFile(imagePaths[i])
+    }
+
+    // A still image input ends after one frame; overlay keeps showing it (eof_action=repeat)
+    const filters = annotations.map((annotation, i) => {
+      const from = i === 0 ? '[0:v]' : `[o${i}]`
+      const to = i === annotations.length - 1 ? '[vout]' : `[o${i + 1}]`
+      return `${from}[${i + 1}:v]overlay=0:0:enable='between(t,${annotation.start},${annotation.end})'${to}`
+    })
+
+    const cmd = ffmpeg(inputPath)
+    for (const imagePath of imagePaths) {
+      cmd.input(imagePath)
+    }
+    cmd.complexFilter(filters)
+    cmd.outputOptions(['-map', '[vout]', '-map', '0:a?', ...VIDEO_OUTPUT_OPTIONS, '-c:a', 'aac', '-b:a', '128k'])
+    cmd.output(outputPath)
+    await runFfmpegJobStep(cmd, context, { outputDuration: await probeDuration(inputPath) })
+  } finally {
+    removeTempFiles(...imagePaths)
+  }
+}
+
+/**
+ * Cut each segment out of the source, speed-change it, and concatenate the pieces
+ * in a single filter graph, cropping the joined result.
+ */
+async function editVideoSegments(
+  inputPath: string,
+  outputPath: string,
+  segments: VideoSegment[],
+  options: VideoEditOptions,
+  context: MediaJobContext
+): Promise<void> {
+  const { cropRect, speed, removeAudio } = options
+  // concat needs every input to have audio when it joins audio, so silent sources are video-only
+  const withAudio = !removeAudio && await probeHasAudio(inputPath)
+
+  const filters: string[] = []
+  const concatInputs: string[] = []
+  let outputDuration = 0
+  segments.forEach((segment, i) => {
+    const segmentSpeed = segment.speed ?? speed ?? 1
+    outputDuration += (segment.end - segment.start) / segmentSpeed
+    filters.push(`[0:v]trim=start=${segment.start}:end=${segment.end},setpts=(PTS-STARTPTS)/${segmentSpeed}[v${i}]`)
+    concatInputs.push(`[v${i}]`)
+    if (withAudio) {
+      const audioChain = [`atrim=start=${segment.start}:end=${segment.end}`, 'asetpts=PTS-STARTPTS']
+      if (segmentSpeed !== 1) {
+        audioChain.push(...getAtempoFilters(segmentSpeed))
+      }
+      filters.push(`[0:a]${audioChain.join(',')}[a${i}]`)
+      concatInputs.push(`[a${i}]`)
+    }
+  })
+  const concatOutputs = withAudio ? '[joined][aout]' : '[joined]'
+  filters.push(`${concatInputs.join('')}concat=n=${segments.length}:v=1:a=${withAudio ? 1 : 0}${concatOutputs}`)
+  filters.push(`[joined]${cropRect ? getCropFilter(cropRect) : 'null'}[vout]`)
+
+  const cmd = ffmpeg(inputPath)
+  cmd.complexFilter(filters)
+  cmd.outputOptions(['-map', '[vout]', ...VIDEO_OUTPUT_OPTIONS])
+  if (withAudio) {
+    cmd.outputOptions(['-map', '[aout]', '-c:a', 'aac', '-b:a', '128k'])
+  }
+  cmd.output(outputPath)
+  await runFfmpegJobStep(cmd, context, { outputDuration })
+}
+
+/**
+ * Crop, trim (or cut into segments), speed-change and/or burn captions and callouts into
+ * a scene video, saving the result as `<videoId>.crop.mp4` next to the original.
+ */
+export async function editVideo(
+  sceneFolder: string,
+  videoId: string,
+  options: VideoEditOptions,
+  context: MediaJobContext
+): Promise<{ fileSize: number }> {
+  const { cropRect, speed, removeAudio, trim, segments, captions, callouts } = options
+  const tempDir = os.tmpdir()
+  const inputPath = path.join(tempDir, `video-input-${uuidv4()}.mp4`)
+  const annotatedPath = path.join(tempDir, `video-annotated-${uuidv4()}.mp4`)
+  const intermediatePath = path.join(tempDir, `video-intermediate-${uuidv4()}.mp4`)
+  const outputPath = path.join(tempDir, `video-output-${uuidv4()}.mp4`)
+
+  try {
+    // Read the source straight from storage; its public URL may be private or presigned
+    const sourceKey = `${sceneFolder}/${videoId}.${options.extension || 'mp4'}`
+    if (!await loadToFile(sourceKey, inputPath)) {
+      throw new Error(`Failed to load source video: ${sourceKey}`)
+    }
+
+    const hasAnnotations = !!(captions?.length || callouts?.length)
+    const hasOtherEdits = !!(segments?.length || cropRect || (speed && speed !== 1) || removeAudio ||
+      (trim && (trim.start > 0 || trim.end > 0)))
+
+    // Annotations go onto the uncut source first, so their times and positions are the
+    // source's whatever the crop, cut or speed
+    let sourcePath = inputPath
+    if (hasAnnotations) {
+      await burnInAnnotations(inputPath, hasOtherEdits ? annotatedPath : outputPath, options,
+        hasOtherEdits ? withProgressRange(context, 0, 0.5) : context)
+      sourcePath = annotatedPath
+    }
+    if (hasOtherEdits) {
+      const editContext = hasAnnotations ? withProgressRange(context, 0.5, 1) : context
+      if (segments && segments.length > 0) {
+        await editVideoSegments(sourcePath, outputPath, segments, options, editContext)
+      } else {
+        await editVideoRange(sourcePath, intermediatePath, outputPath, options, editContext)
+      }
+    }
+
+    // Don't replace the item's edit if the job was cancelled after ffmpeg finished
+    if (context.signal.aborted) throw new JobCancelledError()
+
+    // Save to storage with .crop suffix
+    const fileSize = fs.statSync(outputPath).size
+    await saveFile(`${sceneFolder}/${videoId}.crop.mp4`, outputPath, 'video/mp4')
+    return { fileSize }
+  } finally {
+    removeTempFiles(inputPath, annotatedPath, intermediatePath, outputPath)
+  }
+}
+
+/**
+ * Crop, trim to a single range and/or speed-change the source.
+ */
+async function editVideoRange(
+  inputPath: string,
+  intermediatePath: string,
+  outputPath: string,
+  options: VideoEditOptions,
+  context: MediaJobContext
+): Promise<void> {
+  const { cropRect, speed, removeAudio, trim } = options
+  const hasTrim = !!trim && (trim.start > 0 || trim.end > 0)
+  const effectiveSpeed = speed && speed !== 1 ? speed : null
+  const trimStart = hasTrim && trim.start > 0 ? trim.start : 0
+  const trimDuration = hasTrim && trim.end > 0 ? trim.end - trimStart : 0
+
+  // Expected output lengths let progress be reported against the trimmed/sped-up result
+  const inputDuration = await probeDuration(inputPath)
+  const clipDuration = trimDuration > 0
+    ? trimDuration
+    : inputDuration !== undefined ? Math.max(0, inputDuration - trimStart) : undefined
+
+  const applyTrim = (cmd: ffmpeg.FfmpegCommand) => {
+    if (trimStart > 0) {
+      cmd.inputOptions(['-ss', String(trimStart)])
+    }
+    if (trimDuration > 0) {
+      cmd.inputOptions(['-t', String(trimDuration)])
+    }
+  }
+
+  // Use multi-pass approach when we have trim combined with crop or speed
+  // This avoids synchronization issues between input seeking and video filters
+  // Pass 1: crop + trim -> intermediate file (or output if no speed)
+  // Pass 2: speed change -> output file (only if speed is needed)
+  const needsTrimPass = hasTrim && (effectiveSpeed || cropRect)
+  const needsSpeedPass = hasTrim && effectiveSpeed
+
+  if (needsTrimPass) {
+    // PASS 1: Crop and trim
+    // Output to intermediate if we need speed pass, otherwise directly to output
+    const pass1 = ffmpeg(inputPath)
+    applyTrim(pass1)
+    if (cropRect) {
+      pass1.videoFilter([getCropFilter(cropRect)])
+    }
+    pass1.outputOptions(VIDEO_OUTPUT_OPTIONS)
+    if (removeAudio) {
+      pass1.noAudio()
+    } else {
+      pass1.outputOptions(['-c:a', 'aac', '-b:a', '128k'])
+    }
+    pass1.output(needsSpeedPass ? intermediatePath : outputPath)
+    await runFfmpegJobStep(pass1, context, {
+      outputDuration: clipDuration,
+      to: needsSpeedPass ? 0.5 : 1,
+    })
+
+    // PASS 2: Apply speed change (only if needed)
+    if (needsSpeedPass) {
+      const pass2 = ffmpeg(intermediatePath)
+      pass2.videoFilter([`setpts=PTS/${effectiveSpeed}`])
+      if (!removeAudio) {
+        pass2.audioFilter(getAtempoFilters(effectiveSpeed))
+        pass2.outputOptions(['-c:a', 'aac', '-b:a', '128k'])
+      } else {
+        pass2.noAudio()
+      }
+      pass2.outputOptions(VIDEO_OUTPUT_OPTIONS)
+      pass2.output(outputPath)
+      await runFfmpegJobStep(pass2, context, {
+        outputDuration: clipDuration !== undefined ? clipDuration / effectiveSpeed : undefined,
+        from: 0.5,
+      })
+    }
+  } else {
+    // Single pass: no trim, or no speed change
+    const videoFilters: string[] = []
+    const audioFilters: string[] = []
+    if (cropRect) {
+      videoFilters.push(getCropFilter(cropRect))
+    }
+    if (effectiveSpeed) {
+      videoFilters.push(`setpts=PTS/${effectiveSpeed}`)
+      audioFilters.push(...getAtempoFilters(effectiveSpeed))
+    }
+
+    // Trim is applied as input options for efficiency (seeks before decoding)
+    const cmd = ffmpeg(inputPath)
+    applyTrim(cmd)
+    if (videoFilters.length > 0) {
+      cmd.videoFilter(videoFilters)
+    }
+    cmd.outputOptions(VIDEO_OUTPUT_OPTIONS)
+
+    // Handle audio: remove, re-encode for speed change, or copy
+    if (removeAudio) {
+      cmd.noAudio()
+    } else if (audioFilters.length > 0 || hasTrim) {
+      if (audioFilters.length > 0) {
+        cmd.audioFilter(audioFilters)
+      }
+      cmd.outputOptions(['-c:a', 'aac', '-b:a', '128k'])
+    } else {
+      cmd.outputOptions(['-c:a', 'copy'])
+    }
+    cmd.output(outputPath)
+    await runFfmpegJobStep(cmd, context, {
+      outputDuration: clipDuration !== undefined ? clipDuration / (effectiveSpeed || 1) : undefined,
+    })
+  }
+}
+
+/**
+ * Convert a scene video to GIF or a GIF to MP4, saving the result as a new item file.
+ */
+export async function convertMedia(
+  sceneFolder: string,
+  itemId: string,
+  options: MediaConversionOptions,
+  context: MediaJobContext
+): Promise<{ url: string; newItemId: string; width: number; height: number; fileSize: number }> {
+  const { targetFormat, isEdit, extension } = options
+  const tempId = uuidv4()
+  const outputExt = targetFormat === 'gif' ? 'gif' : 'mp4'
+  const inputFile = path.join(os.tmpdir(), `convert-input-${tempId}.${extension}`)
+  const outputFile = path.join(os.tmpdir(), `convert-output-${tempId}.${outputExt}`)
+
+  try {
+    const sourceKey = `${sceneFolder}/${itemId}${isEdit ? '.crop' : ''}.${extension}`
+    if (!await loadToFile(sourceKey, inputFile)) {
+      throw new Error('Source file not found')
+    }
+    const outputDuration = await probeDuration(inputFile)
+
+    const cmd = ffmpeg(inputFile)
+    if (targetFormat === 'gif') {
+      // Video → GIF: palette-preserving conversion
+      cmd.complexFilter([
+        '[0:v]split[s0][s1]',
+        '[s0]palettegen[p]',
+        '[s1][p]paletteuse',
+      ])
+    } else {
+      // GIF → MP4: H.264 encode
+      cmd.outputOptions([...VIDEO_OUTPUT_OPTIONS, '-pix_fmt', 'yuv420p']).noAudio()
+    }
+    cmd.output(outputFile)
+    await runFfmpegJobStep(cmd, context, { outputDuration })
+
+    const { width, height } = await probeDimensions(outputFile)
+    if (context.signal.aborted) throw new JobCancelledError()
+
+    // Save converted file with new item ID
+    const newItemId = uuidv4()
+    const outputKey = `${sceneFolder}/${newItemId}.${outputExt}`
+    const fileSize = fs.statSync(outputFile).size
+    await saveFile(outputKey, outputFile, targetFormat === 'gif' ? 'image/gif' : 'video/mp4')
+
+    return { url: getPublicUrl(outputKey), newItemId, width, height, fileSize }
+  } finally {
+    removeTempFiles(inputFile, outputFile)
+  }
+}
+
+/**
+ * Join scene videos end to end into a new video item file. Every clip is scaled and
+ * letterboxed to the first clip's resolution and resampled to its frame rate; clips
+ * without audio get silence when any other clip has sound.
+ */
+export async function combineVideos(
+  sceneFolder: string,
+  clips: CombineClip[],
+  context: MediaJobContext
+): Promise<{ url: string; newItemId: string; width: number; height: number; fileSize: number; videoIds: string[] }> {
+  const tempId = uuidv4()
+  const inputFiles = clips.map((clip, i) =>
+    path.join(os.tmpdir(), `combine-input-${tempId}-${i}.${clip.isEdit ? 'mp4' : clip.extension || 'mp4'}`)
+  )
+  const outputFile = path.join(os.tmpdir(), `combine-output-${tempId}.mp4`)
+
+  try {
+    const infos: ClipInfo[] = []
+    for (let i = 0; i < clips.length; i++) {
+      const clip = clips[i]
+      const sourceKey = clip.isEdit
+        ? `${sceneFolder}/${clip.videoId}.crop.mp4`
+        : `${sceneFolder}/${clip.videoId}.${clip.extension || 'mp4'}`
+      if (!await loadToFile(sourceKey, inputFiles[i])) {
+        throw new Error(`Failed to load source video: ${sourceKey}`)
+      }
+      infos.push(await probeClip(inputFiles[i]))
+      if (context.signal.aborted) throw new JobCancelledError()
+    }
+
+    // libx264 with yuv420p needs even dimensions
+    const width = Math.round(infos[0].width / 2) * 2
+    const height = Math.round(infos[0].height / 2) * 2
+    const frameRate = Math.min(60, infos[0].frameRate ?? 30)
+    // Silence has to be generated at a known length, so audio is dropped if a silent clip's length is unknown
+    const withAudio = infos.some(info => info.hasAudio) &&
+      infos.every(info => info.hasAudio || info.duration !== undefined)
+
+    const filters: string[] = []
+    const concatInputs: string[] = []
+    infos.forEach((info, i) => {
+      filters.push(
+        `[${i}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${frameRate},format=yuv420p[v${i}]`
+      )
+      concatInputs.push(`[v${i}]`)
+      if (withAudio) {
+        filters.push(info.hasAudio
+          ? `[${i}:a]aresample=44100,aformat=channel_layouts=stereo[a${i}]`
+          : `anullsrc=r=44100:cl=stereo,atrim=0:${info.duration}[a${i}]`)
+        concatInputs.push(`[a${i}]`)
+      }
+    })
+    filters.push(`${concatInputs.join('')}concat=n=${clips.length}:v=1:a=${withAudio ? 1 : 0}[vout]${withAudio ? '[aout]' : ''}`)
+
+    const cmd = ffmpeg()
+    for (const inputFile of inputFiles) {
+      cmd.input(inputFile)
+    }
+    cmd.complexFilter(filters)
+    cmd.outputOptions(['-map', '[vout]', ...VIDEO_OUTPUT_OPTIONS])
+    if (withAudio) {
+      cmd.outputOptions(['-map', '[aout]', '-c:a', 'aac', '-b:a', '128k'])
+    }
+    cmd.output(outputFile)
+    const outputDuration = infos.every(info => info.duration !== undefined)
+      ? infos.reduce((sum, info) => sum + (info.duration ?? 0), 0)
+      : undefined
+    await runFfmpegJobStep(cmd, context, { outputDuration })
+    if (context.signal.aborted) throw new JobCancelledError()
+
+    const newItemId = uuidv4()
+    const outputKey = `${sceneFolder}/${newItemId}.mp4`
+    const fileSize = fs.statSync(outputFile).size
+    await saveFile(outputKey, outputFile, 'video/mp4')
+
+    // The clip IDs let a client that reloaded mid-job place the new item next to its sources
+    return { url: getPublicUrl(outputKey), newItemId, width, height, fileSize, videoIds: clips.map(c => c.videoId) }
+  } finally {
+    removeTempFiles(...inputFiles, outputFile)
+  }
+}
+
+/**
+ * Extract one frame of a scene video's original file as a PNG at source resolution,
+ * cropped to `cropRect`, and save it as a new item file.
+ */
+export async function captureFrame(
+  sceneFolder: string,
+  videoId: string,
+  options: FrameCaptureOptions
+): Promise<{ url: string; newItemId: string; width: number; height: number; fileSize: number }> {
+  const { time, cropRect } = options
+  const tempId = uuidv4()
+  const inputFile = path.join(os.tmpdir(), `frame-input-${tempId}.${options.extension || 'mp4'}`)
+  const outputFile = path.join(os.tmpdir(), `frame-output-${tempId}.png`)
+
+  try {
+    const sourceKey = `${sceneFolder}/${videoId}.${options.extension || 'mp4'}`
+    if (!await loadToFile(sourceKey, inputFile)) {
+      throw new FrameCaptureError('Source video not found', 404)
+    }
+    const duration = await probeDuration(inputFile)
+    if (duration !== undefined && time >= duration) {
+      throw new FrameCaptureError(`Time is past the end of the video (${duration.toFixed(2)}s)`, 400)
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      // Seeking before the input is fast and, since the frame is decoded, still frame-accurate
+      const cmd = ffmpeg(inputFile).seekInput(time).frames(1)
+      if (cropRect) {
+        cmd.videoFilter([getCropFilter(cropRect)])
+      }
+      cmd.output(outputFile)
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .run()
+    })
+    // ffmpeg succeeds without writing anything when the seek lands after the last frame
+    if (!fs.existsSync(outputFile) || fs.statSync(outputFile).size === 0) {
+      throw new FrameCaptureError('No frame at the requested time', 400)
+    }
+
+    const { width, height } = await sharp(outputFile).metadata()
+    if (!width || !height) {
+      throw new Error('Could not determine frame dimensions')
+    }
+
+    const newItemId = uuidv4()
+    const outputKey = `${sceneFolder}/${newItemId}.png`
+    const fileSize = fs.statSync(outputFile).size
+    await saveFile(outputKey, outputFile, 'image/png')
+
+    return { url: getPublicUrl(outputKey), newItemId, width, height, fileSize }
+  } finally {
+    removeTempFiles(inputFile, outputFile)
+  }
+}
+
+/**
+ * Cut a scene audio file down to [start, end], saving it in the same format as
+ * `<audioId>.crop.<ext>` next to the original.
+ */
+export async function trimAudio(
+  sceneFolder: string,
+  audioId: string,
+  options: AudioTrimOptions,
+  context: MediaJobContext
+): Promise<{ fileSize: number; duration?: number; start: number; end: number }> {
+  const { start, end, extension } = options
+  const tempId = uuidv4()
+  const inputFile = path.join(os.tmpdir(), `audio-input-${tempId}.${extension}`)
+  const outputFile = path.join(os.tmpdir(), `audio-output-${tempId}.${extension}`)
+
+  try {
+    if (!await loadToFile(`${sceneFolder}/${audioId}.${extension}`, inputFile)) {
+      throw new Error('Source audio not found')
+    }
+    // -vn drops cover art, which mp3 and m4a files carry as a video stream
+    const cmd = ffmpeg(inputFile)
+      .setStartTime(start)
+      .setDuration(end - start)
+      .outputOptions(['-vn', ...AUDIO_OUTPUT_OPTIONS[extension]])
+      .output(outputFile)
+    await runFfmpegJobStep(cmd, context, { outputDuration: end - start })
+
+    if (context.signal.aborted) throw new JobCancelledError()
+    const fileSize = fs.statSync(outputFile).size
+    const duration = await probeDuration(outputFile)
+    await saveFile(`${sceneFolder}/${audioId}.crop.${extension}`, outputFile, AUDIO_MIME_TYPES[extension])
+    // The range goes back with the result so a reloaded page can still apply the trim
+    return { fileSize, duration, start, end }
+  } finally {
+    removeTempFiles(inputFile, outputFile)
+  }
+}
+
+/**
+ * Encode the audio of a stored file (an audio item or a video) as a new audio item file.
+ */
+async function encodeAudioItem(
+  sceneFolder: string,
+  sourceKey: string,
+  targetFormat: AudioFormat,
+  context: MediaJobContext
+): Promise<AudioItemResult> {
+  const tempId = uuidv4()
+  const sourceExt = path.extname(sourceKey) || '.mp4'
+  const inputFile = path.join(os.tmpdir(), `audio-input-${tempId}${sourceExt}`)
+  const outputFile = path.join(os.tmpdir(), `audio-output-${tempId}.${targetFormat}`)
+
+  try {
+    if (!await loadToFile(sourceKey, inputFile)) {
+      throw new Error(`Source file not found: ${sourceKey}`)
+    }
+    if (!await probeHasAudio(inputFile)) {
+      throw new MediaJobError('The source has no audio track', 400)
+    }
+    const cmd = ffmpeg(inputFile)
+      .outputOptions(['-vn', ...AUDIO_OUTPUT_OPTIONS[targetFormat]])
+      .output(outputFile)
+    await runFfmpegJobStep(cmd, context, { outputDuration: await probeDuration(inputFile) })
+
+    if (context.signal.aborted) throw new JobCancelledError()
+    const newItemId = uuidv4()
+    const outputKey = `${sceneFolder}/${newItemId}.${targetFormat}`
+    const fileSize = fs.statSync(outputFile).size
+    const duration = await probeDuration(outputFile)
+    await saveFile(outputKey, outputFile, AUDIO_MIME_TYPES[targetFormat])
+
+    return { url: getPublicUrl(outputKey), newItemId, format: targetFormat, fileSize, duration }
+  } finally {
+    removeTempFiles(inputFile, outputFile)
+  }
+}
+
+/**
+ * Convert a scene audio item (or its trimmed version) to another format as a new item file.
+ */
+export function convertAudio(
+  sceneFolder: string,
+  audioId: string,
+  options: AudioConversionOptions,
+  context: MediaJobContext
+): Promise<AudioItemResult> {
+  const { targetFormat, isEdit, extension } = options
+  return encodeAudioItem(sceneFolder, `${sceneFolder}/${audioId}${isEdit ? '.crop' : ''}.${extension}`, targetFormat, context)
+}
+
+/**
+ * Save the sound of a scene video (or its edited version) as a new audio item file.
+ */
+export function extractAudio(
+  sceneFolder: string,
+  videoId: string,
+  options: AudioConversionOptions,
+  context: MediaJobContext
+): Promise<AudioItemResult> {
+  const { targetFormat, isEdit, extension } = options
+  const sourceKey = isEdit ? `${sceneFolder}/${videoId}.crop.mp4` : `${sceneFolder}/${videoId}.${extension}`
+  return encodeAudioItem(sceneFolder, sourceKey, targetFormat, context)
+}
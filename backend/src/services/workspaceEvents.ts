@@ -0,0 +1,65 @@
+// In-process pub/sub for workspace change notifications, streamed to clients over SSE
+// by routes/events.ts. Events are not persisted: clients that were disconnected fall
+// back to polling for anything they missed.
+
+export type WorkspaceEvent =
+  | { type: 'scene-saved'; sceneId: string; modifiedAt: string }
+  | { type: 'scene-deleted'; sceneId: string }
+  | { type: 'history-updated'; sceneId: string }
+  | { type: 'pinned-scenes-changed'; pinnedSceneIds: string[] }
+  | { type: 'scene-ops'; sceneId: string; ops: SceneOp[] }
+  | { type: 'presence'; sceneId: string; presence: Presence }
+  | { type: 'presence-left'; clientId: string }
+
+// A change record (in its serialized history.json form) that another client applied
+// to a scene, or reversed when undoing it
+export interface SceneOp {
+  record: { type: string; objectId: string; timestamp: number; data: Record<string, unknown> }
+  direction: 'apply' | 'reverse'
+}
+
+// Where a collaborator is pointing and what they have selected in a scene
+export interface Presence {
+  clientId: string
+  name: string
+  color: string
+  cursor: { x: number; y: number } | null
+  selectedIds: string[]
+}
+
+// Every published event carries the ID of the client that caused it (from the X-Client-Id
+// request header), so a browser tab can ignore its own changes
+export type PublishedWorkspaceEvent = WorkspaceEvent & { originClientId: string | null }
+
+type Listener = (event: PublishedWorkspaceEvent) => void
+
+const listeners = new Map<string, Set<Listener>>()
+
+export function subscribeToWorkspace(workspace: string, listener: Listener): () => void {
+  let set = listeners.get(workspace)
+  if (!set) {
+    set = new Set()
+    listeners.set(workspace, set)
+  }
+  set.add(listener)
+
+  return () => {
+    const current = listeners.get(workspace)
+    if (!current) return
+    current.delete(listener)
+    if (current.size === 0) listeners.delete(workspace)
+  }
+}
+
+export function publishWorkspaceEvent(workspace: string, event: WorkspaceEvent, originClientId?: string | null): void {
+  const set = listeners.get(workspace)
+  if (!set) return
+  const published: PublishedWorkspaceEvent = { ...event, originClientId: originClientId ?? null }
+  for (const listener of set) {
+    try {
+      listener(published)
+    } catch (err) {
+      console.error('Error delivering workspace event:', err)
+    }
+  }
+}
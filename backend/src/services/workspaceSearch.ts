@@ -0,0 +1,221 @@
+import { list, load } from './storage.js'
+import { SceneDocument, SceneDocumentItem, migrateScene } from './sceneMigrations.js'
+
+const MAX_RESULTS = 100
+const SNIPPET_RADIUS = 60  // characters of context on each side of a match
+const MAX_FILE_TEXT_LENGTH = 1_000_000  // only the start of huge text files is indexed
+const MAX_CACHED_SCENES = 500  // least recently searched scenes are dropped beyond this
+
+export interface SearchMatch {
+  sceneId: string
+  sceneName: string
+  itemId: string | null  // null when the scene name itself matched
+  itemType: string | null
+  field: string
+  snippet: string
+  // Item bounds in canvas coordinates, so the client can pan to the hit
+  bounds: { x: number; y: number; width: number; height: number } | null
+}
+
+export interface SearchResults {
+  query: string
+  matches: SearchMatch[]
+  truncated: boolean
+}
+
+// Searchable text extracted from one scene.json. Cached per scene and rebuilt when the
+// scene's modifiedAt changes, so text-file and HTML contents aren't reloaded on every query.
+interface IndexedField {
+  itemId: string | null
+  itemType: string | null
+  field: string
+  text: string
+  bounds: SearchMatch['bounds']
+}
+
+interface SceneIndex {
+  sceneName: string
+  modifiedAt: string
+  fields: IndexedField[]
+}
+
+// Keyed by scene.json key. A Map iterates in insertion order, so re-inserting on each use
+// keeps the least recently used scene first.
+const indexCache = new Map<string, SceneIndex>()
+
+function cacheSceneIndex(key: string, index: SceneIndex): void {
+  indexCache.delete(key)
+  indexCache.set(key, index)
+  while (indexCache.size > MAX_CACHED_SCENES) {
+    indexCache.delete(indexCache.keys().next().value!)
+  }
+}
+
+/**
+ * Drop a deleted scene's cached text.
+ */
+export function forgetSceneIndex(workspace: string, sceneId: string): void {
+  indexCache.delete(`${workspace}/${sceneId}/scene.json`)
+}
+
+/**
+ * Drop the cached text of every scene in a workspace, e.g. after it's renamed.
+ */
+export function forgetWorkspaceIndex(workspace: string): void {
+  for (const key of [...indexCache.keys()]) {
+    if (key.startsWith(`${workspace}/`)) indexCache.delete(key)
+  }
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+}
+
+function getBounds(item: SceneDocumentItem): SearchMatch['bounds'] {
+  const { x, y, width, height } = item
+  if (typeof x !== 'number' || typeof y !== 'number') return null
+  const scaleX = typeof item.scaleX === 'number' ? item.scaleX : 1
+  const scaleY = typeof item.scaleY === 'number' ? item.scaleY : 1
+  return {
+    x,
+    y,
+    width: typeof width === 'number' ? width * scaleX : 0,
+    height: typeof height === 'number' ? height * scaleY : 0,
+  }
+}
+
+async function indexItem(item: SceneDocumentItem, sceneFolder: string): Promise<IndexedField[]> {
+  const fields: IndexedField[] = []
+  const add = (field: string, value: unknown) => {
+    if (typeof value === 'string' && value.trim()) {
+      fields.push({ itemId: item.id, itemType: item.type, field, text: value, bounds: getBounds(item) })
+    }
+  }
+
+  // Labels, names and inline text
+  add('label', item.label)
+  add('name', item.name)
+  add('text', item.text)
+
+  // File contents stored next to the scene
+  if ((item.type === 'html' || item.type === 'text-file') && typeof item.file === 'string') {
+    const content = await load(`${sceneFolder}/${item.file}`)
+    if (content) {
+      const text = item.type === 'html' ? stripHtml(content) : content
+      add('content', text.slice(0, MAX_FILE_TEXT_LENGTH))
+    }
+  }
+  return fields
+}
+
+async function getSceneIndex(key: string, sceneJson: string): Promise<SceneIndex | null> {
+  let scene: SceneDocument
+  try {
+    scene = migrateScene(JSON.parse(sceneJson)).scene
+  } catch {
+    return null
+  }
+
+  const modifiedAt = typeof scene.modifiedAt === 'string' ? scene.modifiedAt : ''
+  const cached = indexCache.get(key)
+  if (cached && cached.modifiedAt === modifiedAt) {
+    cacheSceneIndex(key, cached)
+    return cached
+  }
+
+  const sceneFolder = key.slice(0, -'/scene.json'.length)
+  const sceneName = typeof scene.name === 'string' ? scene.name : ''
+  const fields: IndexedField[] = []
+  if (sceneName) {
+    fields.push({ itemId: null, itemType: null, field: 'scene name', text: sceneName, bounds: null })
+  }
+  for (const item of scene.items) {
+    fields.push(...await indexItem(item, sceneFolder))
+  }
+
+  const index = { sceneName, modifiedAt, fields }
+  cacheSceneIndex(key, index)
+  return index
+}
+
+// Where a lowercase term occurs in `text`, in offsets into `text` itself. Lowercasing can
+// change a string's length (e.g. 'İ' becomes two characters), so an index into the
+// lowercased string may point elsewhere in the original.
+function findTerm(text: string, term: string): { index: number; length: number } {
+  let lower = ''
+  const starts: number[] = []  // offset in `text` of the character each unit of `lower` came from
+  const ends: number[] = []
+  let offset = 0
+  for (const char of text) {
+    const lowered = char.toLowerCase()
+    for (let i = 0; i < lowered.length; i++) {
+      starts.push(offset)
+      ends.push(offset + char.length)
+    }
+    lower += lowered
+    offset += char.length
+  }
+  const at = lower.indexOf(term)
+  if (at < 0 || !term) return { index: 0, length: 0 }
+  return { index: starts[at], length: ends[at + term.length - 1] - starts[at] }
+}
+
+function makeSnippet(text: string, match: { index: number; length: number }): string {
+  const start = Math.max(0, match.index - SNIPPET_RADIUS)
+  const end = Math.min(text.length, match.index + match.length + SNIPPET_RADIUS)
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim()
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`
+}
+
+/**
+ * Case-insensitive search over the text of every scene in the workspace (not the trash or
+ * snapshots). A field matches when it contains every whitespace-separated term of the query.
+ */
+export async function searchWorkspace(workspace: string, query: string): Promise<SearchResults> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  const results: SearchResults = { query, matches: [], truncated: false }
+  if (terms.length === 0) return results
+
+  const prefix = `${workspace}/`
+  const sceneKeys = (await list(prefix)).filter((key) => {
+    const parts = key.slice(prefix.length).split('/')
+    return parts.length === 2 && parts[1] === 'scene.json'
+  })
+
+  for (const key of sceneKeys) {
+    const sceneJson = await load(key)
+    if (!sceneJson) continue
+    const index = await getSceneIndex(key, sceneJson)
+    if (!index) continue
+
+    const sceneId = key.slice(prefix.length).split('/')[0]
+    for (const field of index.fields) {
+      const lower = field.text.toLowerCase()
+      if (!terms.every((term) => lower.includes(term))) continue
+
+      if (results.matches.length >= MAX_RESULTS) {
+        results.truncated = true
+        return results
+      }
+      results.matches.push({
+        sceneId,
+        sceneName: index.sceneName,
+        itemId: field.itemId,
+        itemType: field.itemType,
+        field: field.field,
+        snippet: makeSnippet(field.text, findTerm(field.text, terms[0])),
+        bounds: field.bounds,
+      })
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,337 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import yauzl from 'yauzl'
+import yazl from 'yazl'
+import { v4 as uuidv4 } from 'uuid'
+import { list, load, loadAsBuffer, loadToFile, save, saveFile, del, exists, getPublicUrl } from './storage.js'
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  avi: 'video/x-msvideo',
+  html: 'text/html',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  json: 'application/json',
+}
+
+// JSON files that may embed full storage URLs (history records store complete items)
+const URL_BEARING_FILES = new Set(['scene.json', 'history.json'])
+
+// Imports may expand to at most this much; zip entries are checked against their declared
+// sizes, which yauzl enforces while extracting, so a zip bomb is rejected before it's read
+const MAX_IMPORT_BYTES = 4 * 1024 * 1024 * 1024
+// workspace.json and the scene and history files that get rewritten are read into memory
+const MAX_JSON_ENTRY_BYTES = 256 * 1024 * 1024
+
+export interface WorkspaceMeta {
+  name: string
+  hidden: boolean
+  createdAt: string
+  deletedAt?: string
+  pinnedSceneIds?: string[]
+  [key: string]: unknown
+}
+
+export class WorkspaceTransferError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+export function contentTypeForKey(key: string): string {
+  const ext = key.split('.').pop()?.toLowerCase() ?? ''
+  return CONTENT_TYPES[ext] || 'application/octet-stream'
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Rewrite storage URLs (S3, /api/s3-files/ or /api/local-files/) that point into `fromWorkspace` so they
+ * point at the same key under `toWorkspace` on the current storage backend (or the one
+ * whose `toPublicUrl` is given).
+ */
+export function rewriteWorkspaceUrls(
+  text: string,
+  fromWorkspace: string,
+  toWorkspace: string,
+  toPublicUrl: (key: string) => string = getPublicUrl
+): string {
+  const urlRe = new RegExp(
+    `(?:https?://[^"\\s]+?|/api/(?:local|s3)-files)/${escapeRegExp(fromWorkspace)}/([0-9a-fA-F-]{36}/[^"?#\\s\\\\]+)`,
+    'g'
+  )
+  return text.replace(urlRe, (_match, rest: string) => toPublicUrl(`${toWorkspace}/${rest}`))
+}
+
+export function needsUrlRewrite(relativePath: string): boolean {
+  const filename = relativePath.split('/').pop() ?? ''
+  return URL_BEARING_FILES.has(filename)
+}
+
+/**
+ * Load workspace.json, synthesizing minimal metadata for legacy workspaces that predate it.
+ * Returns null when the workspace has no content at all.
+ */
+export async function loadWorkspaceMeta(name: string): Promise<WorkspaceMeta | null> {
+  const raw = await load(`${name}/workspace.json`)
+  if (raw) {
+    try {
+      return { ...JSON.parse(raw), name } as WorkspaceMeta
+    } catch {
+      return { name, hidden: false, createdAt: '' }
+    }
+  }
+  const keys = await list(`${name}/`)
+  return keys.length > 0 ? { name, hidden: false, createdAt: '' } : null
+}
+
+export async function saveWorkspaceMeta(name: string, meta: WorkspaceMeta): Promise<void> {
+  await save(`${name}/workspace.json`, Buffer.from(JSON.stringify(meta, null, 2)), 'application/json')
+}
+
+async function workspaceHasContent(name: string): Promise<boolean> {
+  if (await exists(`${name}/workspace.json`)) return true
+  const keys = await list(`${name}/`)
+  return keys.length > 0
+}
+
+/**
+ * Move every key under `from/` to `to/`. All files are copied first and the originals are
+ * only deleted once every copy succeeded, so a failure part-way leaves the source intact.
+ */
+export async function renameWorkspace(from: string, to: string): Promise<{ movedCount: number }> {
+  const meta = await loadWorkspaceMeta(from)
+  if (!meta) {
+    throw new WorkspaceTransferError(`Workspace "${from}" not found`, 404)
+  }
+  if (await workspaceHasContent(to)) {
+    throw new WorkspaceTransferError(`Workspace "${to}" already exists`, 409)
+  }
+
+  const keys = await list(`${from}/`)
+  const copied: string[] = []
+  try {
+    for (const key of keys) {
+      const relativePath = key.slice(from.length + 1)
+      if (relativePath === 'workspace.json') continue
+
+      let data = await loadAsBuffer(key)
+      if (!data) {
+        throw new Error(`Failed to read ${key}`)
+      }
+      if (needsUrlRewrite(relativePath)) {
+        data = Buffer.from(rewriteWorkspaceUrls(data.toString('utf-8'), from, to))
+      }
+      const newKey = `${to}/${relativePath}`
+      await save(newKey, data, contentTypeForKey(newKey))
+      copied.push(newKey)
+    }
+    await saveWorkspaceMeta(to, { ...meta, name: to })
+  } catch (error) {
+    // Roll back the partial copy so the target name stays free
+    for (const key of copied) {
+      await del(key).catch(() => {})
+    }
+    throw error
+  }
+
+  for (const key of keys) {
+    await del(key)
+  }
+
+  return { movedCount: copied.length }
+}
+
+/**
+ * Write a zip of the whole workspace to `zipPath`: workspace.json at the root plus every
+ * scene folder. Each file is fetched from storage into a temp file only when the zip gets
+ * to it, so neither the files nor the zip are held in memory.
+ */
+export async function exportWorkspaceZip(name: string, zipPath: string): Promise<void> {
+  const meta = await loadWorkspaceMeta(name)
+  if (!meta) {
+    throw new WorkspaceTransferError(`Workspace "${name}" not found`, 404)
+  }
+
+  const zip = new yazl.ZipFile()
+  // Always write workspace.json so the importer knows the source workspace name
+  zip.addBuffer(Buffer.from(JSON.stringify(meta, null, 2)), 'workspace.json')
+
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'workspace-export-'))
+  try {
+    const keys = await list(`${name}/`)
+    for (const [index, key] of keys.entries()) {
+      const relativePath = key.slice(name.length + 1)
+      if (relativePath === 'workspace.json') continue
+      // Media is already compressed; only deflate text content
+      const compress = contentTypeForKey(key).startsWith('text/') || key.endsWith('.json')
+      zip.addReadStreamLazy(relativePath, { compress }, (callback) => {
+        const filePath = path.join(tempDir, String(index))
+        loadToFile(key, filePath)
+          .then((found) => {
+            if (!found) throw new Error(`Failed to read ${key}`)
+            const stream = fs.createReadStream(filePath)
+            stream.on('close', () => fs.promises.rm(filePath, { force: true }).catch(() => {}))
+            callback(null, stream)
+          })
+          .catch((error) => callback(error, Readable.from([])))
+      })
+    }
+    zip.end()
+
+    const output = zip.outputStream as Readable
+    zip.on('error', (error) => output.destroy(error))
+    await pipeline(output, fs.createWriteStream(zipPath))
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true })
+  }
+}
+
+function isSafeRelativePath(relativePath: string): boolean {
+  if (!relativePath || relativePath.startsWith('/') || relativePath.includes('\\')) return false
+  return relativePath.split('/').every((part) => part !== '' && part !== '.' && part !== '..')
+}
+
+function readZipEntries(zipfile: yauzl.ZipFile): Promise<yauzl.Entry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: yauzl.Entry[] = []
+    zipfile.on('entry', (entry: yauzl.Entry) => {
+      entries.push(entry)
+      zipfile.readEntry()
+    })
+    zipfile.on('end', () => resolve(entries))
+    zipfile.on('error', reject)
+    zipfile.readEntry()
+  })
+}
+
+async function readZipEntryText(zipfile: yauzl.ZipFile, entry: yauzl.Entry): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of await zipfile.openReadStreamPromise(entry)) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+/**
+ * Import a workspace zip produced by exportWorkspaceZip, read from `zipPath`. The workspace
+ * is created under `targetName` if given, otherwise under the name recorded in the zip's
+ * workspace.json. Files are extracted one at a time through a temp file.
+ */
+export async function importWorkspaceZip(
+  zipPath: string,
+  targetName: string | undefined,
+  isValidName: (name: string) => boolean
+): Promise<{ name: string; fileCount: number }> {
+  let zipfile: yauzl.ZipFile
+  let allEntries: yauzl.Entry[]
+  try {
+    zipfile = await yauzl.openPromise(zipPath, { lazyEntries: true, autoClose: false })
+    allEntries = await readZipEntries(zipfile)
+  } catch {
+    throw new WorkspaceTransferError('Invalid zip file', 400)
+  }
+  try {
+    return await importZipEntries(zipfile, allEntries, targetName, isValidName)
+  } finally {
+    zipfile.close()
+  }
+}
+
+async function importZipEntries(
+  zipfile: yauzl.ZipFile,
+  allEntries: yauzl.Entry[],
+  targetName: string | undefined,
+  isValidName: (name: string) => boolean
+): Promise<{ name: string; fileCount: number }> {
+  const metaEntry = allEntries.find((entry) => entry.fileName === 'workspace.json')
+  if (!metaEntry) {
+    throw new WorkspaceTransferError('Zip does not contain workspace.json', 400)
+  }
+  let sourceMeta: WorkspaceMeta
+  try {
+    if (metaEntry.uncompressedSize > MAX_JSON_ENTRY_BYTES) throw new Error('workspace.json is too large')
+    sourceMeta = JSON.parse(await readZipEntryText(zipfile, metaEntry))
+  } catch {
+    throw new WorkspaceTransferError('Zip contains an invalid workspace.json', 400)
+  }
+
+  const sourceName = typeof sourceMeta.name === 'string' ? sourceMeta.name : ''
+  const name = targetName || sourceName
+  if (!name || !isValidName(name)) {
+    throw new WorkspaceTransferError('Invalid workspace name', 400)
+  }
+  if (await workspaceHasContent(name)) {
+    throw new WorkspaceTransferError(`Workspace "${name}" already exists`, 409)
+  }
+
+  const entries = allEntries.filter((entry) => !entry.fileName.endsWith('/') && entry.fileName !== 'workspace.json')
+  let totalBytes = 0
+  for (const entry of entries) {
+    if (!isSafeRelativePath(entry.fileName)) {
+      throw new WorkspaceTransferError(`Invalid path in zip: ${entry.fileName}`, 400)
+    }
+    if (needsUrlRewrite(entry.fileName) && entry.uncompressedSize > MAX_JSON_ENTRY_BYTES) {
+      throw new WorkspaceTransferError(`${entry.fileName} in zip is too large`, 413)
+    }
+    totalBytes += entry.uncompressedSize
+  }
+  if (totalBytes > MAX_IMPORT_BYTES) {
+    throw new WorkspaceTransferError(`Zip expands to more than ${MAX_IMPORT_BYTES / (1024 * 1024 * 1024)}GB`, 413)
+  }
+
+  const written: string[] = []
+  const tempPath = path.join(os.tmpdir(), `workspace-import-${uuidv4()}`)
+  try {
+    for (const entry of entries) {
+      const key = `${name}/${entry.fileName}`
+      if (sourceName && needsUrlRewrite(entry.fileName)) {
+        const text = await readZipEntryText(zipfile, entry)
+        await save(key, Buffer.from(rewriteWorkspaceUrls(text, sourceName, name)), contentTypeForKey(key))
+      } else {
+        await pipeline(await zipfile.openReadStreamPromise(entry), fs.createWriteStream(tempPath))
+        await saveFile(key, tempPath, contentTypeForKey(key))
+      }
+      written.push(key)
+    }
+
+    const meta: WorkspaceMeta = {
+      ...sourceMeta,
+      name,
+      hidden: !!sourceMeta.hidden,
+      createdAt: sourceMeta.createdAt || new Date().toISOString(),
+    }
+    delete meta.deletedAt
+    await saveWorkspaceMeta(name, meta)
+  } catch (error) {
+    for (const key of written) {
+      await del(key).catch(() => {})
+    }
+    throw error
+  } finally {
+    await fs.promises.rm(tempPath, { force: true })
+  }
+
+  return { name, fileCount: written.length }
+}
@@ -7,12 +7,16 @@ import OpenSceneDialog from './components/OpenSceneDialog'
 import ConflictDialog from './components/ConflictDialog'
 import NewWorkspaceDialog from './components/NewWorkspaceDialog'
 import SwitchWorkspaceDialog from './components/SwitchWorkspaceDialog'
+import SearchDialog from './components/SearchDialog'
+import SnapshotsDialog from './components/SnapshotsDialog'
 import SettingsDialog from './components/SettingsDialog'
 import OfflineSplashDialog from './components/OfflineSplashDialog'
 import StatusBar from './components/StatusBar'
 import LoginScreen from './components/LoginScreen'
 import DebugPanel from './components/DebugPanel'
 import { useRemoteChangeDetection } from './hooks/useRemoteChangeDetection'
+import { useWorkspaceEvents } from './hooks/useWorkspaceEvents'
+import { useCollaboration } from './hooks/useCollaboration'
 import { usePromptExecution } from './hooks/usePromptExecution'
 import { useCodingRobotManager } from './hooks/useCodingRobotManager'
 import { useItemUpload } from './hooks/useItemUpload'
@@ -22,17 +26,22 @@ import { useViewportManager } from './hooks/useViewportManager'
 import { useAutoSave } from './hooks/useAutoSave'
 import { useAuth } from './hooks/useAuth'
 import { useBackgroundOperations } from './contexts/BackgroundOperationsContext'
-import { CanvasItem, Scene, TextFileFormat, Model3DFormat, SplatFormat } from './types'
-import { saveScene, loadScene, listScenes, deleteScene, loadHistory, isOfflineMode, setOfflineMode, getStorageMode, setStorageMode, StorageMode } from './api/scenes'
+import { CanvasItem, Scene, TextFileFormat, Model3DFormat, SplatFormat, AudioFormat } from './types'
+import { saveScene, loadScene, listScenes, deleteScene, loadHistory, isOfflineMode, setOfflineMode, getStorageMode, setStorageMode, StorageMode, SceneConflictError } from './api/scenes'
 import { deleteActivity } from './utils/activityStorage'
 import { getCodingRobotEnabled } from './utils/experimentalSettings'
 import { resolvePosition, randomFixedPosition, centeredAtPoint } from './utils/itemPositioning'
+import { getItemBox, getNextFrameOrder, isFrame } from './utils/frames'
+import { snapToGrid } from './utils/grid'
+import { mergeSceneItems } from './utils/sceneMerge'
+import { FRAME_DEFAULT_WIDTH, FRAME_DEFAULT_HEIGHT, FRAME_PADDING } from './constants/canvas'
 import {
   createTextItem,
   createPromptItem,
   createImageGenPromptItem,
   createHtmlGenPromptItem,
   createCodingRobotItem,
+  createFrameItem,
   createImageItem,
   createVideoItem,
   createPdfItem,
@@ -40,14 +49,19 @@ import {
   createEmbedVideoItem,
   createModel3DItem,
   createSplatItem,
+  createAudioItem,
 } from './services/itemFactory'
 import { fetchYouTubeTitle } from './api/embed'
 import { exportSceneToZip } from './utils/sceneExport'
 import { importSceneFromZip, importSceneFromDirectory } from './utils/sceneImport'
 import { uploadImage } from './api/images'
-import { generateUniqueName, getExistingImageNames, getExistingVideoNames, getExistingPdfNames, getExistingTextFileNames, getExistingModel3DNames, getExistingSplatNames } from './utils/imageNames'
+import { generateUniqueName, getExistingImageNames, getExistingVideoNames, getExistingPdfNames, getExistingTextFileNames, getExistingModel3DNames, getExistingSplatNames, getExistingAudioNames } from './utils/imageNames'
 import { loadModeSettings, setOpenScenes as saveOpenScenesToSettings, getLastWorkspace, setLastWorkspace } from './utils/settings'
 import { ACTIVE_WORKSPACE, WORKSPACE_FROM_URL } from './api/workspace'
+import { CLIENT_ID, CLIENT_ID_HEADER } from './api/events'
+import type { WorkspaceEvent } from './api/events'
+import type { SceneOp } from './api/collab'
+import type { SearchMatch } from './api/search'
 import {
   HistoryStack,
   HistoryState,
@@ -63,8 +77,18 @@ import {
   SelectionChange,
   MultiStepChange,
   ChangeRecord,
+  deserializeChangeRecord,
 } from './history'
-import type { TransformEntry } from './history'
+import type { TransformEntry, SerializedChangeRecord } from './history'
+
+// IDs of the items a remote operation removes from the scene
+function getRemovedItemIds(record: SerializedChangeRecord, direction: SceneOp['direction']): string[] {
+  if (record.type === 'multi_step') {
+    return (record.data.changes as SerializedChangeRecord[]).flatMap((r) => getRemovedItemIds(r, direction))
+  }
+  const removes = direction === 'apply' ? 'delete_object' : 'add_object'
+  return record.type === removes ? [record.objectId] : []
+}
 
 function createScene(name: string): Scene {
   const now = new Date().toISOString()
@@ -78,7 +102,7 @@ function createScene(name: string): Scene {
 }
 
 function App() {
-  const { activeCount: backgroundOpsCount, startOperation, endOperation } = useBackgroundOperations()
+  const { activeCount: backgroundOpsCount, startOperation, endOperation, jobs: backgroundJobs, cancelJob } = useBackgroundOperations()
   const [openScenes, setOpenScenes] = useState<Scene[]>([])
   const [activeSceneId, setActiveSceneId] = useState<string | null>(null)
   const canvasRef = useRef<CanvasHandle>(null)
@@ -103,6 +127,8 @@ function App() {
     settingsDialogOpen, setSettingsDialogOpen,
     newWorkspaceDialogOpen, setNewWorkspaceDialogOpen,
     switchWorkspaceDialogOpen, setSwitchWorkspaceDialogOpen,
+    snapshotsSceneId, setSnapshotsSceneId,
+    searchDialogOpen, setSearchDialogOpen,
     offlineSplashOpen, setOfflineSplashOpen,
     debugPanelOpen, setDebugPanelOpen,
     debugContent, setDebugContent,
@@ -117,7 +143,7 @@ function App() {
     }
   }, [settingsDialogOpen])
 
-  const { deleteViewport, clearViewports, reloadViewports } = useViewportManager({
+  const { deleteViewport, clearViewports, reloadViewports, focusPoint } = useViewportManager({
     activeSceneId, isLoading, storageMode, canvasRef,
   })
 
@@ -151,6 +177,13 @@ function App() {
     ? lastKnownServerModifiedAtRef.current.get(activeSceneId) ?? null
     : null
 
+  // Push notifications of changes made by other clients; polling takes over while disconnected.
+  // The handler is defined below, once setConflict is available.
+  const { connected: pushConnected } = useWorkspaceEvents({
+    isOffline,
+    onEvent: (event, originClientId) => handleWorkspaceEvent(event, originClientId),
+  })
+
   // Remote change detection
   const {
     hasConflict,
@@ -163,13 +196,67 @@ function App() {
     lastKnownServerModifiedAt,
     isOffline,
     isSaving,
+    pushConnected,
   })
 
-  const { saveStatus, setSaveStatus } = useAutoSave({
+  // Merge collaborators' edits into an open scene. They don't go into our history,
+  // so undo only ever reverses this user's own changes. The collaborator saves their own
+  // edits, so they don't change modifiedAt or make the scene need saving here.
+  const applyRemoteOps = useCallback((sceneId: string, ops: SceneOp[]) => {
+    setOpenScenes((prev) =>
+      prev.map((scene) => {
+        if (scene.id !== sceneId) return scene
+        const wasSaved = JSON.stringify(scene) === lastSavedRef.current.get(sceneId)
+        let state: HistoryState = { items: scene.items, selectedIds: [] }
+        for (const op of ops) {
+          try {
+            const record = deserializeChangeRecord(op.record)
+            state = op.direction === 'apply' ? record.apply(state) : record.reverse(state)
+          } catch (error) {
+            console.error('Failed to apply remote change:', error)
+          }
+        }
+        const merged = { ...scene, items: state.items }
+        if (wasSaved) lastSavedRef.current.set(sceneId, JSON.stringify(merged))
+        return merged
+      })
+    )
+
+    // Deselect anything a collaborator removed
+    const removedIds = new Set(ops.flatMap((op) => getRemovedItemIds(op.record, op.direction)))
+    if (removedIds.size === 0) return
+    setSelectionMap((prev) => {
+      const selected = prev.get(sceneId)
+      if (!selected?.some((id) => removedIds.has(id))) return prev
+      const newMap = new Map(prev)
+      newMap.set(sceneId, selected.filter((id) => !removedIds.has(id)))
+      return newMap
+    })
+  }, [])
+
+  // Live co-editing with other people in the workspace
+  const {
+    name: collaboratorName,
+    collaborators,
+    broadcastChange,
+    reportCursor,
+    handleEvent: handleCollaborationEvent,
+    isSceneShared,
+    isCollaborator,
+    rename: renameCollaborator,
+  } = useCollaboration({
+    sceneId: activeSceneId,
+    isOffline,
+    selectedIds,
+    onRemoteOps: applyRemoteOps,
+  })
+
+  const { saveStatus, setSaveStatus, flushSave } = useAutoSave({
     activeScene, activeSceneId, isLoading, isOffline,
     historyMap, historyVersion,
     lastSavedRef, lastSavedHistoryRef, lastKnownServerModifiedAtRef, persistedSceneIdsRef,
     setIsSaving, setConflict,
+    isSceneShared,
   })
 
   // Helper to push a change record to history
@@ -187,7 +274,8 @@ function App() {
     })
     // Trigger re-render for canUndo/canRedo
     setHistoryVersion((v) => v + 1)
-  }, [activeSceneId])
+    broadcastChange(activeSceneId, change, 'apply')
+  }, [activeSceneId, broadcastChange])
 
   // Function to load scenes from current storage provider
   // Respects settings for which scenes should be open
@@ -328,7 +416,8 @@ function App() {
         try {
           const wsRes = await fetch(`/api/workspaces/${ACTIVE_WORKSPACE}`)
           const wsData = await wsRes.json()
-          isHiddenWorkspaceRef.current = !!wsData.hidden
+          // Soft-deleted workspaces are not remembered either
+          isHiddenWorkspaceRef.current = !!wsData.hidden || !!wsData.deleted
         } catch {
           // If check fails, assume not hidden
         }
@@ -468,8 +557,10 @@ function App() {
       items: activeScene?.items ?? [],
       selectedIds: selectionMap.get(activeSceneId) ?? [],
     }
+    const record = activeHistory.peekUndo()
     const newState = activeHistory.undo(currentState)
-    if (!newState) return
+    if (!newState || !record) return
+    broadcastChange(activeSceneId, record, 'reverse')
 
     // Update scene items directly (without creating a new history entry)
     setOpenScenes((prev) =>
@@ -486,7 +577,7 @@ function App() {
       return newMap
     })
     setHistoryVersion((v) => v + 1)
-  }, [activeSceneId, activeHistory, activeScene, selectionMap])
+  }, [activeSceneId, activeHistory, activeScene, selectionMap, broadcastChange])
 
   // Redo handler
   const handleRedo = useCallback(() => {
@@ -496,8 +587,10 @@ function App() {
       items: activeScene?.items ?? [],
       selectedIds: selectionMap.get(activeSceneId) ?? [],
     }
+    const record = activeHistory.peekRedo()
     const newState = activeHistory.redo(currentState)
-    if (!newState) return
+    if (!newState || !record) return
+    broadcastChange(activeSceneId, record, 'apply')
 
     // Update scene items directly (without creating a new history entry)
     setOpenScenes((prev) =>
@@ -514,7 +607,7 @@ function App() {
       return newMap
     })
     setHistoryVersion((v) => v + 1)
-  }, [activeSceneId, activeHistory, activeScene, selectionMap])
+  }, [activeSceneId, activeHistory, activeScene, selectionMap, broadcastChange])
 
   // Keyboard shortcuts for undo/redo
   useEffect(() => {
@@ -633,17 +726,27 @@ function App() {
     if (updatedScene) {
       try {
         setSaveStatus('saving')
-        await saveScene(updatedScene)
+        const baseModifiedAt = isOfflineMode() ? undefined : lastKnownServerModifiedAtRef.current.get(id)
+        await saveScene(updatedScene, { baseModifiedAt })
         lastSavedRef.current.set(id, JSON.stringify(updatedScene))
         lastKnownServerModifiedAtRef.current.set(id, now)
         persistedSceneIdsRef.current.add(id) // Mark as persisted
         setSaveStatus('saved')
       } catch (error) {
+        if (error instanceof SceneConflictError) {
+          setSaveStatus('unsaved')
+          if (id === activeSceneId) {
+            setConflict(error.serverModifiedAt)
+          } else {
+            alert('This scene was changed elsewhere, so the rename was not saved. Switch to the scene to resolve the conflict.')
+          }
+          return
+        }
         console.error('Failed to save renamed scene:', error)
         setSaveStatus('error')
       }
     }
-  }, [])
+  }, [activeSceneId, setConflict])
 
   const closeScene = useCallback((id: string) => {
     deleteViewport(id)
@@ -740,6 +843,26 @@ function App() {
     updateActiveSceneItems((prev) => [...prev, newItem])
   }, [updateActiveSceneItems, pushChange])
 
+  const addFrameItem = useCallback((x?: number, y?: number) => {
+    const order = getNextFrameOrder(items)
+    // Added from the menu with items selected, the frame is drawn around them
+    const framed = x == null ? items.filter((item) => selectedIds.includes(item.id) && !isFrame(item)) : []
+    let newItem
+    if (framed.length > 0) {
+      const boxes = framed.map(getItemBox)
+      const left = snapToGrid(Math.min(...boxes.map((b) => b.x)) - FRAME_PADDING)
+      const top = snapToGrid(Math.min(...boxes.map((b) => b.y)) - FRAME_PADDING)
+      const right = Math.max(...boxes.map((b) => b.x + b.width)) + FRAME_PADDING
+      const bottom = Math.max(...boxes.map((b) => b.y + b.height)) + FRAME_PADDING
+      newItem = createFrameItem({ x: left, y: top }, order, { width: right - left, height: bottom - top })
+    } else {
+      const pos = resolvePosition(canvasRef.current, FRAME_DEFAULT_WIDTH, FRAME_DEFAULT_HEIGHT, x, y)
+      newItem = createFrameItem(pos, order)
+    }
+    pushChange(new AddObjectChange(newItem))
+    updateActiveSceneItems((prev) => [...prev, newItem])
+  }, [items, selectedIds, updateActiveSceneItems, pushChange])
+
   const addTextAt = useCallback(
     (x: number, y: number, text: string, optWidth?: number, topLeft?: boolean): string => {
       const width = optWidth ?? 400
@@ -753,12 +876,12 @@ function App() {
   )
 
   const addImageAt = useCallback(
-    (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, originalWidth?: number, originalHeight?: number, fileSize?: number) => {
+    (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, originalWidth?: number, originalHeight?: number, fileSize?: number, originalSrc?: string) => {
       const existingNames = getExistingImageNames(items)
       const uniqueName = generateUniqueName(name || 'Image', existingNames)
 
       const pos = centeredAtPoint(x, y, width)
-      const newItem = createImageItem(id, pos, src, width, height, { name: uniqueName, originalWidth, originalHeight, fileSize })
+      const newItem = createImageItem(id, pos, src, width, height, { name: uniqueName, originalWidth, originalHeight, fileSize, originalSrc })
       pushChange(new AddObjectChange(newItem))
       updateActiveSceneItems((prev) => [...prev, newItem])
     },
@@ -837,6 +960,19 @@ function App() {
     [updateActiveSceneItems, pushChange, items]
   )
 
+  const addAudioAt = useCallback(
+    (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, fileSize?: number, format?: string, duration?: number) => {
+      const existingNames = getExistingAudioNames(items)
+      const uniqueName = generateUniqueName(name || 'Audio', existingNames)
+
+      const pos = centeredAtPoint(x, y, width)
+      const newItem = createAudioItem(id, pos, src, width, height, { name: uniqueName, fileSize, format: (format || 'mp3') as AudioFormat, duration })
+      pushChange(new AddObjectChange(newItem))
+      updateActiveSceneItems((prev) => [...prev, newItem])
+    },
+    [updateActiveSceneItems, pushChange, items]
+  )
+
   const addEmbedVideoAt = useCallback(
     (x: number, y: number, videoId: string, startTime?: number) => {
       const pos = centeredAtPoint(x, y, 560)
@@ -853,14 +989,14 @@ function App() {
     [updateActiveSceneItems, pushChange]
   )
 
-  const { videoPlaceholders, handleAddImage, handleAddVideo, handleAddPdf, handleAddTextFile, handleAddModel3D, handleAddSplat, handleUploadVideoAt } = useItemUpload({
+  const { videoPlaceholders, uploadProgress, handleAddImage, handleAddVideo, handleAddPdf, handleAddTextFile, handleAddModel3D, handleAddSplat, handleAddAudio, handleUploadVideoAt, handleUploadAudioAt, handleUploadImageAt } = useItemUpload({
     activeSceneId, isOffline, startOperation, endOperation,
-    addImageItem, addVideoItem, addVideoAt, addPdfAt, addTextFileAt, addModel3DAt, addSplatAt,
+    addImageItem, addImageAt, addVideoItem, addVideoAt, addPdfAt, addTextFileAt, addModel3DAt, addSplatAt, addAudioAt,
   })
 
   const { handleEmptyStateDrop } = useFileDrop({
     activeSceneId, isOffline, startOperation, endOperation,
-    addImageAt, handleUploadVideoAt, addPdfAt, addTextFileAt, addModel3DAt, addSplatAt,
+    addImageAt, handleUploadImageAt, handleUploadVideoAt, handleUploadAudioAt, addPdfAt, addTextFileAt, addModel3DAt, addSplatAt,
   })
 
   const updateItem = useCallback(
@@ -872,13 +1008,14 @@ function App() {
         // Determine change type and create appropriate record
         const hasTransform = 'x' in changes || 'y' in changes || 'width' in changes ||
           'height' in changes || 'scaleX' in changes || 'scaleY' in changes || 'rotation' in changes ||
-          'cropRect' in changes || 'cropSrc' in changes
+          'cropRect' in changes || 'cropSrc' in changes || 'edits' in changes || 'annotations' in changes ||
+          'order' in changes
         const hasText = 'text' in changes && item.type === 'text'
         const hasPromptText = ('text' in changes || 'label' in changes) &&
           (item.type === 'prompt' || item.type === 'image-gen-prompt' || item.type === 'html-gen-prompt' || item.type === 'coding-robot')
         const hasModel = 'model' in changes &&
           (item.type === 'prompt' || item.type === 'image-gen-prompt' || item.type === 'html-gen-prompt')
-        const hasName = 'name' in changes && (item.type === 'image' || item.type === 'video' || item.type === 'pdf' || item.type === 'text-file' || item.type === 'model3d' || item.type === 'splat')
+        const hasName = 'name' in changes && (item.type === 'image' || item.type === 'video' || item.type === 'pdf' || item.type === 'text-file' || item.type === 'model3d' || item.type === 'splat' || item.type === 'audio' || item.type === 'frame')
 
         if (hasText && item.type === 'text') {
           // Only record if text actually changed
@@ -897,7 +1034,7 @@ function App() {
           if (item.model !== changes.model) {
             pushChange(new UpdateModelChange(id, item.model, changes.model as string))
           }
-        } else if (hasName && (item.type === 'image' || item.type === 'video' || item.type === 'pdf' || item.type === 'text-file')) {
+        } else if (hasName && (item.type === 'image' || item.type === 'video' || item.type === 'pdf' || item.type === 'text-file' || item.type === 'frame')) {
           // Only record if name actually changed
           const oldName = item.name
           const newName = changes.name as string | undefined
@@ -913,7 +1050,11 @@ function App() {
         } else if (hasTransform) {
           const oldTransform = { x: item.x, y: item.y, width: item.width, height: item.height }
           if (item.type === 'image') {
-            Object.assign(oldTransform, { scaleX: item.scaleX, scaleY: item.scaleY, rotation: item.rotation, cropRect: item.cropRect ?? null, cropSrc: item.cropSrc ?? null })
+            Object.assign(oldTransform, { scaleX: item.scaleX, scaleY: item.scaleY, rotation: item.rotation, cropRect: item.cropRect ?? null, cropSrc: item.cropSrc ?? null,
+              edits: item.edits ?? null, editFormat: item.editFormat ?? null, editQuality: item.editQuality ?? null,
+              annotations: item.annotations ?? null })
+          } else if (item.type === 'frame') {
+            Object.assign(oldTransform, { order: item.order })
           }
           const newTransform = { ...oldTransform }
           if ('x' in changes) newTransform.x = changes.x as number
@@ -925,6 +1066,11 @@ function App() {
           if ('rotation' in changes) (newTransform as Record<string, unknown>).rotation = changes.rotation
           if ('cropRect' in changes) (newTransform as Record<string, unknown>).cropRect = (changes as Record<string, unknown>).cropRect ?? null
           if ('cropSrc' in changes) (newTransform as Record<string, unknown>).cropSrc = (changes as Record<string, unknown>).cropSrc ?? null
+          if ('edits' in changes) (newTransform as Record<string, unknown>).edits = (changes as Record<string, unknown>).edits ?? null
+          if ('editFormat' in changes) (newTransform as Record<string, unknown>).editFormat = (changes as Record<string, unknown>).editFormat ?? null
+          if ('editQuality' in changes) (newTransform as Record<string, unknown>).editQuality = (changes as Record<string, unknown>).editQuality ?? null
+          if ('annotations' in changes) (newTransform as Record<string, unknown>).annotations = (changes as Record<string, unknown>).annotations ?? null
+          if ('order' in changes) (newTransform as Record<string, unknown>).order = changes.order
           // Only record if transform actually changed
           if (JSON.stringify(oldTransform) !== JSON.stringify(newTransform)) {
             pushChange(new TransformObjectChange(id, oldTransform, newTransform))
@@ -1196,7 +1342,7 @@ function App() {
     try {
       await fetch(`/api/workspaces/${ACTIVE_WORKSPACE}/pinned-scenes`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', [CLIENT_ID_HEADER]: CLIENT_ID },
         body: JSON.stringify({ sceneIds }),
       })
     } catch (error) {
@@ -1227,6 +1373,9 @@ function App() {
       } else if ((e.ctrlKey || e.metaKey) && e.shiftKey && (e.key === 'o' || e.key === 'O')) {
         e.preventDefault()
         if (storageMode !== 'offline') setSwitchWorkspaceDialogOpen(true)
+      } else if ((e.ctrlKey || e.metaKey) && e.shiftKey && (e.key === 'f' || e.key === 'F')) {
+        e.preventDefault()
+        if (storageMode !== 'offline') setSearchDialogOpen(true)
       }
     }
 
@@ -1285,46 +1434,168 @@ function App() {
     }
   }, [openScenes])
 
-  // Conflict resolution: Get remote version
-  const handleGetRemote = useCallback(async () => {
-    if (!activeSceneId) return
+  // Jump to a search result: open its scene if needed, center the hit and select it
+  const handleSearchResultSelect = useCallback(async (match: SearchMatch) => {
+    setSearchDialogOpen(false)
+    if (match.bounds) {
+      // Set before activating, so the viewport is restored when the scene switches
+      focusPoint(match.sceneId, {
+        x: match.bounds.x + match.bounds.width / 2,
+        y: match.bounds.y + match.bounds.height / 2,
+      })
+    }
+    if (openScenes.some((s) => s.id === match.sceneId)) {
+      setActiveSceneId(match.sceneId)
+    } else {
+      await handleOpenScenes([match.sceneId])
+    }
+    if (match.itemId) {
+      const itemId = match.itemId
+      setSelectionMap((prev) => {
+        const newMap = new Map(prev)
+        newMap.set(match.sceneId, [itemId])
+        return newMap
+      })
+    }
+  }, [openScenes, focusPoint, handleOpenScenes])
+
+  // Replace an open scene (and its history) with the version stored on the server
+  const reloadSceneFromServer = useCallback(async (sceneId: string) => {
+    // Load the remote scene
+    const remoteScene = await loadScene(sceneId)
 
+    // Load the remote history
+    let history: HistoryStack
     try {
-      // Load the remote scene
-      const remoteScene = await loadScene(activeSceneId)
+      const serializedHistory = await loadHistory(sceneId)
+      history = HistoryStack.deserialize(serializedHistory)
+      lastSavedHistoryRef.current.set(sceneId, JSON.stringify(serializedHistory))
+    } catch {
+      history = new HistoryStack()
+    }
 
-      // Load the remote history
-      let history: HistoryStack
-      try {
-        const serializedHistory = await loadHistory(activeSceneId)
-        history = HistoryStack.deserialize(serializedHistory)
-        lastSavedHistoryRef.current.set(activeSceneId, JSON.stringify(serializedHistory))
-      } catch {
-        history = new HistoryStack()
-      }
+    // Update the scene in state
+    setOpenScenes((prev) =>
+      prev.map((scene) => (scene.id === sceneId ? remoteScene : scene))
+    )
+    lastSavedRef.current.set(sceneId, JSON.stringify(remoteScene))
+    lastKnownServerModifiedAtRef.current.set(sceneId, remoteScene.modifiedAt)
+    persistedSceneIdsRef.current.add(sceneId) // Mark as persisted (loaded from server)
 
-      // Update the scene in state
-      setOpenScenes((prev) =>
-        prev.map((scene) => (scene.id === activeSceneId ? remoteScene : scene))
-      )
-      lastSavedRef.current.set(activeSceneId, JSON.stringify(remoteScene))
-      lastKnownServerModifiedAtRef.current.set(activeSceneId, remoteScene.modifiedAt)
-      persistedSceneIdsRef.current.add(activeSceneId) // Mark as persisted (loaded from server)
+    // Update history
+    setHistoryMap((prev) => {
+      const newMap = new Map(prev)
+      newMap.set(sceneId, history)
+      return newMap
+    })
+    setHistoryVersion((v) => v + 1)
 
-      // Update history
-      setHistoryMap((prev) => {
-        const newMap = new Map(prev)
-        newMap.set(activeSceneId, history)
-        return newMap
-      })
-      setHistoryVersion((v) => v + 1)
+    // Clear selection
+    setSelectionMap((prev) => {
+      const newMap = new Map(prev)
+      newMap.set(sceneId, [])
+      return newMap
+    })
+  }, [])
 
-      // Clear selection
-      setSelectionMap((prev) => {
-        const newMap = new Map(prev)
-        newMap.set(activeSceneId, [])
-        return newMap
-      })
+  // Changes made by other clients, pushed over the workspace event stream
+  const handleWorkspaceEvent = useCallback((event: WorkspaceEvent, originClientId: string | null) => {
+    handleCollaborationEvent(event)
+    const fromCollaborator = !!originClientId && isCollaborator(originClientId)
+
+    switch (event.type) {
+      case 'scene-saved': {
+        if (!event.modifiedAt) return
+        if (fromCollaborator) {
+          // Not a conflict: most of their edits reached us as scene-ops, and the rest (e.g.
+          // video edits or LLM output) are merged in from their save. Our next save then
+          // builds on top of it.
+          if (!lastKnownServerModifiedAtRef.current.has(event.sceneId)) return
+          const sceneId = event.sceneId
+          if (!openScenes.some((s) => s.id === sceneId)) {
+            lastKnownServerModifiedAtRef.current.set(sceneId, event.modifiedAt)
+            return
+          }
+          loadScene(sceneId)
+            .then((remoteScene) => {
+              setOpenScenes((prev) =>
+                prev.map((scene) => {
+                  if (scene.id !== sceneId) return scene
+                  const lastSaved = lastSavedRef.current.get(sceneId)
+                  const base: CanvasItem[] = lastSaved ? (JSON.parse(lastSaved) as Scene).items : []
+                  const merged = { ...scene, items: mergeSceneItems(base, scene.items, remoteScene.items) }
+                  // Their save is the new base: only what differs from it is left to save
+                  lastSavedRef.current.set(sceneId, JSON.stringify({ ...merged, items: remoteScene.items }))
+                  lastKnownServerModifiedAtRef.current.set(sceneId, remoteScene.modifiedAt)
+                  return merged
+                })
+              )
+            })
+            .catch((error) => console.error('Failed to merge a collaborator\'s save:', error))
+          return
+        }
+        if (event.sceneId !== activeSceneId) return
+        if (event.modifiedAt !== lastKnownServerModifiedAtRef.current.get(event.sceneId)) {
+          setConflict(event.modifiedAt)
+        }
+        return
+      }
+      case 'scene-deleted': {
+        const scene = openScenes.find((s) => s.id === event.sceneId)
+        if (!scene) return
+        const hasUnsavedChanges = JSON.stringify(scene) !== lastSavedRef.current.get(scene.id)
+        if (hasUnsavedChanges && confirm(`"${scene.name}" was deleted in another window. Keep your open copy? It will be saved as a new scene.`)) {
+          // Save it again unconditionally, as if it were new
+          lastKnownServerModifiedAtRef.current.delete(scene.id)
+          persistedSceneIdsRef.current.delete(scene.id)
+          lastSavedRef.current.set(scene.id, '')
+          return
+        }
+        // Saving the open copy would bring the scene back, so close it
+        lastSavedRef.current.delete(scene.id)
+        lastSavedHistoryRef.current.delete(scene.id)
+        lastKnownServerModifiedAtRef.current.delete(scene.id)
+        persistedSceneIdsRef.current.delete(scene.id)
+        if (scene.id === activeSceneId) clearConflict()
+        closeScene(scene.id)
+        if (!hasUnsavedChanges) {
+          alert(`"${scene.name}" was deleted in another window and has been closed.`)
+        }
+        return
+      }
+      case 'history-updated': {
+        // A collaborator's history holds their own undo records, and their edits are merged already
+        if (fromCollaborator) return
+        const scene = openScenes.find((s) => s.id === event.sceneId)
+        if (!scene) return
+        // With nothing unsaved here, take the server's scene and history together so they
+        // stay consistent. Otherwise the scene-saved conflict lets the user choose.
+        const history = historyMap.get(scene.id)
+        const sceneClean = JSON.stringify(scene) === lastSavedRef.current.get(scene.id)
+        const historyClean = !history || JSON.stringify(history.serialize()) === lastSavedHistoryRef.current.get(scene.id)
+        if (!sceneClean || !historyClean) return
+        reloadSceneFromServer(scene.id)
+          .then(() => {
+            if (scene.id === activeSceneId) clearConflict()
+          })
+          .catch((error) => console.error('Failed to reload scene after a history update:', error))
+        return
+      }
+      case 'pinned-scenes-changed':
+        // Pinned scenes are what a client with nothing open starts with
+        if (openScenes.length === 0 && !isLoading && event.pinnedSceneIds.length > 0) {
+          handleOpenScenes(event.pinnedSceneIds)
+        }
+        return
+    }
+  }, [activeSceneId, openScenes, historyMap, isLoading, setConflict, clearConflict, closeScene, handleOpenScenes, reloadSceneFromServer, handleCollaborationEvent, isCollaborator])
+
+  // Conflict resolution: Get remote version
+  const handleGetRemote = useCallback(async () => {
+    if (!activeSceneId) return
+
+    try {
+      await reloadSceneFromServer(activeSceneId)
 
       // Clear conflict state
       clearConflict()
@@ -1333,7 +1604,25 @@ function App() {
       console.error('Failed to load remote scene:', error)
       alert('Failed to load the remote version. Please try again.')
     }
-  }, [activeSceneId, clearConflict])
+  }, [activeSceneId, clearConflict, reloadSceneFromServer])
+
+  // Snapshot restored on the server: pick up the restored scene
+  const handleSnapshotRestored = useCallback(async (sceneId: string) => {
+    try {
+      await reloadSceneFromServer(sceneId)
+    } catch (error) {
+      console.error('Failed to reload restored scene:', error)
+      alert('Snapshot restored, but the scene could not be reloaded. Please reopen it.')
+    }
+  }, [reloadSceneFromServer])
+
+  // Snapshots are taken from the server's copy, so save what's on screen first. Only the
+  // active scene autosaves; other open scenes must already be saved.
+  const saveSceneForSnapshot = useCallback(async (sceneId: string): Promise<boolean> => {
+    if (sceneId === activeSceneId) return flushSave()
+    const scene = openScenes.find((s) => s.id === sceneId)
+    return !scene || JSON.stringify(scene) === lastSavedRef.current.get(sceneId)
+  }, [activeSceneId, openScenes, flushSave])
 
   // Conflict resolution: Keep local version (force save)
   const handleKeepLocal = useCallback(async () => {
@@ -1438,6 +1727,13 @@ function App() {
     }
   }, [activeSceneId, isLoading, checkRemoteChanges])
 
+  // Events sent while the stream was down are lost, so catch up whenever it (re)connects
+  useEffect(() => {
+    if (pushConnected && activeSceneId && !isLoading) {
+      checkRemoteChanges()
+    }
+  }, [pushConnected]) // eslint-disable-line react-hooks/exhaustive-deps
+
   if (authRequired && !authenticated) {
     return <LoginScreen serverName={serverName} onSuccess={handleLoginSuccess} />
   }
@@ -1460,10 +1756,12 @@ function App() {
         onAddTextFile={handleAddTextFile}
         onAddModel3D={handleAddModel3D}
         onAddSplat={handleAddSplat}
+        onAddAudio={handleAddAudio}
         onAddPrompt={addPromptItem}
         onAddImageGenPrompt={addImageGenPromptItem}
         onAddHtmlGenPrompt={addHtmlGenPromptItem}
         onAddCodingRobot={codingRobotEnabled ? addCodingRobotItem : undefined}
+        onAddFrame={addFrameItem}
         onUndo={handleUndo}
         onRedo={handleRedo}
         canUndo={canUndo}
@@ -1471,6 +1769,7 @@ function App() {
         onNewScene={addScene}
         onOpenScene={handleOpenSceneDialog}
         onExportScene={handleExportScene}
+        onExportImage={() => canvasRef.current?.exportImage()}
         onImportSceneFromZip={handleImportFromZip}
         onImportSceneFromFolder={handleImportFromFolder}
         onGetSceneJson={() => activeScene ? JSON.stringify(activeScene, null, 2) : '{}'}
@@ -1520,8 +1819,10 @@ function App() {
         onLogout={authRequired ? handleLogout : undefined}
         onNewWorkspace={storageMode !== 'offline' ? () => setNewWorkspaceDialogOpen(true) : undefined}
         onSwitchWorkspace={storageMode !== 'offline' ? () => setSwitchWorkspaceDialogOpen(true) : undefined}
+        onSearch={storageMode !== 'offline' ? () => setSearchDialogOpen(true) : undefined}
         onResetZoom={() => canvasRef.current?.resetZoom()}
         onFitToView={() => canvasRef.current?.fitToView()}
+        onPresent={items.some(isFrame) ? () => canvasRef.current?.present() : undefined}
         serverName={serverName}
         workspaceName={ACTIVE_WORKSPACE}
         sceneName={activeScene?.name}
@@ -1536,6 +1837,7 @@ function App() {
         onDeleteScene={handleDeleteScene}
         onOpenScenes={handleOpenScenes}
         onPinCurrentScenes={storageMode !== 'offline' ? handlePinCurrentScenes : undefined}
+        onManageSnapshots={storageMode !== 'offline' ? setSnapshotsSceneId : undefined}
       />
       {activeScene ? (
         <InfiniteCanvas
@@ -1545,6 +1847,8 @@ function App() {
           sceneId={activeSceneId || ''}
           onUpdateItem={updateItem}
           onBatchTransform={batchTransform}
+          collaborators={collaborators}
+          onCursorMove={reportCursor}
           onSelectItems={selectItems}
           onAddTextAt={addTextAt}
           onAddImageAt={addImageAt}
@@ -1571,13 +1875,17 @@ function App() {
           onAddImageGenPrompt={addImageGenPromptItem}
           onAddHtmlGenPrompt={addHtmlGenPromptItem}
           onAddCodingRobot={codingRobotEnabled ? addCodingRobotItem : undefined}
+          onAddFrame={addFrameItem}
           videoPlaceholders={videoPlaceholders}
           onUploadVideoAt={handleUploadVideoAt}
+          onUploadAudioAt={handleUploadAudioAt}
+          onUploadImageAt={handleUploadImageAt}
           onAddPdfAt={addPdfAt}
           onTogglePdfMinimized={togglePdfMinimized}
           onAddModel3DAt={addModel3DAt}
           onToggleModel3DMinimized={toggleModel3DMinimized}
           onAddSplatAt={addSplatAt}
+          onAddAudioAt={addAudioAt}
           onToggleSplatMinimized={toggleSplatMinimized}
           onAddTextFileAt={addTextFileAt}
           onToggleTextFileMinimized={toggleTextFileMinimized}
@@ -1610,12 +1918,18 @@ function App() {
         isOffline={isOffline}
         onSetOfflineMode={handleSetOfflineMode}
         backgroundOperationsCount={backgroundOpsCount}
+        uploadProgress={uploadProgress}
+        backgroundJobs={backgroundJobs}
+        onCancelJob={cancelJob}
         storageMode={storageMode}
         onOpenSettings={() => setSettingsDialogOpen(true)}
         onStorageModeSync={handleStorageModeSync}
         onStorageModeChange={handleStorageModeChange}
         serverName={serverName}
         workspaceName={ACTIVE_WORKSPACE}
+        collaborators={collaborators}
+        collaboratorName={collaboratorName}
+        onRenameCollaborator={renameCollaborator}
       />
       <OpenSceneDialog
         isOpen={openSceneDialogOpen}
@@ -1650,6 +1964,21 @@ function App() {
         onSwitch={handleSwitchWorkspace}
         onCancel={() => setSwitchWorkspaceDialogOpen(false)}
       />
+      <SnapshotsDialog
+        isOpen={snapshotsSceneId !== null}
+        sceneId={snapshotsSceneId}
+        sceneName={openScenes.find((s) => s.id === snapshotsSceneId)?.name ?? ''}
+        baseModifiedAt={snapshotsSceneId ? lastKnownServerModifiedAtRef.current.get(snapshotsSceneId) : undefined}
+        onSaveScene={saveSceneForSnapshot}
+        onRestored={handleSnapshotRestored}
+        onBranched={(newSceneId) => handleOpenScenes([newSceneId])}
+        onClose={() => setSnapshotsSceneId(null)}
+      />
+      <SearchDialog
+        isOpen={searchDialogOpen && storageMode !== 'offline'}
+        onSelect={handleSearchResultSelect}
+        onCancel={() => setSearchDialogOpen(false)}
+      />
       <OfflineSplashDialog
         isOpen={offlineSplashOpen}
         onClose={() => setOfflineSplashOpen(false)}
@@ -0,0 +1,146 @@
+import { ACTIVE_WORKSPACE } from './workspace'
+import { uploadFileResumable, UploadProgress } from './uploads'
+import { MediaJob, waitForJob } from './jobs'
+import type { AudioFormat } from '../types'
+import { AUDIO_EXTENSION_PATTERN } from '../constants/canvas'
+
+const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/items`
+
+export interface UploadAudioResult {
+  success: boolean
+  url: string
+}
+
+// A new audio item file made on the server from another item
+export interface AudioItemResult {
+  url: string
+  newItemId: string
+  format: AudioFormat
+  fileSize: number
+  duration?: number
+}
+
+/**
+ * Upload an audio file to storage and return the result.
+ * Sent as a chunked, resumable upload. In offline mode, returns a blob URL instead.
+ */
+export async function uploadAudio(
+  file: File,
+  sceneId: string,
+  itemId: string,
+  isOffline: boolean = false,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<UploadAudioResult> {
+  if (isOffline) {
+    return { success: true, url: URL.createObjectURL(file) }
+  }
+
+  return uploadFileResumable(file, { sceneId, itemId, kind: 'audio', filename: file.name, onProgress })
+}
+
+/**
+ * Check whether a File is a supported audio format. An .ogg file counts as audio unless
+ * the browser says it's a video, so check this before isVideoFile.
+ */
+export function isAudioFile(file: File): boolean {
+  if (!AUDIO_EXTENSION_PATTERN.test(file.name)) return false
+  return !file.type.startsWith('video/')
+}
+
+/** Extract the AudioFormat from a filename */
+export function getAudioFormat(filename: string): AudioFormat {
+  const match = filename.match(AUDIO_EXTENSION_PATTERN)
+  return (match ? match[1].toLowerCase() : 'mp3') as AudioFormat
+}
+
+/**
+ * Duration of an audio file in seconds, or undefined if the browser can't read it.
+ */
+export function getAudioDuration(file: File): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const audio = document.createElement('audio')
+    const url = URL.createObjectURL(file)
+    const finish = (duration?: number) => {
+      URL.revokeObjectURL(url)
+      audio.src = ''
+      resolve(duration && Number.isFinite(duration) ? duration : undefined)
+    }
+    audio.preload = 'metadata'
+    audio.onloadedmetadata = () => finish(audio.duration)
+    audio.onerror = () => finish()
+    audio.src = url
+  })
+}
+
+async function startJob(endpoint: string, body: unknown, action: string): Promise<MediaJob> {
+  const response = await fetch(`${API_BASE}/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  if (!response.ok) {
+    let errorDetail = response.statusText
+    try {
+      const errorJson = await response.json()
+      errorDetail = errorJson.error || errorDetail
+    } catch { /* ignore parse error */ }
+    throw new Error(`Failed to ${action}: ${errorDetail}`)
+  }
+  const { job } = await response.json() as { job: MediaJob }
+  return job
+}
+
+/**
+ * Trim an audio item to [start, end] on the server, saved as its edited (.crop) file in
+ * the original's format. Runs as a background job; `onJob` receives it as it progresses.
+ * @param extension - The original audio file extension
+ */
+export async function trimAudio(
+  sceneId: string,
+  audioId: string,
+  start: number,
+  end: number,
+  extension: AudioFormat,
+  onJob?: (job: MediaJob) => void
+): Promise<{ fileSize: number; duration?: number }> {
+  const job = await startJob('trim-audio', { sceneId, audioId, start, end, extension }, 'trim audio')
+  onJob?.(job)
+  const finished = await waitForJob(job.id, onJob)
+  return finished.result as unknown as { fileSize: number; duration?: number }
+}
+
+/**
+ * Convert an audio item (or its trimmed version) to another format as a new audio file.
+ * @param extension - The original audio file extension
+ */
+export async function convertAudio(
+  sceneId: string,
+  audioId: string,
+  targetFormat: AudioFormat,
+  isEdit: boolean,
+  extension: AudioFormat,
+  onJob?: (job: MediaJob) => void
+): Promise<AudioItemResult> {
+  const job = await startJob('convert-media', { sceneId, itemId: audioId, targetFormat, isEdit, extension }, 'convert audio')
+  onJob?.(job)
+  const finished = await waitForJob(job.id, onJob)
+  return finished.result as unknown as AudioItemResult
+}
+
+/**
+ * Save a video's sound (from its edited version when `isEdit`) as a new audio file.
+ * @param extension - The original video file extension (ignored for edits, which are mp4)
+ */
+export async function extractAudio(
+  sceneId: string,
+  videoId: string,
+  isEdit: boolean,
+  extension: string,
+  targetFormat: AudioFormat = 'm4a',
+  onJob?: (job: MediaJob) => void
+): Promise<AudioItemResult> {
+  const job = await startJob('extract-audio', { sceneId, videoId, isEdit, extension, targetFormat }, 'extract audio')
+  onJob?.(job)
+  const finished = await waitForJob(job.id, onJob)
+  return finished.result as unknown as AudioItemResult
+}
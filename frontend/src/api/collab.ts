@@ -0,0 +1,50 @@
+import { ACTIVE_WORKSPACE } from './workspace'
+import { CLIENT_ID, CLIENT_ID_HEADER } from './events'
+import { validateUuid } from '../utils/validation'
+import type { SerializedChangeRecord } from '../history'
+
+const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/collab`
+
+/**
+ * An item-level edit broadcast to other clients: a change record in its history.json
+ * form, applied (a new change or redo) or reversed (undo).
+ */
+export interface SceneOp {
+  record: SerializedChangeRecord
+  direction: 'apply' | 'reverse'
+}
+
+/**
+ * A collaborator's cursor (in canvas coordinates) and selection in a scene.
+ */
+export interface Presence {
+  clientId: string
+  name: string
+  color: string
+  cursor: { x: number; y: number } | null
+  selectedIds: string[]
+}
+
+export async function sendSceneOps(sceneId: string, ops: SceneOp[]): Promise<void> {
+  validateUuid(sceneId, 'scene ID')
+  const response = await fetch(`${API_BASE}/${sceneId}/ops`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [CLIENT_ID_HEADER]: CLIENT_ID },
+    body: JSON.stringify({ ops }),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to send scene operations: ${response.statusText}`)
+  }
+}
+
+export async function sendPresence(sceneId: string, presence: Omit<Presence, 'clientId'>): Promise<void> {
+  validateUuid(sceneId, 'scene ID')
+  const response = await fetch(`${API_BASE}/${sceneId}/presence`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [CLIENT_ID_HEADER]: CLIENT_ID },
+    body: JSON.stringify(presence),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to send presence: ${response.statusText}`)
+  }
+}
@@ -0,0 +1,83 @@
+import { v4 as uuidv4 } from 'uuid'
+import { ACTIVE_WORKSPACE } from './workspace'
+import type { SceneOp, Presence } from './collab'
+
+// Identifies this browser tab to the server. Sent as X-Client-Id on writes so the
+// events they cause can be told apart from other clients' changes.
+export const CLIENT_ID = uuidv4()
+
+export const CLIENT_ID_HEADER = 'X-Client-Id'
+
+export type WorkspaceEvent =
+  | { type: 'scene-saved'; sceneId: string; modifiedAt: string }
+  | { type: 'scene-deleted'; sceneId: string }
+  | { type: 'history-updated'; sceneId: string }
+  | { type: 'pinned-scenes-changed'; pinnedSceneIds: string[] }
+  | { type: 'scene-ops'; sceneId: string; ops: SceneOp[] }
+  | { type: 'presence'; sceneId: string; presence: Presence }
+  | { type: 'presence-left'; clientId: string }
+
+const EVENT_TYPES: WorkspaceEvent['type'][] = [
+  'scene-saved',
+  'scene-deleted',
+  'history-updated',
+  'pinned-scenes-changed',
+  'scene-ops',
+  'presence',
+  'presence-left',
+]
+
+// EventSource retries on its own after network drops, but gives up for good if the
+// server answers with an error status. Start over after this long when that happens.
+const RECONNECT_DELAY_MS = 30000
+
+/**
+ * Subscribe to change events for the active workspace. Events caused by this tab are
+ * filtered out; others are passed with the client ID that caused them, if known.
+ * `onConnectionChange` reports whether the stream is currently open.
+ * Returns a function that closes the subscription.
+ */
+export function subscribeToWorkspaceEvents(
+  onEvent: (event: WorkspaceEvent, originClientId: string | null) => void,
+  onConnectionChange: (connected: boolean) => void
+): () => void {
+  let source: EventSource | null = null
+  let reconnectTimer: number | null = null
+  let closed = false
+
+  const handleMessage = (message: MessageEvent) => {
+    try {
+      const { originClientId, ...event } = JSON.parse(message.data)
+      if (originClientId === CLIENT_ID) return
+      onEvent(event as WorkspaceEvent, originClientId ?? null)
+    } catch (error) {
+      console.error('Failed to parse workspace event:', error)
+    }
+  }
+
+  const connect = () => {
+    if (closed) return
+    // The client ID lets the server tell collaborators when this tab goes away
+    source = new EventSource(`/api/w/${ACTIVE_WORKSPACE}/events?clientId=${CLIENT_ID}`)
+    source.onopen = () => onConnectionChange(true)
+    source.onerror = () => {
+      onConnectionChange(false)
+      if (source?.readyState === EventSource.CLOSED) {
+        source = null
+        reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS)
+      }
+    }
+    for (const type of EVENT_TYPES) {
+      source.addEventListener(type, handleMessage)
+    }
+  }
+
+  connect()
+
+  return () => {
+    closed = true
+    if (reconnectTimer !== null) clearTimeout(reconnectTimer)
+    source?.close()
+    source = null
+  }
+}
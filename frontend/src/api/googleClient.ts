@@ -200,12 +200,14 @@ const HTML_GEN_SYSTEM_PROMPT = `You are an expert web designer and HTML develope
 
 You will receive:
 1. A JSON object with:
-   - \`page\`: contains \`bounds\` ({ x, y, width, height }) — the total bounding box of all content, with top-left at (0,0)
+   - \`page\`: contains \`bounds\` ({ x, y, width, height }) — the total bounding box of all content, with top-left at (0,0) — and optionally a \`title\`
    - \`items\`: an array of content blocks, each with:
      - \`type\`: "text" or "image"
      - \`content\` (for text) or \`imageId\` (for image): The text content or image placeholder ID
      - \`bounds\`: { x, y, width, height } — top-left corner position and dimensions, relative to the page origin
 
+   Or, for a multi-page document, a JSON object with only \`pages\`: an ordered array of pages, each with an optional \`title\`, its own \`bounds\` and its own \`items\` (positioned relative to that page). Generate one \`<section>\` per page, in order, and keep each page's content within its section. Add \`break-after: page\` to every section but the last so the document prints one page per section.
+
 2. A user prompt describing what kind of webpage to create
 
 Use the content blocks as source material and follow the user's prompt to create the webpage.`
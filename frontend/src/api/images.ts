@@ -1,8 +1,14 @@
 import { validateUuid } from '../utils/validation'
 import { ACTIVE_WORKSPACE } from './workspace'
+import { uploadFileResumable, UploadProgress } from './uploads'
+import type { ImageEdit, ImageEditFormat, ImageAnnotation } from '../types'
 
 const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/items`
 
+// Image formats the server converts to PNG or JPEG on upload, keeping the file as uploaded
+const CONVERTED_IMAGE_EXTENSION_PATTERN = /\.(heic|heif|avif|tiff?|bmp)$/i
+const CONVERTED_IMAGE_MIME_TYPES = ['image/heic', 'image/heif', 'image/avif', 'image/tiff', 'image/bmp']
+
 export interface UploadImageResult {
   success: boolean
   url: string
@@ -16,26 +22,130 @@ export interface UploadImageResult {
 export interface CropImageResult {
   url: string
   fileSize: number
+  width: number   // pixel size of the edited image
+  height: number
+}
+
+// The edit stack and output format to render after the crop
+export interface ImageEditOptions {
+  edits?: ImageEdit[]
+  format?: ImageEditFormat
+  quality?: number
 }
 
 /**
- * Crop an image on the server and save the cropped version to storage.
- * Returns the URL and file size of the cropped image.
+ * Render an image's crop and edits on the server and save the result as its edited
+ * version. Returns the URL, file size and pixel size of the edited image.
  */
 export async function cropImage(
   sceneId: string,
   imageId: string,
-  cropRect: { x: number; y: number; width: number; height: number }
+  cropRect: { x: number; y: number; width: number; height: number } | undefined,
+  options: ImageEditOptions = {}
 ): Promise<CropImageResult> {
   validateUuid(sceneId, 'scene ID')
   validateUuid(imageId, 'image ID')
   const response = await fetch(`${API_BASE}/crop-image`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ sceneId, imageId, cropRect }),
+    body: JSON.stringify({ sceneId, imageId, cropRect, ...options }),
+  })
+  if (!response.ok) {
+    let errorDetail = response.statusText
+    try {
+      const errorJson = await response.json()
+      errorDetail = errorJson.error || errorDetail
+    } catch { /* ignore parse error */ }
+    throw new Error(`Failed to edit image: ${errorDetail}`)
+  }
+  return response.json()
+}
+
+/**
+ * Get an image with its annotations drawn in, as a PNG. Nothing is saved; the
+ * annotations stay editable on the item. `annotationSpace` is the item size they were
+ * drawn at.
+ */
+export async function annotateImage(
+  sceneId: string,
+  imageId: string,
+  useEdited: boolean,
+  annotations: ImageAnnotation[],
+  annotationSpace: { width: number; height: number }
+): Promise<Blob> {
+  validateUuid(sceneId, 'scene ID')
+  validateUuid(imageId, 'image ID')
+  const response = await fetch(`${API_BASE}/annotate-image`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sceneId, imageId, useEdited, annotations, annotationSpace }),
+  })
+  if (!response.ok) {
+    let errorDetail = response.statusText
+    try {
+      const errorJson = await response.json()
+      errorDetail = errorJson.error || errorDetail
+    } catch { /* ignore parse error */ }
+    throw new Error(`Failed to annotate image: ${errorDetail}`)
+  }
+  return response.blob()
+}
+
+// How "Combine Images" arranges tiles: in a row, a column, a grid, or as laid out on the canvas
+export type ImageCompositeLayout = 'horizontal' | 'vertical' | 'grid' | 'canvas'
+
+export interface CombineImageTile {
+  imageId: string
+  useEdited: boolean  // use the edited (.crop) version of the image
+  x: number           // position and size on the canvas, including the item's scale
+  y: number
+  width: number
+  height: number
+  rotation?: number
+  label?: string
+  annotations?: ImageAnnotation[]
+  annotationSpace?: { width: number; height: number }
+}
+
+export interface CombineImagesOptions {
+  layout: ImageCompositeLayout
+  gutter: number             // canvas units between tiles and around the edge
+  background: string | null  // #rrggbb, or null for transparent
+  labels: boolean
+  columns?: number           // grid layout only
+}
+
+export interface CombineImagesResult {
+  url: string
+  newItemId: string
+  width: number
+  height: number
+  fileSize: number
+  scale: number  // output pixels per canvas unit
+}
+
+/**
+ * Composite images on the server into a new PNG in the scene folder.
+ * @param tiles - The images in layout order; later tiles are drawn on top
+ */
+export async function combineImages(
+  sceneId: string,
+  tiles: CombineImageTile[],
+  options: CombineImagesOptions
+): Promise<CombineImagesResult> {
+  validateUuid(sceneId, 'scene ID')
+  const response = await fetch(`${API_BASE}/combine-images`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sceneId, tiles, ...options }),
   })
   if (!response.ok) {
-    throw new Error(`Failed to crop image: ${response.statusText}`)
+    let errorDetail = response.statusText
+    try {
+      const errorJson = await response.json()
+      errorDetail = errorJson.error || errorDetail
+    } catch { /* ignore parse error */ }
+    throw new Error(`Failed to combine images: ${errorDetail}`)
   }
   return response.json()
 }
@@ -85,3 +195,72 @@ export function getImageDimensions(file: File): Promise<{ width: number; height:
     img.src = URL.createObjectURL(file)
   })
 }
+
+/**
+ * Upload an image file as a chunked, resumable upload (no base64 data URL in a JSON body).
+ * Returns the storage URL.
+ */
+export async function uploadImageFile(
+  file: File,
+  sceneId: string,
+  itemId: string,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<string> {
+  validateUuid(sceneId, 'scene ID')
+  validateUuid(itemId, 'item ID')
+  const result = await uploadFileResumable(file, {
+    sceneId,
+    itemId,
+    kind: 'image',
+    filename: file.name || 'image.png',
+    onProgress,
+  })
+  return result.url
+}
+
+/**
+ * Check whether a File is an image the server converts on upload (HEIC, AVIF, TIFF, BMP).
+ * Phone photos often arrive without a MIME type, so the extension is checked too.
+ */
+export function isConvertedImageFile(file: File): boolean {
+  return CONVERTED_IMAGE_EXTENSION_PATTERN.test(file.name) || CONVERTED_IMAGE_MIME_TYPES.includes(file.type)
+}
+
+export interface ConvertedImageUpload {
+  url: string          // the converted PNG or JPEG
+  originalUrl: string  // the file as uploaded
+  width: number
+  height: number
+  fileSize: number
+}
+
+/**
+ * Upload an image the browser may not be able to decode and have the server convert it.
+ * The pixel size comes from the server, since the browser can't measure the file itself.
+ */
+export async function uploadConvertedImageFile(
+  file: File,
+  sceneId: string,
+  itemId: string,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<ConvertedImageUpload> {
+  validateUuid(sceneId, 'scene ID')
+  validateUuid(itemId, 'item ID')
+  const result = await uploadFileResumable(file, {
+    sceneId,
+    itemId,
+    kind: 'image',
+    filename: file.name || 'image.tiff',
+    onProgress,
+  })
+  if (!result.originalUrl || !result.width || !result.height) {
+    throw new Error('Failed to convert image: the server did not convert it')
+  }
+  return {
+    url: result.url,
+    originalUrl: result.originalUrl,
+    width: result.width,
+    height: result.height,
+    fileSize: result.fileSize ?? file.size,
+  }
+}
@@ -0,0 +1,86 @@
+import { ACTIVE_WORKSPACE } from './workspace'
+
+const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/jobs`
+
+const POLL_INTERVAL_MS = 1000
+// Consecutive failed polls tolerated (e.g. a server restart in progress) before giving up
+const MAX_POLL_ERRORS = 10
+
+export type MediaJobType = 'crop-video' | 'convert-media' | 'combine-videos' | 'trim-audio' | 'extract-audio'
+export type MediaJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled'
+
+export interface MediaJob {
+  id: string
+  type: MediaJobType
+  status: MediaJobStatus
+  progress: number | null
+  sceneId: string
+  itemId: string
+  createdAt: string
+  updatedAt: string
+  result?: Record<string, unknown>
+  error?: string
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled')
+  }
+}
+
+export function isJobFinished(job: MediaJob): boolean {
+  return job.status === 'done' || job.status === 'failed' || job.status === 'cancelled'
+}
+
+async function requestJob<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init)
+  if (!response.ok) {
+    let errorDetail = response.statusText
+    try {
+      const errorJson = await response.json()
+      errorDetail = errorJson.error || errorDetail
+    } catch { /* ignore parse error */ }
+    const error = new Error(errorDetail) as Error & { status?: number }
+    error.status = response.status
+    throw error
+  }
+  return response.json()
+}
+
+export function getJob(jobId: string): Promise<MediaJob> {
+  return requestJob<MediaJob>(`${API_BASE}/${jobId}`)
+}
+
+export async function listJobs(): Promise<MediaJob[]> {
+  const { jobs } = await requestJob<{ jobs: MediaJob[] }>(API_BASE)
+  return jobs
+}
+
+export function cancelJob(jobId: string): Promise<MediaJob> {
+  return requestJob<MediaJob>(`${API_BASE}/${jobId}/cancel`, { method: 'POST' })
+}
+
+/**
+ * Poll a job until it finishes, reporting each update. Resolves with the finished job,
+ * rejects with JobCancelledError if it was cancelled or with its error if it failed.
+ */
+export async function waitForJob(jobId: string, onUpdate?: (job: MediaJob) => void): Promise<MediaJob> {
+  let errors = 0
+  for (;;) {
+    let job: MediaJob
+    try {
+      job = await getJob(jobId)
+      errors = 0
+    } catch (err) {
+      // A missing job won't come back (the server restarted and lost it)
+      if ((err as { status?: number }).status === 404 || ++errors >= MAX_POLL_ERRORS) throw err
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+      continue
+    }
+    onUpdate?.(job)
+    if (job.status === 'done') return job
+    if (job.status === 'cancelled') throw new JobCancelledError()
+    if (job.status === 'failed') throw new Error(job.error || 'Processing failed')
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+}
@@ -1,4 +1,4 @@
-import { LLMModel, ImageGenModel } from '../types'
+import { LLMModel, ImageGenModel, ImageAnnotation } from '../types'
 import type { SpatialData } from '../utils/spatialJson'
 import { isOfflineMode } from './scenes'
 import { getAnthropicApiKey, getGoogleApiKey, hasAnthropicApiKey, hasGoogleApiKey } from '../utils/apiKeyStorage'
@@ -27,6 +27,8 @@ export interface ContentItem {
   sceneId?: string
   useEdited?: boolean
   fileFormat?: string
+  annotations?: ImageAnnotation[]  // baked into the image by the backend
+  annotationSpace?: { width: number; height: number }
 }
 
 /** Shape sent to backend in online mode (only id/sceneId/useEdited, no src) */
@@ -37,13 +39,18 @@ interface BackendItem {
   sceneId?: string
   useEdited?: boolean
   fileFormat?: string
+  annotations?: ImageAnnotation[]  // baked into the image by the backend
+  annotationSpace?: { width: number; height: number }
 }
 
 /** Strip src from items before sending to backend (prevents sending URLs/data to backend) */
 function toBackendItems(items: ContentItem[]): BackendItem[] {
   return items.map((item) => {
     if (item.type === 'image') {
-      return { type: item.type, id: item.id, sceneId: item.sceneId, useEdited: item.useEdited }
+      return {
+        type: item.type, id: item.id, sceneId: item.sceneId, useEdited: item.useEdited,
+        annotations: item.annotations, annotationSpace: item.annotationSpace,
+      }
     }
     if (item.type === 'pdf') {
       return { type: item.type, id: item.id, sceneId: item.sceneId }
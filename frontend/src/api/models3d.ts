@@ -1,7 +1,5 @@
-import { ACTIVE_WORKSPACE } from './workspace'
 import type { Model3DFormat } from '../types'
-
-const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/items`
+import { uploadFileResumable, UploadProgress } from './uploads'
 
 export interface UploadModel3DResult {
   success: boolean
@@ -10,29 +8,15 @@ export interface UploadModel3DResult {
 
 /**
  * Upload a 3D model file to storage and return the result.
- * Uses multipart/form-data for efficient upload (no base64 overhead).
+ * Sent as a chunked, resumable upload (no base64 overhead, no single huge request).
  */
 export async function uploadModel3D(
   file: File,
   sceneId: string,
   itemId: string,
+  onProgress?: (progress: UploadProgress) => void
 ): Promise<UploadModel3DResult> {
-  const formData = new FormData()
-  formData.append('model', file)
-  formData.append('sceneId', sceneId)
-  formData.append('itemId', itemId)
-
-  const response = await fetch(`${API_BASE}/upload-model3d`, {
-    method: 'POST',
-    body: formData,
-  })
-
-  if (!response.ok) {
-    throw new Error(`Failed to upload 3D model: ${response.statusText}`)
-  }
-
-  const result: UploadModel3DResult = await response.json()
-  return result
+  return uploadFileResumable(file, { sceneId, itemId, kind: 'model3d', filename: file.name, onProgress })
 }
 
 /** Check whether a File is a supported 3D model format */
@@ -12,12 +12,16 @@ export {
   getSceneTimestamp,
   getStorageMode,
   setStorageMode,
+  SceneConflictError,
 } from './storage'
 
-export type { SceneMetadata, SceneTimestamp, StorageMode } from './storage'
+export type { SceneMetadata, SceneTimestamp, StorageMode, SaveSceneOptions } from './storage'
 
 import { validateUuid } from '../utils/validation'
+import type { Scene } from '../types'
+import { SceneConflictError } from './storage'
 import { ACTIVE_WORKSPACE } from './workspace'
+import { CLIENT_ID, CLIENT_ID_HEADER } from './events'
 
 const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/scenes`
 
@@ -28,7 +32,7 @@ const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/scenes`
 export async function getContentUrl(
   sceneId: string,
   contentId: string,
-  contentType: 'video' | 'image' | 'html',
+  contentType: 'video' | 'image' | 'html' | 'audio',
   extension?: string,
   isEdit: boolean = false
 ): Promise<string> {
@@ -58,7 +62,7 @@ export async function getContentUrl(
 export async function getContentData(
   sceneId: string,
   contentId: string,
-  contentType: 'video' | 'image' | 'html' | 'pdf' | 'text-file',
+  contentType: 'video' | 'image' | 'html' | 'pdf' | 'text-file' | 'audio',
   isEdit: boolean = false
 ): Promise<Blob> {
   validateUuid(sceneId, 'scene ID')
@@ -75,3 +79,155 @@ export async function getContentData(
   }
   return response.blob()
 }
+
+export interface TrashedSceneInfo {
+  id: string
+  name: string
+  deletedAt: string
+  expiresAt: string
+  itemCount: number
+}
+
+/**
+ * List recently deleted scenes in the workspace trash (backend storage modes only).
+ */
+export async function listTrashedScenes(): Promise<TrashedSceneInfo[]> {
+  const response = await fetch(`${API_BASE}/trash`)
+  if (!response.ok) {
+    throw new Error(`Failed to list trash: ${response.statusText}`)
+  }
+  return response.json()
+}
+
+/**
+ * Move a scene from the trash back into the workspace.
+ */
+export async function restoreTrashedScene(sceneId: string): Promise<void> {
+  validateUuid(sceneId, 'scene ID')
+  const response = await fetch(`${API_BASE}/trash/${sceneId}/restore`, {
+    method: 'POST',
+    headers: { [CLIENT_ID_HEADER]: CLIENT_ID },
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => null)
+    throw new Error(data?.error || `Failed to restore scene: ${response.statusText}`)
+  }
+}
+
+/**
+ * Permanently delete a scene from the trash.
+ */
+export async function purgeTrashedScene(sceneId: string): Promise<void> {
+  validateUuid(sceneId, 'scene ID')
+  const response = await fetch(`${API_BASE}/trash/${sceneId}`, { method: 'DELETE' })
+  if (!response.ok) {
+    throw new Error(`Failed to purge scene: ${response.statusText}`)
+  }
+}
+
+export interface SnapshotInfo {
+  id: string
+  name: string
+  createdAt: string
+  sceneModifiedAt: string
+  itemCount: number
+  fileCount: number
+}
+
+export interface SnapshotPreview {
+  snapshot: SnapshotInfo
+  scene: Scene
+}
+
+/**
+ * List named snapshots of a scene, newest first.
+ */
+export async function listSnapshots(sceneId: string): Promise<SnapshotInfo[]> {
+  validateUuid(sceneId, 'scene ID')
+  const response = await fetch(`${API_BASE}/${sceneId}/snapshots`)
+  if (!response.ok) {
+    throw new Error(`Failed to list snapshots: ${response.statusText}`)
+  }
+  return response.json()
+}
+
+/**
+ * Take a named snapshot of the scene's last saved state.
+ */
+export async function createSnapshot(sceneId: string, name: string): Promise<SnapshotInfo> {
+  validateUuid(sceneId, 'scene ID')
+  const response = await fetch(`${API_BASE}/${sceneId}/snapshots`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to create snapshot: ${response.statusText}`)
+  }
+  return response.json()
+}
+
+/**
+ * Load a snapshot's scene for previewing (item URLs point into the snapshot folder).
+ */
+export async function getSnapshotPreview(sceneId: string, snapshotId: string): Promise<SnapshotPreview> {
+  validateUuid(sceneId, 'scene ID')
+  validateUuid(snapshotId, 'snapshot ID')
+  const response = await fetch(`${API_BASE}/${sceneId}/snapshots/${snapshotId}`)
+  if (!response.ok) {
+    throw new Error(`Failed to load snapshot: ${response.statusText}`)
+  }
+  return response.json()
+}
+
+/**
+ * Replace the scene with a snapshot. The server snapshots the current state first
+ * and clears the scene's undo history. With `baseModifiedAt`, throws SceneConflictError
+ * instead if the scene has changed on the server since then.
+ */
+export async function restoreSnapshot(sceneId: string, snapshotId: string, baseModifiedAt?: string): Promise<void> {
+  validateUuid(sceneId, 'scene ID')
+  validateUuid(snapshotId, 'snapshot ID')
+  const headers: Record<string, string> = { [CLIENT_ID_HEADER]: CLIENT_ID }
+  if (baseModifiedAt) {
+    headers['If-Match'] = `"${baseModifiedAt}"`
+  }
+  const response = await fetch(`${API_BASE}/${sceneId}/snapshots/${snapshotId}/restore`, {
+    method: 'POST',
+    headers,
+  })
+  if (response.status === 409) {
+    const data = await response.json()
+    throw new SceneConflictError(data.modifiedAt)
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to restore snapshot: ${response.statusText}`)
+  }
+}
+
+/**
+ * Create a new scene from a snapshot. Returns the new scene's ID.
+ */
+export async function branchSnapshot(sceneId: string, snapshotId: string, name: string): Promise<string> {
+  validateUuid(sceneId, 'scene ID')
+  validateUuid(snapshotId, 'snapshot ID')
+  const response = await fetch(`${API_BASE}/${sceneId}/snapshots/${snapshotId}/branch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [CLIENT_ID_HEADER]: CLIENT_ID },
+    body: JSON.stringify({ name }),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to branch snapshot: ${response.statusText}`)
+  }
+  const result = await response.json()
+  return result.id
+}
+
+export async function deleteSnapshot(sceneId: string, snapshotId: string): Promise<void> {
+  validateUuid(sceneId, 'scene ID')
+  validateUuid(snapshotId, 'snapshot ID')
+  const response = await fetch(`${API_BASE}/${sceneId}/snapshots/${snapshotId}`, { method: 'DELETE' })
+  if (!response.ok) {
+    throw new Error(`Failed to delete snapshot: ${response.statusText}`)
+  }
+}
@@ -0,0 +1,31 @@
+import { ACTIVE_WORKSPACE } from './workspace'
+
+const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/search`
+
+/**
+ * A piece of scene text that matched a workspace search
+ */
+export interface SearchMatch {
+  sceneId: string
+  sceneName: string
+  itemId: string | null  // null when the scene name matched
+  itemType: string | null
+  field: string
+  snippet: string
+  bounds: { x: number; y: number; width: number; height: number } | null
+}
+
+export interface SearchResults {
+  query: string
+  matches: SearchMatch[]
+  truncated: boolean  // more matches exist than were returned
+}
+
+export async function searchWorkspace(query: string, signal?: AbortSignal): Promise<SearchResults> {
+  const params = new URLSearchParams({ q: query })
+  const response = await fetch(`${API_BASE}?${params}`, { signal })
+  if (!response.ok) {
+    throw new Error(`Failed to search workspace: ${response.statusText}`)
+  }
+  return response.json()
+}
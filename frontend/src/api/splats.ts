@@ -1,8 +1,6 @@
-import { ACTIVE_WORKSPACE } from './workspace'
 import * as GaussianSplats3D from '@mkkellogg/gaussian-splats-3d'
 import type { SplatFormat } from '../types'
-
-const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/items`
+import { uploadFileResumable, UploadProgress } from './uploads'
 
 export interface UploadSplatResult {
   success: boolean
@@ -47,29 +45,17 @@ async function convertToKsplat(file: File): Promise<File> {
 /**
  * Upload a Gaussian splat file to storage. Non-ksplat formats are converted
  * to .ksplat in the browser before uploading for optimal load performance.
+ * The upload is chunked and resumable.
  */
 export async function uploadSplat(
   file: File,
   sceneId: string,
   itemId: string,
+  onProgress?: (progress: UploadProgress) => void
 ): Promise<UploadSplatResult> {
   const converted = await convertToKsplat(file)
 
-  const formData = new FormData()
-  formData.append('splat', converted)
-  formData.append('sceneId', sceneId)
-  formData.append('itemId', itemId)
-
-  const response = await fetch(`${API_BASE}/upload-splat`, {
-    method: 'POST',
-    body: formData,
-  })
-
-  if (!response.ok) {
-    throw new Error(`Failed to upload splat: ${response.statusText}`)
-  }
-
-  const json = await response.json()
+  const json = await uploadFileResumable(converted, { sceneId, itemId, kind: 'splat', filename: converted.name, onProgress })
   // After conversion, the stored file is always ksplat
   const storedFormat: SplatFormat = converted.name.endsWith('.ksplat') ? 'ksplat' : getSplatFormat(converted.name)
   return { success: json.success, url: json.url, format: storedFormat }
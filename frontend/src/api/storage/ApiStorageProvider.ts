@@ -1,19 +1,28 @@
 import { Scene } from '../../types'
 import { SerializedHistory } from '../../history/types'
-import { StorageProvider, SceneMetadata, SceneTimestamp } from './StorageProvider'
+import { StorageProvider, SceneMetadata, SceneTimestamp, SaveSceneOptions, SceneConflictError } from './StorageProvider'
 import { validateUuid } from '../../utils/validation'
 import { ACTIVE_WORKSPACE } from '../workspace'
+import { CLIENT_ID, CLIENT_ID_HEADER } from '../events'
 
 const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/scenes`
 
 export class ApiStorageProvider implements StorageProvider {
-  async saveScene(scene: Scene): Promise<void> {
+  async saveScene(scene: Scene, options?: SaveSceneOptions): Promise<void> {
     validateUuid(scene.id, 'scene ID')
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', [CLIENT_ID_HEADER]: CLIENT_ID }
+    if (options?.baseModifiedAt) {
+      headers['If-Match'] = `"${options.baseModifiedAt}"`
+    }
     const response = await fetch(`${API_BASE}/${scene.id}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers,
       body: JSON.stringify(scene),
     })
+    if (response.status === 409) {
+      const data = await response.json()
+      throw new SceneConflictError(data.modifiedAt)
+    }
     if (!response.ok) {
       throw new Error(`Failed to save scene: ${response.statusText}`)
     }
@@ -40,6 +49,7 @@ export class ApiStorageProvider implements StorageProvider {
     validateUuid(id, 'scene ID')
     const response = await fetch(`${API_BASE}/${id}`, {
       method: 'DELETE',
+      headers: { [CLIENT_ID_HEADER]: CLIENT_ID },
     })
     if (!response.ok) {
       throw new Error(`Failed to delete scene: ${response.statusText}`)
@@ -59,7 +69,7 @@ export class ApiStorageProvider implements StorageProvider {
     validateUuid(sceneId, 'scene ID')
     const response = await fetch(`${API_BASE}/${sceneId}/history`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', [CLIENT_ID_HEADER]: CLIENT_ID },
       body: JSON.stringify(history),
     })
     if (!response.ok) {
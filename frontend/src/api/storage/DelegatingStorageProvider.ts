@@ -1,6 +1,6 @@
 import { Scene } from '../../types'
 import { SerializedHistory } from '../../history/types'
-import { StorageProvider, SceneMetadata, SceneTimestamp } from './StorageProvider'
+import { StorageProvider, SceneMetadata, SceneTimestamp, SaveSceneOptions } from './StorageProvider'
 import { ApiStorageProvider } from './ApiStorageProvider'
 import { LocalStorageProvider } from './LocalStorageProvider'
 
@@ -17,8 +17,8 @@ export class DelegatingStorageProvider implements StorageProvider {
     return this.getIsOffline() ? this.localProvider : this.apiProvider
   }
 
-  async saveScene(scene: Scene): Promise<void> {
-    return this.active.saveScene(scene)
+  async saveScene(scene: Scene, options?: SaveSceneOptions): Promise<void> {
+    return this.active.saveScene(scene, options)
   }
 
   async loadScene(id: string): Promise<Scene> {
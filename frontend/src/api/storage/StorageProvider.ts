@@ -7,6 +7,7 @@ export interface SceneMetadata {
   createdAt: string
   modifiedAt: string
   itemCount: number
+  thumbnailUrl?: string  // preview image, when the backend has built one
 }
 
 export interface SceneTimestamp {
@@ -14,8 +15,24 @@ export interface SceneTimestamp {
   modifiedAt: string
 }
 
+export interface SaveSceneOptions {
+  // modifiedAt of the server version this save is based on; the server rejects the
+  // save with a SceneConflictError if the scene has changed since
+  baseModifiedAt?: string
+}
+
+/**
+ * Thrown by saveScene when the server's copy changed since `baseModifiedAt`.
+ */
+export class SceneConflictError extends Error {
+  constructor(public serverModifiedAt: string) {
+    super('Scene was modified on the server')
+    this.name = 'SceneConflictError'
+  }
+}
+
 export interface StorageProvider {
-  saveScene(scene: Scene): Promise<void>
+  saveScene(scene: Scene, options?: SaveSceneOptions): Promise<void>
   loadScene(id: string): Promise<Scene>
   listScenes(): Promise<SceneMetadata[]>
   deleteScene(id: string): Promise<void>
@@ -1,6 +1,7 @@
 import { DelegatingStorageProvider } from './DelegatingStorageProvider'
 
-export type { StorageProvider, SceneMetadata, SceneTimestamp } from './StorageProvider'
+export type { StorageProvider, SceneMetadata, SceneTimestamp, SaveSceneOptions } from './StorageProvider'
+export { SceneConflictError } from './StorageProvider'
 
 // Storage modes:
 // - 'online': S3 cloud storage via backend
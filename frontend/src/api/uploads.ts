@@ -0,0 +1,199 @@
+import { ACTIVE_WORKSPACE } from './workspace'
+
+const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/uploads`
+
+// Chunks in flight at once
+const CONCURRENCY = 3
+// Rounds of retrying failed chunks before giving up; waits grow 1s, 2s, 4s, ... up to 30s
+const MAX_ROUNDS = 8
+const MAX_RETRY_DELAY_MS = 30000
+// Presigned part URLs requested per call
+const PART_URL_BATCH = 200
+
+export type UploadKind = 'image' | 'video' | 'model3d' | 'splat' | 'audio'
+
+export interface UploadProgress {
+  loaded: number
+  total: number
+}
+
+export interface ResumableUploadResult {
+  success: boolean
+  url: string
+  transcoded?: boolean
+  // Images converted to a web format on the server; the upload is kept at originalUrl
+  originalUrl?: string
+  width?: number
+  height?: number
+  fileSize?: number
+}
+
+interface UploadSessionInfo {
+  uploadId: string
+  size: number
+  chunkSize: number
+  chunkCount: number
+  direct: boolean
+  receivedChunks: number[]
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init)
+  if (!response.ok) {
+    let errorDetail = response.statusText
+    try {
+      const errorJson = await response.json()
+      errorDetail = errorJson.error || errorDetail
+    } catch { /* ignore parse error */ }
+    const error = new Error(errorDetail) as Error & { status?: number }
+    error.status = response.status
+    throw error
+  }
+  return response.json()
+}
+
+function postJson<T>(url: string, body: unknown): Promise<T> {
+  return requestJson<T>(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+/**
+ * PUT one chunk with XMLHttpRequest, which (unlike fetch) reports upload progress.
+ */
+function putChunk(url: string, chunk: Blob, onLoaded: (loaded: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('PUT', url)
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream')
+    xhr.upload.onprogress = (event) => onLoaded(event.loaded)
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onLoaded(chunk.size)
+        resolve()
+      } else {
+        reject(new Error(`Chunk upload failed: HTTP ${xhr.status}`))
+      }
+    }
+    xhr.onerror = () => reject(new Error('Chunk upload failed: network error'))
+    xhr.send(chunk)
+  })
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Upload a file in chunks without going through a single large request. Failed chunks
+ * are retried with backoff after asking the server which chunks it already has, so a
+ * network blip only costs the chunks that were in flight. Depending on server
+ * configuration, chunks go to the backend or straight to S3 via presigned URLs.
+ */
+export async function uploadFileResumable(
+  file: Blob,
+  options: {
+    sceneId: string
+    itemId: string
+    kind: UploadKind
+    filename: string
+    onProgress?: (progress: UploadProgress) => void
+  }
+): Promise<ResumableUploadResult> {
+  const { sceneId, itemId, kind, filename, onProgress } = options
+  const session = await postJson<UploadSessionInfo>(API_BASE, {
+    sceneId,
+    itemId,
+    kind,
+    filename,
+    size: file.size,
+    contentType: file.type,
+  })
+  const sessionUrl = `${API_BASE}/${session.uploadId}`
+
+  // Bytes sent per chunk, so progress can include partially uploaded chunks
+  const loadedByChunk = new Map<number, number>()
+  const reportProgress = () => {
+    let loaded = 0
+    loadedByChunk.forEach((bytes) => { loaded += bytes })
+    onProgress?.({ loaded, total: file.size })
+  }
+
+  const uploadChunks = async (indexes: number[]): Promise<number[]> => {
+    const failed: number[] = []
+    const partUrls: Record<number, string> = {}
+    if (session.direct) {
+      try {
+        for (let i = 0; i < indexes.length; i += PART_URL_BATCH) {
+          const { urls } = await postJson<{ urls: Record<number, string> }>(`${sessionUrl}/part-urls`, {
+            chunks: indexes.slice(i, i + PART_URL_BATCH),
+          })
+          Object.assign(partUrls, urls)
+        }
+      } catch (err) {
+        console.warn(`Could not get upload URLs for ${filename}:`, err)
+        return indexes
+      }
+    }
+
+    const queue = [...indexes]
+    const worker = async () => {
+      for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+        const start = index * session.chunkSize
+        const chunk = file.slice(start, Math.min(start + session.chunkSize, file.size))
+        const url = session.direct ? partUrls[index] : `${sessionUrl}/chunks/${index}`
+        try {
+          await putChunk(url, chunk, (loaded) => {
+            loadedByChunk.set(index, loaded)
+            reportProgress()
+          })
+        } catch (err) {
+          console.warn(`Upload chunk ${index} of ${filename} failed:`, err)
+          loadedByChunk.delete(index)
+          reportProgress()
+          failed.push(index)
+        }
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, indexes.length) }, worker))
+    return failed
+  }
+
+  try {
+    let pending = Array.from({ length: session.chunkCount }, (_, i) => i)
+    reportProgress()
+    for (let round = 0; pending.length > 0; round++) {
+      const failed = await uploadChunks(pending)
+      if (failed.length === 0) break
+      if (round + 1 >= MAX_ROUNDS) {
+        throw new Error(`Upload of ${filename} failed: ${failed.length} chunk(s) could not be sent`)
+      }
+      await delay(Math.min(1000 * 2 ** round, MAX_RETRY_DELAY_MS))
+
+      // A chunk may have arrived even though its response was lost; only re-send what's missing
+      try {
+        const status = await requestJson<UploadSessionInfo>(sessionUrl)
+        const received = new Set(status.receivedChunks)
+        pending = Array.from({ length: session.chunkCount }, (_, i) => i).filter((i) => !received.has(i))
+      } catch {
+        pending = failed
+      }
+    }
+
+    // Completion is idempotent on the server, so a lost response can simply be retried
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await postJson<ResumableUploadResult>(`${sessionUrl}/complete`, {})
+      } catch (err) {
+        const status = (err as { status?: number }).status
+        if (attempt + 1 >= MAX_ROUNDS || (status !== undefined && status < 500)) throw err
+        await delay(Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS))
+      }
+    }
+  } catch (err) {
+    fetch(sessionUrl, { method: 'DELETE' }).catch(() => {})
+    throw err
+  }
+}
@@ -1,4 +1,7 @@
 import { ACTIVE_WORKSPACE } from './workspace'
+import { uploadFileResumable, UploadProgress } from './uploads'
+import { MediaJob, waitForJob } from './jobs'
+import type { VideoSegment, VideoCaption, VideoCallout } from '../types'
 
 const API_BASE = `/api/w/${ACTIVE_WORKSPACE}/items`
 
@@ -10,7 +13,7 @@ export interface UploadVideoResult {
 
 /**
  * Upload a video file to storage and return the result.
- * Uses multipart/form-data for efficient upload (no base64 overhead).
+ * Sent as a chunked, resumable upload so large recordings don't fail on a network blip.
  * In offline mode, stores in IndexedDB and returns a blob URL.
  * Non-browser-native formats (e.g. MKV) are transcoded to MP4 on the server.
  */
@@ -18,35 +21,26 @@ export async function uploadVideo(
   file: File,
   sceneId: string,
   itemId: string,
-  isOffline: boolean = false
+  isOffline: boolean = false,
+  onProgress?: (progress: UploadProgress) => void
 ): Promise<UploadVideoResult> {
   if (isOffline) {
     // In offline mode, create a blob URL for local playback
     return { success: true, url: URL.createObjectURL(file) }
   }
 
-  const formData = new FormData()
-  formData.append('video', file)
-  formData.append('sceneId', sceneId)
-  formData.append('itemId', itemId)
-
-  const response = await fetch(`${API_BASE}/upload-video`, {
-    method: 'POST',
-    body: formData,
-    // Don't set Content-Type header - browser sets it with boundary automatically
-  })
-
-  if (!response.ok) {
-    throw new Error(`Failed to upload video: ${response.statusText}`)
-  }
-
-  const result: UploadVideoResult = await response.json()
-  return result
+  return uploadFileResumable(file, { sceneId, itemId, kind: 'video', filename: file.name, onProgress })
 }
 
 /**
- * Process a video on the server (crop, speed change, audio removal, and/or trim) and save to storage.
+ * Process a video on the server (crop, speed change, audio removal, trim or cut list, and/or burned-in
+ * captions and callouts) and save to storage.
+ * Runs as a background job; `onJob` receives the job as it progresses. Rejects with
+ * JobCancelledError if the job is cancelled.
  * After success, use getContentUrl(sceneId, videoId, 'video', 'mp4', true) to get the processed video URL.
+ * @param segments - Kept ranges to join in order; replaces trim when given
+ * @param captions - Timed text to burn in, in source seconds
+ * @param callouts - Timed arrows and boxes to burn in, in source pixels and seconds
  * @param extension - The original video file extension (e.g., 'mp4', 'mov', 'webm')
  */
 export async function cropVideo(
@@ -56,9 +50,13 @@ export async function cropVideo(
   speed?: number,
   removeAudio?: boolean,
   trim?: { start: number; end: number },
-  extension?: string
+  segments?: VideoSegment[],
+  captions?: VideoCaption[],
+  callouts?: VideoCallout[],
+  extension?: string,
+  onJob?: (job: MediaJob) => void
 ): Promise<{ fileSize: number }> {
-  const requestBody = { sceneId, videoId, cropRect, speed, removeAudio, trim, extension }
+  const requestBody = { sceneId, videoId, cropRect, speed, removeAudio, trim, segments, captions, callouts, extension }
   const response = await fetch(`${API_BASE}/crop-video`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -73,11 +71,14 @@ export async function cropVideo(
     console.error('cropVideo failed:', {
       status: response.status,
       error: errorDetail,
-      request: { sceneId, videoId, cropRect, speed, removeAudio, trim },
+      request: { sceneId, videoId, cropRect, speed, removeAudio, trim, segments },
     })
     throw new Error(`Failed to process video: ${errorDetail}`)
   }
-  return response.json()
+  const { job } = await response.json() as { job: MediaJob }
+  onJob?.(job)
+  const finished = await waitForJob(job.id, onJob)
+  return finished.result as unknown as { fileSize: number }
 }
 
 /**
@@ -160,13 +161,15 @@ export interface ConvertMediaResult {
  * @param targetFormat - 'gif' to convert video→GIF, 'mp4' to convert GIF→video
  * @param isEdit - Whether to use the edited (.crop) version of the source
  * @param extension - The source file extension (e.g., 'mp4', 'gif', 'webm')
+ * @param onJob - Receives the background conversion job as it progresses
  */
 export async function convertMedia(
   sceneId: string,
   itemId: string,
   targetFormat: 'gif' | 'mp4',
   isEdit: boolean,
-  extension: string
+  extension: string,
+  onJob?: (job: MediaJob) => void
 ): Promise<ConvertMediaResult> {
   const response = await fetch(`${API_BASE}/convert-media`, {
     method: 'POST',
@@ -181,6 +184,78 @@ export async function convertMedia(
     } catch { /* ignore parse error */ }
     throw new Error(`Failed to convert media: ${errorDetail}`)
   }
+  const { job } = await response.json() as { job: MediaJob }
+  onJob?.(job)
+  const finished = await waitForJob(job.id, onJob)
+  return finished.result as unknown as ConvertMediaResult
+}
+
+export interface CombineVideoClip {
+  videoId: string
+  isEdit: boolean     // use the edited (.crop) version of the clip
+  extension: string   // the clip's source file extension (ignored for edits, which are mp4)
+}
+
+export interface CombineVideosResult extends ConvertMediaResult {
+  videoIds: string[]
+}
+
+/**
+ * Join videos end to end on the server into a new video in the scene folder.
+ * Clips are normalized to the first clip's resolution and frame rate.
+ * @param clips - The clips in playback order
+ * @param onJob - Receives the background job as it progresses
+ */
+export async function combineVideos(
+  sceneId: string,
+  clips: CombineVideoClip[],
+  onJob?: (job: MediaJob) => void
+): Promise<CombineVideosResult> {
+  const response = await fetch(`${API_BASE}/combine-videos`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sceneId, clips }),
+  })
+  if (!response.ok) {
+    let errorDetail = response.statusText
+    try {
+      const errorJson = await response.json()
+      errorDetail = errorJson.error || errorDetail
+    } catch { /* ignore parse error */ }
+    throw new Error(`Failed to combine videos: ${errorDetail}`)
+  }
+  const { job } = await response.json() as { job: MediaJob }
+  onJob?.(job)
+  const finished = await waitForJob(job.id, onJob)
+  return finished.result as unknown as CombineVideosResult
+}
+
+/**
+ * Capture one frame of a video as a new PNG in the scene folder, at the original video's
+ * resolution and cropped to cropRect. The result has the same shape as a conversion.
+ * @param time - Seconds into the original (unedited) video
+ * @param extension - The original video file extension (e.g., 'mp4', 'mov', 'webm')
+ */
+export async function captureVideoFrame(
+  sceneId: string,
+  videoId: string,
+  time: number,
+  cropRect?: { x: number; y: number; width: number; height: number },
+  extension?: string
+): Promise<ConvertMediaResult> {
+  const response = await fetch(`${API_BASE}/capture-frame`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sceneId, videoId, time, cropRect, extension }),
+  })
+  if (!response.ok) {
+    let errorDetail = response.statusText
+    try {
+      const errorJson = await response.json()
+      errorDetail = errorJson.error || errorDetail
+    } catch { /* ignore parse error */ }
+    throw new Error(`Failed to capture frame: ${errorDetail}`)
+  }
   return response.json()
 }
 
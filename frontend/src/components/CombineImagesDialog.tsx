@@ -0,0 +1,295 @@
+import { useState, useEffect } from 'react'
+import { ImageItem } from '../types'
+import { CombineImagesOptions, ImageCompositeLayout } from '../api/images'
+import { sortImagesForLayout } from '../utils/sceneOperations'
+
+interface CombineImagesDialogProps {
+  isOpen: boolean
+  images: ImageItem[]  // in canvas stacking order
+  onSubmit: (orderedImages: ImageItem[], options: CombineImagesOptions) => void
+  onCancel: () => void
+}
+
+const LAYOUTS: { layout: ImageCompositeLayout; label: string }[] = [
+  { layout: 'horizontal', label: 'Horizontal strip' },
+  { layout: 'vertical', label: 'Vertical strip' },
+  { layout: 'grid', label: 'Grid' },
+  { layout: 'canvas', label: 'As laid out on canvas' },
+]
+
+function CombineImagesDialog({ isOpen, images, onSubmit, onCancel }: CombineImagesDialogProps) {
+  const [layout, setLayout] = useState<ImageCompositeLayout>('horizontal')
+  const [order, setOrder] = useState<ImageItem[]>([])
+  const [gutter, setGutter] = useState(20)
+  const [columns, setColumns] = useState(2)
+  const [background, setBackground] = useState('#ffffff')
+  const [transparent, setTransparent] = useState(false)
+  const [labels, setLabels] = useState(false)
+
+  // Start from canvas order each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setOrder(sortImagesForLayout(images, layout))
+      setColumns(Math.ceil(Math.sqrt(images.length)))
+    }
+  }, [isOpen, images]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel()
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onCancel])
+
+  if (!isOpen) return null
+
+  const changeLayout = (next: ImageCompositeLayout) => {
+    setLayout(next)
+    setOrder(sortImagesForLayout(images, next))
+  }
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= order.length) return
+    const next = [...order]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setOrder(next)
+  }
+
+  const handleSubmit = () => {
+    onSubmit(layout === 'canvas' ? images : order, {
+      layout,
+      gutter,
+      background: transparent ? null : background,
+      labels,
+      columns: layout === 'grid' ? columns : undefined,
+    })
+  }
+
+  const arrowStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '2px 8px',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    backgroundColor: '#fff',
+    color: enabled ? '#333' : '#bbb',
+    cursor: enabled ? 'pointer' : 'default',
+    fontFamily: 'inherit',
+    fontSize: '12px',
+  })
+
+  const numberInputStyle: React.CSSProperties = {
+    width: '56px',
+    padding: '2px 4px',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    fontFamily: 'inherit',
+    fontSize: '12px',
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onCancel}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+          minWidth: '400px',
+          maxWidth: '500px',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '16px 20px',
+            borderBottom: '1px solid #e0e0e0',
+            fontWeight: 600,
+            fontSize: '16px',
+          }}
+        >
+          Combine Images
+        </div>
+
+        {/* Body */}
+        <div style={{ padding: '20px', fontSize: '13px' }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 16px', marginBottom: '12px' }}>
+            {LAYOUTS.map(({ layout: l, label }) => (
+              <label key={l} style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                <input type="radio" checked={layout === l} onChange={() => changeLayout(l)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '8px 16px', marginBottom: '12px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              Gutter
+              <input
+                type="number"
+                min={0}
+                max={1000}
+                value={gutter}
+                onChange={(e) => setGutter(Math.max(0, Math.min(1000, parseFloat(e.target.value) || 0)))}
+                style={numberInputStyle}
+              />
+            </label>
+            {layout === 'grid' && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                Columns
+                <input
+                  type="number"
+                  min={1}
+                  max={images.length}
+                  value={columns}
+                  onChange={(e) => setColumns(Math.max(1, Math.min(images.length, parseInt(e.target.value, 10) || 1)))}
+                  style={numberInputStyle}
+                />
+              </label>
+            )}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              Background
+              <input
+                type="color"
+                value={background}
+                disabled={transparent}
+                onChange={(e) => setBackground(e.target.value)}
+                style={{ width: '32px', height: '22px', padding: 0, border: '1px solid #ccc' }}
+              />
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+              Transparent
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              <input type="checkbox" checked={labels} onChange={(e) => setLabels(e.target.checked)} />
+              Labels
+            </label>
+          </div>
+          {layout === 'canvas' ? (
+            <div style={{ color: '#888', fontSize: '12px' }}>
+              Images keep their positions, sizes and rotation from the canvas.
+            </div>
+          ) : (
+            <>
+              <div style={{ color: '#888', fontSize: '12px', marginBottom: '8px' }}>
+                Images are placed in this order at their size on the canvas. Labels use the image names.
+              </div>
+              <ol style={{ margin: 0, padding: 0, listStyle: 'none', maxHeight: '240px', overflowY: 'auto' }}>
+                {order.map((image, index) => (
+                  <li
+                    key={image.id}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      padding: '6px 0',
+                      borderBottom: index < order.length - 1 ? '1px solid #eee' : 'none',
+                    }}
+                  >
+                    <span style={{ width: '20px', color: '#888', fontSize: '12px', textAlign: 'right' }}>
+                      {index + 1}.
+                    </span>
+                    <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {image.name || 'Image'}
+                    </span>
+                    <button onClick={() => move(index, -1)} disabled={index === 0} style={arrowStyle(index > 0)}>
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={index === order.length - 1}
+                      style={arrowStyle(index < order.length - 1)}
+                    >
+                      ↓
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: '12px 20px',
+            borderTop: '1px solid #e0e0e0',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '8px',
+          }}
+        >
+          {layout !== 'canvas' && (
+            <button
+              onClick={() => setOrder(sortImagesForLayout(images, layout))}
+              style={{
+                marginRight: 'auto',
+                padding: '8px 16px',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                backgroundColor: '#fff',
+                cursor: 'pointer',
+                fontFamily: 'inherit',
+                fontSize: '14px',
+              }}
+              title="Order images by their position on the canvas"
+            >
+              Canvas Order
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '8px 16px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#1976d2',
+              color: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Combine
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CombineImagesDialog
@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react'
+import { VideoItem } from '../types'
+import { sortVideosByPosition } from '../utils/sceneOperations'
+
+interface CombineVideosDialogProps {
+  isOpen: boolean
+  videos: VideoItem[]
+  onSubmit: (orderedVideos: VideoItem[]) => void
+  onCancel: () => void
+}
+
+function CombineVideosDialog({ isOpen, videos, onSubmit, onCancel }: CombineVideosDialogProps) {
+  const [order, setOrder] = useState<VideoItem[]>([])
+
+  // Start from canvas order each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setOrder(sortVideosByPosition(videos))
+    }
+  }, [isOpen, videos])
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel()
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onCancel])
+
+  if (!isOpen) return null
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= order.length) return
+    const next = [...order]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setOrder(next)
+  }
+
+  const arrowStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '2px 8px',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    backgroundColor: '#fff',
+    color: enabled ? '#333' : '#bbb',
+    cursor: enabled ? 'pointer' : 'default',
+    fontFamily: 'inherit',
+    fontSize: '12px',
+  })
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onCancel}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+          minWidth: '400px',
+          maxWidth: '500px',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '16px 20px',
+            borderBottom: '1px solid #e0e0e0',
+            fontWeight: 600,
+            fontSize: '16px',
+          }}
+        >
+          Combine Videos
+        </div>
+
+        {/* Body */}
+        <div style={{ padding: '20px' }}>
+          <div style={{ color: '#888', fontSize: '12px', marginBottom: '12px' }}>
+            Clips play in this order. The result uses the first clip's size and frame rate.
+          </div>
+          <ol style={{ margin: 0, padding: 0, listStyle: 'none', maxHeight: '320px', overflowY: 'auto' }}>
+            {order.map((video, index) => (
+              <li
+                key={video.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  padding: '6px 0',
+                  borderBottom: index < order.length - 1 ? '1px solid #eee' : 'none',
+                }}
+              >
+                <span style={{ width: '20px', color: '#888', fontSize: '12px', textAlign: 'right' }}>
+                  {index + 1}.
+                </span>
+                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {video.name || 'Video'}
+                </span>
+                <button onClick={() => move(index, -1)} disabled={index === 0} style={arrowStyle(index > 0)}>
+                  ↑
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === order.length - 1}
+                  style={arrowStyle(index < order.length - 1)}
+                >
+                  ↓
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: '12px 20px',
+            borderTop: '1px solid #e0e0e0',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '8px',
+          }}
+        >
+          <button
+            onClick={() => setOrder(sortVideosByPosition(videos))}
+            style={{
+              marginRight: 'auto',
+              padding: '8px 16px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+            title="Order clips left to right, then top to bottom"
+          >
+            Canvas Order
+          </button>
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '8px 16px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSubmit(order)}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#1976d2',
+              color: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Combine
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CombineVideosDialog
@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react'
+import { CanvasExportBackground, CanvasExportFormat, CanvasExportOptions, ExportBounds, getExportScale } from '../utils/canvasExport'
+
+interface ExportImageDialogProps {
+  isOpen: boolean
+  title: string
+  itemCount: number                   // items, or frames when framed, that could each be a PDF page
+  contentBounds: ExportBounds | null  // the items' extent on the canvas, without padding
+  framed: boolean                     // the export is cut to frames, which become the PDF pages
+  onSubmit: (options: CanvasExportOptions) => void
+  onCancel: () => void
+}
+
+const FORMATS: { format: CanvasExportFormat; label: string }[] = [
+  { format: 'png', label: 'PNG' },
+  { format: 'svg', label: 'SVG (vector)' },
+  { format: 'pdf', label: 'PDF' },
+]
+
+const BACKGROUNDS: { background: CanvasExportBackground; label: string }[] = [
+  { background: 'canvas', label: 'Canvas' },
+  { background: 'white', label: 'White' },
+  { background: 'transparent', label: 'Transparent' },
+]
+
+const PIXEL_RATIOS = [1, 2, 3, 4]
+
+function ExportImageDialog({ isOpen, title, itemCount, contentBounds, framed, onSubmit, onCancel }: ExportImageDialogProps) {
+  const [format, setFormat] = useState<CanvasExportFormat>('png')
+  const [pixelRatio, setPixelRatio] = useState(2)
+  const [background, setBackground] = useState<CanvasExportBackground>('canvas')
+  const [padding, setPadding] = useState(20)
+  const [pagePerPart, setPagePerPart] = useState(false)
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel()
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onCancel])
+
+  if (!isOpen) return null
+
+  // JPEG pages can't be transparent
+  const effectiveBackground = format === 'pdf' && background === 'transparent' ? 'white' : background
+  const multiPage = format === 'pdf' && pagePerPart && itemCount > 1
+  // Frames are cut at their edges, so padding doesn't apply
+  const effectivePadding = framed ? 0 : padding
+
+  let sizeText = ''
+  if (contentBounds && !multiPage) {
+    const bounds = {
+      ...contentBounds,
+      width: contentBounds.width + effectivePadding * 2,
+      height: contentBounds.height + effectivePadding * 2,
+    }
+    const scale = getExportScale(bounds, pixelRatio)
+    sizeText = format === 'svg'
+      ? `${Math.round(bounds.width)} × ${Math.round(bounds.height)}, raster parts at ${Math.round(scale * 100) / 100}×`
+      : `${Math.round(bounds.width * scale)} × ${Math.round(bounds.height * scale)} px`
+    if (scale < pixelRatio) sizeText += ' (reduced to fit the size limit)'
+  }
+
+  const handleSubmit = () => {
+    onSubmit({
+      format,
+      pixelRatio,
+      background: effectiveBackground,
+      padding: effectivePadding,
+      pdfPages: multiPage ? (framed ? 'per-frame' : 'per-item') : 'single',
+    })
+  }
+
+  const radioLabelStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    cursor: 'pointer',
+  }
+
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '4px 16px',
+    marginBottom: '12px',
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onCancel}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+          minWidth: '400px',
+          maxWidth: '500px',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '16px 20px',
+            borderBottom: '1px solid #e0e0e0',
+            fontWeight: 600,
+            fontSize: '16px',
+          }}
+        >
+          {title}
+        </div>
+
+        {/* Body */}
+        <div style={{ padding: '20px', fontSize: '13px' }}>
+          <div style={rowStyle}>
+            <span style={{ width: '80px', color: '#666' }}>Format</span>
+            {FORMATS.map(({ format: f, label }) => (
+              <label key={f} style={radioLabelStyle}>
+                <input type="radio" checked={format === f} onChange={() => setFormat(f)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div style={rowStyle}>
+            <span style={{ width: '80px', color: '#666' }}>Background</span>
+            {BACKGROUNDS.map(({ background: b, label }) => (
+              <label key={b} style={{ ...radioLabelStyle, opacity: format === 'pdf' && b === 'transparent' ? 0.4 : 1 }}>
+                <input
+                  type="radio"
+                  checked={effectiveBackground === b}
+                  disabled={format === 'pdf' && b === 'transparent'}
+                  onChange={() => setBackground(b)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div style={rowStyle}>
+            <span style={{ width: '80px', color: '#666' }}>Resolution</span>
+            <select
+              value={pixelRatio}
+              onChange={(e) => setPixelRatio(parseInt(e.target.value, 10))}
+              style={{ padding: '2px 4px', fontFamily: 'inherit', fontSize: '12px' }}
+            >
+              {PIXEL_RATIOS.map((ratio) => (
+                <option key={ratio} value={ratio}>{ratio}×</option>
+              ))}
+            </select>
+            {!framed && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                Padding
+                <input
+                  type="number"
+                  min={0}
+                  max={1000}
+                  value={padding}
+                  onChange={(e) => setPadding(Math.max(0, Math.min(1000, parseFloat(e.target.value) || 0)))}
+                  style={{
+                    width: '56px',
+                    padding: '2px 4px',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                    fontFamily: 'inherit',
+                    fontSize: '12px',
+                  }}
+                />
+              </label>
+            )}
+          </div>
+          {format === 'pdf' && itemCount > 1 && (
+            <div style={rowStyle}>
+              <span style={{ width: '80px', color: '#666' }}>Pages</span>
+              <label style={radioLabelStyle}>
+                <input type="radio" checked={!pagePerPart} onChange={() => setPagePerPart(false)} />
+                Single page
+              </label>
+              <label style={radioLabelStyle}>
+                <input type="radio" checked={pagePerPart} onChange={() => setPagePerPart(true)} />
+                {framed ? 'One page per frame' : 'One page per item'}
+              </label>
+            </div>
+          )}
+          <div style={{ color: '#888', fontSize: '12px' }}>
+            {sizeText && <div style={{ marginBottom: '4px' }}>{sizeText}</div>}
+            {format === 'svg'
+              ? 'Text and shapes stay vector and images are embedded as files. HTML, PDF, video and GIF content is rasterized.'
+              : 'HTML, PDF, video and GIF content is rasterized as it currently shows. 3D views and embedded videos show their frames only.'}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: '12px 20px',
+            borderTop: '1px solid #e0e0e0',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '8px',
+          }}
+        >
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '8px 16px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#1976d2',
+              color: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ExportImageDialog
@@ -0,0 +1,372 @@
+import { useState, useEffect } from 'react'
+import { ImageItem, ImageEdit, ImageEditFormat } from '../types'
+import { ImageEditOptions } from '../api/images'
+import { describeImageEdit, sizeAfterEdits } from '../utils/imageEdits'
+
+interface ImageEditsDialogProps {
+  isOpen: boolean
+  item: ImageItem | null
+  sourceSize: { width: number; height: number } | null  // pixel size after the crop
+  onSubmit: (options: ImageEditOptions) => void
+  onCancel: () => void
+}
+
+const DEFAULT_QUALITY = 85
+
+function ImageEditsDialog({ isOpen, item, sourceSize, onSubmit, onCancel }: ImageEditsDialogProps) {
+  const [edits, setEdits] = useState<ImageEdit[]>([])
+  const [format, setFormat] = useState<ImageEditFormat>('png')
+  const [quality, setQuality] = useState(DEFAULT_QUALITY)
+  const [keepAspect, setKeepAspect] = useState(true)
+
+  // Start from the item's current stack each time the dialog opens
+  useEffect(() => {
+    if (isOpen && item) {
+      setEdits(item.edits ?? [])
+      setFormat(item.editFormat ?? 'png')
+      setQuality(item.editQuality ?? DEFAULT_QUALITY)
+    }
+  }, [isOpen, item?.id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel()
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onCancel])
+
+  if (!isOpen || !item) return null
+
+  // Crop rects can be fractional; resize steps need whole pixels
+  const size = {
+    width: Math.round(sourceSize?.width ?? item.width),
+    height: Math.round(sourceSize?.height ?? item.height),
+  }
+  const outputSize = sizeAfterEdits(size, edits)
+
+  const addEdit = (edit: ImageEdit) => setEdits([...edits, edit])
+
+  const updateEdit = (index: number, edit: ImageEdit) => {
+    const next = [...edits]
+    next[index] = edit
+    setEdits(next)
+  }
+
+  const removeEdit = (index: number) => setEdits(edits.filter((_, i) => i !== index))
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= edits.length) return
+    const next = [...edits]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setEdits(next)
+  }
+
+  // Resizing one side keeps the shape of the image as it is before that step
+  const resizeEdit = (index: number, side: 'width' | 'height', value: number) => {
+    const edit = edits[index]
+    if (edit.type !== 'resize' || !Number.isFinite(value) || value < 1) return
+    const before = sizeAfterEdits(size, edits.slice(0, index))
+    const rounded = Math.round(value)
+    if (!keepAspect) {
+      updateEdit(index, { ...edit, [side]: rounded })
+    } else if (side === 'width') {
+      updateEdit(index, { ...edit, width: rounded, height: Math.max(1, Math.round(rounded * before.height / before.width)) })
+    } else {
+      updateEdit(index, { ...edit, height: rounded, width: Math.max(1, Math.round(rounded * before.width / before.height)) })
+    }
+  }
+
+  const handleSubmit = () => {
+    onSubmit({
+      edits,
+      format: format === 'png' ? undefined : format,
+      quality: format === 'png' ? undefined : quality,
+    })
+  }
+
+  const smallButtonStyle = (enabled: boolean = true): React.CSSProperties => ({
+    padding: '2px 8px',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    backgroundColor: '#fff',
+    color: enabled ? '#333' : '#bbb',
+    cursor: enabled ? 'pointer' : 'default',
+    fontFamily: 'inherit',
+    fontSize: '12px',
+  })
+
+  const numberInputStyle: React.CSSProperties = {
+    width: '64px',
+    padding: '2px 4px',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    fontFamily: 'inherit',
+    fontSize: '12px',
+  }
+
+  const addButtons: { label: string; edit: () => ImageEdit }[] = [
+    { label: 'Rotate Left', edit: () => ({ type: 'rotate', degrees: 270 }) },
+    { label: 'Rotate Right', edit: () => ({ type: 'rotate', degrees: 90 }) },
+    { label: 'Flip H', edit: () => ({ type: 'flip', direction: 'horizontal' }) },
+    { label: 'Flip V', edit: () => ({ type: 'flip', direction: 'vertical' }) },
+    { label: 'Resize', edit: () => ({ type: 'resize', width: outputSize.width, height: outputSize.height }) },
+    { label: 'Brightness', edit: () => ({ type: 'brightness', amount: 1 }) },
+    { label: 'Contrast', edit: () => ({ type: 'contrast', amount: 1 }) },
+    { label: 'Saturation', edit: () => ({ type: 'saturation', amount: 1 }) },
+    { label: 'Grayscale', edit: () => ({ type: 'grayscale' }) },
+    { label: 'Sharpen', edit: () => ({ type: 'sharpen', sigma: 1 }) },
+  ]
+
+  const renderControl = (edit: ImageEdit, index: number) => {
+    switch (edit.type) {
+      case 'brightness':
+      case 'contrast':
+      case 'saturation':
+        return (
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.05}
+            value={edit.amount}
+            onChange={(e) => updateEdit(index, { ...edit, amount: parseFloat(e.target.value) })}
+            style={{ width: '110px' }}
+          />
+        )
+      case 'sharpen':
+        return (
+          <input
+            type="range"
+            min={0.5}
+            max={5}
+            step={0.5}
+            value={edit.sigma}
+            onChange={(e) => updateEdit(index, { ...edit, sigma: parseFloat(e.target.value) })}
+            style={{ width: '110px' }}
+          />
+        )
+      case 'resize':
+        return (
+          <span style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <input
+              type="number"
+              min={1}
+              value={edit.width}
+              onChange={(e) => resizeEdit(index, 'width', parseFloat(e.target.value))}
+              style={numberInputStyle}
+            />
+            ×
+            <input
+              type="number"
+              min={1}
+              value={edit.height}
+              onChange={(e) => resizeEdit(index, 'height', parseFloat(e.target.value))}
+              style={numberInputStyle}
+            />
+          </span>
+        )
+      default:
+        return null
+    }
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onCancel}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+          minWidth: '440px',
+          maxWidth: '520px',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '16px 20px',
+            borderBottom: '1px solid #e0e0e0',
+            fontWeight: 600,
+            fontSize: '16px',
+          }}
+        >
+          Adjust Image
+        </div>
+
+        {/* Body */}
+        <div style={{ padding: '20px' }}>
+          <div style={{ color: '#888', fontSize: '12px', marginBottom: '12px' }}>
+            Steps apply top to bottom, after the crop. The original file is kept, so Remove Edits restores it.
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '12px' }}>
+            {addButtons.map(({ label, edit }) => (
+              <button key={label} onClick={() => addEdit(edit())} style={smallButtonStyle()}>
+                {label}
+              </button>
+            ))}
+          </div>
+          {edits.length === 0 ? (
+            <div style={{ color: '#aaa', fontSize: '13px', padding: '6px 0' }}>No steps yet</div>
+          ) : (
+            <ol style={{ margin: 0, padding: 0, listStyle: 'none', maxHeight: '260px', overflowY: 'auto' }}>
+              {edits.map((edit, index) => (
+                <li
+                  key={index}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    padding: '6px 0',
+                    borderBottom: index < edits.length - 1 ? '1px solid #eee' : 'none',
+                    fontSize: '13px',
+                  }}
+                >
+                  <span style={{ width: '20px', color: '#888', fontSize: '12px', textAlign: 'right' }}>
+                    {index + 1}.
+                  </span>
+                  <span style={{ flex: 1, whiteSpace: 'nowrap' }}>{describeImageEdit(edit)}</span>
+                  {renderControl(edit, index)}
+                  <button onClick={() => move(index, -1)} disabled={index === 0} style={smallButtonStyle(index > 0)}>
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => move(index, 1)}
+                    disabled={index === edits.length - 1}
+                    style={smallButtonStyle(index < edits.length - 1)}
+                  >
+                    ↓
+                  </button>
+                  <button onClick={() => removeEdit(index)} style={smallButtonStyle()} title="Remove step">
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              marginTop: '16px',
+              paddingTop: '12px',
+              borderTop: '1px solid #eee',
+              fontSize: '13px',
+            }}
+          >
+            <label>
+              Format{' '}
+              <select value={format} onChange={(e) => setFormat(e.target.value as ImageEditFormat)}>
+                <option value="png">PNG</option>
+                <option value="jpeg">JPEG</option>
+                <option value="webp">WebP</option>
+              </select>
+            </label>
+            {format !== 'png' && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                Quality
+                <input
+                  type="range"
+                  min={1}
+                  max={100}
+                  value={quality}
+                  onChange={(e) => setQuality(parseInt(e.target.value, 10))}
+                  style={{ width: '90px' }}
+                />
+                <span style={{ width: '24px' }}>{quality}</span>
+              </label>
+            )}
+            <label style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '4px' }}>
+              <input type="checkbox" checked={keepAspect} onChange={(e) => setKeepAspect(e.target.checked)} />
+              Keep aspect
+            </label>
+          </div>
+          <div style={{ color: '#888', fontSize: '12px', marginTop: '8px' }}>
+            Output: {outputSize.width}×{outputSize.height}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: '12px 20px',
+            borderTop: '1px solid #e0e0e0',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '8px',
+          }}
+        >
+          <button
+            onClick={() => { setEdits([]); setFormat('png') }}
+            style={{
+              marginRight: 'auto',
+              padding: '8px 16px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Clear
+          </button>
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '8px 16px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#1976d2',
+              color: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ImageEditsDialog
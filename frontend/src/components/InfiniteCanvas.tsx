@@ -3,29 +3,43 @@ import { Stage, Layer, Rect, Group, Text, Transformer } from 'react-konva'
 import Konva from 'konva'
 import { v4 as uuidv4 } from 'uuid'
 import { marked } from 'marked'
-import { CanvasItem, ImageItem, VideoItem, PromptItem, ImageGenPromptItem, HTMLGenPromptItem, PdfItem, TextFileItem, Model3DItem, SplatItem, ActivityMessage } from '../types'
+import { CanvasItem, ImageItem, VideoItem, PromptItem, ImageGenPromptItem, HTMLGenPromptItem, PdfItem, TextFileItem, Model3DItem, SplatItem, AudioItem, AudioFormat, ActivityMessage, FrameItem } from '../types'
 import { config } from '../config'
-import { uploadImage } from '../api/images'
+import { uploadImage, isConvertedImageFile, CombineImagesOptions } from '../api/images'
 import { uploadPdf, uploadPdfThumbnail } from '../api/pdfs'
 import { uploadTextFile } from '../api/textfiles'
 import { ACTIVE_WORKSPACE } from '../api/workspace'
 import { renderPdfPageToDataUrl } from '../utils/pdfThumbnail'
+import { exportCanvasImage, getExportArea, CanvasExportOptions, ExportBounds } from '../utils/canvasExport'
+import { getCarriedItemIds, getFrameMembers, getOrderedFrames, isFrame } from '../utils/frames'
+import { saveAsOrDownload } from '../utils/downloadItem'
 import { parseCsv } from '../utils/csvParser'
 import { isVideoFile } from '../api/videos'
+import { isAudioFile, trimAudio, AudioItemResult } from '../api/audio'
 import { isModel3DFile, uploadModel3D, getModel3DFormat } from '../api/models3d'
 import { isSplatFile, uploadSplat } from '../api/splats'
-import { duplicateImage, duplicateVideo, convertToGif, convertToVideo } from '../utils/sceneOperations'
+import { duplicateImage, duplicateVideo, convertToGif, convertToVideo, getConvertedGif, getConvertedVideo, combineVideoItems, getCombinedVideo, combineImageItems, captureFrame, convertAudioItem, extractVideoAudio, getNewAudioItem, NewAudioResult } from '../utils/sceneOperations'
+import { JobCancelledError, MediaJob, MediaJobType } from '../api/jobs'
+import { getContentUrl } from '../api/scenes'
+import type { ConvertMediaResult, CombineVideosResult } from '../api/videos'
 import CanvasContextMenu from './canvas/menus/CanvasContextMenu'
 import ModelSelectorMenu from './canvas/menus/ModelSelectorMenu'
 import ImageContextMenu from './canvas/menus/ImageContextMenu'
 import VideoContextMenu from './canvas/menus/VideoContextMenu'
 import PdfContextMenu from './canvas/menus/PdfContextMenu'
+import AudioContextMenu from './canvas/menus/AudioContextMenu'
 import TextFileContextMenu from './canvas/menus/TextFileContextMenu'
 import HtmlExportMenu from './canvas/menus/HtmlExportMenu'
 import MultiSelectContextMenu from './canvas/menus/MultiSelectContextMenu'
+import FrameContextMenu from './canvas/menus/FrameContextMenu'
+import CombineVideosDialog from './CombineVideosDialog'
+import CombineImagesDialog from './CombineImagesDialog'
+import ExportImageDialog from './ExportImageDialog'
+import ImageEditsDialog from './ImageEditsDialog'
 import TextItemRenderer from './canvas/items/TextItemRenderer'
 import ImageItemRenderer from './canvas/items/ImageItemRenderer'
 import VideoItemRenderer from './canvas/items/VideoItemRenderer'
+import AudioItemRenderer from './canvas/items/AudioItemRenderer'
 import PromptItemRenderer from './canvas/items/PromptItemRenderer'
 import { getPromptContextSummary } from '../utils/promptContextSummary'
 import HtmlItemRenderer from './canvas/items/HtmlItemRenderer'
@@ -33,6 +47,7 @@ import CodingRobotItemRenderer from './canvas/items/CodingRobotItemRenderer'
 import PdfItemRenderer from './canvas/items/PdfItemRenderer'
 import TextFileItemRenderer from './canvas/items/TextFileItemRenderer'
 import EmbedVideoItemRenderer from './canvas/items/EmbedVideoItemRenderer'
+import FrameItemRenderer from './canvas/items/FrameItemRenderer'
 import Model3DItemRenderer from './canvas/items/Model3DItemRenderer'
 import Model3DOverlay from './canvas/overlays/Model3DOverlay'
 import Model3DContextMenu from './canvas/menus/Model3DContextMenu'
@@ -47,12 +62,17 @@ import ImageLabelEditingOverlay from './canvas/overlays/ImageLabelEditingOverlay
 import PdfLabelEditingOverlay from './canvas/overlays/PdfLabelEditingOverlay'
 import TextFileLabelEditingOverlay from './canvas/overlays/TextFileLabelEditingOverlay'
 import VideoOverlay from './canvas/overlays/VideoOverlay'
+import AudioOverlay from './canvas/overlays/AudioOverlay'
 import GifOverlay from './canvas/overlays/GifOverlay'
 import CodingRobotOverlay from './canvas/overlays/CodingRobotOverlay'
 import VideoCropOverlay from './canvas/overlays/VideoCropOverlay'
 import ImageCropOverlay from './canvas/overlays/ImageCropOverlay'
+import ImageAnnotationOverlay from './canvas/overlays/ImageAnnotationOverlay'
 import ProcessingOverlay from './canvas/overlays/ProcessingOverlay'
 import QuickPromptOverlay, { QuickPromptMode } from './canvas/overlays/QuickPromptOverlay'
+import PresentationOverlay, { PRESENTATION_CONTROLS_HEIGHT } from './canvas/overlays/PresentationOverlay'
+import PresenceLayer from './canvas/PresenceLayer'
+import type { Presence } from '../api/collab'
 import { useCanvasViewport } from '../hooks/useCanvasViewport'
 import { useClipboard } from '../hooks/useClipboard'
 import { useCanvasSelection } from '../hooks/useCanvasSelection'
@@ -67,7 +87,7 @@ import { useTransformerSync } from '../hooks/useTransformerSync'
 import { useCanvasKeyboardHandlers, keyboardHandlers } from '../hooks/useCanvasKeyboardHandlers'
 import { useBackgroundOperations } from '../contexts/BackgroundOperationsContext'
 import {
-  HTML_HEADER_HEIGHT, IMAGE_HEADER_HEIGHT, VIDEO_HEADER_HEIGHT, PDF_HEADER_HEIGHT, PDF_MINIMIZED_HEIGHT, TEXTFILE_HEADER_HEIGHT, EMBED_VIDEO_HEADER_HEIGHT, MODEL3D_DEFAULT_WIDTH, MODEL3D_DEFAULT_HEIGHT, SPLAT_DEFAULT_WIDTH, SPLAT_DEFAULT_HEIGHT,
+  HTML_HEADER_HEIGHT, IMAGE_HEADER_HEIGHT, VIDEO_HEADER_HEIGHT, AUDIO_HEADER_HEIGHT, AUDIO_DEFAULT_WIDTH, AUDIO_DEFAULT_HEIGHT, PDF_HEADER_HEIGHT, PDF_MINIMIZED_HEIGHT, TEXTFILE_HEADER_HEIGHT, EMBED_VIDEO_HEADER_HEIGHT, MODEL3D_DEFAULT_WIDTH, MODEL3D_DEFAULT_HEIGHT, SPLAT_DEFAULT_WIDTH, SPLAT_DEFAULT_HEIGHT,
   MIN_PROMPT_WIDTH, MIN_PROMPT_HEIGHT, MIN_TEXT_WIDTH,
   Z_IFRAME_OVERLAY,
   COLOR_SELECTED,
@@ -76,6 +96,7 @@ import {
   TEXT_FILE_EXTENSION_PATTERN, getTextFileFormat,
 } from '../constants/canvas'
 import type { TransformEntry } from '../history'
+import { hasImageEdits } from '../utils/imageEdits'
 
 interface InfiniteCanvasProps {
   items: CanvasItem[]
@@ -108,7 +129,8 @@ interface InfiniteCanvasProps {
   onAddImageGenPrompt?: (x?: number, y?: number) => string
   onAddHtmlGenPrompt?: (x?: number, y?: number) => void
   onAddCodingRobot?: (x?: number, y?: number) => void
-  videoPlaceholders?: Array<{id: string, x: number, y: number, width: number, height: number, name: string}>
+  onAddFrame?: (x?: number, y?: number) => void
+  videoPlaceholders?: Array<{id: string, x: number, y: number, width: number, height: number, name: string, progress?: number}>
   onUploadVideoAt?: (file: File, x: number, y: number) => void
   onBatchTransform?: (entries: TransformEntry[]) => void
   onAddPdfAt?: (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, fileSize?: number, thumbnailSrc?: string) => void
@@ -120,6 +142,11 @@ interface InfiniteCanvasProps {
   onAddSplatAt?: (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, fileSize?: number, format?: string) => void
   onToggleSplatMinimized?: (id: string) => void
   onAddEmbedVideoAt?: (x: number, y: number, videoId: string, startTime?: number) => void
+  onUploadAudioAt?: (file: File, x: number, y: number) => void
+  onUploadImageAt?: (file: File, x: number, y: number) => void
+  onAddAudioAt?: (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, fileSize?: number, format?: string, duration?: number) => void
+  collaborators?: Presence[]
+  onCursorMove?: (position: { x: number; y: number } | null) => void
 }
 
 export interface CanvasHandle {
@@ -128,6 +155,8 @@ export interface CanvasHandle {
   getViewportCenter: () => { x: number; y: number }
   getViewport: () => { x: number; y: number; scale: number }
   setViewport: (pos: { x: number; y: number }, scale: number) => void
+  exportImage: () => void
+  present: () => void
 }
 
 /**
@@ -158,7 +187,7 @@ function setupIframeCtrlWheel(el: HTMLIFrameElement | null) {
   if (el.contentDocument?.readyState === 'complete') attach()
 }
 
-const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function InfiniteCanvas({ items, selectedIds, sceneId, onUpdateItem, onSelectItems, onAddTextAt, onAddImageAt, onAddVideoAt, onDeleteSelected, onCombineTextItems, onRunPrompt, runningPromptIds, onRunImageGenPrompt, runningImageGenPromptIds, onRunHtmlGenPrompt, runningHtmlGenPromptIds, onSendCodingRobotMessage, onStopCodingRobotMessage, onClearCodingRobotChat, runningCodingRobotIds, reconnectingCodingRobotIds, codingRobotActivity, isOffline, onAddText, onAddPrompt, onAddImageGenPrompt, onAddHtmlGenPrompt, onAddCodingRobot, videoPlaceholders, onUploadVideoAt, onBatchTransform, onAddPdfAt, onTogglePdfMinimized, onAddTextFileAt, onToggleTextFileMinimized, onAddModel3DAt, onToggleModel3DMinimized, onAddSplatAt, onToggleSplatMinimized, onAddEmbedVideoAt, onQuickPrompt, onQuickImageGenPrompt }, ref) {
+const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function InfiniteCanvas({ items, selectedIds, sceneId, onUpdateItem, onSelectItems, onAddTextAt, onAddImageAt, onAddVideoAt, onDeleteSelected, onCombineTextItems, onRunPrompt, runningPromptIds, onRunImageGenPrompt, runningImageGenPromptIds, onRunHtmlGenPrompt, runningHtmlGenPromptIds, onSendCodingRobotMessage, onStopCodingRobotMessage, onClearCodingRobotChat, runningCodingRobotIds, reconnectingCodingRobotIds, codingRobotActivity, isOffline, onAddText, onAddPrompt, onAddImageGenPrompt, onAddHtmlGenPrompt, onAddCodingRobot, onAddFrame, videoPlaceholders, onUploadVideoAt, onBatchTransform, onAddPdfAt, onTogglePdfMinimized, onAddTextFileAt, onToggleTextFileMinimized, onAddModel3DAt, onToggleModel3DMinimized, onAddSplatAt, onToggleSplatMinimized, onAddEmbedVideoAt, onUploadAudioAt, onUploadImageAt, onAddAudioAt, onQuickPrompt, onQuickImageGenPrompt, collaborators, onCursorMove }, ref) {
   // Refs
   const containerRef = useRef<HTMLDivElement>(null)
   const stageRef = useRef<Konva.Stage>(null)
@@ -173,9 +202,11 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
   const pdfTransformerRef = useRef<Konva.Transformer>(null)
   const textFileTransformerRef = useRef<Konva.Transformer>(null)
   const videoTransformerRef = useRef<Konva.Transformer>(null)
+  const audioTransformerRef = useRef<Konva.Transformer>(null)
   const embedVideoTransformerRef = useRef<Konva.Transformer>(null)
   const model3DTransformerRef = useRef<Konva.Transformer>(null)
   const splatTransformerRef = useRef<Konva.Transformer>(null)
+  const frameTransformerRef = useRef<Konva.Transformer>(null)
   const contextMenuItemHandledRef = useRef(false)
 
   // Multi-select drag coordination ref
@@ -188,10 +219,29 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
   } | null>(null)
 
   // Background operations tracking
-  const { startOperation, endOperation } = useBackgroundOperations()
+  const { startOperation, endOperation, jobs, trackJob, cancelJob, recoveredJobs, acknowledgeJob } = useBackgroundOperations()
+
+  // Latest playhead of each video overlay, read when capturing a frame
+  const videoPlayheadsRef = useRef(new Map<string, number>())
 
   // Conversion placeholders (video→GIF, GIF→video)
-  const [conversionPlaceholders, setConversionPlaceholders] = useState<Array<{id: string, x: number, y: number, width: number, height: number, name: string}>>([])
+  const [conversionPlaceholders, setConversionPlaceholders] = useState<Array<{id: string, itemId: string, jobType: MediaJobType, x: number, y: number, width: number, height: number, name: string}>>([])
+  // Videos picked for "Combine Videos", while the order dialog is open
+  const [combiningVideos, setCombiningVideos] = useState<VideoItem[] | null>(null)
+  // Images picked for "Combine Images", while the layout dialog is open
+  const [combiningImages, setCombiningImages] = useState<ImageItem[] | null>(null)
+  // Items picked for "Export as Image", while the export dialog is open
+  const [exportingImage, setExportingImage] = useState<{ itemIds: string[]; isScene: boolean; bounds: ExportBounds | null; frameCount: number } | null>(null)
+  // Frame presentation: the current page, and the view and selection to restore afterwards
+  const [presentation, setPresentation] = useState<{
+    index: number
+    viewport: { pos: { x: number; y: number }; scale: number }
+    selectedIds: string[]
+  } | null>(null)
+  // Image whose edit stack is open in the Adjust Image dialog
+  const [adjustingImageId, setAdjustingImageId] = useState<string | null>(null)
+  // Image being marked up in the annotation overlay
+  const [annotatingImageId, setAnnotatingImageId] = useState<string | null>(null)
 
   // Quick prompt state
   const [quickPrompt, setQuickPrompt] = useState<{ mode: QuickPromptMode; screenPos: { x: number; y: number }; canvasPos: { x: number; y: number } } | null>(null)
@@ -282,7 +332,13 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
       setStagePos(pos)
       _setStageScale(scale)
     },
-  }), [items, stageSize, stagePos, stageScale])
+    exportImage: () => {
+      // The selection if there is one, otherwise the whole scene
+      const isScene = selectedIds.length === 0
+      openExportImageDialog(isScene ? items.map((i) => i.id) : selectedIds, isScene)
+    },
+    present: () => startPresentation(),
+  }), [items, selectedIds, stageSize, stagePos, stageScale])
 
   // 2. Image loader hook
   const { loadedImages } = useImageLoader(items)
@@ -293,11 +349,13 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
     pendingCropRect,
     lockAspectRatio,
     processingImageId,
+    processingImageEdits,
     setCroppingImageId,
     setPendingCropRect,
     setLockAspectRatio,
     applyCrop,
     cancelCrop: _cancelCrop,
+    applyImageEdits,
   } = useCropMode({ items, sceneId, loadedImages, isOffline, onUpdateItem })
 
   // 3b. Video crop mode hook
@@ -309,6 +367,9 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
     pendingTrim: videoPendingTrim,
     pendingTrimStart: videoPendingTrimStart,
     pendingTrimEnd: videoPendingTrimEnd,
+    pendingSegments: videoPendingSegments,
+    pendingCaptions: videoPendingCaptions,
+    pendingCallouts: videoPendingCallouts,
     processingVideoId,
     startCrop: startVideoCrop,
     setPendingCropRect: setVideoPendingCropRect,
@@ -317,6 +378,9 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
     setPendingTrim: setVideoPendingTrim,
     setPendingTrimStart: setVideoPendingTrimStart,
     setPendingTrimEnd: setVideoPendingTrimEnd,
+    setPendingSegments: setVideoPendingSegments,
+    setPendingCaptions: setVideoPendingCaptions,
+    setPendingCallouts: setVideoPendingCallouts,
     applyOrCancelCrop: applyOrCancelVideoCrop,
   } = useVideoCropMode({ items, sceneId, isOffline, onUpdateItem })
 
@@ -329,7 +393,7 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
   // 6. Derive isEditing
-  const isEditing = !!(editingTextId || promptEditing.editingId || imageGenPromptEditing.editingId || htmlGenPromptEditing.editingId)
+  const isEditing = !!(editingTextId || promptEditing.editingId || imageGenPromptEditing.editingId || htmlGenPromptEditing.editingId || annotatingImageId)
 
   // 7. Canvas selection hook
   const {
@@ -431,6 +495,7 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
   const htmlGenModelMenu = useMenuState<string>()
   const imageContextMenuState = useMenuState<{ imageId: string }>()
   const videoContextMenuState = useMenuState<{ videoId: string }>()
+  const audioContextMenuState = useMenuState<{ audioId: string }>()
   const pdfContextMenuState = useMenuState<{ pdfId: string }>()
   const textFileContextMenuState = useMenuState<{ textFileId: string }>()
   const exportMenu = useMenuState<string>()
@@ -439,6 +504,9 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
   // 10. Remaining UI state
   const [htmlItemTransforms, setHtmlItemTransforms] = useState<Map<string, { x: number; y: number; width: number; height: number }>>(new Map())
   const [videoItemTransforms, setVideoItemTransforms] = useState<Map<string, { x: number; y: number; width: number; height: number }>>(new Map())
+  const [audioItemTransforms, setAudioItemTransforms] = useState<Map<string, { x: number; y: number; width: number; height: number }>>(new Map())
+  // Audio item whose overlay is showing trim handles
+  const [trimmingAudioId, setTrimmingAudioId] = useState<string | null>(null)
   const [gifItemTransforms, setGifItemTransforms] = useState<Map<string, { x: number; y: number; width: number; height: number }>>(new Map())
   const [codingRobotItemTransforms, setCodingRobotItemTransforms] = useState<Map<string, { x: number; y: number; width: number; height: number }>>(new Map())
   const [editingHtmlLabelId, setEditingHtmlLabelId] = useState<string | null>(null)
@@ -457,6 +525,7 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
   const [model3DResetKeys, setModel3DResetKeys] = useState<Map<string, number>>(new Map())
   const [splatItemTransforms, setSplatItemTransforms] = useState<Map<string, { x: number; y: number; width: number; height: number }>>(new Map())
   const splatContextMenuState = useMenuState<{ splatId: string }>()
+  const frameContextMenuState = useMenuState<{ frameId: string }>()
   const [splatResetKeys, setSplatResetKeys] = useState<Map<string, number>>(new Map())
   const [editingTextFileLabelId, setEditingTextFileLabelId] = useState<string | null>(null)
   const textFileLabelInputRef = useRef<HTMLInputElement>(null)
@@ -519,6 +588,7 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
       { type: 'text', ref: textTransformerRef },
       { type: 'image', ref: imageTransformerRef, excludeId: croppingImageId, childName: 'transform-target' },
       { type: 'video', ref: videoTransformerRef, childName: 'transform-target' },
+      { type: 'audio', ref: audioTransformerRef, childName: 'transform-target' },
       { type: 'prompt', ref: promptTransformerRef },
       { type: 'image-gen-prompt', ref: imageGenPromptTransformerRef },
       { type: 'html-gen-prompt', ref: htmlGenPromptTransformerRef },
@@ -529,11 +599,12 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
       { type: 'embed-video', ref: embedVideoTransformerRef },
       { type: 'model3d', ref: model3DTransformerRef, filterItem: (item) => item.type === 'model3d' && !item.minimized },
       { type: 'splat', ref: splatTransformerRef, filterItem: (item) => item.type === 'splat' && !item.minimized },
+      { type: 'frame', ref: frameTransformerRef, childName: 'transform-target' },
     ],
   })
 
   // 13. Multi-select drag coordination (Layer-level handlers)
-  const allTransformerRefs = [textTransformerRef, imageTransformerRef, videoTransformerRef, promptTransformerRef, imageGenPromptTransformerRef, htmlGenPromptTransformerRef, htmlTransformerRef, pdfTransformerRef, textFileTransformerRef, embedVideoTransformerRef, model3DTransformerRef, splatTransformerRef]
+  const allTransformerRefs = [textTransformerRef, imageTransformerRef, videoTransformerRef, audioTransformerRef, promptTransformerRef, imageGenPromptTransformerRef, htmlGenPromptTransformerRef, htmlTransformerRef, pdfTransformerRef, textFileTransformerRef, embedVideoTransformerRef, model3DTransformerRef, splatTransformerRef, frameTransformerRef]
 
   const handleLayerDragStart = useCallback((e: Konva.KonvaEventObject<DragEvent>) => {
     // Guard: if already tracking a drag (e.g. Transformer started drag on
@@ -575,6 +646,15 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
       }
     }
 
+    // Frames being dragged carry the items inside them
+    const draggedIds = selectedIds.includes(nodeId) ? selectedIds : [nodeId]
+    for (const id of getCarriedItemIds(items, draggedIds)) {
+      const node = stageRef.current?.findOne('#' + id) as Konva.Node | undefined
+      if (node) {
+        otherNodes.push({ id, node, startX: node.x(), startY: node.y() })
+      }
+    }
+
     multiDragRef.current = {
       dragNodeId: nodeId,
       startNodeX: target.x(),
@@ -611,6 +691,13 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
           next.set(id, { x: node.x(), y: node.y() + headerHeight, width: item.width * scaleX, height: item.height * scaleY })
           return next
         })
+      } else if (item.type === 'audio') {
+        const headerHeight = selectedIds.includes(item.id) ? AUDIO_HEADER_HEIGHT / Math.max(1, stageScale) : 0
+        setAudioItemTransforms((prev) => {
+          const next = new Map(prev)
+          next.set(id, { x: node.x(), y: node.y() + headerHeight, width: item.width, height: item.height })
+          return next
+        })
       } else if (item.type === 'image' && gifIds.has(id)) {
         const scaleX = item.scaleX ?? 1
         const scaleY = item.scaleY ?? 1
@@ -695,6 +782,11 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
       for (const { id } of otherNodes) next.delete(id)
       return next
     })
+    setAudioItemTransforms((prev) => {
+      const next = new Map(prev)
+      for (const { id } of otherNodes) next.delete(id)
+      return next
+    })
     setGifItemTransforms((prev) => {
       const next = new Map(prev)
       for (const { id } of otherNodes) next.delete(id)
@@ -810,6 +902,8 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
     const placeholderId = videoItem.id + '_converting'
     const placeholder = {
       id: placeholderId,
+      itemId: videoItem.id,
+      jobType: 'convert-media' as const,
       x: videoItem.x + visualWidth + gap,
       y: videoItem.y,
       width: visualWidth,
@@ -819,7 +913,7 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
     setConversionPlaceholders(prev => [...prev, placeholder])
     try {
       startOperation()
-      const result = await convertToGif(sceneId, videoItem)
+      const result = await convertToGif(sceneId, videoItem, (job) => trackJob(job, placeholder.name))
       onAddImageAt(
         result.id,
         result.positionX,
@@ -834,12 +928,14 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
       )
       endOperation()
     } catch (error) {
-      console.error('Failed to convert video to GIF:', error)
+      if (!(error instanceof JobCancelledError)) {
+        console.error('Failed to convert video to GIF:', error)
+      }
       endOperation()
     } finally {
       setConversionPlaceholders(prev => prev.filter(p => p.id !== placeholderId))
     }
-  }, [sceneId, onAddImageAt, startOperation, endOperation])
+  }, [sceneId, onAddImageAt, startOperation, endOperation, trackJob])
 
   // Handle GIF → video conversion
   const handleConvertGifToVideo = useCallback(async (imageItem: ImageItem) => {
@@ -852,6 +948,8 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
     const placeholderId = imageItem.id + '_converting'
     const placeholder = {
       id: placeholderId,
+      itemId: imageItem.id,
+      jobType: 'convert-media' as const,
       x: imageItem.x + visualWidth + gap,
       y: imageItem.y,
       width: visualWidth,
@@ -861,7 +959,51 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
     setConversionPlaceholders(prev => [...prev, placeholder])
     try {
       startOperation()
-      const result = await convertToVideo(sceneId, imageItem)
+      const result = await convertToVideo(sceneId, imageItem, (job) => trackJob(job, placeholder.name))
+      onAddVideoAt(
+        result.id,
+        result.positionX,
+        result.positionY,
+        result.url,
+        result.visualWidth,
+        result.visualHeight,
+        result.name,
+        result.fileSize,
+        result.pixelWidth,
+        result.pixelHeight
+      )
+      endOperation()
+    } catch (error) {
+      if (!(error instanceof JobCancelledError)) {
+        console.error('Failed to convert GIF to video:', error)
+      }
+      endOperation()
+    } finally {
+      setConversionPlaceholders(prev => prev.filter(p => p.id !== placeholderId))
+    }
+  }, [sceneId, onAddVideoAt, startOperation, endOperation, trackJob])
+
+  // Join videos end to end into a new video below them
+  const handleCombineVideos = useCallback(async (videoItems: VideoItem[]) => {
+    setCombiningVideos(null)
+    const first = videoItems[0]
+    const visualWidth = Math.round(first.width * (first.scaleX ?? 1))
+    const visualHeight = Math.round(first.height * (first.scaleY ?? 1))
+    const placeholderId = first.id + '_combining'
+    const placeholder = {
+      id: placeholderId,
+      itemId: first.id,
+      jobType: 'combine-videos' as const,
+      x: Math.min(...videoItems.map((v) => v.x)),
+      y: Math.max(...videoItems.map((v) => v.y + v.height * (v.scaleY ?? 1))) + 20,
+      width: visualWidth,
+      height: visualHeight,
+      name: `Combining ${videoItems.length} videos`,
+    }
+    setConversionPlaceholders(prev => [...prev, placeholder])
+    try {
+      startOperation()
+      const result = await combineVideoItems(sceneId, videoItems, (job) => trackJob(job, placeholder.name))
       onAddVideoAt(
         result.id,
         result.positionX,
@@ -874,14 +1016,328 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
         result.pixelWidth,
         result.pixelHeight
       )
+    } catch (error) {
+      if (!(error instanceof JobCancelledError)) {
+        console.error('Failed to combine videos:', error)
+        alert((error as Error).message || 'Failed to combine videos.')
+      }
+    } finally {
+      endOperation()
+      setConversionPlaceholders(prev => prev.filter(p => p.id !== placeholderId))
+    }
+  }, [sceneId, onAddVideoAt, startOperation, endOperation, trackJob])
+
+  // Composite images into a new image below them
+  const handleCombineImages = useCallback(async (imageItems: ImageItem[], options: CombineImagesOptions) => {
+    setCombiningImages(null)
+    try {
+      startOperation()
+      const result = await combineImageItems(sceneId, imageItems, options)
+      onAddImageAt(
+        result.id,
+        result.positionX,
+        result.positionY,
+        result.url,
+        result.visualWidth,
+        result.visualHeight,
+        result.name,
+        result.pixelWidth,
+        result.pixelHeight,
+        result.fileSize
+      )
+    } catch (error) {
+      console.error('Failed to combine images:', error)
+      alert((error as Error).message || 'Failed to combine images.')
+    } finally {
+      endOperation()
+    }
+  }, [sceneId, onAddImageAt, startOperation, endOperation])
+
+  const openExportImageDialog = (itemIds: string[], isScene: boolean) => {
+    const layer = layerRef.current
+    if (!layer || itemIds.length === 0) return
+    const ids = new Set(itemIds)
+    setExportingImage({
+      itemIds,
+      isScene,
+      bounds: getExportArea({ layer, items }, ids, 0),
+      frameCount: items.filter((i) => ids.has(i.id) && isFrame(i)).length,
+    })
+  }
+
+  // Render the picked items as they look on the canvas and save the file
+  const handleExportImage = useCallback(async (options: CanvasExportOptions) => {
+    const stage = stageRef.current
+    const layer = layerRef.current
+    const container = containerRef.current
+    if (!exportingImage || !stage || !layer || !container) return
+    setExportingImage(null)
+
+    const { itemIds, isScene } = exportingImage
+    const single = itemIds.length === 1 ? items.find((i) => i.id === itemIds[0]) : undefined
+    const singleName = single && ('name' in single ? single.name : 'label' in single ? single.label : undefined)
+    const name = (singleName || (isScene ? 'scene' : 'selection')).replace(/[<>:"/\\|?*]/g, '_').trim() || 'export'
+    const previousSelection = selectedIds
+    try {
+      startOperation()
+      // Selection outlines and transform handles are drawn on the same layer as the items
+      onSelectItems([])
+      await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+      const blob = await exportCanvasImage({ stage, layer, container, items, sceneId }, itemIds, options, name)
+      const description = options.format === 'pdf' ? 'PDF Document' : `${options.format.toUpperCase()} Image`
+      await saveAsOrDownload(blob, `${name}.${options.format}`, description, blob.type, options.format)
+    } catch (error) {
+      console.error('Failed to export image:', error)
+      alert((error as Error).message || 'Failed to export image.')
+    } finally {
+      onSelectItems(previousSelection)
+      endOperation()
+    }
+  }, [exportingImage, items, selectedIds, sceneId, onSelectItems, startOperation, endOperation])
+
+  // Frames in page order, and each frame's page number for its title
+  const orderedFrames = useMemo(() => getOrderedFrames(items), [items])
+  const framePageNumbers = useMemo(
+    () => new Map(orderedFrames.map((frame, i) => [frame.id, i + 1])),
+    [orderedFrames],
+  )
+  // Frames are drawn first so they sit behind the items they hold
+  const itemsInDrawOrder = useMemo(
+    () => [...items.filter(isFrame), ...items.filter((item) => !isFrame(item))],
+    [items],
+  )
+
+  const handleRenameFrame = (id: string) => {
+    const frame = items.find((i): i is FrameItem => i.id === id && isFrame(i))
+    if (!frame) return
+    const name = window.prompt('Frame name:', frame.name)
+    if (name === null) return
+    onUpdateItem(id, { name: name.trim() })
+  }
+
+  // Swap a frame with its neighbour in page order. Orders are renumbered 1..n so that
+  // frames sharing an order (e.g. from pasting) end up distinct.
+  const handleMoveFrame = (id: string, direction: -1 | 1) => {
+    const index = orderedFrames.findIndex((f) => f.id === id)
+    const target = index + direction
+    if (index < 0 || target < 0 || target >= orderedFrames.length) return
+    const reordered = [...orderedFrames]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    const entries: TransformEntry[] = []
+    reordered.forEach((frame, i) => {
+      const order = i + 1
+      if (frame.order === order) return
+      entries.push({ objectId: frame.id, oldTransform: { order: frame.order }, newTransform: { order } })
+      onUpdateItem(frame.id, { order }, true)
+    })
+    if (entries.length > 0) onBatchTransform?.(entries)
+  }
+
+  const startPresentation = (frameId?: string) => {
+    if (orderedFrames.length === 0) return
+    const index = frameId ? Math.max(0, orderedFrames.findIndex((f) => f.id === frameId)) : 0
+    setPresentation({ index, viewport: { pos: stagePos, scale: stageScale }, selectedIds })
+    onSelectItems([])
+  }
+
+  const endPresentation = useCallback(() => {
+    if (!presentation) return
+    setStagePos(presentation.viewport.pos)
+    _setStageScale(presentation.viewport.scale)
+    onSelectItems(presentation.selectedIds)
+    setPresentation(null)
+  }, [presentation, setStagePos, _setStageScale, onSelectItems])
+
+  const stepPresentation = useCallback((delta: number) => {
+    setPresentation((prev) => {
+      if (!prev) return prev
+      const index = Math.min(orderedFrames.length - 1, Math.max(0, prev.index + delta))
+      return index === prev.index ? prev : { ...prev, index }
+    })
+  }, [orderedFrames.length])
+
+  const presentedFrame = presentation ? orderedFrames[Math.min(presentation.index, orderedFrames.length - 1)] : undefined
+
+  // Fit the presented frame into the view, leaving room for the controls
+  useEffect(() => {
+    if (!presentation) return
+    if (!presentedFrame) {
+      endPresentation()
+      return
+    }
+    const margin = 24
+    const availableHeight = stageSize.height - PRESENTATION_CONTROLS_HEIGHT - margin * 2
+    const scale = Math.min(
+      (stageSize.width - margin * 2) / presentedFrame.width,
+      availableHeight / presentedFrame.height,
+      5,
+    )
+    _setStageScale(scale)
+    setStagePos({
+      x: stageSize.width / 2 - (presentedFrame.x + presentedFrame.width / 2) * scale,
+      y: margin + availableHeight / 2 - (presentedFrame.y + presentedFrame.height / 2) * scale,
+    })
+  }, [presentation, presentedFrame, stageSize.width, stageSize.height])
+
+  // Capture a video frame as a new image next to the video
+  const handleCaptureFrame = useCallback(async (videoItem: VideoItem, time: number) => {
+    try {
+      startOperation()
+      const result = await captureFrame(sceneId, videoItem, time)
+      onAddImageAt(
+        result.id,
+        result.positionX,
+        result.positionY,
+        result.url,
+        result.visualWidth,
+        result.visualHeight,
+        result.name,
+        result.pixelWidth,
+        result.pixelHeight,
+        result.fileSize
+      )
+    } catch (error) {
+      console.error('Failed to capture video frame:', error)
+      alert((error as Error).message || 'Failed to capture frame.')
+    } finally {
       endOperation()
+    }
+  }, [sceneId, onAddImageAt, startOperation, endOperation])
+
+  // Leave trim mode when the audio item is deselected
+  useEffect(() => {
+    if (trimmingAudioId && !selectedIds.includes(trimmingAudioId)) setTrimmingAudioId(null)
+  }, [trimmingAudioId, selectedIds])
+
+  // Point an audio item at its freshly trimmed .crop file
+  const applyTrimmedAudio = useCallback(async (audioItem: AudioItem, start: number, end: number, fileSize: number | undefined) => {
+    const cropUrl = await getContentUrl(sceneId, audioItem.id, 'audio', audioItem.format, true)
+    // Cache-bust so the player and waveform don't reuse an earlier trim
+    const cacheBustedUrl = `${cropUrl}${cropUrl.includes('?') ? '&' : '?'}t=${Date.now()}`
+    onUpdateItem(audioItem.id, { cropSrc: cacheBustedUrl, cropSrcFileSize: fileSize, trimStart: start, trimEnd: end })
+  }, [sceneId, onUpdateItem])
+
+  // Trim an audio item on the server. Keeping the whole file just removes the trim.
+  const handleApplyAudioTrim = useCallback(async (audioItem: AudioItem, start: number, end: number) => {
+    setTrimmingAudioId(null)
+    const duration = audioItem.duration ?? Infinity
+    if (start <= 0 && end >= duration - 0.05) {
+      if (audioItem.cropSrc) {
+        onUpdateItem(audioItem.id, { cropSrc: undefined, cropSrcFileSize: undefined, trimStart: undefined, trimEnd: undefined })
+      }
+      return
+    }
+    if (audioItem.cropSrc && start === audioItem.trimStart && end === audioItem.trimEnd) return
+    try {
+      startOperation()
+      const result = await trimAudio(sceneId, audioItem.id, start, end, audioItem.format,
+        (job) => trackJob(job, `Trimming ${audioItem.name || 'audio'}`))
+      await applyTrimmedAudio(audioItem, start, end, result.fileSize)
     } catch (error) {
-      console.error('Failed to convert GIF to video:', error)
+      if (!(error instanceof JobCancelledError)) {
+        console.error('Failed to trim audio:', error)
+        alert((error as Error).message || 'Failed to trim audio.')
+      }
+    } finally {
       endOperation()
+    }
+  }, [sceneId, onUpdateItem, startOperation, endOperation, trackJob, applyTrimmedAudio])
+
+  // Make a new audio item next to the source: a format conversion of an audio item, or
+  // the sound of a video
+  const runNewAudioJob = useCallback(async (
+    source: VideoItem | AudioItem,
+    jobType: MediaJobType,
+    name: string,
+    run: (onJob: (job: MediaJob) => void) => Promise<NewAudioResult>
+  ) => {
+    const sourceWidth = source.type === 'video' ? Math.round(source.width * (source.scaleX ?? 1)) : source.width
+    const placeholderId = `${source.id}_${jobType}`
+    const placeholder = {
+      id: placeholderId,
+      itemId: source.id,
+      jobType,
+      x: source.x + sourceWidth + 20,
+      y: source.y,
+      width: AUDIO_DEFAULT_WIDTH,
+      height: AUDIO_DEFAULT_HEIGHT,
+      name,
+    }
+    setConversionPlaceholders(prev => [...prev, placeholder])
+    try {
+      startOperation()
+      const audio = await run((job) => trackJob(job, name))
+      onAddAudioAt?.(audio.id, audio.positionX, audio.positionY, audio.url, audio.visualWidth, audio.visualHeight,
+        audio.name, audio.fileSize, audio.format, audio.duration)
+    } catch (error) {
+      if (!(error instanceof JobCancelledError)) {
+        console.error(`Failed to ${jobType}:`, error)
+        alert((error as Error).message || 'Failed to create audio.')
+      }
     } finally {
+      endOperation()
       setConversionPlaceholders(prev => prev.filter(p => p.id !== placeholderId))
     }
-  }, [sceneId, onAddVideoAt, startOperation, endOperation])
+  }, [onAddAudioAt, startOperation, endOperation, trackJob])
+
+  const handleConvertAudio = useCallback((audioItem: AudioItem, targetFormat: AudioFormat) => {
+    runNewAudioJob(audioItem, 'convert-media', `${audioItem.name || 'Audio'} → ${targetFormat.toUpperCase()}`,
+      (onJob) => convertAudioItem(sceneId, audioItem, targetFormat, onJob))
+  }, [sceneId, runNewAudioJob])
+
+  const handleExtractAudio = useCallback((videoItem: VideoItem) => {
+    runNewAudioJob(videoItem, 'extract-audio', `Extracting audio from ${videoItem.name || 'video'}`,
+      (onJob) => extractVideoAudio(sceneId, videoItem, onJob))
+  }, [sceneId, runNewAudioJob])
+
+  // Add conversions and combines that finished while the page was reloading
+  useEffect(() => {
+    for (const job of recoveredJobs) {
+      if (job.type === 'combine-videos' && job.sceneId === sceneId && job.result) {
+        const result = job.result as unknown as CombineVideosResult
+        const clips = result.videoIds
+          .map((id) => items.find((i) => i.id === id))
+          .filter((i): i is VideoItem => i?.type === 'video')
+        if (clips.length === 0) continue
+        acknowledgeJob(job.id)
+        if (items.some((i) => i.id === result.newItemId)) continue
+        const video = getCombinedVideo(clips, result)
+        onAddVideoAt(video.id, video.positionX, video.positionY, video.url, video.visualWidth, video.visualHeight,
+          video.name, video.fileSize, video.pixelWidth, video.pixelHeight)
+        continue
+      }
+      if (job.type === 'trim-audio' && job.sceneId === sceneId && job.result) {
+        const audio = items.find((i) => i.id === job.itemId && i.type === 'audio') as AudioItem | undefined
+        if (!audio) continue
+        acknowledgeJob(job.id)
+        const { start, end, fileSize } = job.result as { start: number; end: number; fileSize: number }
+        applyTrimmedAudio(audio, start, end, fileSize).catch((err) =>
+          console.error('Failed to apply recovered audio trim:', err)
+        )
+        continue
+      }
+      if ((job.type !== 'convert-media' && job.type !== 'extract-audio') || job.sceneId !== sceneId || !job.result) continue
+      const source = items.find((i) => i.id === job.itemId)
+      if (!source) continue
+      acknowledgeJob(job.id)
+      const result = job.result as unknown as ConvertMediaResult
+      if (items.some((i) => i.id === result.newItemId)) continue
+      // Audio results (conversions of audio items and extracted video sound) carry a format
+      if ((source.type === 'audio' || source.type === 'video') && 'format' in job.result) {
+        const audio = getNewAudioItem(source, job.result as unknown as AudioItemResult)
+        onAddAudioAt?.(audio.id, audio.positionX, audio.positionY, audio.url, audio.visualWidth, audio.visualHeight,
+          audio.name, audio.fileSize, audio.format, audio.duration)
+      } else if (source.type === 'video') {
+        const gif = getConvertedGif(source, result)
+        onAddImageAt(gif.id, gif.positionX, gif.positionY, gif.url, gif.visualWidth, gif.visualHeight,
+          gif.name, gif.pixelWidth, gif.pixelHeight, gif.fileSize)
+      } else if (source.type === 'image') {
+        const video = getConvertedVideo(source, result)
+        onAddVideoAt(video.id, video.positionX, video.positionY, video.url, video.visualWidth, video.visualHeight,
+          video.name, video.fileSize, video.pixelWidth, video.pixelHeight)
+      }
+    }
+  }, [recoveredJobs, sceneId, items, acknowledgeJob, onAddImageAt, onAddVideoAt, onAddAudioAt, applyTrimmedAudio])
 
   const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault()
@@ -898,8 +1354,13 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
     // Process each dropped file
     let offsetIndex = 0
     for (const file of Array.from(files)) {
+      // Images the server converts (HEIC, TIFF, ...), which the browser may not decode
+      if (isConvertedImageFile(file) && onUploadImageAt) {
+        onUploadImageAt(file, canvasPos.x + offsetIndex * 20, canvasPos.y + offsetIndex * 20)
+        offsetIndex++
+      }
       // Handle image files
-      if (file.type.startsWith('image/')) {
+      else if (file.type.startsWith('image/')) {
         // Reject images larger than 25MB to prevent memory exhaustion
         if (file.size > 25 * 1024 * 1024) {
           console.warn(`Image too large (${(file.size / 1024 / 1024).toFixed(1)}MB), max 25MB`)
@@ -939,6 +1400,11 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
         reader.readAsDataURL(file)
         offsetIndex++
       }
+      // Handle audio files (before video, since .ogg can be either)
+      else if (isAudioFile(file) && onUploadAudioAt) {
+        onUploadAudioAt(file, canvasPos.x + offsetIndex * 20, canvasPos.y + offsetIndex * 20)
+        offsetIndex++
+      }
       // Handle video files (if video support is enabled)
       else if (isVideoFile(file) && config.features.videoSupport) {
         if (onUploadVideoAt) {
@@ -1326,14 +1792,41 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
         onWheel={handleWheel}
         onClick={handleStageClick}
         onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
+        onMouseMove={(e) => {
+          handleMouseMove(e)
+          if (onCursorMove) onCursorMove(stageRef.current?.getRelativePointerPosition() ?? null)
+        }}
+        onMouseLeave={() => onCursorMove?.(null)}
         onMouseUp={handleMouseUp}
         onContextMenu={handleContextMenu}
       >
       <Layer ref={layerRef} onDragStart={handleLayerDragStart} onDragMove={handleLayerDragMove} onDragEnd={handleLayerDragEnd}>
         {/* Canvas items */}
-        {items.map((item) => {
-          if (item.type === 'text') {
+        {itemsInDrawOrder.map((item) => {
+          if (item.type === 'frame') {
+            return (
+              <FrameItemRenderer
+                key={item.id}
+                item={item}
+                pageNumber={framePageNumbers.get(item.id) ?? 0}
+                isSelected={selectedIds.includes(item.id)}
+                stageScale={stageScale}
+                onItemClick={handleItemClick}
+                onTitleDblClick={handleRenameFrame}
+                onContextMenu={(e, id) => {
+                  if (rightMouseDidDragRef.current) return
+                  contextMenuItemHandledRef.current = true
+                  const pos = { x: e.evt.clientX, y: e.evt.clientY }
+                  if (selectedIds.length > 1 && selectedIds.includes(id)) {
+                    multiSelectContextMenuState.openMenu({}, pos)
+                  } else {
+                    frameContextMenuState.openMenu({ frameId: id }, pos)
+                  }
+                }}
+                onUpdateItem={handleUpdateItem}
+              />
+            )
+          } else if (item.type === 'text') {
             return (
               <TextItemRenderer
                 key={item.id}
@@ -1348,7 +1841,9 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
           } else if (item.type === 'image') {
             // Hide the image item when it's being cropped
             if (croppingImageId === item.id) return null
-            const img = loadedImages.get(item.src)
+            // Edited images are drawn from the rendered file once it has loaded
+            const editedImg = hasImageEdits(item) && item.cropSrc ? loadedImages.get(item.cropSrc) : undefined
+            const img = editedImg ?? loadedImages.get(item.src)
             if (!img) return null
             const itemIsGif = gifIds.has(item.id)
             return (
@@ -1356,8 +1851,10 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
                 key={item.id}
                 item={item}
                 image={img}
+                isEdited={!!editedImg}
                 isSelected={selectedIds.includes(item.id)}
                 isGif={itemIsGif}
+                isAnnotating={annotatingImageId === item.id}
                 editingImageLabelId={editingImageLabelId}
                 onItemClick={handleItemClick}
                 onContextMenu={(e, id) => {
@@ -1402,6 +1899,28 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
                 stageScale={stageScale}
               />
             )
+          } else if (item.type === 'audio') {
+            return (
+              <AudioItemRenderer
+                key={item.id}
+                item={item}
+                isSelected={selectedIds.includes(item.id)}
+                onItemClick={handleItemClick}
+                onContextMenu={(e, id) => {
+                  if (rightMouseDidDragRef.current) return
+                  contextMenuItemHandledRef.current = true
+                  const pos = { x: e.evt.clientX, y: e.evt.clientY }
+                  if (selectedIds.length > 1 && selectedIds.includes(id)) {
+                    multiSelectContextMenuState.openMenu({}, pos)
+                  } else {
+                    audioContextMenuState.openMenu({ audioId: id }, pos)
+                  }
+                }}
+                onUpdateItem={handleUpdateItem}
+                setAudioItemTransforms={setAudioItemTransforms}
+                stageScale={stageScale}
+              />
+            )
           } else if (item.type === 'prompt') {
             return (
               <PromptItemRenderer
@@ -1621,7 +2140,7 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
               cornerRadius={4}
             />
             <Text
-              text={`Uploading ${ph.name}...`}
+              text={ph.progress !== undefined ? `Uploading ${ph.name}... ${Math.round(ph.progress * 100)}%` : `Uploading ${ph.name}...`}
               width={ph.width}
               height={ph.height}
               align="center"
@@ -1633,28 +2152,31 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
         ))}
 
         {/* Conversion placeholders (video→GIF, GIF→video) */}
-        {conversionPlaceholders.map((ph) => (
-          <Group key={`conversion-${ph.id}`} x={ph.x} y={ph.y}>
-            <Rect
-              width={ph.width}
-              height={ph.height}
-              fill="#1a1a2e"
-              stroke="#666"
-              strokeWidth={2}
-              dash={[10, 5]}
-              cornerRadius={4}
-            />
-            <Text
-              text={`Converting ${ph.name}...`}
-              width={ph.width}
-              height={ph.height}
-              align="center"
-              verticalAlign="middle"
-              fill="#888"
-              fontSize={16}
-            />
-          </Group>
-        ))}
+        {conversionPlaceholders.map((ph) => {
+          const progress = jobs.find((j) => j.type === ph.jobType && j.itemId === ph.itemId)?.progress
+          return (
+            <Group key={`conversion-${ph.id}`} x={ph.x} y={ph.y}>
+              <Rect
+                width={ph.width}
+                height={ph.height}
+                fill="#1a1a2e"
+                stroke="#666"
+                strokeWidth={2}
+                dash={[10, 5]}
+                cornerRadius={4}
+              />
+              <Text
+                text={`${ph.jobType === 'convert-media' ? `Converting ${ph.name}` : ph.name}...${progress != null ? ` ${Math.round(progress * 100)}%` : ''}`}
+                width={ph.width}
+                height={ph.height}
+                align="center"
+                verticalAlign="middle"
+                fill="#888"
+                fontSize={16}
+              />
+            </Group>
+          )
+        })}
 
         {/* Quick prompt generation placeholders */}
         {quickPromptPlaceholders.map((ph) => {
@@ -1820,6 +2342,19 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
           enabledAnchors={['top-left', 'top-right', 'bottom-left', 'bottom-right']}
           keepRatio={true}
         />
+        {/* Transformer for audio - free resize, no rotation */}
+        <Transformer
+          ref={audioTransformerRef}
+          rotateEnabled={false}
+          enabledAnchors={['top-left', 'top-right', 'bottom-left', 'bottom-right', 'middle-left', 'middle-right', 'top-center', 'bottom-center']}
+          keepRatio={false}
+          boundBoxFunc={(oldBox, newBox) => {
+            if (newBox.width < MIN_PROMPT_WIDTH || newBox.height < MIN_PROMPT_HEIGHT) {
+              return oldBox
+            }
+            return newBox
+          }}
+        />
         {/* Transformer for embed videos - corner handles only, keep aspect ratio */}
         <Transformer
           ref={embedVideoTransformerRef}
@@ -1853,7 +2388,21 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
             return newBox
           }}
         />
+        {/* Transformer for frames - free resize, no rotation */}
+        <Transformer
+          ref={frameTransformerRef}
+          rotateEnabled={false}
+          enabledAnchors={['top-left', 'top-right', 'bottom-left', 'bottom-right', 'middle-left', 'middle-right', 'top-center', 'bottom-center']}
+          keepRatio={false}
+          boundBoxFunc={(oldBox, newBox) => {
+            if (newBox.width < MIN_PROMPT_WIDTH || newBox.height < MIN_PROMPT_HEIGHT) {
+              return oldBox
+            }
+            return newBox
+          }}
+        />
       </Layer>
+      <PresenceLayer collaborators={collaborators ?? []} items={items} stageScale={stageScale} />
     </Stage>
 
       {/* HTML iframe overlays - tracks Konva rects during drag/transform */}
@@ -2314,6 +2863,29 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
               isAnyDragActive={isAnyDragActive}
               onUpdateItem={onUpdateItem}
               transform={transform}
+              onTimeUpdate={(time) => videoPlayheadsRef.current.set(item.id, time)}
+            />
+          )
+        })}
+
+      {/* Audio overlays */}
+      {items
+        .filter((item) => item.type === 'audio')
+        .map((item) => {
+          if (item.type !== 'audio') return null
+          return (
+            <AudioOverlay
+              key={`audio-${item.id}`}
+              item={item}
+              stageScale={stageScale}
+              stagePos={stagePos}
+              isSelected={selectedIds.includes(item.id)}
+              isAnyDragActive={isAnyDragActive}
+              isTrimming={trimmingAudioId === item.id}
+              onUpdateItem={onUpdateItem}
+              onApplyTrim={(start, end) => handleApplyAudioTrim(item, start, end)}
+              onCancelTrim={() => setTrimmingAudioId(null)}
+              transform={audioItemTransforms.get(item.id)}
             />
           )
         })}
@@ -2338,6 +2910,25 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
         )
       })()}
 
+      {/* Image annotation overlay */}
+      {annotatingImageId && (() => {
+        const imageItem = items.find((i) => i.id === annotatingImageId && i.type === 'image') as ImageItem | undefined
+        if (!imageItem) return null
+        return (
+          <ImageAnnotationOverlay
+            key={imageItem.id}
+            item={imageItem}
+            stageScale={stageScale}
+            stagePos={stagePos}
+            onApply={(annotations) => {
+              onUpdateItem(imageItem.id, { annotations: annotations.length > 0 ? annotations : undefined })
+              setAnnotatingImageId(null)
+            }}
+            onCancel={() => setAnnotatingImageId(null)}
+          />
+        )
+      })()}
+
       {/* Video crop overlay */}
       {croppingVideoId && videoPendingCropRect && (() => {
         const videoItem = items.find((i) => i.id === croppingVideoId && i.type === 'video') as VideoItem | undefined
@@ -2351,6 +2942,9 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
             trim={videoPendingTrim}
             trimStart={videoPendingTrimStart}
             trimEnd={videoPendingTrimEnd}
+            segments={videoPendingSegments}
+            captions={videoPendingCaptions}
+            callouts={videoPendingCallouts}
             stageScale={stageScale}
             stagePos={stagePos}
             onCropChange={setVideoPendingCropRect}
@@ -2359,18 +2953,26 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
             onTrimChange={setVideoPendingTrim}
             onTrimStartChange={setVideoPendingTrimStart}
             onTrimEndChange={setVideoPendingTrimEnd}
+            onSegmentsChange={setVideoPendingSegments}
+            onCaptionsChange={setVideoPendingCaptions}
+            onCalloutsChange={setVideoPendingCallouts}
           />
         )
       })()}
 
-      {/* Processing overlay for video crop */}
-      {processingVideoId && (() => {
-        const videoItem = items.find((i) => i.id === processingVideoId && i.type === 'video') as VideoItem | undefined
+      {/* Processing overlays for video crop, with progress once the server job reports it */}
+      {[...new Set([
+        ...(processingVideoId ? [processingVideoId] : []),
+        ...jobs.filter((j) => j.type === 'crop-video' && j.sceneId === sceneId).map((j) => j.itemId),
+      ])].map((videoId) => {
+        const videoItem = items.find((i) => i.id === videoId && i.type === 'video') as VideoItem | undefined
         if (!videoItem) return null
+        const job = jobs.find((j) => j.type === 'crop-video' && j.itemId === videoId)
         const scaleX = videoItem.scaleX ?? 1
         const scaleY = videoItem.scaleY ?? 1
         return (
           <ProcessingOverlay
+            key={`processing-${videoId}`}
             x={videoItem.x}
             y={videoItem.y}
             width={videoItem.width * scaleX}
@@ -2378,12 +2980,14 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
             stageScale={stageScale}
             stagePos={stagePos}
             message="Processing video..."
+            progress={job?.progress}
+            onCancel={job ? () => cancelJob(job.id) : undefined}
           />
         )
-      })()}
+      })}
 
-      {/* Processing overlay for GIF crop */}
-      {processingImageId && gifIds.has(processingImageId) && (() => {
+      {/* Processing overlay for GIF crop and image edits */}
+      {processingImageId && (gifIds.has(processingImageId) || processingImageEdits) && (() => {
         const imageItem = items.find((i) => i.id === processingImageId && i.type === 'image') as ImageItem | undefined
         if (!imageItem) return null
         const scaleX = imageItem.scaleX ?? 1
@@ -2396,7 +3000,7 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
             height={imageItem.height * scaleY}
             stageScale={stageScale}
             stagePos={stagePos}
-            message="Processing GIF..."
+            message={gifIds.has(imageItem.id) ? 'Processing GIF...' : 'Processing image...'}
           />
         )
       })()}
@@ -2510,11 +3114,13 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
           position={contextMenuState.menuPosition}
           canvasPosition={contextMenuState.menuData ? { x: contextMenuState.menuData.canvasX, y: contextMenuState.menuData.canvasY } : undefined}
           onPaste={handleContextMenuPaste}
+          onExportImage={items.length > 0 ? () => openExportImageDialog(items.map((i) => i.id), true) : undefined}
           onAddText={onAddText}
           onAddPrompt={onAddPrompt}
           onAddImageGenPrompt={onAddImageGenPrompt}
           onAddHtmlGenPrompt={onAddHtmlGenPrompt}
           onAddCodingRobot={onAddCodingRobot}
+          onAddFrame={onAddFrame}
           onClose={contextMenuState.closeMenu}
         />
       )}
@@ -2583,6 +3189,8 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
             setCroppingImageId(id)
             setPendingCropRect(initialCrop)
           }}
+          onAdjust={setAdjustingImageId}
+          onAnnotate={setAnnotatingImageId}
           onDuplicate={handleDuplicateImage}
           onConvertToVideo={handleConvertGifToVideo}
           onClose={imageContextMenuState.closeMenu}
@@ -2594,6 +3202,7 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
         <VideoContextMenu
           position={videoContextMenuState.menuPosition}
           videoItem={items.find((i) => i.id === videoContextMenuState.menuData!.videoId && i.type === 'video') as import('../types').VideoItem | undefined}
+          playhead={videoPlayheadsRef.current.get(videoContextMenuState.menuData!.videoId) ?? 0}
           sceneId={sceneId}
           isOffline={isOffline}
           onUpdateItem={onUpdateItem}
@@ -2609,11 +3218,16 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
               const initialTrim = videoItem.trim ?? false
               const initialTrimStart = videoItem.trimStart ?? 0
               const initialTrimEnd = videoItem.trimEnd ?? 0
-              startVideoCrop(videoId, initialCrop, initialSpeed, initialRemoveAudio, initialTrim, initialTrimStart, initialTrimEnd)
+              const initialSegments = videoItem.segments ?? null
+              const initialCaptions = videoItem.captions ?? []
+              const initialCallouts = videoItem.callouts ?? []
+              startVideoCrop(videoId, initialCrop, initialSpeed, initialRemoveAudio, initialTrim, initialTrimStart, initialTrimEnd, initialSegments, initialCaptions, initialCallouts)
             }
           }}
           onDuplicate={handleDuplicateVideo}
           onConvertToGif={handleConvertVideoToGif}
+          onCaptureFrame={handleCaptureFrame}
+          onExtractAudio={handleExtractAudio}
           onClose={videoContextMenuState.closeMenu}
         />
       )}
@@ -2630,6 +3244,21 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
       )}
 
       {/* 3D Model context menu */}
+      {audioContextMenuState.menuData && audioContextMenuState.menuPosition && (
+        <AudioContextMenu
+          position={audioContextMenuState.menuPosition}
+          audioItem={items.find((i) => i.id === audioContextMenuState.menuData!.audioId && i.type === 'audio') as AudioItem | undefined}
+          sceneId={sceneId}
+          isOffline={isOffline}
+          onUpdateItem={onUpdateItem}
+          onTrim={(audioId) => {
+            onSelectItems([audioId])
+            setTrimmingAudioId(audioId)
+          }}
+          onConvert={handleConvertAudio}
+          onClose={audioContextMenuState.closeMenu}
+        />
+      )}
       {model3DContextMenuState.menuData && model3DContextMenuState.menuPosition && (
         <Model3DContextMenu
           position={model3DContextMenuState.menuPosition}
@@ -2681,9 +3310,88 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
           sceneId={sceneId}
           onClose={multiSelectContextMenuState.closeMenu}
           onCombineTextItems={onCombineTextItems}
+          onCombineVideos={isOffline ? undefined : (videoIds) => setCombiningVideos(
+            videoIds.map((id) => items.find((i) => i.id === id)).filter((i): i is VideoItem => i?.type === 'video')
+          )}
+          onCombineImages={isOffline ? undefined : (imageIds) => setCombiningImages(
+            items.filter((i): i is ImageItem => i.type === 'image' && imageIds.includes(i.id))
+          )}
+          onExportImage={() => openExportImageDialog(selectedIds, false)}
+          onFrameSelection={onAddFrame ? () => onAddFrame() : undefined}
         />
       )}
 
+      {/* Frame context menu */}
+      {frameContextMenuState.menuData && frameContextMenuState.menuPosition && (() => {
+        const { frameId } = frameContextMenuState.menuData
+        const frame = orderedFrames.find((f) => f.id === frameId)
+        if (!frame) return null
+        return (
+          <FrameContextMenu
+            position={frameContextMenuState.menuPosition}
+            pageNumber={framePageNumbers.get(frameId) ?? 0}
+            pageCount={orderedFrames.length}
+            onRename={() => handleRenameFrame(frameId)}
+            onMove={(direction) => handleMoveFrame(frameId, direction)}
+            onSelectContents={() => onSelectItems(getFrameMembers(items, frame).map((i) => i.id))}
+            onPresent={() => startPresentation(frameId)}
+            onExportImage={() => openExportImageDialog([frameId], false)}
+            onClose={frameContextMenuState.closeMenu}
+          />
+        )
+      })()}
+
+      {/* Combine videos order dialog */}
+      <CombineVideosDialog
+        isOpen={!!combiningVideos}
+        videos={combiningVideos ?? []}
+        onSubmit={handleCombineVideos}
+        onCancel={() => setCombiningVideos(null)}
+      />
+
+      {/* Combine images layout dialog */}
+      <CombineImagesDialog
+        isOpen={!!combiningImages}
+        images={combiningImages ?? []}
+        onSubmit={handleCombineImages}
+        onCancel={() => setCombiningImages(null)}
+      />
+
+      {/* Export as image dialog */}
+      <ExportImageDialog
+        isOpen={!!exportingImage}
+        title={exportingImage?.isScene
+          ? 'Export Scene as Image'
+          : exportingImage?.frameCount === 1 && exportingImage.itemIds.length === 1
+            ? 'Export Frame as Image'
+            : 'Export Selection as Image'}
+        itemCount={exportingImage?.frameCount || exportingImage?.itemIds.length || 0}
+        framed={!!exportingImage?.frameCount}
+        contentBounds={exportingImage?.bounds ?? null}
+        onSubmit={handleExportImage}
+        onCancel={() => setExportingImage(null)}
+      />
+
+      {/* Image edit stack dialog */}
+      {(() => {
+        const imageItem = adjustingImageId
+          ? items.find((i) => i.id === adjustingImageId && i.type === 'image') as ImageItem | undefined
+          : undefined
+        const img = imageItem ? loadedImages.get(imageItem.src) : undefined
+        return (
+          <ImageEditsDialog
+            isOpen={!!imageItem}
+            item={imageItem ?? null}
+            sourceSize={imageItem?.cropRect ?? (img ? { width: img.naturalWidth, height: img.naturalHeight } : null)}
+            onSubmit={(options) => {
+              if (imageItem) applyImageEdits(imageItem.id, options)
+              setAdjustingImageId(null)
+            }}
+            onCancel={() => setAdjustingImageId(null)}
+          />
+        )
+      })()}
+
       {/* Export menu */}
       {exportMenu.menuData && exportMenu.menuPosition && (() => {
         const htmlItem = items.find((i) => i.id === exportMenu.menuData && i.type === 'html')
@@ -2761,6 +3469,20 @@ const InfiniteCanvas = forwardRef<CanvasHandle, InfiniteCanvasProps>(function In
         />
       )}
 
+      {/* Frame presentation */}
+      {presentation && presentedFrame && (
+        <PresentationOverlay
+          frame={presentedFrame}
+          pageNumber={framePageNumbers.get(presentedFrame.id) ?? 0}
+          pageCount={orderedFrames.length}
+          stageScale={stageScale}
+          stagePos={stagePos}
+          onPrevious={() => stepPresentation(-1)}
+          onNext={() => stepPresentation(1)}
+          onExit={endPresentation}
+        />
+      )}
+
       {tooltip && (
         <div
           style={{
@@ -6,6 +6,7 @@ interface MenuBarProps {
   onAddText: () => void
   onAddImage: (file: File) => void
   onAddVideo: (file: File) => void
+  onAddAudio: (file: File) => void
   onAddPdf: (file: File) => void
   onAddTextFile: (file: File) => void
   onAddModel3D: (file: File) => void
@@ -14,6 +15,7 @@ interface MenuBarProps {
   onAddImageGenPrompt: () => void
   onAddHtmlGenPrompt: () => void
   onAddCodingRobot?: () => void
+  onAddFrame: () => void
   onUndo: () => void
   onRedo: () => void
   canUndo: boolean
@@ -21,6 +23,7 @@ interface MenuBarProps {
   onNewScene: () => void
   onOpenScene: () => void
   onExportScene: () => void
+  onExportImage?: () => void
   onImportSceneFromZip: (file: File) => void
   onImportSceneFromFolder: (files: FileList) => void
   onGetSceneJson?: () => string
@@ -32,8 +35,10 @@ interface MenuBarProps {
   onLogout?: () => void
   onNewWorkspace?: () => void
   onSwitchWorkspace?: () => void
+  onSearch?: () => void
   onResetZoom?: () => void
   onFitToView?: () => void
+  onPresent?: () => void
   serverName?: string
   workspaceName?: string
   sceneName?: string
@@ -64,6 +69,7 @@ function MenuBar({
   onAddText,
   onAddImage,
   onAddVideo,
+  onAddAudio,
   onAddPdf,
   onAddTextFile,
   onAddModel3D,
@@ -72,6 +78,7 @@ function MenuBar({
   onAddImageGenPrompt,
   onAddHtmlGenPrompt,
   onAddCodingRobot,
+  onAddFrame,
   onUndo,
   onRedo,
   canUndo,
@@ -79,6 +86,7 @@ function MenuBar({
   onNewScene,
   onOpenScene,
   onExportScene,
+  onExportImage,
   onImportSceneFromZip,
   onImportSceneFromFolder,
   onGetSceneJson,
@@ -90,8 +98,10 @@ function MenuBar({
   onLogout,
   onNewWorkspace,
   onSwitchWorkspace,
+  onSearch,
   onResetZoom,
   onFitToView,
+  onPresent,
   serverName,
   workspaceName,
   sceneName,
@@ -128,6 +138,7 @@ function MenuBar({
         { label: 'New Scene', onClick: onNewScene },
         { label: 'Open Scene...', onClick: onOpenScene, shortcut: 'Ctrl+O' },
         { label: 'Export Scene...', onClick: onExportScene, shortcut: 'Ctrl+Shift+E' },
+        ...(onExportImage ? [{ label: 'Export as Image...', onClick: onExportImage }] : []),
         { label: 'Import Scene', submenu: [
           { label: 'From Zip...', type: 'file-input', accept: '.zip', onFileSelect: onImportSceneFromZip },
           { label: 'From Folder...', type: 'folder-input', onFolderSelect: onImportSceneFromFolder },
@@ -143,8 +154,10 @@ function MenuBar({
       label: 'Add',
       items: [
         { label: 'Text Block', onClick: onAddText, shortcut: 'T' },
-        { label: 'Image', type: 'file-input', accept: 'image/*', onFileSelect: handleImageUpload },
+        { label: 'Frame', onClick: onAddFrame },
+        { label: 'Image', type: 'file-input', accept: 'image/*,.heic,.heif,.avif,.tif,.tiff,.bmp,.svg', onFileSelect: handleImageUpload },
         ...(config.features.videoSupport ? [{ label: 'Video', type: 'file-input' as const, accept: 'video/*', onFileSelect: onAddVideo }] : []),
+        { label: 'Audio', type: 'file-input' as const, accept: '.mp3,.wav,.ogg,.m4a', onFileSelect: onAddAudio },
         { label: 'PDF', type: 'file-input' as const, accept: '.pdf,application/pdf', onFileSelect: onAddPdf },
         { label: 'Text File', type: 'file-input' as const, accept: '.txt,.csv,.js,.ts,.tsx,.cs,.cpp,.h,.c,.json,.py,.md,.sh,.log,.ini,text/plain,text/csv', onFileSelect: onAddTextFile },
         { label: '3D Model', type: 'file-input' as const, accept: '.glb,.gltf,.obj,.stl,.fbx', onFileSelect: onAddModel3D },
@@ -160,6 +173,7 @@ function MenuBar({
       items: [
         { label: 'Undo', onClick: onUndo, disabled: !canUndo, shortcut: 'Ctrl+Z' },
         { label: 'Redo', onClick: onRedo, disabled: !canRedo, shortcut: 'Ctrl+Y' },
+        ...(onSearch ? [{ label: 'Search Workspace...', onClick: onSearch, shortcut: 'Ctrl+Shift+F' }] : []),
         { label: 'Settings...', onClick: onOpenSettings, shortcut: 'Ctrl+,' },
       ],
     },
@@ -168,6 +182,7 @@ function MenuBar({
       items: [
         { label: 'Reset Zoom', onClick: onResetZoom },
         { label: 'Fit to View', onClick: onFitToView },
+        ...(onPresent ? [{ label: 'Present Frames', onClick: onPresent }] : []),
       ],
     },
     {
@@ -821,6 +836,7 @@ function MenuBar({
                   { shortcut: 'Ctrl+O', action: 'Open Scene' },
                   { shortcut: 'Ctrl+Shift+O', action: 'Switch Workspace' },
                   { shortcut: 'Ctrl+Shift+E', action: 'Export Scene' },
+                  { shortcut: 'Ctrl+Shift+F', action: 'Search Workspace' },
                   { shortcut: 'Ctrl+,', action: 'Open Settings' },
                 ].map((row, index) =>
                   row.shortcut === '' ? (
@@ -1,9 +1,20 @@
 import { useState, useEffect } from 'react'
+import { isOfflineMode, listTrashedScenes, restoreTrashedScene, purgeTrashedScene } from '../api/scenes'
+import type { TrashedSceneInfo } from '../api/scenes'
 
 export interface SceneInfo {
   id: string
   name: string
   modifiedAt: string
+  thumbnailUrl?: string
+}
+
+type SceneListView = 'grid' | 'list'
+
+const VIEW_KEY = 'gsworkspace-open-scene-view'
+
+function getSavedView(): SceneListView {
+  return localStorage.getItem(VIEW_KEY) === 'list' ? 'list' : 'grid'
 }
 
 interface OpenSceneDialogProps {
@@ -14,6 +25,16 @@ interface OpenSceneDialogProps {
   onCancel: () => void
 }
 
+const headerLinkStyle: React.CSSProperties = {
+  border: 'none',
+  background: 'none',
+  color: '#1976d2',
+  cursor: 'pointer',
+  fontFamily: 'inherit',
+  fontSize: '13px',
+  fontWeight: 400,
+}
+
 function OpenSceneDialog({
   isOpen,
   scenes,
@@ -22,14 +43,33 @@ function OpenSceneDialog({
   onCancel,
 }: OpenSceneDialogProps) {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [showTrash, setShowTrash] = useState(false)
+  const [trashedScenes, setTrashedScenes] = useState<TrashedSceneInfo[]>([])
+  const [trashLoading, setTrashLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [view, setView] = useState<SceneListView>(getSavedView)
 
   // Reset selection when dialog opens
   useEffect(() => {
     if (isOpen) {
       setSelectedIds(new Set())
+      setShowTrash(false)
     }
   }, [isOpen])
 
+  // Load the trash when switching to the "Recently deleted" view
+  useEffect(() => {
+    if (!isOpen || !showTrash) return
+    setTrashLoading(true)
+    listTrashedScenes()
+      .then(setTrashedScenes)
+      .catch((error) => {
+        console.error('Failed to list trash:', error)
+        setTrashedScenes([])
+      })
+      .finally(() => setTrashLoading(false))
+  }, [isOpen, showTrash])
+
   // Close on Escape
   useEffect(() => {
     if (!isOpen) return
@@ -59,6 +99,12 @@ function OpenSceneDialog({
     })
   }
 
+  const toggleView = () => {
+    const next = view === 'grid' ? 'list' : 'grid'
+    localStorage.setItem(VIEW_KEY, next)
+    setView(next)
+  }
+
   const handleDoubleClick = (id: string) => {
     onOpen([id])
   }
@@ -69,6 +115,34 @@ function OpenSceneDialog({
     }
   }
 
+  // Restoring a scene opens it right away
+  const handleRestore = async (id: string) => {
+    setBusyId(id)
+    try {
+      await restoreTrashedScene(id)
+      onOpen([id])
+    } catch (error) {
+      console.error('Failed to restore scene:', error)
+      alert(error instanceof Error ? error.message : 'Failed to restore scene')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handlePurge = async (scene: TrashedSceneInfo) => {
+    if (!confirm(`Permanently delete "${scene.name}"? This cannot be undone.`)) return
+    setBusyId(scene.id)
+    try {
+      await purgeTrashedScene(scene.id)
+      setTrashedScenes((prev) => prev.filter((s) => s.id !== scene.id))
+    } catch (error) {
+      console.error('Failed to purge scene:', error)
+      alert('Failed to delete scene')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
   const formatDate = (isoString: string) => {
     try {
       const date = new Date(isoString)
@@ -100,7 +174,9 @@ function OpenSceneDialog({
           borderRadius: '8px',
           boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
           minWidth: '400px',
-          maxWidth: '600px',
+          // The grid has no intrinsic width, so give it room for four columns
+          width: view === 'grid' && !showTrash ? 'min(720px, 90vw)' : undefined,
+          maxWidth: view === 'grid' && !showTrash ? undefined : '600px',
           maxHeight: '80vh',
           display: 'flex',
           flexDirection: 'column',
@@ -114,9 +190,24 @@ function OpenSceneDialog({
             borderBottom: '1px solid #e0e0e0',
             fontWeight: 600,
             fontSize: '16px',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
           }}
         >
-          Open Scene
+          {showTrash ? 'Recently Deleted' : 'Open Scene'}
+          <div style={{ display: 'flex', gap: '12px' }}>
+            {!showTrash && (
+              <button onClick={toggleView} style={headerLinkStyle}>
+                {view === 'grid' ? 'List view' : 'Grid view'}
+              </button>
+            )}
+            {!isOfflineMode() && (
+              <button onClick={() => setShowTrash(!showTrash)} style={headerLinkStyle}>
+                {showTrash ? 'Back to scenes' : 'Recently deleted'}
+              </button>
+            )}
+          </div>
         </div>
 
         {/* Scene list */}
@@ -129,7 +220,68 @@ function OpenSceneDialog({
             maxHeight: '400px',
           }}
         >
-          {closedScenes.length === 0 ? (
+          {showTrash ? (
+            trashLoading ? (
+              <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
+                Loading...
+              </div>
+            ) : trashedScenes.length === 0 ? (
+              <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
+                No recently deleted scenes
+              </div>
+            ) : (
+              trashedScenes.map((scene) => (
+                <div
+                  key={scene.id}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    padding: '8px 20px',
+                  }}
+                >
+                  <div style={{ flex: 1 }}>
+                    <div style={{ fontWeight: 500 }}>{scene.name}</div>
+                    <div style={{ fontSize: '12px', color: '#888' }}>
+                      Deleted: {formatDate(scene.deletedAt)} · Removed permanently {formatDate(scene.expiresAt)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(scene.id)}
+                    disabled={busyId !== null}
+                    style={{
+                      padding: '4px 12px',
+                      border: '1px solid #ccc',
+                      borderRadius: '4px',
+                      backgroundColor: '#fff',
+                      cursor: busyId !== null ? 'default' : 'pointer',
+                      fontFamily: 'inherit',
+                      fontSize: '13px',
+                    }}
+                  >
+                    {busyId === scene.id ? '...' : 'Restore'}
+                  </button>
+                  <button
+                    onClick={() => handlePurge(scene)}
+                    disabled={busyId !== null}
+                    title="Delete permanently"
+                    style={{
+                      padding: '4px 12px',
+                      border: '1px solid #ef4444',
+                      borderRadius: '4px',
+                      backgroundColor: '#fff',
+                      color: '#ef4444',
+                      cursor: busyId !== null ? 'default' : 'pointer',
+                      fontFamily: 'inherit',
+                      fontSize: '13px',
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))
+            )
+          ) : closedScenes.length === 0 ? (
             <div
               style={{
                 padding: '20px',
@@ -139,6 +291,59 @@ function OpenSceneDialog({
             >
               All scenes are already open
             </div>
+          ) : view === 'grid' ? (
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(160px, 1fr))',
+                gap: '12px',
+                padding: '4px 20px',
+              }}
+            >
+              {closedScenes.map((scene) => {
+                const selected = selectedIds.has(scene.id)
+                return (
+                  <div
+                    key={scene.id}
+                    style={{
+                      border: `2px solid ${selected ? '#1976d2' : '#e0e0e0'}`,
+                      borderRadius: '6px',
+                      overflow: 'hidden',
+                      cursor: 'pointer',
+                      backgroundColor: selected ? '#e3f2fd' : '#fff',
+                    }}
+                    onClick={() => handleCheckboxChange(scene.id)}
+                    onDoubleClick={() => handleDoubleClick(scene.id)}
+                  >
+                    <div style={{ position: 'relative', aspectRatio: '8 / 5', backgroundColor: '#f5f5f5' }}>
+                      {scene.thumbnailUrl && (
+                        <img
+                          src={scene.thumbnailUrl}
+                          alt=""
+                          loading="lazy"
+                          style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }}
+                        />
+                      )}
+                      <input
+                        type="checkbox"
+                        checked={selected}
+                        onChange={() => handleCheckboxChange(scene.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        style={{ position: 'absolute', top: '6px', left: '6px', cursor: 'pointer', margin: 0 }}
+                      />
+                    </div>
+                    <div style={{ padding: '6px 8px' }}>
+                      <div style={{ fontWeight: 500, fontSize: '13px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {scene.name}
+                      </div>
+                      <div style={{ fontSize: '11px', color: '#888' }}>
+                        {formatDate(scene.modifiedAt)}
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
           ) : (
             closedScenes.map((scene) => (
               <div
@@ -205,22 +410,24 @@ function OpenSceneDialog({
           >
             Cancel
           </button>
-          <button
-            onClick={handleOpen}
-            disabled={selectedIds.size === 0}
-            style={{
-              padding: '8px 16px',
-              border: 'none',
-              borderRadius: '4px',
-              backgroundColor: selectedIds.size === 0 ? '#ccc' : '#1976d2',
-              color: '#fff',
-              cursor: selectedIds.size === 0 ? 'default' : 'pointer',
-              fontFamily: 'inherit',
-              fontSize: '14px',
-            }}
-          >
-            Open{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
-          </button>
+          {!showTrash && (
+            <button
+              onClick={handleOpen}
+              disabled={selectedIds.size === 0}
+              style={{
+                padding: '8px 16px',
+                border: 'none',
+                borderRadius: '4px',
+                backgroundColor: selectedIds.size === 0 ? '#ccc' : '#1976d2',
+                color: '#fff',
+                cursor: selectedIds.size === 0 ? 'default' : 'pointer',
+                fontFamily: 'inherit',
+                fontSize: '14px',
+              }}
+            >
+              Open{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+            </button>
+          )}
         </div>
       </div>
     </div>
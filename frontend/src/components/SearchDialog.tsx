@@ -0,0 +1,239 @@
+import { useState, useEffect, useRef } from 'react'
+import { searchWorkspace } from '../api/search'
+import type { SearchMatch } from '../api/search'
+
+interface SearchDialogProps {
+  isOpen: boolean
+  onSelect: (match: SearchMatch) => void
+  onCancel: () => void
+}
+
+const SEARCH_DEBOUNCE_MS = 250
+
+const FIELD_LABELS: Record<string, string> = {
+  'scene name': 'Scene name',
+  label: 'Label',
+  name: 'Name',
+  text: 'Text',
+  content: 'File contents',
+}
+
+function SearchDialog({ isOpen, onSelect, onCancel }: SearchDialogProps) {
+  const [query, setQuery] = useState('')
+  const [matches, setMatches] = useState<SearchMatch[]>([])
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [highlightIndex, setHighlightIndex] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // Focus the search box when the dialog opens; keep the last query for repeat searches
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus()
+      inputRef.current?.select()
+    }
+  }, [isOpen])
+
+  // Search as the user types, cancelling requests for stale queries
+  useEffect(() => {
+    if (!isOpen) return
+    const trimmed = query.trim()
+    if (!trimmed) {
+      setMatches([])
+      setTruncated(false)
+      setError(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      setLoading(true)
+      searchWorkspace(trimmed, controller.signal)
+        .then((results) => {
+          setMatches(results.matches)
+          setTruncated(results.truncated)
+          setHighlightIndex(0)
+          setError(null)
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return
+          console.error('Failed to search workspace:', err)
+          setError('Search failed')
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false)
+        })
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [isOpen, query])
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onCancel])
+
+  if (!isOpen) return null
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlightIndex((i) => Math.min(i + 1, matches.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlightIndex((i) => Math.max(i - 1, 0))
+    } else if (e.key === 'Enter' && matches[highlightIndex]) {
+      e.preventDefault()
+      onSelect(matches[highlightIndex])
+    }
+  }
+
+  let status: string | null = null
+  if (error) status = error
+  else if (loading && matches.length === 0) status = 'Searching...'
+  else if (!query.trim()) status = 'Type to search text, prompts, labels and file contents in all scenes'
+  else if (!loading && matches.length === 0) status = 'No matches'
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onCancel}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+          width: '560px',
+          maxHeight: '80vh',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header with search box */}
+        <div
+          style={{
+            padding: '16px 20px',
+            borderBottom: '1px solid #e0e0e0',
+          }}
+        >
+          <div style={{ fontWeight: 600, fontSize: '16px', marginBottom: '10px' }}>
+            Search Workspace
+          </div>
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleInputKeyDown}
+            placeholder="Search..."
+            style={{
+              width: '100%',
+              boxSizing: 'border-box',
+              padding: '8px 10px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          />
+        </div>
+
+        {/* Results */}
+        <div
+          style={{
+            flex: 1,
+            overflowY: 'auto',
+            padding: '8px 0',
+            minHeight: '200px',
+            maxHeight: '400px',
+          }}
+        >
+          {status ? (
+            <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
+              {status}
+            </div>
+          ) : (
+            <>
+              {matches.map((match, index) => (
+                <div
+                  key={`${match.sceneId}:${match.itemId ?? ''}:${match.field}:${index}`}
+                  style={{
+                    padding: '8px 20px',
+                    cursor: 'pointer',
+                    backgroundColor: index === highlightIndex ? '#e3f2fd' : 'transparent',
+                  }}
+                  onMouseEnter={() => setHighlightIndex(index)}
+                  onClick={() => onSelect(match)}
+                >
+                  <div style={{ fontSize: '12px', color: '#888' }}>
+                    {match.sceneName || 'Untitled'}
+                    {match.itemType ? ` · ${match.itemType}` : ''}
+                    {` · ${FIELD_LABELS[match.field] ?? match.field}`}
+                  </div>
+                  <div style={{ fontSize: '14px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {match.snippet}
+                  </div>
+                </div>
+              ))}
+              {truncated && (
+                <div style={{ padding: '8px 20px', fontSize: '12px', color: '#888' }}>
+                  Showing the first {matches.length} matches. Refine the search to see more.
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: '12px 20px',
+            borderTop: '1px solid #e0e0e0',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '8px',
+          }}
+        >
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '8px 16px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SearchDialog
@@ -0,0 +1,388 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  listSnapshots,
+  createSnapshot,
+  getSnapshotPreview,
+  restoreSnapshot,
+  branchSnapshot,
+  deleteSnapshot,
+  SceneConflictError,
+} from '../api/scenes'
+import type { SnapshotInfo, SnapshotPreview } from '../api/scenes'
+import type { CanvasItem } from '../types'
+
+interface SnapshotsDialogProps {
+  isOpen: boolean
+  sceneId: string | null
+  sceneName: string
+  baseModifiedAt?: string  // the server version the open scene is based on
+  onSaveScene: (sceneId: string) => Promise<boolean>  // false if changes are left unsaved
+  onRestored: (sceneId: string) => void
+  onBranched: (newSceneId: string) => void
+  onClose: () => void
+}
+
+// Short human-readable description of an item for the preview list
+function describeItem(item: CanvasItem): string {
+  switch (item.type) {
+    case 'text':
+      return item.text.slice(0, 60) || 'Text'
+    case 'prompt':
+    case 'image-gen-prompt':
+    case 'html-gen-prompt':
+    case 'coding-robot':
+    case 'html':
+    case 'embed-video':
+      return item.label
+    case 'image':
+    case 'video':
+    case 'pdf':
+    case 'text-file':
+    case 'model3d':
+    case 'splat':
+    case 'audio':
+      return item.name || item.type
+    case 'frame':
+      return item.name || 'Frame'
+  }
+}
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+  backgroundColor: '#fff',
+  cursor: 'pointer',
+  fontFamily: 'inherit',
+  fontSize: '13px',
+}
+
+function SnapshotsDialog({
+  isOpen,
+  sceneId,
+  sceneName,
+  baseModifiedAt,
+  onSaveScene,
+  onRestored,
+  onBranched,
+  onClose,
+}: SnapshotsDialogProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([])
+  const [loading, setLoading] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [preview, setPreview] = useState<SnapshotPreview | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!sceneId) return
+    setLoading(true)
+    try {
+      setSnapshots(await listSnapshots(sceneId))
+    } catch (error) {
+      console.error('Failed to list snapshots:', error)
+      setSnapshots([])
+    } finally {
+      setLoading(false)
+    }
+  }, [sceneId])
+
+  useEffect(() => {
+    if (!isOpen) return
+    setNewName('')
+    setPreview(null)
+    refresh()
+  }, [isOpen, refresh])
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onClose])
+
+  if (!isOpen || !sceneId) return null
+
+  const runAction = async (action: () => Promise<void>, errorMessage: string) => {
+    setBusy(true)
+    try {
+      await action()
+    } catch (error) {
+      console.error(errorMessage, error)
+      alert(errorMessage)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCreate = () => {
+    const name = newName.trim()
+    if (!name) return
+    runAction(async () => {
+      // The snapshot is made from the saved scene, so it must include what's on screen
+      if (!await onSaveScene(sceneId)) {
+        alert('The scene has changes that could not be saved yet, so the snapshot would leave them out. Try again once the scene is saved.')
+        return
+      }
+      await createSnapshot(sceneId, name)
+      setNewName('')
+      await refresh()
+    }, 'Failed to create snapshot')
+  }
+
+  const handlePreview = (snapshot: SnapshotInfo) => {
+    if (preview?.snapshot.id === snapshot.id) {
+      setPreview(null)
+      return
+    }
+    runAction(async () => {
+      setPreview(await getSnapshotPreview(sceneId, snapshot.id))
+    }, 'Failed to load snapshot')
+  }
+
+  const handleRestore = (snapshot: SnapshotInfo) => {
+    if (!confirm(`Restore "${sceneName}" to snapshot "${snapshot.name}"? The current state is saved as a snapshot first, and undo history is cleared.`)) return
+    runAction(async () => {
+      try {
+        await restoreSnapshot(sceneId, snapshot.id, baseModifiedAt)
+      } catch (error) {
+        if (!(error instanceof SceneConflictError)) throw error
+        alert('The scene was changed on the server since you opened it. Reload it and try again.')
+        return
+      }
+      onRestored(sceneId)
+      onClose()
+    }, 'Failed to restore snapshot')
+  }
+
+  const handleBranch = (snapshot: SnapshotInfo) => {
+    const name = window.prompt('Name for the new scene:', `${sceneName} (${snapshot.name})`)?.trim()
+    if (!name) return
+    runAction(async () => {
+      const newSceneId = await branchSnapshot(sceneId, snapshot.id, name)
+      onBranched(newSceneId)
+      onClose()
+    }, 'Failed to create scene from snapshot')
+  }
+
+  const handleDelete = (snapshot: SnapshotInfo) => {
+    if (!confirm(`Delete snapshot "${snapshot.name}"? This cannot be undone.`)) return
+    runAction(async () => {
+      await deleteSnapshot(sceneId, snapshot.id)
+      if (preview?.snapshot.id === snapshot.id) setPreview(null)
+      await refresh()
+    }, 'Failed to delete snapshot')
+  }
+
+  const formatDate = (isoString: string) => {
+    try {
+      const date = new Date(isoString)
+      return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    } catch {
+      return isoString
+    }
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+          minWidth: '480px',
+          maxWidth: '640px',
+          maxHeight: '80vh',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '16px 20px',
+            borderBottom: '1px solid #e0e0e0',
+            fontWeight: 600,
+            fontSize: '16px',
+          }}
+        >
+          Snapshots of "{sceneName}"
+        </div>
+
+        {/* New snapshot */}
+        <div style={{ padding: '12px 20px', borderBottom: '1px solid #e0e0e0' }}>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  handleCreate()
+                }
+              }}
+              placeholder="Snapshot name, e.g. before client review"
+              style={{
+                flex: 1,
+                padding: '6px 10px',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                fontFamily: 'inherit',
+                fontSize: '14px',
+                outline: 'none',
+              }}
+            />
+            <button
+              onClick={handleCreate}
+              disabled={busy || !newName.trim()}
+              style={{
+                padding: '6px 14px',
+                border: 'none',
+                borderRadius: '4px',
+                backgroundColor: busy || !newName.trim() ? '#ccc' : '#1976d2',
+                color: '#fff',
+                cursor: busy || !newName.trim() ? 'default' : 'pointer',
+                fontFamily: 'inherit',
+                fontSize: '14px',
+              }}
+            >
+              Take Snapshot
+            </button>
+          </div>
+          <div style={{ fontSize: '12px', color: '#888', marginTop: '6px' }}>
+            Snapshots capture the last saved state of the scene, including its media.
+          </div>
+        </div>
+
+        {/* Snapshot list */}
+        <div
+          style={{
+            flex: 1,
+            overflowY: 'auto',
+            padding: '8px 0',
+            minHeight: '150px',
+          }}
+        >
+          {loading ? (
+            <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
+              Loading...
+            </div>
+          ) : snapshots.length === 0 ? (
+            <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
+              No snapshots yet
+            </div>
+          ) : (
+            snapshots.map((snapshot) => (
+              <div key={snapshot.id}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '8px 20px' }}>
+                  <div style={{ flex: 1 }}>
+                    <div style={{ fontWeight: 500 }}>{snapshot.name}</div>
+                    <div style={{ fontSize: '12px', color: '#888' }}>
+                      {formatDate(snapshot.createdAt)} · {snapshot.itemCount} item{snapshot.itemCount === 1 ? '' : 's'}
+                    </div>
+                  </div>
+                  <button onClick={() => handlePreview(snapshot)} disabled={busy} style={smallButtonStyle}>
+                    {preview?.snapshot.id === snapshot.id ? 'Hide' : 'Preview'}
+                  </button>
+                  <button onClick={() => handleRestore(snapshot)} disabled={busy} style={smallButtonStyle}>
+                    Restore
+                  </button>
+                  <button onClick={() => handleBranch(snapshot)} disabled={busy} style={smallButtonStyle} title="Create a new scene from this snapshot">
+                    Branch
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snapshot)}
+                    disabled={busy}
+                    style={{ ...smallButtonStyle, border: '1px solid #ef4444', color: '#ef4444' }}
+                  >
+                    Delete
+                  </button>
+                </div>
+                {preview?.snapshot.id === snapshot.id && (
+                  <div
+                    style={{
+                      margin: '0 20px 8px 20px',
+                      padding: '8px 12px',
+                      backgroundColor: '#f5f5f5',
+                      borderRadius: '4px',
+                      fontSize: '12px',
+                      color: '#555',
+                      maxHeight: '200px',
+                      overflowY: 'auto',
+                    }}
+                  >
+                    {preview.scene.items.length === 0 ? (
+                      <div>Empty scene</div>
+                    ) : (
+                      preview.scene.items.map((item) => (
+                        <div key={item.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '2px 0' }}>
+                          {item.type === 'image' ? (
+                            <img
+                              src={item.cropSrc || item.src}
+                              alt=""
+                              style={{ width: '32px', height: '32px', objectFit: 'cover', borderRadius: '2px' }}
+                            />
+                          ) : (
+                            <span style={{ width: '32px', color: '#999', flexShrink: 0 }}>{item.type}</span>
+                          )}
+                          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            {describeItem(item)}
+                          </span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: '12px 20px',
+            borderTop: '1px solid #e0e0e0',
+            display: 'flex',
+            justifyContent: 'flex-end',
+          }}
+        >
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '14px',
+            }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SnapshotsDialog
@@ -1,5 +1,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { StorageMode } from '../api/storage'
+import type { Presence } from '../api/collab'
+import type { BackgroundJob } from '../contexts/BackgroundOperationsContext'
 
 export type SaveStatus = 'idle' | 'unsaved' | 'saving' | 'saved' | 'error'
 
@@ -10,12 +12,18 @@ interface StatusBarProps {
   isOffline: boolean
   onSetOfflineMode?: (offline: boolean) => void
   backgroundOperationsCount: number
+  uploadProgress?: { loaded: number; total: number } | null
+  backgroundJobs?: BackgroundJob[]
+  onCancelJob?: (jobId: string) => void
   storageMode: StorageMode
   onOpenSettings?: () => void
   onStorageModeSync?: (mode: StorageMode) => void
   onStorageModeChange?: (mode: StorageMode) => void
   serverName?: string
   workspaceName?: string
+  collaborators?: Presence[]
+  collaboratorName?: string
+  onRenameCollaborator?: (name: string) => void
 }
 
 const storageModeDisplay: Record<StorageMode, { label: string; icon: string; bg: string }> = {
@@ -28,7 +36,7 @@ export const STATUS_BAR_HEIGHT = 28
 
 type ServerStatus = 'connected' | 'misconfigured' | 'disconnected' | null
 
-function StatusBar({ onToggleDebug, debugOpen, saveStatus, isOffline, backgroundOperationsCount, storageMode, onOpenSettings, onStorageModeSync, onStorageModeChange, serverName, workspaceName }: StatusBarProps) {
+function StatusBar({ onToggleDebug, debugOpen, saveStatus, isOffline, backgroundOperationsCount, uploadProgress, backgroundJobs = [], onCancelJob, storageMode, onOpenSettings, onStorageModeSync, onStorageModeChange, serverName, workspaceName, collaborators, collaboratorName, onRenameCollaborator }: StatusBarProps) {
   const [serverStatus, setServerStatus] = useState<ServerStatus>(null)
   const [configWarning, setConfigWarning] = useState<string | null>(null)
   const [menuOpen, setMenuOpen] = useState(false)
@@ -257,6 +265,27 @@ function StatusBar({ onToggleDebug, debugOpen, saveStatus, isOffline, background
            'No Connection'}
         </span>
       )}
+      {!isOffline && collaboratorName && (
+        <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+          {collaborators?.map((c) => (
+            <span
+              key={c.clientId}
+              title={`${c.name} is editing this scene`}
+              style={{ width: 10, height: 10, borderRadius: '50%', backgroundColor: c.color, display: 'inline-block' }}
+            />
+          ))}
+          <span
+            style={{ cursor: 'pointer', color: '#888' }}
+            title="Your name as shown to collaborators. Click to change."
+            onClick={() => {
+              const name = window.prompt('Your name as shown to collaborators:', collaboratorName)?.trim()
+              if (name) onRenameCollaborator?.(name.slice(0, 64))
+            }}
+          >
+            {collaborators && collaborators.length > 0 ? `You + ${collaborators.length}` : collaboratorName}
+          </span>
+        </span>
+      )}
       <div style={{ flex: 1, display: 'flex', justifyContent: 'center' }}>
         {statusDisplay && (
           <span
@@ -289,8 +318,65 @@ function StatusBar({ onToggleDebug, debugOpen, saveStatus, isOffline, background
           }}
         >
           {backgroundOperationsCount} background upload{backgroundOperationsCount !== 1 ? 's' : ''}...
+          {uploadProgress && uploadProgress.total > 0 && ` ${Math.round((uploadProgress.loaded / uploadProgress.total) * 100)}%`}
         </span>
       )}
+      {backgroundJobs.map((job) => (
+        <span
+          key={job.id}
+          title={job.progress != null ? `${job.label} (${Math.round(job.progress * 100)}%)` : `${job.label} (queued)`}
+          style={{
+            padding: '2px 8px',
+            backgroundColor: '#8b5cf6',
+            color: '#fff',
+            borderRadius: 3,
+            fontSize: 11,
+            fontWeight: 500,
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: 6,
+            maxWidth: 240,
+          }}
+        >
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{job.label}</span>
+          <span
+            style={{
+              width: 48,
+              height: 4,
+              flexShrink: 0,
+              backgroundColor: 'rgba(255, 255, 255, 0.3)',
+              borderRadius: 2,
+              overflow: 'hidden',
+            }}
+          >
+            <span
+              style={{
+                display: 'block',
+                width: `${(job.progress ?? 0) * 100}%`,
+                height: '100%',
+                backgroundColor: '#fff',
+              }}
+            />
+          </span>
+          {onCancelJob && (
+            <button
+              onClick={() => onCancelJob(job.id)}
+              title="Cancel"
+              style={{
+                padding: 0,
+                background: 'none',
+                border: 'none',
+                color: '#fff',
+                cursor: 'pointer',
+                fontSize: 12,
+                lineHeight: 1,
+              }}
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
       <style>
         {`
           @keyframes pulse-bg {
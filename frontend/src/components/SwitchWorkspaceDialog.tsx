@@ -1,10 +1,14 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 
 interface WorkspaceInfo {
   name: string
   createdAt: string
+  deletedAt?: string
+  thumbnailUrl?: string  // preview of the workspace's most recently updated scene
 }
 
+const WORKSPACE_NAME_RE = /^[a-zA-Z0-9_-]{1,64}$/
+
 interface SwitchWorkspaceDialogProps {
   isOpen: boolean
   currentWorkspace: string
@@ -24,8 +28,24 @@ function SwitchWorkspaceDialog({
   const [inputName, setInputName] = useState('')
   const [inputError, setInputError] = useState<string | null>(null)
   const [checking, setChecking] = useState(false)
+  const [showDeleted, setShowDeleted] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
   const listRef = useRef<HTMLDivElement>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const refreshWorkspaces = useCallback(async (deleted: boolean) => {
+    setLoading(true)
+    try {
+      const res = await fetch(deleted ? '/api/workspaces?deleted=true' : '/api/workspaces')
+      const data: WorkspaceInfo[] = await res.json()
+      setWorkspaces(data.sort((a, b) => a.name.localeCompare(b.name)))
+    } catch {
+      setWorkspaces([])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
 
   // Fetch workspace list when dialog opens
   useEffect(() => {
@@ -33,17 +53,10 @@ function SwitchWorkspaceDialog({
     setInputName('')
     setInputError(null)
     setSelectedName(null)
-    setLoading(true)
-    fetch('/api/workspaces')
-      .then((res) => res.json())
-      .then((data: WorkspaceInfo[]) => {
-        setWorkspaces(data.sort((a, b) => a.name.localeCompare(b.name)))
-      })
-      .catch(() => {
-        setWorkspaces([])
-      })
-      .finally(() => setLoading(false))
-  }, [isOpen])
+    setShowDeleted(false)
+    setBusy(null)
+    refreshWorkspaces(false)
+  }, [isOpen, refreshWorkspaces])
 
   // Keyboard navigation: Escape, Up/Down, Tab, Enter
   useEffect(() => {
@@ -54,7 +67,7 @@ function SwitchWorkspaceDialog({
         return
       }
 
-      const switchable = workspaces.filter((ws) => ws.name !== currentWorkspace)
+      const switchable = showDeleted ? [] : workspaces.filter((ws) => ws.name !== currentWorkspace)
 
       if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
         e.preventDefault()
@@ -100,7 +113,7 @@ function SwitchWorkspaceDialog({
     }
     document.addEventListener('keydown', handleKeyDown)
     return () => document.removeEventListener('keydown', handleKeyDown)
-  }, [isOpen, onCancel, workspaces, currentWorkspace, selectedName, onSwitch])
+  }, [isOpen, onCancel, workspaces, currentWorkspace, selectedName, onSwitch, showDeleted])
 
   if (!isOpen) return null
 
@@ -136,6 +149,122 @@ function SwitchWorkspaceDialog({
     }
   }
 
+  // Workspace management actions apply to the selected workspace, or the current one if none is selected
+  const actionTarget = selectedName || currentWorkspace
+
+  const handleRename = async () => {
+    const newName = window.prompt(`Rename workspace "${actionTarget}" to:`, actionTarget)?.trim()
+    if (!newName || newName === actionTarget) return
+    if (!WORKSPACE_NAME_RE.test(newName)) {
+      alert('Invalid workspace name. Must be 1-64 alphanumeric, hyphen, or underscore characters.')
+      return
+    }
+    setBusy('Renaming...')
+    try {
+      const res = await fetch(`/api/workspaces/${encodeURIComponent(actionTarget)}/rename`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newName }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        alert(data.error || 'Failed to rename workspace')
+        return
+      }
+      if (actionTarget === currentWorkspace) {
+        // The current workspace moved, so reload under its new name
+        onSwitch(newName)
+        return
+      }
+      setSelectedName(newName)
+      await refreshWorkspaces(false)
+    } catch (error) {
+      console.error('Failed to rename workspace:', error)
+      alert('Failed to rename workspace')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selectedName || selectedName === currentWorkspace) return
+    if (!confirm(`Delete workspace "${selectedName}"? It can be restored from the deleted workspaces list.`)) return
+    setBusy('Deleting...')
+    try {
+      const res = await fetch(`/api/workspaces/${encodeURIComponent(selectedName)}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        alert(data.error || 'Failed to delete workspace')
+        return
+      }
+      setSelectedName(null)
+      await refreshWorkspaces(false)
+    } catch (error) {
+      console.error('Failed to delete workspace:', error)
+      alert('Failed to delete workspace')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleRestore = async (name: string) => {
+    setBusy('Restoring...')
+    try {
+      const res = await fetch(`/api/workspaces/${encodeURIComponent(name)}/restore`, { method: 'POST' })
+      if (!res.ok) {
+        const data = await res.json()
+        alert(data.error || 'Failed to restore workspace')
+        return
+      }
+      await refreshWorkspaces(true)
+    } catch (error) {
+      console.error('Failed to restore workspace:', error)
+      alert('Failed to restore workspace')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleExport = () => {
+    // Let the browser handle the download so large zips stream straight to disk
+    const link = document.createElement('a')
+    link.href = `/api/workspaces/${encodeURIComponent(actionTarget)}/export`
+    link.download = `${actionTarget}.zip`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  const handleImportFile = async (file: File) => {
+    const defaultName = file.name.replace(/\.zip$/i, '')
+    const name = window.prompt('Import as workspace:', WORKSPACE_NAME_RE.test(defaultName) ? defaultName : '')?.trim()
+    if (name === undefined) return
+    if (name && !WORKSPACE_NAME_RE.test(name)) {
+      alert('Invalid workspace name. Must be 1-64 alphanumeric, hyphen, or underscore characters.')
+      return
+    }
+    setBusy('Importing...')
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      if (name) formData.append('name', name)
+      const res = await fetch('/api/workspaces/import', { method: 'POST', body: formData })
+      const data = await res.json()
+      if (!res.ok) {
+        alert(data.error || 'Failed to import workspace')
+        return
+      }
+      setShowDeleted(false)
+      await refreshWorkspaces(false)
+      setSelectedName(data.name)
+    } catch (error) {
+      console.error('Failed to import workspace:', error)
+      alert('Failed to import workspace')
+    } finally {
+      setBusy(null)
+    }
+  }
+
   const handleInputKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault()
@@ -174,6 +303,8 @@ function SwitchWorkspaceDialog({
           borderRadius: '8px',
           boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
           minWidth: '400px',
+          // The workspace grid has no intrinsic width, so give it room for three columns
+          width: showDeleted ? undefined : 'min(600px, 90vw)',
           maxWidth: '600px',
           maxHeight: '80vh',
           display: 'flex',
@@ -188,9 +319,31 @@ function SwitchWorkspaceDialog({
             borderBottom: '1px solid #e0e0e0',
             fontWeight: 600,
             fontSize: '16px',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
           }}
         >
-          Switch Workspace
+          {showDeleted ? 'Deleted Workspaces' : 'Switch Workspace'}
+          <button
+            onClick={() => {
+              const next = !showDeleted
+              setShowDeleted(next)
+              setSelectedName(null)
+              refreshWorkspaces(next)
+            }}
+            style={{
+              border: 'none',
+              background: 'none',
+              color: '#1976d2',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '13px',
+              fontWeight: 400,
+            }}
+          >
+            {showDeleted ? 'Back to workspaces' : 'Show deleted'}
+          </button>
         </div>
 
         {/* Workspace list */}
@@ -210,53 +363,100 @@ function SwitchWorkspaceDialog({
             </div>
           ) : workspaces.length === 0 ? (
             <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
-              No workspaces found
+              {showDeleted ? 'No deleted workspaces' : 'No workspaces found'}
             </div>
-          ) : (
-            workspaces.map((ws) => {
-              const isCurrent = ws.name === currentWorkspace
-              const isSelected = ws.name === selectedName
-              return (
-                <div
-                  key={ws.name}
-                  data-workspace={ws.name}
+          ) : showDeleted ? (
+            workspaces.map((ws) => (
+              <div
+                key={ws.name}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  padding: '8px 20px',
+                  color: '#333',
+                }}
+              >
+                <div style={{ flex: 1 }}>
+                  <div style={{ fontWeight: 500 }}>{ws.name}</div>
+                  <div style={{ fontSize: '12px', color: '#888' }}>
+                    {ws.deletedAt ? `Deleted: ${formatDate(ws.deletedAt)}` : ''}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRestore(ws.name)}
+                  disabled={!!busy}
                   style={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    padding: '8px 20px',
-                    cursor: isCurrent ? 'default' : 'pointer',
-                    color: isCurrent ? '#aaa' : '#333',
-                    backgroundColor: isSelected ? '#e3f2fd' : 'transparent',
-                  }}
-                  onMouseEnter={(e) => {
-                    if (!isCurrent && !isSelected) e.currentTarget.style.backgroundColor = '#f5f5f5'
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = isSelected ? '#e3f2fd' : 'transparent'
-                  }}
-                  onClick={() => {
-                    if (!isCurrent) {
-                      setSelectedName(isSelected ? null : ws.name)
-                      setInputName('')
-                      setInputError(null)
-                    }
-                  }}
-                  onDoubleClick={() => {
-                    if (!isCurrent) onSwitch(ws.name)
+                    padding: '4px 12px',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                    backgroundColor: '#fff',
+                    cursor: busy ? 'default' : 'pointer',
+                    fontFamily: 'inherit',
+                    fontSize: '13px',
                   }}
                 >
-                  <div style={{ flex: 1 }}>
-                    <div style={{ fontWeight: 500 }}>
-                      {ws.name}
-                      {isCurrent && <span style={{ fontSize: '12px', marginLeft: '8px', color: '#aaa' }}>(current)</span>}
+                  Restore
+                </button>
+              </div>
+            ))
+          ) : (
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(160px, 1fr))',
+                gap: '12px',
+                padding: '4px 20px',
+              }}
+            >
+              {workspaces.map((ws) => {
+                const isCurrent = ws.name === currentWorkspace
+                const isSelected = ws.name === selectedName
+                return (
+                  <div
+                    key={ws.name}
+                    data-workspace={ws.name}
+                    style={{
+                      border: `2px solid ${isSelected ? '#1976d2' : '#e0e0e0'}`,
+                      borderRadius: '6px',
+                      overflow: 'hidden',
+                      cursor: isCurrent ? 'default' : 'pointer',
+                      color: isCurrent ? '#aaa' : '#333',
+                      backgroundColor: isSelected ? '#e3f2fd' : '#fff',
+                    }}
+                    onClick={() => {
+                      if (!isCurrent) {
+                        setSelectedName(isSelected ? null : ws.name)
+                        setInputName('')
+                        setInputError(null)
+                      }
+                    }}
+                    onDoubleClick={() => {
+                      if (!isCurrent) onSwitch(ws.name)
+                    }}
+                  >
+                    <div style={{ aspectRatio: '8 / 5', backgroundColor: '#f5f5f5', opacity: isCurrent ? 0.5 : 1 }}>
+                      {ws.thumbnailUrl && (
+                        <img
+                          src={ws.thumbnailUrl}
+                          alt=""
+                          loading="lazy"
+                          style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }}
+                        />
+                      )}
                     </div>
-                    <div style={{ fontSize: '12px', color: '#888' }}>
-                      {ws.createdAt ? `Created: ${formatDate(ws.createdAt)}` : 'Default workspace'}
+                    <div style={{ padding: '6px 8px' }}>
+                      <div style={{ fontWeight: 500, fontSize: '13px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {ws.name}
+                        {isCurrent && <span style={{ fontSize: '11px', marginLeft: '6px', color: '#aaa' }}>(current)</span>}
+                      </div>
+                      <div style={{ fontSize: '11px', color: '#888' }}>
+                        {ws.createdAt ? `Created: ${formatDate(ws.createdAt)}` : 'Default workspace'}
+                      </div>
                     </div>
                   </div>
-                </div>
-              )
-            })
+                )
+              })}
+            </div>
           )}
         </div>
 
@@ -308,9 +508,51 @@ function SwitchWorkspaceDialog({
             borderTop: '1px solid #e0e0e0',
             display: 'flex',
             justifyContent: 'flex-end',
+            alignItems: 'center',
             gap: '8px',
           }}
         >
+          {!showDeleted && (
+            <div style={{ display: 'flex', gap: '4px', marginRight: 'auto' }}>
+              {[
+                { label: 'Rename', onClick: handleRename, disabled: false },
+                { label: 'Export', onClick: handleExport, disabled: false },
+                { label: 'Delete', onClick: handleDelete, disabled: !selectedName },
+                { label: 'Import...', onClick: () => importInputRef.current?.click(), disabled: false },
+              ].map(({ label, onClick, disabled }) => (
+                <button
+                  key={label}
+                  onClick={onClick}
+                  disabled={disabled || !!busy}
+                  title={label === 'Import...' ? 'Import a workspace zip' : `${label} "${actionTarget}"`}
+                  style={{
+                    padding: '6px 10px',
+                    border: '1px solid #ccc',
+                    borderRadius: '4px',
+                    backgroundColor: '#fff',
+                    color: disabled || busy ? '#aaa' : '#333',
+                    cursor: disabled || busy ? 'default' : 'pointer',
+                    fontFamily: 'inherit',
+                    fontSize: '13px',
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) handleImportFile(file)
+                }}
+              />
+            </div>
+          )}
+          {busy && <span style={{ fontSize: '13px', color: '#888' }}>{busy}</span>}
           <button
             onClick={onCancel}
             style={{
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react'
 import { Scene } from '../types'
-import { listScenes } from '../api/scenes'
+import { listScenes, isOfflineMode } from '../api/scenes'
 import type { SceneMetadata } from '../api/scenes'
 
 interface TabBarProps {
@@ -13,6 +13,7 @@ interface TabBarProps {
   onDeleteScene: (id: string) => void
   onOpenScenes?: (sceneIds: string[]) => void
   onPinCurrentScenes?: () => void
+  onManageSnapshots?: (id: string) => void
 }
 
 interface ContextMenuState {
@@ -32,6 +33,7 @@ function TabBar({
   onDeleteScene,
   onOpenScenes,
   onPinCurrentScenes,
+  onManageSnapshots,
 }: TabBarProps) {
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null)
   const [renameDialog, setRenameDialog] = useState<{ sceneId: string; currentName: string } | null>(null)
@@ -154,9 +156,17 @@ function TabBar({
     setRenameValue('')
   }
 
+  const handleSnapshotsClick = () => {
+    if (!contextMenu) return
+    onManageSnapshots?.(contextMenu.sceneId)
+    setContextMenu(null)
+  }
+
   const handleDeleteClick = () => {
     if (!contextMenu) return
-    if (confirm(`Delete scene "${contextMenu.sceneName}"? This cannot be undone.`)) {
+    // Online and local modes keep deleted scenes in the trash ("Recently deleted" in Open Scene)
+    const undoNote = isOfflineMode() ? 'This cannot be undone.' : 'It can be restored from Recently deleted.'
+    if (confirm(`Delete scene "${contextMenu.sceneName}"? ${undoNote}`)) {
       onDeleteScene(contextMenu.sceneId)
     }
     setContextMenu(null)
@@ -393,6 +403,26 @@ function TabBar({
           >
             Rename
           </button>
+          {onManageSnapshots && (
+            <button
+              onClick={handleSnapshotsClick}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '8px 16px',
+                border: 'none',
+                background: 'none',
+                textAlign: 'left',
+                cursor: 'pointer',
+                fontSize: 14,
+                color: '#ddd',
+              }}
+              onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+              onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+            >
+              Snapshots...
+            </button>
+          )}
           <button
             onClick={handleDeleteClick}
             style={{
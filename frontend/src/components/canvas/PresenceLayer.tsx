@@ -0,0 +1,59 @@
+import { Layer, Group, Rect, Line, Label, Tag, Text } from 'react-konva'
+import { CanvasItem } from '../../types'
+import type { Presence } from '../../api/collab'
+
+interface PresenceLayerProps {
+  collaborators: Presence[]
+  items: CanvasItem[]
+  stageScale: number
+}
+
+// Arrow-shaped pointer, drawn in screen pixels and scaled down to canvas units
+const CURSOR_POINTS = [0, 0, 0, 16, 4.5, 12, 8, 19, 11, 18, 7.5, 11, 13, 11]
+
+/**
+ * Other people's cursors and selection outlines. Not interactive.
+ */
+export default function PresenceLayer({ collaborators, items, stageScale }: PresenceLayerProps) {
+  if (collaborators.length === 0) return null
+  const itemsById = new Map(items.map((item) => [item.id, item]))
+  const inv = 1 / stageScale
+
+  return (
+    <Layer listening={false}>
+      {collaborators.map((collaborator) => (
+        <Group key={collaborator.clientId}>
+          {collaborator.selectedIds.map((id) => {
+            const item = itemsById.get(id)
+            if (!item) return null
+            const scaleX = item.type === 'image' || item.type === 'video' ? item.scaleX ?? 1 : 1
+            const scaleY = item.type === 'image' || item.type === 'video' ? item.scaleY ?? 1 : 1
+            const rotation = item.type === 'image' || item.type === 'video' ? item.rotation ?? 0 : 0
+            return (
+              <Rect
+                key={id}
+                x={item.x}
+                y={item.y}
+                width={item.width * scaleX}
+                height={item.height * scaleY}
+                rotation={rotation}
+                stroke={collaborator.color}
+                strokeWidth={2 * inv}
+                dash={[6 * inv, 4 * inv]}
+              />
+            )
+          })}
+          {collaborator.cursor && (
+            <Group x={collaborator.cursor.x} y={collaborator.cursor.y} scaleX={inv} scaleY={inv}>
+              <Line points={CURSOR_POINTS} closed fill={collaborator.color} stroke="#fff" strokeWidth={1} />
+              <Label x={12} y={18}>
+                <Tag fill={collaborator.color} cornerRadius={3} />
+                <Text text={collaborator.name} fontSize={12} padding={3} fill="#fff" />
+              </Label>
+            </Group>
+          )}
+        </Group>
+      ))}
+    </Layer>
+  )
+}
@@ -0,0 +1,189 @@
+import { useRef } from 'react'
+import { Rect, Text, Group } from 'react-konva'
+import Konva from 'konva'
+import { AudioItem } from '../../../types'
+import {
+  AUDIO_HEADER_HEIGHT,
+  MIN_PROMPT_WIDTH,
+  MIN_PROMPT_HEIGHT,
+  COLOR_SELECTED,
+} from '../../../constants/canvas'
+import { snapToGrid, snapDragPos } from '../../../utils/grid'
+import { formatTimestamp } from '../../../utils/timestamp'
+
+interface AudioItemRendererProps {
+  item: AudioItem
+  isSelected: boolean
+  stageScale: number
+  onItemClick: (e: Konva.KonvaEventObject<MouseEvent>, id: string) => void
+  onContextMenu: (e: Konva.KonvaEventObject<PointerEvent>, id: string) => void
+  onUpdateItem: (id: string, changes: Partial<AudioItem>) => void
+  setAudioItemTransforms: React.Dispatch<React.SetStateAction<Map<string, { x: number; y: number; width: number; height: number }>>>
+}
+
+/**
+ * Format file size in bytes to human-readable string
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Renders a placeholder rectangle for an audio item on the Konva canvas.
+ * The waveform and player are rendered as an HTML overlay (see AudioOverlay component).
+ * When selected, shows a header bar with the name, length and file size.
+ */
+export default function AudioItemRenderer({
+  item,
+  isSelected,
+  stageScale,
+  onItemClick,
+  onContextMenu,
+  onUpdateItem,
+  setAudioItemTransforms,
+}: AudioItemRendererProps) {
+  const groupRef = useRef<Konva.Group>(null)
+
+  // Keep the header a constant size on screen when zoomed in (see VideoItemRenderer)
+  const zoomFactor = Math.max(1, stageScale)
+  const headerHeight = isSelected ? AUDIO_HEADER_HEIGHT / zoomFactor : 0
+  const totalHeight = item.height + headerHeight
+
+  // Show the trimmed length and size when trimmed
+  const metadataParts: string[] = [item.format.toUpperCase()]
+  const length = item.cropSrc && item.trimStart !== undefined && item.trimEnd !== undefined
+    ? item.trimEnd - item.trimStart
+    : item.duration
+  if (length) {
+    metadataParts.push(formatTimestamp(length))
+  }
+  const displayFileSize = item.cropSrcFileSize ?? item.fileSize
+  if (displayFileSize) {
+    metadataParts.push(formatFileSize(displayFileSize))
+  }
+  const metadataText = metadataParts.join(' • ')
+
+  return (
+    <Group
+      ref={groupRef}
+      key={item.id}
+      id={item.id}
+      x={item.x}
+      y={item.y - headerHeight}
+      width={item.width}
+      height={totalHeight}
+      draggable
+      dragBoundFunc={(pos) => {
+        const stage = groupRef.current?.getStage()
+        return stage ? snapDragPos(pos, stage, headerHeight) : pos
+      }}
+      onClick={(e) => onItemClick(e, item.id)}
+      onContextMenu={(e) => {
+        e.evt.preventDefault()
+        e.cancelBubble = true
+        onContextMenu(e, item.id)
+      }}
+      onDragMove={(e) => {
+        const node = e.target
+        setAudioItemTransforms((prev) => {
+          const newMap = new Map(prev)
+          newMap.set(item.id, { x: node.x(), y: node.y() + headerHeight, width: item.width, height: item.height })
+          return newMap
+        })
+      }}
+      onDragEnd={(e) => {
+        const node = e.target
+        setAudioItemTransforms((prev) => {
+          const newMap = new Map(prev)
+          newMap.delete(item.id)
+          return newMap
+        })
+        onUpdateItem(item.id, { x: node.x(), y: node.y() + headerHeight })
+      }}
+    >
+      {isSelected && (
+        <Group scaleX={1 / zoomFactor} scaleY={1 / zoomFactor}>
+          <Rect
+            width={item.width * zoomFactor}
+            height={AUDIO_HEADER_HEIGHT}
+            fill="#2a2a4e"
+            stroke={COLOR_SELECTED}
+            strokeWidth={2}
+            cornerRadius={[4, 4, 0, 0]}
+          />
+          <Text
+            x={8}
+            y={4}
+            text={item.name || 'Audio'}
+            fontSize={14}
+            fontStyle="bold"
+            fill="#e0e0e0"
+            width={item.width * zoomFactor - 16}
+            wrap="none"
+            ellipsis={true}
+          />
+          {item.width * zoomFactor > 200 && (
+            <Text
+              x={item.width * zoomFactor - 178}
+              y={5}
+              text={metadataText}
+              fontSize={11}
+              fill="#a0a0a0"
+              align="right"
+              width={170}
+              listening={false}
+            />
+          )}
+        </Group>
+      )}
+
+      {isSelected && (
+        <Rect
+          y={headerHeight}
+          width={item.width}
+          height={item.height}
+          fill="transparent"
+          stroke={COLOR_SELECTED}
+          strokeWidth={2 / stageScale}
+          listening={false}
+        />
+      )}
+
+      {/* Player area - transformer targets this group (not the header). Audio items
+           resize rather than scale, so the waveform is redrawn at the new size. */}
+      <Group
+        name="transform-target"
+        y={headerHeight}
+        onTransformEnd={(e) => {
+          const node = e.target
+          const parent = node.parent!
+          const newWidth = Math.max(MIN_PROMPT_WIDTH, item.width * node.scaleX())
+          const newHeight = Math.max(MIN_PROMPT_HEIGHT, item.height * node.scaleY())
+          const newX = parent.x() + node.x()
+          const newY = parent.y() + node.y()
+          node.scaleX(1)
+          node.scaleY(1)
+          node.x(0)
+          node.y(headerHeight)
+          parent.x(newX)
+          parent.y(newY - headerHeight)
+          onUpdateItem(item.id, {
+            x: snapToGrid(newX),
+            y: snapToGrid(newY),
+            width: newWidth,
+            height: newHeight,
+          })
+        }}
+      >
+        <Rect
+          width={item.width}
+          height={item.height}
+          fill="#1a1a2e"
+          cornerRadius={isSelected ? 0 : 4}
+        />
+      </Group>
+    </Group>
+  )
+}
@@ -0,0 +1,124 @@
+import { useRef } from 'react'
+import { Rect, Text, Group } from 'react-konva'
+import Konva from 'konva'
+import { FrameItem } from '../../../types'
+import {
+  FRAME_TITLE_HEIGHT,
+  MIN_PROMPT_WIDTH, MIN_PROMPT_HEIGHT,
+  COLOR_SELECTED,
+} from '../../../constants/canvas'
+import { snapToGrid, snapDragPos } from '../../../utils/grid'
+
+interface FrameItemRendererProps {
+  item: FrameItem
+  pageNumber: number
+  isSelected: boolean
+  stageScale: number
+  onItemClick: (e: Konva.KonvaEventObject<MouseEvent>, id: string) => void
+  onTitleDblClick: (id: string) => void
+  onContextMenu: (e: Konva.KonvaEventObject<PointerEvent>, id: string) => void
+  onUpdateItem: (id: string, changes: Partial<FrameItem>) => void
+}
+
+export default function FrameItemRenderer({
+  item,
+  pageNumber,
+  isSelected,
+  stageScale,
+  onItemClick,
+  onTitleDblClick,
+  onContextMenu,
+  onUpdateItem,
+}: FrameItemRendererProps) {
+  const groupRef = useRef<Konva.Group>(null)
+
+  // The title and border keep the same size on screen at any zoom, so frames stay
+  // readable when zoomed out to see the whole document
+  const screenScale = 1 / stageScale
+  const titleWidth = item.width * stageScale
+
+  return (
+    <Group
+      ref={groupRef}
+      key={item.id}
+      id={item.id}
+      x={item.x}
+      y={item.y}
+      draggable
+      dragBoundFunc={(pos) => {
+        const stage = groupRef.current?.getStage()
+        return stage ? snapDragPos(pos, stage) : pos
+      }}
+      onClick={(e) => onItemClick(e, item.id)}
+      onContextMenu={(e) => {
+        e.evt.preventDefault()
+        e.cancelBubble = true
+        onContextMenu(e, item.id)
+      }}
+      onDragEnd={(e) => {
+        onUpdateItem(item.id, { x: snapToGrid(e.target.x()), y: snapToGrid(e.target.y()) })
+      }}
+    >
+      {/* Title above the top-left corner - the handle for selecting and dragging */}
+      <Group
+        y={-FRAME_TITLE_HEIGHT * screenScale}
+        scaleX={screenScale}
+        scaleY={screenScale}
+        onDblClick={() => onTitleDblClick(item.id)}
+      >
+        <Text
+          y={4}
+          text={`${pageNumber}  ${item.name || 'Frame'}`}
+          fontSize={13}
+          fontStyle="bold"
+          fill={isSelected ? '#7fb3ff' : '#bbb'}
+          width={Math.max(40, titleWidth)}
+          height={FRAME_TITLE_HEIGHT - 4}
+          wrap="none"
+          ellipsis={true}
+        />
+      </Group>
+
+      {/* Frame area - transformer targets this group (not the title) */}
+      <Group
+        name="transform-target"
+        onTransformEnd={(e) => {
+          const node = e.target
+          const parent = node.parent!
+          const newWidth = Math.max(MIN_PROMPT_WIDTH, item.width * node.scaleX())
+          const newHeight = Math.max(MIN_PROMPT_HEIGHT, item.height * node.scaleY())
+          const newX = parent.x() + node.x()
+          const newY = parent.y() + node.y()
+          node.scaleX(1)
+          node.scaleY(1)
+          node.x(0)
+          node.y(0)
+          parent.x(newX)
+          parent.y(newY)
+          onUpdateItem(item.id, {
+            x: snapToGrid(newX),
+            y: snapToGrid(newY),
+            width: newWidth,
+            height: newHeight,
+          })
+        }}
+      >
+        <Rect
+          width={item.width}
+          height={item.height}
+          fill="rgba(255, 255, 255, 0.04)"
+          listening={false}
+        />
+        {/* Only the border takes clicks, so marquee selection works inside the frame */}
+        <Rect
+          width={item.width}
+          height={item.height}
+          stroke={isSelected ? COLOR_SELECTED : 'rgba(204, 204, 204, 0.6)'}
+          strokeWidth={(isSelected ? 2 : 1) * screenScale}
+          hitStrokeWidth={10 * screenScale}
+          fillEnabled={false}
+        />
+      </Group>
+    </Group>
+  )
+}
@@ -0,0 +1,192 @@
+import { useEffect, useRef } from 'react'
+import { Group, Image as KonvaImage, Line, Rect, Ellipse, Circle, Text } from 'react-konva'
+import Konva from 'konva'
+import { ImageAnnotation } from '../../../types'
+import { getArrowHead, getStepNumbers, normalizeBox } from '../../../utils/imageAnnotations'
+
+interface ImageAnnotationShapesProps {
+  annotations: ImageAnnotation[]
+  image: HTMLImageElement
+  sourceRect: { x: number; y: number; width: number; height: number }  // part of `image` the item shows
+  width: number   // item size, the units annotations are in
+  height: number
+}
+
+interface RedactionProps {
+  annotation: Extract<ImageAnnotation, { type: 'redact' }>
+  image: HTMLImageElement
+  sourceRect: { x: number; y: number; width: number; height: number }
+  width: number
+  height: number
+}
+
+// The redacted region of the image, cached so Konva can filter it
+function Redaction({ annotation, image, sourceRect, width, height }: RedactionProps) {
+  const imageRef = useRef<Konva.Image>(null)
+  const box = normalizeBox(annotation)
+  const left = Math.max(0, box.x)
+  const top = Math.max(0, box.y)
+  const right = Math.min(width, box.x + box.width)
+  const bottom = Math.min(height, box.y + box.height)
+  const regionWidth = right - left
+  const regionHeight = bottom - top
+  const minSide = Math.min(regionWidth, regionHeight)
+
+  useEffect(() => {
+    const node = imageRef.current
+    if (!node || regionWidth <= 0 || regionHeight <= 0) return
+    node.cache()
+    return () => {
+      node.clearCache()
+    }
+  }, [image, annotation, sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height, regionWidth, regionHeight])
+
+  if (regionWidth <= 0 || regionHeight <= 0) return null
+  const pixelsPerUnitX = sourceRect.width / width
+  const pixelsPerUnitY = sourceRect.height / height
+  return (
+    <KonvaImage
+      ref={imageRef}
+      image={image}
+      x={left}
+      y={top}
+      width={regionWidth}
+      height={regionHeight}
+      crop={{
+        x: sourceRect.x + left * pixelsPerUnitX,
+        y: sourceRect.y + top * pixelsPerUnitY,
+        width: regionWidth * pixelsPerUnitX,
+        height: regionHeight * pixelsPerUnitY,
+      }}
+      // Roughly the strength the server uses, so the canvas matches the export
+      filters={[annotation.style === 'blur' ? Konva.Filters.Blur : Konva.Filters.Pixelate]}
+      blurRadius={Math.max(4, Math.round(minSide / 6))}
+      pixelSize={Math.max(6, Math.round(minSide / 8))}
+    />
+  )
+}
+
+/**
+ * An image item's annotations drawn with Konva, in item units. The server draws the same
+ * shapes when it bakes them into an export.
+ */
+export default function ImageAnnotationShapes({ annotations, image, sourceRect, width, height }: ImageAnnotationShapesProps) {
+  const stepNumbers = getStepNumbers(annotations)
+
+  return (
+    <Group listening={false} clipX={0} clipY={0} clipWidth={width} clipHeight={height}>
+      {/* Redactions first, so markup drawn over them stays visible */}
+      {annotations.map((annotation, index) =>
+        annotation.type === 'redact' ? (
+          <Redaction
+            key={index}
+            annotation={annotation}
+            image={image}
+            sourceRect={sourceRect}
+            width={width}
+            height={height}
+          />
+        ) : null
+      )}
+      {annotations.map((annotation, index) => {
+        switch (annotation.type) {
+          case 'arrow': {
+            const head = getArrowHead(annotation)
+            return (
+              <Group key={index}>
+                <Line
+                  points={[annotation.x1, annotation.y1, head.baseX, head.baseY]}
+                  stroke={annotation.color}
+                  strokeWidth={annotation.strokeWidth}
+                  lineCap="round"
+                />
+                <Line points={head.points} closed fill={annotation.color} />
+              </Group>
+            )
+          }
+          case 'rect': {
+            const box = normalizeBox(annotation)
+            return (
+              <Rect
+                key={index}
+                {...box}
+                stroke={annotation.color}
+                strokeWidth={annotation.strokeWidth}
+              />
+            )
+          }
+          case 'ellipse': {
+            const box = normalizeBox(annotation)
+            return (
+              <Ellipse
+                key={index}
+                x={box.x + box.width / 2}
+                y={box.y + box.height / 2}
+                radiusX={box.width / 2}
+                radiusY={box.height / 2}
+                stroke={annotation.color}
+                strokeWidth={annotation.strokeWidth}
+              />
+            )
+          }
+          case 'pen':
+            return (
+              <Line
+                key={index}
+                points={annotation.points}
+                stroke={annotation.color}
+                strokeWidth={annotation.strokeWidth}
+                lineCap="round"
+                lineJoin="round"
+              />
+            )
+          case 'text':
+            return (
+              <Text
+                key={index}
+                x={annotation.x}
+                y={annotation.y}
+                text={annotation.text}
+                fontSize={annotation.fontSize}
+                fontFamily="sans-serif"
+                fontStyle="bold"
+                lineHeight={1.25}
+                fill={annotation.color}
+                stroke="white"
+                strokeWidth={annotation.fontSize / 8}
+                fillAfterStrokeEnabled
+              />
+            )
+          case 'step':
+            return (
+              <Group key={index}>
+                <Circle
+                  x={annotation.x}
+                  y={annotation.y}
+                  radius={annotation.radius}
+                  fill={annotation.color}
+                  stroke="white"
+                  strokeWidth={annotation.radius * 0.12}
+                />
+                <Text
+                  x={annotation.x - annotation.radius}
+                  y={annotation.y - annotation.radius}
+                  width={annotation.radius * 2}
+                  height={annotation.radius * 2}
+                  text={String(stepNumbers.get(index))}
+                  fontSize={annotation.radius * 1.2}
+                  fontFamily="sans-serif"
+                  fontStyle="bold"
+                  align="center"
+                  verticalAlign="middle"
+                  fill="white"
+                />
+              </Group>
+            )
+          default:
+            return null
+        }
+      })}
+    </Group>
+  )
+}
@@ -4,12 +4,15 @@ import Konva from 'konva'
 import { ImageItem } from '../../../types'
 import { IMAGE_HEADER_HEIGHT, COLOR_SELECTED } from '../../../constants/canvas'
 import { snapToGrid, snapDragPos } from '../../../utils/grid'
+import ImageAnnotationShapes from './ImageAnnotationShapes'
 
 interface ImageItemRendererProps {
   item: ImageItem
   image: HTMLImageElement
+  isEdited: boolean       // image is the server-rendered edit, with the crop already applied
   isSelected: boolean
   isGif: boolean
+  isAnnotating: boolean   // annotations are drawn by the annotation overlay instead
   editingImageLabelId: string | null
   stageScale: number
   onItemClick: (e: Konva.KonvaEventObject<MouseEvent>, id: string) => void
@@ -32,8 +35,10 @@ function formatFileSize(bytes: number): string {
 export default function ImageItemRenderer({
   item,
   image,
+  isEdited,
   isSelected,
   isGif,
+  isAnnotating,
   editingImageLabelId,
   onItemClick,
   onContextMenu,
@@ -57,9 +62,11 @@ export default function ImageItemRenderer({
   const headerHeight = isSelected ? effectiveHeaderHeight : 0
 
   // Build metadata string (dimensions and file size)
-  // Show cropped dimensions if crop exists, otherwise original dimensions
+  // Show edited dimensions if edited, cropped dimensions if crop exists, otherwise original dimensions
   const metadataParts: string[] = []
-  if (item.cropRect) {
+  if (isEdited) {
+    metadataParts.push(`${image.naturalWidth}×${image.naturalHeight}`)
+  } else if (item.cropRect) {
     metadataParts.push(`${Math.round(item.cropRect.width)}×${Math.round(item.cropRect.height)}`)
   } else if (item.originalWidth && item.originalHeight) {
     metadataParts.push(`${Math.round(item.originalWidth)}×${Math.round(item.originalHeight)}`)
@@ -70,6 +77,11 @@ export default function ImageItemRenderer({
   }
   const metadataText = metadataParts.join(' • ')
 
+  // The part of `image` the item shows, for drawing redactions
+  const sourceRect = !isEdited && item.cropRect
+    ? item.cropRect
+    : { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight }
+
   return (
     <Group
       ref={groupRef}
@@ -221,12 +233,23 @@ export default function ImageItemRenderer({
             image={image}
             width={item.width}
             height={item.height}
-            crop={item.cropRect ? { x: item.cropRect.x, y: item.cropRect.y, width: item.cropRect.width, height: item.cropRect.height } : undefined}
+            crop={item.cropRect && !isEdited ? { x: item.cropRect.x, y: item.cropRect.y, width: item.cropRect.width, height: item.cropRect.height } : undefined}
             scaleX={scaleX}
             scaleY={scaleY}
             rotation={item.rotation ?? 0}
           />
         )}
+        {!isGif && !isAnnotating && item.annotations?.length ? (
+          <Group scaleX={scaleX} scaleY={scaleY} rotation={item.rotation ?? 0}>
+            <ImageAnnotationShapes
+              annotations={item.annotations}
+              image={image}
+              sourceRect={sourceRect}
+              width={item.width}
+              height={item.height}
+            />
+          </Group>
+        ) : null}
       </Group>
     </Group>
   )
@@ -0,0 +1,177 @@
+import { AudioItem, AudioFormat } from '../../../types'
+import { Z_MENU, AUDIO_EXTENSIONS } from '../../../constants/canvas'
+import { downloadAudio, exportAudio } from '../../../utils/downloadItem'
+
+interface AudioContextMenuProps {
+  position: { x: number; y: number }
+  audioItem: AudioItem | undefined
+  sceneId: string
+  isOffline: boolean
+  onUpdateItem: (id: string, changes: Partial<AudioItem>) => void
+  onTrim: (audioId: string) => void
+  onConvert: (audioItem: AudioItem, targetFormat: AudioFormat) => void
+  onClose: () => void
+}
+
+export default function AudioContextMenu({
+  position,
+  audioItem,
+  sceneId,
+  isOffline,
+  onUpdateItem,
+  onTrim,
+  onConvert,
+  onClose,
+}: AudioContextMenuProps) {
+  const buttonStyle: React.CSSProperties = {
+    display: 'block',
+    width: '100%',
+    padding: '5px 12px',
+    border: 'none',
+    background: 'none',
+    textAlign: 'left',
+    cursor: 'pointer',
+    fontSize: 12,
+    color: '#ddd',
+  }
+
+  const offlineButtonStyle: React.CSSProperties = {
+    ...buttonStyle,
+    opacity: isOffline ? 0.5 : 1,
+    cursor: isOffline ? 'not-allowed' : 'pointer',
+  }
+
+  const separatorStyle: React.CSSProperties = {
+    height: 1,
+    background: '#555',
+    margin: '4px 8px',
+  }
+
+  const handleTrim = () => {
+    if (!audioItem) { onClose(); return }
+    onTrim(audioItem.id)
+    onClose()
+  }
+
+  const handleRemoveTrim = () => {
+    if (!audioItem) { onClose(); return }
+    onUpdateItem(audioItem.id, {
+      cropSrc: undefined,
+      cropSrcFileSize: undefined,
+      trimStart: undefined,
+      trimEnd: undefined,
+    })
+    onClose()
+  }
+
+  const handleToggleLoop = () => {
+    if (!audioItem) { onClose(); return }
+    onUpdateItem(audioItem.id, { loop: !(audioItem.loop ?? false) })
+    onClose()
+  }
+
+  const handleConvert = (targetFormat: AudioFormat) => {
+    if (!audioItem) { onClose(); return }
+    onConvert(audioItem, targetFormat)
+    onClose()
+  }
+
+  const handleExport = async () => {
+    if (!audioItem) { onClose(); return }
+    try {
+      await exportAudio(audioItem, sceneId)
+    } catch (error) {
+      console.error('Failed to export audio:', error)
+      alert('Failed to export audio. Please try again.')
+    }
+    onClose()
+  }
+
+  const handleDownload = async () => {
+    if (!audioItem) { onClose(); return }
+    try {
+      await downloadAudio(audioItem, sceneId)
+    } catch (error) {
+      console.error('Failed to download audio:', error)
+      alert('Failed to download audio. Please try again.')
+    }
+    onClose()
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: position.y,
+        left: position.x,
+        background: '#3a3a3a',
+        border: '1px solid #555',
+        borderRadius: 4,
+        boxShadow: '0 2px 8px rgba(0,0,0,0.3)',
+        zIndex: Z_MENU,
+        minWidth: 150,
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={handleTrim}
+        style={offlineButtonStyle}
+        disabled={isOffline}
+        onMouseEnter={(e) => !isOffline && (e.currentTarget.style.background = '#4a4a4a')}
+        onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+        title={isOffline ? 'Trim unavailable in offline mode' : undefined}
+      >
+        {audioItem?.cropSrc ? 'Modify Trim' : 'Trim'}
+      </button>
+      {audioItem?.cropSrc && (
+        <button
+          onClick={handleRemoveTrim}
+          style={buttonStyle}
+          onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+          onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+        >
+          Remove Trim
+        </button>
+      )}
+      <button
+        onClick={handleToggleLoop}
+        style={buttonStyle}
+        onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+        onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+      >
+        {audioItem?.loop ? 'Loop: On' : 'Loop: Off'}
+      </button>
+      <div style={separatorStyle} />
+      {AUDIO_EXTENSIONS.filter((format) => format !== audioItem?.format).map((format) => (
+        <button
+          key={format}
+          onClick={() => handleConvert(format)}
+          style={offlineButtonStyle}
+          disabled={isOffline}
+          onMouseEnter={(e) => !isOffline && (e.currentTarget.style.background = '#4a4a4a')}
+          onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+          title={isOffline ? 'Convert unavailable in offline mode' : undefined}
+        >
+          Convert to {format.toUpperCase()}
+        </button>
+      ))}
+      <div style={separatorStyle} />
+      <button
+        onClick={handleExport}
+        style={buttonStyle}
+        onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+        onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+      >
+        Export
+      </button>
+      <button
+        onClick={handleDownload}
+        style={buttonStyle}
+        onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+        onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+      >
+        Download
+      </button>
+    </div>
+  )
+}
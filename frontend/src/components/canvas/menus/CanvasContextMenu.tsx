@@ -10,6 +10,8 @@ interface CanvasContextMenuProps {
   onAddImageGenPrompt?: (x?: number, y?: number) => void
   onAddHtmlGenPrompt?: (x?: number, y?: number) => void
   onAddCodingRobot?: (x?: number, y?: number) => void
+  onAddFrame?: (x?: number, y?: number) => void
+  onExportImage?: () => void
   onClose: () => void
 }
 
@@ -22,6 +24,8 @@ export default function CanvasContextMenu({
   onAddImageGenPrompt,
   onAddHtmlGenPrompt,
   onAddCodingRobot,
+  onAddFrame,
+  onExportImage,
   onClose,
 }: CanvasContextMenuProps) {
   const [newSubmenuOpen, setNewSubmenuOpen] = useState(false)
@@ -95,6 +99,16 @@ export default function CanvasContextMenu({
             >
               Text Block
             </button>
+            {onAddFrame && (
+              <button
+                onClick={() => { onAddFrame(canvasPosition?.x, canvasPosition?.y); onClose() }}
+                style={buttonStyle}
+                onMouseEnter={hoverOn}
+                onMouseLeave={hoverOff}
+              >
+                Frame
+              </button>
+            )}
             <button
               onClick={() => { onAddPrompt?.(canvasPosition?.x, canvasPosition?.y); onClose() }}
               style={buttonStyle}
@@ -140,6 +154,19 @@ export default function CanvasContextMenu({
       >
         Paste
       </button>
+      {onExportImage && (
+        <>
+          <div style={{ height: 1, background: '#555', margin: '4px 8px' }} />
+          <button
+            onClick={() => { onExportImage(); onClose() }}
+            style={buttonStyle}
+            onMouseEnter={hoverOn}
+            onMouseLeave={hoverOff}
+          >
+            Export Scene as Image...
+          </button>
+        </>
+      )}
     </div>
   )
 }
@@ -0,0 +1,90 @@
+import { Z_MENU } from '../../../constants/canvas'
+
+interface FrameContextMenuProps {
+  position: { x: number; y: number }
+  pageNumber: number
+  pageCount: number
+  onRename: () => void
+  onMove: (direction: -1 | 1) => void
+  onSelectContents: () => void
+  onPresent: () => void
+  onExportImage: () => void
+  onClose: () => void
+}
+
+export default function FrameContextMenu({
+  position,
+  pageNumber,
+  pageCount,
+  onRename,
+  onMove,
+  onSelectContents,
+  onPresent,
+  onExportImage,
+  onClose,
+}: FrameContextMenuProps) {
+  const buttonStyle: React.CSSProperties = {
+    display: 'block',
+    width: '100%',
+    padding: '5px 12px',
+    border: 'none',
+    background: 'none',
+    textAlign: 'left',
+    cursor: 'pointer',
+    fontSize: 12,
+    color: '#ddd',
+  }
+
+  const disabledButtonStyle: React.CSSProperties = {
+    ...buttonStyle,
+    opacity: 0.5,
+    cursor: 'default',
+  }
+
+  const separatorStyle: React.CSSProperties = {
+    height: 1,
+    background: '#555',
+    margin: '4px 8px',
+  }
+
+  const menuButton = (label: string, onClick: () => void, disabled = false) => (
+    <button
+      onClick={() => { if (disabled) return; onClick(); onClose() }}
+      style={disabled ? disabledButtonStyle : buttonStyle}
+      disabled={disabled}
+      onMouseEnter={(e) => !disabled && (e.currentTarget.style.background = '#4a4a4a')}
+      onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: position.y,
+        left: position.x,
+        background: '#3a3a3a',
+        border: '1px solid #555',
+        borderRadius: 4,
+        boxShadow: '0 2px 8px rgba(0,0,0,0.3)',
+        zIndex: Z_MENU,
+        minWidth: 150,
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {menuButton('Rename...', onRename)}
+      {menuButton('Select Contents', onSelectContents)}
+      <div style={separatorStyle} />
+      <div style={{ padding: '3px 12px', fontSize: 11, color: '#999' }}>
+        Page {pageNumber} of {pageCount}
+      </div>
+      {menuButton('Move Page Earlier', () => onMove(-1), pageNumber <= 1)}
+      {menuButton('Move Page Later', () => onMove(1), pageNumber >= pageCount)}
+      <div style={separatorStyle} />
+      {menuButton('Present from Here', onPresent)}
+      {menuButton('Export Frame as Image...', onExportImage)}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@ import { ImageItem, CropRect } from '../../../types'
 import { Z_MENU } from '../../../constants/canvas'
 import { isGifSrc } from '../../../utils/gif'
 import { downloadImage, exportImage } from '../../../utils/downloadItem'
+import { hasImageEdits } from '../../../utils/imageEdits'
 
 interface ImageContextMenuProps {
   position: { x: number; y: number }
@@ -11,6 +12,8 @@ interface ImageContextMenuProps {
   isOffline: boolean
   onUpdateItem: (id: string, changes: Partial<ImageItem>) => void
   onStartCrop: (id: string, initialCrop: CropRect) => void
+  onAdjust: (id: string) => void
+  onAnnotate: (id: string) => void
   onDuplicate: (imageItem: ImageItem) => void
   onConvertToVideo: (imageItem: ImageItem) => void
   onClose: () => void
@@ -27,6 +30,8 @@ export default function ImageContextMenu({
   isOffline,
   onUpdateItem,
   onStartCrop,
+  onAdjust,
+  onAnnotate,
   onDuplicate,
   onConvertToVideo,
   onClose,
@@ -78,7 +83,26 @@ export default function ImageContextMenu({
     onClose()
   }
 
-  const handleRemoveCrop = () => {
+  const handleAdjust = () => {
+    if (!imageItem) { onClose(); return }
+    onAdjust(imageItem.id)
+    onClose()
+  }
+
+  const handleAnnotate = () => {
+    if (!imageItem) { onClose(); return }
+    onAnnotate(imageItem.id)
+    onClose()
+  }
+
+  const handleClearAnnotations = () => {
+    if (!imageItem) { onClose(); return }
+    onUpdateItem(imageItem.id, { annotations: undefined })
+    onClose()
+  }
+
+  // Removes the crop and the edit stack, going back to the original file
+  const handleRemoveEdits = () => {
     if (!imageItem) { onClose(); return }
     const img = loadedImages.get(imageItem.src)
     if (!img) { onClose(); return }
@@ -96,10 +120,15 @@ export default function ImageContextMenu({
       cropRect: undefined,
       cropSrc: undefined,
       cropSrcFileSize: undefined,
+      edits: undefined,
+      editFormat: undefined,
+      editQuality: undefined,
     })
     onClose()
   }
 
+  const isGif = !!imageItem && isGifSrc(imageItem.src)
+
   const handleExport = async () => {
     if (!imageItem) { onClose(); return }
     try {
@@ -151,14 +180,50 @@ export default function ImageContextMenu({
       >
         {imageItem?.cropRect ? 'Edit Crop' : 'Crop'}
       </button>
-      {imageItem?.cropRect && (
+      {imageItem && !isGif && (
+        <button
+          onClick={handleAdjust}
+          style={{
+            ...buttonStyle,
+            opacity: isOffline ? 0.5 : 1,
+            cursor: isOffline ? 'not-allowed' : 'pointer',
+          }}
+          disabled={isOffline}
+          onMouseEnter={(e) => !isOffline && (e.currentTarget.style.background = '#4a4a4a')}
+          onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+          title={isOffline ? 'Adjust unavailable in offline mode' : undefined}
+        >
+          Adjust Image...
+        </button>
+      )}
+      {imageItem && !isGif && (
+        <button
+          onClick={handleAnnotate}
+          style={buttonStyle}
+          onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+          onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+        >
+          Annotate...
+        </button>
+      )}
+      {imageItem?.annotations?.length ? (
+        <button
+          onClick={handleClearAnnotations}
+          style={buttonStyle}
+          onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+          onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+        >
+          Clear Annotations
+        </button>
+      ) : null}
+      {imageItem && (imageItem.cropRect || hasImageEdits(imageItem)) && (
         <button
-          onClick={handleRemoveCrop}
+          onClick={handleRemoveEdits}
           style={buttonStyle}
           onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
           onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
         >
-          Remove Crop
+          Remove Edits
         </button>
       )}
       <button
@@ -184,7 +249,7 @@ export default function ImageContextMenu({
       >
         Duplicate
       </button>
-      {imageItem && isGifSrc(imageItem.src) && (
+      {isGif && (
         <button
           onClick={handleConvertToVideo}
           style={{
@@ -9,6 +9,10 @@ interface MultiSelectContextMenuProps {
   sceneId: string
   onClose: () => void
   onCombineTextItems?: () => void
+  onCombineVideos?: (videoIds: string[]) => void
+  onCombineImages?: (imageIds: string[]) => void
+  onExportImage?: () => void
+  onFrameSelection?: () => void
 }
 
 export default function MultiSelectContextMenu({
@@ -18,8 +22,12 @@ export default function MultiSelectContextMenu({
   sceneId,
   onClose,
   onCombineTextItems,
+  onCombineVideos,
+  onCombineImages,
+  onExportImage,
+  onFrameSelection,
 }: MultiSelectContextMenuProps) {
-  const DOWNLOADABLE_TYPES = ['image', 'video', 'text-file', 'pdf']
+  const DOWNLOADABLE_TYPES = ['image', 'video', 'audio', 'text-file', 'pdf']
   const hasDownloadable = selectedIds.some(id => {
     const item = items.find(i => i.id === id)
     return item && DOWNLOADABLE_TYPES.includes(item.type)
@@ -31,6 +39,18 @@ export default function MultiSelectContextMenu({
   })
   const canCombineText = selectedTextItems.length >= 2
 
+  const selectedVideoIds = selectedIds.filter(id => {
+    const item = items.find(i => i.id === id)
+    return item && item.type === 'video'
+  })
+  const canCombineVideos = selectedVideoIds.length >= 2 && !!onCombineVideos
+
+  const selectedImageIds = selectedIds.filter(id => {
+    const item = items.find(i => i.id === id)
+    return item && item.type === 'image'
+  })
+  const canCombineImages = selectedImageIds.length >= 2 && !!onCombineImages
+
   const buttonStyle: React.CSSProperties = {
     display: 'block',
     width: '100%',
@@ -90,6 +110,26 @@ export default function MultiSelectContextMenu({
     onClose()
   }
 
+  const handleCombineVideos = () => {
+    onCombineVideos?.(selectedVideoIds)
+    onClose()
+  }
+
+  const handleCombineImages = () => {
+    onCombineImages?.(selectedImageIds)
+    onClose()
+  }
+
+  const handleExportImage = () => {
+    onExportImage?.()
+    onClose()
+  }
+
+  const handleFrameSelection = () => {
+    onFrameSelection?.()
+    onClose()
+  }
+
   return (
     <div
       style={{
@@ -118,6 +158,45 @@ export default function MultiSelectContextMenu({
           <div style={{ height: 1, background: '#555', margin: '4px 8px' }} />
         </>
       )}
+      {canCombineVideos && (
+        <>
+          <button
+            onClick={handleCombineVideos}
+            style={buttonStyle}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+          >
+            Combine Videos...
+          </button>
+          <div style={{ height: 1, background: '#555', margin: '4px 8px' }} />
+        </>
+      )}
+      {canCombineImages && (
+        <>
+          <button
+            onClick={handleCombineImages}
+            style={buttonStyle}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+          >
+            Combine Images...
+          </button>
+          <div style={{ height: 1, background: '#555', margin: '4px 8px' }} />
+        </>
+      )}
+      {onFrameSelection && (
+        <>
+          <button
+            onClick={handleFrameSelection}
+            style={buttonStyle}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+          >
+            Frame Selection
+          </button>
+          <div style={{ height: 1, background: '#555', margin: '4px 8px' }} />
+        </>
+      )}
       <button
         onClick={hasDownloadable ? handleDownloadAll : undefined}
         disabled={!hasDownloadable}
@@ -155,6 +234,16 @@ export default function MultiSelectContextMenu({
       >
         Export All (zip)
       </button>
+      {onExportImage && (
+        <button
+          onClick={handleExportImage}
+          style={buttonStyle}
+          onMouseEnter={(e) => (e.currentTarget.style.background = '#4a4a4a')}
+          onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+        >
+          Export as Image...
+        </button>
+      )}
     </div>
   )
 }
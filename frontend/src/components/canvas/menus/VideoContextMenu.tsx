@@ -2,28 +2,35 @@ import { VideoItem } from '../../../types'
 import { Z_MENU } from '../../../constants/canvas'
 import { getContentUrl } from '../../../api/scenes'
 import { downloadVideo, exportVideo, getVideoExtension } from '../../../utils/downloadItem'
+import { formatTimestamp, parseTimestamp } from '../../../utils/timestamp'
 
 interface VideoContextMenuProps {
   position: { x: number; y: number }
   videoItem: VideoItem | undefined
+  playhead: number  // current playback position in seconds
   sceneId: string
   isOffline: boolean
   onUpdateItem: (id: string, changes: Partial<VideoItem>) => void
   onCrop: (videoId: string) => void
   onDuplicate: (videoItem: VideoItem) => void
   onConvertToGif: (videoItem: VideoItem) => void
+  onCaptureFrame: (videoItem: VideoItem, time: number) => void
+  onExtractAudio: (videoItem: VideoItem) => void
   onClose: () => void
 }
 
 export default function VideoContextMenu({
   position,
   videoItem,
+  playhead,
   sceneId,
   isOffline,
   onUpdateItem,
   onCrop,
   onDuplicate,
   onConvertToGif,
+  onCaptureFrame,
+  onExtractAudio,
   onClose,
 }: VideoContextMenuProps) {
   const buttonStyle: React.CSSProperties = {
@@ -50,6 +57,31 @@ export default function VideoContextMenu({
     onClose()
   }
 
+  const handleCaptureFrame = () => {
+    if (!videoItem) { onClose(); return }
+    onCaptureFrame(videoItem, playhead)
+    onClose()
+  }
+
+  const handleExtractAudio = () => {
+    if (!videoItem) { onClose(); return }
+    onExtractAudio(videoItem)
+    onClose()
+  }
+
+  const handleCaptureFrameAt = () => {
+    if (!videoItem) { onClose(); return }
+    const text = window.prompt('Capture the frame at (e.g. 0:12 or 1:02.5):', formatTimestamp(playhead))
+    onClose()
+    if (text === null) return
+    const time = parseTimestamp(text)
+    if (time === null) {
+      alert(`"${text}" is not a valid timestamp. Use seconds (12.5) or minutes:seconds (0:12).`)
+      return
+    }
+    onCaptureFrame(videoItem, time)
+  }
+
   const handleResetTransform = () => {
     if (!videoItem) { onClose(); return }
     onUpdateItem(videoItem.id, {
@@ -123,6 +155,12 @@ export default function VideoContextMenu({
       cropSrcFileSize: undefined,
       speedFactor: undefined,
       removeAudio: undefined,
+      trim: undefined,
+      trimStart: undefined,
+      trimEnd: undefined,
+      segments: undefined,
+      captions: undefined,
+      callouts: undefined,
     })
     onClose()
   }
@@ -182,9 +220,9 @@ export default function VideoContextMenu({
         onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
         title={isOffline ? 'Edit unavailable in offline mode' : undefined}
       >
-        {(videoItem?.cropRect || videoItem?.speedFactor || videoItem?.removeAudio) ? 'Modify Edits' : 'Edit'}
+        {(videoItem?.cropRect || videoItem?.speedFactor || videoItem?.removeAudio || videoItem?.trim || videoItem?.segments || videoItem?.captions || videoItem?.callouts) ? 'Modify Edits' : 'Edit'}
       </button>
-      {(videoItem?.cropRect || videoItem?.speedFactor || videoItem?.removeAudio) && (
+      {(videoItem?.cropRect || videoItem?.speedFactor || videoItem?.removeAudio || videoItem?.trim || videoItem?.segments || videoItem?.captions || videoItem?.callouts) && (
         <button
           onClick={handleRemoveCrop}
           style={buttonStyle}
@@ -231,6 +269,48 @@ export default function VideoContextMenu({
       >
         Convert to GIF
       </button>
+      <button
+        onClick={handleCaptureFrame}
+        style={{
+          ...buttonStyle,
+          opacity: isOffline ? 0.5 : 1,
+          cursor: isOffline ? 'not-allowed' : 'pointer',
+        }}
+        disabled={isOffline}
+        onMouseEnter={(e) => !isOffline && (e.currentTarget.style.background = '#4a4a4a')}
+        onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+        title={isOffline ? 'Capture unavailable in offline mode' : undefined}
+      >
+        Capture Frame ({formatTimestamp(playhead)})
+      </button>
+      <button
+        onClick={handleCaptureFrameAt}
+        style={{
+          ...buttonStyle,
+          opacity: isOffline ? 0.5 : 1,
+          cursor: isOffline ? 'not-allowed' : 'pointer',
+        }}
+        disabled={isOffline}
+        onMouseEnter={(e) => !isOffline && (e.currentTarget.style.background = '#4a4a4a')}
+        onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+        title={isOffline ? 'Capture unavailable in offline mode' : undefined}
+      >
+        Capture Frame at...
+      </button>
+      <button
+        onClick={handleExtractAudio}
+        style={{
+          ...buttonStyle,
+          opacity: isOffline ? 0.5 : 1,
+          cursor: isOffline ? 'not-allowed' : 'pointer',
+        }}
+        disabled={isOffline}
+        onMouseEnter={(e) => !isOffline && (e.currentTarget.style.background = '#4a4a4a')}
+        onMouseLeave={(e) => (e.currentTarget.style.background = 'none')}
+        title={isOffline ? 'Extract unavailable in offline mode' : undefined}
+      >
+        Extract Audio
+      </button>
       <div style={separatorStyle} />
       <button
         onClick={handleExport}
@@ -0,0 +1,368 @@
+import { useRef, useState, useEffect } from 'react'
+import { AudioItem } from '../../../types'
+import { loadAudioWaveform, AudioWaveform } from '../../../utils/audioWaveform'
+import { formatTimestamp } from '../../../utils/timestamp'
+
+const CONTROLS_HEIGHT = 28
+const MIN_TRIM_LENGTH = 0.1
+
+interface AudioOverlayProps {
+  item: AudioItem
+  stageScale: number
+  stagePos: { x: number; y: number }
+  isSelected: boolean
+  isAnyDragActive: boolean
+  isTrimming: boolean
+  onUpdateItem: (id: string, changes: Partial<AudioItem>) => void
+  onApplyTrim: (start: number, end: number) => void
+  onCancelTrim: () => void
+  transform?: { x: number; y: number; width: number; height: number }
+}
+
+/**
+ * HTML5 audio player over the canvas: the waveform, with the played part highlighted,
+ * and play/loop controls when selected. Trimmed items show and play only the kept part.
+ * In trim mode it shows the whole original with handles for the range to keep.
+ */
+export default function AudioOverlay({
+  item,
+  stageScale,
+  stagePos,
+  isSelected,
+  isAnyDragActive,
+  isTrimming,
+  onUpdateItem,
+  onApplyTrim,
+  onCancelTrim,
+  transform,
+}: AudioOverlayProps) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const waveformAreaRef = useRef<HTMLDivElement>(null)
+  const [waveform, setWaveform] = useState<AudioWaveform | null>(null)
+  const [waveformError, setWaveformError] = useState(false)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [trimDraft, setTrimDraft] = useState<{ start: number; end: number } | null>(null)
+  const dragHandleRef = useRef<'start' | 'end' | null>(null)
+
+  const x = transform?.x ?? item.x
+  const y = transform?.y ?? item.y
+  const width = transform?.width ?? item.width
+  const height = transform?.height ?? item.height
+
+  const displayWidth = width * stageScale
+  const displayHeight = height * stageScale
+  const left = x * stageScale + stagePos.x
+  const top = y * stageScale + stagePos.y
+
+  const controlsVisible = isSelected && !isAnyDragActive
+  const waveformHeight = Math.max(0, displayHeight - (controlsVisible ? CONTROLS_HEIGHT : 0))
+
+  // The waveform always comes from the original file; a trimmed item shows its kept range
+  useEffect(() => {
+    let cancelled = false
+    setWaveformError(false)
+    loadAudioWaveform(item.src)
+      .then((result) => { if (!cancelled) setWaveform(result) })
+      .catch((error) => {
+        console.error('Failed to load audio waveform:', error)
+        if (!cancelled) setWaveformError(true)
+      })
+    return () => { cancelled = true }
+  }, [item.src])
+
+  const fullDuration = waveform?.duration ?? item.duration ?? 0
+  const isTrimmed = !isTrimming && !!item.cropSrc && item.trimStart !== undefined && item.trimEnd !== undefined
+  const viewStart = isTrimmed ? item.trimStart! : 0
+  const viewEnd = isTrimmed ? item.trimEnd! : fullDuration
+  const viewLength = Math.max(0, viewEnd - viewStart)
+
+  // The trimmed file starts at trimStart, so its playback time is already relative to the view
+  const audioSrc = isTrimming ? item.src : (item.cropSrc ?? item.src)
+  const playhead = currentTime
+
+  // Start trim mode from the current trim, or the whole file
+  useEffect(() => {
+    if (isTrimming) {
+      setTrimDraft({ start: item.trimStart ?? 0, end: item.trimEnd ?? fullDuration })
+    } else {
+      setTrimDraft(null)
+    }
+  }, [isTrimming]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (trimDraft && trimDraft.end === 0 && fullDuration > 0) {
+      setTrimDraft({ ...trimDraft, end: fullDuration })
+    }
+  }, [trimDraft, fullDuration])
+
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.loop = item.loop ?? false
+  }, [item.loop])
+
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    const handleTimeUpdate = () => setCurrentTime(audio.currentTime)
+    const handlePlay = () => setIsPlaying(true)
+    const handlePause = () => setIsPlaying(false)
+
+    audio.addEventListener('timeupdate', handleTimeUpdate)
+    audio.addEventListener('play', handlePlay)
+    audio.addEventListener('pause', handlePause)
+    audio.addEventListener('ended', handlePause)
+
+    return () => {
+      audio.removeEventListener('timeupdate', handleTimeUpdate)
+      audio.removeEventListener('play', handlePlay)
+      audio.removeEventListener('pause', handlePause)
+      audio.removeEventListener('ended', handlePause)
+    }
+  }, [])
+
+  // In trim mode, play only the range being kept
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio || !trimDraft || !isPlaying) return
+    if (audio.currentTime >= trimDraft.end) {
+      audio.pause()
+      audio.currentTime = trimDraft.start
+    }
+  }, [currentTime, trimDraft, isPlaying])
+
+  // Draw the waveform for the visible range, played part highlighted
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !waveform) return
+    const dpr = window.devicePixelRatio || 1
+    const w = Math.max(1, Math.round(displayWidth))
+    const h = Math.max(1, Math.round(waveformHeight))
+    canvas.width = w * dpr
+    canvas.height = h * dpr
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    ctx.scale(dpr, dpr)
+    ctx.clearRect(0, 0, w, h)
+
+    const { peaks, duration } = waveform
+    if (duration <= 0 || viewLength <= 0) return
+    const barWidth = 2
+    const step = barWidth + 1
+    const mid = h / 2
+    for (let px = 0; px < w; px += step) {
+      const t0 = viewStart + (px / w) * viewLength
+      const t1 = viewStart + ((px + step) / w) * viewLength
+      const i0 = Math.floor((t0 / duration) * peaks.length)
+      const i1 = Math.max(i0 + 1, Math.ceil((t1 / duration) * peaks.length))
+      let peak = 0
+      for (let i = i0; i < i1 && i < peaks.length; i++) peak = Math.max(peak, peaks[i])
+      const barHeight = Math.max(1, peak * (h - 8))
+
+      const isPlayed = t0 < viewStart + playhead
+      const isKept = !trimDraft || (t0 >= trimDraft.start && t0 < trimDraft.end)
+      ctx.fillStyle = !isKept ? '#3a3a5a' : isPlayed ? '#4a90d9' : '#8a8abf'
+      ctx.fillRect(px, mid - barHeight / 2, barWidth, barHeight)
+    }
+  }, [waveform, displayWidth, waveformHeight, viewStart, viewLength, playhead, trimDraft])
+
+  // Dragging trim handles
+  useEffect(() => {
+    const handleMouseMove = (e: MouseEvent) => {
+      const handle = dragHandleRef.current
+      const area = waveformAreaRef.current
+      if (!handle || !area || !fullDuration) return
+      e.preventDefault()
+      const rect = area.getBoundingClientRect()
+      const time = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * fullDuration
+      setTrimDraft((prev) => {
+        if (!prev) return prev
+        return handle === 'start'
+          ? { ...prev, start: Math.min(time, prev.end - MIN_TRIM_LENGTH) }
+          : { ...prev, end: Math.max(time, prev.start + MIN_TRIM_LENGTH) }
+      })
+    }
+    const handleMouseUp = () => {
+      dragHandleRef.current = null
+    }
+    window.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('mouseup', handleMouseUp)
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('mouseup', handleMouseUp)
+    }
+  }, [fullDuration])
+
+  const togglePlay = () => {
+    const audio = audioRef.current
+    if (!audio) return
+    if (isPlaying) {
+      audio.pause()
+      return
+    }
+    if (trimDraft && (audio.currentTime < trimDraft.start || audio.currentTime >= trimDraft.end)) {
+      audio.currentTime = trimDraft.start
+    }
+    audio.play()
+  }
+
+  const handleWaveformClick = (e: React.MouseEvent) => {
+    const audio = audioRef.current
+    if (!audio || !controlsVisible || viewLength <= 0) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
+    const time = fraction * viewLength
+    audio.currentTime = time
+    setCurrentTime(time)
+  }
+
+  const toggleLoop = () => {
+    onUpdateItem(item.id, { loop: !(item.loop ?? false) })
+  }
+
+  const buttonStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    color: 'white',
+    cursor: 'pointer',
+    fontSize: 14,
+    padding: '2px 6px',
+  }
+
+  const textButtonStyle: React.CSSProperties = {
+    backgroundColor: '#333',
+    color: 'white',
+    border: '1px solid #555',
+    borderRadius: 3,
+    padding: '1px 8px',
+    fontSize: 11,
+    cursor: 'pointer',
+  }
+
+  const renderTrimHandle = (handle: 'start' | 'end') => {
+    if (!trimDraft || !fullDuration) return null
+    const position = (trimDraft[handle] / fullDuration) * 100
+    return (
+      <div
+        onMouseDown={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          dragHandleRef.current = handle
+        }}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          position: 'absolute',
+          top: 0,
+          bottom: 0,
+          left: `${position}%`,
+          width: 8,
+          marginLeft: handle === 'start' ? -8 : 0,
+          backgroundColor: '#ffcc00',
+          borderRadius: handle === 'start' ? '3px 0 0 3px' : '0 3px 3px 0',
+          cursor: 'ew-resize',
+        }}
+        title={handle === 'start' ? 'Trim start' : 'Trim end'}
+      />
+    )
+  }
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left,
+        top,
+        width: displayWidth,
+        height: displayHeight,
+        // Let clicks pass through to the Konva canvas unless the controls are showing
+        pointerEvents: 'none',
+      }}
+    >
+      <audio ref={audioRef} src={audioSrc} loop={item.loop ?? false} preload="metadata" />
+
+      <div
+        ref={waveformAreaRef}
+        onClick={handleWaveformClick}
+        style={{
+          position: 'absolute',
+          left: 0,
+          top: 0,
+          width: '100%',
+          height: waveformHeight,
+          pointerEvents: controlsVisible ? 'auto' : 'none',
+          cursor: controlsVisible ? 'pointer' : undefined,
+        }}
+      >
+        <canvas ref={canvasRef} style={{ width: '100%', height: '100%', display: 'block' }} />
+        {!waveform && (
+          <div
+            style={{
+              position: 'absolute',
+              inset: 0,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              color: '#888',
+              fontSize: 12,
+            }}
+          >
+            {waveformError ? '♪ Waveform unavailable' : '♪ Loading…'}
+          </div>
+        )}
+        {controlsVisible && renderTrimHandle('start')}
+        {controlsVisible && renderTrimHandle('end')}
+      </div>
+
+      {controlsVisible && (
+        <div
+          style={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            bottom: 0,
+            height: CONTROLS_HEIGHT,
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            padding: '0 6px',
+            boxSizing: 'border-box',
+            pointerEvents: 'auto',
+          }}
+        >
+          <button onClick={togglePlay} style={buttonStyle} title={isPlaying ? 'Pause' : 'Play'}>
+            {isPlaying ? '⏸' : '▶'}
+          </button>
+          <span style={{ color: 'white', fontSize: 11, fontFamily: 'monospace' }}>
+            {formatTimestamp(Math.max(0, playhead))} / {formatTimestamp(viewLength)}
+          </span>
+          <div style={{ flex: 1 }} />
+          {trimDraft ? (
+            <>
+              <span style={{ color: '#ffcc00', fontSize: 11, fontFamily: 'monospace' }}>
+                {formatTimestamp(trimDraft.start)} - {formatTimestamp(trimDraft.end)}
+              </span>
+              <button onClick={() => onApplyTrim(trimDraft.start, trimDraft.end)} style={textButtonStyle}>
+                Apply
+              </button>
+              <button onClick={onCancelTrim} style={textButtonStyle}>
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={toggleLoop}
+              style={{ ...buttonStyle, color: item.loop ? '#4a90d9' : 'white', opacity: item.loop ? 1 : 0.6 }}
+              title={item.loop ? 'Loop: On' : 'Loop: Off'}
+            >
+              🔁
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -80,6 +80,7 @@ export default function GifOverlay({
     >
       <img
         src={imgSrc}
+        data-gif-id={item.id}
         style={imgStyle}
       />
     </div>
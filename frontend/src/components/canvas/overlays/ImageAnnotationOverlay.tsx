@@ -0,0 +1,649 @@
+import { useState, useRef, useEffect } from 'react'
+import { ImageItem, ImageAnnotation } from '../../../types'
+import {
+  ANNOTATION_COLORS,
+  AnnotationSize,
+  getAnnotationSizes,
+  getArrowHead,
+  getStepNumbers,
+  hitTestAnnotation,
+  moveAnnotation,
+  normalizeBox,
+} from '../../../utils/imageAnnotations'
+
+interface ImageAnnotationOverlayProps {
+  item: ImageItem
+  stageScale: number
+  stagePos: { x: number; y: number }
+  onApply: (annotations: ImageAnnotation[]) => void
+  onCancel: () => void
+}
+
+type AnnotationTool = 'select' | 'arrow' | 'rect' | 'ellipse' | 'pen' | 'text' | 'step' | 'blur' | 'pixelate'
+
+const TOOLS: { tool: AnnotationTool; label: string; title: string }[] = [
+  { tool: 'select', label: '⬚', title: 'Select and move (Delete removes, double-click edits text)' },
+  { tool: 'arrow', label: '➜', title: 'Arrow' },
+  { tool: 'rect', label: '▭', title: 'Rectangle' },
+  { tool: 'ellipse', label: '◯', title: 'Ellipse' },
+  { tool: 'pen', label: '✎', title: 'Freehand' },
+  { tool: 'text', label: 'T', title: 'Text label' },
+  { tool: 'step', label: '①', title: 'Numbered step marker' },
+  { tool: 'blur', label: 'Blur', title: 'Blur a region' },
+  { tool: 'pixelate', label: 'Pixelate', title: 'Pixelate a region' },
+]
+
+const SIZES: { size: AnnotationSize; label: string }[] = [
+  { size: 'small', label: 'S' },
+  { size: 'medium', label: 'M' },
+  { size: 'large', label: 'L' },
+]
+
+// Screen pixels the pointer may miss an annotation by and still select it
+const HIT_TOLERANCE = 6
+
+interface DragState {
+  type: 'draw' | 'move'
+  index?: number        // annotation being moved
+  startX: number        // item units
+  startY: number
+  start?: ImageAnnotation
+}
+
+interface TextEditState {
+  index: number | null  // null for a new label
+  x: number
+  y: number
+  value: string
+}
+
+/**
+ * HTML-based annotation editor over an image item. Annotations are drawn as an SVG in
+ * item units; the pending list is only saved to the item when applied.
+ */
+export default function ImageAnnotationOverlay({
+  item,
+  stageScale,
+  stagePos,
+  onApply,
+  onCancel,
+}: ImageAnnotationOverlayProps) {
+  const [annotations, setAnnotations] = useState<ImageAnnotation[]>(item.annotations ?? [])
+  const [draft, setDraft] = useState<ImageAnnotation | null>(null)
+  const [tool, setTool] = useState<AnnotationTool>('arrow')
+  const [color, setColor] = useState(ANNOTATION_COLORS[0])
+  const [size, setSize] = useState<AnnotationSize>('medium')
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+  const [textEdit, setTextEdit] = useState<TextEditState | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+
+  const scaleX = item.scaleX ?? 1
+  const scaleY = item.scaleY ?? 1
+  // Screen pixels per item unit
+  const unitScaleX = scaleX * stageScale
+  const unitScaleY = scaleY * stageScale
+  const screenLeft = item.x * stageScale + stagePos.x
+  const screenTop = item.y * stageScale + stagePos.y
+  const screenW = item.width * unitScaleX
+  const screenH = item.height * unitScaleY
+  const sizes = getAnnotationSizes(item, size)
+  const stepNumbers = getStepNumbers(annotations)
+
+  // Keep refs for the window listeners
+  const annotationsRef = useRef(annotations)
+  annotationsRef.current = annotations
+  const draftRef = useRef(draft)
+  draftRef.current = draft
+  const textEditRef = useRef(textEdit)
+  textEditRef.current = textEdit
+
+  // Pointer position in item units; the SVG's viewBox is the item's own size
+  const toItemPoint = (clientX: number, clientY: number) => {
+    const svg = svgRef.current
+    const matrix = svg?.getScreenCTM()
+    if (!svg || !matrix) return { x: 0, y: 0 }
+    const point = svg.createSVGPoint()
+    point.x = clientX
+    point.y = clientY
+    const local = point.matrixTransform(matrix.inverse())
+    return { x: local.x, y: local.y }
+  }
+  const toItemPointRef = useRef(toItemPoint)
+  toItemPointRef.current = toItemPoint
+
+  useEffect(() => {
+    const handleMouseMove = (e: MouseEvent) => {
+      const drag = dragRef.current
+      if (!drag) return
+      e.preventDefault()
+      const { x, y } = toItemPointRef.current(e.clientX, e.clientY)
+      if (drag.type === 'move' && drag.start && drag.index !== undefined) {
+        const moved = moveAnnotation(drag.start, x - drag.startX, y - drag.startY)
+        setAnnotations(annotationsRef.current.map((a, i) => (i === drag.index ? moved : a)))
+        return
+      }
+      const current = draftRef.current
+      if (!current) return
+      switch (current.type) {
+        case 'arrow':
+          setDraft({ ...current, x2: x, y2: y })
+          break
+        case 'pen':
+          setDraft({ ...current, points: [...current.points, x, y] })
+          break
+        case 'rect':
+        case 'ellipse':
+        case 'redact':
+          setDraft({ ...current, width: x - drag.startX, height: y - drag.startY })
+          break
+      }
+    }
+    const handleMouseUp = () => {
+      const drag = dragRef.current
+      dragRef.current = null
+      const current = draftRef.current
+      if (!drag || drag.type !== 'draw' || !current) return
+      setDraft(null)
+      // Ignore clicks that didn't draw anything visible
+      const minSize = HIT_TOLERANCE / Math.max(unitScaleX, unitScaleY)
+      let finished: ImageAnnotation | null = null
+      if (current.type === 'arrow') {
+        if (Math.hypot(current.x2 - current.x1, current.y2 - current.y1) >= minSize) finished = current
+      } else if (current.type === 'pen') {
+        if (current.points.length >= 4) finished = current
+      } else if (current.type === 'rect' || current.type === 'ellipse' || current.type === 'redact') {
+        const box = normalizeBox(current)
+        if (box.width >= minSize && box.height >= minSize) finished = { ...current, ...box }
+      }
+      if (finished) {
+        setAnnotations([...annotationsRef.current, finished])
+      }
+    }
+    window.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('mouseup', handleMouseUp)
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('mouseup', handleMouseUp)
+    }
+  }, [unitScaleX, unitScaleY])
+
+  // Enter to apply, Escape to cancel, Delete to remove the selected annotation
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        document.activeElement?.tagName === 'INPUT' ||
+        document.activeElement?.tagName === 'TEXTAREA'
+      ) return
+      if (e.key === 'Enter') {
+        e.preventDefault()
+        onApply(annotations)
+      } else if (e.key === 'Escape') {
+        e.preventDefault()
+        onCancel()
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIndex !== null) {
+        e.preventDefault()
+        setAnnotations(annotations.filter((_, i) => i !== selectedIndex))
+        setSelectedIndex(null)
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [annotations, selectedIndex, onApply, onCancel])
+
+  const findAnnotationAt = (x: number, y: number): number | null => {
+    const tolerance = HIT_TOLERANCE / Math.min(unitScaleX, unitScaleY)
+    // Topmost first
+    for (let i = annotations.length - 1; i >= 0; i--) {
+      if (hitTestAnnotation(annotations[i], x, y, tolerance)) return i
+    }
+    return null
+  }
+
+  // Called from Enter, blur and clicks elsewhere; the ref keeps it from committing twice
+  const commitText = () => {
+    const edit = textEditRef.current
+    if (!edit) return
+    textEditRef.current = null
+    const text = edit.value.trim()
+    if (edit.index !== null) {
+      const index = edit.index
+      setAnnotations(text
+        ? annotations.map((a, i) => (i === index && a.type === 'text' ? { ...a, text } : a))
+        : annotations.filter((_, i) => i !== index))
+    } else if (text) {
+      setAnnotations([...annotations, { type: 'text', x: edit.x, y: edit.y, text, color, fontSize: sizes.fontSize }])
+    }
+    setTextEdit(null)
+  }
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return
+    e.preventDefault()
+    e.stopPropagation()
+    if (textEdit) {
+      commitText()
+      return
+    }
+    const { x, y } = toItemPoint(e.clientX, e.clientY)
+
+    switch (tool) {
+      case 'select': {
+        const index = findAnnotationAt(x, y)
+        setSelectedIndex(index)
+        if (index !== null) {
+          dragRef.current = { type: 'move', index, startX: x, startY: y, start: annotations[index] }
+        }
+        break
+      }
+      case 'text':
+        setTextEdit({ index: null, x, y, value: '' })
+        break
+      case 'step':
+        setAnnotations([...annotations, { type: 'step', x, y, color, radius: sizes.radius }])
+        break
+      case 'arrow':
+        dragRef.current = { type: 'draw', startX: x, startY: y }
+        setDraft({ type: 'arrow', x1: x, y1: y, x2: x, y2: y, color, strokeWidth: sizes.strokeWidth })
+        break
+      case 'pen':
+        dragRef.current = { type: 'draw', startX: x, startY: y }
+        setDraft({ type: 'pen', points: [x, y], color, strokeWidth: sizes.strokeWidth })
+        break
+      case 'rect':
+      case 'ellipse':
+        dragRef.current = { type: 'draw', startX: x, startY: y }
+        setDraft({ type: tool, x, y, width: 0, height: 0, color, strokeWidth: sizes.strokeWidth })
+        break
+      case 'blur':
+      case 'pixelate':
+        dragRef.current = { type: 'draw', startX: x, startY: y }
+        setDraft({ type: 'redact', x, y, width: 0, height: 0, style: tool })
+        break
+    }
+  }
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (tool !== 'select') return
+    const { x, y } = toItemPoint(e.clientX, e.clientY)
+    const index = findAnnotationAt(x, y)
+    const annotation = index !== null ? annotations[index] : undefined
+    if (annotation?.type === 'text') {
+      setTextEdit({ index, x: annotation.x, y: annotation.y, value: annotation.text })
+    }
+  }
+
+  const selectTool = (next: AnnotationTool) => {
+    setTool(next)
+    if (next !== 'select') setSelectedIndex(null)
+  }
+
+  // Recolour the selected annotation along with the current colour
+  const selectColor = (next: string) => {
+    setColor(next)
+    const selected = selectedIndex !== null ? annotations[selectedIndex] : undefined
+    if (selected && selected.type !== 'redact') {
+      setAnnotations(annotations.map((a, i) => (i === selectedIndex ? { ...selected, color: next } : a)))
+    }
+  }
+
+  const renderAnnotation = (annotation: ImageAnnotation, key: string | number, stepNumber?: number) => {
+    switch (annotation.type) {
+      case 'arrow': {
+        const head = getArrowHead(annotation)
+        return (
+          <g key={key}>
+            <line
+              x1={annotation.x1}
+              y1={annotation.y1}
+              x2={head.baseX}
+              y2={head.baseY}
+              stroke={annotation.color}
+              strokeWidth={annotation.strokeWidth}
+              strokeLinecap="round"
+            />
+            <polygon points={head.points.join(' ')} fill={annotation.color} />
+          </g>
+        )
+      }
+      case 'rect': {
+        const box = normalizeBox(annotation)
+        return <rect key={key} {...box} fill="none" stroke={annotation.color} strokeWidth={annotation.strokeWidth} />
+      }
+      case 'ellipse': {
+        const box = normalizeBox(annotation)
+        return (
+          <ellipse
+            key={key}
+            cx={box.x + box.width / 2}
+            cy={box.y + box.height / 2}
+            rx={box.width / 2}
+            ry={box.height / 2}
+            fill="none"
+            stroke={annotation.color}
+            strokeWidth={annotation.strokeWidth}
+          />
+        )
+      }
+      case 'pen':
+        return (
+          <polyline
+            key={key}
+            points={annotation.points.join(' ')}
+            fill="none"
+            stroke={annotation.color}
+            strokeWidth={annotation.strokeWidth}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )
+      case 'text':
+        return (
+          <text
+            key={key}
+            fontFamily="sans-serif"
+            fontSize={annotation.fontSize}
+            fontWeight="bold"
+            fill={annotation.color}
+            stroke="white"
+            strokeWidth={annotation.fontSize / 8}
+            paintOrder="stroke"
+          >
+            {annotation.text.split('\n').map((line, i) => (
+              <tspan key={i} x={annotation.x} y={annotation.y + annotation.fontSize + i * annotation.fontSize * 1.25}>
+                {line}
+              </tspan>
+            ))}
+          </text>
+        )
+      case 'step':
+        return (
+          <g key={key}>
+            <circle
+              cx={annotation.x}
+              cy={annotation.y}
+              r={annotation.radius}
+              fill={annotation.color}
+              stroke="white"
+              strokeWidth={annotation.radius * 0.12}
+            />
+            <text
+              x={annotation.x}
+              y={annotation.y + annotation.radius * 0.42}
+              fontFamily="sans-serif"
+              fontSize={annotation.radius * 1.2}
+              fontWeight="bold"
+              textAnchor="middle"
+              fill="white"
+            >
+              {stepNumber}
+            </text>
+          </g>
+        )
+      case 'redact': {
+        // The blur itself is the backdrop filter below; this is just the outline
+        const box = normalizeBox(annotation)
+        return (
+          <rect
+            key={key}
+            {...box}
+            fill="none"
+            stroke="rgba(255, 255, 255, 0.8)"
+            strokeWidth={1}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        )
+      }
+    }
+  }
+
+  // Redaction previews blur whatever the canvas shows beneath them
+  const renderRedactionPreview = (annotation: ImageAnnotation, key: string | number) => {
+    if (annotation.type !== 'redact') return null
+    const box = normalizeBox(annotation)
+    const minSide = Math.min(box.width * unitScaleX, box.height * unitScaleY)
+    const blockSize = Math.max(6, Math.round(minSide / 8))
+    return (
+      <div
+        key={key}
+        style={{
+          position: 'absolute',
+          left: box.x * unitScaleX,
+          top: box.y * unitScaleY,
+          width: box.width * unitScaleX,
+          height: box.height * unitScaleY,
+          backdropFilter: `blur(${Math.max(4, minSide / (annotation.style === 'blur' ? 6 : 12))}px)`,
+          // A grid hints at the blocks a pixelated export will have
+          backgroundImage: annotation.style === 'pixelate'
+            ? `linear-gradient(rgba(0, 0, 0, 0.15) 1px, transparent 1px), linear-gradient(90deg, rgba(0, 0, 0, 0.15) 1px, transparent 1px)`
+            : undefined,
+          backgroundSize: annotation.style === 'pixelate' ? `${blockSize}px ${blockSize}px` : undefined,
+          pointerEvents: 'none',
+        }}
+      />
+    )
+  }
+
+  const selected = selectedIndex !== null ? annotations[selectedIndex] : undefined
+  const selectedBounds = (() => {
+    if (!selected) return null
+    switch (selected.type) {
+      case 'arrow':
+        return normalizeBox({ x: selected.x1, y: selected.y1, width: selected.x2 - selected.x1, height: selected.y2 - selected.y1 })
+      case 'pen': {
+        const xs = selected.points.filter((_, i) => i % 2 === 0)
+        const ys = selected.points.filter((_, i) => i % 2 === 1)
+        const x = Math.min(...xs)
+        const y = Math.min(...ys)
+        return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+      }
+      case 'text': {
+        const lines = selected.text.split('\n')
+        return {
+          x: selected.x,
+          y: selected.y,
+          width: Math.max(...lines.map((line) => line.length)) * selected.fontSize * 0.6,
+          height: lines.length * selected.fontSize * 1.25,
+        }
+      }
+      case 'step':
+        return { x: selected.x - selected.radius, y: selected.y - selected.radius, width: selected.radius * 2, height: selected.radius * 2 }
+      default:
+        return normalizeBox(selected)
+    }
+  })()
+
+  const panelButtonStyle = (active: boolean): React.CSSProperties => ({
+    backgroundColor: active ? '#4a9eff' : '#333',
+    color: 'white',
+    border: '1px solid #555',
+    borderRadius: 3,
+    padding: '0px 6px',
+    fontSize: 11,
+    cursor: 'pointer',
+    height: 22,
+    minWidth: 24,
+  })
+
+  // Style of the label being typed
+  const editingText = textEdit?.index != null ? annotations[textEdit.index] : undefined
+  const textColor = editingText?.type === 'text' ? editingText.color : color
+  const textFontSize = editingText?.type === 'text' ? editingText.fontSize : sizes.fontSize
+
+  const cursor = tool === 'select' ? 'default' : tool === 'text' ? 'text' : 'crosshair'
+
+  return (
+    <>
+      {/* Drawing surface, rotated with the item */}
+      <div
+        style={{
+          position: 'absolute',
+          left: screenLeft,
+          top: screenTop,
+          width: screenW,
+          height: screenH,
+          transform: item.rotation ? `rotate(${item.rotation}deg)` : undefined,
+          transformOrigin: '0 0',
+          outline: '2px dashed rgba(74, 158, 255, 0.9)',
+          pointerEvents: 'auto',
+          zIndex: 1000,
+          userSelect: 'none',
+          WebkitUserSelect: 'none',
+          cursor,
+        }}
+        onMouseDown={handleMouseDown}
+        onDoubleClick={handleDoubleClick}
+      >
+        {annotations.map((annotation, index) => renderRedactionPreview(annotation, index))}
+        {draft && renderRedactionPreview(draft, 'draft')}
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${item.width} ${item.height}`}
+          preserveAspectRatio="none"
+          style={{ position: 'absolute', left: 0, top: 0, width: '100%', height: '100%', overflow: 'hidden' }}
+        >
+          {annotations.map((annotation, index) =>
+            textEdit?.index === index ? null : renderAnnotation(annotation, index, stepNumbers.get(index))
+          )}
+          {draft && renderAnnotation(draft, 'draft')}
+          {selectedBounds && (
+            <rect
+              x={selectedBounds.x - HIT_TOLERANCE / unitScaleX}
+              y={selectedBounds.y - HIT_TOLERANCE / unitScaleY}
+              width={selectedBounds.width + (HIT_TOLERANCE * 2) / unitScaleX}
+              height={selectedBounds.height + (HIT_TOLERANCE * 2) / unitScaleY}
+              fill="none"
+              stroke="#4a9eff"
+              strokeWidth={1}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+
+        {/* Inline text editor: Enter commits, Shift+Enter adds a line */}
+        {textEdit && (
+          <textarea
+            autoFocus
+            value={textEdit.value}
+            onChange={(e) => setTextEdit({ ...textEdit, value: e.target.value })}
+            onBlur={commitText}
+            onMouseDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              e.stopPropagation()
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault()
+                commitText()
+              } else if (e.key === 'Escape') {
+                e.preventDefault()
+                textEditRef.current = null
+                setTextEdit(null)
+              }
+            }}
+            rows={Math.max(1, textEdit.value.split('\n').length)}
+            style={{
+              position: 'absolute',
+              left: textEdit.x * unitScaleX,
+              top: textEdit.y * unitScaleY,
+              minWidth: 80,
+              padding: 0,
+              border: '1px dashed #4a9eff',
+              outline: 'none',
+              resize: 'none',
+              overflow: 'hidden',
+              backgroundColor: 'rgba(255, 255, 255, 0.6)',
+              color: textColor,
+              fontFamily: 'sans-serif',
+              fontWeight: 'bold',
+              fontSize: textFontSize * unitScaleY,
+              lineHeight: 1.25,
+            }}
+          />
+        )}
+      </div>
+
+      {/* Control Panel */}
+      <div
+        style={{
+          position: 'absolute',
+          left: screenLeft + screenW / 2,
+          top: screenTop + screenH + 12,
+          transform: 'translateX(-50%)',
+          backgroundColor: 'rgba(0, 0, 0, 0.85)',
+          borderRadius: 6,
+          padding: '8px 12px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 6,
+          fontFamily: 'system-ui, sans-serif',
+          fontSize: 12,
+          color: 'white',
+          whiteSpace: 'nowrap',
+          pointerEvents: 'auto',
+          zIndex: 1000,
+        }}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        {/* Tools row */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          {TOOLS.map(({ tool: t, label, title }) => (
+            <button key={t} onClick={() => selectTool(t)} style={panelButtonStyle(tool === t)} title={title}>
+              {label}
+            </button>
+          ))}
+        </div>
+        {/* Style row */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          {ANNOTATION_COLORS.map((c) => (
+            <button
+              key={c}
+              onClick={() => selectColor(c)}
+              title={c}
+              style={{
+                width: 18,
+                height: 18,
+                padding: 0,
+                borderRadius: '50%',
+                backgroundColor: c,
+                border: color === c ? '2px solid #4a9eff' : '1px solid #777',
+                cursor: 'pointer',
+              }}
+            />
+          ))}
+          <span style={{ marginLeft: 8, marginRight: 2 }}>Size:</span>
+          {SIZES.map(({ size: s, label }) => (
+            <button key={s} onClick={() => setSize(s)} style={panelButtonStyle(size === s)}>
+              {label}
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              setAnnotations(annotations.slice(0, -1))
+              setSelectedIndex(null)
+            }}
+            disabled={annotations.length === 0}
+            style={{ ...panelButtonStyle(false), marginLeft: 8, opacity: annotations.length === 0 ? 0.5 : 1 }}
+            title="Remove the last annotation"
+          >
+            Undo
+          </button>
+          <button
+            onClick={() => {
+              setAnnotations([])
+              setSelectedIndex(null)
+            }}
+            disabled={annotations.length === 0}
+            style={{ ...panelButtonStyle(false), opacity: annotations.length === 0 ? 0.5 : 1 }}
+          >
+            Clear
+          </button>
+        </div>
+        {/* Instructions row */}
+        <div style={{ textAlign: 'center', opacity: 0.8 }}>
+          Press Enter to apply, Escape to cancel
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,109 @@
+import { useEffect } from 'react'
+import { FrameItem } from '../../../types'
+import { Z_PRESENTATION } from '../../../constants/canvas'
+
+interface PresentationOverlayProps {
+  frame: FrameItem
+  pageNumber: number
+  pageCount: number
+  stageScale: number
+  stagePos: { x: number; y: number }
+  onPrevious: () => void
+  onNext: () => void
+  onExit: () => void
+}
+
+// Height of the control bar under the frame; the canvas leaves room for it when fitting
+export const PRESENTATION_CONTROLS_HEIGHT = 40
+
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown', ' ']
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp']
+
+/**
+ * Darkens everything but the presented frame and blocks editing while presenting.
+ * Click or arrow keys step through the frames, Escape ends the presentation.
+ */
+export default function PresentationOverlay({
+  frame,
+  pageNumber,
+  pageCount,
+  stageScale,
+  stagePos,
+  onPrevious,
+  onNext,
+  onExit,
+}: PresentationOverlayProps) {
+  // Capture phase, and every key stops here, so canvas shortcuts (undo, delete, ...)
+  // can't change the scene while presenting
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.stopPropagation()
+      if (NEXT_KEYS.includes(e.key)) onNext()
+      else if (PREVIOUS_KEYS.includes(e.key)) onPrevious()
+      else if (e.key === 'Escape') onExit()
+      else return
+      e.preventDefault()
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [onNext, onPrevious, onExit])
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    border: 'none',
+    borderRadius: 4,
+    background: 'none',
+    color: '#ddd',
+    cursor: 'pointer',
+    fontSize: 16,
+  }
+
+  return (
+    <div
+      style={{ position: 'absolute', inset: 0, zIndex: Z_PRESENTATION, overflow: 'hidden' }}
+      onClick={onNext}
+      onContextMenu={(e) => { e.preventDefault(); onPrevious() }}
+      onWheel={(e) => e.stopPropagation()}
+    >
+      {/* The shadow covers everything outside the frame */}
+      <div
+        style={{
+          position: 'absolute',
+          left: frame.x * stageScale + stagePos.x,
+          top: frame.y * stageScale + stagePos.y,
+          width: frame.width * stageScale,
+          height: frame.height * stageScale,
+          boxShadow: '0 0 0 200vmax rgba(0, 0, 0, 0.92)',
+          pointerEvents: 'none',
+        }}
+      />
+      <div
+        style={{
+          position: 'absolute',
+          left: '50%',
+          bottom: 4,
+          height: PRESENTATION_CONTROLS_HEIGHT - 8,
+          transform: 'translateX(-50%)',
+          display: 'flex',
+          alignItems: 'center',
+          gap: 4,
+          padding: '0 6px',
+          background: '#3a3a3a',
+          border: '1px solid #555',
+          borderRadius: 4,
+          color: '#ddd',
+          fontSize: 12,
+          whiteSpace: 'nowrap',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button style={buttonStyle} onClick={onPrevious} disabled={pageNumber <= 1} title="Previous (Left arrow)">‹</button>
+        <span style={{ maxWidth: 300, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+          {pageNumber} / {pageCount} · {frame.name || 'Frame'}
+        </span>
+        <button style={buttonStyle} onClick={onNext} disabled={pageNumber >= pageCount} title="Next (Right arrow)">›</button>
+        <button style={{ ...buttonStyle, fontSize: 12 }} onClick={onExit} title="End presentation (Esc)">End</button>
+      </div>
+    </div>
+  )
+}
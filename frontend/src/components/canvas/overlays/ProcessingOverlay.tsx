@@ -6,10 +6,13 @@ interface ProcessingOverlayProps {
   stageScale: number
   stagePos: { x: number; y: number }
   message?: string
+  progress?: number | null  // 0..1; shows a progress bar when known
+  onCancel?: () => void
 }
 
 /**
- * Semi-transparent overlay with spinner shown during async processing (e.g., video crop).
+ * Semi-transparent overlay with spinner shown during async processing (e.g., video crop),
+ * plus a progress bar and cancel button for server-side jobs that report them.
  */
 export default function ProcessingOverlay({
   x,
@@ -19,6 +22,8 @@ export default function ProcessingOverlay({
   stageScale,
   stagePos,
   message = 'Processing video...',
+  progress,
+  onCancel,
 }: ProcessingOverlayProps) {
   const displayWidth = width * stageScale
   const displayHeight = height * stageScale
@@ -62,7 +67,47 @@ export default function ProcessingOverlay({
         }}
       >
         {message}
+        {progress != null && ` ${Math.round(progress * 100)}%`}
       </div>
+      {progress != null && (
+        <div
+          style={{
+            marginTop: 8,
+            width: Math.min(160, displayWidth * 0.7),
+            height: 4,
+            backgroundColor: 'rgba(255, 255, 255, 0.3)',
+            borderRadius: 2,
+            overflow: 'hidden',
+          }}
+        >
+          <div
+            style={{
+              width: `${progress * 100}%`,
+              height: '100%',
+              backgroundColor: 'white',
+              transition: 'width 0.3s ease',
+            }}
+          />
+        </div>
+      )}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          style={{
+            marginTop: 10,
+            padding: '2px 10px',
+            backgroundColor: 'transparent',
+            border: '1px solid rgba(255, 255, 255, 0.6)',
+            borderRadius: 3,
+            color: 'white',
+            cursor: 'pointer',
+            fontSize: 12,
+            pointerEvents: 'auto',
+          }}
+        >
+          Cancel
+        </button>
+      )}
       <style>
         {`
           @keyframes spin {
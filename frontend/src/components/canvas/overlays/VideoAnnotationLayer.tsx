@@ -0,0 +1,199 @@
+import { useEffect, useRef } from 'react'
+import { CropRect, VideoCaption, VideoCallout } from '../../../types'
+import type { AnnotationSelection } from './VideoAnnotationTimeline'
+
+const DEFAULT_CALLOUT_COLOR = '#ff3b30'
+const HANDLE_RADIUS = 5
+
+interface VideoAnnotationLayerProps {
+  captions: VideoCaption[]
+  callouts: VideoCallout[]
+  currentTime: number
+  cropRect: CropRect
+  sourceWidth: number
+  sourceHeight: number
+  screenScaleX: number  // screen pixels per source pixel
+  screenScaleY: number
+  selection: AnnotationSelection
+  onSelectionChange: (selection: AnnotationSelection) => void
+  onCalloutsChange: (callouts: VideoCallout[]) => void
+}
+
+/**
+ * Preview of captions and callouts over the video in the crop overlay, sized like the
+ * burned-in result. The selected callout gets handles to drag its two points.
+ */
+export default function VideoAnnotationLayer({
+  captions,
+  callouts,
+  currentTime,
+  cropRect,
+  sourceWidth,
+  sourceHeight,
+  screenScaleX,
+  screenScaleY,
+  selection,
+  onSelectionChange,
+  onCalloutsChange,
+}: VideoAnnotationLayerProps) {
+  const dragRef = useRef<{ index: number; point: 1 | 2; startX: number; startY: number; start: VideoCallout } | null>(null)
+  const calloutsRef = useRef(callouts)
+  calloutsRef.current = callouts
+  const onCalloutsChangeRef = useRef(onCalloutsChange)
+  onCalloutsChangeRef.current = onCalloutsChange
+
+  useEffect(() => {
+    const handleMouseMove = (e: MouseEvent) => {
+      const drag = dragRef.current
+      if (!drag) return
+      e.preventDefault()
+      const x = Math.max(0, Math.min(sourceWidth, drag.start[`x${drag.point}`] + (e.clientX - drag.startX) / screenScaleX))
+      const y = Math.max(0, Math.min(sourceHeight, drag.start[`y${drag.point}`] + (e.clientY - drag.startY) / screenScaleY))
+      onCalloutsChangeRef.current(calloutsRef.current.map((c, i) =>
+        i === drag.index ? { ...c, [`x${drag.point}`]: x, [`y${drag.point}`]: y } : c
+      ))
+    }
+    const handleMouseUp = () => {
+      dragRef.current = null
+    }
+    window.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('mouseup', handleMouseUp)
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('mouseup', handleMouseUp)
+    }
+  }, [sourceWidth, sourceHeight, screenScaleX, screenScaleY])
+
+  const isVisible = (item: { start: number; end: number }) => currentTime >= item.start && currentTime < item.end
+  const isSelected = (kind: 'caption' | 'callout', index: number) => selection?.kind === kind && selection.index === index
+
+  // Same proportions as the server-side burn-in
+  const strokeWidth = Math.max(3, Math.round(Math.min(sourceWidth, sourceHeight) * 0.006)) * Math.min(screenScaleX, screenScaleY)
+  const fontSize = Math.max(14, Math.round(cropRect.height * 0.06)) * screenScaleY
+  const captionMargin = Math.round(cropRect.height * 0.05) * screenScaleY
+
+  const renderCallout = (callout: VideoCallout, index: number) => {
+    const color = callout.color || DEFAULT_CALLOUT_COLOR
+    const x1 = callout.x1 * screenScaleX
+    const y1 = callout.y1 * screenScaleY
+    const x2 = callout.x2 * screenScaleX
+    const y2 = callout.y2 * screenScaleY
+    const select = (e: React.MouseEvent) => {
+      e.stopPropagation()
+      onSelectionChange({ kind: 'callout', index })
+    }
+    if (callout.shape === 'box') {
+      return (
+        <rect
+          key={index}
+          x={Math.min(x1, x2)}
+          y={Math.min(y1, y2)}
+          width={Math.abs(x2 - x1)}
+          height={Math.abs(y2 - y1)}
+          fill="none"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+          onMouseDown={select}
+        />
+      )
+    }
+    const angle = Math.atan2(y2 - y1, x2 - x1)
+    const headLength = strokeWidth * 4
+    const baseX = x2 - headLength * Math.cos(angle)
+    const baseY = y2 - headLength * Math.sin(angle)
+    const spreadX = headLength * 0.6 * Math.sin(angle)
+    const spreadY = headLength * 0.6 * Math.cos(angle)
+    return (
+      <g key={index} style={{ pointerEvents: 'visiblePainted', cursor: 'pointer' }} onMouseDown={select}>
+        <line x1={x1} y1={y1} x2={baseX} y2={baseY} stroke={color} strokeWidth={strokeWidth} strokeLinecap="round" />
+        <polygon
+          points={`${x2},${y2} ${baseX + spreadX},${baseY - spreadY} ${baseX - spreadX},${baseY + spreadY}`}
+          fill={color}
+        />
+      </g>
+    )
+  }
+
+  const selectedCallout = selection?.kind === 'callout' ? callouts[selection.index] : undefined
+
+  return (
+    <>
+      <svg
+        style={{ position: 'absolute', left: 0, top: 0, width: '100%', height: '100%', pointerEvents: 'none', overflow: 'visible' }}
+      >
+        {callouts.map((callout, index) =>
+          isVisible(callout) || isSelected('callout', index) ? renderCallout(callout, index) : null
+        )}
+      </svg>
+
+      {/* Captions sit inside the crop region, like the burned-in output */}
+      {(['top', 'bottom'] as const).map((position) => {
+        const shown = captions
+          .map((caption, index) => ({ caption, index }))
+          .filter(({ caption, index }) =>
+            (caption.position ?? 'bottom') === position && (isVisible(caption) || isSelected('caption', index))
+          )
+        if (shown.length === 0) return null
+        return (
+          <div
+            key={position}
+            style={{
+              position: 'absolute',
+              left: cropRect.x * screenScaleX,
+              width: cropRect.width * screenScaleX,
+              ...(position === 'top'
+                ? { top: cropRect.y * screenScaleY + captionMargin }
+                : { top: (cropRect.y + cropRect.height) * screenScaleY - captionMargin, transform: 'translateY(-100%)' }),
+              textAlign: 'center',
+              pointerEvents: 'none',
+            }}
+          >
+            {shown.map(({ caption, index }) => (
+              <div
+                key={index}
+                style={{
+                  fontFamily: 'sans-serif',
+                  fontWeight: 'bold',
+                  fontSize,
+                  lineHeight: 1.25,
+                  color: 'white',
+                  whiteSpace: 'pre-wrap',
+                  WebkitTextStroke: `${Math.max(1, fontSize / 16)}px black`,
+                  paintOrder: 'stroke fill',
+                  opacity: isVisible(caption) ? 1 : 0.5,
+                }}
+              >
+                {caption.text}
+              </div>
+            ))}
+          </div>
+        )
+      })}
+
+      {/* Handles for the selected callout's two points */}
+      {selectedCallout && selection && ([1, 2] as const).map((point) => (
+        <div
+          key={point}
+          onMouseDown={(e) => {
+            e.preventDefault()
+            e.stopPropagation()
+            dragRef.current = { index: selection.index, point, startX: e.clientX, startY: e.clientY, start: selectedCallout }
+          }}
+          style={{
+            position: 'absolute',
+            left: selectedCallout[`x${point}`] * screenScaleX - HANDLE_RADIUS,
+            top: selectedCallout[`y${point}`] * screenScaleY - HANDLE_RADIUS,
+            width: HANDLE_RADIUS * 2,
+            height: HANDLE_RADIUS * 2,
+            borderRadius: '50%',
+            backgroundColor: 'white',
+            border: '1px solid #333',
+            cursor: 'crosshair',
+          }}
+          title={selectedCallout.shape === 'arrow' ? (point === 1 ? 'Arrow tail' : 'Arrow tip') : 'Box corner'}
+        />
+      ))}
+    </>
+  )
+}
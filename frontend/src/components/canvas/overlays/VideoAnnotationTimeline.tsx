@@ -0,0 +1,320 @@
+import { useRef } from 'react'
+import { CropRect, VideoCaption, VideoCallout } from '../../../types'
+import { parseSubtitles, formatSrt, formatVtt } from '../../../utils/subtitles'
+import { downloadBlob } from '../../../utils/downloadItem'
+
+export type AnnotationSelection = { kind: 'caption' | 'callout'; index: number } | null
+
+// How long a newly added caption or callout stays on screen
+const DEFAULT_ANNOTATION_DURATION = 3
+
+const CALLOUT_COLORS = [
+  { value: '#ff3b30', label: 'Red' },
+  { value: '#ffcc00', label: 'Yellow' },
+  { value: '#34c759', label: 'Green' },
+  { value: '#4a9eff', label: 'Blue' },
+  { value: '#ffffff', label: 'White' },
+]
+
+interface VideoAnnotationTimelineProps {
+  captions: VideoCaption[]
+  callouts: VideoCallout[]
+  duration: number
+  currentTime: number
+  cropRect: CropRect
+  videoName: string
+  selection: AnnotationSelection
+  onSelectionChange: (selection: AnnotationSelection) => void
+  onCaptionsChange: (captions: VideoCaption[]) => void
+  onCalloutsChange: (callouts: VideoCallout[]) => void
+  onSeek: (time: number) => void
+}
+
+/**
+ * Caption and callout editor for the video crop overlay: a track showing when each one
+ * is on screen, plus controls to add, time, edit and remove them and to import or
+ * export captions as SRT/VTT. Times are on the original video's timeline.
+ */
+export default function VideoAnnotationTimeline({
+  captions,
+  callouts,
+  duration,
+  currentTime,
+  cropRect,
+  videoName,
+  selection,
+  onSelectionChange,
+  onCaptionsChange,
+  onCalloutsChange,
+  onSeek,
+}: VideoAnnotationTimelineProps) {
+  const trackRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const selectedCaption = selection?.kind === 'caption' ? captions[selection.index] : undefined
+  const selectedCallout = selection?.kind === 'callout' ? callouts[selection.index] : undefined
+  const selected = selectedCaption ?? selectedCallout
+
+  const newRange = () => ({
+    start: currentTime,
+    end: Math.min(duration || Infinity, currentTime + DEFAULT_ANNOTATION_DURATION),
+  })
+
+  const addCaption = () => {
+    onCaptionsChange([...captions, { ...newRange(), text: 'Caption' }])
+    onSelectionChange({ kind: 'caption', index: captions.length })
+  }
+
+  // New callouts start in the middle of the crop region, where they'll be seen
+  const addCallout = (shape: VideoCallout['shape']) => {
+    const { x, y, width, height } = cropRect
+    const callout: VideoCallout = shape === 'arrow'
+      ? { ...newRange(), shape, x1: x + width * 0.25, y1: y + height * 0.25, x2: x + width * 0.45, y2: y + height * 0.45 }
+      : { ...newRange(), shape, x1: x + width * 0.3, y1: y + height * 0.35, x2: x + width * 0.7, y2: y + height * 0.65 }
+    onCalloutsChange([...callouts, callout])
+    onSelectionChange({ kind: 'callout', index: callouts.length })
+  }
+
+  const updateCaption = (changes: Partial<VideoCaption>) => {
+    if (selection?.kind !== 'caption') return
+    onCaptionsChange(captions.map((c, i) => (i === selection.index ? { ...c, ...changes } : c)))
+  }
+
+  const updateCallout = (changes: Partial<VideoCallout>) => {
+    if (selection?.kind !== 'callout') return
+    onCalloutsChange(callouts.map((c, i) => (i === selection.index ? { ...c, ...changes } : c)))
+  }
+
+  // Set the selected item's start or end from the playhead, keeping start before end
+  const setSelectedBoundary = (boundary: 'start' | 'end') => {
+    if (!selected) return
+    const changes = boundary === 'start' ? { start: currentTime } : { end: currentTime }
+    const next = { ...selected, ...changes }
+    if (next.end <= next.start) return
+    if (selection?.kind === 'caption') updateCaption(changes)
+    else updateCallout(changes)
+  }
+
+  const deleteSelected = () => {
+    if (!selection) return
+    if (selection.kind === 'caption') {
+      onCaptionsChange(captions.filter((_, i) => i !== selection.index))
+    } else {
+      onCalloutsChange(callouts.filter((_, i) => i !== selection.index))
+    }
+    onSelectionChange(null)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    const imported = parseSubtitles(await file.text())
+    if (imported.length === 0) {
+      alert('No captions found in the file.')
+      return
+    }
+    onCaptionsChange([...captions, ...imported].sort((a, b) => a.start - b.start))
+    onSelectionChange(null)
+  }
+
+  const handleExport = (format: 'srt' | 'vtt') => {
+    const sorted = [...captions].sort((a, b) => a.start - b.start)
+    const text = format === 'srt' ? formatSrt(sorted) : formatVtt(sorted)
+    const mime = format === 'srt' ? 'application/x-subrip' : 'text/vtt'
+    downloadBlob(new Blob([text], { type: mime }), `${videoName || 'video'}.${format}`)
+  }
+
+  const handleTrackClick = (e: React.MouseEvent) => {
+    if (!trackRef.current || !duration) return
+    const rect = trackRef.current.getBoundingClientRect()
+    onSeek(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration)
+    onSelectionChange(null)
+  }
+
+  const buttonStyle = (enabled = true): React.CSSProperties => ({
+    backgroundColor: '#333',
+    color: enabled ? 'white' : '#666',
+    border: '1px solid #555',
+    borderRadius: 3,
+    padding: '2px 8px',
+    fontSize: 12,
+    cursor: enabled ? 'pointer' : 'default',
+  })
+
+  const selectStyle: React.CSSProperties = {
+    backgroundColor: '#333',
+    color: 'white',
+    border: '1px solid #555',
+    borderRadius: 3,
+    padding: '0px 6px',
+    fontSize: 12,
+    cursor: 'pointer',
+  }
+
+  const renderBar = (item: VideoCaption | VideoCallout, kind: 'caption' | 'callout', index: number, top: number) => {
+    const isSelected = selection?.kind === kind && selection.index === index
+    return (
+      <div
+        key={`${kind}-${index}`}
+        onClick={(e) => {
+          e.stopPropagation()
+          onSelectionChange(isSelected ? null : { kind, index })
+          onSeek(item.start)
+        }}
+        style={{
+          position: 'absolute',
+          left: `${(item.start / duration) * 100}%`,
+          width: `${(Math.min(item.end, duration) - item.start) / duration * 100}%`,
+          minWidth: 3,
+          top,
+          height: 7,
+          boxSizing: 'border-box',
+          backgroundColor: kind === 'caption' ? 'rgba(255, 204, 0, 0.7)' : 'rgba(255, 59, 48, 0.7)',
+          border: isSelected ? '1px solid white' : 'none',
+          borderRadius: 2,
+          cursor: 'pointer',
+        }}
+        title={'text' in item ? item.text : `${item.shape === 'arrow' ? 'Arrow' : 'Box'} callout`}
+      />
+    )
+  }
+
+  return (
+    <>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <span style={{ width: 60, opacity: 0.8 }}>Captions</span>
+        <div
+          ref={trackRef}
+          onClick={handleTrackClick}
+          style={{
+            position: 'relative',
+            flex: 1,
+            minWidth: 120,
+            height: 16,
+            backgroundColor: 'rgba(255,255,255,0.1)',
+            borderRadius: 2,
+            cursor: 'pointer',
+          }}
+        >
+          {duration > 0 && captions.map((c, i) => renderBar(c, 'caption', i, 0))}
+          {duration > 0 && callouts.map((c, i) => renderBar(c, 'callout', i, 9))}
+          {duration > 0 && (
+            <div
+              style={{
+                position: 'absolute',
+                left: `${(currentTime / duration) * 100}%`,
+                top: -2,
+                bottom: -2,
+                width: 2,
+                backgroundColor: 'white',
+                pointerEvents: 'none',
+              }}
+            />
+          )}
+        </div>
+        <button onClick={addCaption} disabled={!duration} style={buttonStyle(!!duration)} title="Add a caption at the current position">
+          + Text
+        </button>
+        <button onClick={() => addCallout('arrow')} disabled={!duration} style={buttonStyle(!!duration)} title="Add an arrow at the current position">
+          + Arrow
+        </button>
+        <button onClick={() => addCallout('box')} disabled={!duration} style={buttonStyle(!!duration)} title="Add a box at the current position">
+          + Box
+        </button>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        {selectedCaption && (
+          <>
+            <input
+              key={selection?.index}
+              type="text"
+              // Single-line input, so line breaks are shown and typed as \n
+              value={selectedCaption.text.replace(/\n/g, '\\n')}
+              onChange={(e) => updateCaption({ text: e.target.value.replace(/\\n/g, '\n') })}
+              // Keep Enter/Escape and Delete from reaching the crop mode and canvas shortcuts
+              onKeyDown={(e) => e.stopPropagation()}
+              onFocus={(e) => e.target.select()}
+              autoFocus
+              maxLength={500}
+              style={{
+                flex: 1,
+                minWidth: 140,
+                padding: '2px 4px',
+                border: '1px solid #555',
+                borderRadius: 3,
+                fontSize: 12,
+              }}
+              title="Caption text (type \n for a line break)"
+            />
+            <select
+              value={selectedCaption.position ?? 'bottom'}
+              onChange={(e) => updateCaption({ position: e.target.value === 'top' ? 'top' : undefined })}
+              style={selectStyle}
+            >
+              <option value="bottom">Bottom</option>
+              <option value="top">Top</option>
+            </select>
+          </>
+        )}
+        {selectedCallout && (
+          <select
+            value={selectedCallout.color ?? CALLOUT_COLORS[0].value}
+            onChange={(e) => updateCallout({ color: e.target.value === CALLOUT_COLORS[0].value ? undefined : e.target.value })}
+            style={selectStyle}
+          >
+            {CALLOUT_COLORS.map((c) => (
+              <option key={c.value} value={c.value}>{c.label}</option>
+            ))}
+          </select>
+        )}
+        {selected && (
+          <>
+            <button onClick={() => setSelectedBoundary('start')} style={buttonStyle()} title="Show from current position">
+              [
+            </button>
+            <button onClick={() => setSelectedBoundary('end')} style={buttonStyle()} title="Hide at current position">
+              ]
+            </button>
+            <span style={{ fontSize: 11, fontFamily: 'monospace' }}>
+              {selected.start.toFixed(1)}s - {selected.end.toFixed(1)}s
+            </span>
+            <button onClick={deleteSelected} style={buttonStyle()}>
+              Delete
+            </button>
+          </>
+        )}
+        {!selected && (
+          <span style={{ flex: 1, opacity: 0.6 }}>
+            Select a caption or callout to edit it; drag callout handles on the video
+          </span>
+        )}
+        <div style={{ width: 1, height: 16, backgroundColor: '#555' }} />
+        <button onClick={() => fileInputRef.current?.click()} style={buttonStyle()} title="Add captions from an .srt or .vtt file">
+          Import
+        </button>
+        <button
+          onClick={() => handleExport('srt')}
+          disabled={captions.length === 0}
+          style={buttonStyle(captions.length > 0)}
+        >
+          .srt
+        </button>
+        <button
+          onClick={() => handleExport('vtt')}
+          disabled={captions.length === 0}
+          style={buttonStyle(captions.length > 0)}
+        >
+          .vtt
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".srt,.vtt,text/vtt"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+      </div>
+    </>
+  )
+}
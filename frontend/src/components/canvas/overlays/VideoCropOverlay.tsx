@@ -1,5 +1,8 @@
 import { useState, useRef, useEffect, useCallback } from 'react'
-import { CropRect, VideoItem } from '../../../types'
+import { CropRect, VideoItem, VideoSegment, VideoCaption, VideoCallout } from '../../../types'
+import VideoSegmentTimeline from './VideoSegmentTimeline'
+import VideoAnnotationTimeline, { AnnotationSelection } from './VideoAnnotationTimeline'
+import VideoAnnotationLayer from './VideoAnnotationLayer'
 
 interface VideoCropOverlayProps {
   item: VideoItem
@@ -9,6 +12,9 @@ interface VideoCropOverlayProps {
   trim: boolean
   trimStart: number
   trimEnd: number
+  segments: VideoSegment[] | null
+  captions: VideoCaption[]
+  callouts: VideoCallout[]
   stageScale: number
   stagePos: { x: number; y: number }
   onCropChange: (crop: CropRect) => void
@@ -17,6 +23,9 @@ interface VideoCropOverlayProps {
   onTrimChange: (trim: boolean) => void
   onTrimStartChange: (start: number) => void
   onTrimEndChange: (end: number) => void
+  onSegmentsChange: (segments: VideoSegment[] | null) => void
+  onCaptionsChange: (captions: VideoCaption[]) => void
+  onCalloutsChange: (callouts: VideoCallout[]) => void
 }
 
 const SPEED_OPTIONS = [
@@ -83,6 +92,9 @@ export default function VideoCropOverlay({
   trim,
   trimStart,
   trimEnd,
+  segments,
+  captions,
+  callouts,
   stageScale,
   stagePos,
   onCropChange,
@@ -91,12 +103,16 @@ export default function VideoCropOverlay({
   onTrimChange,
   onTrimStartChange,
   onTrimEndChange,
+  onSegmentsChange,
+  onCaptionsChange,
+  onCalloutsChange,
 }: VideoCropOverlayProps) {
   const dragStateRef = useRef<DragState | null>(null)
   const [lockAspectRatio, setLockAspectRatio] = useState(false)
   const aspectRatioRef = useRef(cropRect.width / cropRect.height)
   const [showAspectMenu, setShowAspectMenu] = useState(false)
   const aspectMenuRef = useRef<HTMLDivElement>(null)
+  const [annotationSelection, setAnnotationSelection] = useState<AnnotationSelection>(null)
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -287,10 +303,15 @@ export default function VideoCropOverlay({
     }
   }
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const seekTo = (newTime: number) => {
     const video = videoRef.current
     const bgVideo = bgVideoRef.current
     if (!video) return
+    video.currentTime = newTime
+    if (bgVideo) bgVideo.currentTime = newTime
+  }
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newTime = parseFloat(e.target.value)
 
     // // Snap to trim points when within 1 second
@@ -303,8 +324,25 @@ export default function VideoCropOverlay({
     //   }
     // }
 
-    video.currentTime = newTime
-    if (bgVideo) bgVideo.currentTime = newTime
+    seekTo(newTime)
+  }
+
+  // Trim and the cut list are alternative ways to pick what to keep, so only one is active
+  const toggleTrim = () => {
+    if (segments) onSegmentsChange(null)
+    onTrimChange(!trim)
+  }
+
+  const toggleCut = () => {
+    if (segments) {
+      onSegmentsChange(null)
+      return
+    }
+    // Start the cut list from the current trim range, or the whole video
+    const start = trim ? trimStart : 0
+    const end = trim && trimEnd > 0 ? trimEnd : duration
+    onSegmentsChange([{ start, end }])
+    onTrimChange(false)
   }
 
   const formatTime = (seconds: number): string => {
@@ -796,11 +834,27 @@ export default function VideoCropOverlay({
         />
       ))}
 
+      {/* Caption and callout preview, above the crop region so callouts can be picked */}
+      <VideoAnnotationLayer
+        captions={captions}
+        callouts={callouts}
+        currentTime={currentTime}
+        cropRect={cropRect}
+        sourceWidth={origW}
+        sourceHeight={origH}
+        screenScaleX={displayScaleX * stageScale}
+        screenScaleY={displayScaleY * stageScale}
+        selection={annotationSelection}
+        onSelectionChange={setAnnotationSelection}
+        onCalloutsChange={onCalloutsChange}
+      />
+
       {/* Control Panel */}
       <div
         style={{
           position: 'absolute',
-          bottom: -100,
+          top: '100%',
+          marginTop: 10,
           left: '50%',
           transform: 'translateX(-50%)',
           backgroundColor: 'rgba(0, 0, 0, 0.85)',
@@ -1056,7 +1110,7 @@ export default function VideoCropOverlay({
           </button>
           <div style={{ width: 1, height: 16, backgroundColor: '#555' }} />
           <button
-            onClick={() => onTrimChange(!trim)}
+            onClick={toggleTrim}
             style={{
               backgroundColor: trim ? '#4a9eff' : '#333',
               color: 'white',
@@ -1070,6 +1124,22 @@ export default function VideoCropOverlay({
           >
             Trim
           </button>
+          <button
+            onClick={toggleCut}
+            disabled={!segments && !duration}
+            style={{
+              backgroundColor: segments ? '#4a9eff' : '#333',
+              color: 'white',
+              border: '1px solid #555',
+              borderRadius: 3,
+              padding: '2px 8px',
+              fontSize: 12,
+              cursor: 'pointer',
+            }}
+            title={segments ? 'Cut list enabled' : 'Cut the video into segments'}
+          >
+            Cut
+          </button>
           <label style={{ display: 'flex', alignItems: 'center', gap: 2, opacity: trim ? 1 : 0.5 }}>
             <span>Start:</span>
             <input
@@ -1285,6 +1355,32 @@ export default function VideoCropOverlay({
             {formatTime(currentTime)} / {formatTime(duration)}
           </span>
         </div>
+        {/* Cut list row */}
+        {segments && (
+          <VideoSegmentTimeline
+            segments={segments}
+            duration={duration}
+            currentTime={currentTime}
+            defaultSpeed={speed}
+            speedOptions={SPEED_OPTIONS}
+            onSegmentsChange={onSegmentsChange}
+            onSeek={seekTo}
+          />
+        )}
+        {/* Captions and callouts rows */}
+        <VideoAnnotationTimeline
+          captions={captions}
+          callouts={callouts}
+          duration={duration}
+          currentTime={currentTime}
+          cropRect={cropRect}
+          videoName={item.name || 'video'}
+          selection={annotationSelection}
+          onSelectionChange={setAnnotationSelection}
+          onCaptionsChange={onCaptionsChange}
+          onCalloutsChange={onCalloutsChange}
+          onSeek={seekTo}
+        />
         {/* Instructions row */}
         <div style={{ textAlign: 'center', opacity: 0.8 }}>
           Press Enter to apply, Escape to cancel
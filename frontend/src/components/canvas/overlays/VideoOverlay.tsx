@@ -11,6 +11,7 @@ interface VideoOverlayProps {
   isAnyDragActive: boolean
   onUpdateItem: (id: string, changes: Partial<VideoItem>) => void
   transform?: { x: number; y: number; width: number; height: number }
+  onTimeUpdate?: (time: number) => void  // playhead, for actions like frame capture
 }
 
 /**
@@ -25,6 +26,7 @@ export default function VideoOverlay({
   isAnyDragActive,
   onUpdateItem,
   transform,
+  onTimeUpdate,
 }: VideoOverlayProps) {
   const videoRef = useRef<HTMLVideoElement>(null)
   const [isPlaying, setIsPlaying] = useState(false)
@@ -47,6 +49,9 @@ export default function VideoOverlay({
 
   const playbackRate = item.playbackRate ?? 1
 
+  const onTimeUpdateRef = useRef(onTimeUpdate)
+  onTimeUpdateRef.current = onTimeUpdate
+
   // Sync video properties with item state
   useEffect(() => {
     const video = videoRef.current
@@ -62,7 +67,10 @@ export default function VideoOverlay({
     const video = videoRef.current
     if (!video) return
 
-    const handleTimeUpdate = () => setCurrentTime(video.currentTime)
+    const handleTimeUpdate = () => {
+      setCurrentTime(video.currentTime)
+      onTimeUpdateRef.current?.(video.currentTime)
+    }
     const handleDurationChange = () => setDuration(video.duration)
     const handlePlay = () => setIsPlaying(true)
     const handlePause = () => setIsPlaying(false)
@@ -180,6 +188,7 @@ export default function VideoOverlay({
       <video
         ref={videoRef}
         src={videoSrc}
+        data-video-id={item.id}
         style={videoStyle}
         muted={item.muted ?? true}
         loop={item.loop ?? false}
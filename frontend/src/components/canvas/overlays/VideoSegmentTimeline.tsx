@@ -0,0 +1,236 @@
+import { useState, useRef } from 'react'
+import { VideoSegment } from '../../../types'
+
+// Shortest piece a split may leave on either side of the playhead
+const MIN_SEGMENT_LENGTH = 0.1
+
+interface TimelineRange {
+  start: number
+  end: number
+  kept: boolean
+  index: number  // index into segments for kept ranges, -1 for cuts
+}
+
+interface VideoSegmentTimelineProps {
+  segments: VideoSegment[]
+  duration: number
+  currentTime: number
+  defaultSpeed: number
+  speedOptions: { value: number; label: string }[]
+  onSegmentsChange: (segments: VideoSegment[]) => void
+  onSeek: (time: number) => void
+}
+
+/**
+ * Lay kept segments and the cut gaps between them end to end over the whole video.
+ */
+function getTimelineRanges(segments: VideoSegment[], duration: number): TimelineRange[] {
+  const ranges: TimelineRange[] = []
+  let cursor = 0
+  segments.forEach((segment, index) => {
+    if (segment.start - cursor > 0.001) {
+      ranges.push({ start: cursor, end: segment.start, kept: false, index: -1 })
+    }
+    ranges.push({ start: segment.start, end: segment.end, kept: true, index })
+    cursor = segment.end
+  })
+  if (duration - cursor > 0.001) {
+    ranges.push({ start: cursor, end: duration, kept: false, index: -1 })
+  }
+  return ranges
+}
+
+/**
+ * Cut list editor for the video crop overlay: split kept segments at the playhead,
+ * delete or restore ranges, and give each segment its own speed.
+ */
+export default function VideoSegmentTimeline({
+  segments,
+  duration,
+  currentTime,
+  defaultSpeed,
+  speedOptions,
+  onSegmentsChange,
+  onSeek,
+}: VideoSegmentTimelineProps) {
+  const barRef = useRef<HTMLDivElement>(null)
+  // Ranges are identified by their start time, which stays stable across splits of other ranges
+  const [selectedStart, setSelectedStart] = useState<number | null>(null)
+
+  const ranges = getTimelineRanges(segments, duration)
+  const selected = ranges.find((r) => r.start === selectedStart) ?? null
+  const outputDuration = segments.reduce((sum, s) => sum + (s.end - s.start) / (s.speed ?? defaultSpeed), 0)
+
+  const splitIndex = segments.findIndex((s) =>
+    currentTime - s.start >= MIN_SEGMENT_LENGTH && s.end - currentTime >= MIN_SEGMENT_LENGTH
+  )
+
+  const splitAtPlayhead = () => {
+    if (splitIndex < 0) return
+    const segment = segments[splitIndex]
+    onSegmentsChange([
+      ...segments.slice(0, splitIndex),
+      { ...segment, end: currentTime },
+      { ...segment, start: currentTime },
+      ...segments.slice(splitIndex + 1),
+    ])
+  }
+
+  const toggleSelected = () => {
+    if (!selected) return
+    if (selected.kept) {
+      onSegmentsChange(segments.filter((_, i) => i !== selected.index))
+    } else {
+      const restored = [...segments, { start: selected.start, end: selected.end }]
+      onSegmentsChange(restored.sort((a, b) => a.start - b.start))
+    }
+  }
+
+  const setSelectedSpeed = (value: string) => {
+    if (!selected?.kept) return
+    const speed = value === '' ? undefined : parseFloat(value)
+    onSegmentsChange(segments.map((s, i) => (i === selected.index ? { start: s.start, end: s.end, speed } : s)))
+  }
+
+  // Move the selected segment's start or end to the playhead, without overlapping its neighbours
+  const setSelectedBoundary = (boundary: 'start' | 'end') => {
+    if (!selected?.kept) return
+    const i = selected.index
+    const segment = segments[i]
+    const next = boundary === 'start'
+      ? { ...segment, start: Math.max(currentTime, segments[i - 1]?.end ?? 0) }
+      : { ...segment, end: Math.min(currentTime, segments[i + 1]?.start ?? duration) }
+    if (next.end - next.start < MIN_SEGMENT_LENGTH) return
+    onSegmentsChange(segments.map((s, j) => (j === i ? next : s)))
+    setSelectedStart(next.start)
+  }
+
+  const handleBarClick = (e: React.MouseEvent) => {
+    if (!barRef.current || !duration) return
+    const rect = barRef.current.getBoundingClientRect()
+    const time = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration
+    const range = ranges.find((r) => time >= r.start && time <= r.end)
+    setSelectedStart(range && range.start !== selectedStart ? range.start : null)
+    onSeek(time)
+  }
+
+  const buttonStyle = (enabled: boolean): React.CSSProperties => ({
+    backgroundColor: '#333',
+    color: enabled ? 'white' : '#666',
+    border: '1px solid #555',
+    borderRadius: 3,
+    padding: '2px 8px',
+    fontSize: 12,
+    cursor: enabled ? 'pointer' : 'default',
+  })
+
+  const canDelete = !!selected && (!selected.kept || segments.length > 1)
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+      <div
+        ref={barRef}
+        onClick={handleBarClick}
+        style={{ position: 'relative', flex: 1, minWidth: 120, height: 16, cursor: 'pointer' }}
+      >
+        {duration > 0 && ranges.map((range) => (
+          <div
+            key={range.start}
+            style={{
+              position: 'absolute',
+              left: `${(range.start / duration) * 100}%`,
+              width: `${((range.end - range.start) / duration) * 100}%`,
+              top: 0,
+              bottom: 0,
+              boxSizing: 'border-box',
+              backgroundColor: range.kept ? 'rgba(74, 158, 255, 0.6)' : 'transparent',
+              backgroundImage: range.kept
+                ? undefined
+                : 'repeating-linear-gradient(45deg, rgba(255,255,255,0.15) 0 3px, transparent 3px 6px)',
+              border: range.start === selectedStart ? '2px solid white' : '1px solid rgba(0,0,0,0.6)',
+              fontSize: 9,
+              color: 'white',
+              overflow: 'hidden',
+              whiteSpace: 'nowrap',
+              textAlign: 'center',
+              lineHeight: '14px',
+            }}
+            title={`${range.kept ? 'Kept' : 'Cut'}: ${range.start.toFixed(1)}s - ${range.end.toFixed(1)}s`}
+          >
+            {range.kept && segments[range.index].speed !== undefined && `${segments[range.index].speed}x`}
+          </div>
+        ))}
+        {duration > 0 && (
+          <div
+            style={{
+              position: 'absolute',
+              left: `${(currentTime / duration) * 100}%`,
+              top: -2,
+              bottom: -2,
+              width: 2,
+              backgroundColor: 'white',
+              pointerEvents: 'none',
+            }}
+          />
+        )}
+      </div>
+      <button
+        onClick={splitAtPlayhead}
+        disabled={splitIndex < 0}
+        style={buttonStyle(splitIndex >= 0)}
+        title="Split the segment at the current position"
+      >
+        ✂
+      </button>
+      <button
+        onClick={() => setSelectedBoundary('start')}
+        disabled={!selected?.kept}
+        style={buttonStyle(!!selected?.kept)}
+        title="Set selected segment start from current position"
+      >
+        [
+      </button>
+      <button
+        onClick={() => setSelectedBoundary('end')}
+        disabled={!selected?.kept}
+        style={buttonStyle(!!selected?.kept)}
+        title="Set selected segment end from current position"
+      >
+        ]
+      </button>
+      <button
+        onClick={toggleSelected}
+        disabled={!canDelete}
+        style={buttonStyle(canDelete)}
+        title={selected && !selected.kept ? 'Keep this range again' : 'Cut the selected segment'}
+      >
+        {selected && !selected.kept ? 'Keep' : 'Delete'}
+      </button>
+      <select
+        value={selected?.kept ? String(segments[selected.index].speed ?? '') : ''}
+        onChange={(e) => setSelectedSpeed(e.target.value)}
+        disabled={!selected?.kept}
+        style={{
+          backgroundColor: '#333',
+          color: selected?.kept ? 'white' : '#666',
+          border: '1px solid #555',
+          borderRadius: 3,
+          padding: '0px 6px',
+          fontSize: 12,
+          cursor: selected?.kept ? 'pointer' : 'default',
+        }}
+        title="Speed of the selected segment"
+      >
+        <option value="">Default</option>
+        {speedOptions.map((opt) => (
+          <option key={opt.value} value={opt.value}>
+            {opt.label}
+          </option>
+        ))}
+      </select>
+      <span style={{ fontSize: 11, fontFamily: 'monospace', whiteSpace: 'nowrap' }} title="Length of the edited video">
+        → {outputDuration.toFixed(1)}s
+      </span>
+    </div>
+  )
+}
@@ -72,12 +72,29 @@ export const SPLAT_DEFAULT_HEIGHT = 500
 export const SPLAT_EXTENSIONS = ['splat', 'ksplat', 'ply'] as const
 export const SPLAT_EXTENSION_PATTERN = /\.(splat|ksplat|ply)$/i
 
+// --- Audio item dimensions ---
+
+export const AUDIO_HEADER_HEIGHT = 24
+export const AUDIO_DEFAULT_WIDTH = 480
+export const AUDIO_DEFAULT_HEIGHT = 120
+
+// Supported audio extensions
+export const AUDIO_EXTENSIONS = ['mp3', 'wav', 'ogg', 'm4a'] as const
+export const AUDIO_EXTENSION_PATTERN = /\.(mp3|wav|ogg|m4a)$/i
+
 // --- Embed video item dimensions ---
 
 export const EMBED_VIDEO_HEADER_HEIGHT = 24
 export const EMBED_VIDEO_DEFAULT_WIDTH = 560
 export const EMBED_VIDEO_DEFAULT_HEIGHT = 315
 
+// --- Frame item dimensions ---
+
+export const FRAME_TITLE_HEIGHT = 22
+export const FRAME_DEFAULT_WIDTH = 1280
+export const FRAME_DEFAULT_HEIGHT = 720
+export const FRAME_PADDING = 40  // around the items when framing a selection
+
 // --- Image item dimensions ---
 
 export const IMAGE_HEADER_HEIGHT = 24
@@ -97,6 +114,7 @@ export const ZOOM_MAX = 3
 // --- Z-index ---
 
 export const Z_IFRAME_OVERLAY = 10
+export const Z_PRESENTATION = 900
 export const Z_MENU = 1000
 
 // --- Selection colors ---
@@ -1,15 +1,47 @@
-import { createContext, useContext, useState, useCallback, ReactNode } from 'react'
+import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react'
+import { MediaJob, MediaJobType, waitForJob, cancelJob as cancelJobRequest, isJobFinished } from '../api/jobs'
+import { ACTIVE_WORKSPACE } from '../api/workspace'
+
+// Unfinished jobs, so their progress and results can be picked up again after a reload
+const JOBS_STORAGE_KEY = `gsworkspace-media-jobs-${ACTIVE_WORKSPACE}`
+
+export interface BackgroundJob {
+  id: string
+  type: MediaJobType
+  sceneId: string
+  itemId: string
+  label: string
+  progress: number | null
+}
 
 interface BackgroundOperationsContextType {
   activeCount: number
   startOperation: () => void
   endOperation: () => void
+  // Server-side media jobs (video edits, conversions) that are queued or running
+  jobs: BackgroundJob[]
+  trackJob: (job: MediaJob, label: string) => void
+  cancelJob: (jobId: string) => void
+  // Jobs that finished after a reload, waiting for the scene that owns them to apply the result
+  recoveredJobs: MediaJob[]
+  acknowledgeJob: (jobId: string) => void
 }
 
 const BackgroundOperationsContext = createContext<BackgroundOperationsContextType | null>(null)
 
+function loadStoredJobs(): BackgroundJob[] {
+  try {
+    const stored = localStorage.getItem(JOBS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
 export function BackgroundOperationsProvider({ children }: { children: ReactNode }) {
   const [activeCount, setActiveCount] = useState(0)
+  const [jobs, setJobs] = useState<BackgroundJob[]>(loadStoredJobs)
+  const [recoveredJobs, setRecoveredJobs] = useState<MediaJob[]>([])
 
   const startOperation = useCallback(() => {
     setActiveCount((c) => c + 1)
@@ -19,8 +51,55 @@ export function BackgroundOperationsProvider({ children }: { children: ReactNode
     setActiveCount((c) => Math.max(0, c - 1))
   }, [])
 
+  useEffect(() => {
+    try {
+      if (jobs.length > 0) {
+        localStorage.setItem(JOBS_STORAGE_KEY, JSON.stringify(jobs))
+      } else {
+        localStorage.removeItem(JOBS_STORAGE_KEY)
+      }
+    } catch { /* storage full or unavailable */ }
+  }, [jobs])
+
+  const trackJob = useCallback((job: MediaJob, label: string) => {
+    setJobs((prev) => {
+      const rest = prev.filter((j) => j.id !== job.id)
+      if (isJobFinished(job)) return rest
+      const tracked = { id: job.id, type: job.type, sceneId: job.sceneId, itemId: job.itemId, label, progress: job.progress }
+      return prev.length === rest.length ? [...prev, tracked] : prev.map((j) => (j.id === job.id ? tracked : j))
+    })
+  }, [])
+
+  const cancelJob = useCallback((jobId: string) => {
+    cancelJobRequest(jobId).catch((err) => console.error('Failed to cancel job:', err))
+  }, [])
+
+  const acknowledgeJob = useCallback((jobId: string) => {
+    setRecoveredJobs((prev) => prev.filter((j) => j.id !== jobId))
+  }, [])
+
+  // Resume polling jobs left over from before a reload; whoever submitted them is gone,
+  // so finished results are handed to recoveredJobs for the owning scene to apply
+  useEffect(() => {
+    let active = true
+    for (const stored of loadStoredJobs()) {
+      waitForJob(stored.id, (job) => { if (active) trackJob(job, stored.label) })
+        .then((job) => {
+          if (active) setRecoveredJobs((prev) => [...prev, job])
+        })
+        .catch((err) => {
+          if (!active) return
+          console.warn(`Background job ${stored.id} did not complete:`, err)
+          setJobs((prev) => prev.filter((j) => j.id !== stored.id))
+        })
+    }
+    return () => { active = false }
+  }, [trackJob])
+
   return (
-    <BackgroundOperationsContext.Provider value={{ activeCount, startOperation, endOperation }}>
+    <BackgroundOperationsContext.Provider
+      value={{ activeCount, startOperation, endOperation, jobs, trackJob, cancelJob, recoveredJobs, acknowledgeJob }}
+    >
       {children}
     </BackgroundOperationsContext.Provider>
   )
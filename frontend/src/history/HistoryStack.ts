@@ -65,6 +65,20 @@ export class HistoryStack {
     return record.apply(state)
   }
 
+  /**
+   * The record the next undo would reverse, or null if there is nothing to undo
+   */
+  peekUndo(): ChangeRecord | null {
+    return this.canUndo() ? this.records[this.currentIndex] : null
+  }
+
+  /**
+   * The record the next redo would apply, or null if there is nothing to redo
+   */
+  peekRedo(): ChangeRecord | null {
+    return this.canRedo() ? this.records[this.currentIndex + 1] : null
+  }
+
   /**
    * Check if undo is available
    */
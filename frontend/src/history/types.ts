@@ -1,4 +1,4 @@
-import { CanvasItem, CropRect } from '../types'
+import { CanvasItem, CropRect, ImageEdit, ImageEditFormat, ImageAnnotation } from '../types'
 
 /**
  * Type identifiers for different change records
@@ -86,4 +86,9 @@ export interface TransformData {
   rotation?: number
   cropRect?: CropRect | null
   cropSrc?: string | null
+  edits?: ImageEdit[] | null
+  editFormat?: ImageEditFormat | null
+  editQuality?: number | null
+  annotations?: ImageAnnotation[] | null
+  order?: number  // a frame's page position
 }
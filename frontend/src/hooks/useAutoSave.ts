@@ -1,9 +1,29 @@
-import { useState, useEffect, useRef } from 'react'
-import { saveScene, getSceneTimestamp, saveHistory } from '../api/scenes'
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { saveScene, saveHistory, SceneConflictError } from '../api/scenes'
 import type { SaveStatus } from '../components/StatusBar'
 import type { Scene } from '../types'
 import type { HistoryStack } from '../history'
 
+// How long a save rejected because a collaborator saved first waits for that save's
+// scene-saved event before it is treated as a real conflict
+const COLLABORATOR_SAVE_WAIT_MS = 5000
+
+// Resolves true once the scene's known server version is `modifiedAt`, i.e. that save
+// has been merged into the open copy, or false after `timeoutMs`
+async function waitForKnownModifiedAt(
+  knownRef: React.MutableRefObject<Map<string, string>>,
+  sceneId: string,
+  modifiedAt: string,
+  timeoutMs: number
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs
+  while (knownRef.current.get(sceneId) !== modifiedAt) {
+    if (Date.now() >= deadline) return false
+    await new Promise((resolve) => setTimeout(resolve, 100))
+  }
+  return true
+}
+
 interface UseAutoSaveDeps {
   activeScene: Scene | undefined
   activeSceneId: string | null
@@ -17,17 +37,34 @@ interface UseAutoSaveDeps {
   persistedSceneIdsRef: React.MutableRefObject<Set<string>>
   setIsSaving: (saving: boolean) => void
   setConflict: (remoteModifiedAt: string) => void
+  isSceneShared: (sceneId: string) => boolean
 }
 
 export function useAutoSave({
   activeScene, activeSceneId, isLoading, isOffline,
   historyMap, historyVersion,
   lastSavedRef, lastSavedHistoryRef, lastKnownServerModifiedAtRef, persistedSceneIdsRef,
-  setIsSaving, setConflict,
+  setIsSaving, setConflict, isSceneShared,
 }: UseAutoSaveDeps) {
   const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle')
   const saveTimeoutRef = useRef<number | null>(null)
   const historySaveTimeoutRef = useRef<number | null>(null)
+  // The scene as it is now, which may include collaborators' edits merged since a save started
+  const activeSceneRef = useRef(activeScene)
+  activeSceneRef.current = activeScene
+  // The debounced save waiting to run, and the save in progress, so they can be flushed
+  const pendingSaveRef = useRef<(() => Promise<void>) | null>(null)
+  const runningSaveRef = useRef<Promise<void> | null>(null)
+
+  const runSave = useCallback((save: () => Promise<void>) => {
+    pendingSaveRef.current = null
+    const running = save()
+    runningSaveRef.current = running
+    running.finally(() => {
+      if (runningSaveRef.current === running) runningSaveRef.current = null
+    })
+    return running
+  }, [])
 
   // Auto-save when active scene changes (debounced)
   useEffect(() => {
@@ -47,50 +84,73 @@ export function useAutoSave({
       clearTimeout(saveTimeoutRef.current)
     }
 
-    // Debounce save by 1 second
-    saveTimeoutRef.current = window.setTimeout(async () => {
-      // Check for remote changes before saving (unless offline)
-      if (!isOffline) {
-        const lastKnown = lastKnownServerModifiedAtRef.current.get(activeScene.id)
-        if (lastKnown) {
-          try {
-            const remoteTimestamp = await getSceneTimestamp(activeScene.id)
-            if (remoteTimestamp && remoteTimestamp.modifiedAt !== lastKnown) {
-              // Remote has changed - don't save, show conflict dialog
-              setConflict(remoteTimestamp.modifiedAt)
-              setSaveStatus('unsaved')
-              return
-            }
-          } catch (error) {
-            // If we can't check, proceed with save (fail-open for UX)
-            console.error('Failed to check remote timestamp before save:', error)
-          }
-        }
-      }
+    const save = async () => {
+      // The server rejects the save if the scene changed since the version we last saw
+      const baseModifiedAt = isOffline ? undefined : lastKnownServerModifiedAtRef.current.get(activeScene.id)
 
       setSaveStatus('saving')
       setIsSaving(true)
+      let savedScene = activeScene
       try {
-        await saveScene(activeScene)
-        lastSavedRef.current.set(activeScene.id, JSON.stringify(activeScene))
+        try {
+          await saveScene(savedScene, { baseModifiedAt })
+        } catch (error) {
+          if (!(error instanceof SceneConflictError) || !isSceneShared(savedScene.id)) throw error
+          // While co-editing, a collaborator may have saved first. Once its scene-saved event
+          // is in and their save has been merged into ours, our copy holds everything they
+          // saved and can be saved on top. If it doesn't come, it's a real conflict.
+          const caughtUp = await waitForKnownModifiedAt(
+            lastKnownServerModifiedAtRef, savedScene.id, error.serverModifiedAt, COLLABORATOR_SAVE_WAIT_MS
+          )
+          if (!caughtUp) throw error
+          if (activeSceneRef.current?.id === savedScene.id) savedScene = activeSceneRef.current
+          await saveScene(savedScene, { baseModifiedAt: error.serverModifiedAt })
+        }
+        lastSavedRef.current.set(savedScene.id, JSON.stringify(savedScene))
         // Update the known server timestamp to match what we just saved
-        lastKnownServerModifiedAtRef.current.set(activeScene.id, activeScene.modifiedAt)
-        persistedSceneIdsRef.current.add(activeScene.id) // Mark as persisted
+        lastKnownServerModifiedAtRef.current.set(savedScene.id, savedScene.modifiedAt)
+        persistedSceneIdsRef.current.add(savedScene.id) // Mark as persisted
         setSaveStatus('saved')
       } catch (error) {
+        if (error instanceof SceneConflictError) {
+          // Remote has changed - nothing was saved, show conflict dialog
+          setConflict(error.serverModifiedAt)
+          setSaveStatus('unsaved')
+          return
+        }
         console.error('Failed to auto-save scene:', error)
         setSaveStatus('error')
       } finally {
         setIsSaving(false)
       }
-    }, 1000)
+    }
+
+    // Debounce save by 1 second
+    pendingSaveRef.current = save
+    saveTimeoutRef.current = window.setTimeout(() => runSave(save), 1000)
 
     return () => {
+      pendingSaveRef.current = null
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current)
       }
     }
-  }, [activeScene, isLoading, isOffline, setConflict])
+  }, [activeScene, isLoading, isOffline, setConflict, isSceneShared, runSave])
+
+  /**
+   * Save the active scene's pending changes now instead of after the debounce, and wait
+   * for any save in progress. Resolves true if the scene has nothing left unsaved.
+   */
+  const flushSave = useCallback(async (): Promise<boolean> => {
+    await runningSaveRef.current
+    const pending = pendingSaveRef.current
+    if (pending) {
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current)
+      await runSave(pending)
+    }
+    const scene = activeSceneRef.current
+    return !scene || JSON.stringify(scene) === lastSavedRef.current.get(scene.id)
+  }, [runSave])
 
   // Auto-save history when it changes (debounced)
   useEffect(() => {
@@ -99,6 +159,11 @@ export function useAutoSave({
     // Only save history for scenes that have been persisted to the server
     if (!persistedSceneIdsRef.current.has(activeSceneId)) return
 
+    // history.json is per scene, and each co-editor's stack only holds their own changes:
+    // saving ours while the scene is shared would replace theirs, and whoever reloaded it
+    // would then undo someone else's work
+    if (isSceneShared(activeSceneId)) return
+
     const history = historyMap.get(activeSceneId)
     if (!history) return
 
@@ -129,7 +194,7 @@ export function useAutoSave({
         clearTimeout(historySaveTimeoutRef.current)
       }
     }
-  }, [historyMap, historyVersion, activeSceneId, isLoading])
+  }, [historyMap, historyVersion, activeSceneId, isLoading, isSceneShared])
 
-  return { saveStatus, setSaveStatus }
+  return { saveStatus, setSaveStatus, flushSave }
 }
@@ -1,6 +1,6 @@
 import { useEffect } from 'react'
 import Konva from 'konva'
-import { CanvasItem, ImageItem, VideoItem, TextFileItem, CodingRobotItem } from '../types'
+import { CanvasItem, ImageItem, VideoItem, VideoSegment, VideoCaption, VideoCallout, TextFileItem, CodingRobotItem } from '../types'
 import { TEXTFILE_HEADER_HEIGHT, CODING_ROBOT_HEADER_HEIGHT, CODING_ROBOT_ACTIVITY_PANEL_WIDTH, CODING_ROBOT_ACTIVITY_PANEL_GAP } from '../constants/canvas'
 
 interface UseKeyboardHandlersProps {
@@ -28,7 +28,10 @@ interface UseKeyboardHandlersProps {
     removeAudio: boolean,
     trim: boolean,
     trimStart: number,
-    trimEnd: number
+    trimEnd: number,
+    segments: VideoSegment[] | null,
+    captions: VideoCaption[],
+    callouts: VideoCallout[]
   ) => void
 
   // Images
@@ -246,6 +249,9 @@ export function useCanvasKeyboardHandlers(props: UseKeyboardHandlersProps) {
           videoItem.trim ?? false,
           videoItem.trimStart ?? 0,
           videoItem.trimEnd ?? 0,
+          videoItem.segments ?? null,
+          videoItem.captions ?? [],
+          videoItem.callouts ?? [],
         )
       } else if (selectedItem.type === 'text') {
         e.preventDefault()
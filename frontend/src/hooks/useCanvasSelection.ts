@@ -134,6 +134,15 @@ export function useCanvasSelection({
         }
         const itemRight = item.x + w
         const itemBottom = item.y + h
+        // Frames only when fully enclosed, so marqueeing inside a frame picks its contents
+        if (item.type === 'frame') {
+          return (
+            item.x >= selectionRect.x &&
+            itemRight <= selectionRect.x + selectionRect.width &&
+            item.y >= selectionRect.y &&
+            itemBottom <= selectionRect.y + selectionRect.height
+          )
+        }
         return (
           item.x < selectionRect.x + selectionRect.width &&
           itemRight > selectionRect.x &&
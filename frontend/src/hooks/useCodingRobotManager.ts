@@ -2,6 +2,7 @@ import { useState, useCallback, useEffect } from 'react'
 import { v4 as uuidv4 } from 'uuid'
 import { CanvasItem, ChatMessage, ActivityMessage, Scene } from '../types'
 import { generateWithClaudeCode, pollClaudeCodeRequest, interruptClaudeCodeRequest, ContentItem } from '../api/llm'
+import { getAnnotationContent } from '../utils/imageAnnotations'
 import { saveActivitySteps, saveActiveStep, clearActiveStep, loadActivity, saveActiveRequestId, loadActiveRequestId, clearActiveRequestId, deleteActivity } from '../utils/activityStorage'
 import { playNotificationSound } from '../utils/sound'
 
@@ -286,11 +287,11 @@ export function useCodingRobotManager({
 
     // Gather selected items (excluding the robot itself) as context
     const selectedItems = items.filter((item) => selectedIds.includes(item.id) && item.id !== itemId)
-    const contentItems: ContentItem[] = selectedItems.map((item) => {
+    const contentItems: ContentItem[] = selectedItems.map((item): ContentItem => {
       if (item.type === 'text') {
         return { type: 'text' as const, text: item.text }
       } else if (item.type === 'image') {
-        return { type: 'image' as const, src: item.cropSrc || item.src, id: item.id, sceneId: activeSceneId!, useEdited: !!item.cropSrc }
+        return { type: 'image' as const, src: item.cropSrc || item.src, id: item.id, sceneId: activeSceneId!, useEdited: !!item.cropSrc, ...getAnnotationContent(item) }
       } else if (item.type === 'prompt' || item.type === 'image-gen-prompt' || item.type === 'html-gen-prompt' || item.type === 'coding-robot') {
         return { type: 'text' as const, text: `[${item.label}]: ${item.text}` }
       }
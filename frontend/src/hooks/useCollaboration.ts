@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import { CLIENT_ID } from '../api/events'
+import type { WorkspaceEvent } from '../api/events'
+import { sendSceneOps, sendPresence } from '../api/collab'
+import type { SceneOp, Presence } from '../api/collab'
+import type { ChangeRecord } from '../history'
+import { getCollaboratorName, setCollaboratorName, getCollaboratorColor } from '../utils/collaboratorIdentity'
+
+interface UseCollaborationProps {
+  sceneId: string | null
+  isOffline: boolean
+  selectedIds: string[]
+  onRemoteOps: (sceneId: string, ops: SceneOp[]) => void
+}
+
+interface TrackedPresence extends Presence {
+  sceneId: string
+  lastSeen: number
+}
+
+const OPS_FLUSH_MS = 50 // Batch edits made in quick succession into one request
+const PRESENCE_THROTTLE_MS = 100 // At most ~10 cursor updates per second
+const PRESENCE_HEARTBEAT_MS = 10000
+const PRESENCE_TIMEOUT_MS = 30000 // Forget collaborators we haven't heard from in this long
+
+/**
+ * Live co-editing over the workspace event stream: broadcasts this tab's change records
+ * and cursor, and tracks other people's presence. Feed every workspace event to
+ * `handleEvent`; remote edits are passed to `onRemoteOps` to be merged into the scene.
+ */
+export function useCollaboration({ sceneId, isOffline, selectedIds, onRemoteOps }: UseCollaborationProps) {
+  const [presences, setPresences] = useState<Map<string, TrackedPresence>>(new Map())
+  const [name, setName] = useState(getCollaboratorName)
+
+  const presencesRef = useRef(presences)
+  presencesRef.current = presences
+  const onRemoteOpsRef = useRef(onRemoteOps)
+  onRemoteOpsRef.current = onRemoteOps
+
+  // Latest values for the throttled presence sender
+  const sceneIdRef = useRef(sceneId)
+  sceneIdRef.current = sceneId
+  const selectedIdsRef = useRef(selectedIds)
+  selectedIdsRef.current = selectedIds
+  const nameRef = useRef(name)
+  nameRef.current = name
+  const isOfflineRef = useRef(isOffline)
+  isOfflineRef.current = isOffline
+  const cursorRef = useRef<{ x: number; y: number } | null>(null)
+
+  const pendingOpsRef = useRef<Map<string, SceneOp[]>>(new Map())
+  const flushTimerRef = useRef<number | null>(null)
+  const presenceTimerRef = useRef<number | null>(null)
+  const lastPresenceSentRef = useRef(0)
+
+  const sendPresenceNow = useCallback(() => {
+    const currentSceneId = sceneIdRef.current
+    if (!currentSceneId || isOfflineRef.current) return
+    lastPresenceSentRef.current = Date.now()
+    sendPresence(currentSceneId, {
+      name: nameRef.current,
+      color: getCollaboratorColor(CLIENT_ID),
+      cursor: cursorRef.current,
+      selectedIds: selectedIdsRef.current,
+    }).catch((error) => console.error('Failed to send presence:', error))
+  }, [])
+
+  const schedulePresence = useCallback(() => {
+    if (presenceTimerRef.current !== null) return
+    const wait = Math.max(0, lastPresenceSentRef.current + PRESENCE_THROTTLE_MS - Date.now())
+    presenceTimerRef.current = window.setTimeout(() => {
+      presenceTimerRef.current = null
+      sendPresenceNow()
+    }, wait)
+  }, [sendPresenceNow])
+
+  // Announce where we are whenever the scene, selection or name changes
+  const selectionKey = selectedIds.join(',')
+  useEffect(() => {
+    if (isOffline || !sceneId) return
+    schedulePresence()
+  }, [sceneId, selectionKey, name, isOffline, schedulePresence])
+
+  // Heartbeat so late joiners see us, and drop collaborators that went quiet
+  useEffect(() => {
+    if (isOffline) {
+      setPresences(new Map())
+      return
+    }
+    const interval = window.setInterval(() => {
+      sendPresenceNow()
+      const cutoff = Date.now() - PRESENCE_TIMEOUT_MS
+      setPresences((prev) => {
+        if (![...prev.values()].some((p) => p.lastSeen < cutoff)) return prev
+        return new Map([...prev].filter(([, p]) => p.lastSeen >= cutoff))
+      })
+    }, PRESENCE_HEARTBEAT_MS)
+    return () => clearInterval(interval)
+  }, [isOffline, sendPresenceNow])
+
+  useEffect(() => {
+    return () => {
+      if (flushTimerRef.current !== null) clearTimeout(flushTimerRef.current)
+      if (presenceTimerRef.current !== null) clearTimeout(presenceTimerRef.current)
+    }
+  }, [])
+
+  const flushOps = useCallback(() => {
+    flushTimerRef.current = null
+    const pending = pendingOpsRef.current
+    pendingOpsRef.current = new Map()
+    for (const [opsSceneId, ops] of pending) {
+      sendSceneOps(opsSceneId, ops).catch((error) => console.error('Failed to send scene operations:', error))
+    }
+  }, [])
+
+  /**
+   * Send a change record made in this tab to collaborators. `direction` is 'reverse'
+   * when the record is being undone.
+   */
+  const broadcastChange = useCallback((changeSceneId: string, record: ChangeRecord, direction: SceneOp['direction']) => {
+    // Nobody else is connected, or the change only affects our own selection
+    if (isOfflineRef.current || presencesRef.current.size === 0 || record.type === 'selection') return
+
+    const ops = pendingOpsRef.current.get(changeSceneId) ?? []
+    ops.push({ record: record.serialize(), direction })
+    pendingOpsRef.current.set(changeSceneId, ops)
+    if (flushTimerRef.current === null) {
+      flushTimerRef.current = window.setTimeout(flushOps, OPS_FLUSH_MS)
+    }
+  }, [flushOps])
+
+  /** Report this tab's cursor in canvas coordinates, or null when it leaves the canvas. */
+  const reportCursor = useCallback((position: { x: number; y: number } | null) => {
+    cursorRef.current = position
+    if (!isOfflineRef.current && sceneIdRef.current) schedulePresence()
+  }, [schedulePresence])
+
+  const handleEvent = useCallback((event: WorkspaceEvent) => {
+    switch (event.type) {
+      case 'scene-ops':
+        onRemoteOpsRef.current(event.sceneId, event.ops)
+        break
+      case 'presence': {
+        const isNew = !presencesRef.current.has(event.presence.clientId)
+        setPresences((prev) => {
+          const next = new Map(prev)
+          next.set(event.presence.clientId, { ...event.presence, sceneId: event.sceneId, lastSeen: Date.now() })
+          return next
+        })
+        // Introduce ourselves right away rather than at the next heartbeat
+        if (isNew) schedulePresence()
+        break
+      }
+      case 'presence-left':
+        setPresences((prev) => {
+          if (!prev.has(event.clientId)) return prev
+          const next = new Map(prev)
+          next.delete(event.clientId)
+          return next
+        })
+        break
+    }
+  }, [schedulePresence])
+
+  /** Whether another client is currently viewing the given scene. */
+  const isSceneShared = useCallback((sharedSceneId: string) => {
+    return [...presencesRef.current.values()].some((p) => p.sceneId === sharedSceneId)
+  }, [])
+
+  /** Whether the given client ID belongs to a connected collaborator. */
+  const isCollaborator = useCallback((clientId: string) => presencesRef.current.has(clientId), [])
+
+  const rename = useCallback((newName: string) => {
+    setCollaboratorName(newName)
+    setName(newName)
+  }, [])
+
+  // Collaborators in the active scene
+  const collaborators = useMemo(
+    () => [...presences.values()].filter((p) => p.sceneId === sceneId),
+    [presences, sceneId]
+  )
+
+  return {
+    name,
+    collaborators,
+    broadcastChange,
+    reportCursor,
+    handleEvent,
+    isSceneShared,
+    isCollaborator,
+    rename,
+  }
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
-import { CanvasItem, CropRect } from '../types'
-import { cropImage } from '../api/images'
+import { CanvasItem, CropRect, ImageItem } from '../types'
+import { cropImage, ImageEditOptions } from '../api/images'
+import { hasImageEdits, editedImageChanges } from '../utils/imageEdits'
 
 interface UseCropModeParams {
   items: CanvasItem[]
@@ -15,11 +16,13 @@ export interface CropMode {
   pendingCropRect: CropRect | null
   lockAspectRatio: boolean
   processingImageId: string | null
+  processingImageEdits: boolean  // the image is shown from the file being rendered
   setCroppingImageId: (id: string | null) => void
   setPendingCropRect: (rect: CropRect | null) => void
   setLockAspectRatio: (locked: boolean) => void
   applyCrop: () => void
   cancelCrop: () => void
+  applyImageEdits: (itemId: string, options: ImageEditOptions) => void
 }
 
 export function useCropMode({
@@ -33,6 +36,27 @@ export function useCropMode({
   const [pendingCropRect, setPendingCropRect] = useState<CropRect | null>(null)
   const [lockAspectRatio, setLockAspectRatio] = useState(false)
   const [processingImageId, setProcessingImageId] = useState<string | null>(null)
+  const [processingImageEdits, setProcessingImageEdits] = useState(false)
+
+  // Render an image's crop and edit stack on the server, then show the result. The
+  // item's height follows the rendered aspect ratio, since edits can rotate or resize it.
+  const renderEdits = (item: ImageItem, cropRect: CropRect | undefined, options: ImageEditOptions) => {
+    setProcessingImageId(item.id)
+    setProcessingImageEdits(true)
+    return cropImage(sceneId, item.id, cropRect, options)
+      .then((result) => {
+        onUpdateItem(item.id, {
+          ...editedImageChanges(item, result),
+          edits: options.edits?.length ? options.edits : undefined,
+          editFormat: options.format,
+          editQuality: options.quality,
+        })
+      })
+      .finally(() => {
+        setProcessingImageId(null)
+        setProcessingImageEdits(false)
+      })
+  }
 
   const applyCrop = () => {
     if (!croppingImageId || !pendingCropRect) {
@@ -74,6 +98,12 @@ export function useCropMode({
       Math.abs(pendingCropRect.width - natW) < 1 &&
       Math.abs(pendingCropRect.height - natH) < 1
 
+    // The crop is applied before the edit stack, so an edited image is re-rendered
+    const editOptions: ImageEditOptions | null = hasImageEdits(item)
+      // Undo can leave these as null, which the server rejects
+      ? { edits: item.edits ?? undefined, format: item.editFormat ?? undefined, quality: item.editQuality ?? undefined }
+      : null
+
     if (isFullImage) {
       // Remove crop - restore to full image
       const newWidth = natW * baseDisplayScaleX
@@ -81,15 +111,17 @@ export function useCropMode({
       const offsetX = item.x - (item.cropRect?.x ?? 0) * displayScaleX
       const offsetY = item.y - (item.cropRect?.y ?? 0) * displayScaleY
 
-      onUpdateItem(itemId, {
-        x: offsetX,
-        y: offsetY,
-        width: newWidth,
-        height: newHeight,
-        cropRect: undefined,
-        cropSrc: undefined,
-        cropSrcFileSize: undefined,
-      })
+      const uncropped = { x: offsetX, y: offsetY, width: newWidth, height: newHeight, cropRect: undefined }
+      if (editOptions) {
+        onUpdateItem(itemId, uncropped)
+        if (!isOffline) {
+          renderEdits({ ...item, ...uncropped }, undefined, editOptions).catch((err) => {
+            console.error('Failed to re-render image edits:', err)
+          })
+        }
+      } else {
+        onUpdateItem(itemId, { ...uncropped, cropSrc: undefined, cropSrcFileSize: undefined })
+      }
 
       setCroppingImageId(null)
       setPendingCropRect(null)
@@ -123,6 +155,13 @@ export function useCropMode({
       return
     }
 
+    if (editOptions) {
+      renderEdits({ ...item, width: newWidth, height: newHeight }, cropRect, editOptions).catch((err) => {
+        console.error('Failed to re-render image edits:', err)
+      })
+      return
+    }
+
     setProcessingImageId(itemId)
     cropImage(sceneId, itemId, cropRect)
       .then((result) => {
@@ -138,6 +177,37 @@ export function useCropMode({
       })
   }
 
+  const applyImageEdits = (itemId: string, options: ImageEditOptions) => {
+    const item = items.find((i) => i.id === itemId)
+    if (!item || item.type !== 'image') return
+
+    if (!options.edits?.length && options.format === undefined) {
+      // Back to a plain crop (or none), which Konva draws from the original
+      const img = loadedImages.get(item.src)
+      const sourceW = item.cropRect?.width ?? img?.naturalWidth
+      const sourceH = item.cropRect?.height ?? img?.naturalHeight
+      const changes: Partial<ImageItem> = { edits: undefined, editFormat: undefined, editQuality: undefined }
+      if (sourceW && sourceH) changes.height = item.width * (sourceH / sourceW)
+      if (!item.cropRect) {
+        changes.cropSrc = undefined
+        changes.cropSrcFileSize = undefined
+      }
+      onUpdateItem(itemId, changes)
+      if (item.cropRect && !isOffline) {
+        // Replace the edited file with the plain crop the LLM canvas uses
+        cropImage(sceneId, itemId, item.cropRect)
+          .then((result) => onUpdateItem(itemId, editedImageChanges(item, result)))
+          .catch((err) => console.error('Failed to re-render image crop:', err))
+      }
+      return
+    }
+
+    renderEdits(item, item.cropRect, options).catch((err) => {
+      console.error('Failed to edit image:', err)
+      alert((err as Error).message || 'Failed to edit image.')
+    })
+  }
+
   const cancelCrop = () => {
     setCroppingImageId(null)
     setPendingCropRect(null)
@@ -166,10 +236,12 @@ export function useCropMode({
     pendingCropRect,
     lockAspectRatio,
     processingImageId,
+    processingImageEdits,
     setCroppingImageId,
     setPendingCropRect,
     setLockAspectRatio,
     applyCrop,
     cancelCrop,
+    applyImageEdits,
   }
 }
@@ -8,6 +8,8 @@ export function useDialogManager() {
   const [settingsDialogOpen, setSettingsDialogOpen] = useState(false)
   const [newWorkspaceDialogOpen, setNewWorkspaceDialogOpen] = useState(false)
   const [switchWorkspaceDialogOpen, setSwitchWorkspaceDialogOpen] = useState(false)
+  const [snapshotsSceneId, setSnapshotsSceneId] = useState<string | null>(null)
+  const [searchDialogOpen, setSearchDialogOpen] = useState(false)
   const [offlineSplashOpen, setOfflineSplashOpen] = useState(() => isOfflineMode() && !isOfflineSplashDismissed())
   const [debugPanelOpen, setDebugPanelOpen] = useState(false)
   const [debugContent, setDebugContent] = useState('')
@@ -56,6 +58,8 @@ export function useDialogManager() {
     settingsDialogOpen, setSettingsDialogOpen,
     newWorkspaceDialogOpen, setNewWorkspaceDialogOpen,
     switchWorkspaceDialogOpen, setSwitchWorkspaceDialogOpen,
+    snapshotsSceneId, setSnapshotsSceneId,
+    searchDialogOpen, setSearchDialogOpen,
     offlineSplashOpen, setOfflineSplashOpen,
     debugPanelOpen, setDebugPanelOpen,
     debugContent, setDebugContent,
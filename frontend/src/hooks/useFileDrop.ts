@@ -1,10 +1,11 @@
 import { useCallback, useEffect, useRef } from 'react'
 import { v4 as uuidv4 } from 'uuid'
-import { uploadImage } from '../api/images'
+import { uploadImage, isConvertedImageFile } from '../api/images'
 import { uploadPdf, uploadPdfThumbnail } from '../api/pdfs'
 import { uploadTextFile } from '../api/textfiles'
 import { renderPdfPageToDataUrl } from '../utils/pdfThumbnail'
 import { isVideoFile } from '../api/videos'
+import { isAudioFile } from '../api/audio'
 import { isModel3DFile, uploadModel3D, getModel3DFormat } from '../api/models3d'
 import { isSplatFile, uploadSplat } from '../api/splats'
 import { PDF_MINIMIZED_HEIGHT, MODEL3D_DEFAULT_WIDTH, MODEL3D_DEFAULT_HEIGHT, SPLAT_DEFAULT_WIDTH, SPLAT_DEFAULT_HEIGHT, getTextFileFormat, TEXT_FILE_EXTENSION_PATTERN } from '../constants/canvas'
@@ -16,7 +17,9 @@ interface FileDropContext {
   startOperation: () => void
   endOperation: () => void
   addImageAt: (id: string, x: number, y: number, src: string, w: number, h: number, name?: string, ow?: number, oh?: number, fileSize?: number) => void
+  handleUploadImageAt: (file: File, x: number, y: number) => void
   handleUploadVideoAt: (file: File, x: number, y: number) => void
+  handleUploadAudioAt: (file: File, x: number, y: number) => void
   addPdfAt: (id: string, x: number, y: number, src: string, w: number, h: number, name?: string, fileSize?: number, thumbnailSrc?: string) => void
   addTextFileAt: (id: string, x: number, y: number, src: string, w: number, h: number, name?: string, fileSize?: number, fileFormat?: string) => void
   addModel3DAt: (id: string, x: number, y: number, src: string, w: number, h: number, name?: string, fileSize?: number, format?: string) => void
@@ -25,7 +28,7 @@ interface FileDropContext {
 
 export function useFileDrop({
   activeSceneId, isOffline, startOperation, endOperation,
-  addImageAt, handleUploadVideoAt, addPdfAt, addTextFileAt, addModel3DAt, addSplatAt,
+  addImageAt, handleUploadImageAt, handleUploadVideoAt, handleUploadAudioAt, addPdfAt, addTextFileAt, addModel3DAt, addSplatAt,
 }: FileDropContext) {
   const pendingDropFilesRef = useRef<File[]>([])
 
@@ -43,7 +46,11 @@ export function useFileDrop({
       const centerY = 300
 
       for (const file of files) {
-        if (file.type.startsWith('image/')) {
+        if (isConvertedImageFile(file)) {
+          // Checked first: the browser may not decode these, and HEIC often has no MIME type
+          handleUploadImageAt(file, centerX + offsetIndex * 20, centerY + offsetIndex * 20)
+          offsetIndex++
+        } else if (file.type.startsWith('image/')) {
           const reader = new FileReader()
           const fileName = file.name
           const fileSize = file.size
@@ -83,6 +90,10 @@ export function useFileDrop({
           }
           reader.readAsDataURL(file)
           offsetIndex++
+        } else if (isAudioFile(file)) {
+          // Checked before video, since .ogg can be either
+          handleUploadAudioAt(file, centerX + offsetIndex * 20, centerY + offsetIndex * 20)
+          offsetIndex++
         } else if (isVideoFile(file)) {
           // Delegate to handleUploadVideoAt which handles placeholders
           handleUploadVideoAt(file, centerX + offsetIndex * 20, centerY + offsetIndex * 20)
@@ -176,12 +187,12 @@ export function useFileDrop({
     }
 
     processFiles()
-  }, [activeSceneId, isOffline, startOperation, endOperation, addImageAt, handleUploadVideoAt, addPdfAt, addTextFileAt, addModel3DAt, addSplatAt])
+  }, [activeSceneId, isOffline, startOperation, endOperation, addImageAt, handleUploadImageAt, handleUploadVideoAt, handleUploadAudioAt, addPdfAt, addTextFileAt, addModel3DAt, addSplatAt])
 
   const handleEmptyStateDrop = useCallback((e: React.DragEvent, addScene: () => Promise<void>) => {
     e.preventDefault()
     const files = Array.from(e.dataTransfer.files)
-    const mediaFiles = files.filter(f => f.type.startsWith('image/') || isVideoFile(f) || isModel3DFile(f) || isSplatFile(f))
+    const mediaFiles = files.filter(f => f.type.startsWith('image/') || isConvertedImageFile(f) || isAudioFile(f) || isVideoFile(f) || isModel3DFile(f) || isSplatFile(f))
     if (mediaFiles.length === 0) return
 
     // Store files and create a new scene
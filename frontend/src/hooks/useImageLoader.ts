@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react'
 import { CanvasItem } from '../types'
+import { hasImageEdits } from '../utils/imageEdits'
 
 export interface ImageLoader {
   loadedImages: Map<string, HTMLImageElement>
@@ -9,14 +10,18 @@ export function useImageLoader(items: CanvasItem[]): ImageLoader {
   const [loadedImages, setLoadedImages] = useState<Map<string, HTMLImageElement>>(new Map())
 
   useEffect(() => {
-    items.forEach((item) => {
-      if (item.type === 'image' && !loadedImages.has(item.src)) {
-        const img = new window.Image()
-        img.src = item.src
-        img.onload = () => {
-          setLoadedImages((prev) => new Map(prev).set(item.src, img))
-        }
+    const load = (src: string) => {
+      const img = new window.Image()
+      img.src = src
+      img.onload = () => {
+        setLoadedImages((prev) => new Map(prev).set(src, img))
       }
+    }
+    items.forEach((item) => {
+      if (item.type !== 'image') return
+      if (!loadedImages.has(item.src)) load(item.src)
+      // Edited images are drawn from their rendered file rather than the original
+      if (hasImageEdits(item) && item.cropSrc && !loadedImages.has(item.cropSrc)) load(item.cropSrc)
     })
   }, [items, loadedImages])
 
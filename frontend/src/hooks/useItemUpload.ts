@@ -1,13 +1,15 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import { v4 as uuidv4 } from 'uuid'
-import { uploadImage } from '../api/images'
+import { uploadImageFile, uploadConvertedImageFile, isConvertedImageFile } from '../api/images'
+import type { UploadProgress } from '../api/uploads'
 import { uploadVideo, getVideoDimensionsSafe, getVideoDimensionsFromUrl } from '../api/videos'
 import { uploadPdf, uploadPdfThumbnail } from '../api/pdfs'
 import { uploadTextFile } from '../api/textfiles'
 import { uploadModel3D, getModel3DFormat } from '../api/models3d'
 import { uploadSplat } from '../api/splats'
+import { uploadAudio, getAudioFormat, getAudioDuration } from '../api/audio'
 import { renderPdfPageToDataUrl } from '../utils/pdfThumbnail'
-import { PDF_MINIMIZED_HEIGHT, MODEL3D_DEFAULT_WIDTH, MODEL3D_DEFAULT_HEIGHT, SPLAT_DEFAULT_WIDTH, SPLAT_DEFAULT_HEIGHT, getTextFileFormat } from '../constants/canvas'
+import { PDF_MINIMIZED_HEIGHT, MODEL3D_DEFAULT_WIDTH, MODEL3D_DEFAULT_HEIGHT, SPLAT_DEFAULT_WIDTH, SPLAT_DEFAULT_HEIGHT, AUDIO_DEFAULT_WIDTH, AUDIO_DEFAULT_HEIGHT, getTextFileFormat } from '../constants/canvas'
 import { ACTIVE_WORKSPACE } from '../api/workspace'
 
 export type VideoPlaceholder = {
@@ -17,32 +19,95 @@ export type VideoPlaceholder = {
   width: number
   height: number
   name: string
+  progress?: number  // 0..1 once upload progress is known
 }
 
+type ItemUploadProgress = UploadProgress & { name: string }
+
 interface UseItemUploadDeps {
   activeSceneId: string | null
   isOffline: boolean
   startOperation: () => void
   endOperation: () => void
   addImageItem: (id: string, src: string, width: number, height: number) => void
+  addImageAt: (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, originalWidth?: number, originalHeight?: number, fileSize?: number, originalSrc?: string) => void
   addVideoItem: (id: string, src: string, width: number, height: number, name?: string, fileSize?: number) => void
   addVideoAt: (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, fileSize?: number, originalWidth?: number, originalHeight?: number) => void
   addPdfAt: (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, fileSize?: number, thumbnailSrc?: string) => void
   addTextFileAt: (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, fileSize?: number, fileFormat?: string) => void
   addModel3DAt: (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, fileSize?: number, format?: string) => void
   addSplatAt: (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, fileSize?: number, format?: string) => void
+  addAudioAt: (id: string, x: number, y: number, src: string, width: number, height: number, name?: string, fileSize?: number, format?: string, duration?: number) => void
 }
 
 export function useItemUpload(deps: UseItemUploadDeps) {
   const {
     activeSceneId, isOffline, startOperation, endOperation,
-    addImageItem, addVideoItem, addVideoAt, addPdfAt, addTextFileAt, addModel3DAt, addSplatAt,
+    addImageItem, addImageAt, addVideoItem, addVideoAt, addPdfAt, addTextFileAt, addModel3DAt, addSplatAt, addAudioAt,
   } = deps
 
-  const [videoPlaceholders, setVideoPlaceholders] = useState<VideoPlaceholder[]>([])
+  const [pendingVideos, setPendingVideos] = useState<VideoPlaceholder[]>([])
+  // Bytes sent so far for each upload in flight, keyed by item ID
+  const [itemProgress, setItemProgress] = useState<Record<string, ItemUploadProgress>>({})
+
+  const trackProgress = useCallback((itemId: string, name: string) => (progress: UploadProgress) => {
+    setItemProgress(prev => ({ ...prev, [itemId]: { ...progress, name } }))
+  }, [])
+
+  const clearProgress = useCallback((itemId: string) => {
+    setItemProgress(prev => {
+      const { [itemId]: _done, ...rest } = prev
+      return rest
+    })
+  }, [])
+
+  const videoPlaceholders = useMemo(() => pendingVideos.map(p => {
+    const progress = itemProgress[p.id]
+    return progress && progress.total > 0 ? { ...p, progress: progress.loaded / progress.total } : p
+  }), [pendingVideos, itemProgress])
+
+  // Combined progress of all uploads in flight, or null when nothing is uploading
+  const uploadProgress = useMemo<UploadProgress | null>(() => {
+    const entries = Object.values(itemProgress)
+    if (entries.length === 0) return null
+    return entries.reduce((sum, p) => ({ loaded: sum.loaded + p.loaded, total: sum.total + p.total }), { loaded: 0, total: 0 })
+  }, [itemProgress])
+
+  // Upload an image the server converts (HEIC, TIFF, ...) at a canvas position. The browser
+  // may not decode these, so the item is added once the server reports the converted size.
+  const handleUploadImageAt = useCallback(async (file: File, x: number, y: number) => {
+    if (!activeSceneId) return
+    if (isOffline) {
+      alert(`${file.name} can't be added offline: this image format is converted by the server.`)
+      return
+    }
+
+    const itemId = uuidv4()
+    const name = file.name.replace(/\.[^/.]+$/, '')
+    try {
+      startOperation()
+      const result = await uploadConvertedImageFile(file, activeSceneId, itemId, trackProgress(itemId, file.name))
+      endOperation()
+      // Scale down large images, as for other dropped images
+      const maxDim = 800
+      const scale = Math.min(1, maxDim / Math.max(result.width, result.height))
+      addImageAt(itemId, x, y, result.url, Math.round(result.width * scale), Math.round(result.height * scale),
+        name, result.width, result.height, result.fileSize, result.originalUrl)
+    } catch (err) {
+      endOperation()
+      console.error('Failed to upload image:', err)
+      alert((err as Error).message || 'Failed to add image.')
+    } finally {
+      clearProgress(itemId)
+    }
+  }, [activeSceneId, isOffline, addImageAt, startOperation, endOperation, trackProgress, clearProgress])
 
   const handleAddImage = useCallback(async (file: File) => {
     if (!activeSceneId) return
+    if (isConvertedImageFile(file)) {
+      handleUploadImageAt(file, 400 + Math.random() * 200, 300 + Math.random() * 200)
+      return
+    }
 
     // Generate item ID upfront so it matches the uploaded file
     const itemId = uuidv4()
@@ -55,7 +120,7 @@ export function useItemUpload(deps: UseItemUploadDeps) {
       img.onload = async () => {
         try {
           startOperation()
-          const s3Url = await uploadImage(dataUrl, activeSceneId, itemId, file.name || 'image.png')
+          const s3Url = await uploadImageFile(file, activeSceneId, itemId, trackProgress(itemId, file.name))
           endOperation()
           addImageItem(itemId, s3Url, img.width, img.height)
         } catch (err) {
@@ -63,12 +128,14 @@ export function useItemUpload(deps: UseItemUploadDeps) {
           console.error('Failed to upload image:', err)
           // Fall back to data URL
           addImageItem(itemId, dataUrl, img.width, img.height)
+        } finally {
+          clearProgress(itemId)
         }
       }
       img.src = dataUrl
     }
     reader.readAsDataURL(file)
-  }, [activeSceneId, addImageItem, startOperation, endOperation])
+  }, [activeSceneId, addImageItem, handleUploadImageAt, startOperation, endOperation, trackProgress, clearProgress])
 
   const handleAddVideo = useCallback(async (file: File) => {
     try {
@@ -89,11 +156,11 @@ export function useItemUpload(deps: UseItemUploadDeps) {
       const placeholderX = 100 + Math.random() * 200
       const placeholderY = 100 + Math.random() * 200
       const placeholderName = file.name.replace(/\.[^/.]+$/, '')
-      setVideoPlaceholders(prev => [...prev, { id: itemId, x: placeholderX, y: placeholderY, width: placeholderW, height: placeholderH, name: placeholderName }])
+      setPendingVideos(prev => [...prev, { id: itemId, x: placeholderX, y: placeholderY, width: placeholderW, height: placeholderH, name: placeholderName }])
 
       startOperation()
       try {
-        const result = await uploadVideo(file, activeSceneId!, itemId, isOffline)
+        const result = await uploadVideo(file, activeSceneId!, itemId, isOffline, trackProgress(itemId, file.name))
         endOperation()
 
         // If client-side dims failed (e.g. MKV), get them from the transcoded URL
@@ -109,13 +176,14 @@ export function useItemUpload(deps: UseItemUploadDeps) {
         console.error('Failed to add video:', error)
         alert('Failed to add video. Please try again.')
       } finally {
-        setVideoPlaceholders(prev => prev.filter(p => p.id !== itemId))
+        setPendingVideos(prev => prev.filter(p => p.id !== itemId))
+        clearProgress(itemId)
       }
     } catch (error) {
       console.error('Failed to add video:', error)
       alert('Failed to add video. Please try again.')
     }
-  }, [isOffline, activeSceneId, addVideoItem, startOperation, endOperation])
+  }, [isOffline, activeSceneId, addVideoItem, startOperation, endOperation, trackProgress, clearProgress])
 
   const handleAddTextFile = useCallback(async (file: File) => {
     if (!activeSceneId) return
@@ -183,15 +251,17 @@ export function useItemUpload(deps: UseItemUploadDeps) {
 
     try {
       startOperation()
-      const result = await uploadModel3D(file, activeSceneId, itemId)
+      const result = await uploadModel3D(file, activeSceneId, itemId, trackProgress(itemId, file.name))
       endOperation()
       addModel3DAt(itemId, 400 + Math.random() * 200, 300 + Math.random() * 200,
         result.url, MODEL3D_DEFAULT_WIDTH, MODEL3D_DEFAULT_HEIGHT, name, fileSize, format)
     } catch (err) {
       endOperation()
       console.error('Failed to upload 3D model:', err)
+    } finally {
+      clearProgress(itemId)
     }
-  }, [activeSceneId, addModel3DAt, startOperation, endOperation])
+  }, [activeSceneId, addModel3DAt, startOperation, endOperation, trackProgress, clearProgress])
 
   const handleAddSplat = useCallback(async (file: File) => {
     if (!activeSceneId) return
@@ -202,15 +272,43 @@ export function useItemUpload(deps: UseItemUploadDeps) {
 
     try {
       startOperation()
-      const result = await uploadSplat(file, activeSceneId, itemId)
+      const result = await uploadSplat(file, activeSceneId, itemId, trackProgress(itemId, file.name))
       endOperation()
       addSplatAt(itemId, 400 + Math.random() * 200, 300 + Math.random() * 200,
         result.url, SPLAT_DEFAULT_WIDTH, SPLAT_DEFAULT_HEIGHT, name, fileSize, result.format)
     } catch (err) {
       endOperation()
       console.error('Failed to upload splat:', err)
+    } finally {
+      clearProgress(itemId)
     }
-  }, [activeSceneId, addSplatAt, startOperation, endOperation])
+  }, [activeSceneId, addSplatAt, startOperation, endOperation, trackProgress, clearProgress])
+
+  // Upload an audio file at a canvas position (also used by the menu, at a random spot)
+  const handleUploadAudioAt = useCallback(async (file: File, x: number, y: number) => {
+    if (!activeSceneId) return
+
+    const itemId = uuidv4()
+    const name = file.name.replace(/\.[^/.]+$/, '')
+    const format = getAudioFormat(file.name)
+
+    try {
+      startOperation()
+      const duration = await getAudioDuration(file)
+      const result = await uploadAudio(file, activeSceneId, itemId, isOffline, trackProgress(itemId, file.name))
+      endOperation()
+      addAudioAt(itemId, x, y, result.url, AUDIO_DEFAULT_WIDTH, AUDIO_DEFAULT_HEIGHT, name, file.size, format, duration)
+    } catch (err) {
+      endOperation()
+      console.error('Failed to upload audio:', err)
+    } finally {
+      clearProgress(itemId)
+    }
+  }, [activeSceneId, isOffline, addAudioAt, startOperation, endOperation, trackProgress, clearProgress])
+
+  const handleAddAudio = useCallback((file: File) => {
+    handleUploadAudioAt(file, 400 + Math.random() * 200, 300 + Math.random() * 200)
+  }, [handleUploadAudioAt])
 
   // Upload a video at a specific canvas position (called by InfiniteCanvas drop handler)
   const handleUploadVideoAt = useCallback(async (file: File, x: number, y: number) => {
@@ -229,11 +327,11 @@ export function useItemUpload(deps: UseItemUploadDeps) {
       const placeholderW = 640
       const placeholderH = 427
       const placeholderName = file.name.replace(/\.[^/.]+$/, '')
-      setVideoPlaceholders(prev => [...prev, { id: itemId, x: x - placeholderW / 2, y, width: placeholderW, height: placeholderH, name: placeholderName }])
+      setPendingVideos(prev => [...prev, { id: itemId, x: x - placeholderW / 2, y, width: placeholderW, height: placeholderH, name: placeholderName }])
 
       startOperation()
       try {
-        const result = await uploadVideo(file, activeSceneId!, itemId, isOffline)
+        const result = await uploadVideo(file, activeSceneId!, itemId, isOffline, trackProgress(itemId, file.name))
         endOperation()
 
         if (!dimensions) {
@@ -247,21 +345,26 @@ export function useItemUpload(deps: UseItemUploadDeps) {
         console.error('Video upload failed:', file.name, err)
         endOperation()
       } finally {
-        setVideoPlaceholders(prev => prev.filter(p => p.id !== itemId))
+        setPendingVideos(prev => prev.filter(p => p.id !== itemId))
+        clearProgress(itemId)
       }
     } catch (error) {
       console.error('Failed to process video:', error)
     }
-  }, [isOffline, activeSceneId, addVideoAt, startOperation, endOperation])
+  }, [isOffline, activeSceneId, addVideoAt, startOperation, endOperation, trackProgress, clearProgress])
 
   return {
     videoPlaceholders,
+    uploadProgress,
     handleAddImage,
     handleAddVideo,
     handleAddPdf,
     handleAddTextFile,
     handleAddModel3D,
     handleAddSplat,
+    handleAddAudio,
     handleUploadVideoAt,
+    handleUploadAudioAt,
+    handleUploadImageAt,
   }
 }
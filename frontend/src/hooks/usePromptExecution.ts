@@ -3,12 +3,15 @@ import { v4 as uuidv4 } from 'uuid'
 import { CanvasItem, TextFileItem, TextFileFormat, PromptItem, ImageGenPromptItem } from '../types'
 import { generateFromPrompt, generateImage, generateHtml, ContentItem, generateHtmlTitle, quickLlmQuery } from '../api/llm'
 import { getCroppedImageDataUrl } from '../utils/imageCrop'
+import { hasImageEdits } from '../utils/imageEdits'
+import { getAnnotationContent } from '../utils/imageAnnotations'
 import { isHtmlContent, stripCodeFences } from '../utils/htmlDetection'
 import { extractCodeBlocks } from '../utils/codeBlockExtractor'
 import { uploadTextFile } from '../api/textfiles'
 import { generateUniqueName, getExistingImageNames, getExistingTextFileNames } from '../utils/imageNames'
 import DOMPurify from 'dompurify'
 import { convertItemsToSpatialJson, replaceImagePlaceholders } from '../utils/spatialJson'
+import { getPromptInputItems, getPromptSelection } from '../utils/frames'
 import { playNotificationSound } from '../utils/sound'
 import { config } from '../config'
 import { TEXTFILE_HEADER_HEIGHT } from '../constants/canvas'
@@ -87,8 +90,8 @@ export function usePromptExecution({
     // Mark prompt as running
     setRunningPromptIds((prev) => new Set(prev).add(promptId))
 
-    // Gather selected items (excluding the prompt itself)
-    const selectedItems = items.filter((item) => selectedIds.includes(item.id) && item.id !== promptId)
+    // Gather the selection (excluding the prompt itself), or the prompt's frame if nothing is selected
+    const selectedItems = getPromptInputItems(items, selectedIds, promptId)
 
     // Convert to ContentItem format for the API
     const contentItems: ContentItem[] = (await Promise.all(selectedItems.map(async (item) => {
@@ -108,7 +111,7 @@ export function usePromptExecution({
           return { type: 'image' as const, src }
         }
         // Online mode: send ID so backend resolves from storage
-        return { type: 'image' as const, id: item.id, sceneId: activeSceneId!, useEdited: !!item.cropRect }
+        return { type: 'image' as const, id: item.id, sceneId: activeSceneId!, useEdited: !!item.cropRect || hasImageEdits(item), ...getAnnotationContent(item) }
       } else if (item.type === 'pdf') {
         if (isOffline) {
           // Offline mode: send src URL directly to client-side LLM
@@ -316,11 +319,11 @@ export function usePromptExecution({
     // Mark prompt as running
     setRunningImageGenPromptIds((prev) => new Set(prev).add(promptId))
 
-    // Gather selected items (excluding the prompt itself)
-    const selectedItems = items.filter((item) => selectedIds.includes(item.id) && item.id !== promptId)
+    // Gather the selection (excluding the prompt itself), or the prompt's frame if nothing is selected
+    const selectedItems = getPromptInputItems(items, selectedIds, promptId)
 
     // Convert to ContentItem format for the API
-    const contentItems: ContentItem[] = (await Promise.all(selectedItems.map(async (item) => {
+    const contentItems: ContentItem[] = (await Promise.all(selectedItems.map(async (item): Promise<ContentItem> => {
       if (item.type === 'text') {
         return { type: 'text' as const, text: item.text }
       } else if (item.type === 'image') {
@@ -337,7 +340,7 @@ export function usePromptExecution({
           return { type: 'image' as const, src }
         }
         // Online mode: send ID so backend resolves from storage
-        return { type: 'image' as const, id: item.id, sceneId: activeSceneId!, useEdited: !!item.cropRect }
+        return { type: 'image' as const, id: item.id, sceneId: activeSceneId!, useEdited: !!item.cropRect || hasImageEdits(item), ...getAnnotationContent(item) }
       } else if (item.type === 'prompt' || item.type === 'image-gen-prompt') {
         return { type: 'text' as const, text: `[${item.label}]: ${item.text}` }
       }
@@ -457,11 +460,12 @@ export function usePromptExecution({
     // Mark prompt as running
     setRunningHtmlGenPromptIds((prev) => new Set(prev).add(promptId))
 
-    // Gather selected items (excluding the prompt itself)
-    const selectedItems = items.filter((item) => selectedIds.includes(item.id) && item.id !== promptId)
+    // Gather the selection (excluding the prompt itself), or the prompt's frame if nothing is selected.
+    // Frames stay in the list so they become pages.
+    const selectedItems = getPromptSelection(items, selectedIds, promptId)
 
     // Convert to spatial JSON format (images use placeholder IDs to keep prompt small)
-    const { spatialData, imageMap } = convertItemsToSpatialJson(selectedItems)
+    const { spatialData, imageMap } = convertItemsToSpatialJson(selectedItems, items)
 
     // Update debug panel with request payload
     const debugPayload = {
@@ -541,7 +545,7 @@ export function usePromptExecution({
     save: boolean,
   ) => {
     // Gather all selected items as context
-    const selectedItems = items.filter((item) => selectedIds.includes(item.id))
+    const selectedItems = getPromptInputItems(items, selectedIds)
 
     const contentItems: ContentItem[] = (await Promise.all(selectedItems.map(async (item) => {
       if (item.type === 'text') {
@@ -555,7 +559,7 @@ export function usePromptExecution({
           }
           return { type: 'image' as const, src }
         }
-        return { type: 'image' as const, id: item.id, sceneId: activeSceneId!, useEdited: !!item.cropRect }
+        return { type: 'image' as const, id: item.id, sceneId: activeSceneId!, useEdited: !!item.cropRect || hasImageEdits(item), ...getAnnotationContent(item) }
       } else if (item.type === 'pdf') {
         if (isOffline) return { type: 'pdf' as const, src: item.src }
         return { type: 'pdf' as const, id: item.id, sceneId: activeSceneId! }
@@ -710,9 +714,9 @@ export function usePromptExecution({
     outputPos: { x: number; y: number },
     save: boolean,
   ) => {
-    const selectedItems = items.filter((item) => selectedIds.includes(item.id))
+    const selectedItems = getPromptInputItems(items, selectedIds)
 
-    const contentItems: ContentItem[] = (await Promise.all(selectedItems.map(async (item) => {
+    const contentItems: ContentItem[] = (await Promise.all(selectedItems.map(async (item): Promise<ContentItem> => {
       if (item.type === 'text') {
         return { type: 'text' as const, text: item.text }
       } else if (item.type === 'image') {
@@ -724,7 +728,7 @@ export function usePromptExecution({
           }
           return { type: 'image' as const, src }
         }
-        return { type: 'image' as const, id: item.id, sceneId: activeSceneId!, useEdited: !!item.cropRect }
+        return { type: 'image' as const, id: item.id, sceneId: activeSceneId!, useEdited: !!item.cropRect || hasImageEdits(item), ...getAnnotationContent(item) }
       } else if (item.type === 'prompt' || item.type === 'image-gen-prompt') {
         return { type: 'text' as const, text: `[${item.label}]: ${item.text}` }
       }
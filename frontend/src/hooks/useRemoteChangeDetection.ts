@@ -6,6 +6,8 @@ interface UseRemoteChangeDetectionProps {
   lastKnownServerModifiedAt: string | null
   isOffline: boolean
   isSaving: boolean
+  // True while the workspace event stream is open; interval polling is skipped then
+  pushConnected: boolean
 }
 
 interface UseRemoteChangeDetectionResult {
@@ -23,6 +25,7 @@ export function useRemoteChangeDetection({
   lastKnownServerModifiedAt,
   isOffline,
   isSaving,
+  pushConnected,
 }: UseRemoteChangeDetectionProps): UseRemoteChangeDetectionResult {
   const [hasConflict, setHasConflict] = useState(false)
   const [remoteModifiedAt, setRemoteModifiedAt] = useState<string | null>(null)
@@ -81,8 +84,8 @@ export function useRemoteChangeDetection({
       pollIntervalRef.current = null
     }
 
-    // Don't poll if no scene or in offline mode
-    if (!sceneId || isOffline) {
+    // Don't poll if no scene, in offline mode, or the server pushes changes to us
+    if (!sceneId || isOffline || pushConnected) {
       return
     }
 
@@ -95,7 +98,7 @@ export function useRemoteChangeDetection({
         pollIntervalRef.current = null
       }
     }
-  }, [sceneId, isOffline, checkForChanges])
+  }, [sceneId, isOffline, pushConnected, checkForChanges])
 
   // Handle tab visibility changes - check when tab becomes visible
   useEffect(() => {
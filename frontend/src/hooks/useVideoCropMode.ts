@@ -1,7 +1,9 @@
 import { useState, useEffect, useCallback } from 'react'
-import { CanvasItem, CropRect, VideoItem } from '../types'
+import { CanvasItem, CropRect, VideoItem, VideoSegment, VideoCaption, VideoCallout } from '../types'
 import { cropVideo } from '../api/videos'
 import { getContentUrl } from '../api/scenes'
+import { JobCancelledError } from '../api/jobs'
+import { useBackgroundOperations } from '../contexts/BackgroundOperationsContext'
 
 interface UseVideoCropModeParams {
   items: CanvasItem[]
@@ -18,14 +20,20 @@ export interface VideoCropMode {
   pendingTrim: boolean
   pendingTrimStart: number
   pendingTrimEnd: number
+  pendingSegments: VideoSegment[] | null
+  pendingCaptions: VideoCaption[]
+  pendingCallouts: VideoCallout[]
   processingVideoId: string | null
-  startCrop: (id: string, initialRect: CropRect, initialSpeed: number, initialRemoveAudio: boolean, initialTrim: boolean, initialTrimStart: number, initialTrimEnd: number) => void
+  startCrop: (id: string, initialRect: CropRect, initialSpeed: number, initialRemoveAudio: boolean, initialTrim: boolean, initialTrimStart: number, initialTrimEnd: number, initialSegments: VideoSegment[] | null, initialCaptions: VideoCaption[], initialCallouts: VideoCallout[]) => void
   setPendingCropRect: (rect: CropRect | null) => void
   setPendingSpeed: (speed: number) => void
   setPendingRemoveAudio: (remove: boolean) => void
   setPendingTrim: (trim: boolean) => void
   setPendingTrimStart: (start: number) => void
   setPendingTrimEnd: (end: number) => void
+  setPendingSegments: (segments: VideoSegment[] | null) => void
+  setPendingCaptions: (captions: VideoCaption[]) => void
+  setPendingCallouts: (callouts: VideoCallout[]) => void
   applyCrop: () => void
   cancelCrop: () => void
   applyOrCancelCrop: () => void
@@ -36,6 +44,17 @@ function cropRectsEqual(a: CropRect | null, b: CropRect | null): boolean {
   return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height
 }
 
+function segmentsEqual(a: VideoSegment[] | null, b: VideoSegment[] | null): boolean {
+  if (!a || !b) return a === b
+  return a.length === b.length &&
+    a.every((s, i) => s.start === b[i].start && s.end === b[i].end && s.speed === b[i].speed)
+}
+
+// Captions and callouts are small plain objects, so comparing their JSON is enough
+function annotationsEqual(a: VideoCaption[] | VideoCallout[], b: VideoCaption[] | VideoCallout[]): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
 /**
  * Extract the file extension from a video src URL
  */
@@ -77,9 +96,25 @@ export function useVideoCropMode({
   const [initialTrimStart, setInitialTrimStart] = useState<number>(0)
   const [pendingTrimEnd, setPendingTrimEnd] = useState<number>(0)
   const [initialTrimEnd, setInitialTrimEnd] = useState<number>(0)
+  const [pendingSegments, setPendingSegments] = useState<VideoSegment[] | null>(null)
+  const [initialSegments, setInitialSegments] = useState<VideoSegment[] | null>(null)
+  const [pendingCaptions, setPendingCaptions] = useState<VideoCaption[]>([])
+  const [initialCaptions, setInitialCaptions] = useState<VideoCaption[]>([])
+  const [pendingCallouts, setPendingCallouts] = useState<VideoCallout[]>([])
+  const [initialCallouts, setInitialCallouts] = useState<VideoCallout[]>([])
   const [processingVideoId, setProcessingVideoId] = useState<string | null>(null)
+  const { trackJob, recoveredJobs, acknowledgeJob } = useBackgroundOperations()
 
-  const startCrop = useCallback((id: string, initialRect: CropRect, speed: number, removeAudio: boolean, trim: boolean, trimStart: number, trimEnd: number) => {
+  // Point the item at its freshly processed .crop.mp4
+  const applyProcessedVideo = useCallback(async (itemId: string, fileSize: number | undefined) => {
+    // Get the URL for the processed video using the content-url endpoint
+    const cropUrl = await getContentUrl(sceneId, itemId, 'video', 'mp4', true)
+    // Add cache-busting timestamp to force browser to fetch fresh video
+    const cacheBustedUrl = `${cropUrl}${cropUrl.includes('?') ? '&' : '?'}t=${Date.now()}`
+    onUpdateItem(itemId, { cropSrc: cacheBustedUrl, cropSrcFileSize: fileSize })
+  }, [sceneId, onUpdateItem])
+
+  const startCrop = useCallback((id: string, initialRect: CropRect, speed: number, removeAudio: boolean, trim: boolean, trimStart: number, trimEnd: number, segments: VideoSegment[] | null, captions: VideoCaption[], callouts: VideoCallout[]) => {
     setCroppingVideoId(id)
     setPendingCropRect(initialRect)
     setInitialCropRect(initialRect)
@@ -93,6 +128,12 @@ export function useVideoCropMode({
     setInitialTrimStart(trimStart)
     setPendingTrimEnd(trimEnd)
     setInitialTrimEnd(trimEnd)
+    setPendingSegments(segments)
+    setInitialSegments(segments)
+    setPendingCaptions(captions)
+    setInitialCaptions(captions)
+    setPendingCallouts(callouts)
+    setInitialCallouts(callouts)
   }, [])
 
   const applyCrop = useCallback(() => {
@@ -143,8 +184,12 @@ export function useVideoCropMode({
     const trimChanged = pendingTrim !== initialTrim
     const trimStartChanged = pendingTrimStart !== initialTrimStart
     const trimEndChanged = pendingTrimEnd !== initialTrimEnd
+    const segmentsChanged = !segmentsEqual(pendingSegments, initialSegments)
+    const annotationsChanged = !annotationsEqual(pendingCaptions, initialCaptions) || !annotationsEqual(pendingCallouts, initialCallouts)
+    // A cut list supersedes the single trim range
+    const useTrim = pendingTrim && !pendingSegments
 
-    // Update item with crop rect, speed, removeAudio, and trim immediately (for UI display)
+    // Update item with crop rect, speed, removeAudio, trim, segments, and annotations immediately (for UI display)
     onUpdateItem(itemId, {
       x: newX,
       y: newY,
@@ -153,9 +198,12 @@ export function useVideoCropMode({
       cropRect,
       speedFactor: pendingSpeed !== 1 ? pendingSpeed : undefined,
       removeAudio: pendingRemoveAudio || undefined,
-      trim: pendingTrim || undefined,
-      trimStart: pendingTrim ? pendingTrimStart : undefined,
-      trimEnd: pendingTrim ? pendingTrimEnd : undefined,
+      trim: useTrim || undefined,
+      trimStart: useTrim ? pendingTrimStart : undefined,
+      trimEnd: useTrim ? pendingTrimEnd : undefined,
+      segments: pendingSegments ?? undefined,
+      captions: pendingCaptions.length > 0 ? pendingCaptions : undefined,
+      callouts: pendingCallouts.length > 0 ? pendingCallouts : undefined,
     })
 
     setCroppingVideoId(null)
@@ -171,6 +219,12 @@ export function useVideoCropMode({
     setInitialTrimStart(0)
     setPendingTrimEnd(0)
     setInitialTrimEnd(0)
+    setPendingSegments(null)
+    setInitialSegments(null)
+    setPendingCaptions([])
+    setInitialCaptions([])
+    setPendingCallouts([])
+    setInitialCallouts([])
 
     // Skip server-side processing in offline mode
     if (isOffline) {
@@ -178,7 +232,7 @@ export function useVideoCropMode({
     }
 
     // Only call server if something changed
-    if (!cropRectChanged && !speedChanged && !removeAudioChanged && !trimChanged && !trimStartChanged && !trimEndChanged) {
+    if (!cropRectChanged && !speedChanged && !removeAudioChanged && !trimChanged && !trimStartChanged && !trimEndChanged && !segmentsChanged && !annotationsChanged) {
       return
     }
 
@@ -196,23 +250,38 @@ export function useVideoCropMode({
     const cropRectToSend = isFullImage ? undefined : cropRect
     const speedToSend = pendingSpeed !== 1 ? pendingSpeed : undefined
     const removeAudioToSend = pendingRemoveAudio || undefined
-    const trimToSend = pendingTrim ? { start: pendingTrimStart, end: pendingTrimEnd } : undefined
+    const trimToSend = useTrim ? { start: pendingTrimStart, end: pendingTrimEnd } : undefined
+    const segmentsToSend = pendingSegments ?? undefined
+    const captionsToSend = pendingCaptions.length > 0 ? pendingCaptions : undefined
+    const calloutsToSend = pendingCallouts.length > 0 ? pendingCallouts : undefined
     const extensionToSend = getVideoExtension(videoItem.src)
 
-    cropVideo(sceneId, itemId, cropRectToSend, speedToSend, removeAudioToSend, trimToSend, extensionToSend)
+    cropVideo(sceneId, itemId, cropRectToSend, speedToSend, removeAudioToSend, trimToSend, segmentsToSend, captionsToSend, calloutsToSend, extensionToSend,
+      (job) => trackJob(job, `Processing ${videoItem.name || 'video'}`))
       .then(async (result) => {
-        // Get the URL for the processed video using the content-url endpoint
-        const cropUrl = await getContentUrl(sceneId, itemId, 'video', 'mp4', true)
-        // Add cache-busting timestamp to force browser to fetch fresh video
-        const cacheBustedUrl = `${cropUrl}${cropUrl.includes('?') ? '&' : '?'}t=${Date.now()}`
-        onUpdateItem(itemId, { cropSrc: cacheBustedUrl, cropSrcFileSize: result.fileSize })
+        await applyProcessedVideo(itemId, result.fileSize)
         setProcessingVideoId(null)
       })
       .catch((err) => {
-        console.error('Failed to create server-side video processing:', err)
+        if (!(err instanceof JobCancelledError)) {
+          console.error('Failed to create server-side video processing:', err)
+        }
         setProcessingVideoId(null)
       })
-  }, [croppingVideoId, pendingCropRect, initialCropRect, pendingSpeed, initialSpeed, pendingRemoveAudio, initialRemoveAudio, pendingTrim, initialTrim, pendingTrimStart, initialTrimStart, pendingTrimEnd, initialTrimEnd, items, sceneId, isOffline, onUpdateItem])
+  }, [croppingVideoId, pendingCropRect, initialCropRect, pendingSpeed, initialSpeed, pendingRemoveAudio, initialRemoveAudio, pendingTrim, initialTrim, pendingTrimStart, initialTrimStart, pendingTrimEnd, initialTrimEnd, pendingSegments, initialSegments, pendingCaptions, initialCaptions, pendingCallouts, initialCallouts, items, sceneId, isOffline, trackJob, applyProcessedVideo])
+
+  // Pick up edits that finished while the page was reloading
+  useEffect(() => {
+    for (const job of recoveredJobs) {
+      if (job.type !== 'crop-video' || job.sceneId !== sceneId) continue
+      if (!items.some((i) => i.id === job.itemId && i.type === 'video')) continue
+      acknowledgeJob(job.id)
+      const fileSize = job.result?.fileSize as number | undefined
+      applyProcessedVideo(job.itemId, fileSize).catch((err) =>
+        console.error('Failed to apply recovered video processing:', err)
+      )
+    }
+  }, [recoveredJobs, sceneId, items, acknowledgeJob, applyProcessedVideo])
 
   const cancelCrop = useCallback(() => {
     setCroppingVideoId(null)
@@ -228,20 +297,28 @@ export function useVideoCropMode({
     setInitialTrimStart(0)
     setPendingTrimEnd(0)
     setInitialTrimEnd(0)
+    setPendingSegments(null)
+    setInitialSegments(null)
+    setPendingCaptions([])
+    setInitialCaptions([])
+    setPendingCallouts([])
+    setInitialCallouts([])
   }, [])
 
-  // Apply crop if modified (crop, speed, removeAudio, or trim changed), otherwise cancel
+  // Apply crop if modified (crop, speed, removeAudio, trim, segments, or annotations changed), otherwise cancel
   const applyOrCancelCrop = useCallback(() => {
     const cropChanged = !cropRectsEqual(pendingCropRect, initialCropRect)
     const speedChanged = pendingSpeed !== initialSpeed
     const removeAudioChanged = pendingRemoveAudio !== initialRemoveAudio
     const trimChanged = pendingTrim !== initialTrim || pendingTrimStart !== initialTrimStart || pendingTrimEnd !== initialTrimEnd
-    if (!cropChanged && !speedChanged && !removeAudioChanged && !trimChanged) {
+    const segmentsChanged = !segmentsEqual(pendingSegments, initialSegments)
+    const annotationsChanged = !annotationsEqual(pendingCaptions, initialCaptions) || !annotationsEqual(pendingCallouts, initialCallouts)
+    if (!cropChanged && !speedChanged && !removeAudioChanged && !trimChanged && !segmentsChanged && !annotationsChanged) {
       cancelCrop()
     } else {
       applyCrop()
     }
-  }, [pendingCropRect, initialCropRect, pendingSpeed, initialSpeed, pendingRemoveAudio, initialRemoveAudio, pendingTrim, initialTrim, pendingTrimStart, initialTrimStart, pendingTrimEnd, initialTrimEnd, cancelCrop, applyCrop])
+  }, [pendingCropRect, initialCropRect, pendingSpeed, initialSpeed, pendingRemoveAudio, initialRemoveAudio, pendingTrim, initialTrim, pendingTrimStart, initialTrimStart, pendingTrimEnd, initialTrimEnd, pendingSegments, initialSegments, pendingCaptions, initialCaptions, pendingCallouts, initialCallouts, cancelCrop, applyCrop])
 
   // Keyboard handler for crop mode (Enter to apply, Escape to cancel)
   useEffect(() => {
@@ -268,6 +345,9 @@ export function useVideoCropMode({
     pendingTrim,
     pendingTrimStart,
     pendingTrimEnd,
+    pendingSegments,
+    pendingCaptions,
+    pendingCallouts,
     processingVideoId,
     startCrop,
     setPendingCropRect,
@@ -276,6 +356,9 @@ export function useVideoCropMode({
     setPendingTrim,
     setPendingTrimStart,
     setPendingTrimEnd,
+    setPendingSegments,
+    setPendingCaptions,
+    setPendingCallouts,
     applyCrop,
     cancelCrop,
     applyOrCancelCrop,
@@ -86,5 +86,28 @@ export function useViewportManager({ activeSceneId, isLoading, storageMode, canv
     }
   }, [])
 
-  return { deleteViewport, clearViewports, reloadViewports }
+  // Helper: center a scene's viewport on a canvas point, keeping that scene's zoom.
+  // For an inactive scene the viewport is applied when the scene is next activated.
+  const focusPoint = useCallback((sceneId: string, point: { x: number; y: number }) => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const current = canvas.getViewport()
+    const center = canvas.getViewportCenter()
+    // Half the stage size in screen pixels, recovered from the current viewport
+    const halfWidth = center.x * current.scale + current.x
+    const halfHeight = center.y * current.scale + current.y
+
+    const scale = sceneId === activeSceneId
+      ? current.scale
+      : viewportMapRef.current.get(sceneId)?.scale ?? 1
+    const viewport = { x: halfWidth - point.x * scale, y: halfHeight - point.y * scale, scale }
+
+    if (sceneId === activeSceneId) {
+      canvas.setViewport({ x: viewport.x, y: viewport.y }, scale)
+    } else {
+      viewportMapRef.current.set(sceneId, viewport)
+    }
+  }, [activeSceneId, canvasRef])
+
+  return { deleteViewport, clearViewports, reloadViewports, focusPoint }
 }
@@ -0,0 +1,37 @@
+import { useState, useEffect, useRef } from 'react'
+import { subscribeToWorkspaceEvents } from '../api/events'
+import type { WorkspaceEvent } from '../api/events'
+
+interface UseWorkspaceEventsProps {
+  isOffline: boolean
+  onEvent: (event: WorkspaceEvent, originClientId: string | null) => void
+}
+
+/**
+ * Keep a server-sent events connection open to the workspace while online.
+ * `connected` is false whenever the stream is down, so callers can fall back to polling.
+ */
+export function useWorkspaceEvents({ isOffline, onEvent }: UseWorkspaceEventsProps) {
+  const [connected, setConnected] = useState(false)
+  // Read the latest handler through a ref so changing it doesn't reopen the stream
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  useEffect(() => {
+    if (isOffline) {
+      setConnected(false)
+      return
+    }
+
+    const unsubscribe = subscribeToWorkspaceEvents(
+      (event, originClientId) => onEventRef.current(event, originClientId),
+      setConnected
+    )
+    return () => {
+      unsubscribe()
+      setConnected(false)
+    }
+  }, [isOffline])
+
+  return { connected }
+}
@@ -16,7 +16,11 @@ import type {
   Model3DFormat,
   SplatItem,
   SplatFormat,
+  AudioItem,
+  AudioFormat,
+  FrameItem,
 } from '../types'
+import { FRAME_DEFAULT_WIDTH, FRAME_DEFAULT_HEIGHT } from '../constants/canvas'
 
 interface Pos {
   x: number
@@ -112,6 +116,22 @@ export function createCodingRobotItem(
   }
 }
 
+export function createFrameItem(
+  pos: Pos,
+  order: number,
+  opts?: { name?: string; width?: number; height?: number },
+): FrameItem {
+  return {
+    id: uuidv4(),
+    type: 'frame',
+    ...pos,
+    name: opts?.name ?? `Frame ${order}`,
+    width: opts?.width ?? FRAME_DEFAULT_WIDTH,
+    height: opts?.height ?? FRAME_DEFAULT_HEIGHT,
+    order,
+  }
+}
+
 // ---------------------------------------------------------------------------
 // File-drop / upload items (id provided externally)
 // ---------------------------------------------------------------------------
@@ -122,7 +142,7 @@ export function createImageItem(
   src: string,
   width: number,
   height: number,
-  opts?: { name?: string; originalWidth?: number; originalHeight?: number; fileSize?: number },
+  opts?: { name?: string; originalWidth?: number; originalHeight?: number; fileSize?: number; originalSrc?: string },
 ): ImageItem {
   return {
     id,
@@ -135,6 +155,7 @@ export function createImageItem(
     ...(opts?.originalWidth != null && { originalWidth: opts.originalWidth }),
     ...(opts?.originalHeight != null && { originalHeight: opts.originalHeight }),
     ...(opts?.fileSize != null && { fileSize: opts.fileSize }),
+    ...(opts?.originalSrc != null && { originalSrc: opts.originalSrc }),
   }
 }
 
@@ -256,6 +277,28 @@ export function createSplatItem(
   }
 }
 
+export function createAudioItem(
+  id: string,
+  pos: Pos,
+  src: string,
+  width: number,
+  height: number,
+  opts?: { name?: string; fileSize?: number; format?: AudioFormat; duration?: number },
+): AudioItem {
+  return {
+    id,
+    type: 'audio',
+    ...pos,
+    src,
+    width,
+    height,
+    format: opts?.format ?? 'mp3',
+    ...(opts?.name != null && { name: opts.name }),
+    ...(opts?.fileSize != null && { fileSize: opts.fileSize }),
+    ...(opts?.duration != null && { duration: opts.duration }),
+  }
+}
+
 export function createEmbedVideoItem(
   pos: Pos,
   videoId: string,
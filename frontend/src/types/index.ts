@@ -24,6 +24,30 @@ export interface TextItem extends BaseItem {
   height: number
 }
 
+// One step of an image's edit stack. Steps apply in order, after the crop.
+export type ImageEdit =
+  | { type: 'rotate'; degrees: 90 | 180 | 270 }     // clockwise
+  | { type: 'flip'; direction: 'horizontal' | 'vertical' }
+  | { type: 'resize'; width: number; height: number } // output pixels
+  | { type: 'brightness'; amount: number }           // multiplier, 1 = unchanged
+  | { type: 'contrast'; amount: number }             // multiplier, 1 = unchanged
+  | { type: 'saturation'; amount: number }           // multiplier, 0 = no colour
+  | { type: 'grayscale' }
+  | { type: 'sharpen'; sigma: number }
+
+export type ImageEditFormat = 'png' | 'jpeg' | 'webp'
+
+// Markup over an image, in the item's own units (width × height, before scaleX/scaleY).
+// Drawn live on the canvas and baked in on the server for export and LLM requests.
+export type ImageAnnotation =
+  | { type: 'arrow'; x1: number; y1: number; x2: number; y2: number; color: string; strokeWidth: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; color: string; strokeWidth: number }
+  | { type: 'ellipse'; x: number; y: number; width: number; height: number; color: string; strokeWidth: number }
+  | { type: 'pen'; points: number[]; color: string; strokeWidth: number }  // flat x, y list
+  | { type: 'text'; x: number; y: number; text: string; color: string; fontSize: number }
+  | { type: 'step'; x: number; y: number; color: string; radius: number }  // numbered in list order
+  | { type: 'redact'; x: number; y: number; width: number; height: number; style: 'blur' | 'pixelate' }
+
 export interface ImageItem extends BaseItem {
   type: 'image'
   src: string
@@ -39,6 +63,38 @@ export interface ImageItem extends BaseItem {
   cropRect?: CropRect
   cropSrc?: string
   cropSrcFileSize?: number  // file size of cropped version in bytes
+  edits?: ImageEdit[]       // rendered into cropSrc on the server, which is then shown instead of src
+  editFormat?: ImageEditFormat  // format of cropSrc when edited (png by default)
+  editQuality?: number      // 1-100, for jpeg and webp
+  annotations?: ImageAnnotation[]
+  originalSrc?: string      // the file as uploaded, when src is a web-format conversion of it (e.g. HEIC)
+}
+
+// A kept range of the source video (seconds); speed overrides speedFactor for this range
+export interface VideoSegment {
+  start: number
+  end: number
+  speed?: number
+}
+
+// Text shown over the video from start to end (source seconds), burned in when edits are applied
+export interface VideoCaption {
+  start: number
+  end: number
+  text: string
+  position?: 'top' | 'bottom'  // default bottom, within the crop region
+}
+
+// An arrow (from x1,y1 pointing at x2,y2) or a box (corners) in source video pixels
+export interface VideoCallout {
+  start: number
+  end: number
+  shape: 'arrow' | 'box'
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  color?: string  // hex, default '#ff3b30'
 }
 
 export interface VideoItem extends BaseItem {
@@ -64,6 +120,9 @@ export interface VideoItem extends BaseItem {
   trim?: boolean        // whether trim is enabled
   trimStart?: number    // trim start time in seconds (fractional)
   trimEnd?: number      // trim end time in seconds (fractional)
+  segments?: VideoSegment[]  // cut list of kept ranges; replaces trim when set
+  captions?: VideoCaption[]  // burned into the edited video
+  callouts?: VideoCallout[]  // burned into the edited video
 }
 
 export type LLMModel = 'claude-haiku' | 'claude-sonnet' | 'claude-opus' | 'gemini-flash' | 'gemini-pro'
@@ -198,6 +257,24 @@ export interface SplatItem extends BaseItem {
   orthographic?: boolean
 }
 
+export type AudioFormat = 'mp3' | 'wav' | 'ogg' | 'm4a'
+
+export interface AudioItem extends BaseItem {
+  type: 'audio'
+  src: string
+  name?: string
+  width: number
+  height: number
+  fileSize?: number
+  format: AudioFormat
+  duration?: number     // seconds, of the original file
+  loop?: boolean        // default false
+  trimStart?: number    // kept range of the original in seconds, when trimmed
+  trimEnd?: number
+  cropSrc?: string      // URL of the trimmed file (same format as the original)
+  cropSrcFileSize?: number
+}
+
 export type EmbedVideoProvider = 'youtube'
 
 export interface EmbedVideoItem extends BaseItem {
@@ -210,7 +287,17 @@ export interface EmbedVideoItem extends BaseItem {
   startTime?: number  // seconds offset for playback start
 }
 
-export type CanvasItem = TextItem | ImageItem | VideoItem | PromptItem | ImageGenPromptItem | HtmlItem | HTMLGenPromptItem | CodingRobotItem | PdfItem | TextFileItem | EmbedVideoItem | Model3DItem | SplatItem
+// A titled section of the canvas. It owns the items whose centre lies inside it, which move
+// with it; frames are the pages of HTML generation, image export and presentations.
+export interface FrameItem extends BaseItem {
+  type: 'frame'
+  name: string
+  width: number
+  height: number
+  order: number  // page position among the scene's frames, lowest first
+}
+
+export type CanvasItem = TextItem | ImageItem | VideoItem | PromptItem | ImageGenPromptItem | HtmlItem | HTMLGenPromptItem | CodingRobotItem | PdfItem | TextFileItem | EmbedVideoItem | Model3DItem | SplatItem | AudioItem | FrameItem
 
 export interface SelectionRect {
   x: number
@@ -0,0 +1,67 @@
+/**
+ * Waveform peaks for audio items, decoded in the browser with the Web Audio API.
+ * Results are cached by URL so re-renders and repeated items don't decode again.
+ */
+
+// Enough resolution for the widest an audio item is likely to be drawn
+const PEAK_COUNT = 1000
+
+export interface AudioWaveform {
+  peaks: number[]   // 0..1, max absolute sample per bucket across channels
+  duration: number  // seconds
+}
+
+const waveformCache = new Map<string, Promise<AudioWaveform>>()
+
+let decodeCtx: OfflineAudioContext | null = null
+
+// decodeAudioData needs a context but not a running one; an offline context avoids the
+// browser's autoplay restrictions on AudioContext
+function getDecodeContext(): OfflineAudioContext {
+  if (!decodeCtx) {
+    decodeCtx = new OfflineAudioContext(1, 1, 44100)
+  }
+  return decodeCtx
+}
+
+async function decodeWaveform(url: string): Promise<AudioWaveform> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load audio: ${response.statusText}`)
+  }
+  const buffer = await getDecodeContext().decodeAudioData(await response.arrayBuffer())
+
+  const peaks = new Array<number>(PEAK_COUNT).fill(0)
+  const bucketSize = Math.max(1, Math.floor(buffer.length / PEAK_COUNT))
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < PEAK_COUNT; i++) {
+      const start = i * bucketSize
+      const end = Math.min(data.length, start + bucketSize)
+      let max = peaks[i]
+      for (let j = start; j < end; j++) {
+        const value = Math.abs(data[j])
+        if (value > max) max = value
+      }
+      peaks[i] = max
+    }
+  }
+
+  // Normalize so quiet recordings still show a visible shape
+  const loudest = Math.max(...peaks)
+  return {
+    peaks: loudest > 0 ? peaks.map((p) => p / loudest) : peaks,
+    duration: buffer.duration,
+  }
+}
+
+/** Load (or reuse) the waveform of the audio at `url`. Failed loads aren't cached. */
+export function loadAudioWaveform(url: string): Promise<AudioWaveform> {
+  let pending = waveformCache.get(url)
+  if (!pending) {
+    pending = decodeWaveform(url)
+    pending.catch(() => waveformCache.delete(url))
+    waveformCache.set(url, pending)
+  }
+  return pending
+}
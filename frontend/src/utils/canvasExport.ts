@@ -0,0 +1,736 @@
+import Konva from 'konva'
+import { CanvasItem } from '../types'
+import { HTML_HEADER_HEIGHT, PDF_HEADER_HEIGHT, TEXTFILE_HEADER_HEIGHT } from '../constants/canvas'
+import { ACTIVE_WORKSPACE } from '../api/workspace'
+import { getContentData } from '../api/scenes'
+import { renderPdfPageToCanvas } from './pdfThumbnail'
+import { createPdfDocument, PdfImagePage } from './pdfDocument'
+import { getFrameMembers, getOrderedFrames } from './frames'
+
+export type CanvasExportFormat = 'png' | 'svg' | 'pdf'
+
+// What fills the area behind the items: the canvas colour, white, or nothing
+export type CanvasExportBackground = 'canvas' | 'white' | 'transparent'
+
+export interface CanvasExportOptions {
+  format: CanvasExportFormat
+  pixelRatio: number                 // output pixels per canvas unit, before size limits
+  background: CanvasExportBackground
+  padding: number                    // canvas units around the exported items
+  pdfPages: 'single' | 'per-item' | 'per-frame'  // one page for everything, or a page per item or frame
+}
+
+export interface ExportBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Everything the export needs from the live canvas
+export interface CanvasExportTarget {
+  stage: Konva.Stage
+  layer: Konva.Layer        // the layer holding one top-level group per item, with id = item id
+  container: HTMLElement    // holds the DOM overlays (iframes, videos, GIFs) drawn over the stage
+  items: CanvasItem[]
+  sceneId: string
+}
+
+// Matches the InfiniteCanvas container behind the stage
+const CANVAS_BACKGROUND = '#555555'
+
+// Browsers refuse to allocate canvases much beyond these
+const MAX_OUTPUT_DIMENSION = 16384
+const MAX_OUTPUT_PIXELS = 64_000_000
+
+// One canvas unit is one CSS pixel, which is 3/4 of a PDF point
+const POINTS_PER_UNIT = 0.75
+// Largest page size PDF readers accept, in points
+const MAX_PDF_PAGE_SIZE = 14400
+
+const JPEG_QUALITY = 0.92
+
+/**
+ * Bounding box of the given items on the canvas, in canvas units, grown by padding.
+ * Returns null when none of the items are on the layer.
+ */
+export function getExportBounds(layer: Konva.Layer, ids: Set<string>, padding: number): ExportBounds | null {
+  const rects = getItemNodes(layer, ids).map((node) => node.getClientRect({ relativeTo: layer }))
+  if (rects.length === 0) return null
+  const left = Math.min(...rects.map((r) => r.x))
+  const top = Math.min(...rects.map((r) => r.y))
+  const right = Math.max(...rects.map((r) => r.x + r.width))
+  const bottom = Math.max(...rects.map((r) => r.y + r.height))
+  return {
+    x: left - padding,
+    y: top - padding,
+    width: right - left + padding * 2,
+    height: bottom - top + padding * 2,
+  }
+}
+
+/**
+ * Area an export covers. Frames among the items are pages: the output is cut to their edges,
+ * leaving out titles and padding. Without frames it's getExportBounds.
+ */
+export function getExportArea(
+  target: Pick<CanvasExportTarget, 'layer' | 'items'>,
+  ids: Set<string>,
+  padding: number
+): ExportBounds | null {
+  const frames = getOrderedFrames(target.items.filter((item) => ids.has(item.id)))
+  if (frames.length === 0) return getExportBounds(target.layer, ids, padding)
+
+  const framedIds = new Set(frames.flatMap((frame) => [frame.id, ...getFrameMembers(target.items, frame).map((m) => m.id)]))
+  const rects = [
+    ...frames.map(({ x, y, width, height }) => ({ x, y, width, height })),
+    ...getItemNodes(target.layer, ids)
+      .filter((node) => !framedIds.has(node.id()))
+      .map((node) => node.getClientRect({ relativeTo: target.layer })),
+  ]
+  const left = Math.min(...rects.map((r) => r.x))
+  const top = Math.min(...rects.map((r) => r.y))
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...rects.map((r) => r.x + r.width)) - left,
+    height: Math.max(...rects.map((r) => r.y + r.height)) - top,
+  }
+}
+
+/**
+ * Output pixels per canvas unit: the requested pixel ratio, reduced if the image would
+ * be larger than browsers can draw.
+ */
+export function getExportScale(bounds: ExportBounds, pixelRatio: number): number {
+  return Math.min(
+    pixelRatio,
+    MAX_OUTPUT_DIMENSION / Math.max(bounds.width, bounds.height),
+    Math.sqrt(MAX_OUTPUT_PIXELS / (bounds.width * bounds.height))
+  )
+}
+
+function getItemNodes(layer: Konva.Layer, ids: Set<string>): Konva.Node[] {
+  return layer.getChildren((node) => ids.has(node.id()))
+}
+
+function getBackgroundColor(background: CanvasExportBackground): string | null {
+  return background === 'canvas' ? CANVAS_BACKGROUND : background === 'white' ? '#ffffff' : null
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width))
+  canvas.height = Math.max(1, Math.round(height))
+  return canvas
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob)
+      else reject(new Error('Failed to encode image'))
+    }, type, quality)
+  })
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('Failed to load image'))
+    img.src = src
+  })
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+// Throws if drawing something cross-origin has tainted the canvas, before it spoils the export
+function assertReadable(canvas: HTMLCanvasElement) {
+  canvas.getContext('2d')!.getImageData(0, 0, 1, 1)
+}
+
+function isCrossOrigin(src: string): boolean {
+  const url = new URL(src, window.location.href)
+  return url.protocol !== 'data:' && url.protocol !== 'blob:' && url.origin !== window.location.origin
+}
+
+// Canvas-unit rectangle to the stage's absolute coordinates, which Konva's toCanvas expects
+function toStageRect(stage: Konva.Stage, rect: ExportBounds): ExportBounds {
+  const scale = stage.scaleX()
+  return {
+    x: rect.x * scale + stage.x(),
+    y: rect.y * scale + stage.y(),
+    width: rect.width * scale,
+    height: rect.height * scale,
+  }
+}
+
+/**
+ * Images loaded straight from S3 taint any canvas they're drawn into, which makes the
+ * export unreadable. Swap them for copies fetched through the content-data proxy while
+ * exporting; images that can't be fetched are left out. Returns a function that undoes it.
+ */
+async function swapInReadableImages(target: CanvasExportTarget, ids: Set<string>): Promise<() => void> {
+  const swapped: { node: Konva.Image; image: CanvasImageSource }[] = []
+  const hidden: Konva.Node[] = []
+  const objectUrls: string[] = []
+  const replacements = new Map<string, Promise<HTMLImageElement | null>>()
+
+  const loadReplacement = async (src: string, item: CanvasItem | undefined): Promise<HTMLImageElement | null> => {
+    try {
+      const blob = item?.type === 'image'
+        ? await getContentData(target.sceneId, item.id, 'image', src === item.cropSrc)
+        : await (await fetch(src)).blob()
+      const url = URL.createObjectURL(blob)
+      objectUrls.push(url)
+      return await loadImage(url)
+    } catch (error) {
+      console.error('Failed to load image for export:', error)
+      return null
+    }
+  }
+
+  for (const group of getItemNodes(target.layer, ids)) {
+    const item = target.items.find((i) => i.id === group.id())
+    const images = group instanceof Konva.Container ? group.find<Konva.Image>('Image') : []
+    for (const node of images) {
+      const image = node.image()
+      if (!(image instanceof HTMLImageElement) || !isCrossOrigin(image.src)) continue
+      if (!replacements.has(image.src)) replacements.set(image.src, loadReplacement(image.src, item))
+      const replacement = await replacements.get(image.src)!
+      if (replacement) {
+        swapped.push({ node, image })
+        node.image(replacement)
+      } else if (node.visible()) {
+        hidden.push(node)
+        node.visible(false)
+      }
+    }
+  }
+
+  return () => {
+    swapped.forEach(({ node, image }) => node.image(image))
+    hidden.forEach((node) => node.visible(true))
+    objectUrls.forEach((url) => URL.revokeObjectURL(url))
+  }
+}
+
+// Draw only the given items: everything else on the layer is hidden while fn runs
+async function withItemsIsolated<T>(layer: Konva.Layer, ids: Set<string>, fn: () => Promise<T>): Promise<T> {
+  const hidden = layer.getChildren((node) => !ids.has(node.id()) && node.visible())
+  hidden.forEach((node) => node.visible(false))
+  try {
+    return await fn()
+  } finally {
+    hidden.forEach((node) => node.visible(true))
+  }
+}
+
+// --- DOM overlays ---------------------------------------------------------------------
+
+// Content shown in the DOM over the stage rather than drawn by Konva, rendered to pixels
+interface OverlayRaster extends ExportBounds {
+  canvas: HTMLCanvasElement
+}
+
+/**
+ * Render an HTML document to a canvas through an SVG foreignObject. Scripts don't run and
+ * external stylesheets don't load; images are inlined where they can be fetched.
+ */
+async function rasterizeHtml(html: string, width: number, height: number, zoom: number, scale: number): Promise<HTMLCanvasElement> {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  doc.querySelectorAll('script, iframe, object, embed').forEach((el) => el.remove())
+  for (const img of Array.from(doc.querySelectorAll('img[src]'))) {
+    const src = img.getAttribute('src')!
+    if (src.startsWith('data:')) continue
+    try {
+      img.setAttribute('src', await blobToDataUrl(await (await fetch(new URL(src, window.location.href))).blob()))
+    } catch {
+      // Left as is; it won't load inside the SVG image
+    }
+  }
+
+  // The iframe lays the page out at width / zoom and scales it up by zoom
+  const xhtml = new XMLSerializer().serializeToString(doc.documentElement)
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width / zoom}" height="${height / zoom}">` +
+    `<foreignObject width="100%" height="100%">${xhtml}</foreignObject></svg>`
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`)
+
+  const canvas = createCanvas(width * scale, height * scale)
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+  assertReadable(canvas)
+  return canvas
+}
+
+/**
+ * Draw a video or image overlay where it sits in its item's box, including the offset and
+ * size the overlay gives it for a crop.
+ */
+function drawMediaElement(
+  element: HTMLElement,
+  source: CanvasImageSource,
+  item: CanvasItem & { scaleX?: number; scaleY?: number },
+  scale: number
+): OverlayRaster | null {
+  const wrapper = element.parentElement
+  if (!wrapper) return null
+  const wrapperRect = wrapper.getBoundingClientRect()
+  const elementRect = element.getBoundingClientRect()
+  if (wrapperRect.width === 0) return null
+  const rect = { x: item.x, y: item.y, width: item.width * (item.scaleX ?? 1), height: item.height * (item.scaleY ?? 1) }
+  const canvas = createCanvas(rect.width * scale, rect.height * scale)
+  const k = canvas.width / wrapperRect.width
+  canvas.getContext('2d')!.drawImage(
+    source,
+    (elementRect.left - wrapperRect.left) * k,
+    (elementRect.top - wrapperRect.top) * k,
+    elementRect.width * k,
+    elementRect.height * k
+  )
+  assertReadable(canvas)
+  return { ...rect, canvas }
+}
+
+async function renderItemOverlay(target: CanvasExportTarget, item: CanvasItem, scale: number): Promise<OverlayRaster | null> {
+  if (item.type === 'html') {
+    const rect = { x: item.x, y: item.y + HTML_HEADER_HEIGHT, width: item.width, height: item.height }
+    return { ...rect, canvas: await rasterizeHtml(item.html, rect.width, rect.height, item.zoom ?? 1, scale) }
+  }
+
+  if (item.type === 'text-file' && !item.minimized) {
+    // The rendered view (markdown, table or raw) is only built in the overlay iframe
+    const iframe = target.container.querySelector<HTMLIFrameElement>(`iframe[data-textfile-id="${item.id}"]`)
+    if (!iframe?.srcdoc) return null
+    const rect = { x: item.x, y: item.y + TEXTFILE_HEADER_HEIGHT, width: item.width, height: item.height }
+    return { ...rect, canvas: await rasterizeHtml(iframe.srcdoc, rect.width, rect.height, 1, scale) }
+  }
+
+  if (item.type === 'pdf' && !item.minimized) {
+    // First page fitted to the width, as the viewer opens it. Proxied to avoid S3 CORS.
+    const rect = { x: item.x, y: item.y + PDF_HEADER_HEIGHT, width: item.width, height: item.height }
+    const proxyUrl = `/api/w/${ACTIVE_WORKSPACE}/scenes/${target.sceneId}/content-data?contentId=${item.id}&contentType=pdf`
+    const page = await renderPdfPageToCanvas(proxyUrl, 1, rect.width * scale)
+    const canvas = createCanvas(rect.width * scale, rect.height * scale)
+    const ctx = canvas.getContext('2d')!
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.drawImage(page, 0, 0)
+    return { ...rect, canvas }
+  }
+
+  if (item.type === 'video') {
+    // The frame currently showing
+    const video = target.container.querySelector<HTMLVideoElement>(`video[data-video-id="${item.id}"]`)
+    if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return null
+    return drawMediaElement(video, video, item, scale)
+  }
+
+  if (item.type === 'image') {
+    // Animated GIFs are shown by an <img> over an empty stage rect; the export gets one frame
+    const img = target.container.querySelector<HTMLImageElement>(`img[data-gif-id="${item.id}"]`)
+    if (!img || !img.complete) return null
+    const source = isCrossOrigin(img.src)
+      ? await loadImage(URL.createObjectURL(await getContentData(target.sceneId, item.id, 'image', img.src === item.cropSrc)))
+      : img
+    try {
+      return drawMediaElement(img, source, item, scale)
+    } finally {
+      if (source !== img) URL.revokeObjectURL(source.src)
+    }
+  }
+
+  return null
+}
+
+async function renderOverlays(target: CanvasExportTarget, ids: Set<string>, scale: number): Promise<OverlayRaster[]> {
+  const overlays: OverlayRaster[] = []
+  for (const item of target.items) {
+    if (!ids.has(item.id)) continue
+    try {
+      const overlay = await renderItemOverlay(target, item, scale)
+      if (overlay) overlays.push(overlay)
+    } catch (error) {
+      // Leave the item's placeholder from the stage rather than failing the export
+      console.error(`Failed to render ${item.type} item for export:`, error)
+    }
+  }
+  return overlays
+}
+
+// --- Raster ---------------------------------------------------------------------------
+
+async function renderRaster(
+  target: CanvasExportTarget,
+  ids: Set<string>,
+  bounds: ExportBounds,
+  scale: number,
+  background: string | null
+): Promise<HTMLCanvasElement> {
+  const canvas = createCanvas(bounds.width * scale, bounds.height * scale)
+  const ctx = canvas.getContext('2d')!
+  if (background) {
+    ctx.fillStyle = background
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }
+
+  const stageScale = target.stage.scaleX()
+  const stageContent = await withItemsIsolated(target.layer, ids, async () =>
+    target.layer.toCanvas({ ...toStageRect(target.stage, bounds), pixelRatio: scale / stageScale })
+  )
+  ctx.drawImage(stageContent, 0, 0, canvas.width, canvas.height)
+
+  // Overlays sit above the whole stage on screen, so they go on top here too
+  for (const overlay of await renderOverlays(target, ids, scale)) {
+    ctx.drawImage(
+      overlay.canvas,
+      (overlay.x - bounds.x) * scale,
+      (overlay.y - bounds.y) * scale,
+      overlay.width * scale,
+      overlay.height * scale
+    )
+  }
+  return canvas
+}
+
+// --- PDF ------------------------------------------------------------------------------
+
+async function renderPdf(target: CanvasExportTarget, ids: Set<string>, options: CanvasExportOptions, title: string): Promise<Blob> {
+  // One page for everything, one per item in reading order (top to bottom, then left to
+  // right), or one per frame in page order with anything outside the frames last
+  let pageIds: Set<string>[] = [ids]
+  if (options.pdfPages === 'per-item') {
+    pageIds = getItemNodes(target.layer, ids)
+      .map((node) => ({ id: node.id(), rect: node.getClientRect({ relativeTo: target.layer }) }))
+      .sort((a, b) => a.rect.y - b.rect.y || a.rect.x - b.rect.x)
+      .map(({ id }) => new Set([id]))
+  } else if (options.pdfPages === 'per-frame') {
+    const loose = new Set(ids)
+    pageIds = getOrderedFrames(target.items.filter((item) => ids.has(item.id))).map((frame) => {
+      const page = new Set([frame.id, ...getFrameMembers(target.items, frame).map((m) => m.id)])
+      page.forEach((id) => loose.delete(id))
+      return page
+    })
+    if (loose.size > 0) pageIds.push(loose)
+  }
+
+  const pages: PdfImagePage[] = []
+  for (const pageSet of pageIds) {
+    const bounds = getExportArea(target, pageSet, options.padding)
+    if (!bounds) continue
+    // JPEG has no alpha, so a transparent background becomes white
+    const canvas = await renderRaster(
+      target,
+      pageSet,
+      bounds,
+      getExportScale(bounds, options.pixelRatio),
+      getBackgroundColor(options.background) ?? '#ffffff'
+    )
+    const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY)).arrayBuffer())
+    const fit = Math.min(1, MAX_PDF_PAGE_SIZE / (Math.max(bounds.width, bounds.height) * POINTS_PER_UNIT))
+    pages.push({
+      jpeg,
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      width: bounds.width * POINTS_PER_UNIT * fit,
+      height: bounds.height * POINTS_PER_UNIT * fit,
+    })
+  }
+  if (pages.length === 0) throw new Error('Nothing to export')
+  return createPdfDocument(pages, title)
+}
+
+// --- SVG ------------------------------------------------------------------------------
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function num(value: number): string {
+  return Number.isFinite(value) ? (Math.round(value * 1000) / 1000).toString() : '0'
+}
+
+// SVG 1.1 renderers don't all understand rgba(), so alpha goes in a separate opacity
+function colorAttr(name: 'fill' | 'stroke', color: unknown): string {
+  if (typeof color !== 'string' || !color || color === 'transparent') return ` ${name}="none"`
+  const rgba = color.match(/^rgba\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*\)$/)
+  if (rgba) return ` ${name}="rgb(${rgba[1]},${rgba[2]},${rgba[3]})" ${name}-opacity="${rgba[4]}"`
+  return ` ${name}="${escapeXml(color)}"`
+}
+
+function roundedRectPath(width: number, height: number, radii: number[]): string {
+  const max = Math.min(width, height) / 2
+  const [tl, tr, br, bl] = [0, 1, 2, 3].map((i) => Math.min(max, radii[i] ?? radii[0] ?? 0))
+  return `M${num(tl)} 0H${num(width - tr)}A${num(tr)} ${num(tr)} 0 0 1 ${num(width)} ${num(tr)}` +
+    `V${num(height - br)}A${num(br)} ${num(br)} 0 0 1 ${num(width - br)} ${num(height)}` +
+    `H${num(bl)}A${num(bl)} ${num(bl)} 0 0 1 0 ${num(height - bl)}V${num(tl)}A${num(tl)} ${num(tl)} 0 0 1 ${num(tl)} 0Z`
+}
+
+/**
+ * Writes the Konva tree as SVG elements in canvas units. Rectangles, ellipses, lines, text
+ * and images become their SVG equivalents; anything else (filters, cached nodes, custom
+ * clipping) is embedded as a raster of just that node.
+ */
+class SvgWriter {
+  private defs: string[] = []
+  private nextId = 0
+  private hrefs = new Map<string, Promise<string | null>>()
+
+  constructor(private target: CanvasExportTarget, private scale: number) {}
+
+  getDefs(): string {
+    return this.defs.length ? `<defs>${this.defs.join('')}</defs>` : ''
+  }
+
+  async writeNode(node: Konva.Node): Promise<string> {
+    if (!node.visible() || node.opacity() === 0) return ''
+
+    if (node instanceof Konva.Group) {
+      if (node.clipFunc() || node.isCached()) return this.writeRaster(node)
+      const children: string[] = []
+      for (const child of node.getChildren()) children.push(await this.writeNode(child))
+      const content = children.join('')
+      if (!content) return ''
+      let attrs = node.opacity() < 1 ? ` opacity="${num(node.opacity())}"` : ''
+      if (node.clipWidth() && node.clipHeight()) {
+        const id = `clip${this.nextId++}`
+        this.defs.push(
+          `<clipPath id="${id}"><rect x="${num(node.clipX() ?? 0)}" y="${num(node.clipY() ?? 0)}" ` +
+          `width="${num(node.clipWidth())}" height="${num(node.clipHeight())}"${this.transformAttr(node)}/></clipPath>`
+        )
+        attrs += ` clip-path="url(#${id})"`
+      }
+      return attrs ? `<g${attrs}>${content}</g>` : content
+    }
+
+    if (!(node instanceof Konva.Shape)) return ''
+    if (node.isCached() || (node.filters()?.length ?? 0) > 0) return this.writeRaster(node)
+
+    switch (node.getClassName()) {
+      case 'Rect': {
+        const rect = node as Konva.Rect
+        const radius = rect.cornerRadius()
+        const width = rect.width()
+        const height = rect.height()
+        if (Array.isArray(radius) && radius.some((r) => r > 0)) {
+          return `<path d="${roundedRectPath(width, height, radius)}"${this.transformAttr(rect)}${this.paintAttrs(rect)}/>`
+        }
+        const rx = typeof radius === 'number' && radius > 0 ? ` rx="${num(Math.min(radius, width / 2, height / 2))}"` : ''
+        return `<rect width="${num(width)}" height="${num(height)}"${rx}${this.transformAttr(rect)}${this.paintAttrs(rect)}/>`
+      }
+      case 'Circle': {
+        const circle = node as Konva.Circle
+        return `<circle r="${num(circle.radius())}"${this.transformAttr(circle)}${this.paintAttrs(circle)}/>`
+      }
+      case 'Ellipse': {
+        const ellipse = node as Konva.Ellipse
+        return `<ellipse rx="${num(ellipse.radiusX())}" ry="${num(ellipse.radiusY())}"${this.transformAttr(ellipse)}${this.paintAttrs(ellipse)}/>`
+      }
+      case 'Line': {
+        const line = node as Konva.Line
+        const points = line.points()
+        // Curves are drawn by Konva's own spline code
+        if (line.tension() > 0 || line.bezier()) return this.writeRaster(line)
+        if (points.length < 4) return ''
+        let d = `M${num(points[0])} ${num(points[1])}`
+        for (let i = 2; i + 1 < points.length; i += 2) d += `L${num(points[i])} ${num(points[i + 1])}`
+        const closed = line.closed()
+        return `<path d="${d}${closed ? 'Z' : ''}"${this.transformAttr(line)}${this.paintAttrs(line, !closed)}/>`
+      }
+      case 'Text':
+        return this.writeText(node as Konva.Text)
+      case 'Image':
+        return this.writeImage(node as Konva.Image)
+      default:
+        return this.writeRaster(node)
+    }
+  }
+
+  private transformAttr(node: Konva.Node): string {
+    const m = node.getAbsoluteTransform(this.target.layer).getMatrix()
+    return ` transform="matrix(${m.map(num).join(' ')})"`
+  }
+
+  private paintAttrs(shape: Konva.Shape, noFill = false): string {
+    let attrs = colorAttr('fill', noFill || !shape.fillEnabled() ? undefined : shape.fill())
+    if (shape.strokeEnabled() && shape.strokeWidth() > 0 && shape.stroke()) {
+      attrs += colorAttr('stroke', shape.stroke()) + ` stroke-width="${num(shape.strokeWidth())}"`
+      const dash = shape.dashEnabled() ? shape.dash() : undefined
+      if (dash?.length) attrs += ` stroke-dasharray="${dash.map(num).join(' ')}"`
+      if (shape.lineCap()) attrs += ` stroke-linecap="${shape.lineCap()}"`
+      if (shape.lineJoin()) attrs += ` stroke-linejoin="${shape.lineJoin()}"`
+    }
+    if (shape.opacity() < 1) attrs += ` opacity="${num(shape.opacity())}"`
+    return attrs
+  }
+
+  // Lines are taken from Konva's own wrapping, so the SVG breaks them where the canvas does
+  private writeText(text: Konva.Text): string {
+    if (!text.text() || text.textArr.length === 0) return ''
+    const fontSize = text.fontSize()
+    const lineHeight = text.lineHeight() * fontSize
+    const padding = text.padding()
+    const width = text.width()
+    const lines = text.textArr
+
+    let alignY = 0
+    if (text.verticalAlign() === 'middle') alignY = (text.height() - lines.length * lineHeight - padding * 2) / 2
+    else if (text.verticalAlign() === 'bottom') alignY = text.height() - lines.length * lineHeight - padding * 2
+
+    const align = text.align()
+    const [x, anchor] = align === 'center'
+      ? [width / 2, 'middle']
+      : align === 'right'
+        ? [width - padding, 'end']
+        : [padding, 'start']
+
+    const fontStyle = text.fontStyle()
+    const weight = fontStyle.match(/bold|\d{3}/)?.[0]
+    let attrs = ` font-family="${escapeXml(text.fontFamily())}" font-size="${num(fontSize)}"`
+    if (weight) attrs += ` font-weight="${weight}"`
+    if (fontStyle.includes('italic')) attrs += ` font-style="italic"`
+    if (anchor !== 'start') attrs += ` text-anchor="${anchor}"`
+    if (text.textDecoration()) attrs += ` text-decoration="${escapeXml(text.textDecoration())}"`
+    if (text.letterSpacing()) attrs += ` letter-spacing="${num(text.letterSpacing())}"`
+
+    const spans = lines
+      .map((line, i) => `<tspan x="${num(x)}" y="${num(padding + alignY + lineHeight * (i + 0.5))}">${escapeXml(line.text)}</tspan>`)
+      .join('')
+    // Konva draws each line centred on its line box, which is the 'central' baseline
+    return `<text xml:space="preserve" dominant-baseline="central"${attrs}${this.transformAttr(text)}${this.paintAttrs(text)}>${spans}</text>`
+  }
+
+  private async writeImage(image: Konva.Image): Promise<string> {
+    const source = image.image()
+    if (!source) return ''
+    const href = await this.getImageHref(source)
+    if (!href) return this.writeRaster(image)
+
+    const width = image.width()
+    const height = image.height()
+    const opacity = image.opacity() < 1 ? ` opacity="${num(image.opacity())}"` : ''
+    const crop = image.crop()
+    if (crop && crop.width > 0 && crop.height > 0) {
+      const natural = source instanceof HTMLImageElement
+        ? { width: source.naturalWidth, height: source.naturalHeight }
+        : { width: (source as HTMLCanvasElement).width, height: (source as HTMLCanvasElement).height }
+      return `<g${this.transformAttr(image)}${opacity}>` +
+        `<svg width="${num(width)}" height="${num(height)}" viewBox="${num(crop.x)} ${num(crop.y)} ${num(crop.width)} ${num(crop.height)}" preserveAspectRatio="none">` +
+        `<image width="${natural.width}" height="${natural.height}" preserveAspectRatio="none" xlink:href="${href}"/></svg></g>`
+    }
+    return `<image width="${num(width)}" height="${num(height)}" preserveAspectRatio="none" xlink:href="${href}"${this.transformAttr(image)}${opacity}/>`
+  }
+
+  // Image files are embedded as they are, so an SVG stays vector and a JPEG stays a JPEG
+  private getImageHref(source: CanvasImageSource): Promise<string | null> {
+    const key = source instanceof HTMLImageElement ? source.src : null
+    if (key && this.hrefs.has(key)) return this.hrefs.get(key)!
+    const href = (async () => {
+      if (source instanceof HTMLImageElement) {
+        if (source.src.startsWith('data:')) return source.src
+        try {
+          return await blobToDataUrl(await (await fetch(source.src)).blob())
+        } catch {
+          // Fall through to drawing it
+        }
+      }
+      try {
+        const width = source instanceof HTMLImageElement ? source.naturalWidth : (source as HTMLCanvasElement).width
+        const height = source instanceof HTMLImageElement ? source.naturalHeight : (source as HTMLCanvasElement).height
+        const canvas = createCanvas(width, height)
+        canvas.getContext('2d')!.drawImage(source, 0, 0)
+        return canvas.toDataURL('image/png')
+      } catch {
+        return null
+      }
+    })()
+    if (key) this.hrefs.set(key, href)
+    return href
+  }
+
+  writeRaster(node: Konva.Node): string {
+    const rect = node.getClientRect({ relativeTo: this.target.layer })
+    if (rect.width <= 0 || rect.height <= 0) return ''
+    try {
+      const canvas = node.toCanvas({ ...toStageRect(this.target.stage, rect), pixelRatio: this.scale / this.target.stage.scaleX() })
+      return `<image x="${num(rect.x)}" y="${num(rect.y)}" width="${num(rect.width)}" height="${num(rect.height)}" ` +
+        `preserveAspectRatio="none" xlink:href="${canvas.toDataURL('image/png')}"/>`
+    } catch (error) {
+      console.error(`Failed to rasterize ${node.getClassName()} for export:`, error)
+      return ''
+    }
+  }
+}
+
+async function renderSvg(
+  target: CanvasExportTarget,
+  ids: Set<string>,
+  bounds: ExportBounds,
+  scale: number,
+  background: string | null
+): Promise<Blob> {
+  const writer = new SvgWriter(target, scale)
+  let body = ''
+  for (const node of getItemNodes(target.layer, ids)) body += await writer.writeNode(node)
+  for (const overlay of await renderOverlays(target, ids, scale)) {
+    body += `<image x="${num(overlay.x)}" y="${num(overlay.y)}" width="${num(overlay.width)}" height="${num(overlay.height)}" ` +
+      `preserveAspectRatio="none" xlink:href="${overlay.canvas.toDataURL('image/png')}"/>`
+  }
+
+  const backgroundRect = background
+    ? `<rect x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.width)}" height="${num(bounds.height)}" fill="${background}"/>`
+    : ''
+  const svg = '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${num(bounds.width)}" height="${num(bounds.height)}" ` +
+    `viewBox="${num(bounds.x)} ${num(bounds.y)} ${num(bounds.width)} ${num(bounds.height)}">` +
+    `${writer.getDefs()}${backgroundRect}${body}</svg>\n`
+  return new Blob([svg], { type: 'image/svg+xml' })
+}
+
+// --- Entry point ----------------------------------------------------------------------
+
+/**
+ * Render items as they look on the canvas to a PNG, SVG or PDF. Selection outlines and
+ * transform handles are drawn by the stage too, so callers should clear the selection
+ * and let the stage redraw first.
+ */
+export async function exportCanvasImage(
+  target: CanvasExportTarget,
+  itemIds: string[],
+  options: CanvasExportOptions,
+  title: string
+): Promise<Blob> {
+  // Frames bring their contents along
+  const ids = new Set(itemIds)
+  for (const frame of getOrderedFrames(target.items.filter((item) => ids.has(item.id)))) {
+    getFrameMembers(target.items, frame).forEach((member) => ids.add(member.id))
+  }
+  const restoreImages = await swapInReadableImages(target, ids)
+  try {
+    if (options.format === 'pdf') return await renderPdf(target, ids, options, title)
+
+    const bounds = getExportArea(target, ids, options.padding)
+    if (!bounds) throw new Error('Nothing to export')
+    const scale = getExportScale(bounds, options.pixelRatio)
+    const background = getBackgroundColor(options.background)
+    if (options.format === 'svg') return await renderSvg(target, ids, bounds, scale, background)
+    return await canvasToBlob(await renderRaster(target, ids, bounds, scale, background), 'image/png')
+  } finally {
+    restoreImages()
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * How this browser appears to other people co-editing a scene.
+ * The display name is persisted in localStorage; colors are derived from the client ID.
+ */
+
+const NAME_KEY = 'gsworkspace-collaborator-name'
+
+const COLORS = ['#e11d48', '#d97706', '#16a34a', '#0891b2', '#2563eb', '#7c3aed', '#c026d3', '#ea580c']
+
+export function getCollaboratorName(): string {
+  const stored = localStorage.getItem(NAME_KEY)
+  if (stored) return stored
+  const name = `Guest ${Math.floor(1000 + Math.random() * 9000)}`
+  localStorage.setItem(NAME_KEY, name)
+  return name
+}
+
+export function setCollaboratorName(name: string): void {
+  localStorage.setItem(NAME_KEY, name)
+}
+
+export function getCollaboratorColor(clientId: string): string {
+  let hash = 0
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) | 0
+  }
+  return COLORS[Math.abs(hash) % COLORS.length]
+}
@@ -1,10 +1,11 @@
 import JSZip from 'jszip'
-import { CanvasItem, ImageItem, VideoItem, TextFileItem, PdfItem } from '../types'
+import { CanvasItem, ImageItem, VideoItem, TextFileItem, PdfItem, AudioItem } from '../types'
 import { getContentData } from '../api/scenes'
+import { annotateImage } from '../api/images'
 
 // --- Helpers ---
 
-function downloadBlob(blob: Blob, filename: string) {
+export function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
@@ -19,7 +20,7 @@ function downloadBlob(blob: Blob, filename: string) {
  * Show a native Save As dialog, falling back to a direct download.
  * Returns 'saved' | 'cancelled' | 'downloaded'.
  */
-async function saveAsOrDownload(blob: Blob, filename: string, description: string, mime: string, ext: string): Promise<'saved' | 'cancelled' | 'downloaded'> {
+export async function saveAsOrDownload(blob: Blob, filename: string, description: string, mime: string, ext: string): Promise<'saved' | 'cancelled' | 'downloaded'> {
   if ('showSaveFilePicker' in window) {
     try {
       const handle = await (window as unknown as { showSaveFilePicker: (opts: unknown) => Promise<FileSystemFileHandle> }).showSaveFilePicker({
@@ -79,6 +80,10 @@ const VIDEO_MIMES: Record<string, string> = {
   mov: 'video/quicktime', avi: 'video/x-msvideo', mkv: 'video/x-matroska',
 }
 
+const AUDIO_MIMES: Record<string, string> = {
+  mp3: 'audio/mpeg', wav: 'audio/wav', ogg: 'audio/ogg', m4a: 'audio/mp4',
+}
+
 const TEXT_MIMES: Record<string, string> = {
   txt: 'text/plain', csv: 'text/csv', json: 'application/json',
   js: 'text/javascript', ts: 'text/typescript', tsx: 'text/typescript',
@@ -89,7 +94,7 @@ const TEXT_MIMES: Record<string, string> = {
 
 // --- Blob fetching ---
 
-async function fetchBlob(src: string, sceneId: string, itemId: string, type: 'image' | 'video' | 'html' | 'pdf' | 'text-file', useCrop?: boolean): Promise<Blob> {
+async function fetchBlob(src: string, sceneId: string, itemId: string, type: 'image' | 'video' | 'html' | 'pdf' | 'text-file' | 'audio', useCrop?: boolean): Promise<Blob> {
   if (src.startsWith('data:') || src.startsWith('blob:')) {
     const response = await fetch(src)
     return response.blob()
@@ -99,6 +104,14 @@ async function fetchBlob(src: string, sceneId: string, itemId: string, type: 'im
 
 function getImageBlobInfo(imageItem: ImageItem, sceneId: string) {
   const srcToExport = imageItem.cropSrc || imageItem.src
+  // Annotations are baked in by the server, which always returns a PNG. Offline
+  // images exist only in the browser, so they're exported without them.
+  if (imageItem.annotations?.length && !srcToExport.startsWith('data:') && !srcToExport.startsWith('blob:')) {
+    const filename = `${imageItem.name || 'image'}.png`
+    const blobPromise = annotateImage(sceneId, imageItem.id, !!imageItem.cropSrc, imageItem.annotations,
+      { width: imageItem.width, height: imageItem.height })
+    return { ext: 'png', filename, blobPromise }
+  }
   const ext = getImageExtension(srcToExport)
   const filename = `${imageItem.name || 'image'}.${ext}`
   const blobPromise = fetchBlob(srcToExport, sceneId, imageItem.id, 'image', !!imageItem.cropSrc)
@@ -106,7 +119,7 @@ function getImageBlobInfo(imageItem: ImageItem, sceneId: string) {
 }
 
 function getVideoBlobInfo(videoItem: VideoItem, sceneId: string) {
-  const hasEdits = !!(videoItem.cropSrc || videoItem.cropRect || videoItem.speedFactor || videoItem.removeAudio || videoItem.trim)
+  const hasEdits = !!(videoItem.cropSrc || videoItem.cropRect || videoItem.speedFactor || videoItem.removeAudio || videoItem.trim || videoItem.segments || videoItem.captions || videoItem.callouts)
   const ext = hasEdits ? 'mp4' : getVideoExtension(videoItem.src)
   const filename = `${videoItem.name || 'video'}.${ext}`
   const exportSrc = videoItem.cropSrc ?? videoItem.src
@@ -114,6 +127,14 @@ function getVideoBlobInfo(videoItem: VideoItem, sceneId: string) {
   return { ext, filename, blobPromise }
 }
 
+// Trimmed audio keeps the original's format
+function getAudioBlobInfo(audioItem: AudioItem, sceneId: string) {
+  const ext = audioItem.format
+  const filename = `${audioItem.name || 'audio'}.${ext}`
+  const blobPromise = fetchBlob(audioItem.cropSrc ?? audioItem.src, sceneId, audioItem.id, 'audio', !!audioItem.cropSrc)
+  return { ext, filename, blobPromise }
+}
+
 function getTextFileBlobInfo(textFileItem: TextFileItem, sceneId: string) {
   const ext = textFileItem.fileFormat || 'txt'
   const filename = `${textFileItem.name || 'document'}.${ext}`
@@ -139,6 +160,11 @@ export async function downloadVideo(videoItem: VideoItem, sceneId: string) {
   downloadBlob(await blobPromise, filename)
 }
 
+export async function downloadAudio(audioItem: AudioItem, sceneId: string) {
+  const { filename, blobPromise } = getAudioBlobInfo(audioItem, sceneId)
+  downloadBlob(await blobPromise, filename)
+}
+
 export async function downloadTextFile(textFileItem: TextFileItem, sceneId: string) {
   const { filename, blobPromise } = getTextFileBlobInfo(textFileItem, sceneId)
   downloadBlob(await blobPromise, filename)
@@ -153,6 +179,7 @@ export async function downloadCanvasItem(item: CanvasItem, sceneId: string): Pro
   switch (item.type) {
     case 'image': await downloadImage(item as ImageItem, sceneId); return true
     case 'video': await downloadVideo(item as VideoItem, sceneId); return true
+    case 'audio': await downloadAudio(item as AudioItem, sceneId); return true
     case 'text-file': await downloadTextFile(item as TextFileItem, sceneId); return true
     case 'pdf': await downloadPdf(item as PdfItem, sceneId); return true
     default: return false
@@ -166,7 +193,7 @@ export async function downloadCanvasItem(item: CanvasItem, sceneId: string): Pro
 export async function downloadSelectedItems(items: CanvasItem[], selectedIds: string[], sceneId: string) {
   const selected = selectedIds
     .map(id => items.find(item => item.id === id))
-    .filter((item): item is CanvasItem => !!item && ['image', 'video', 'text-file', 'pdf'].includes(item.type))
+    .filter((item): item is CanvasItem => !!item && ['image', 'video', 'audio', 'text-file', 'pdf'].includes(item.type))
   for (const item of selected) {
     await downloadCanvasItem(item, sceneId)
   }
@@ -175,7 +202,7 @@ export async function downloadSelectedItems(items: CanvasItem[], selectedIds: st
 async function collectSelectedItemBlobs(items: CanvasItem[], selectedIds: string[], sceneId: string): Promise<{ filename: string; blob: Blob }[]> {
   const selected = selectedIds
     .map(id => items.find(item => item.id === id))
-    .filter((item): item is CanvasItem => !!item && ['image', 'video', 'text-file', 'pdf'].includes(item.type))
+    .filter((item): item is CanvasItem => !!item && ['image', 'video', 'audio', 'text-file', 'pdf'].includes(item.type))
 
   const results: { filename: string; blob: Blob }[] = []
   const usedNames = new Map<string, number>()
@@ -185,6 +212,7 @@ async function collectSelectedItemBlobs(items: CanvasItem[], selectedIds: string
     switch (item.type) {
       case 'image': info = getImageBlobInfo(item as ImageItem, sceneId); break
       case 'video': info = getVideoBlobInfo(item as VideoItem, sceneId); break
+      case 'audio': info = getAudioBlobInfo(item as AudioItem, sceneId); break
       case 'text-file': info = getTextFileBlobInfo(item as TextFileItem, sceneId); break
       case 'pdf': info = getPdfBlobInfo(item as PdfItem, sceneId); break
     }
@@ -275,6 +303,11 @@ export async function exportVideo(videoItem: VideoItem, sceneId: string): Promis
   return saveAsOrDownload(await blobPromise, filename, 'Video file', VIDEO_MIMES[ext] || 'video/mp4', ext)
 }
 
+export async function exportAudio(audioItem: AudioItem, sceneId: string): Promise<'saved' | 'cancelled' | 'downloaded'> {
+  const { ext, filename, blobPromise } = getAudioBlobInfo(audioItem, sceneId)
+  return saveAsOrDownload(await blobPromise, filename, 'Audio file', AUDIO_MIMES[ext] || 'audio/mpeg', ext)
+}
+
 export async function exportTextFile(textFileItem: TextFileItem, sceneId: string): Promise<'saved' | 'cancelled' | 'downloaded'> {
   const { ext, filename, blobPromise } = getTextFileBlobInfo(textFileItem, sceneId)
   return saveAsOrDownload(await blobPromise, filename, `${ext.toUpperCase()} file`, TEXT_MIMES[ext] || 'text/plain', ext)
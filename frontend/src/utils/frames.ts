@@ -0,0 +1,138 @@
+import { CanvasItem, FrameItem } from '../types'
+import {
+  PDF_MINIMIZED_WIDTH, PDF_MINIMIZED_HEIGHT,
+  TEXTFILE_MINIMIZED_WIDTH, TEXTFILE_MINIMIZED_HEIGHT,
+  MODEL3D_MINIMIZED_WIDTH, MODEL3D_MINIMIZED_HEIGHT,
+  SPLAT_MINIMIZED_WIDTH, SPLAT_MINIMIZED_HEIGHT,
+} from '../constants/canvas'
+
+export interface ItemBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export function isFrame(item: CanvasItem): item is FrameItem {
+  return item.type === 'frame'
+}
+
+/**
+ * Area an item covers on the canvas, accounting for scale and minimized items.
+ */
+export function getItemBox(item: CanvasItem): ItemBox {
+  let width = item.width
+  let height = item.height
+  if (item.type === 'image' || item.type === 'video') {
+    width *= item.scaleX ?? 1
+    height *= item.scaleY ?? 1
+  } else if (item.type === 'text') {
+    width += 16  // text blocks are drawn with 8px padding on each side
+  } else if (item.type === 'pdf' && item.minimized) {
+    width = PDF_MINIMIZED_WIDTH
+    height = PDF_MINIMIZED_HEIGHT
+  } else if (item.type === 'text-file' && item.minimized) {
+    width = TEXTFILE_MINIMIZED_WIDTH
+    height = TEXTFILE_MINIMIZED_HEIGHT
+  } else if (item.type === 'model3d' && item.minimized) {
+    width = MODEL3D_MINIMIZED_WIDTH
+    height = MODEL3D_MINIMIZED_HEIGHT
+  } else if (item.type === 'splat' && item.minimized) {
+    width = SPLAT_MINIMIZED_WIDTH
+    height = SPLAT_MINIMIZED_HEIGHT
+  }
+  return { x: item.x, y: item.y, width, height }
+}
+
+/**
+ * The scene's frames in page order: by `order`, then top to bottom and left to right.
+ */
+export function getOrderedFrames(items: CanvasItem[]): FrameItem[] {
+  return items
+    .filter(isFrame)
+    .sort((a, b) => a.order - b.order || a.y - b.y || a.x - b.x)
+}
+
+/**
+ * Order for a new frame, after every existing one.
+ */
+export function getNextFrameOrder(items: CanvasItem[]): number {
+  const frames = items.filter(isFrame)
+  return frames.length > 0 ? Math.max(...frames.map((f) => f.order)) + 1 : 1
+}
+
+/**
+ * The frame an item belongs to: the one its centre lies in, or the smallest of them when
+ * frames overlap. Frames never belong to other frames.
+ */
+export function getItemFrame(items: CanvasItem[], item: CanvasItem): FrameItem | undefined {
+  if (isFrame(item)) return undefined
+  const box = getItemBox(item)
+  const cx = box.x + box.width / 2
+  const cy = box.y + box.height / 2
+  let owner: FrameItem | undefined
+  for (const frame of items) {
+    if (!isFrame(frame)) continue
+    if (cx < frame.x || cx > frame.x + frame.width || cy < frame.y || cy > frame.y + frame.height) continue
+    if (!owner || frame.width * frame.height < owner.width * owner.height) owner = frame
+  }
+  return owner
+}
+
+/**
+ * Items a frame owns, in scene order.
+ */
+export function getFrameMembers(items: CanvasItem[], frame: FrameItem): CanvasItem[] {
+  return items.filter((item) => getItemFrame(items, item)?.id === frame.id)
+}
+
+/**
+ * Ids of the items that move along when the given items are dragged: the members of
+ * dragged frames that aren't being dragged themselves.
+ */
+export function getCarriedItemIds(items: CanvasItem[], draggedIds: string[]): string[] {
+  const dragged = new Set(draggedIds)
+  return items
+    .filter((item) => {
+      if (dragged.has(item.id)) return false
+      const frame = getItemFrame(items, item)
+      return !!frame && dragged.has(frame.id)
+    })
+    .map((item) => item.id)
+}
+
+/**
+ * Replace frames in a list of items with their members, keeping scene order and dropping
+ * duplicates.
+ */
+export function expandFrames(items: CanvasItem[], selection: CanvasItem[]): CanvasItem[] {
+  const ids = new Set<string>()
+  for (const item of selection) {
+    if (isFrame(item)) {
+      for (const member of getFrameMembers(items, item)) ids.add(member.id)
+    } else {
+      ids.add(item.id)
+    }
+  }
+  return items.filter((item) => ids.has(item.id))
+}
+
+/**
+ * What a prompt works on: the selection (without the prompt), or when nothing else is
+ * selected, the frame the prompt sits in. Frames are kept as frames; see expandFrames.
+ */
+export function getPromptSelection(items: CanvasItem[], selectedIds: string[], promptId?: string): CanvasItem[] {
+  const selected = items.filter((item) => selectedIds.includes(item.id) && item.id !== promptId)
+  if (selected.length > 0 || !promptId) return selected
+  const prompt = items.find((item) => item.id === promptId)
+  const frame = prompt && getItemFrame(items, prompt)
+  return frame ? [frame] : []
+}
+
+/**
+ * Content items a prompt sends as input, with frames replaced by their members.
+ */
+export function getPromptInputItems(items: CanvasItem[], selectedIds: string[], promptId?: string): CanvasItem[] {
+  return expandFrames(items, getPromptSelection(items, selectedIds, promptId))
+    .filter((item) => item.id !== promptId)
+}
@@ -0,0 +1,111 @@
+import { ImageItem, ImageAnnotation } from '../types'
+import type { ContentItem } from '../api/llm'
+
+export const ANNOTATION_COLORS = ['#ff3b30', '#ff9500', '#ffcc00', '#34c759', '#007aff', '#000000', '#ffffff']
+
+export type AnnotationSize = 'small' | 'medium' | 'large'
+
+const SIZE_FACTORS: Record<AnnotationSize, number> = { small: 0.5, medium: 1, large: 2 }
+
+/**
+ * Default stroke width, font size and step marker radius, in item units. Scaled to
+ * the item so markup looks the same on a thumbnail-sized image as on a full screenshot.
+ */
+export function getAnnotationSizes(item: { width: number; height: number }, size: AnnotationSize) {
+  const unit = (Math.min(item.width, item.height) / 400) * SIZE_FACTORS[size]
+  return {
+    // Kept within the ranges the server accepts
+    strokeWidth: Math.min(100, Math.max(0.5, unit * 3)),
+    fontSize: Math.min(400, Math.max(4, unit * 14)),
+    radius: Math.min(200, Math.max(4, unit * 11)),
+  }
+}
+
+/** The number shown on each step marker, by annotation index (1-based, in list order) */
+export function getStepNumbers(annotations: ImageAnnotation[]): Map<number, number> {
+  const numbers = new Map<number, number>()
+  annotations.forEach((annotation, index) => {
+    if (annotation.type === 'step') numbers.set(index, numbers.size + 1)
+  })
+  return numbers
+}
+
+/** A box given by a corner and a signed size, as {x, y, width, height} with positive size */
+export function normalizeBox(box: { x: number; y: number; width: number; height: number }) {
+  return {
+    x: Math.min(box.x, box.x + box.width),
+    y: Math.min(box.y, box.y + box.height),
+    width: Math.abs(box.width),
+    height: Math.abs(box.height),
+  }
+}
+
+/** Tip, and the two back corners, of an arrow's triangular head (same shape as the server draws) */
+export function getArrowHead(annotation: { x1: number; y1: number; x2: number; y2: number; strokeWidth: number }) {
+  const { x1, y1, x2, y2, strokeWidth } = annotation
+  const angle = Math.atan2(y2 - y1, x2 - x1)
+  const headLength = strokeWidth * 4
+  const baseX = x2 - headLength * Math.cos(angle)
+  const baseY = y2 - headLength * Math.sin(angle)
+  const spreadX = headLength * 0.6 * Math.sin(angle)
+  const spreadY = headLength * 0.6 * Math.cos(angle)
+  return { baseX, baseY, points: [x2, y2, baseX + spreadX, baseY - spreadY, baseX - spreadX, baseY + spreadY] }
+}
+
+function distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1
+  const dy = y2 - y1
+  const lengthSq = dx * dx + dy * dy
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq))
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy))
+}
+
+/** Whether (x, y) is on an annotation, within `tolerance` item units of its outline */
+export function hitTestAnnotation(annotation: ImageAnnotation, x: number, y: number, tolerance: number): boolean {
+  switch (annotation.type) {
+    case 'arrow':
+      return distanceToSegment(x, y, annotation.x1, annotation.y1, annotation.x2, annotation.y2) <= tolerance + annotation.strokeWidth
+    case 'rect':
+    case 'ellipse':
+    case 'redact': {
+      const box = normalizeBox(annotation)
+      return x >= box.x - tolerance && x <= box.x + box.width + tolerance &&
+        y >= box.y - tolerance && y <= box.y + box.height + tolerance
+    }
+    case 'pen':
+      for (let i = 2; i < annotation.points.length; i += 2) {
+        const [x1, y1, x2, y2] = annotation.points.slice(i - 2, i + 2)
+        if (distanceToSegment(x, y, x1, y1, x2, y2) <= tolerance + annotation.strokeWidth) return true
+      }
+      return false
+    case 'text': {
+      const lines = annotation.text.split('\n')
+      const width = Math.max(...lines.map((line) => line.length)) * annotation.fontSize * 0.6
+      const height = lines.length * annotation.fontSize * 1.25
+      return x >= annotation.x - tolerance && x <= annotation.x + width + tolerance &&
+        y >= annotation.y - tolerance && y <= annotation.y + height + tolerance
+    }
+    case 'step':
+      return Math.hypot(x - annotation.x, y - annotation.y) <= annotation.radius + tolerance
+  }
+}
+
+export function moveAnnotation(annotation: ImageAnnotation, dx: number, dy: number): ImageAnnotation {
+  switch (annotation.type) {
+    case 'arrow':
+      return { ...annotation, x1: annotation.x1 + dx, y1: annotation.y1 + dy, x2: annotation.x2 + dx, y2: annotation.y2 + dy }
+    case 'pen':
+      return { ...annotation, points: annotation.points.map((value, i) => value + (i % 2 === 0 ? dx : dy)) }
+    default:
+      return { ...annotation, x: annotation.x + dx, y: annotation.y + dy }
+  }
+}
+
+/**
+ * Fields that ask the server to bake an image's annotations into what it sends the LLM.
+ * Empty when the image has none.
+ */
+export function getAnnotationContent(item: ImageItem): Pick<ContentItem, 'annotations' | 'annotationSpace'> {
+  if (!item.annotations?.length) return {}
+  return { annotations: item.annotations, annotationSpace: { width: item.width, height: item.height } }
+}
@@ -0,0 +1,62 @@
+import { ImageItem, ImageEdit } from '../types'
+import { CropImageResult } from '../api/images'
+
+/**
+ * Whether an image has edits beyond a crop. A crop alone can be drawn from the original
+ * by Konva, but edited images have to be shown from the server-rendered cropSrc.
+ */
+export function hasImageEdits(item: ImageItem): boolean {
+  return (item.edits?.length ?? 0) > 0 || !!item.editFormat
+}
+
+/** Pixel size after applying `edits` to an image of the given size */
+export function sizeAfterEdits(
+  size: { width: number; height: number },
+  edits: ImageEdit[]
+): { width: number; height: number } {
+  return edits.reduce((current, edit) => {
+    if (edit.type === 'rotate' && edit.degrees !== 180) {
+      return { width: current.height, height: current.width }
+    }
+    if (edit.type === 'resize') {
+      return { width: edit.width, height: edit.height }
+    }
+    return current
+  }, size)
+}
+
+/** Short label for an edit step, as listed in the Adjust Image dialog */
+export function describeImageEdit(edit: ImageEdit): string {
+  switch (edit.type) {
+    case 'rotate':
+      return edit.degrees === 270 ? 'Rotate 90° left' : `Rotate ${edit.degrees}° right`
+    case 'flip':
+      return edit.direction === 'horizontal' ? 'Flip horizontal' : 'Flip vertical'
+    case 'resize':
+      return `Resize to ${edit.width}×${edit.height}`
+    case 'brightness':
+      return `Brightness ${Math.round(edit.amount * 100)}%`
+    case 'contrast':
+      return `Contrast ${Math.round(edit.amount * 100)}%`
+    case 'saturation':
+      return `Saturation ${Math.round(edit.amount * 100)}%`
+    case 'grayscale':
+      return 'Grayscale'
+    case 'sharpen':
+      return `Sharpen ${edit.sigma}`
+  }
+}
+
+/**
+ * Item changes for a finished server render: the cache-busted edited file and, when the
+ * edits changed the aspect ratio, a new height. The displayed width is kept, so resizing
+ * changes the pixel count without changing the item's size on the canvas.
+ */
+export function editedImageChanges(item: ImageItem, result: CropImageResult): Partial<ImageItem> {
+  const cacheBustedUrl = `${result.url}${result.url.includes('?') ? '&' : '?'}t=${Date.now()}`
+  return {
+    cropSrc: cacheBustedUrl,
+    cropSrcFileSize: result.fileSize,
+    height: item.width * (result.height / result.width),
+  }
+}
@@ -101,3 +101,12 @@ export function getExistingSplatNames(items: Array<{ type: string; name?: string
     .filter((item) => item.type === 'splat' && item.name)
     .map((item) => item.name as string)
 }
+
+/**
+ * Get all existing audio names from a list of canvas items.
+ */
+export function getExistingAudioNames(items: Array<{ type: string; name?: string }>): string[] {
+  return items
+    .filter((item) => item.type === 'audio' && item.name)
+    .map((item) => item.name as string)
+}
@@ -0,0 +1,97 @@
+/**
+ * Minimal PDF writer for image pages: each page shows one JPEG filling the page.
+ * Enough for slide-deck style exports without pulling in a PDF library.
+ */
+
+export interface PdfImagePage {
+  jpeg: Uint8Array       // baseline JPEG data
+  pixelWidth: number     // JPEG size in pixels
+  pixelHeight: number
+  width: number          // page size in points (1/72 inch)
+  height: number
+}
+
+const encoder = new TextEncoder()
+
+function formatNumber(value: number): string {
+  return (Math.round(value * 100) / 100).toString()
+}
+
+/**
+ * Build a PDF with one page per image. Pages may differ in size.
+ */
+export function createPdfDocument(pages: PdfImagePage[], title?: string): Blob {
+  const parts: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data
+    parts.push(bytes)
+    length += bytes.length
+  }
+  const beginObject = (id: number) => {
+    offsets[id] = length
+    write(`${id} 0 obj\n`)
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3 info, then page, contents and image for each page
+  const pageId = (index: number) => 4 + index * 3
+  const objectCount = 4 + pages.length * 3
+
+  // The binary comment marks the file as containing binary data
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')
+
+  beginObject(1)
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n')
+
+  beginObject(2)
+  const kids = pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`)
+
+  beginObject(3)
+  // Hex strings are UTF-16BE with a byte order mark, so any title survives
+  const titleHex = title
+    ? 'FEFF' + Array.from(title).map((ch) => {
+      const code = ch.codePointAt(0)!
+      if (code <= 0xffff) return code.toString(16).padStart(4, '0')
+      const offset = code - 0x10000
+      return ((0xd800 + (offset >> 10)).toString(16) + (0xdc00 + (offset & 0x3ff)).toString(16))
+    }).join('').toUpperCase()
+    : ''
+  write(`<< /Producer (gsworkspace)${titleHex ? ` /Title <${titleHex}>` : ''} >>\nendobj\n`)
+
+  pages.forEach((page, i) => {
+    const id = pageId(i)
+    const width = formatNumber(page.width)
+    const height = formatNumber(page.height)
+
+    beginObject(id)
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`
+    )
+
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`
+    beginObject(id + 1)
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`)
+
+    beginObject(id + 2)
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    )
+    write(page.jpeg)
+    write('\nendstream\nendobj\n')
+  })
+
+  const xrefOffset = length
+  let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`
+  for (let id = 1; id < objectCount; id++) {
+    xref += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`
+  }
+  write(xref)
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' })
+}
@@ -46,3 +46,30 @@ export async function renderPdfPageToDataUrl(
 
   return { dataUrl, width, height }
 }
+
+/**
+ * Render a single page of a PDF onto a canvas scaled to a given width, the way the
+ * PDF viewer on the canvas fits pages to the item's width.
+ * @param pdfUrl - URL of the PDF file
+ * @param pageNum - 1-based page number to render
+ * @param targetWidth - desired render width in pixels
+ */
+export async function renderPdfPageToCanvas(
+  pdfUrl: string,
+  pageNum: number,
+  targetWidth: number,
+): Promise<HTMLCanvasElement> {
+  const pdf = await pdfjsLib.getDocument(pdfUrl).promise
+  const page = await pdf.getPage(Math.min(pageNum, pdf.numPages))
+
+  const viewport = page.getViewport({ scale: targetWidth / page.getViewport({ scale: 1 }).width })
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.ceil(viewport.width)
+  canvas.height = Math.ceil(viewport.height)
+
+  await page.render({ canvas, viewport }).promise
+
+  page.cleanup()
+  await pdf.destroy()
+  return canvas
+}
@@ -1,4 +1,5 @@
 import { CanvasItem } from '../types'
+import { expandFrames, getPromptSelection, isFrame } from './frames'
 
 const TYPE_LABELS: Record<string, string> = {
   'text': 'text',
@@ -18,16 +19,20 @@ export function getPromptContextSummary(
   selectedIds: string[],
   promptId: string
 ): string[] {
-  const selectedSet = new Set(selectedIds)
-  selectedSet.delete(promptId)
+  // Selected frames count as their contents; with nothing selected, the prompt's frame does
+  const selection = getPromptSelection(items, selectedIds, promptId || undefined)
+  const inputs = expandFrames(items, selection).filter((item) => item.id !== promptId)
 
   const counts: Record<string, number> = {}
-  for (const item of items) {
-    if (!selectedSet.has(item.id)) continue
+  for (const item of inputs) {
     const label = TYPE_LABELS[item.type] ?? item.type
     counts[label] = (counts[label] ?? 0) + 1
   }
 
   const lines = Object.entries(counts).map(([label, count]) => `${count} ${label}`)
-  return lines.length > 0 ? lines : ['No context selected']
+  if (lines.length === 0) return ['No context selected']
+  if (selection.length === 1 && isFrame(selection[0]) && !selectedIds.includes(selection[0].id)) {
+    lines.push(`from frame ${selection[0].name}`)
+  }
+  return lines
 }
@@ -1,5 +1,5 @@
 import JSZip from 'jszip'
-import { Scene, ImageItem, VideoItem } from '../types'
+import { Scene, ImageItem, VideoItem, SCENE_FILE_VERSION } from '../types'
 import { SerializedHistory } from '../history'
 import { getContentData } from '../api/scenes'
 
@@ -128,6 +128,7 @@ export async function exportScene(
 
   // Create a copy of the scene to modify image paths
   const exportScene = JSON.parse(JSON.stringify(scene)) as Scene
+  exportScene.version = SCENE_FILE_VERSION
 
   // Process images and add to ZIP
   const imageItems = exportScene.items.filter(
@@ -144,6 +145,8 @@ export async function exportScene(
 
       // Update the item's src to use relative path
       item.src = `images/${filename}`
+      // Only the converted image is exported, not a HEIC/TIFF original
+      delete item.originalSrc
 
       // If there's a cropped version, save it too
       if (item.cropSrc) {
@@ -168,7 +171,7 @@ export async function exportScene(
   for (const item of videoItems) {
     try {
       // Determine if we should fetch the edited/cropped version
-      const hasEdits = !!(item.cropSrc || item.cropRect || item.speedFactor || item.removeAudio || item.trim)
+      const hasEdits = !!(item.cropSrc || item.cropRect || item.speedFactor || item.removeAudio || item.trim || item.segments || item.captions || item.callouts)
       const blob = await fetchVideoAsBlob(scene.id, item.id, item.src, hasEdits)
       const ext = getVideoExtension(item.src, blob)
       const filename = `${item.id}.${ext}`
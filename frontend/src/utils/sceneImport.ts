@@ -2,6 +2,7 @@ import JSZip from 'jszip'
 import { v4 as uuidv4 } from 'uuid'
 import { Scene, ImageItem, VideoItem } from '../types'
 import { SerializedHistory } from '../history'
+import { migrateScene } from './sceneMigrations'
 
 /**
  * Converts a File/Blob to a data URL
@@ -35,7 +36,7 @@ export async function importSceneFromZip(file: File): Promise<ImportResult> {
     throw new Error('Invalid scene archive: missing scene.json')
   }
   const sceneJson = await sceneFile.async('string')
-  const scene = JSON.parse(sceneJson) as Scene
+  const scene = migrateScene(JSON.parse(sceneJson)) as unknown as Scene
 
   // Read history.json (optional - may not exist in older exports)
   let history: SerializedHistory = { records: [], currentIndex: -1 }
@@ -113,7 +114,7 @@ export async function importSceneFromDirectory(
 
   // Read scene.json
   const sceneJson = await sceneFile.text()
-  const scene = JSON.parse(sceneJson) as Scene
+  const scene = migrateScene(JSON.parse(sceneJson)) as unknown as Scene
 
   // Find and read history.json (optional)
   let history: SerializedHistory = { records: [], currentIndex: -1 }
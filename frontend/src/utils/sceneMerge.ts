@@ -0,0 +1,62 @@
+import { CanvasItem } from '../types'
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Field by field: take theirs wherever ours still matches the base
+function mergeItem(base: CanvasItem, ours: CanvasItem, theirs: CanvasItem): CanvasItem {
+  const merged: Record<string, unknown> = { ...ours }
+  const baseFields = base as unknown as Record<string, unknown>
+  const theirFields = theirs as unknown as Record<string, unknown>
+  for (const key of new Set([...Object.keys(baseFields), ...Object.keys(merged), ...Object.keys(theirFields)])) {
+    if (!same(merged[key], baseFields[key])) continue
+    if (key in theirFields) merged[key] = theirFields[key]
+    else delete merged[key]
+  }
+  return merged as unknown as CanvasItem
+}
+
+/**
+ * Three-way merge of a scene's items after a collaborator saved it. `base` is the version
+ * both sides started from (our last save), `ours` the open copy and `theirs` the saved
+ * one. Their changes are taken wherever we haven't changed the same thing, so edits that
+ * never reached us as ops (e.g. video edits, LLM output) aren't overwritten by our next
+ * save. Where both sides changed a field, ours wins; it's saved on top of theirs.
+ */
+export function mergeSceneItems(base: CanvasItem[], ours: CanvasItem[], theirs: CanvasItem[]): CanvasItem[] {
+  const baseById = new Map(base.map((item) => [item.id, item]))
+  const theirsById = new Map(theirs.map((item) => [item.id, item]))
+  const oursIds = new Set(ours.map((item) => item.id))
+
+  const merged: CanvasItem[] = []
+  for (const item of ours) {
+    const baseItem = baseById.get(item.id)
+    const theirItem = theirsById.get(item.id)
+    if (!baseItem) {
+      // Added here
+      merged.push(item)
+    } else if (!theirItem) {
+      // Deleted by them; keep it only if we changed it since
+      if (!same(item, baseItem)) merged.push(item)
+    } else if (same(item, baseItem)) {
+      merged.push(theirItem)
+    } else if (same(theirItem, baseItem)) {
+      merged.push(item)
+    } else {
+      merged.push(mergeItem(baseItem, item, theirItem))
+    }
+  }
+  // Added by them. Items we deleted stay deleted.
+  for (const item of theirs) {
+    if (!oursIds.has(item.id) && !baseById.has(item.id)) merged.push(item)
+  }
+
+  // Keep their stacking order unless we reordered too
+  if (!same(ours.map((item) => item.id), base.map((item) => item.id))) return merged
+  const theirOrder = new Map(theirs.map((item, index) => [item.id, index]))
+  return merged
+    .map((item, index) => ({ item, index: theirOrder.get(item.id) ?? theirs.length + index }))
+    .sort((a, b) => a.index - b.index)
+    .map(({ item }) => item)
+}
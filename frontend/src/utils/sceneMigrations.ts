@@ -0,0 +1,78 @@
+import { SCENE_FILE_VERSION } from '../types'
+
+/**
+ * Upgrades imported scene.json files from older file versions, mirroring the backend's
+ * registry in services/sceneMigrations.ts. Exported scenes hold item URLs/paths where
+ * stored scenes hold filenames, so migrations here only touch fields both forms share.
+ */
+
+interface SceneDocument {
+  version?: string
+  items: SceneDocumentItem[]
+  [key: string]: unknown
+}
+
+interface SceneDocumentItem {
+  id: string
+  type: string
+  [key: string]: unknown
+}
+
+interface SceneMigration {
+  from: number  // upgrades documents at this version to version from + 1
+  migrate: (scene: SceneDocument) => SceneDocument
+}
+
+// Fields that scenes saved before versioning could leave out
+const V0_ITEM_DEFAULTS: Record<string, Record<string, unknown>> = {
+  'prompt': { model: 'claude-sonnet' },
+  'image-gen-prompt': { model: 'gemini-imagen' },
+  'html-gen-prompt': { model: 'claude-sonnet' },
+  'html': { label: 'HTML' },
+  'text-file': { fileFormat: 'txt' },
+  'model3d': { format: 'glb' },
+  'splat': { format: 'splat' },
+}
+
+const MIGRATIONS: SceneMigration[] = [
+  {
+    from: 0,
+    migrate: (scene) => ({
+      ...scene,
+      items: scene.items.map((item) => {
+        const defaults = V0_ITEM_DEFAULTS[item.type]
+        if (!defaults) return item
+        const filled = { ...item }
+        for (const [field, value] of Object.entries(defaults)) {
+          if (!filled[field]) filled[field] = value
+        }
+        return filled
+      }),
+    }),
+  },
+]
+
+/**
+ * Upgrade a parsed scene.json to SCENE_FILE_VERSION.
+ * Throws if the file is from a newer version of the app.
+ */
+export function migrateScene(scene: SceneDocument): SceneDocument {
+  const currentVersion = Number(SCENE_FILE_VERSION)
+  const fromVersion = scene.version === undefined || scene.version === null ? 0 : Number(scene.version)
+  if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+    throw new Error(`Invalid scene version: ${String(scene.version)}`)
+  }
+  if (fromVersion > currentVersion) {
+    throw new Error(`This scene was saved by a newer version of the app (scene version ${fromVersion})`)
+  }
+
+  let migrated: SceneDocument = { ...scene, items: Array.isArray(scene.items) ? scene.items : [] }
+  for (let version = fromVersion; version < currentVersion; version++) {
+    const migration = MIGRATIONS.find((m) => m.from === version)
+    if (!migration) {
+      throw new Error(`No migration registered from scene version ${version}`)
+    }
+    migrated = migration.migrate(migrated)
+  }
+  return { ...migrated, version: SCENE_FILE_VERSION }
+}
@@ -4,10 +4,16 @@
  * returning results that callers can use to update the scene.
  */
 
-import { ImageItem, VideoItem } from '../types'
+import { ImageItem, VideoItem, AudioItem, AudioFormat } from '../types'
 import { getContentData } from '../api/scenes'
-import { uploadImage } from '../api/images'
-import { uploadVideo, convertMedia } from '../api/videos'
+import { uploadImage, combineImages, CombineImagesOptions, ImageCompositeLayout } from '../api/images'
+import { uploadVideo, convertMedia, combineVideos, captureVideoFrame, ConvertMediaResult } from '../api/videos'
+import type { MediaJob } from '../api/jobs'
+import { convertAudio, extractAudio, AudioItemResult } from '../api/audio'
+import { AUDIO_DEFAULT_WIDTH, AUDIO_DEFAULT_HEIGHT } from '../constants/canvas'
+import { formatTimestamp } from './timestamp'
+import { hasImageEdits } from './imageEdits'
+import { getAnnotationContent } from './imageAnnotations'
 import { v4 as uuidv4 } from 'uuid'
 
 export interface DuplicateImageResult {
@@ -46,7 +52,7 @@ export async function duplicateImage(
   imageItem: ImageItem
 ): Promise<DuplicateImageResult> {
   // Determine if we're duplicating the edited (cropped) version
-  const hasEdit = !!imageItem.cropRect
+  const hasEdit = !!imageItem.cropRect || hasImageEdits(imageItem)
 
   // Get the content data directly from the server
   const blob = await getContentData(sceneId, imageItem.id, 'image', hasEdit)
@@ -68,8 +74,9 @@ export async function duplicateImage(
   })
 
   // Generate item ID and upload to scene folder
-  // Preserve source extension (e.g. gif) instead of always using png
-  const ext = getExtensionFromSrc(imageItem.src, 'png')
+  // Preserve source extension (e.g. gif) instead of always using png; edits may
+  // have converted the edited file to another format
+  const ext = getExtensionFromSrc(hasImageEdits(imageItem) && imageItem.cropSrc ? imageItem.cropSrc : imageItem.src, 'png')
   const id = uuidv4()
   const url = await uploadImage(dataUrl, sceneId, id, `${imageItem.name || 'image'}.${ext}`)
 
@@ -110,7 +117,7 @@ export async function duplicateVideo(
   isOffline: boolean
 ): Promise<DuplicateVideoResult> {
   // Determine if we're duplicating the edited version
-  const hasEdit = !!(videoItem.cropRect || videoItem.speedFactor || videoItem.removeAudio || videoItem.trim)
+  const hasEdit = !!(videoItem.cropRect || videoItem.speedFactor || videoItem.removeAudio || videoItem.trim || videoItem.segments || videoItem.captions || videoItem.callouts)
 
   // Get the content data directly from the server
   const blob = await getContentData(sceneId, videoItem.id, 'video', hasEdit)
@@ -196,28 +203,23 @@ export interface ConvertToVideoResult {
 }
 
 /**
- * Convert a video item to a GIF.
- * Calls the server to do ffmpeg conversion, returns info to add the new GIF as an image item.
+ * Place an item derived from a source item (a conversion or captured frame) at the
+ * source's visual size, to the right of it.
  */
-export async function convertToGif(
-  sceneId: string,
-  videoItem: VideoItem
-): Promise<ConvertToGifResult> {
-  const hasEdit = !!(videoItem.cropRect || videoItem.speedFactor || videoItem.removeAudio || videoItem.trim)
-  // Edited videos are always saved as mp4; original uses source extension
-  const extension = hasEdit ? 'mp4' : getExtensionFromSrc(videoItem.src, 'mp4')
-
-  const result = await convertMedia(sceneId, videoItem.id, 'gif', hasEdit, extension)
-
+function placeConvertedItem(
+  source: VideoItem | ImageItem,
+  result: ConvertMediaResult,
+  name: string
+): ConvertToGifResult {
   // Calculate visual size from source item
-  const scaleX = videoItem.scaleX ?? 1
-  const scaleY = videoItem.scaleY ?? 1
-  const visualWidth = Math.round(videoItem.width * scaleX)
-  const visualHeight = Math.round(videoItem.height * scaleY)
+  const scaleX = source.scaleX ?? 1
+  const scaleY = source.scaleY ?? 1
+  const visualWidth = Math.round(source.width * scaleX)
+  const visualHeight = Math.round(source.height * scaleY)
   const gap = 20
 
-  const positionX = videoItem.x + visualWidth + gap + visualWidth / 2
-  const positionY = videoItem.y + visualHeight / 2
+  const positionX = source.x + visualWidth + gap + visualWidth / 2
+  const positionY = source.y + visualHeight / 2
 
   return {
     id: result.newItemId,
@@ -228,34 +230,163 @@ export async function convertToGif(
     visualHeight,
     positionX,
     positionY,
-    name: (videoItem.name || 'Video') + '_gif',
+    name,
     fileSize: result.fileSize,
   }
 }
 
+/**
+ * Turn a finished video → GIF conversion into the new image item's placement.
+ * Also used for conversions that finished while the page was reloading.
+ */
+export function getConvertedGif(videoItem: VideoItem, result: ConvertMediaResult): ConvertToGifResult {
+  return placeConvertedItem(videoItem, result, (videoItem.name || 'Video') + '_gif')
+}
+
+/**
+ * Turn a finished GIF → video conversion into the new video item's placement.
+ */
+export function getConvertedVideo(imageItem: ImageItem, result: ConvertMediaResult): ConvertToVideoResult {
+  return placeConvertedItem(imageItem, result, (imageItem.name || 'Image') + '_mp4')
+}
+
+/**
+ * Convert a video item to a GIF.
+ * Calls the server to do ffmpeg conversion, returns info to add the new GIF as an image item.
+ * @param onJob - Receives the background conversion job as it progresses
+ */
+export async function convertToGif(
+  sceneId: string,
+  videoItem: VideoItem,
+  onJob?: (job: MediaJob) => void
+): Promise<ConvertToGifResult> {
+  const hasEdit = !!(videoItem.cropRect || videoItem.speedFactor || videoItem.removeAudio || videoItem.trim || videoItem.segments || videoItem.captions || videoItem.callouts)
+  // Edited videos are always saved as mp4; original uses source extension
+  const extension = hasEdit ? 'mp4' : getExtensionFromSrc(videoItem.src, 'mp4')
+
+  const result = await convertMedia(sceneId, videoItem.id, 'gif', hasEdit, extension, onJob)
+  return getConvertedGif(videoItem, result)
+}
+
 /**
  * Convert a GIF image item to a video.
  * Calls the server to do ffmpeg conversion, returns info to add the new video item.
+ * @param onJob - Receives the background conversion job as it progresses
  */
 export async function convertToVideo(
   sceneId: string,
-  imageItem: ImageItem
+  imageItem: ImageItem,
+  onJob?: (job: MediaJob) => void
 ): Promise<ConvertToVideoResult> {
   const hasEdit = !!imageItem.cropRect
   // Edited GIFs are always saved as gif; original uses source extension
   const extension = 'gif'
 
-  const result = await convertMedia(sceneId, imageItem.id, 'mp4', hasEdit, extension)
+  const result = await convertMedia(sceneId, imageItem.id, 'mp4', hasEdit, extension, onJob)
+  return getConvertedVideo(imageItem, result)
+}
 
-  // Calculate visual size from source item
-  const scaleX = imageItem.scaleX ?? 1
-  const scaleY = imageItem.scaleY ?? 1
-  const visualWidth = Math.round(imageItem.width * scaleX)
-  const visualHeight = Math.round(imageItem.height * scaleY)
+/**
+ * Default playback order for combining videos: left to right, then top to bottom.
+ */
+export function sortVideosByPosition(videoItems: VideoItem[]): VideoItem[] {
+  return [...videoItems].sort((a, b) => {
+    const xDiff = a.x - b.x
+    return xDiff !== 0 ? xDiff : a.y - b.y
+  })
+}
+
+/**
+ * Turn a finished combine into the new video item's placement: below the clips,
+ * as wide as the first one.
+ */
+export function getCombinedVideo(videoItems: VideoItem[], result: ConvertMediaResult): ConvertToVideoResult {
+  const first = videoItems[0]
+  const visualWidth = Math.round(first.width * (first.scaleX ?? 1))
+  const visualHeight = Math.round(visualWidth * result.height / result.width)
   const gap = 20
+  const left = Math.min(...videoItems.map((v) => v.x))
+  const bottom = Math.max(...videoItems.map((v) => v.y + v.height * (v.scaleY ?? 1)))
 
-  const positionX = imageItem.x + visualWidth + gap + visualWidth / 2
-  const positionY = imageItem.y + visualHeight / 2
+  return {
+    id: result.newItemId,
+    url: result.url,
+    pixelWidth: result.width,
+    pixelHeight: result.height,
+    visualWidth,
+    visualHeight,
+    positionX: left + visualWidth / 2,
+    positionY: bottom + gap + visualHeight / 2,
+    name: (first.name || 'Video') + '_combined',
+    fileSize: result.fileSize,
+  }
+}
+
+/**
+ * Join video items end to end, in the given order, into a new video.
+ * Calls the server to do the ffmpeg work, using each clip's edited version if it has one.
+ * @param onJob - Receives the background job as it progresses
+ */
+export async function combineVideoItems(
+  sceneId: string,
+  videoItems: VideoItem[],
+  onJob?: (job: MediaJob) => void
+): Promise<ConvertToVideoResult> {
+  const clips = videoItems.map((videoItem) => {
+    const hasEdit = !!(videoItem.cropRect || videoItem.speedFactor || videoItem.removeAudio || videoItem.trim || videoItem.segments || videoItem.captions || videoItem.callouts)
+    return {
+      videoId: videoItem.id,
+      isEdit: hasEdit,
+      extension: hasEdit ? 'mp4' : getExtensionFromSrc(videoItem.src, 'mp4'),
+    }
+  })
+  const result = await combineVideos(sceneId, clips, onJob)
+  return getCombinedVideo(videoItems, result)
+}
+
+/**
+ * Default tile order for combining images: top to bottom for a vertical strip, otherwise
+ * left to right, then top to bottom.
+ */
+export function sortImagesForLayout(imageItems: ImageItem[], layout: ImageCompositeLayout): ImageItem[] {
+  return [...imageItems].sort((a, b) => {
+    if (layout === 'vertical') {
+      const yDiff = a.y - b.y
+      return yDiff !== 0 ? yDiff : a.x - b.x
+    }
+    const xDiff = a.x - b.x
+    return xDiff !== 0 ? xDiff : a.y - b.y
+  })
+}
+
+/**
+ * Composite image items, in the given order, into a new image placed below them.
+ * Each tile uses the item's edited version, its size on the canvas and its annotations,
+ * and the new item is sized so one canvas unit matches one unit of the layout.
+ */
+export async function combineImageItems(
+  sceneId: string,
+  imageItems: ImageItem[],
+  options: CombineImagesOptions
+): Promise<ConvertToGifResult> {
+  const tiles = imageItems.map((item) => ({
+    imageId: item.id,
+    useEdited: !!item.cropRect || hasImageEdits(item),
+    x: item.x,
+    y: item.y,
+    width: item.width * (item.scaleX ?? 1),
+    height: item.height * (item.scaleY ?? 1),
+    rotation: item.rotation ?? 0,
+    label: item.name || undefined,
+    ...getAnnotationContent(item),
+  }))
+  const result = await combineImages(sceneId, tiles, options)
+
+  const visualWidth = Math.round(result.width / result.scale)
+  const visualHeight = Math.round(result.height / result.scale)
+  const gap = 20
+  const left = Math.min(...imageItems.map((i) => i.x))
+  const bottom = Math.max(...imageItems.map((i) => i.y + i.height * (i.scaleY ?? 1)))
 
   return {
     id: result.newItemId,
@@ -264,9 +395,116 @@ export async function convertToVideo(
     pixelHeight: result.height,
     visualWidth,
     visualHeight,
-    positionX,
-    positionY,
-    name: (imageItem.name || 'Image') + '_mp4',
+    positionX: left + visualWidth / 2,
+    positionY: bottom + gap + visualHeight / 2,
+    name: (imageItems[0].name || 'Image') + '_combined',
+    fileSize: result.fileSize,
+  }
+}
+
+/**
+ * Map a time on a video item's playback timeline to a time in its original file.
+ * The processed (.crop) file the item plays is already trimmed and sped up, so its
+ * timeline is offset by the trim start and scaled by the speed factor, or for a cut
+ * list, made of each kept segment in turn at its own speed.
+ */
+export function getVideoSourceTime(videoItem: VideoItem, playbackTime: number): number {
+  if (!videoItem.cropSrc) return playbackTime
+  if (videoItem.segments?.length) {
+    let remaining = playbackTime
+    for (const segment of videoItem.segments) {
+      const speed = segment.speed ?? videoItem.speedFactor ?? 1
+      const length = (segment.end - segment.start) / speed
+      if (remaining < length) return segment.start + remaining * speed
+      remaining -= length
+    }
+    return videoItem.segments[videoItem.segments.length - 1].end
+  }
+  const trimStart = videoItem.trim ? (videoItem.trimStart ?? 0) : 0
+  return trimStart + playbackTime * (videoItem.speedFactor ?? 1)
+}
+
+/**
+ * Capture the frame of a video item at a time on its playback timeline as a new image,
+ * placed to the right of the video.
+ */
+export async function captureFrame(
+  sceneId: string,
+  videoItem: VideoItem,
+  playbackTime: number
+): Promise<ConvertToGifResult> {
+  const extension = getExtensionFromSrc(videoItem.src, 'mp4')
+  const result = await captureVideoFrame(
+    sceneId,
+    videoItem.id,
+    getVideoSourceTime(videoItem, playbackTime),
+    videoItem.cropRect,
+    extension
+  )
+  return placeConvertedItem(videoItem, result, `${videoItem.name || 'Video'} @ ${formatTimestamp(playbackTime)}`)
+}
+
+export interface NewAudioResult {
+  id: string
+  url: string
+  visualWidth: number
+  visualHeight: number
+  positionX: number
+  positionY: number
+  name: string
+  fileSize: number
+  format: AudioFormat
+  duration?: number
+}
+
+/**
+ * Place a new audio item made from a video or audio item to the right of its source.
+ * Also used for jobs that finished while the page was reloading.
+ */
+export function getNewAudioItem(source: VideoItem | AudioItem, result: AudioItemResult): NewAudioResult {
+  const sourceWidth = source.type === 'video' ? Math.round(source.width * (source.scaleX ?? 1)) : source.width
+  const gap = 20
+  const baseName = source.name || (source.type === 'video' ? 'Video' : 'Audio')
+
+  return {
+    id: result.newItemId,
+    url: result.url,
+    visualWidth: AUDIO_DEFAULT_WIDTH,
+    visualHeight: AUDIO_DEFAULT_HEIGHT,
+    positionX: source.x + sourceWidth + gap + AUDIO_DEFAULT_WIDTH / 2,
+    positionY: source.y + AUDIO_DEFAULT_HEIGHT / 2,
+    name: `${baseName}_${result.format}`,
     fileSize: result.fileSize,
+    format: result.format,
+    duration: result.duration,
   }
 }
+
+/**
+ * Convert an audio item (its trimmed version, if any) to another audio format.
+ * @param onJob - Receives the background conversion job as it progresses
+ */
+export async function convertAudioItem(
+  sceneId: string,
+  audioItem: AudioItem,
+  targetFormat: AudioFormat,
+  onJob?: (job: MediaJob) => void
+): Promise<NewAudioResult> {
+  const result = await convertAudio(sceneId, audioItem.id, targetFormat, !!audioItem.cropSrc, audioItem.format, onJob)
+  return getNewAudioItem(audioItem, result)
+}
+
+/**
+ * Save the sound of a video item (with its edits applied, if any) as a new audio item.
+ * @param onJob - Receives the background extraction job as it progresses
+ */
+export async function extractVideoAudio(
+  sceneId: string,
+  videoItem: VideoItem,
+  onJob?: (job: MediaJob) => void
+): Promise<NewAudioResult> {
+  const hasEdit = !!(videoItem.cropRect || videoItem.speedFactor || videoItem.removeAudio || videoItem.trim || videoItem.segments || videoItem.captions || videoItem.callouts)
+  const extension = hasEdit ? 'mp4' : getExtensionFromSrc(videoItem.src, 'mp4')
+  const result = await extractAudio(sceneId, videoItem.id, hasEdit, extension, 'm4a', onJob)
+  return getNewAudioItem(videoItem, result)
+}
@@ -1,4 +1,5 @@
-import { CanvasItem, TextItem, ImageItem } from '../types'
+import { CanvasItem, TextItem, ImageItem, FrameItem } from '../types'
+import { getFrameMembers, getItemFrame, getOrderedFrames } from './frames'
 
 export interface Bounds {
   x: number
@@ -24,11 +25,17 @@ export type SpatialBlock = SpatialTextBlock | SpatialImageBlock
 // Map of image placeholder IDs to actual source URLs
 export type ImageSourceMap = Map<string, string>
 
-export interface SpatialData {
-  page: { bounds: Bounds }
+export interface SpatialPage {
+  title?: string  // the frame's name
+  bounds: Bounds
   items: SpatialBlock[]
 }
 
+// A single page, or when the content comes from several frames, one page per frame in order
+export type SpatialData =
+  | { page: { bounds: Bounds; title?: string }; items: SpatialBlock[] }
+  | { pages: SpatialPage[] }
+
 export interface SpatialConversionResult {
   spatialData: SpatialData
   imageMap: ImageSourceMap
@@ -43,34 +50,27 @@ function getItemBounds(item: TextItem | ImageItem): Bounds {
   return { x: item.x, y: item.y, width: w, height: h }
 }
 
+function isSpatialItem(item: CanvasItem): item is TextItem | ImageItem {
+  return item.type === 'text' || item.type === 'image'
+}
+
 /**
- * Converts canvas items to a spatial JSON format for HTML generation.
- * Computes a total bounding box shifted to origin (0,0).
- * Each item's bounds are relative to that origin.
- * Images are assigned placeholder IDs to keep the prompt small.
+ * Lay out text and image items on a page. Without a frame, the page is their bounding box
+ * shifted to origin (0,0); with one, it's the frame. Images get the next placeholder IDs.
  */
-export function convertItemsToSpatialJson(items: CanvasItem[]): SpatialConversionResult {
-  // Filter to only text and image items
-  const filteredItems = items.filter(
-    (item): item is TextItem | ImageItem => item.type === 'text' || item.type === 'image'
-  )
-
-  if (filteredItems.length === 0) {
-    return {
-      spatialData: {
-        page: { bounds: { x: 0, y: 0, width: 0, height: 0 } },
-        items: [],
-      },
-      imageMap: new Map(),
-    }
+function convertPage(items: CanvasItem[], imageMap: ImageSourceMap, frame?: FrameItem): SpatialPage {
+  const filteredItems = items.filter(isSpatialItem)
+
+  if (filteredItems.length === 0 && !frame) {
+    return { bounds: { x: 0, y: 0, width: 0, height: 0 }, items: [] }
   }
 
   // Compute total bounding box from all items
   const allBounds = filteredItems.map(getItemBounds)
-  const minX = Math.min(...allBounds.map(b => b.x))
-  const minY = Math.min(...allBounds.map(b => b.y))
-  const maxX = Math.max(...allBounds.map(b => b.x + b.width))
-  const maxY = Math.max(...allBounds.map(b => b.y + b.height))
+  const minX = frame ? frame.x : Math.min(...allBounds.map(b => b.x))
+  const minY = frame ? frame.y : Math.min(...allBounds.map(b => b.y))
+  const maxX = frame ? frame.x + frame.width : Math.max(...allBounds.map(b => b.x + b.width))
+  const maxY = frame ? frame.y + frame.height : Math.max(...allBounds.map(b => b.y + b.height))
 
   const pageBounds: Bounds = {
     x: 0,
@@ -82,9 +82,6 @@ export function convertItemsToSpatialJson(items: CanvasItem[]): SpatialConversio
   // Sort by Y position (top to bottom)
   const sortedItems = [...filteredItems].sort((a, b) => a.y - b.y)
 
-  const imageMap: ImageSourceMap = new Map()
-  let imageCounter = 1
-
   // Convert to spatial blocks with coordinates shifted to origin
   const blocks = sortedItems.map((item): SpatialBlock => {
     const ib = getItemBounds(item)
@@ -102,7 +99,7 @@ export function convertItemsToSpatialJson(items: CanvasItem[]): SpatialConversio
         bounds,
       }
     } else {
-      const imageId = `IMAGE_${imageCounter++}`
+      const imageId = `IMAGE_${imageMap.size + 1}`
       imageMap.set(imageId, item.cropSrc ?? item.src)
       return {
         type: 'image',
@@ -113,12 +110,46 @@ export function convertItemsToSpatialJson(items: CanvasItem[]): SpatialConversio
   })
 
   return {
-    spatialData: {
-      page: { bounds: pageBounds },
-      items: blocks,
-    },
-    imageMap,
+    ...(frame && { title: frame.name }),
+    bounds: pageBounds,
+    items: blocks,
+  }
+}
+
+/**
+ * Converts canvas items to a spatial JSON format for HTML generation.
+ * Computes a total bounding box shifted to origin (0,0).
+ * Each item's bounds are relative to that origin.
+ * Images are assigned placeholder IDs to keep the prompt small.
+ *
+ * Frames in `items` become pages holding their members (looked up in `sceneItems`), in
+ * frame order. Items outside those frames share one more page at the end.
+ */
+export function convertItemsToSpatialJson(items: CanvasItem[], sceneItems: CanvasItem[] = items): SpatialConversionResult {
+  const imageMap: ImageSourceMap = new Map()
+  const frames = getOrderedFrames(items)
+
+  if (frames.length === 0) {
+    const { bounds, items: blocks } = convertPage(items, imageMap)
+    return { spatialData: { page: { bounds }, items: blocks }, imageMap }
+  }
+
+  const frameIds = new Set(frames.map((frame) => frame.id))
+  const pages = frames.map((frame) => convertPage(getFrameMembers(sceneItems, frame), imageMap, frame))
+  const looseItems = items.filter((item) => {
+    if (!isSpatialItem(item)) return false
+    const frame = getItemFrame(sceneItems, item)
+    return !frame || !frameIds.has(frame.id)
+  })
+  if (looseItems.length > 0) {
+    pages.push(convertPage(looseItems, imageMap))
+  }
+
+  if (pages.length === 1) {
+    const [{ title, bounds, items: blocks }] = pages
+    return { spatialData: { page: { bounds, title }, items: blocks }, imageMap }
   }
+  return { spatialData: { pages }, imageMap }
 }
 
 /**
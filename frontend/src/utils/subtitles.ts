@@ -0,0 +1,62 @@
+import { VideoCaption } from '../types'
+
+// "00:01:02,500" (SRT) or "00:01:02.500" / "01:02.500" (VTT)
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/
+const CUE_TIMING = new RegExp(`${CUE_TIME.source}\\s*-->\\s*${CUE_TIME.source}`)
+
+function parseCueTime(match: string[], offset: number): number {
+  const hours = parseInt(match[offset] ?? '0', 10) || 0
+  const mins = parseInt(match[offset + 1], 10)
+  const secs = parseInt(match[offset + 2], 10)
+  const millis = parseInt(match[offset + 3].padEnd(3, '0'), 10)
+  return hours * 3600 + mins * 60 + secs + millis / 1000
+}
+
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMillis = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMillis / 3600000)
+  const mins = Math.floor((totalMillis % 3600000) / 60000)
+  const secs = Math.floor((totalMillis % 60000) / 1000)
+  const millis = totalMillis % 1000
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0')
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${pad(millis, 3)}`
+}
+
+/**
+ * Parse SRT or WebVTT subtitles into captions. Cue numbers, VTT headers, NOTE/STYLE
+ * blocks and cue settings are ignored; simple tags like <i> are stripped from the text.
+ */
+export function parseSubtitles(text: string): VideoCaption[] {
+  const captions: VideoCaption[] = []
+  const blocks = text.replace(/^﻿/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/)
+  for (const block of blocks) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line))
+    if (timingIndex < 0) continue
+    const match = lines[timingIndex].match(CUE_TIMING)!
+    const start = parseCueTime(match, 1)
+    const end = parseCueTime(match, 5)
+    const cueText = lines.slice(timingIndex + 1).join('\n').replace(/<[^>]+>/g, '').trim()
+    if (cueText && end > start) {
+      captions.push({ start, end, text: cueText })
+    }
+  }
+  return captions.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Format captions as an SRT file.
+ */
+export function formatSrt(captions: VideoCaption[]): string {
+  return captions
+    .map((c, i) => `${i + 1}\n${formatCueTime(c.start, ',')} --> ${formatCueTime(c.end, ',')}\n${c.text}\n`)
+    .join('\n')
+}
+
+/**
+ * Format captions as a WebVTT file.
+ */
+export function formatVtt(captions: VideoCaption[]): string {
+  const cues = captions.map((c) => `${formatCueTime(c.start, '.')} --> ${formatCueTime(c.end, '.')}\n${c.text}\n`)
+  return ['WEBVTT\n', ...cues].join('\n')
+}
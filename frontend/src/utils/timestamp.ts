@@ -0,0 +1,24 @@
+/**
+ * Format seconds as a video timestamp, e.g. 72.5 → "1:12.5", 3725 → "1:02:05.0".
+ */
+export function formatTimestamp(seconds: number): string {
+  if (!isFinite(seconds) || seconds < 0) return '0:00.0'
+  const hours = Math.floor(seconds / 3600)
+  const mins = Math.floor((seconds % 3600) / 60)
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0')
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, '0')}:${secs}`
+    : `${mins}:${secs}`
+}
+
+/**
+ * Parse a typed video timestamp into seconds. Accepts plain seconds ("12", "12.5"),
+ * "m:ss" ("0:12", "1:02.5") and "h:mm:ss". Returns null for anything else.
+ */
+export function parseTimestamp(text: string): number | null {
+  const parts = text.trim().split(':')
+  if (parts.length > 3 || parts.some((p) => !/^\d+(\.\d+)?$/.test(p))) return null
+  // Only the seconds field may be fractional
+  if (parts.slice(0, -1).some((p) => p.includes('.'))) return null
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0)
+}